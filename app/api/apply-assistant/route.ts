@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import OpenAI from 'openai'
 import { OPENAI_MODEL, openAIErrorResponse } from '@/lib/openai-model'
+import { formatCvSchemaIssues, parseCvData } from '@/lib/cv-schema'
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY || '',
@@ -13,16 +14,8 @@ interface ApplyAssistantRequest {
     description: string
     requirements?: string
   }
-  cv: {
-    summary: string
-    experience: Array<{
-      title?: string
-      company?: string
-      duration?: string
-      description?: string
-    }>
-    skills: string[]
-  }
+  /** CvData of any schema version; a partial CV (summary, experience, skills) is enough */
+  cv: unknown
   language: string
 }
 
@@ -62,6 +55,15 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const parsed = parseCvData(body.cv)
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { error: `Invalid CV data: ${formatCvSchemaIssues(parsed.issues)}`, issues: parsed.issues },
+        { status: 400 }
+      )
+    }
+    const cv = parsed.data
+
     if (!process.env.OPENAI_API_KEY) {
       return NextResponse.json(
         { error: 'OpenAI API key not configured' },
@@ -71,14 +73,14 @@ export async function POST(request: NextRequest) {
 
     // Prepare CV text for analysis
     const cvText = `
-Summary: ${body.cv.summary || 'None'}
+Summary: ${cv.summary || 'None'}
 
 Experience:
-${body.cv.experience.map((exp, i) => 
-  `${i + 1}. ${exp.title || 'N/A'} at ${exp.company || 'N/A'}\n   ${exp.description || 'No description'}`
+${cv.experience.map((exp, i) => 
+  `${i + 1}. ${exp.jobTitle || 'N/A'} at ${exp.company || 'N/A'}\n   ${exp.bullets.filter(Boolean).join('\n   ') || 'No description'}`
 ).join('\n\n')}
 
-Skills: ${body.cv.skills.join(', ') || 'None listed'}
+Skills: ${cv.skills.join(', ') || 'None listed'}
 `.trim()
 
     // Step 1: Job Analysis
@@ -174,7 +176,7 @@ Return ONLY valid JSON, no additional text.`
     // Step 5: Generate Improved CV Summary
     const improvedSummaryPrompt = `Rewrite the user's CV summary to be tailored specifically for this job. Keep it professional, concise (2-3 sentences), and highlight the most relevant experience and skills.
 
-Original Summary: ${body.cv.summary || 'None'}
+Original Summary: ${cv.summary || 'None'}
 
 Job Title: ${body.job.title}
 Company: ${body.job.company}
@@ -182,9 +184,9 @@ Required Skills: ${jobAnalysis.requiredSkills?.join(', ') || 'Not specified'}
 Key Responsibilities: ${jobAnalysis.responsibilities?.slice(0, 3).join(', ') || 'Not specified'}
 
 User's Relevant Experience:
-${body.cv.experience.slice(0, 3).map(exp => `- ${exp.title || 'Position'} at ${exp.company || 'Company'}: ${exp.description || 'No description'}`).join('\n')}
+${cv.experience.slice(0, 3).map(exp => `- ${exp.jobTitle || 'Position'} at ${exp.company || 'Company'}: ${exp.bullets.filter(Boolean).join(' ') || 'No description'}`).join('\n')}
 
-User's Skills: ${body.cv.skills.join(', ')}
+User's Skills: ${cv.skills.join(', ')}
 
 Return ONLY the improved summary text, no labels or explanations.`
 
@@ -209,8 +211,8 @@ Company: ${body.job.company}
 Job Description: ${body.job.description}
 
 Candidate's Top Strengths: ${comparison.strengths?.slice(0, 3).join(', ') || 'Relevant experience and skills'}
-Candidate's Experience: ${body.cv.experience.slice(0, 2).map(exp => `${exp.title || 'Position'} at ${exp.company || 'Company'}`).join(', ')}
-Candidate's Skills: ${body.cv.skills.slice(0, 5).join(', ')}
+Candidate's Experience: ${cv.experience.slice(0, 2).map(exp => `${exp.jobTitle || 'Position'} at ${exp.company || 'Company'}`).join(', ')}
+Candidate's Skills: ${cv.skills.slice(0, 5).join(', ')}
 
 Write a complete cover letter with greeting and closing. Keep it professional and concise (3-4 paragraphs, approximately 200-250 words).`
 
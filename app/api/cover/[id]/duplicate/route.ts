@@ -0,0 +1,136 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import {
+  coverLetterTitleForJob,
+  normalizeCoverLetterTitle,
+  recordCoverLetterVersion,
+  resolveCvVersion,
+  toCoverLetterData,
+  toCoverLetterLibraryItem,
+} from '@/lib/cover-library'
+
+export const dynamic = 'force-dynamic'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+/**
+ * POST /api/cover/[id]/duplicate
+ * 
+ * Copies a cover letter into a new library entry (version history is not
+ * copied). Passing a job reuses the letter for that job: the copy is linked
+ * to it and its company/role are replaced, ready for editing.
+ * 
+ * Request body (optional):
+ * - title?: string (defaults to "<role> – <company>" when reusing, else "<original title> (copy)")
+ * - jobKey?: string - UnifiedJob.id of the job the copy is for
+ * - company?: string
+ * - role?: string
+ * - cvId?: string - CV the copy is written from (defaults to the source letter's CV)
+ * 
+ * Response:
+ * - { ok: true, cover: CoverLetterLibraryItem } on success (201)
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    // Body is optional for this endpoint
+    const body = await req.json().catch(() => ({}))
+
+    const { data: source, error: fetchError } = await supabase
+      .from('cover_letters')
+      .select('id, title, data, job_key, cv_id, cv_version_id')
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (fetchError || !source) {
+      return NextResponse.json(
+        { ok: false, error: 'Cover letter not found or access denied' },
+        { status: 404 }
+      )
+    }
+
+    const jobKey = typeof body?.jobKey === 'string' && body.jobKey.trim() ? body.jobKey.trim() : null
+    const data = toCoverLetterData(source.data)
+    if (typeof body?.company === 'string') data.company = body.company.trim()
+    if (typeof body?.role === 'string') data.role = body.role.trim()
+
+    const title = typeof body?.title === 'string' && body.title.trim()
+      ? normalizeCoverLetterTitle(body.title)
+      : jobKey
+        ? coverLetterTitleForJob(data)
+        : normalizeCoverLetterTitle(`${source.title || 'Cover Letter'} (copy)`)
+
+    const cv = typeof body?.cvId === 'string' && body.cvId
+      ? await resolveCvVersion(supabase, user.id, body.cvId)
+      : { cvId: source.cv_id ?? null, cvVersionId: source.cv_version_id ?? null }
+
+    const { data: row, error } = await supabase
+      .from('cover_letters')
+      .insert({
+        user_id: user.id,
+        title,
+        data,
+        job_key: jobKey ?? source.job_key ?? null,
+        cv_id: cv.cvId,
+        cv_version_id: cv.cvVersionId,
+      })
+      .select()
+      .single()
+
+    if (error || !row) {
+      console.error('[Cover Duplicate] Insert error:', error)
+      return NextResponse.json(
+        { ok: false, error: error?.message || 'Failed to duplicate cover letter' },
+        { status: 500 }
+      )
+    }
+
+    await recordCoverLetterVersion(supabase, {
+      coverLetterId: row.id,
+      userId: user.id,
+      title,
+      cvVersionId: cv.cvVersionId,
+      data,
+    })
+
+    return NextResponse.json({ ok: true, cover: toCoverLetterLibraryItem(row) }, { status: 201 })
+  } catch (error: any) {
+    console.error('[Cover Duplicate] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { normalizeCoverLetterTitle, toCoverLetterLibraryItem } from '@/lib/cover-library'
+
+export const dynamic = 'force-dynamic'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+/**
+ * PATCH /api/cover/[id]
+ * Renames a cover letter in the user's library.
+ * 
+ * Request body:
+ * - title: string (required)
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    let body
+    try {
+      body = await req.json()
+    } catch (parseError) {
+      console.error('[Cover Rename] JSON parse error:', parseError)
+      return NextResponse.json(
+        { ok: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    if (!body?.title || typeof body.title !== 'string' || !body.title.trim()) {
+      return NextResponse.json(
+        { ok: false, error: 'Title is required and must be a non-empty string' },
+        { status: 400 }
+      )
+    }
+
+    const { data: row, error } = await supabase
+      .from('cover_letters')
+      .update({
+        title: normalizeCoverLetterTitle(body.title),
+        updated_at: new Date().toISOString(),
+      })
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('[Cover Rename] Update error:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to rename cover letter' },
+        { status: 500 }
+      )
+    }
+
+    if (!row) {
+      return NextResponse.json(
+        { ok: false, error: 'Cover letter not found or access denied' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, cover: toCoverLetterLibraryItem(row) })
+  } catch (error: any) {
+    console.error('[Cover Rename] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/cover/[id]
+ * Deletes a cover letter and its version history.
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    // Verify the letter belongs to user before deleting
+    const { data: cover, error: fetchError } = await supabase
+      .from('cover_letters')
+      .select('id')
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (fetchError || !cover) {
+      return NextResponse.json(
+        { ok: false, error: 'Cover letter not found or access denied' },
+        { status: 404 }
+      )
+    }
+
+    // cover_letter_versions rows are removed by ON DELETE CASCADE
+    const { error } = await supabase
+      .from('cover_letters')
+      .delete()
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error('[Cover Delete] Delete error:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to delete cover letter' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    console.error('[Cover Delete] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { toCoverLetterVersion } from '@/lib/cover-library'
+
+export const dynamic = 'force-dynamic'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+/**
+ * GET /api/cover/[id]/versions
+ * 
+ * Returns the saved version history of a cover letter (newest first),
+ * including the CoverLetterData snapshot of each version so the editor can
+ * restore it.
+ * 
+ * Response:
+ * - { ok: true, versions: CoverLetterVersion[] }
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { data: rows, error } = await supabase
+      .from('cover_letter_versions')
+      .select('*')
+      .eq('cover_letter_id', params.id)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('[Cover Versions] Database error:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to fetch cover letter versions' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, versions: (rows || []).map(toCoverLetterVersion) })
+  } catch (error: any) {
+    console.error('[Cover Versions] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,144 +1,264 @@
-import { NextResponse } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import OpenAI from 'openai'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
 import { OPENAI_MODEL, openAIErrorResponse } from '@/lib/openai-model'
+import { parseCvData } from '@/lib/cv-schema'
+import { formatGroundingForPrompt, groundCoverLetter, type CoverLetterGrounding } from '@/lib/cover-evidence'
+import { getJobDetails } from '@/lib/jobs/details'
+import { buildFactSource, guardGeneratedText, parseFactCheckMode, type FactCheckMode } from '@/lib/hallucination-guard'
+
+export const dynamic = 'force-dynamic'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY || '',
 })
 
+type GenerateMode = 'Executive' | 'Creative' | 'Academic' | 'Technical' | 'Body Only'
+
 interface GenerateRequest {
-  applicantName: string
-  recipientName?: string
+  /** Saved CV to write from; defaults to the user's latest CV */
+  cvId?: string
+  /** UnifiedJob.id of the job; its description is fetched when none is pasted */
+  jobId?: string
+  jobDescription?: string
+  jobTitle?: string
   company?: string
-  cityState?: string
-  role?: string
-  mode: 'Executive' | 'Creative' | 'Academic' | 'Technical' | 'Body Only'
-  keywords: string
-  industry?: string
-  topSkills?: string
-  experienceSnippet?: string
+  applicantName?: string
+  recipientName?: string
+  mode?: GenerateMode
+  factCheck?: FactCheckMode
+}
+
+const MAX_WORDS = 180
+
+const modeGuide: Record<GenerateMode, string> = {
+  Executive: 'professional and strategic tone, focus on leadership and business impact',
+  Creative: 'dynamic and engaging tone, highlight creativity and innovation',
+  Academic: 'formal scholarly tone, emphasize research and intellectual contributions',
+  Technical: 'precise and technical tone, focus on technical expertise and problem-solving',
+  'Body Only': 'natural and confident tone, focus on achievements and role fit',
+}
+
+/**
+ * Title, company and description of a job by its UnifiedJob.id, from the
+ * same lookup as /api/jobs/[id] (provider caching and rate limits included)
+ */
+async function fetchJob(jobId: string): Promise<{ title: string; company: string; description: string } | null> {
+  try {
+    const job = await getJobDetails(jobId)
+    if (!job) return null
+    return {
+      title: job.title || '',
+      company: job.company || '',
+      description: job.description || '',
+    }
+  } catch (error) {
+    console.error('[Cover Generate] Failed to fetch job:', error)
+    return null
+  }
 }
 
-export async function POST(req: Request) {
+/**
+ * Letter body built only from the grounding, used when OpenAI is not configured
+ */
+function mockLetter(grounding: CoverLetterGrounding, jobTitle: string, company: string): string {
+  const [first, second] = grounding.experiences
+  const evidenced = grounding.requirements.filter((req) => req.evidence.length > 0).map((req) => req.requirement.toLowerCase())
+  const paragraphs = [
+    `I am writing to apply for the ${jobTitle || 'role'}${company ? ` at ${company}` : ''}.${
+      evidenced.length > 0 ? ` My CV shows experience with ${evidenced.slice(0, 4).join(', ')}, which your advert asks for.` : ''
+    }`,
+  ]
+  if (first) {
+    paragraphs.push(
+      `In my role as ${first.jobTitle || 'a member of the team'}${first.company ? ` at ${first.company}` : ''}, ${
+        first.bullets.length > 0
+          ? `my work included: ${first.bullets.map((bullet) => bullet.replace(/[.;]+$/, '').replace(/^\w/, (c) => c.toLowerCase())).join('; ')}`
+          : 'I built experience relevant to this role'
+      }.${second ? ` Before that, I worked as ${second.jobTitle || 'part of the team'}${second.company ? ` at ${second.company}` : ''}.` : ''}`
+    )
+  }
+  return paragraphs.join('\n\n')
+}
+
+/**
+ * POST /api/cover/generate
+ *
+ * Writes a cover letter body grounded in the user's saved CV and the job ad.
+ * The two or three most relevant experiences are picked automatically, and
+ * each requirement in the ad is mapped to evidence from the CV so the user
+ * can check nothing was invented. The letter is then fact-checked against the
+ * CV: names and dates must appear in the CV or the job ad, figures and
+ * qualifications in the CV; anything else is returned in `unverified`, or
+ * stripped with factCheck: 'strip'.
+ *
+ * Request body:
+ * - cvId?: string (defaults to the user's latest saved CV)
+ * - jobId?: string (UnifiedJob.id) and/or jobDescription?: string (pasted ad; one is required)
+ * - jobTitle?, company?: string (override the fetched job's)
+ * - applicantName?, recipientName?: string
+ * - mode?: 'Executive' | 'Creative' | 'Academic' | 'Technical' | 'Body Only'
+ * - factCheck?: 'flag' | 'strip' (default 'flag')
+ *
+ * Response:
+ * - { ok: true, letter, cvId, requirements: CoverRequirementEvidence[], experiences: CoverExperienceHighlight[], unverified: UnverifiedClaim[] }
+ * - { ok: false, error } on error
+ * - 401 if not authenticated
+ */
+export async function POST(req: NextRequest) {
   try {
-    const body = await req.json()
-    const {
-      applicantName,
-      recipientName,
-      company,
-      cityState,
-      role,
-      mode = 'Executive',
-      keywords,
-      industry,
-      topSkills,
-      experienceSnippet,
-    }: GenerateRequest = body
-
-    console.log('[Cover Generate] payload:', body)
-
-    if (!keywords || keywords.trim().length === 0) {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
       return NextResponse.json(
-        { ok: false, error: 'Keywords are required' },
-        { status: 400 }
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
       )
     }
 
-    const isBodyOnlyMode = mode === 'Body Only'
+    let body: GenerateRequest
+    try {
+      body = await req.json()
+    } catch (parseError) {
+      console.error('[Cover Generate] JSON parse error:', parseError)
+      return NextResponse.json(
+        { ok: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
 
-    // Check if API key is configured
-    if (!process.env.OPENAI_API_KEY) {
-      console.warn('[AI MOCK] no OPENAI_API_KEY')
-      {
-        // Simple mock that respects body-only + brevity; capped at ~180 words
-        const mock = `With a strong background in ${keywords}, I bring a track record of delivering measurable results in ${role || 'the role'}${company ? ` at ${company}` : ''}. I have led initiatives that improved quality, efficiency and stakeholder outcomes, working cross‑functionally and communicating clearly with technical and non‑technical teams.
+    const mode: GenerateMode = typeof body.mode === 'string' && Object.prototype.hasOwnProperty.call(modeGuide, body.mode)
+      ? body.mode
+      : 'Executive'
+    const cvId = typeof body.cvId === 'string' && body.cvId ? body.cvId : null
+    const jobId = typeof body.jobId === 'string' && body.jobId ? body.jobId : null
 
-I am motivated by ownership and high standards, and I adapt quickly to new domains. I am confident I can add value from day one by focusing on priorities, simplifying complex problems and following through.`
-        return NextResponse.json({ ok: true, body: mock.trim(), letter: mock.trim() })
+    // Job: the pasted ad wins, otherwise the job's own description
+    let jobDescription = typeof body.jobDescription === 'string' ? body.jobDescription.trim() : ''
+    let jobTitle = typeof body.jobTitle === 'string' ? body.jobTitle.trim() : ''
+    let company = typeof body.company === 'string' ? body.company.trim() : ''
+    if (jobId && (!jobDescription || !jobTitle || !company)) {
+      const job = await fetchJob(jobId)
+      if (job) {
+        jobDescription = jobDescription || job.description
+        jobTitle = jobTitle || job.title
+        company = company || job.company
       }
     }
 
-    const modeGuide: Record<string, string> = {
-      Executive: 'professional and strategic tone, focus on leadership and business impact',
-      Creative: 'dynamic and engaging tone, highlight creativity and innovation',
-      Academic: 'formal scholarly tone, emphasize research and intellectual contributions',
-      Technical: 'precise and technical tone, focus on technical expertise and problem-solving',
+    if (!jobDescription) {
+      return NextResponse.json(
+        { ok: false, error: jobId ? 'Could not load the job description. Paste it instead.' : 'A job ID or job description is required' },
+        { status: 400 }
+      )
     }
 
-    const location = cityState ? ` in ${cityState}` : ''
-
-    // Handle Body Only mode
-    if (isBodyOnlyMode) {
-      const roleTitle = role || 'the position'
-      const industryText = industry || 'the industry'
-      const keywordsList = keywords.split(',').map(k => k.trim()).join(', ')
-      const candidateHighlights = topSkills || experienceSnippet || keywordsList
-
-      const systemPrompt = `You are a professional cover-letter writer. Output body-only text in UK English: no greeting, no sign-off, no name. Use 2–3 short paragraphs, natural and confident. Strictly maximum 180 words. Focus on achievements and role fit; avoid repetition or filler.
-Prioritise specifics over buzzwords (e.g., "reduced load time by 28%"). If data lacks numbers, infer subtle, plausible qualitative impact without inventing unverifiable facts. No headings, placeholders, brackets, bullet points, or explanations.`
-
-      const userPrompt = `Write only the cover-letter body tailored to the role below.
-
-Rules:
-- UK English
-- 2–3 short paragraphs
-- ≤ 180 words total
-- No greeting, sign-off, names, headings, bullets, or placeholders
-- Natural, confident tone; focus on achievements and fit; avoid repetition
-
-Role & keywords: ${roleTitle}${company ? ` at ${company}` : ''} (${keywordsList})
-My relevant experience (bullets or sentences):
-
-${candidateHighlights}`
-
-      const completion = await openai.chat.completions.create({
-        model: OPENAI_MODEL,
-        messages: [
-          {
-            role: 'system',
-            content: systemPrompt,
-          },
-          {
-            role: 'user',
-            content: userPrompt,
-          },
-        ],
-        temperature: 0.6,
-        max_tokens: 260,
-      })
+    // CV: the requested one, or the latest saved
+    let cvQuery = supabase
+      .from('cvs')
+      .select('id, data')
+      .eq('user_id', user.id)
+    if (cvId) {
+      cvQuery = cvQuery.eq('id', cvId)
+    }
+    const { data: cvRow, error: cvError } = await cvQuery
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
 
-      let body = (completion.choices[0]?.message?.content || '').trim()
-      // Enforce body-only and word limit defensively
-      body = body.replace(/^Dear\s+[^,]+,?\s*\n?/gim, '')
-      body = body.replace(/\s*(Sincerely|Best regards|Regards|Respectfully|Thank you|Cordially|With appreciation),?\s*$/gim, '')
-      const words = body.split(/\s+/).filter(Boolean)
-      if (words.length > 180) {
-        body = words.slice(0, 180).join(' ')
-      }
-      // Normalise to 2–3 paragraphs max
-      const paras = body.split(/\n{2,}/).map(p => p.trim()).filter(Boolean)
-      if (paras.length > 3) {
-        body = paras.slice(0, 3).join('\n\n')
+    if (cvError) {
+      console.error('[Cover Generate] CV query error:', cvError)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to load CV' },
+        { status: 500 }
+      )
+    }
+
+    if (!cvRow) {
+      return NextResponse.json(
+        { ok: false, error: cvId ? 'CV not found or access denied' : 'Save a CV first so the letter can be based on it' },
+        { status: cvId ? 404 : 400 }
+      )
+    }
+
+    const cv = parseCvData(cvRow.data).data
+    const grounding = groundCoverLetter(cv, jobDescription)
+    const applicantName = (typeof body.applicantName === 'string' && body.applicantName.trim()) || cv.personalInfo.fullName
+
+    console.log('[Cover Generate] grounding:', {
+      cvId: cvRow.id,
+      jobId,
+      requirements: grounding.requirements.length,
+      evidenced: grounding.requirements.filter((req) => req.evidence.length > 0).length,
+      experiences: grounding.experiences.map((exp) => exp.index),
+    })
+    // Names and dates may come from the ad (the company, the role); figures and qualifications may not,
+    // except as part of the role or company name ("Band 5 Nurse")
+    const factSource = buildFactSource({
+      cv,
+      inputs: [applicantName],
+      context: [jobDescription, body.recipientName],
+      names: [jobTitle, company],
+    })
+    const factCheck = parseFactCheckMode(body.factCheck)
+    const respond = (letter: string) => {
+      const guarded = guardGeneratedText(letter, factSource, { mode: factCheck, path: 'letter' })
+      if (guarded.unverified.length > 0) {
+        console.log('[Cover Generate] unverified claims:', guarded.unverified.length, factCheck)
       }
-      return NextResponse.json({ ok: true, body: body.trim(), letter: body.trim() })
+      return NextResponse.json({
+        ok: true,
+        letter: guarded.text,
+        cvId: cvRow.id,
+        requirements: grounding.requirements,
+        experiences: grounding.experiences,
+        unverified: guarded.unverified,
+      })
+    }
+
+    // Check if API key is configured
+    if (!process.env.OPENAI_API_KEY) {
+      console.warn('[AI MOCK] no OPENAI_API_KEY')
+      return respond(mockLetter(grounding, jobTitle, company))
     }
 
-    const systemPrompt = `You are an expert cover-letter writer. Output BODY-ONLY text in UK English: no greeting, no sign-off, no name. Use a ${modeGuide[mode]} tone (${mode.toLowerCase()} style). Follow strictly:
+    const systemPrompt = `You are an expert cover-letter writer. Output BODY-ONLY text in UK English: no greeting, no sign-off, no name. Use a ${modeGuide[mode]}. Follow strictly:
 1) 2–3 short paragraphs
-2) Maximum 180 words total
-3) Focus on achievements and fit for the role; avoid repetition and filler
-4) Mention the company if provided; no headings, bullets, or placeholders`
+2) Maximum ${MAX_WORDS} words total
+3) Use ONLY facts from the candidate's CV evidence below. Never invent employers, job titles, numbers, dates, qualifications, tools or skills
+4) Build the letter around the listed experiences; mention requirements the CV evidences, and do not claim the ones it does not
+5) Mention the company if provided; no headings, bullets, or placeholders`
 
-    const userPrompt = `Write only the body of a cover letter tailored to ${role || 'the position'}${company ? ` at ${company}` : ''}${location}.
+    const userPrompt = `Write only the body of a cover letter for ${jobTitle || 'the position'}${company ? ` at ${company}` : ''}.
+${body.recipientName ? `\nAddressed to: ${body.recipientName}` : ''}
+Candidate: ${applicantName || 'the candidate'}
 
-Key expertise areas to highlight: ${keywords}
+${formatGroundingForPrompt(grounding)}
 
-Constraints:
-- UK English; 2–3 short paragraphs; ≤ 180 words total
-- No greeting, sign-off, names, headings, bullets, or placeholders
-- Natural, confident tone; emphasise measurable impact and role fit
-${company ? `\nCompany context: ${company}` : ''}
-${role ? `\nPosition: ${role}` : ''}`
+Job advert:
+${jobDescription.slice(0, 6000)}`
 
     const completion = await openai.chat.completions.create({
       model: OPENAI_MODEL,
@@ -152,11 +272,11 @@ ${role ? `\nPosition: ${role}` : ''}`
           content: userPrompt,
         },
       ],
-      temperature: 0.6,
+      temperature: 0.4,
       max_tokens: 300,
     })
 
-    let letter = (completion.choices[0]?.message?.content || '').trim()
+    const letter = (completion.choices[0]?.message?.content || '').trim()
 
     // Clean up excessive spacing and ensure body-only output
     let cleanedBody = letter
@@ -165,20 +285,19 @@ ${role ? `\nPosition: ${role}` : ''}`
       .replace(/\n{3,}/g, '\n\n')
       .trim()
 
-    // Enforce 180-word cap and 2–3 paragraphs defensively
+    // Enforce the word cap and 2–3 paragraphs defensively
     const w = cleanedBody.split(/\s+/).filter(Boolean)
-    if (w.length > 180) {
-      cleanedBody = w.slice(0, 180).join(' ')
+    if (w.length > MAX_WORDS) {
+      cleanedBody = w.slice(0, MAX_WORDS).join(' ')
     }
     const ps = cleanedBody.split(/\n{2,}/).map(p => p.trim()).filter(Boolean)
     if (ps.length > 3) {
       cleanedBody = ps.slice(0, 3).join('\n\n')
     }
 
-    const response = { ok: true, letter: cleanedBody }
     console.log('[Cover Generate] response length:', cleanedBody.length)
 
-    return NextResponse.json(response)
+    return respond(cleanedBody)
   } catch (error: unknown) {
     const { body, status } = openAIErrorResponse(error, 'Failed to generate cover letter. Please try again.')
     return NextResponse.json(body, { status })
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
+import { toCoverLetterData, toCoverLetterLibraryItem } from '@/lib/cover-library'
 
 export const dynamic = 'force-dynamic'
 
@@ -12,8 +13,12 @@ const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
  * 
  * Fetches the latest saved cover letter for the authenticated user from the database.
  * 
+ * Query parameters:
+ * - coverId?: string - Fetch a specific letter from the user's library
+ * - jobKey?: string - Fetch the latest letter written for this job (UnifiedJob.id)
+ * 
  * Response:
- * - { ok: true, hasCover: boolean, cover: {...} | null }
+ * - { ok: true, hasCover: boolean, cover: CoverLetterData | null, meta?: {...}, item?: CoverLetterLibraryItem }
  * - { ok: false, error: string } on error
  * - 401 if not authenticated
  */
@@ -49,11 +54,20 @@ export async function GET(req: NextRequest) {
       )
     }
 
+    const coverId = req.nextUrl.searchParams.get('coverId')
+    const jobKey = req.nextUrl.searchParams.get('jobKey')
+
     // Query the latest cover letter for this user (order by updated_at desc, limit 1)
-    const { data: coverRows, error: queryError } = await supabase
+    let coverQuery = supabase
       .from('cover_letters')
       .select('*')
       .eq('user_id', user.id)
+    if (coverId) {
+      coverQuery = coverQuery.eq('id', coverId)
+    } else if (jobKey) {
+      coverQuery = coverQuery.eq('job_key', jobKey)
+    }
+    const { data: coverRows, error: queryError } = await coverQuery
       .order('updated_at', { ascending: false })
       .limit(1)
 
@@ -79,7 +93,7 @@ export async function GET(req: NextRequest) {
     const coverRow = coverRows[0]
 
     // The cover letter data is stored in the 'data' column as a JSONB object
-    const coverData = coverRow.data || {}
+    const coverData = toCoverLetterData(coverRow.data)
 
     return NextResponse.json({
       ok: true,
@@ -89,9 +103,12 @@ export async function GET(req: NextRequest) {
         id: coverRow.id,
         title: coverRow.title,
         job_key: coverRow.job_key,
+        cv_id: coverRow.cv_id ?? null,
+        cv_version_id: coverRow.cv_version_id ?? null,
         updated_at: coverRow.updated_at,
         created_at: coverRow.created_at,
       },
+      item: toCoverLetterLibraryItem(coverRow),
     })
   } catch (error: any) {
     console.error('[COVER GET] Unexpected error:', error)
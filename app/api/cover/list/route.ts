@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { toCoverLetterLibraryItem } from '@/lib/cover-library'
+
+export const dynamic = 'force-dynamic'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+/**
+ * GET /api/cover/list
+ * 
+ * Lists every cover letter in the authenticated user's library (most recently
+ * updated first). Load a letter's data with /api/cover/get-latest?coverId=...
+ * 
+ * Query parameters:
+ * - jobKey?: string - Only letters written for this job (UnifiedJob.id)
+ * 
+ * Response:
+ * - { ok: true, covers: CoverLetterLibraryItem[] }
+ * - { ok: false, error: string } on error
+ * - 401 if not authenticated
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const jobKey = req.nextUrl.searchParams.get('jobKey')
+
+    // data is needed for the company/role shown in the picker
+    let query = supabase
+      .from('cover_letters')
+      .select('id, title, job_key, cv_id, cv_version_id, data, created_at, updated_at')
+      .eq('user_id', user.id)
+    if (jobKey) {
+      query = query.eq('job_key', jobKey)
+    }
+    const { data: rows, error } = await query.order('updated_at', { ascending: false })
+
+    if (error) {
+      console.error('[Cover List] Database error:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to fetch cover letters' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, covers: (rows || []).map(toCoverLetterLibraryItem) })
+  } catch (error: any) {
+    console.error('[Cover List] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,6 +2,13 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
 import { logEvent } from '@/lib/analytics/logEvent'
+import {
+  normalizeCoverLetterTitle,
+  recordCoverLetterVersion,
+  resolveCvVersion,
+  toCoverLetterData,
+  toCoverLetterLibraryItem,
+} from '@/lib/cover-library'
 
 export const dynamic = 'force-dynamic'
 
@@ -11,16 +18,21 @@ const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 /**
  * POST /api/cover/upsert
  * 
- * Creates or updates a cover letter for the authenticated user in the database.
- * Uses manual upsert logic: first check if row exists, then update or insert.
+ * Creates or updates a cover letter in the authenticated user's library.
+ * With coverId, updates that letter. Without it, updates the latest letter for
+ * jobKey (or the latest letter with no job) and inserts one if there is none.
+ * Every save links the letter to the CV version it was written from and is
+ * snapshotted into cover_letter_versions.
  * 
  * Request body:
- * - title?: string (optional, defaults to 'Cover Letter')
- * - job_key?: string (optional, job ID this cover letter is for)
- * - data: object (Cover letter data object)
+ * - coverId?: string (optional, library letter to update)
+ * - title?: string (optional, defaults to 'Cover Letter' on insert; renames on update)
+ * - jobKey?: string (optional, UnifiedJob.id of the job; `job_key` is accepted too)
+ * - cvId?: string (optional, CV the letter was written from; defaults to the latest CV)
+ * - data: CoverLetterData
  * 
  * Response:
- * - { ok: true, coverId: string, updatedAt: string } on success
+ * - { ok: true, coverId: string, updatedAt: string, cover: CoverLetterLibraryItem } on success
  * - { ok: false, error, code?, details?, hint? } on error
  * - 401 if not authenticated
  */
@@ -69,24 +81,36 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    // Extract title, job_key, and data from request body
-    const title = body.title ?? 'Cover Letter'
-    const job_key = body.job_key ?? null
-    const data = body.data
+    const coverId: string | null = typeof body.coverId === 'string' && body.coverId ? body.coverId : null
+    // Only rename an existing letter when a title is explicitly sent
+    const hasTitle = typeof body.title === 'string' && body.title.trim().length > 0
+    const title = normalizeCoverLetterTitle(body.title)
+    const rawJobKey = body.jobKey ?? body.job_key
+    const jobKey: string | null = typeof rawJobKey === 'string' && rawJobKey ? rawJobKey : null
+    const cvId: string | null = typeof body.cvId === 'string' && body.cvId ? body.cvId : null
 
-    if (!data) {
+    if (!body.data || typeof body.data !== 'object') {
       console.error('[COVER UPSERT] Missing data in request body')
       return NextResponse.json(
         { ok: false, error: 'Missing required field: data' },
         { status: 400 }
       )
     }
+    const data = toCoverLetterData(body.data)
 
-    // First query: check if row exists for this user
-    const { data: existingRows, error: queryError } = await supabase
+    // Find the row to update: the requested letter, else the latest one for this job
+    let existingQuery = supabase
       .from('cover_letters')
       .select('id')
       .eq('user_id', user.id)
+    if (coverId) {
+      existingQuery = existingQuery.eq('id', coverId)
+    } else if (jobKey) {
+      existingQuery = existingQuery.eq('job_key', jobKey)
+    } else {
+      existingQuery = existingQuery.is('job_key', null)
+    }
+    const { data: existingRows, error: queryError } = await existingQuery
       .order('updated_at', { ascending: false })
       .limit(1)
 
@@ -104,8 +128,16 @@ export async function POST(req: NextRequest) {
       )
     }
 
+    if (coverId && (!existingRows || existingRows.length === 0)) {
+      return NextResponse.json(
+        { ok: false, error: 'Cover letter not found or access denied' },
+        { status: 404 }
+      )
+    }
+
+    const cvLink = await resolveCvVersion(supabase, user.id, cvId)
+
     let result
-    let coverId: string
     let updatedAt: string
 
     if (existingRows && existingRows.length > 0) {
@@ -116,11 +148,14 @@ export async function POST(req: NextRequest) {
       const { data: updatedRow, error: updateError } = await supabase
         .from('cover_letters')
         .update({
-          title: title,
-          job_key: job_key,
+          ...(hasTitle ? { title } : {}),
+          ...(jobKey ? { job_key: jobKey } : {}),
+          cv_id: cvLink.cvId,
+          cv_version_id: cvLink.cvVersionId,
           data: data,
           updated_at: new Date().toISOString(),
         })
+        .eq('id', existingId)
         .eq('user_id', user.id)
         .select()
         .single()
@@ -148,7 +183,6 @@ export async function POST(req: NextRequest) {
       }
 
       result = updatedRow
-      coverId = updatedRow.id
       updatedAt = updatedRow.updated_at || new Date().toISOString()
       console.log('[UPSERT] updated_at', updatedAt)
     } else {
@@ -158,7 +192,9 @@ export async function POST(req: NextRequest) {
         .insert({
           user_id: user.id,
           title: title,
-          job_key: job_key,
+          job_key: jobKey,
+          cv_id: cvLink.cvId,
+          cv_version_id: cvLink.cvVersionId,
           data: data,
         })
         .select()
@@ -187,17 +223,25 @@ export async function POST(req: NextRequest) {
       }
 
       result = insertedRow
-      coverId = insertedRow.id
       updatedAt = insertedRow.updated_at || new Date().toISOString()
     }
 
+    await recordCoverLetterVersion(supabase, {
+      coverLetterId: result.id,
+      userId: user.id,
+      title: result.title ?? title,
+      cvVersionId: cvLink.cvVersionId,
+      data,
+    })
+
     logEvent('cover_letter_generated', {}, supabase).catch(() => {})
-    console.log('[COVER UPSERT]', user.id, result)
+    console.log('[COVER UPSERT]', user.id, result.id)
 
     return NextResponse.json({
       ok: true,
-      coverId: coverId,
+      coverId: result.id,
       updatedAt: updatedAt,
+      cover: toCoverLetterLibraryItem(result),
     })
   } catch (error: any) {
     // Catch-all for unexpected errors
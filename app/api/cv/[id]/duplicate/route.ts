@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { logEvent } from '@/lib/analytics/logEvent'
+import { normalizeCvTitle, recordCvVersion, toCvLibraryItem } from '@/lib/cv-library'
+import { parseCvData } from '@/lib/cv-schema'
+
+export const dynamic = 'force-dynamic'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+/**
+ * POST /api/cv/[id]/duplicate
+ * 
+ * Copies a CV into a new library entry (version history is not copied).
+ * 
+ * Request body (optional):
+ * - title?: string (defaults to "<original title> (copy)")
+ * 
+ * Response:
+ * - { ok: true, cv: CvLibraryItem } on success (201)
+ */
+export async function POST(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    // Body is optional for this endpoint
+    const body = await req.json().catch(() => ({}))
+
+    const { data: source, error: fetchError } = await supabase
+      .from('cvs')
+      .select('id, title, data')
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (fetchError || !source) {
+      return NextResponse.json(
+        { ok: false, error: 'CV not found or access denied' },
+        { status: 404 }
+      )
+    }
+
+    const title = typeof body?.title === 'string' && body.title.trim()
+      ? normalizeCvTitle(body.title)
+      : normalizeCvTitle(`${source.title || 'My CV'} (copy)`)
+    // The copy is stored at the current schema version
+    const { data } = parseCvData(source.data)
+
+    const { data: row, error } = await supabase
+      .from('cvs')
+      .insert({
+        user_id: user.id,
+        title,
+        data,
+      })
+      .select()
+      .single()
+
+    if (error || !row) {
+      console.error('[CV Duplicate] Insert error:', error)
+      return NextResponse.json(
+        { ok: false, error: error?.message || 'Failed to duplicate CV' },
+        { status: 500 }
+      )
+    }
+
+    await recordCvVersion(supabase, { cvId: row.id, userId: user.id, title, data })
+    logEvent('cv_created', { duplicatedFrom: source.id }, supabase).catch(() => {})
+
+    return NextResponse.json({ ok: true, cv: toCvLibraryItem(row) }, { status: 201 })
+  } catch (error: any) {
+    console.error('[CV Duplicate] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
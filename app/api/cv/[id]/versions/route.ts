@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { toCvVersion } from '@/lib/cv-library'
+
+export const dynamic = 'force-dynamic'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+/**
+ * GET /api/cv/[id]/versions
+ * 
+ * Returns the saved version history of a CV (newest first), including the
+ * CvData snapshot of each version so the builder can restore it.
+ * 
+ * Response:
+ * - { ok: true, versions: CvVersion[] }
+ */
+export async function GET(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { data: rows, error } = await supabase
+      .from('cv_versions')
+      .select('*')
+      .eq('cv_id', params.id)
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('[CV Versions] Database error:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to fetch CV versions' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, versions: (rows || []).map(toCvVersion) })
+  } catch (error: any) {
+    console.error('[CV Versions] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import OpenAI from 'openai'
 import { OPENAI_MODEL, openAIErrorResponse } from '@/lib/openai-model'
+import { buildFactSource, guardGeneratedText, parseFactCheckMode, parseFactSourceCv } from '@/lib/hallucination-guard'
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY || '',
@@ -84,6 +85,25 @@ function extractGenericSkills(skills: string[] | undefined, latestRole: string |
   return [...new Set(foundSkills)].join(', ')
 }
 
+/**
+ * POST /api/cv/ai-summary
+ *
+ * Improves the CV summary, or writes one from target-role keywords. The result
+ * is checked against the CV and the summary, skills, latest role, experience
+ * preview and instruction the user sent; names, figures, qualifications and dates that
+ * appear in none of them are returned in `unverified`, or stripped with
+ * factCheck: 'strip'.
+ *
+ * Request body:
+ * - summary?: string (required unless instruction asks for keyword generation)
+ * - instruction?: string, personalInfo?, skills?: string[], latestRole?, experiencePreview?: string
+ * - cvData?: CvData (the CV being edited, used as a fact source)
+ * - factCheck?: 'flag' | 'strip' (default 'flag')
+ *
+ * Response:
+ * - { ok: true, summary, unverified: UnverifiedClaim[] }
+ * - { ok: false, error, issues? } on error (400 for invalid cvData)
+ */
 export async function POST(req: Request) {
   try {
     const body = await req.json()
@@ -96,15 +116,27 @@ export async function POST(req: Request) {
       return NextResponse.json({ ok: false, error: 'Summary is required' }, { status: 400 })
     }
 
-    // Check if API key is configured
-    if (!process.env.OPENAI_API_KEY) {
-      console.warn('[AI MOCK] no OPENAI_API_KEY')
+    const factCheck = parseFactCheckMode(body.factCheck)
+    const { cv, error: cvError, issues } = parseFactSourceCv(body.cvData)
+    if (cvError) {
+      return NextResponse.json({ ok: false, error: cvError, issues }, { status: 400 })
+    }
+    const factSource = buildFactSource({ cv, inputs: [summary, personalInfo, skills, latestRole, experiencePreview, instruction] })
+    const respond = (generated: string) => {
+      const guarded = guardGeneratedText(generated, factSource, { mode: factCheck })
       return NextResponse.json({
         ok: true,
-        summary: isKeywordGeneration ? `[MOCK] ${instruction}` : `[MOCK] ${instruction}\n\n${summary}`,
+        summary: guarded.text || summary || '',
+        unverified: guarded.unverified,
       })
     }
 
+    // Check if API key is configured
+    if (!process.env.OPENAI_API_KEY) {
+      console.warn('[AI MOCK] no OPENAI_API_KEY')
+      return respond(isKeywordGeneration ? `[MOCK] ${instruction}` : `[MOCK] ${instruction}\n\n${summary}`)
+    }
+
     // Extract keywords if this is keyword generation
     let keywords = ''
     if (isKeywordGeneration) {
@@ -194,6 +226,7 @@ export async function POST(req: Request) {
 - Write in neutral, no-pronoun resume style (no "I", "my", "he/she")
 - Keep it professional, concise, and ATS-friendly
 - Maintain the core message and key achievements
+- Never add employers, qualifications, numbers or dates that are not in the provided context
 - Write in English only
 - Return ONLY the improved summary text, no explanations or labels
 - Single paragraph only. No bullets, headings, or labels. 60–100 words max (unless instructed otherwise).
@@ -284,10 +317,7 @@ Return only the improved summary text.`
 
     const improvedSummary = completion.choices[0]?.message?.content || (isKeywordGeneration ? '' : summary)
 
-    return NextResponse.json({
-      ok: true,
-      summary: improvedSummary.trim(),
-    })
+    return respond(improvedSummary.trim())
   } catch (error: unknown) {
     const { body, status } = openAIErrorResponse(error, 'Failed to improve summary. Please try again.')
     return NextResponse.json(body, { status })
@@ -140,7 +140,7 @@ Return only the tailored summary text.`,
           messages: [
             {
               role: 'system',
-              content: `You are an expert at tailoring CV experience sections to job descriptions. Reorder and enhance experience entries to emphasize relevance to the job. Return the tailored experience array as JSON. Each experience entry must have: id, jobTitle, company, and bullets array. Preserve all other fields like location, startDate, endDate, isCurrent.`,
+              content: `You are an expert at tailoring CV experience sections to job descriptions. Reorder and enhance experience entries to emphasize relevance to the job. Return the tailored experience array as JSON. Each experience entry must have: id, jobTitle, company, and bullets array. Preserve all other fields like location, startDate, endDate, start, end, isCurrent.`,
             },
             {
               role: 'user',
@@ -152,7 +152,7 @@ ${JSON.stringify(experience, null, 2)}
 Job description:
 ${jobDescription}
 
-Return the tailored experience array as JSON with the same structure. Keep all original data (id, jobTitle, company, location, startDate, endDate, isCurrent) but reorder entries by relevance and enhance bullets to match the job. Each entry must have a bullets array.`,
+Return the tailored experience array as JSON with the same structure. Keep all original data (id, jobTitle, company, location, startDate, endDate, start, end, isCurrent) but reorder entries by relevance and enhance bullets to match the job. Each entry must have a bullets array.`,
             },
           ],
           temperature: 0.7,
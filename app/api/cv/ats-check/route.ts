@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { Packer } from 'docx'
+import { CV_TEMPLATE_IDS, formatCvSchemaIssues, parseCvData, type CvTemplateId } from '@/lib/cv-schema'
+import { analyseAtsParse } from '@/lib/ats-check'
+import { extractDocxText, extractPdfText } from '@/lib/cv-text-extract'
+import { buildCvDocx } from '@/lib/docx-render/cv'
+import { renderCvPdf } from '@/lib/pdf-render/cv'
+
+// Renders and re-reads PDF/DOCX files with Node APIs (NOT Edge)
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const FORMATS = ['pdf', 'docx'] as const
+type AtsCheckFormat = (typeof FORMATS)[number]
+
+/**
+ * POST /api/cv/ats-check
+ *
+ * Exports the CV exactly as the download buttons do, extracts the text back
+ * out of the file and reports what an applicant tracking system would see.
+ *
+ * Request body:
+ * - cvData: CvData (any schema version)
+ * - template?: CvTemplateId (default: 'atsClassic')
+ * - options?: CvCustomizationOptions (used by 'customizeStyle')
+ * - format?: 'pdf' | 'docx' (default: 'pdf')
+ *
+ * Response:
+ * - { ok: true, format, template, report: { score, sections, contact, issues, extractedText } }
+ * - { ok: false, error, issues? } with 400 for invalid input
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null)
+    if (!body?.cvData) {
+      return NextResponse.json({ ok: false, error: 'CV data is required' }, { status: 400 })
+    }
+    const parsed = parseCvData(body.cvData)
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid CV data: ${formatCvSchemaIssues(parsed.issues)}`, issues: parsed.issues },
+        { status: 400 }
+      )
+    }
+    const cvData = parsed.data
+
+    const template: CvTemplateId = body.template ?? 'atsClassic'
+    if (!CV_TEMPLATE_IDS.includes(template)) {
+      return NextResponse.json(
+        { ok: false, error: `Unknown template. Use one of: ${CV_TEMPLATE_IDS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const format: AtsCheckFormat = body.format ?? 'pdf'
+    if (!FORMATS.includes(format)) {
+      return NextResponse.json({ ok: false, error: `Unknown format. Use one of: ${FORMATS.join(', ')}` }, { status: 400 })
+    }
+
+    const extractedText =
+      format === 'pdf'
+        ? await extractPdfText(renderCvPdf(cvData, template, body.options))
+        : await extractDocxText(await Packer.toBuffer(buildCvDocx(cvData, template, body.options)))
+
+    const report = analyseAtsParse(cvData, extractedText)
+
+    return NextResponse.json({ ok: true, format, template, report })
+  } catch (error: any) {
+    console.error('[ATS Check] Error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Failed to run ATS check' },
+      { status: 500 }
+    )
+  }
+}
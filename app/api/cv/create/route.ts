@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { logEvent } from '@/lib/analytics/logEvent'
+import { normalizeCvTitle, recordCvVersion, toCvLibraryItem } from '@/lib/cv-library'
+import { formatCvSchemaIssues, parseCvData } from '@/lib/cv-schema'
+
+export const dynamic = 'force-dynamic'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+/**
+ * POST /api/cv/create
+ * 
+ * Adds a new CV to the authenticated user's library.
+ * 
+ * Request body:
+ * - title?: string (defaults to 'My CV')
+ * - data?: object (CV data, any schema version; defaults to an empty CV)
+ * 
+ * Response:
+ * - { ok: true, cv: CvLibraryItem } on success (201)
+ * - { ok: false, error: string } on error
+ * - 400 with { ok: false, error, issues } if data fails schema validation
+ * - 401 if not authenticated
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    let body
+    try {
+      body = await req.json()
+    } catch (parseError) {
+      console.error('[CV Create] JSON parse error:', parseError)
+      return NextResponse.json(
+        { ok: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const title = normalizeCvTitle(body?.title)
+    const parsed = parseCvData(body?.data)
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid CV data: ${formatCvSchemaIssues(parsed.issues)}`, issues: parsed.issues },
+        { status: 400 }
+      )
+    }
+    const data = parsed.data
+
+    const { data: row, error } = await supabase
+      .from('cvs')
+      .insert({
+        user_id: user.id,
+        title,
+        data,
+      })
+      .select()
+      .single()
+
+    if (error || !row) {
+      console.error('[CV Create] Insert error:', error)
+      return NextResponse.json(
+        {
+          ok: false,
+          error: error?.message || 'Failed to create CV',
+          code: error?.code || null,
+          details: error?.details || null,
+          hint: error?.hint || null,
+        },
+        { status: 500 }
+      )
+    }
+
+    await recordCvVersion(supabase, { cvId: row.id, userId: user.id, title, data })
+    logEvent('cv_created', {}, supabase).catch(() => {})
+
+    return NextResponse.json({ ok: true, cv: toCvLibraryItem(row) }, { status: 201 })
+  } catch (error: any) {
+    console.error('[CV Create] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
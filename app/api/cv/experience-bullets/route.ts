@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import OpenAI from 'openai'
 import { OPENAI_MODEL, openAIErrorResponse } from '@/lib/openai-model'
+import { buildFactSource, guardGeneratedList, parseFactCheckMode, parseFactSourceCv, type UnverifiedClaim } from '@/lib/hallucination-guard'
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY || '',
@@ -40,6 +41,26 @@ function detectDomain(context: string): CareerDomain {
   return 'general'
 }
 
+/**
+ * POST /api/cv/experience-bullets
+ *
+ * Suggests responsibility and/or achievement bullets for an experience entry.
+ * Every bullet is checked against what the user gave us (job title, company,
+ * industry, notes and the rest of their CV); names, figures, qualifications and dates they never
+ * mentioned are returned in `unverified`, or stripped with factCheck: 'strip'.
+ *
+ * Request body:
+ * - jobTitle: string (required)
+ * - company?, industry?, userNotes?: string
+ * - mode?: 'responsibilities' | 'achievements' | 'both'
+ * - cvData?: CvData (the CV being edited, used as a fact source)
+ * - factCheck?: 'flag' | 'strip' (default 'flag')
+ *
+ * Response:
+ * - { ok: true, responsibilities?: string[], achievements?: string[], unverified: UnverifiedClaim[] }
+ *   (claim paths are e.g. "achievements[2]")
+ * - { ok: false, error, issues? } on error (400 for invalid cvData)
+ */
 export async function POST(req: Request) {
   try {
     const body = await req.json()
@@ -49,6 +70,28 @@ export async function POST(req: Request) {
       return NextResponse.json({ ok: false, error: 'Job title is required' }, { status: 400 })
     }
 
+    const factCheck = parseFactCheckMode(body.factCheck)
+    const { cv, error: cvError, issues } = parseFactSourceCv(body.cvData)
+    if (cvError) {
+      return NextResponse.json({ ok: false, error: cvError, issues }, { status: 400 })
+    }
+    const factSource = buildFactSource({ cv, inputs: [jobTitle, company, industry, userNotes] })
+    const respond = (sections: { responsibilities?: string[]; achievements?: string[] }) => {
+      const guarded: { responsibilities?: string[]; achievements?: string[] } = {}
+      const unverified: UnverifiedClaim[] = []
+      for (const key of ['responsibilities', 'achievements'] as const) {
+        const items = sections[key]
+        if (!items) continue
+        const result = guardGeneratedList(items, factSource, { mode: factCheck, path: key })
+        guarded[key] = result.items
+        unverified.push(...result.unverified)
+      }
+      if (unverified.length > 0) {
+        console.log('[Experience Bullets] unverified claims:', unverified.length, factCheck)
+      }
+      return NextResponse.json({ ok: true, ...guarded, unverified })
+    }
+
     // Check if API key is configured
     if (!process.env.OPENAI_API_KEY) {
       console.warn('[AI MOCK] no OPENAI_API_KEY')
@@ -65,18 +108,15 @@ export async function POST(req: Request) {
       ]
 
       if (mode === 'responsibilities') {
-        return NextResponse.json({
-          ok: true,
+        return respond({
           responsibilities: mockResponsibilities,
         })
       } else if (mode === 'achievements') {
-        return NextResponse.json({
-          ok: true,
+        return respond({
           achievements: mockAchievements,
         })
       } else {
-        return NextResponse.json({
-          ok: true,
+        return respond({
           responsibilities: mockResponsibilities,
           achievements: mockAchievements,
         })
@@ -126,7 +166,7 @@ export async function POST(req: Request) {
     let systemPrompt = `You are an expert CV writer specializing in professional experience bullet points. Your task is to generate relevant, impactful bullet points for CV experience sections. Follow these strict rules:
 - Write in neutral, no-pronoun resume style (no "I", "my", "he/she")
 - Use action verbs at the start of each bullet point
-- Focus on quantifiable achievements and measurable impact when possible
+- Focus on quantifiable achievements and measurable impact when possible, but only use numbers, employers, qualifications and dates the user gave; describe impact in words otherwise
 - Keep each bullet point concise (one line, typically 10-20 words)
 - Make bullets specific and relevant to the job title
 - Write in English only
@@ -199,8 +239,7 @@ ACHIEVEMENTS:
         })
         .slice(0, 6) // Limit to 6 bullets
 
-      return NextResponse.json({
-        ok: true,
+      return respond({
         responsibilities: bullets,
       })
     } else if (mode === 'achievements') {
@@ -217,8 +256,7 @@ ACHIEVEMENTS:
         })
         .slice(0, 6) // Limit to 6 bullets
 
-      return NextResponse.json({
-        ok: true,
+      return respond({
         achievements: bullets,
       })
     } else {
@@ -250,15 +288,13 @@ ACHIEVEMENTS:
       if (responsibilities.length === 0 && achievements.length === 0) {
         const allBullets = parseBullets(result)
         const midPoint = Math.ceil(allBullets.length / 2)
-        return NextResponse.json({
-          ok: true,
+        return respond({
           responsibilities: allBullets.slice(0, midPoint),
           achievements: allBullets.slice(midPoint),
         })
       }
 
-      return NextResponse.json({
-        ok: true,
+      return respond({
         responsibilities,
         achievements,
       })
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { CV_TEMPLATE_IDS, formatCvSchemaIssues, parseCvData, type CvTemplateId } from '@/lib/cv-schema'
+import { renderCvPdf } from '@/lib/pdf-render/cv'
+import { renderCoverLetterPdf, type CoverLetterPdfData } from '@/lib/pdf-render/cover-letter'
+import { COVER_LETTER_LAYOUTS } from '@/lib/cover-library'
+
+// Fonts are read from disk and jsPDF needs Node APIs (NOT Edge)
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const COVER_LETTER_TEXT_FIELDS = ['applicantName', 'recipientName', 'company', 'cityState', 'role', 'date'] as const
+const COVER_LETTER_CONTACT_FIELDS = ['email', 'phone', 'location'] as const
+
+function toFilename(value: unknown, fallback: string): string {
+  const base = (typeof value === 'string' ? value : '').trim().replace(/[^A-Za-z0-9 _-]+/g, '').replace(/\s+/g, '-') || fallback
+  return `${base}.pdf`
+}
+
+/**
+ * Why a cover letter can't be rendered, or null when it can
+ */
+function coverLetterError(letter: any): string | null {
+  if (!letter || typeof letter !== 'object') return 'Invalid cover letter'
+  if (typeof letter.letterBody !== 'string' || !letter.letterBody.trim()) return 'Cover letter body is required'
+  if (letter.layout && !COVER_LETTER_LAYOUTS.includes(letter.layout)) {
+    return `Unknown layout. Use one of: ${COVER_LETTER_LAYOUTS.join(', ')}`
+  }
+  const field = COVER_LETTER_TEXT_FIELDS.find((key) => letter[key] != null && typeof letter[key] !== 'string')
+  if (field) return `coverLetter.${field} must be a string`
+  if (letter.contact != null) {
+    if (typeof letter.contact !== 'object') return 'coverLetter.contact must be an object'
+    const contactField = COVER_LETTER_CONTACT_FIELDS.find((key) => letter.contact[key] != null && typeof letter.contact[key] !== 'string')
+    if (contactField) return `coverLetter.contact.${contactField} must be a string`
+  }
+  return null
+}
+
+/**
+ * POST /api/cv/export/pdf
+ *
+ * Renders a vector PDF (selectable text, embedded fonts, stable page breaks)
+ * on the server, so the file is identical whatever browser asked for it.
+ *
+ * Request body, CV:
+ * - cvData: CvData (any schema version)
+ * - template?: CvTemplateId (default: 'atsClassic')
+ * - options?: CvCustomizationOptions (used by 'customizeStyle')
+ * - filename?: string (without extension)
+ *
+ * Request body, cover letter:
+ * - coverLetter: { applicantName, recipientName, company, cityState, role, letterBody, layout?, contact?, date? }
+ *   (layout: 'minimal' | 'modern' | 'corporate' | 'portfolio'; text fields are strings)
+ * - filename?: string
+ *
+ * Response:
+ * - application/pdf attachment
+ * - { ok: false, error, issues? } with 400 for invalid input
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const body = await req.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ ok: false, error: 'Invalid request body' }, { status: 400 })
+    }
+
+    let pdf: Buffer
+    let filename: string
+
+    if (body.coverLetter) {
+      const error = coverLetterError(body.coverLetter)
+      if (error) {
+        return NextResponse.json({ ok: false, error }, { status: 400 })
+      }
+      pdf = renderCoverLetterPdf(body.coverLetter as CoverLetterPdfData)
+      filename = toFilename(body.filename, 'Cover-Letter')
+    } else {
+      if (!body.cvData) {
+        return NextResponse.json({ ok: false, error: 'CV data is required' }, { status: 400 })
+      }
+      const parsed = parseCvData(body.cvData)
+      if (!parsed.ok) {
+        return NextResponse.json(
+          { ok: false, error: `Invalid CV data: ${formatCvSchemaIssues(parsed.issues)}`, issues: parsed.issues },
+          { status: 400 }
+        )
+      }
+      const cvData = parsed.data
+
+      const template: CvTemplateId = body.template ?? 'atsClassic'
+      if (!CV_TEMPLATE_IDS.includes(template)) {
+        return NextResponse.json(
+          { ok: false, error: `Unknown template. Use one of: ${CV_TEMPLATE_IDS.join(', ')}` },
+          { status: 400 }
+        )
+      }
+
+      pdf = renderCvPdf(cvData, template, body.options)
+      filename = toFilename(body.filename, 'CV')
+    }
+
+    return new NextResponse(new Uint8Array(pdf), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        'Content-Length': String(pdf.length),
+        'Cache-Control': 'no-store',
+      },
+    })
+  } catch (error: any) {
+    console.error('[PDF Export] Render error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Failed to render PDF' },
+      { status: 500 }
+    )
+  }
+}
@@ -2,7 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
 import { computeCvScore } from '@/lib/cv-score'
-import type { CvData } from '@/app/cv-builder-v2/page'
+import { formatCvSchemaIssues, parseCvData } from '@/lib/cv-schema'
 
 export const dynamic = 'force-dynamic'
 
@@ -15,8 +15,11 @@ const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
  * Fetches the latest saved CV for the authenticated user from the database.
  * Returns CV data and calculated readiness score.
  * 
+ * Query parameters:
+ * - cvId?: string - Fetch a specific CV from the user's library instead of the latest
+ * 
  * Response:
- * - { ok: true, hasCv: boolean, cv: {...} | null, readiness: {...} | null }
+ * - { ok: true, hasCv: boolean, cv: {...} | null, cvId: string | null, title: string | null, readiness: {...} | null }
  * - { ok: false, error: string } on error
  * - 401 if not authenticated
  */
@@ -52,11 +55,17 @@ export async function GET(req: NextRequest) {
       )
     }
 
-    // Query the latest CV for this user (order by updated_at desc, limit 1)
-    const { data: cvRows, error: queryError } = await supabase
+    const cvId = req.nextUrl.searchParams.get('cvId')
+
+    // Query the requested CV, or the latest CV for this user (order by updated_at desc, limit 1)
+    let cvQuery = supabase
       .from('cvs')
       .select('*')
       .eq('user_id', user.id)
+    if (cvId) {
+      cvQuery = cvQuery.eq('id', cvId)
+    }
+    const { data: cvRows, error: queryError } = await cvQuery
       .order('updated_at', { ascending: false })
       .limit(1)
 
@@ -74,34 +83,18 @@ export async function GET(req: NextRequest) {
         ok: true,
         hasCv: false,
         cv: null,
+        cvId: null,
+        title: null,
         readiness: null,
       })
     }
 
     const cvRow = cvRows[0]
 
-    // The CV data is stored in the 'data' column as a JSONB object
-    // Read from cvRow.data instead of trying to access flattened fields
-    const rawCvData = cvRow.data || {}
-    
-    // Map database row to CvData format - read from data column
-    const cvData: CvData = {
-      personalInfo: {
-        fullName: rawCvData.personalInfo?.fullName || rawCvData.personal_info?.fullName || '',
-        email: rawCvData.personalInfo?.email || rawCvData.personal_info?.email || '',
-        phone: rawCvData.personalInfo?.phone || rawCvData.personal_info?.phone || '',
-        location: rawCvData.personalInfo?.location || rawCvData.personal_info?.location || '',
-        linkedin: rawCvData.personalInfo?.linkedin || rawCvData.personal_info?.linkedin || '',
-        website: rawCvData.personalInfo?.website || rawCvData.personal_info?.website || '',
-      },
-      summary: typeof rawCvData.summary === 'string' ? rawCvData.summary : '',
-      experience: Array.isArray(rawCvData.experience) ? rawCvData.experience : [],
-      education: Array.isArray(rawCvData.education) ? rawCvData.education : [],
-      skills: Array.isArray(rawCvData.skills) ? rawCvData.skills : [],
-      projects: Array.isArray(rawCvData.projects) ? rawCvData.projects : undefined,
-      languages: Array.isArray(rawCvData.languages) ? rawCvData.languages : undefined,
-      certifications: Array.isArray(rawCvData.certifications) ? rawCvData.certifications : undefined,
-      publications: Array.isArray(rawCvData.publications) ? rawCvData.publications : undefined,
+    // The CV is stored in the 'data' column; upgrade it to the current schema
+    const { data: cvData, issues } = parseCvData(cvRow.data)
+    if (issues.length > 0) {
+      console.warn('[CV Get Latest] Dropped invalid CV fields:', formatCvSchemaIssues(issues))
     }
 
     // Calculate readiness score
@@ -119,6 +112,9 @@ export async function GET(req: NextRequest) {
       ok: true,
       hasCv: true,
       cv: cvData,
+      cvId: cvRow.id,
+      title: cvRow.title || null,
+      template: cvData.template || null,
       readiness,
     })
   } catch (error: any) {
@@ -1,55 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import OpenAI from 'openai'
 import { OPENAI_MODEL, openAIErrorResponse } from '@/lib/openai-model'
+import { formatCvSchemaIssues, parseCvData, type CvData } from '@/lib/cv-schema'
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY || '',
 })
 
-interface CvData {
-  personalInfo: {
-    fullName: string
-    email: string
-    phone?: string
-    location?: string
-    linkedin?: string
-    website?: string
-  }
-  summary: string
-  experience: Array<{
-    id: string
-    jobTitle: string
-    company: string
-    location?: string
-    startDate?: string
-    endDate?: string
-    isCurrent?: boolean
-    bullets: string[]
-  }>
-  education: Array<{
-    degree: string
-    school: string
-    year?: string
-    details?: string
-  }>
-  skills: string[]
-  projects?: Array<{
-    name: string
-    description: string
-    url?: string
-  }>
-  languages?: string[]
-  certifications?: string[]
-  publications?: Array<{
-    title: string
-    authors?: string
-    venueOrJournal?: string
-    year?: string
-    doiOrUrl?: string
-    notes?: string
-  }>
-}
-
 interface GrammarIssue {
   fieldPath: string
   original: string
@@ -196,6 +153,18 @@ function getFieldValue(data: CvData, fieldPath: string): string {
     if (pubMatch[2] === 'notes') return pub.notes ?? ''
     return ''
   }
+  // Custom sections: heading or an item field
+  const customMatch = fieldPath.match(/^customSections\[(\d+)\]\.(?:heading|items\[(\d+)\]\.(\w+))$/)
+  if (customMatch) {
+    const section = data.customSections?.[parseInt(customMatch[1], 10)]
+    if (!section) return ''
+    if (customMatch[2] == null) return section.heading ?? ''
+    const item = section.items?.[parseInt(customMatch[2], 10)]
+    if (!item) return ''
+    const field = customMatch[3]
+    if (field === 'title' || field === 'subtitle' || field === 'description') return item[field] ?? ''
+    return ''
+  }
   return ''
 }
 
@@ -217,7 +186,7 @@ function replaceFirstSpan(text: string, original: string, suggestion: string): s
 const TITLE_FIELD_PATTERNS = [
   'personalInfo.fullName',
   'experience[', 'education[', 'projects[', 'publications[',
-  'certifications[', 'languages[',
+  'certifications[', 'languages[', 'customSections[',
 ]
 function isTitleField(fieldPath: string): boolean {
   return TITLE_FIELD_PATTERNS.some(p => fieldPath === p || fieldPath.startsWith(p))
@@ -263,7 +232,14 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ ok: false, error: 'CV data is required' }, { status: 400 })
     }
 
-    const data = cvData as CvData
+    const parsed = parseCvData(cvData)
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid CV data: ${formatCvSchemaIssues(parsed.issues)}`, issues: parsed.issues },
+        { status: 400 }
+      )
+    }
+    const data: CvData = parsed.data
     const issues: GrammarIssue[] = []
 
     // Check if API key is configured
@@ -363,6 +339,24 @@ export async function POST(req: NextRequest) {
       }
     })
 
+    // Custom sections (volunteering, awards, references...)
+    data.customSections?.forEach((section, idx) => {
+      if (section.heading && !shouldSkipField(`customSections[${idx}].heading`, section.heading)) {
+        cvText.push(`Custom Section ${idx + 1} - Heading: ${section.heading}`)
+      }
+      section.items?.forEach((item, itemIdx) => {
+        // A referee's description is their contact details
+        const fields = section.kind === 'references' ? (['title', 'subtitle'] as const) : (['title', 'subtitle', 'description'] as const)
+        for (const field of fields) {
+          const value = item[field]
+          if (value && !shouldSkipField(`customSections[${idx}].items[${itemIdx}].${field}`, value)) {
+            const label = field.charAt(0).toUpperCase() + field.slice(1)
+            cvText.push(`Custom Section ${idx + 1} Entry ${itemIdx + 1} - ${label}: ${value}`)
+          }
+        }
+      })
+    })
+
     const cvTextContent = cvText.join('\n')
 
     if (!cvTextContent.trim()) {
@@ -390,6 +384,7 @@ For EACH error found, provide:
    - "projects[0].name", "projects[0].description" for projects
    - "certifications[0]", "languages[0]" for certifications/languages
    - "publications[0].title", "publications[0].notes" for publications
+   - "customSections[0].heading", "customSections[0].items[0].title", "customSections[0].items[0].subtitle", "customSections[0].items[0].description" for custom sections
 2. original: ONLY the exact word or minimal phrase that contains the error (the span to be replaced). Do NOT return the entire field or sentence — only the wrong word/phrase, e.g. "experiance", "i", "have" (when it should be "has"), "recieve".
 3. suggestion: ONLY the corrected word or phrase (same length of span as original when possible). Do NOT return the full sentence or full field — only the replacement for "original", e.g. "experience", "I", "has", "receive".
 4. confidence: A number between 0.0 and 1.0 indicating how confident you are (1.0 = very confident, 0.5 = uncertain)
@@ -1,48 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-interface CvData {
-  personalInfo: {
-    fullName: string
-    email: string
-    phone?: string
-    location?: string
-    linkedin?: string
-    website?: string
-  }
-  summary: string
-  experience: Array<{
-    id: string
-    jobTitle: string
-    company: string
-    location?: string
-    startDate?: string
-    endDate?: string
-    isCurrent?: boolean
-    bullets: string[]
-  }>
-  education: Array<{
-    degree: string
-    school: string
-    year?: string
-    details?: string
-  }>
-  skills: string[]
-  projects?: Array<{
-    name: string
-    description: string
-    url?: string
-  }>
-  languages?: string[]
-  certifications?: string[]
-  publications?: Array<{
-    title: string
-    authors?: string
-    venueOrJournal?: string
-    year?: string
-    doiOrUrl?: string
-    notes?: string
-  }>
-}
+import { formatCvSchemaIssues, parseCvData, type CvData } from '@/lib/cv-schema'
 
 interface GrammarIssue {
   fieldPath: string
@@ -117,7 +74,14 @@ export async function POST(req: NextRequest) {
       return NextResponse.json({ ok: false, error: 'CV data is required' }, { status: 400 })
     }
 
-    const data = cvData as CvData
+    const parsed = parseCvData(cvData)
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid CV data: ${formatCvSchemaIssues(parsed.issues)}`, issues: parsed.issues },
+        { status: 400 }
+      )
+    }
+    const data: CvData = parsed.data
     const issues: GrammarIssue[] = []
 
     // Produce fixed CV data by applying heuristic fixes per field.
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { parseCvText } from '@/lib/cv-import'
+import { extractDocxText, extractPdfText } from '@/lib/cv-text-extract'
+
+// Force Node.js runtime for PDF parsing (NOT Edge)
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+const MAX_FILE_BYTES = 5 * 1024 * 1024
+
+/**
+ * POST /api/cv/import
+ *
+ * Reads an existing CV and returns it as CvData for the CV builder to review
+ * before it replaces the current draft. Nothing is saved.
+ *
+ * Request (multipart/form-data):
+ * - file: .pdf, .docx or .txt (max 5MB), or
+ * - text: the CV pasted as plain text
+ *
+ * Response:
+ * - { ok: true, cv: CvData, confidence: Record<fieldPath, 0-1>, warnings: string[] }
+ * - { ok: false, error: string }
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const formData = await req.formData()
+    const file = formData.get('file') as File | null
+    const pastedText = formData.get('text')
+
+    let extractedText = ''
+
+    if (file) {
+      const fileExtension = file.name.toLowerCase().split('.').pop()
+
+      if (fileExtension !== 'docx' && fileExtension !== 'pdf' && fileExtension !== 'txt') {
+        return NextResponse.json(
+          { ok: false, error: 'Unsupported file format. Please upload a .pdf, .docx or .txt file.' },
+          { status: 400 }
+        )
+      }
+
+      if (file.size > MAX_FILE_BYTES) {
+        return NextResponse.json(
+          { ok: false, error: 'File is too large. The maximum size is 5MB.' },
+          { status: 400 }
+        )
+      }
+
+      const buffer = Buffer.from(await file.arrayBuffer())
+
+      if (fileExtension === 'docx') {
+        try {
+          extractedText = await extractDocxText(buffer)
+        } catch (error) {
+          console.error('[CV Import] DOCX parsing error:', error)
+          return NextResponse.json(
+            { ok: false, error: 'Failed to parse DOCX file. Please ensure it is a valid .docx file.' },
+            { status: 500 }
+          )
+        }
+      } else if (fileExtension === 'pdf') {
+        try {
+          extractedText = await extractPdfText(buffer)
+        } catch (error) {
+          console.error('[CV Import] PDF parsing error:', error)
+          return NextResponse.json(
+            { ok: false, error: 'Failed to parse PDF file. Please ensure it is a valid text-based PDF.' },
+            { status: 500 }
+          )
+        }
+
+        if (extractedText.trim().length < 10) {
+          return NextResponse.json(
+            { ok: false, error: 'This PDF appears to be scanned. Please upload a text-based PDF or DOCX.' },
+            { status: 400 }
+          )
+        }
+      } else {
+        extractedText = buffer.toString('utf8')
+      }
+    } else if (typeof pastedText === 'string') {
+      extractedText = pastedText
+    } else {
+      return NextResponse.json(
+        { ok: false, error: 'No file or text provided' },
+        { status: 400 }
+      )
+    }
+
+    if (!extractedText.trim()) {
+      return NextResponse.json(
+        { ok: false, error: 'The CV appears to be empty or could not be read.' },
+        { status: 400 }
+      )
+    }
+
+    const { cv, confidence, warnings } = parseCvText(extractedText)
+
+    console.log(`[CV Import] Parsed ${cv.experience.length} roles, ${cv.education.length} education entries, ${cv.skills.length} skills`)
+
+    return NextResponse.json({ ok: true, cv, confidence, warnings })
+  } catch (error: any) {
+    console.error('[CV Import] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,11 +1,31 @@
 import { NextResponse } from 'next/server'
 import OpenAI from 'openai'
 import { OPENAI_MODEL, openAIErrorResponse } from '@/lib/openai-model'
+import { buildFactSource, guardGeneratedText, parseFactCheckMode, parseFactSourceCv } from '@/lib/hallucination-guard'
 
 const openai = new OpenAI({
   apiKey: process.env.OPENAI_API_KEY || '',
 })
 
+/**
+ * POST /api/cv/improve-bullet
+ *
+ * Rewrites one experience bullet. The rewrite is checked against the original
+ * bullet, its experience entry and the rest of the CV; names, figures,
+ * qualifications and dates the user never gave are returned in `unverified`, or stripped with
+ * factCheck: 'strip' (falling back to the original bullet if nothing is left).
+ *
+ * Request body:
+ * - bullet: string (required)
+ * - jobTitle?: string, isCurrent?: boolean
+ * - experience?: CvSectionExperience (the bullet's entry, used as a fact source)
+ * - cvData?: CvData (the CV being edited, used as a fact source)
+ * - factCheck?: 'flag' | 'strip' (default 'flag')
+ *
+ * Response:
+ * - { ok: true, improved, unverified: UnverifiedClaim[] }
+ * - { ok: false, error, issues? } on error (400 for invalid cvData)
+ */
 export async function POST(req: Request) {
   try {
     const body = await req.json()
@@ -15,14 +35,26 @@ export async function POST(req: Request) {
       return NextResponse.json({ ok: false, error: 'Bullet point is required' }, { status: 400 })
     }
 
+    const factCheck = parseFactCheckMode(body.factCheck)
+    const { cv, error: cvError, issues } = parseFactSourceCv(body.cvData)
+    if (cvError) {
+      return NextResponse.json({ ok: false, error: cvError, issues }, { status: 400 })
+    }
+    const factSource = buildFactSource({ cv, inputs: [bullet, jobTitle, body.experience] })
+    const respond = (improved: string) => {
+      const guarded = guardGeneratedText(improved, factSource, { mode: factCheck })
+      return NextResponse.json({
+        ok: true,
+        improved: guarded.text || bullet,
+        unverified: guarded.unverified,
+      })
+    }
+
     // Check if API key is configured
     if (!process.env.OPENAI_API_KEY) {
       console.warn('[AI MOCK] no OPENAI_API_KEY - returning mock improvement')
       // Return a mock improvement
-      return NextResponse.json({
-        ok: true,
-        improved: `Improved version: ${bullet}`,
-      })
+      return respond(`Improved version: ${bullet}`)
     }
 
     // Determine tense based on whether role is current
@@ -80,10 +112,7 @@ Do NOT include explanations, headings, or extra formatting.`
       .replace(/^\s*-\s*/, '') // Remove leading bullet points
       .trim()
 
-    return NextResponse.json({
-      ok: true,
-      improved: cleanedImproved,
-    })
+    return respond(cleanedImproved)
 
   } catch (error: unknown) {
     const { body, status } = openAIErrorResponse(error, 'Failed to improve bullet point')
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { toCvLibraryItem } from '@/lib/cv-library'
+
+export const dynamic = 'force-dynamic'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+/**
+ * GET /api/cv/list
+ * 
+ * Lists every CV in the authenticated user's library (most recently updated first).
+ * Only metadata is returned; load a CV's data with /api/cv/get-latest?cvId=...
+ * 
+ * Response:
+ * - { ok: true, cvs: CvLibraryItem[] }
+ * - { ok: false, error: string } on error
+ * - 401 if not authenticated
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { data: rows, error } = await supabase
+      .from('cvs')
+      .select('id, title, created_at, updated_at, saved_at')
+      .eq('user_id', user.id)
+      .order('updated_at', { ascending: false })
+
+    if (error) {
+      console.error('[CV List] Database error:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to fetch CVs' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, cvs: (rows || []).map(toCvLibraryItem) })
+  } catch (error: any) {
+    console.error('[CV List] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,20 +1,37 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { computeCvScore } from '@/lib/cv-score'
-import type { CvData } from '@/app/cv-builder-v2/page'
+import { computeCvScore, DEFAULT_CV_SCORE_PROFILE, isCvScoreProfileId } from '@/lib/cv-score'
+import { formatCvSchemaIssues, parseCvData } from '@/lib/cv-schema'
 
+/**
+ * POST /api/cv/review
+ * Body: { cvData: CvData, profile?: CvScoreProfileId }
+ * cvData may be any schema version; invalid fields return 400 with `issues`
+ * Returns: { ok, score, completionScore, qualityScore, level, topFixes, isGated, gateMessage, profile, breakdown }
+ */
 export async function POST(req: NextRequest) {
   try {
     const body = await req.json()
-    const { cvData } = body
+    const { cvData, profile = DEFAULT_CV_SCORE_PROFILE } = body
 
     if (!cvData) {
       return NextResponse.json({ ok: false, error: 'CV data is required' }, { status: 400 })
     }
 
-    const data = cvData as CvData
+    if (!isCvScoreProfileId(profile)) {
+      return NextResponse.json({ ok: false, error: `Unknown scoring profile: ${profile}` }, { status: 400 })
+    }
+
+    const parsed = parseCvData(cvData)
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid CV data: ${formatCvSchemaIssues(parsed.issues)}`, issues: parsed.issues },
+        { status: 400 }
+      )
+    }
+    const data = parsed.data
 
     // Use shared scoring utility
-    const scoreResult = computeCvScore(data)
+    const scoreResult = computeCvScore(data, profile)
 
     return NextResponse.json({
       ok: true,
@@ -25,6 +42,8 @@ export async function POST(req: NextRequest) {
       topFixes: scoreResult.fixes,
       isGated: scoreResult.isGated,
       gateMessage: scoreResult.gateMessage,
+      profile: scoreResult.profile,
+      breakdown: scoreResult.breakdown,
       notes: scoreResult.fixes.length > 5 ? scoreResult.fixes.slice(5) : undefined,
     })
   } catch (error: any) {
@@ -35,4 +54,3 @@ export async function POST(req: NextRequest) {
     )
   }
 }
-
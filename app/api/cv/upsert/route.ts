@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
 import { logEvent } from '@/lib/analytics/logEvent'
+import { normalizeCvTitle, recordCvVersion } from '@/lib/cv-library'
+import { formatCvSchemaIssues, parseCvData } from '@/lib/cv-schema'
 
 export const dynamic = 'force-dynamic'
 
@@ -12,15 +14,20 @@ const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
  * POST /api/cv/upsert
  * 
  * Creates or updates a CV for the authenticated user in the database.
- * Uses upsert with onConflict: 'user_id' to ensure one CV per user.
+ * With cvId, updates that CV in the user's library. Without it, falls back to
+ * the legacy behaviour: update the most recently updated CV or insert the first one.
+ * Every save is also snapshotted into cv_versions.
+ * The data is upgraded to the current CV schema before it is stored.
  * 
  * Request body:
- * - title?: string (optional, defaults to 'My CV')
- * - data: object (CV data object)
+ * - cvId?: string (optional, library CV to update)
+ * - title?: string (optional, defaults to 'My CV' on insert; renames on update)
+ * - data: object (CV data, any schema version)
  * 
  * Response:
  * - { ok: true, cv: {...} } on success
  * - { ok: false, error, code?, details?, hint? } on error
+ * - 400 with { ok: false, error, issues } if data fails schema validation
  * - 401 if not authenticated
  */
 export async function POST(req: NextRequest) {
@@ -74,10 +81,11 @@ export async function POST(req: NextRequest) {
     console.log('[CV Upsert] Authenticated user id:', user.id)
 
     // Extract title and data from request body
-    const title = body.title ?? 'My CV'
-    const data = body.data
-
-    if (!data) {
+    const cvId: string | null = typeof body.cvId === 'string' && body.cvId ? body.cvId : null
+    // Only rename an existing CV when a title is explicitly sent
+    const hasTitle = typeof body.title === 'string' && body.title.trim().length > 0
+    const title = normalizeCvTitle(body.title)
+    if (!body.data) {
       console.error('[CV Upsert] Missing data in request body')
       return NextResponse.json(
         { ok: false, error: 'Missing required field: data' },
@@ -85,6 +93,16 @@ export async function POST(req: NextRequest) {
       )
     }
 
+    const parsed = parseCvData(body.data)
+    if (!parsed.ok) {
+      console.error('[CV Upsert] Invalid CV data:', formatCvSchemaIssues(parsed.issues))
+      return NextResponse.json(
+        { ok: false, error: `Invalid CV data: ${formatCvSchemaIssues(parsed.issues)}`, issues: parsed.issues },
+        { status: 400 }
+      )
+    }
+    const data = parsed.data
+
     // Log received data details
     const dataKeys = Object.keys(data || {})
     const summaryLength = data?.summary?.length || 0
@@ -93,11 +111,17 @@ export async function POST(req: NextRequest) {
     console.log('[CV Upsert] Skills count:', data?.skills?.length || 0)
     console.log('[CV Upsert] Experience count:', data?.experience?.length || 0)
 
-    // First query: check if row exists for this user
-    const { data: existingRows, error: queryError } = await supabase
+    // First query: check if the target row exists for this user
+    // (the requested CV, or the most recently updated one for legacy callers)
+    let existingQuery = supabase
       .from('cvs')
       .select('id')
       .eq('user_id', user.id)
+    if (cvId) {
+      existingQuery = existingQuery.eq('id', cvId)
+    }
+    const { data: existingRows, error: queryError } = await existingQuery
+      .order('updated_at', { ascending: false })
       .limit(1)
 
     if (queryError) {
@@ -114,6 +138,13 @@ export async function POST(req: NextRequest) {
       )
     }
 
+    if (cvId && (!existingRows || existingRows.length === 0)) {
+      return NextResponse.json(
+        { ok: false, error: 'CV not found or access denied' },
+        { status: 404 }
+      )
+    }
+
     let cvRow
 
     if (existingRows && existingRows.length > 0) {
@@ -124,10 +155,11 @@ export async function POST(req: NextRequest) {
       const { data: updatedRow, error: updateError } = await supabase
         .from('cvs')
         .update({
-          title: title,
+          ...(hasTitle ? { title } : {}),
           data: data,
           updated_at: new Date().toISOString(),
         })
+        .eq('id', existingId)
         .eq('user_id', user.id)
         .select()
         .single()
@@ -195,6 +227,13 @@ export async function POST(req: NextRequest) {
       logEvent('cv_created', {}, supabase).catch(() => {})
     }
 
+    await recordCvVersion(supabase, {
+      cvId: cvRow.id,
+      userId: user.id,
+      title: cvRow.title ?? title,
+      data,
+    })
+
     console.log('[CV Upsert] Successfully saved CV for user:', user.id)
 
     return NextResponse.json({
@@ -1,5 +1,73 @@
 import { NextResponse } from 'next/server'
+import { formatCvSchemaIssues, parseCvData } from '@/lib/cv-schema'
+import {
+  DEFAULT_LINE_WIDTH,
+  MAX_LINE_WIDTH,
+  MIN_LINE_WIDTH,
+  PLAIN_TEXT_FORMATS,
+  renderCvPlainText,
+  type PlainTextCvFormat,
+} from '@/lib/cv-plaintext'
 
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/generate-plaintext
+ *
+ * ATS-safe plain-text or Markdown CV for pasting into job portal textareas.
+ *
+ * Request body:
+ * - cvData: CvData (any schema version)
+ * - format?: 'text' | 'markdown' (default: 'text')
+ * - asciiOnly?: boolean (default: false) - replace dashes, quotes, bullets, £/€ and accents
+ * - lineWidth?: number (default: 80) - 0 for no wrapping, otherwise 40-120
+ *
+ * Response:
+ * - { ok: true, text, format }
+ * - { ok: false, error, issues? } with 400 for invalid input
+ */
 export async function POST(req: Request) {
-  return NextResponse.json({ ok: false, error: 'Not implemented' }, { status: 501 })
+  try {
+    const body = await req.json().catch(() => null)
+    if (!body?.cvData) {
+      return NextResponse.json({ ok: false, error: 'CV data is required' }, { status: 400 })
+    }
+    const parsed = parseCvData(body.cvData)
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid CV data: ${formatCvSchemaIssues(parsed.issues)}`, issues: parsed.issues },
+        { status: 400 }
+      )
+    }
+    const cvData = parsed.data
+
+    const format: PlainTextCvFormat = body.format ?? 'text'
+    if (!PLAIN_TEXT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { ok: false, error: `Unknown format. Use one of: ${PLAIN_TEXT_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const lineWidth = body.lineWidth ?? DEFAULT_LINE_WIDTH
+    if (
+      typeof lineWidth !== 'number' ||
+      !Number.isInteger(lineWidth) ||
+      (lineWidth !== 0 && (lineWidth < MIN_LINE_WIDTH || lineWidth > MAX_LINE_WIDTH))
+    ) {
+      return NextResponse.json(
+        { ok: false, error: `lineWidth must be 0 (no wrapping) or a whole number from ${MIN_LINE_WIDTH} to ${MAX_LINE_WIDTH}` },
+        { status: 400 }
+      )
+    }
+
+    const text = renderCvPlainText(cvData, { format, asciiOnly: body.asciiOnly === true, lineWidth })
+    return NextResponse.json({ ok: true, text, format })
+  } catch (error: any) {
+    console.error('[Plain Text CV] Generation error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Failed to generate plain-text CV' },
+      { status: 500 }
+    )
+  }
 }
@@ -1,59 +1,179 @@
 import { NextRequest, NextResponse } from 'next/server'
+import OpenAI from 'openai'
+import { OPENAI_MODEL } from '@/lib/openai-model'
+import {
+  INTERVIEW_COMPETENCIES,
+  INTERVIEW_COMPETENCY_LABELS,
+  detectSector,
+  isInterviewCompetency,
+  isInterviewDifficulty,
+  loadQuestionBank,
+  mixInterviewQuestions,
+  selectBankQuestions,
+  type InterviewCompetency,
+  type InterviewDifficulty,
+  type InterviewQuestion,
+} from '@/lib/interview-question-bank'
 
+const openai = new OpenAI({
+  apiKey: process.env.OPENAI_API_KEY || '',
+})
+
+const DEFAULT_QUESTION_COUNT = 8
+const MAX_QUESTION_COUNT = 12
+
+/**
+ * AI questions for the competencies the bank questions leave open, one per
+ * competency. Any failure returns no questions: the bank covers the interview.
+ */
+async function generateAiQuestions(
+  jobTitle: string,
+  company: string,
+  competencies: InterviewCompetency[],
+  count: number,
+  difficulty: InterviewDifficulty
+): Promise<InterviewQuestion[]> {
+  if (count <= 0 || competencies.length === 0) return []
+
+  try {
+    const completion = await openai.chat.completions.create({
+      model: OPENAI_MODEL,
+      messages: [
+        {
+          role: 'system',
+          content:
+            'You are an experienced UK hiring manager writing interview questions. Write realistic, role-specific questions in UK English, one competency per question. Respond in strict JSON format only.',
+        },
+        {
+          role: 'user',
+          content: `Write ${count} interview questions for a ${jobTitle} role${company ? ` at ${company}` : ''}.
+Difficulty: ${difficulty}.
+Each question must test a DIFFERENT competency from this list, using its id exactly:
+${competencies.map((competency) => `- ${competency} (${INTERVIEW_COMPETENCY_LABELS[competency]})`).join('\n')}
+
+Return: {"questions": [{"question": "string", "competency": "competency id"}]}`,
+        },
+      ],
+      temperature: 0.7,
+      max_tokens: 800,
+      response_format: { type: 'json_object' },
+    })
+
+    const parsed = JSON.parse(completion.choices[0]?.message?.content || '{}')
+    const items: unknown[] = Array.isArray(parsed.questions) ? parsed.questions : []
+    return items
+      .filter(
+        (item: any) =>
+          item &&
+          typeof item.question === 'string' &&
+          item.question.trim() &&
+          isInterviewCompetency(item.competency) &&
+          competencies.includes(item.competency)
+      )
+      .map((item: any, index) => ({
+        id: `ai-${index + 1}`,
+        question: item.question.trim(),
+        competency: item.competency,
+        difficulty,
+        sector: null,
+        source: 'ai' as const,
+      }))
+  } catch (error) {
+    console.error('[Interview Questions] AI generation failed, using the bank only:', error)
+    return []
+  }
+}
+
+/**
+ * POST /api/interview/generate-questions
+ *
+ * Interview questions for a job, mixing the curated question bank
+ * (lib/interview-question-bank.json, tagged by competency, sector and
+ * difficulty) with AI-written questions. No competency is asked twice.
+ * Without OPENAI_API_KEY, all questions come from the bank.
+ *
+ * Request body:
+ * - jobTitle: string (or jobType, for backward compatibility)
+ * - company?: string
+ * - sector?: string (CareerPath id from lib/career-paths.ts; detected from the job title if omitted)
+ * - difficulty?: 'easy' | 'medium' | 'hard' (default 'medium')
+ * - count?: number (default 8, max 12)
+ *
+ * Response:
+ * - { ok: true, questions: InterviewQuestion[], sector, bankVersion }
+ * - { ok: false, error } on error
+ */
 export async function POST(req: NextRequest) {
   try {
-    // Accept job context: jobTitle, company, and jobType (for backward compatibility)
-    const { jobTitle, company, jobType } = await req.json()
+    const body = await req.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ ok: false, error: 'Invalid request body' }, { status: 400 })
+    }
+    const { jobTitle, company, jobType } = body
+
+    const field = (['jobTitle', 'jobType', 'company'] as const).find((key) => body[key] != null && typeof body[key] !== 'string')
+    if (field) {
+      return NextResponse.json({ ok: false, error: `${field} must be a string` }, { status: 400 })
+    }
 
     // Use jobTitle if provided, otherwise fall back to jobType
-    const finalJobTitle = jobTitle || jobType || ''
-    const finalCompany = company || ''
+    const finalJobTitle: string = (jobTitle || jobType || '').trim()
+    const finalCompany: string = (company || '').trim()
 
     // If no job context is provided, return error
-    if (!finalJobTitle || finalJobTitle.trim().length === 0) {
+    if (!finalJobTitle) {
       return NextResponse.json(
         { ok: false, error: 'Job title or job type is required' },
         { status: 400 }
       )
     }
 
-    // Return 8 base questions as objects with id and question properties
-    const questions = [
-      {
-        id: '1',
-        question: `Tell me about yourself and why you're interested in the ${finalJobTitle || 'this'} position at ${finalCompany || 'this company'}.`,
-      },
-      {
-        id: '2',
-        question: `What relevant experience do you have that prepares you for the ${finalJobTitle || 'role'}?`,
-      },
-      {
-        id: '3',
-        question: `Describe a time you faced a challenge similar to what you expect in this ${finalJobTitle || 'role'}.`,
-      },
-      {
-        id: '4',
-        question: `Tell me about a time you worked in a team on a project relevant to ${finalJobTitle || 'this position'}.`,
-      },
-      {
-        id: '5',
-        question: `What do you see as the most important skills for a successful ${finalJobTitle || 'candidate'} at ${finalCompany || 'this company'}?`,
-      },
-      {
-        id: '6',
-        question: `Describe an achievement you are proud of that shows you are a good fit for ${finalJobTitle || 'this role'}.`,
-      },
-      {
-        id: '7',
-        question: `How do you handle pressure, deadlines or targets in a role like ${finalJobTitle || 'this'}?`,
-      },
-      {
-        id: '8',
-        question: `Why should ${finalCompany || 'the employer'} choose you for the ${finalJobTitle || 'position'} over other candidates?`,
-      },
-    ]
-
-    return NextResponse.json({ ok: true, questions })
+    const difficulty: InterviewDifficulty = isInterviewDifficulty(body.difficulty) ? body.difficulty : 'medium'
+    const requestedCount = Number(body.count)
+    const count = Number.isInteger(requestedCount) && requestedCount > 0
+      ? Math.min(requestedCount, MAX_QUESTION_COUNT)
+      : DEFAULT_QUESTION_COUNT
+
+    const { bank, source } = await loadQuestionBank()
+    const sector = typeof body.sector === 'string' && body.sector in bank.sectors
+      ? body.sector
+      : detectSector(bank, finalJobTitle)
+
+    const bankQuestions = selectBankQuestions(bank, {
+      jobTitle: finalJobTitle,
+      company: finalCompany,
+      sector,
+      difficulty,
+      limit: count,
+    })
+
+    // Half the interview from the bank; the AI covers competencies the bank half leaves open
+    const bankShare = Math.ceil(count / 2)
+    const covered = new Set(bankQuestions.slice(0, bankShare).map((question) => question.competency))
+    const aiQuestions = process.env.OPENAI_API_KEY
+      ? await generateAiQuestions(
+          finalJobTitle,
+          finalCompany,
+          INTERVIEW_COMPETENCIES.filter((competency) => !covered.has(competency)),
+          count - Math.min(bankShare, bankQuestions.length),
+          difficulty
+        )
+      : []
+    if (!process.env.OPENAI_API_KEY) {
+      console.warn('[AI MOCK] no OPENAI_API_KEY - using bank questions only')
+    }
+
+    const questions = mixInterviewQuestions(bankQuestions, aiQuestions, count, bankShare)
+
+    console.log('[Interview Questions]', {
+      sector,
+      bankVersion: bank.version,
+      bankSource: source,
+      bank: questions.filter((question) => question.source === 'bank').length,
+      ai: questions.filter((question) => question.source === 'ai').length,
+    })
+
+    return NextResponse.json({ ok: true, questions, sector, bankVersion: bank.version })
   } catch (error: any) {
     console.error('Question generation error:', error)
     return NextResponse.json(
@@ -62,4 +182,3 @@ export async function POST(req: NextRequest) {
     )
   }
 }
-
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { buildInterviewProgress, isInterviewPracticeMode, toInterviewAttempt } from '@/lib/interview-history'
+
+export const dynamic = 'force-dynamic'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+const DEFAULT_LIMIT = 200
+const MAX_LIMIT = 500
+
+/**
+ * GET /api/interview/history
+ *
+ * Returns the user's saved interview answers (newest first) plus score
+ * trends per question category.
+ *
+ * Query params:
+ * - mode?: 'written' | 'voice' | 'hard' | 'simulation'
+ * - category?: question category
+ * - jobId?: only answers practised for this job
+ * - limit?: number (default 200, max 500)
+ *
+ * Response:
+ * - { ok: true, attempts: InterviewAttempt[], progress: InterviewCategoryProgress[] }
+ * - 401 if not authenticated
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(req.url)
+    const mode = searchParams.get('mode')
+    const category = searchParams.get('category')
+    const jobId = searchParams.get('jobId')
+    const requestedLimit = parseInt(searchParams.get('limit') || '', 10)
+    const limit = Number.isFinite(requestedLimit) && requestedLimit > 0
+      ? Math.min(requestedLimit, MAX_LIMIT)
+      : DEFAULT_LIMIT
+
+    if (mode && !isInterviewPracticeMode(mode)) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid mode: ${mode}` },
+        { status: 400 }
+      )
+    }
+
+    let query = supabase
+      .from('interview_training')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+      .limit(limit)
+
+    if (mode) query = query.eq('mode', mode)
+    if (category) query = query.eq('category', category)
+    if (jobId) query = query.eq('job_id', jobId)
+
+    const { data: rows, error } = await query
+
+    if (error) {
+      console.error('[Interview History] Query error:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to fetch interview history' },
+        { status: 500 }
+      )
+    }
+
+    const attempts = (rows || []).map(toInterviewAttempt)
+
+    return NextResponse.json({
+      ok: true,
+      attempts,
+      progress: buildInterviewProgress(attempts),
+    })
+  } catch (error: any) {
+    console.error('[Interview History] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,16 +1,93 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import {
+  categorizeInterviewQuestion,
+  isInterviewPracticeMode,
+  normalizeInterviewScore,
+  toInterviewAttempt,
+} from '@/lib/interview-history'
 
+export const dynamic = 'force-dynamic'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+/**
+ * POST /api/interview/save
+ *
+ * Stores one interview-coach answer in interview_training for the authenticated user.
+ *
+ * Request body:
+ * - question: string (required)
+ * - answer: string (required) - written answer or voice transcript
+ * - mode?: 'written' | 'voice' | 'hard' | 'simulation' (default 'written')
+ * - score?: number (0-10)
+ * - categoryScores?: Record<string, number> - per-criterion scores (clarity, tone, ...)
+ * - strengths?: string[]
+ * - weaknesses?: string[]
+ * - improvedAnswer?: string (legacy: improved_answer)
+ * - feedback?: string - overall coach feedback
+ * - jobId?, jobTitle?, company?: string
+ *
+ * Response:
+ * - { ok: true, attempt: InterviewAttempt }
+ * - 401 if not authenticated
+ */
 export async function POST(req: NextRequest) {
   try {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    let body
+    try {
+      body = await req.json()
+    } catch (parseError) {
+      console.error('[Interview Save] JSON parse error:', parseError)
+      return NextResponse.json(
+        { ok: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
     const {
-      user_id,
       question,
       answer,
+      mode,
       score,
+      categoryScores,
       strengths,
       weaknesses,
-      improved_answer,
-    } = await req.json()
+      jobId,
+      jobTitle,
+      company,
+      feedback,
+    } = body
+    const improvedAnswer = body.improvedAnswer ?? body.improved_answer
 
     if (!question || !answer) {
       return NextResponse.json(
@@ -19,48 +96,43 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    // TODO: Replace with actual Supabase integration
-    // For now, this is a placeholder that simulates saving
-    // When Supabase is configured, replace this with:
-    /*
-    import { createClient } from '@supabase/supabase-js'
-    
-    const supabase = createClient(
-      process.env.NEXT_PUBLIC_SUPABASE_URL!,
-      process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
-    )
-    
-    const { error } = await supabase
+    if (mode !== undefined && !isInterviewPracticeMode(mode)) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid mode: ${mode}` },
+        { status: 400 }
+      )
+    }
+
+    const { data: row, error } = await supabase
       .from('interview_training')
       .insert({
-        user_id: user_id || 'demo_user',
-        question,
-        answer,
-        score,
-        strengths: JSON.stringify(strengths || []),
-        weaknesses: JSON.stringify(weaknesses || []),
-        improved_answer,
-        created_at: new Date().toISOString(),
+        user_id: user.id,
+        mode: mode || 'written',
+        question: String(question),
+        category: categorizeInterviewQuestion(String(question)),
+        answer: String(answer),
+        score: normalizeInterviewScore(score),
+        category_scores: categoryScores && typeof categoryScores === 'object' ? categoryScores : null,
+        strengths: Array.isArray(strengths) ? strengths : [],
+        weaknesses: Array.isArray(weaknesses) ? weaknesses : [],
+        improved_answer: improvedAnswer || null,
+        feedback: typeof feedback === 'string' && feedback.trim() ? feedback : null,
+        job_id: jobId || null,
+        job_title: jobTitle || null,
+        company: company || null,
       })
-    
+      .select()
+      .single()
+
     if (error) {
-      throw error
+      console.error('[Interview Save] Insert error:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to save interview answer' },
+        { status: 500 }
+      )
     }
-    */
 
-    // Mock save - logs to console for now
-    console.log('[Interview Save]', {
-      user_id: user_id || 'demo_user',
-      question,
-      answer,
-      score,
-      strengths,
-      weaknesses,
-      improved_answer,
-      created_at: new Date().toISOString(),
-    })
-
-    return NextResponse.json({ ok: true, message: 'Saved successfully' })
+    return NextResponse.json({ ok: true, attempt: toInterviewAttempt(row) })
   } catch (error: any) {
     console.error('Save error:', error)
     return NextResponse.json(
@@ -69,4 +141,3 @@ export async function POST(req: NextRequest) {
     )
   }
 }
-
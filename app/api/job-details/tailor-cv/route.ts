@@ -1,16 +1,146 @@
 import { NextRequest, NextResponse } from 'next/server'
+import OpenAI from 'openai'
+import { OPENAI_MODEL } from '@/lib/openai-model'
+import { tailorCvForJob, type TailorAiRewrite } from '@/lib/cv-tailor'
+import { formatCvSchemaIssues, parseCvData, type CvData } from '@/lib/cv-schema'
 
+/**
+ * Ask the model to reword the summary and bullets for the job.
+ * Returns null on any failure so the caller falls back to the deterministic pass.
+ */
+async function getAiRewrite(cvData: CvData, jobDescription: string, jobTitle?: string, company?: string): Promise<TailorAiRewrite | null> {
+  if (!process.env.OPENAI_API_KEY) return null
+
+  try {
+    const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY })
+    const experience = (cvData.experience || []).map((exp) => ({
+      id: exp.id,
+      jobTitle: exp.jobTitle,
+      company: exp.company,
+      bullets: exp.bullets || [],
+    }))
+
+    const completion = await openai.chat.completions.create({
+      model: OPENAI_MODEL,
+      messages: [
+        {
+          role: 'system',
+          content: `You are an expert CV writer tailoring a CV to a job advert. Rules:
+- Reword only; never add employers, qualifications, numbers, dates or skills that are not in the CV
+- Summary: 60-100 words, neutral no-pronoun resume style, no candidate name
+- Bullets: keep exactly the same number of bullets per experience, one reworded bullet per original, same order
+- Use the job advert's wording where the CV genuinely supports it
+- Return ONLY JSON: {"summary": "...", "experience": [{"id": "...", "bullets": ["..."]}]}`,
+        },
+        {
+          role: 'user',
+          content: `Job: ${jobTitle || 'Not specified'}${company ? ` at ${company}` : ''}
+
+Job description:
+${jobDescription}
+
+Current summary:
+${cvData.summary || ''}
+
+Current experience:
+${JSON.stringify(experience, null, 2)}`,
+        },
+      ],
+      temperature: 0.4,
+      max_tokens: 2000,
+    })
+
+    const content = completion.choices[0]?.message?.content || ''
+    const jsonMatch = content.match(/\{[\s\S]*\}/)
+    const parsed = JSON.parse(jsonMatch ? jsonMatch[0] : content)
+
+    // Only keep reworded bullets that map one-to-one onto the originals
+    const originalsById = new Map(experience.map((exp) => [exp.id, exp.bullets]))
+    const rewrittenExperience = (Array.isArray(parsed.experience) ? parsed.experience : [])
+      .filter((exp: any) => {
+        const original = originalsById.get(exp?.id)
+        return original && Array.isArray(exp.bullets) && exp.bullets.length === original.length
+      })
+      .map((exp: any) => ({ id: String(exp.id), bullets: exp.bullets.map((b: unknown) => String(b).trim()) }))
+
+    return {
+      summary: typeof parsed.summary === 'string' && cvData.summary?.trim() ? parsed.summary.trim() : undefined,
+      experience: rewrittenExperience,
+    }
+  } catch (error) {
+    console.error('[Tailor CV] AI rewrite failed, using deterministic fallback:', error)
+    return null
+  }
+}
+
+/**
+ * POST /api/job-details/tailor-cv
+ *
+ * Request body:
+ * - cvData: CvData (full CV to tailor, any schema version)
+ * - jobDescription: string (required with cvData)
+ * - jobTitle?: string
+ * - company?: string
+ * - location?: string
+ * - summary?: string (legacy: tailor only a summary when cvData is not sent)
+ *
+ * Response:
+ * - { ok: true, tailoredCv, changes, matchedKeywords, missingKeywords, source, tailoredSummary }
+ *   `changes` is a per-field diff (field path, before, after, reason) to accept or reject.
+ *   `source` is 'ai' when OpenAI reworded the text, 'fallback' for the deterministic pass.
+ */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
-    const { summary, jobTitle, company, location } = body
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ ok: false, error: 'Invalid request body' }, { status: 400 })
+    }
+
+    const field = (['jobTitle', 'company', 'location'] as const).find((key) => body[key] != null && typeof body[key] !== 'string')
+    if (field) {
+      return NextResponse.json({ ok: false, error: `${field} must be a string` }, { status: 400 })
+    }
+    const { jobTitle, company, location } = body as { jobTitle?: string; company?: string; location?: string }
+    const jobDescription: string = typeof body.jobDescription === 'string' ? body.jobDescription : ''
+
+    // Legacy callers only send a summary: tailor it as a one-field CV
+    const rawCv = body.cvData ?? (typeof body.summary === 'string' ? { summary: body.summary } : null)
 
-    // Simple mock transformation - prefix with tailored message
-    const tailoredSummary = `Tailored for ${jobTitle || 'this role'} at ${company || 'this company'}: ${summary || 'Motivated professional with relevant experience and skills.'}`
+    if (!rawCv) {
+      return NextResponse.json(
+        { ok: false, error: 'cvData is required' },
+        { status: 400 }
+      )
+    }
+
+    const parsed = parseCvData(rawCv)
+    if (!parsed.ok) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid CV data: ${formatCvSchemaIssues(parsed.issues)}`, issues: parsed.issues },
+        { status: 400 }
+      )
+    }
+    const cvData = parsed.data
+
+    const jobText = jobDescription.trim() || [jobTitle, company, location].filter(Boolean).join(' ')
+    if (!jobText.trim()) {
+      return NextResponse.json(
+        { ok: false, error: 'Job description is required' },
+        { status: 400 }
+      )
+    }
+
+    const rewrite = await getAiRewrite(cvData, jobText, jobTitle, company)
+    const result = tailorCvForJob(
+      cvData,
+      { jobDescription: jobText, jobTitle, company },
+      rewrite ?? undefined
+    )
 
     return NextResponse.json({
       ok: true,
-      tailoredSummary
+      ...result,
+      tailoredSummary: result.tailoredCv.summary,
     })
   } catch (error) {
     console.error('Error tailoring CV:', error)
@@ -20,4 +150,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
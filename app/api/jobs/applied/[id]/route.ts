@@ -0,0 +1,197 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { appendStageHistory, isApplicationStage, type StageHistoryEntry } from '@/lib/applied-jobs-storage'
+
+export const dynamic = 'force-dynamic'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+/**
+ * PATCH /api/jobs/applied/[id]
+ * Moves an application through the pipeline and/or edits it.
+ *
+ * Request body (all optional):
+ * - stage: ApplicationStage - appended to stage_history when it changes
+ * - stageNote: string - note stored on the new history entry
+ * - notes: string
+ * - cvId / cvVersionId / coverLetterId: string | null - what was sent
+ *
+ * Response:
+ * - { ok: true, appliedJob: {...} }
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    let body
+    try {
+      body = await req.json()
+    } catch (parseError) {
+      console.error('[AppliedJobs] PATCH - JSON parse error:', parseError)
+      return NextResponse.json(
+        { ok: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const { stage, stageNote, notes, cvId, cvVersionId, coverLetterId } = body || {}
+
+    if (stage !== undefined && !isApplicationStage(stage)) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid stage: ${stage}` },
+        { status: 400 }
+      )
+    }
+
+    const { data: existing, error: fetchError } = await supabase
+      .from('applied_jobs')
+      .select('id, stage, stage_history')
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (fetchError || !existing) {
+      return NextResponse.json(
+        { ok: false, error: 'Application not found or access denied' },
+        { status: 404 }
+      )
+    }
+
+    const update: Record<string, any> = {
+      updated_at: new Date().toISOString(),
+    }
+
+    if (stage !== undefined) {
+      const history: StageHistoryEntry[] = Array.isArray(existing.stage_history) ? existing.stage_history : []
+      const note = typeof stageNote === 'string' && stageNote.trim() ? stageNote.trim() : undefined
+      update.stage = stage
+      update.stage_history = appendStageHistory(history, stage, note, update.updated_at)
+    }
+    if (notes !== undefined) update.notes = typeof notes === 'string' ? notes : null
+    if (cvId !== undefined) update.cv_id = cvId || null
+    if (cvVersionId !== undefined) update.cv_version_id = cvVersionId || null
+    if (coverLetterId !== undefined) update.cover_letter_id = coverLetterId || null
+
+    const { data: appliedJob, error } = await supabase
+      .from('applied_jobs')
+      .update(update)
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .select()
+      .single()
+
+    if (error) {
+      console.error('[AppliedJobs] PATCH - Update error:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to update application' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, appliedJob })
+  } catch (error: any) {
+    console.error('[AppliedJobs] PATCH - Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/jobs/applied/[id]
+ * Removes an application from the user's pipeline.
+ */
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { data: deleted, error } = await supabase
+      .from('applied_jobs')
+      .delete()
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .select('id')
+
+    if (error) {
+      console.error('[AppliedJobs] DELETE - Delete error:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to delete application' },
+        { status: 500 }
+      )
+    }
+
+    if (!deleted || deleted.length === 0) {
+      return NextResponse.json(
+        { ok: false, error: 'Application not found or access denied' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    console.error('[AppliedJobs] DELETE - Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
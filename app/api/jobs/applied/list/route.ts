@@ -10,7 +10,8 @@ const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 /**
  * GET /api/jobs/applied/list
  * 
- * Returns all applied jobs for the authenticated user, ordered by applied_at desc (limit 50).
+ * Returns the authenticated user's application pipeline (stage, stage_history,
+ * notes, linked CV version / cover letter), ordered by applied_at desc (limit 200).
  * 
  * Response:
  * - { ok: true, jobs: [...] } on success
@@ -54,13 +55,13 @@ export async function GET(req: NextRequest) {
 
     console.log('[AppliedJobs] GET /api/jobs/applied/list - User authenticated:', user.id)
 
-    // Query applied jobs for this user, ordered by applied_at desc, limit 50
+    // Query applied jobs for this user, ordered by applied_at desc, limit 200
     const { data: appliedJobs, error: queryError } = await supabase
       .from('applied_jobs')
       .select('*')
       .eq('user_id', user.id)
       .order('applied_at', { ascending: false })
-      .limit(50)
+      .limit(200)
 
     if (queryError) {
       console.error('[AppliedJobs] GET /api/jobs/applied/list - Database error:', queryError)
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createServerClient } from '@supabase/ssr'
 import { cookies } from 'next/headers'
 import { logEvent } from '@/lib/analytics/logEvent'
+import { appendStageHistory, isApplicationStage, type ApplicationStage, type StageHistoryEntry } from '@/lib/applied-jobs-storage'
 
 export const dynamic = 'force-dynamic'
 
@@ -13,6 +14,7 @@ const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
  * 
  * Creates or updates an applied job for the authenticated user in the database.
  * Uses upsert based on (user_id, job_key) to prevent duplicates.
+ * A stage change is appended to the row's stage history.
  * 
  * Request body:
  * - jobKey: string (required) - Unique identifier for the job
@@ -22,6 +24,12 @@ const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
  * - location?: string - Job location
  * - url?: string - Job URL
  * - data?: object - Additional job data (stored as JSONB)
+ * - stage?: ApplicationStage - Pipeline stage (new rows default to 'applied')
+ * - notes?: string
+ * - cvId?: string - Library CV sent; its latest version is linked when cvVersionId is omitted
+ * - cvVersionId?: string
+ * - coverLetterId?: string - Defaults to the user's cover letter saved for this jobKey
+ * - coverLetterText?: string - Cover letter text as sent (stored as a snapshot)
  * 
  * Response:
  * - { ok: true, appliedJob: {...} } on success
@@ -78,7 +86,7 @@ export async function POST(req: NextRequest) {
     }
 
     // Validate required fields
-    const { jobKey, source, jobTitle, company, location, url, data } = body
+    const { jobKey, source, jobTitle, company, location, url, data, stage, notes, cvId, cvVersionId, coverLetterId, coverLetterText } = body
 
     if (!jobKey) {
       console.error('[AppliedJobs] POST /api/jobs/applied/upsert - Missing jobKey')
@@ -88,11 +96,27 @@ export async function POST(req: NextRequest) {
       )
     }
 
+    if (stage !== undefined && !isApplicationStage(stage)) {
+      return NextResponse.json(
+        { ok: false, error: `Invalid stage: ${stage}` },
+        { status: 400 }
+      )
+    }
+
+    // Load the existing row (if any) so the stage history can be extended
+    const { data: existing } = await supabase
+      .from('applied_jobs')
+      .select('stage, stage_history')
+      .eq('user_id', user.id)
+      .eq('job_key', jobKey)
+      .maybeSingle()
+
     console.log('[AppliedJobs] POST /api/jobs/applied/upsert - Upserting job:', {
       jobKey,
       jobTitle,
       company,
       source,
+      stage,
     })
 
     // Prepare the data for upsert
@@ -108,6 +132,49 @@ export async function POST(req: NextRequest) {
     if (company !== undefined) appliedJobData.company = company
     if (location !== undefined) appliedJobData.location = location
     if (url !== undefined) appliedJobData.url = url
+    if (notes !== undefined) appliedJobData.notes = notes
+
+    const nextStage: ApplicationStage = stage ?? (isApplicationStage(existing?.stage) ? existing.stage : 'applied')
+    const history: StageHistoryEntry[] = Array.isArray(existing?.stage_history) ? existing.stage_history : []
+    const now = new Date().toISOString()
+    appliedJobData.stage = nextStage
+    appliedJobData.stage_history = appendStageHistory(history, nextStage, undefined, now)
+    appliedJobData.updated_at = now
+
+    // Link the CV that was sent, pinning the version current at send time
+    if (cvId) {
+      appliedJobData.cv_id = cvId
+      if (cvVersionId) {
+        appliedJobData.cv_version_id = cvVersionId
+      } else {
+        const { data: latestVersion } = await supabase
+          .from('cv_versions')
+          .select('id')
+          .eq('cv_id', cvId)
+          .eq('user_id', user.id)
+          .order('created_at', { ascending: false })
+          .limit(1)
+          .maybeSingle()
+        if (latestVersion) appliedJobData.cv_version_id = latestVersion.id
+      }
+    }
+
+    if (coverLetterId) {
+      appliedJobData.cover_letter_id = coverLetterId
+    } else if (coverLetterText !== undefined) {
+      const { data: coverRow } = await supabase
+        .from('cover_letters')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('job_key', jobKey)
+        .order('updated_at', { ascending: false })
+        .limit(1)
+        .maybeSingle()
+      if (coverRow) appliedJobData.cover_letter_id = coverRow.id
+    }
+    if (typeof coverLetterText === 'string' && coverLetterText.trim()) {
+      appliedJobData.cover_letter_snapshot = coverLetterText
+    }
 
     // Upsert using onConflict on the unique index (user_id, job_key)
     const { data: appliedJob, error: upsertError } = await supabase
@@ -143,7 +210,9 @@ export async function POST(req: NextRequest) {
       )
     }
 
-    logEvent('job_applied', {}, supabase).catch(() => {})
+    if (nextStage !== 'saved') {
+      logEvent('job_applied', {}, supabase).catch(() => {})
+    }
     console.log('[AppliedJobs] POST /api/jobs/applied/upsert - Successfully saved applied job:', appliedJob.id)
 
     return NextResponse.json({
@@ -0,0 +1,178 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { normalizeSavedSearchFilters, toSavedSearch } from '@/lib/jobs/saved-searches'
+
+export const dynamic = 'force-dynamic'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+/**
+ * PATCH /api/jobs/saved-searches/[id]
+ * Edits a saved search.
+ *
+ * Request body (all optional):
+ * - name: string
+ * - keyword: string
+ * - location: string
+ * - filters: JobSearchFilters
+ * - alertsEnabled: boolean - include in the scheduled re-run
+ *
+ * Response:
+ * - { ok: true, search: SavedSearch }
+ */
+export async function PATCH(
+  req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    let body
+    try {
+      body = await req.json()
+    } catch (parseError) {
+      console.error('[Saved Searches] JSON parse error:', parseError)
+      return NextResponse.json(
+        { ok: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const updates: Record<string, unknown> = { updated_at: new Date().toISOString() }
+
+    for (const field of ['name', 'keyword', 'location'] as const) {
+      if (body[field] === undefined) continue
+      const value = typeof body[field] === 'string' ? body[field].trim() : ''
+      if (!value) {
+        return NextResponse.json(
+          { ok: false, error: `${field} cannot be empty` },
+          { status: 400 }
+        )
+      }
+      updates[field] = value
+    }
+    if (body.filters !== undefined) updates.filters = normalizeSavedSearchFilters(body.filters)
+    if (typeof body.alertsEnabled === 'boolean') updates.alerts_enabled = body.alertsEnabled
+
+    const { data: row, error } = await supabase
+      .from('saved_searches')
+      .update(updates)
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('[Saved Searches] Update error:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to update saved search' },
+        { status: 500 }
+      )
+    }
+
+    if (!row) {
+      return NextResponse.json(
+        { ok: false, error: 'Saved search not found' },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, search: toSavedSearch(row) })
+  } catch (error: any) {
+    console.error('[Saved Searches] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/jobs/saved-searches/[id]
+ * Deletes a saved search and its recorded matches.
+ *
+ * Response:
+ * - { ok: true }
+ */
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { error } = await supabase
+      .from('saved_searches')
+      .delete()
+      .eq('id', params.id)
+      .eq('user_id', user.id)
+
+    if (error) {
+      console.error('[Saved Searches] Delete error:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to delete saved search' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    console.error('[Saved Searches] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
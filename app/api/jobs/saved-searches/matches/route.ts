@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { toSavedSearchMatch } from '@/lib/jobs/saved-searches'
+
+export const dynamic = 'force-dynamic'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+/**
+ * GET /api/jobs/saved-searches/matches
+ *
+ * New jobs found by the scheduled re-run of the user's saved searches
+ * (newest first).
+ *
+ * Query params:
+ * - all?: '1' to include matches already marked as seen (default: unseen only)
+ * - searchId?: only matches for this saved search
+ * - limit?: number (default 50, max 200)
+ *
+ * Response:
+ * - { ok: true, matches: SavedSearchMatch[], unseenCount: number }
+ * - 401 if not authenticated
+ */
+export async function GET(req: NextRequest) {
+  try {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(req.url)
+    const includeSeen = searchParams.get('all') === '1'
+    const searchId = searchParams.get('searchId')
+    const requestedLimit = parseInt(searchParams.get('limit') || '', 10)
+    const limit = Number.isFinite(requestedLimit) && requestedLimit > 0
+      ? Math.min(requestedLimit, MAX_LIMIT)
+      : DEFAULT_LIMIT
+
+    let query = supabase
+      .from('saved_search_matches')
+      .select('*, saved_searches(name)')
+      .eq('user_id', user.id)
+      .order('found_at', { ascending: false })
+      .limit(limit)
+
+    if (!includeSeen) query = query.is('seen_at', null)
+    if (searchId) query = query.eq('saved_search_id', searchId)
+
+    const [{ data: rows, error }, { count: unseenCount }] = await Promise.all([
+      query,
+      supabase
+        .from('saved_search_matches')
+        .select('id', { count: 'exact', head: true })
+        .eq('user_id', user.id)
+        .is('seen_at', null),
+    ])
+
+    if (error) {
+      console.error('[Saved Searches] Matches query error:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to load new matches' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({
+      ok: true,
+      matches: (rows || []).map(toSavedSearchMatch),
+      unseenCount: unseenCount || 0,
+    })
+  } catch (error: any) {
+    console.error('[Saved Searches] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/jobs/saved-searches/matches
+ * Marks matches as seen (clears the dashboard badge).
+ *
+ * Request body:
+ * - ids?: string[] - match ids; omit to mark every unseen match as seen
+ *
+ * Response:
+ * - { ok: true }
+ */
+export async function PATCH(req: NextRequest) {
+  try {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body = await req.json().catch(() => ({}))
+    const ids = Array.isArray(body.ids) ? body.ids.filter((id: unknown) => typeof id === 'string') : null
+
+    let query = supabase
+      .from('saved_search_matches')
+      .update({ seen_at: new Date().toISOString() })
+      .eq('user_id', user.id)
+      .is('seen_at', null)
+
+    if (ids) query = query.in('id', ids)
+
+    const { error } = await query
+
+    if (error) {
+      console.error('[Saved Searches] Mark seen error:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to update matches' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true })
+  } catch (error: any) {
+    console.error('[Saved Searches] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
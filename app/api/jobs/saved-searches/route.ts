@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerClient } from '@supabase/ssr'
+import { cookies } from 'next/headers'
+import { MAX_SEEN_JOB_IDS, normalizeSavedSearchFilters, toSavedSearch } from '@/lib/jobs/saved-searches'
+
+export const dynamic = 'force-dynamic'
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
+
+/**
+ * GET /api/jobs/saved-searches
+ *
+ * Lists the user's saved searches with their unseen match counts.
+ *
+ * Response:
+ * - { ok: true, searches: SavedSearch[] }
+ * - 401 if not authenticated
+ */
+export async function GET() {
+  try {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const [{ data: rows, error }, { data: unseen }] = await Promise.all([
+      supabase
+        .from('saved_searches')
+        .select('id, name, keyword, location, filters, alerts_enabled, last_run_at, created_at')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false }),
+      supabase
+        .from('saved_search_matches')
+        .select('saved_search_id')
+        .eq('user_id', user.id)
+        .is('seen_at', null),
+    ])
+
+    if (error) {
+      console.error('[Saved Searches] List error:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to load saved searches' },
+        { status: 500 }
+      )
+    }
+
+    const unseenCounts = new Map<string, number>()
+    for (const match of unseen || []) {
+      unseenCounts.set(match.saved_search_id, (unseenCounts.get(match.saved_search_id) || 0) + 1)
+    }
+
+    return NextResponse.json({
+      ok: true,
+      searches: (rows || []).map((row) => toSavedSearch(row, unseenCounts.get(row.id) || 0)),
+    })
+  } catch (error: any) {
+    console.error('[Saved Searches] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/jobs/saved-searches
+ *
+ * Saves a search for daily re-runs and new-match alerts.
+ *
+ * Request body:
+ * - keyword: string (required)
+ * - location?: string (default 'UK')
+ * - filters?: JobSearchFilters
+ * - name?: string (default: "<keyword> in <location>")
+ * - seenJobIds?: string[] - ids already shown to the user, so they aren't reported as new
+ *
+ * Response:
+ * - { ok: true, search: SavedSearch }
+ * - 401 if not authenticated
+ */
+export async function POST(req: NextRequest) {
+  try {
+    const cookieStore = cookies()
+    const supabase = createServerClient(supabaseUrl, supabaseAnonKey, {
+      cookies: {
+        getAll() {
+          return cookieStore.getAll()
+        },
+        setAll(cookiesToSet) {
+          try {
+            cookiesToSet.forEach(({ name, value, options }) =>
+              cookieStore.set(name, value, options)
+            )
+          } catch {
+            // Ignore in route handler
+          }
+        },
+      },
+    })
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json(
+        { ok: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    let body
+    try {
+      body = await req.json()
+    } catch (parseError) {
+      console.error('[Saved Searches] JSON parse error:', parseError)
+      return NextResponse.json(
+        { ok: false, error: 'Invalid JSON in request body' },
+        { status: 400 }
+      )
+    }
+
+    const keyword = typeof body.keyword === 'string' ? body.keyword.trim() : ''
+    if (!keyword) {
+      return NextResponse.json(
+        { ok: false, error: 'keyword is required' },
+        { status: 400 }
+      )
+    }
+
+    const location = typeof body.location === 'string' && body.location.trim() ? body.location.trim() : 'UK'
+    const name = typeof body.name === 'string' && body.name.trim()
+      ? body.name.trim()
+      : `${keyword} in ${location}`
+    const seenJobIds = Array.isArray(body.seenJobIds)
+      ? body.seenJobIds.filter((id: unknown) => typeof id === 'string').slice(0, MAX_SEEN_JOB_IDS)
+      : []
+
+    const { data: row, error } = await supabase
+      .from('saved_searches')
+      .insert({
+        user_id: user.id,
+        name,
+        keyword,
+        location,
+        filters: normalizeSavedSearchFilters(body.filters),
+        seen_job_ids: seenJobIds,
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('[Saved Searches] Insert error:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to save search' },
+        { status: 500 }
+      )
+    }
+
+    return NextResponse.json({ ok: true, search: toSavedSearch(row) })
+  } catch (error: any) {
+    console.error('[Saved Searches] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,246 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@supabase/supabase-js'
+import {
+  buildSavedSearchQuery,
+  diffSavedSearchResults,
+  toSavedSearch,
+  type SavedSearchMatchJob,
+} from '@/lib/jobs/saved-searches'
+import { getNotifier } from '@/lib/notifier'
+import { SITE_URL } from '@/lib/site-url'
+
+export const dynamic = 'force-dynamic'
+export const maxDuration = 300
+
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL!
+const supabaseServiceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+
+const MAX_SEARCHES_PER_RUN = 200
+const MAX_JOBS_PER_EMAIL = 10
+// A few searches at once: providers back off on 429s (see lib/jobs/rate-limit.ts)
+const SEARCH_CONCURRENCY = 3
+// Stop starting searches in time to send the emails before maxDuration
+const SEARCH_TIME_BUDGET_MS = 240_000
+
+interface NewMatchSummary {
+  matchId: string
+  searchName: string
+  job: SavedSearchMatchJob
+}
+
+function isAuthorized(req: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET
+  if (!secret) {
+    // No secret configured: only allow manual runs in development
+    return process.env.NODE_ENV !== 'production'
+  }
+  return req.headers.get('authorization') === `Bearer ${secret}`
+}
+
+function buildAlertEmail(matches: NewMatchSummary[]): { subject: string; text: string } {
+  const subject = matches.length === 1
+    ? `1 new job for "${matches[0].searchName}"`
+    : `${matches.length} new jobs for your saved searches`
+
+  const lines = matches.slice(0, MAX_JOBS_PER_EMAIL).map(({ searchName, job }) => {
+    const details = [job.company, job.location, job.salary].filter(Boolean).join(' · ')
+    return `- ${job.title} (${details}) [${searchName}]${job.link ? `\n  ${job.link}` : ''}`
+  })
+  if (matches.length > MAX_JOBS_PER_EMAIL) {
+    lines.push(`...and ${matches.length - MAX_JOBS_PER_EMAIL} more`)
+  }
+
+  const text = [
+    'New jobs matching your saved searches:',
+    '',
+    ...lines,
+    '',
+    `See them all on your dashboard: ${SITE_URL}/dashboard`,
+  ].join('\n')
+
+  return { subject, text }
+}
+
+/**
+ * GET /api/jobs/saved-searches/run
+ *
+ * Scheduled re-run of every alert-enabled saved search (see vercel.json crons).
+ * Each search goes through /api/jobs/search; results are diffed against the
+ * search's seen job ids and new jobs are recorded in saved_search_matches.
+ * Users with new matches get one email through the configured notifier.
+ * The first run of a search without seen ids only records a baseline.
+ * Searches run a few at a time, oldest last_run_at first; those not started
+ * within the time budget are skipped and picked up first by the next run.
+ *
+ * Auth: `Authorization: Bearer ${CRON_SECRET}` (open in development when unset)
+ *
+ * Response:
+ * - { ok: true, searchesRun, skipped, newMatches, notified, failed: [{ searchId, error }] }
+ */
+export async function GET(req: NextRequest) {
+  try {
+    if (!isAuthorized(req)) {
+      return NextResponse.json(
+        { ok: false, error: 'Unauthorized' },
+        { status: 401 }
+      )
+    }
+
+    if (!supabaseServiceRoleKey) {
+      console.error('[Saved Searches Run] Service role key not configured')
+      return NextResponse.json(
+        { ok: false, error: 'Server configuration error' },
+        { status: 500 }
+      )
+    }
+
+    const adminClient = createClient(supabaseUrl, supabaseServiceRoleKey, {
+      auth: {
+        autoRefreshToken: false,
+        persistSession: false,
+      },
+    })
+
+    const { data: rows, error } = await adminClient
+      .from('saved_searches')
+      .select('*')
+      .eq('alerts_enabled', true)
+      .order('last_run_at', { ascending: true, nullsFirst: true })
+      .limit(MAX_SEARCHES_PER_RUN)
+
+    if (error) {
+      console.error('[Saved Searches Run] Query error:', error)
+      return NextResponse.json(
+        { ok: false, error: 'Failed to load saved searches' },
+        { status: 500 }
+      )
+    }
+
+    const newMatchesByUser = new Map<string, NewMatchSummary[]>()
+    const failed: Array<{ searchId: string; error: string }> = []
+    let newMatches = 0
+
+    const startedAt = Date.now()
+    const queue = rows || []
+    let nextIndex = 0
+    let searchesRun = 0
+
+    const runSearch = async (row: any) => {
+      const search = toSavedSearch(row)
+      try {
+        const searchUrl = new URL(`/api/jobs/search?${buildSavedSearchQuery(search).toString()}`, req.nextUrl.origin)
+        const response = await fetch(searchUrl, { cache: 'no-store' })
+        if (!response.ok) {
+          throw new Error(`Job search failed: ${response.status}`)
+        }
+        const data = await response.json()
+        const results: SavedSearchMatchJob[] = data.results || []
+
+        const previouslySeen: string[] = row.seen_job_ids || []
+        const isBaseline = previouslySeen.length === 0 && !row.last_run_at
+        const { newJobs, seenJobIds } = diffSavedSearchResults(results, previouslySeen)
+
+        if (!isBaseline && newJobs.length > 0) {
+          const { data: inserted, error: insertError } = await adminClient
+            .from('saved_search_matches')
+            .upsert(
+              newJobs.map((job) => ({
+                saved_search_id: search.id,
+                user_id: row.user_id,
+                job_id: job.id,
+                job,
+              })),
+              { onConflict: 'saved_search_id,job_id', ignoreDuplicates: true }
+            )
+            .select('id, job')
+
+          if (insertError) throw insertError
+
+          const summaries = (inserted || []).map((match) => ({
+            matchId: match.id,
+            searchName: search.name,
+            job: match.job as SavedSearchMatchJob,
+          }))
+          newMatches += summaries.length
+          newMatchesByUser.set(row.user_id, [...(newMatchesByUser.get(row.user_id) || []), ...summaries])
+        }
+
+        const { error: updateError } = await adminClient
+          .from('saved_searches')
+          .update({ seen_job_ids: seenJobIds, last_run_at: new Date().toISOString() })
+          .eq('id', search.id)
+
+        if (updateError) throw updateError
+
+        searchesRun++
+        console.log(`[Saved Searches Run] ${search.id}: ${results.length} results, ${isBaseline ? 'baseline' : `${newJobs.length} new`}`)
+      } catch (searchError) {
+        console.error(`[Saved Searches Run] Search ${search.id} failed:`, searchError)
+        failed.push({
+          searchId: search.id,
+          error: searchError instanceof Error ? searchError.message : 'Unknown error',
+        })
+      }
+    }
+
+    // Searches left when the time budget runs out keep the oldest last_run_at,
+    // so the next run starts with them
+    const worker = async () => {
+      while (nextIndex < queue.length && Date.now() - startedAt < SEARCH_TIME_BUDGET_MS) {
+        await runSearch(queue[nextIndex++])
+      }
+    }
+    await Promise.all(Array.from({ length: Math.min(SEARCH_CONCURRENCY, queue.length) }, worker))
+
+    const skipped = queue.length - nextIndex
+    if (skipped > 0) {
+      console.warn(`[Saved Searches Run] Time budget reached, ${skipped} searches left for the next run`)
+    }
+
+    // One email per user with new matches
+    const notifier = getNotifier()
+    const notifierError = notifier.getConfigError()
+    let notified = 0
+
+    if (notifierError) {
+      console.warn(`[Saved Searches Run] Notifier "${notifier.id}" not configured: ${notifierError}`)
+    } else {
+      for (const [userId, matches] of Array.from(newMatchesByUser.entries())) {
+        try {
+          const { data: userData, error: userError } = await adminClient.auth.admin.getUserById(userId)
+          const email = userData?.user?.email
+          if (userError || !email) continue
+
+          await notifier.send({ to: email, ...buildAlertEmail(matches) })
+
+          await adminClient
+            .from('saved_search_matches')
+            .update({ notified_at: new Date().toISOString() })
+            .in('id', matches.map((match) => match.matchId))
+
+          notified++
+        } catch (notifyError) {
+          console.error(`[Saved Searches Run] Failed to notify user ${userId}:`, notifyError)
+        }
+      }
+    }
+
+    return NextResponse.json({
+      ok: true,
+      searchesRun,
+      skipped,
+      newMatches,
+      notified,
+      failed,
+    })
+  } catch (error: any) {
+    console.error('[Saved Searches Run] Unexpected error:', error)
+    return NextResponse.json(
+      { ok: false, error: error.message || 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+// Manual runs (e.g. from a script) may POST
+export const POST = GET
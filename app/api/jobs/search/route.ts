@@ -1,37 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { fetchAdzunaJobs } from '@/lib/jobs/adzuna'
-import { fetchReedJobs } from '@/lib/jobs/reed'
-import { normalizeAdzunaJob, normalizeReedJob, removeDuplicates } from '@/lib/jobs/normalize'
-import type { UnifiedJob } from '@/lib/jobs/types'
+import { JOB_CONTRACT_TYPE_LABELS, parseJobSearchFilters } from '@/lib/jobs/filters'
+import { runJobSearch } from '@/lib/jobs/search'
+import { isJobSearchDemoMode, searchMockJobs } from '@/lib/jobs/mock-jobs'
 
 export const dynamic = 'force-dynamic'
 
-/**
- * Format salary from min/max to readable string
- */
-function formatSalary(min?: number, max?: number): string | undefined {
-  if (!min && !max) return undefined
-
-  const formatAmount = (amount: number) => {
-    return new Intl.NumberFormat('en-GB', {
-      style: 'currency',
-      currency: 'GBP',
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount)
-  }
-
-  if (min && max) {
-    return `${formatAmount(min)} - ${formatAmount(max)}`
-  } else if (min) {
-    return `From ${formatAmount(min)}`
-  } else if (max) {
-    return `Up to ${formatAmount(max)}`
-  }
-
-  return undefined
-}
-
 /**
  * GET /api/jobs/search
  * 
@@ -39,8 +12,24 @@ function formatSalary(min?: number, max?: number): string | undefined {
  * - keyword: Search keyword (required)
  * - location: Location filter (default: 'UK')
  * - page: Page number (default: 1)
+ * - salaryMin / salaryMax: Annual salary range in GBP
+ * - type: 'full_time' | 'part_time' | 'contract' | 'temporary'
+ * - radius: Distance from location in miles
+ * - postedWithin: Only jobs posted in the last N days
+ * - sort: 'relevance' (default) | 'date' | 'salary'
  * 
- * Returns unified job results from both Adzuna and Reed UK APIs
+ * Returns unified job results from every enabled provider (JOB_PROVIDERS,
+ * see lib/jobs/registry.ts), plus per-provider health and timing:
+ * { results: [...], providers: [{ id, label, status, count, durationMs, cached?, error? }] }
+ *
+ * Provider results are cached per search (lib/jobs/cache.ts); a provider that
+ * answered 429 is skipped while backing off and reports status 'rate_limited'.
+ *
+ * Listings of the same vacancy on several providers are merged into one
+ * result whose `sources` holds every provider URL.
+ *
+ * With JOB_SEARCH_DEMO_MODE=true, mock jobs are returned instead:
+ * { results: [...], providers: [], demo: true }
  */
 export async function GET(req: NextRequest) {
   try {
@@ -58,54 +47,27 @@ export async function GET(req: NextRequest) {
       )
     }
 
+    if (isJobSearchDemoMode()) {
+      const contractType = parseJobSearchFilters(searchParams).contractType
+      const results = searchMockJobs({
+        title: keyword,
+        location: location === 'UK' ? '' : location,
+        type: contractType ? JOB_CONTRACT_TYPE_LABELS[contractType] : undefined,
+      })
+      return NextResponse.json({ results, providers: [], demo: true }, { status: 200 })
+    }
+
     const searchParamsObj = {
       keyword: keyword.trim(),
       location: location.trim() || 'UK',
       page,
+      ...parseJobSearchFilters(searchParams),
     }
 
-    // Fetch jobs from both providers in parallel
-    const [adzunaJobsRaw, reedJobsRaw] = await Promise.allSettled([
-      fetchAdzunaJobs(searchParamsObj),
-      fetchReedJobs(searchParamsObj),
-    ])
-
-    // Normalize jobs from both providers
-    const allJobs: UnifiedJob[] = []
-
-    // Process Adzuna jobs
-    if (adzunaJobsRaw.status === 'fulfilled') {
-      const normalized = adzunaJobsRaw.value.map(normalizeAdzunaJob)
-      allJobs.push(...normalized)
-    } else {
-      console.error('Adzuna API error:', adzunaJobsRaw.reason)
-    }
-
-    // Process Reed jobs
-    if (reedJobsRaw.status === 'fulfilled') {
-      const normalized = reedJobsRaw.value.map(normalizeReedJob)
-      allJobs.push(...normalized)
-    } else {
-      console.error('Reed API error:', reedJobsRaw.reason)
-    }
-
-    // Remove duplicates (based on title + company + location)
-    const uniqueJobs = removeDuplicates(allJobs)
-
-    // Map to the format expected by the frontend
-    const mappedResults = uniqueJobs.map((job) => ({
-      id: job.id,
-      title: job.title,
-      company: job.company,
-      location: job.location,
-      description: job.description,
-      type: 'Full-time', // Default type for compatibility
-      link: job.url,
-      salary: formatSalary(job.salaryMin, job.salaryMax),
-      source: job.source,
-    }))
+    // Fetch jobs from all enabled providers in parallel, merged and sorted
+    const { results, providers } = await runJobSearch(searchParamsObj)
 
-    return NextResponse.json({ results: mappedResults }, { status: 200 })
+    return NextResponse.json({ results, providers }, { status: 200 })
   } catch (error) {
     console.error('Error in jobs/search route:', error)
     
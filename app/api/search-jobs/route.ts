@@ -1,47 +1,69 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { mockJobs } from '@/lib/jobs/mock-jobs'
+import { isJobSearchDemoMode, searchMockJobs } from '@/lib/jobs/mock-jobs'
+import { JOB_CONTRACT_TYPE_LABELS, JOB_CONTRACT_TYPES, isJobContractType, parseContractType } from '@/lib/jobs/filters'
+import { runJobSearch } from '@/lib/jobs/search'
 
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/search-jobs
+ *
+ * Same unified provider search as GET /api/jobs/search, for callers that POST.
+ *
+ * Request body:
+ * - title: string - job title or keyword (required)
+ * - location?: string (default: 'UK')
+ * - type?: contract type, either an id ('full_time' | 'part_time' | 'contract' | 'temporary')
+ *   or its label ('Full-time', 'Part-time', 'Contract', 'Temporary')
+ * - page?: number (default: 1)
+ *
+ * Response:
+ * - { jobs: JobSearchResult[], providers: JobProviderStatus[] } (jobs is empty when nothing matches)
+ * - { jobs, demo: true } from the mock jobs when JOB_SEARCH_DEMO_MODE=true
+ */
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json()
-    const { title, location, type } = body
-
-    // If no filters are provided, return the full list
-    const hasFilters = (title && title.trim()) || (location && location.trim()) || (type && type.trim())
-    
-    if (!hasFilters) {
-      return NextResponse.json({ jobs: mockJobs })
-    }
+    const body = await request.json().catch(() => ({}))
+    const title = typeof body.title === 'string' ? body.title.trim() : ''
+    const location = typeof body.location === 'string' ? body.location.trim() : ''
+    const rawType = typeof body.type === 'string' ? body.type.trim() : ''
+    const page = parseInt(String(body.page || '1'), 10) || 1
 
-    // Filter mock jobs based on search criteria
-    let filteredJobs = [...mockJobs]
+    const contractType = rawType
+      ? isJobContractType(rawType) ? rawType : parseContractType(rawType)
+      : undefined
 
-    if (title && title.trim()) {
-      const titleLower = title.toLowerCase().trim()
-      filteredJobs = filteredJobs.filter(
-        (job) =>
-          job.title.toLowerCase().includes(titleLower) ||
-          job.company.toLowerCase().includes(titleLower)
+    if (rawType && !contractType) {
+      return NextResponse.json(
+        { error: `Unknown job type. Use one of: ${JOB_CONTRACT_TYPES.join(', ')}` },
+        { status: 400 }
       )
     }
 
-    if (location && location.trim()) {
-      const locationLower = location.toLowerCase().trim()
-      filteredJobs = filteredJobs.filter((job) =>
-        job.location.toLowerCase().includes(locationLower)
-      )
+    if (isJobSearchDemoMode()) {
+      const jobs = searchMockJobs({
+        title,
+        location,
+        type: contractType ? JOB_CONTRACT_TYPE_LABELS[contractType] : undefined,
+      })
+      return NextResponse.json({ jobs, demo: true })
     }
 
-    if (type && type.trim()) {
-      filteredJobs = filteredJobs.filter((job) => job.type === type)
+    if (!title) {
+      return NextResponse.json(
+        { error: 'Job title is required' },
+        { status: 400 }
+      )
     }
 
-    // If nothing matches, return the full list instead of an empty array
-    if (filteredJobs.length === 0) {
-      return NextResponse.json({ jobs: mockJobs })
-    }
+    const { results, providers } = await runJobSearch({
+      keyword: title,
+      location: location || 'UK',
+      page,
+      ...(contractType ? { contractType } : {}),
+    })
 
-    return NextResponse.json({ jobs: filteredJobs })
+    return NextResponse.json({ jobs: results, providers })
   } catch (error) {
     console.error('Error searching jobs:', error)
     return NextResponse.json(
@@ -50,4 +72,3 @@ export async function POST(request: NextRequest) {
     )
   }
 }
-
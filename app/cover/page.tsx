@@ -4,9 +4,23 @@ import { useState, useRef, useEffect, useCallback, useMemo } from 'react'
 import { Sparkles, Download, CheckCircle2, Save, Loader2, X } from 'lucide-react'
 import { ComparePanel } from '@/components/ComparePanel'
 import CoverPreview from '@/components/cover/Preview'
+import CoverLetterLibraryPicker from '@/components/cover/CoverLetterLibraryPicker'
+import RequirementEvidenceTable from '@/components/cover/RequirementEvidenceTable'
+import { UnverifiedClaimsNotice } from '@/components/UnverifiedClaims'
 import { useCoverStore } from '@/lib/cover-store'
-import { useCVStore } from '@/lib/store'
-import { exportToPDF } from '@/lib/pdf'
+import {
+  DEFAULT_COVER_LETTER_TITLE,
+  EMPTY_COVER_LETTER,
+  coverLetterTitleForJob,
+  toCoverLetterData,
+  type CoverLetterData,
+  type CoverLetterLibraryItem,
+  type CoverLetterVersion,
+} from '@/lib/cover-library'
+import type { CoverLetterGrounding } from '@/lib/cover-evidence'
+import type { UnverifiedClaim } from '@/lib/hallucination-guard'
+import { parseCvData, type CvData } from '@/lib/cv-schema'
+import { exportServerPDF } from '@/lib/pdf'
 import { exportToDocx } from '@/lib/docx'
 import { cleanCoverLetterText, normalizeSummaryParagraph, stripPlaceholders, cleanJobDetailsCoverLetter, cleanCoverLetterClosing } from '@/lib/normalize'
 import { AIPreviewText } from '@/components/AIPreviewText'
@@ -57,6 +71,10 @@ export default function CoverPage() {
   const [toast, setToast] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
   const [loading, setLoading] = useState({ gen: false, rewrite: false, compare: false, export: false, improve: false, tailor: false, tailorFromDescription: false })
   const [aiPreview, setAiPreview] = useState<string>('')
+  // Requirement → evidence table from the last grounded generation
+  const [grounding, setGrounding] = useState<CoverLetterGrounding | null>(null)
+  // Claims in the last generated letter that the CV does not back up
+  const [letterClaims, setLetterClaims] = useState<UnverifiedClaim[]>([])
   const [isImprovePreview, setIsImprovePreview] = useState(false)
   const previewRef = useRef<HTMLDivElement>(null)
   const [mounted, setMounted] = useState(false)
@@ -97,8 +115,14 @@ export default function CoverPage() {
     setApplicantName,
     setLayout,
     setAtsMode,
+    setCoverLetter,
   } = useCoverStore()
 
+  // Library letter being edited (null until the first save)
+  const [activeCoverId, setActiveCoverId] = useState<string | null>(null)
+  const [coverTitle, setCoverTitle] = useState(DEFAULT_COVER_LETTER_TITLE)
+  const [libraryRefreshKey, setLibraryRefreshKey] = useState(0)
+
   // Prevent hydration mismatch by only rendering client-specific content after mount
   useEffect(() => {
     setMounted(true)
@@ -230,7 +254,44 @@ export default function CoverPage() {
     }
   }, [mounted, returnTo, role, cityState, keywords, setRecipientInfo, setKeywords])
 
-  const { personal } = useCVStore()
+  // Contact details for the PDF header come from the latest saved CV, which is
+  // also the CV the letter is linked to when saved
+  const [personal, setPersonal] = useState<CvData['personalInfo']>({ fullName: '', email: '' })
+  const [sourceCvId, setSourceCvId] = useState<string | null>(null)
+  useEffect(() => {
+    fetch('/api/cv/get-latest', { cache: 'no-store' })
+      .then((res) => (res.ok ? res.json() : null))
+      .then((result) => {
+        if (result?.ok && result.hasCv) {
+          setPersonal(parseCvData(result.cv).data.personalInfo)
+          setSourceCvId(result.cvId ?? null)
+        }
+      })
+      .catch((error) => console.warn('[Cover] Could not load CV contact details:', error))
+  }, [])
+
+  // Open a saved letter from the library (by id, or the latest one for a job)
+  const loadSavedCoverLetter = useCallback(async (query: { coverId?: string; jobKey?: string }) => {
+    const params = new URLSearchParams(query as Record<string, string>)
+    const response = await fetch(`/api/cover/get-latest?${params.toString()}`, { cache: 'no-store' })
+    if (!response.ok) return false
+    const result = await response.json()
+    if (!result.ok || !result.hasCover) return false
+    setCoverLetter(toCoverLetterData(result.cover))
+    setActiveCoverId(result.meta.id)
+    setCoverTitle(result.meta.title || DEFAULT_COVER_LETTER_TITLE)
+    return true
+  }, [setCoverLetter])
+
+  // Coming from a job: continue the letter already saved for it, unless a
+  // draft was just handed over from Job Details
+  useEffect(() => {
+    if (!mounted || !jobId) return
+    if (useCoverStore.getState().letterBody.trim()) return
+    loadSavedCoverLetter({ jobKey: jobId }).catch((error) =>
+      console.warn('[Cover] Could not load saved letter for job:', error)
+    )
+  }, [mounted, jobId, loadSavedCoverLetter])
   const { setContext } = useJazContext()
 
   // Headers for API requests
@@ -390,16 +451,23 @@ export default function CoverPage() {
       const cleanedBody = hasLetterContent ? cleanCoverLetterClosing(safeLetterBody, applicantName || 'Your Name') : ''
       
       // Build the cover letter data object from current state
-      const coverLetterData = {
+      const coverLetterData: CoverLetterData = {
         applicantName: applicantName || '',
         recipientName: recipientName || '',
         company: company || '',
         cityState: cityState || '',
         role: role || '',
-        bodyText: cleanedBody || '',
         keywords: keywords || '',
+        letterBody: cleanedBody || '',
+        layout,
+        atsMode,
       }
 
+      // New letters for a job are named after it
+      const title = !activeCoverId && coverTitle === DEFAULT_COVER_LETTER_TITLE && jobId
+        ? coverLetterTitleForJob({ role: jobContext.jobTitle || role, company: jobContext.company || company })
+        : coverTitle
+
       // Call API to upsert cover letter
       const response = await fetch('/api/cover/upsert', {
         method: 'POST',
@@ -407,8 +475,10 @@ export default function CoverPage() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          title: 'Cover Letter',
-          job_key: null,
+          coverId: activeCoverId,
+          title,
+          jobKey: jobId || null,
+          cvId: sourceCvId,
           data: coverLetterData,
         }),
       })
@@ -423,27 +493,11 @@ export default function CoverPage() {
         throw new Error(result.error || 'Failed to save cover letter')
       }
 
-      // Re-fetch latest cover letter from API to ensure we have the updated version
-      const refreshResponse = await fetch('/api/cover/get-latest')
-      if (refreshResponse.ok) {
-        const refreshData = await refreshResponse.json()
-        if (refreshData.ok && refreshData.hasCoverLetter && refreshData.coverLetter) {
-          // Update local state with the latest cover letter from API
-          const savedData = refreshData.coverLetter.data || {}
-          if (savedData.applicantName !== undefined) setApplicantName(savedData.applicantName)
-          // Batch recipient info updates using setRecipientInfo
-          const recipientUpdates: { recipientName?: string; company?: string; cityState?: string; role?: string } = {}
-          if (savedData.recipientName !== undefined) recipientUpdates.recipientName = savedData.recipientName
-          if (savedData.company !== undefined) recipientUpdates.company = savedData.company
-          if (savedData.cityState !== undefined) recipientUpdates.cityState = savedData.cityState
-          if (savedData.role !== undefined) recipientUpdates.role = savedData.role
-          if (Object.keys(recipientUpdates).length > 0) {
-            setRecipientInfo(recipientUpdates)
-          }
-          if (savedData.bodyText !== undefined) setLetterBody(savedData.bodyText)
-          if (savedData.keywords !== undefined) setKeywords(savedData.keywords)
-        }
-      }
+      // Keep editing the saved library letter
+      setActiveCoverId(result.coverId)
+      setCoverTitle(result.cover?.title || title)
+      setLetterBody(coverLetterData.letterBody)
+      setLibraryRefreshKey((key) => key + 1)
 
       // Show success message
       showToast('success', 'Cover letter saved to your dashboard.')
@@ -453,6 +507,36 @@ export default function CoverPage() {
     }
   }
 
+  const handleSelectCoverLetter = async (cover: CoverLetterLibraryItem | null) => {
+    if (!cover) {
+      setActiveCoverId(null)
+      setCoverTitle(DEFAULT_COVER_LETTER_TITLE)
+      setCoverLetter({
+        ...EMPTY_COVER_LETTER,
+        applicantName,
+        role: jobContext.jobTitle || '',
+        company: jobContext.company || '',
+        layout,
+        atsMode,
+      })
+      return
+    }
+    try {
+      const loaded = await loadSavedCoverLetter({ coverId: cover.id })
+      if (!loaded) throw new Error('Cover letter not found')
+      setActiveTab('letter')
+    } catch (error) {
+      console.error('Error loading cover letter:', error)
+      showToast('error', 'Failed to load cover letter.')
+    }
+  }
+
+  const handleRestoreCoverLetterVersion = (version: CoverLetterVersion) => {
+    setCoverLetter(version.data)
+    setActiveTab('letter')
+    showToast('success', 'Version restored. Save to keep it.')
+  }
+
   const handleGenerate = async () => {
     setLoading(prev => ({ ...prev, gen: true }))
 
@@ -462,12 +546,19 @@ export default function CoverPage() {
         setTimeout(() => reject(new Error('Request timeout')), 30000) // 30 second timeout
       )
 
+      // Grounded in the saved CV and the job: by ID, or the pasted ad
       const fetchPromise = fetch('/api/cover/generate', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
+          cvId: sourceCvId,
+          jobId: jobId || undefined,
+          jobDescription: jobDescription.trim() || jobContext.jobDescription || undefined,
+          jobTitle: jobContext.jobTitle || role || undefined,
+          company: jobContext.company || company || undefined,
           applicantName: applicantName, // keep user's name field unchanged
-          recipientName, company, cityState, role, mode: generateMode, keywords
+          recipientName,
+          mode: generateMode,
         }),
       })
 
@@ -481,6 +572,11 @@ export default function CoverPage() {
           showToast('error', AI_MODEL_UNAVAILABLE_MESSAGE)
           return
         }
+        // Missing CV or job: there is nothing to ground a draft in
+        if (res.status === 400 || res.status === 401 || res.status === 404) {
+          showToast('error', data?.error || 'Could not generate a cover letter.')
+          return
+        }
         showToast('error', 'AI temporarily unavailable. Using a safe draft.')
         // fallback to mock if server ever returns non-ok - use local preview state
         const cleanedText = cleanCoverLetterText(
@@ -493,6 +589,8 @@ export default function CoverPage() {
         setIsImprovePreview(false)
         showToast('success', 'Preview generated - click Apply to update')
       } else {
+        setGrounding({ requirements: data.requirements || [], experiences: data.experiences || [] })
+        setLetterClaims(Array.isArray(data.unverified) ? data.unverified : [])
         // Clean the AI-generated text and store in local preview state (preview only)
         const cleanedText = cleanCoverLetterText(data.letter, applicantName)
         // Post-processing: remove any closing/signature blocks
@@ -870,7 +968,21 @@ export default function CoverPage() {
       if (format === 'pdf') {
         const name = personal.fullName || 'Cover'
         const filename = `Cover-${name.replace(/\s+/g, '-')}-${date}`
-        await exportToPDF('cover-preview', filename)
+        await exportServerPDF(
+          {
+            coverLetter: {
+              applicantName,
+              recipientName,
+              company,
+              cityState,
+              role,
+              letterBody: safeLetterBody,
+              layout,
+              contact: { email: personal.email, phone: personal.phone, location: personal.location },
+            },
+          },
+          filename
+        )
       } else {
         // DOCX filename: Cover-[Date].docx (per requirements)
         const filename = `Cover-${date}`
@@ -951,6 +1063,22 @@ export default function CoverPage() {
           </button>
         </div>
 
+        {/* Cover letter library */}
+        <div className="mb-6">
+          <CoverLetterLibraryPicker
+            activeCoverId={activeCoverId}
+            activeTitle={coverTitle}
+            jobKey={jobId || null}
+            jobRole={jobContext.jobTitle || role || ''}
+            jobCompany={jobContext.company || company || ''}
+            refreshKey={libraryRefreshKey}
+            onSelect={handleSelectCoverLetter}
+            onRename={setCoverTitle}
+            onRestoreVersion={handleRestoreCoverLetterVersion}
+            onToast={showToast}
+          />
+        </div>
+
         {/* Two-column layout */}
         <section className="mt-6 grid gap-6 lg:grid-cols-[minmax(0,1.2fr)_minmax(0,1.1fr)] items-start">
           {/* LEFT: Form + AI Engine */}
@@ -1104,7 +1232,7 @@ export default function CoverPage() {
                       AI Engine
                     </h3>
                     <p className="text-[10px] md:text-xs text-slate-400 mb-4">
-                      No cover letter yet? Enter a few keywords and AI will create one for you.
+                      No cover letter yet? AI will write one from your CV for this job.
                     </p>
                   </div>
                   
@@ -1146,16 +1274,13 @@ export default function CoverPage() {
                     </div>
                   )}
                   
-                  {/* Generate from Keywords */}
+                  {/* Generate from CV + job */}
                   <div className="space-y-3">
                     <div>
-                      <label className="block text-xs md:text-sm font-medium text-slate-200 mb-2">Generate from Keywords</label>
-                      <textarea
-                        placeholder="e.g., Senior Software Engineer, Python, React, AWS..."
-                        className="w-full px-4 py-3 rounded-xl border border-slate-700/60 bg-slate-900/50 text-slate-100 placeholder:text-slate-500 min-h-[80px] focus:outline-none focus:ring-2 focus:ring-violet-500/50 focus:border-violet-500/50 transition resize-y"
-                        value={keywords}
-                        onChange={(e) => setKeywords(e.target.value)}
-                      />
+                      <label className="block text-xs md:text-sm font-medium text-slate-200 mb-1">Generate from your CV</label>
+                      <p className="text-[10px] md:text-xs text-slate-400">
+                        Uses your saved CV and {jobId ? 'this job' : 'the job description below'}: the most relevant experiences are picked for you, and every claim is matched to your CV.
+                      </p>
                     </div>
                     <div>
                       <label className="block text-xs md:text-sm font-medium text-slate-200 mb-2">Mode</label>
@@ -1172,7 +1297,7 @@ export default function CoverPage() {
                     </div>
                     <button
                       onClick={handleGenerate}
-                      disabled={loading.gen || !keywords}
+                      disabled={loading.gen || (!jobId && !jobDescription.trim() && !jobContext.jobDescription)}
                       data-jaz-action="cover_generate_keywords"
                       className="w-full rounded-full bg-violet-600 px-4 py-2.5 text-sm font-medium text-white border border-violet-400/70 shadow-[0_0_25px_rgba(139,92,246,0.7)] hover:bg-violet-500 hover:border-violet-300 transition flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
                     >
@@ -1185,6 +1310,10 @@ export default function CoverPage() {
                         </>
                       )}
                     </button>
+                    {grounding && (
+                      <RequirementEvidenceTable requirements={grounding.requirements} experiences={grounding.experiences} />
+                    )}
+                    <UnverifiedClaimsNotice claims={letterClaims} />
                   </div>
 
                   {/* Rewrite Section */}
@@ -2,11 +2,11 @@
 
 import { useState, useEffect, useRef, useMemo } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
-import { Download, FileText, Loader2, CheckCircle2, X, Save, Sparkles, ChevronDown, ChevronUp, FileEdit } from 'lucide-react'
+import { Download, FileText, Loader2, CheckCircle2, X, Save, Sparkles, ChevronDown, ChevronUp, FileEdit, Upload, ClipboardCopy, ScanText } from 'lucide-react'
 import Link from 'next/link'
 import { cn } from '@/lib/utils'
-import { exportToPDF } from '@/lib/pdf'
-import { exportToDocx } from '@/lib/docx'
+import { exportServerPDF } from '@/lib/pdf'
+import { exportCvToDocx } from '@/lib/docx'
 import CvPreview from '@/components/cv-builder-v2/CvPreview'
 import PersonalInfoTab from '@/components/cv-builder-v2/PersonalInfoTab'
 import SummaryTab from '@/components/cv-builder-v2/SummaryTab'
@@ -16,65 +16,37 @@ import SkillsTab from '@/components/cv-builder-v2/SkillsTab'
 import MoreTab from '@/components/cv-builder-v2/MoreTab'
 import JobDescriptionPanel from '@/components/cv-builder-v2/JobDescriptionPanel'
 import CvCustomizationPanel, { type CvCustomizationOptions } from '@/components/cv-builder-v2/CvCustomizationPanel'
+import CvLibraryPicker from '@/components/cv-builder-v2/CvLibraryPicker'
+import CvImportModal from '@/components/cv-builder-v2/CvImportModal'
+import AtsCheckModal from '@/components/cv-builder-v2/AtsCheckModal'
 import PageHeader from '@/components/PageHeader'
 import { useJazContext } from '@/contexts/JazContextContext'
 import type { CvBuilderContext } from '@/components/JazAssistant'
 import { getUserScopedKeySync, getCurrentUserIdSync, initUserStorageCache } from '@/lib/user-storage'
-import { computeCvScore } from '@/lib/cv-score'
+import { computeCvScore, CV_SCORE_PROFILES, DEFAULT_CV_SCORE_PROFILE, type CvScoreCriterion, type CvScoreProfileId } from '@/lib/cv-score'
 import { logEvent } from '@/lib/analytics/logEvent'
+import { ACTIVE_CV_STORAGE_KEY, DEFAULT_CV_TITLE, getCvDraftStorageKey, type CvLibraryItem, type CvVersion } from '@/lib/cv-library'
+import { formatCvSchemaIssues, parseCvData, type CvData, type CvTemplateId } from '@/lib/cv-schema'
 
-export type CvTemplateId = 'atsClassic' | 'twoColumnPro' | 'customizeStyle'
-
-export type CvSectionExperience = {
-  id: string
-  jobTitle: string
-  company: string
-  location?: string
-  startDate?: string
-  endDate?: string
-  isCurrent?: boolean
-  bullets: string[]
-}
+type Tab = 'personal' | 'summary' | 'experience' | 'education' | 'skills' | 'more'
 
-export type CvData = {
-  personalInfo: {
-    fullName: string
-    email: string
-    phone?: string
-    location?: string
-    linkedin?: string
-    website?: string
+// Upgrade a stored CV (draft, library row data or version snapshot) to the current schema
+// and give empty sections one blank entry to edit
+function toCvData(raw: any): CvData {
+  const { data, issues } = parseCvData(raw)
+  if (issues.length > 0) {
+    console.warn('[CV Builder] Dropped invalid CV fields:', formatCvSchemaIssues(issues))
+  }
+  return {
+    ...data,
+    personalInfo: { phone: '', location: '', linkedin: '', website: '', ...data.personalInfo },
+    experience: data.experience.length > 0
+      ? data.experience
+      : [{ id: Date.now().toString(), jobTitle: '', company: '', bullets: [''] }],
+    education: data.education.length > 0 ? data.education : [{ degree: '', school: '' }],
   }
-  summary: string
-  experience: CvSectionExperience[]
-  education: Array<{
-    degree: string
-    school: string
-    year?: string
-    details?: string
-  }>
-  skills: string[]
-  projects?: Array<{
-    name: string
-    description: string
-    url?: string
-  }>
-  languages?: string[]
-  certifications?: string[]
-  publications?: Array<{
-    title: string
-    authors?: string
-    venueOrJournal?: string
-    year?: string
-    doiOrUrl?: string
-    notes?: string
-  }>
 }
 
-type Tab = 'personal' | 'summary' | 'experience' | 'education' | 'skills' | 'more'
-
-const STORAGE_KEY = 'jobaz-cv-v2-draft'
-
 // Accordion component for grouped grammar issues
 function GrammarSectionAccordion({
   section,
@@ -181,6 +153,8 @@ type ReviewResult = {
   notes?: string[]
   isGated?: boolean
   gateMessage?: string
+  profile?: CvScoreProfileId
+  breakdown?: CvScoreCriterion[]
   error?: string
 }
 
@@ -251,6 +225,18 @@ function getFieldValue(state: CvData, fieldPath: string): string {
     if (pubMatch[2] === 'notes') return pub.notes ?? ''
     return ''
   }
+  // customSections[0].heading, customSections[0].items[1].title
+  const customMatch = fieldPath.match(/^customSections\[(\d+)\]\.(?:heading|items\[(\d+)\]\.(\w+))$/)
+  if (customMatch) {
+    const section = state.customSections?.[parseInt(customMatch[1], 10)]
+    if (!section) return ''
+    if (customMatch[2] == null) return section.heading ?? ''
+    const item = section.items?.[parseInt(customMatch[2], 10)]
+    if (!item) return ''
+    const field = customMatch[3]
+    if (field === 'title' || field === 'subtitle' || field === 'date' || field === 'description') return item[field] ?? ''
+    return ''
+  }
   return ''
 }
 
@@ -293,6 +279,7 @@ export default function CvBuilderV2Page() {
   const [reviewLoading, setReviewLoading] = useState(false)
   const [grammarLoading, setGrammarLoading] = useState(false)
   const [reviewResult, setReviewResult] = useState<ReviewResult | null>(null)
+  const [scoreProfile, setScoreProfile] = useState<CvScoreProfileId>(DEFAULT_CV_SCORE_PROFILE)
   const [grammarResult, setGrammarResult] = useState<GrammarResult | null>(null)
 
   // Initialize user storage cache
@@ -337,20 +324,27 @@ export default function CvBuilderV2Page() {
     publications: [],
   })
 
+  // CV library: which saved CV is open (null = not saved to the library yet)
+  const [activeCvId, setActiveCvId] = useState<string | null>(null)
+  const [activeCvTitle, setActiveCvTitle] = useState<string>(DEFAULT_CV_TITLE)
+  const [libraryRefreshKey, setLibraryRefreshKey] = useState(0)
+
   // Track unsaved changes
   const [isDirty, setIsDirty] = useState(false)
+  const [showImport, setShowImport] = useState(false)
+  const [showAtsCheck, setShowAtsCheck] = useState(false)
   const initialCvDataRef = useRef<string>('')
   const initialTemplateRef = useRef<CvTemplateId>('atsClassic')
 
   // Compute CV score for badge display
   const cvScore = useMemo(() => {
     try {
-      return computeCvScore(cvData)
+      return computeCvScore(cvData, scoreProfile)
     } catch (error) {
       console.error('Error computing CV score:', error)
       return null
     }
-  }, [cvData])
+  }, [cvData, scoreProfile])
 
   // Compute JAZ context for CV Builder
   const jazContext = useMemo<CvBuilderContext>(() => {
@@ -390,11 +384,95 @@ export default function CvBuilderV2Page() {
     }
   }, [])
 
+  // Load a library CV: prefer its unsaved local draft, otherwise the saved copy from the API
+  const loadLibraryCv = async (cvId: string): Promise<boolean> => {
+    let draft: CvData | null = null
+    try {
+      const savedDraft = localStorage.getItem(getUserKey(getCvDraftStorageKey(cvId)))
+      if (savedDraft) draft = toCvData(JSON.parse(savedDraft))
+    } catch (error) {
+      console.error('Error reading CV draft:', error)
+    }
+
+    try {
+      const response = await fetch(`/api/cv/get-latest?cvId=${encodeURIComponent(cvId)}`, { cache: 'no-store' })
+      const data = response.ok ? await response.json() : null
+      if (!data?.ok || !data.hasCv) {
+        // CV no longer exists (or not signed in): forget it as the active CV
+        if (!draft) return false
+      }
+      setActiveCvId(cvId)
+      setActiveCvTitle(data?.title || DEFAULT_CV_TITLE)
+      setCvData(draft ?? toCvData(data.cv))
+      if (data?.template) {
+        setSelectedTemplate(data.template as CvTemplateId)
+      }
+      // Re-baseline unsaved-changes tracking against the loaded CV
+      setIsInitialized(false)
+      return true
+    } catch (error) {
+      console.error('Error loading library CV:', error)
+      if (!draft) return false
+      setActiveCvId(cvId)
+      setCvData(draft)
+      return true
+    }
+  }
+
+  // Switch the builder to another library CV without losing the current draft
+  const switchToCv = async (cv: CvLibraryItem | null) => {
+    try {
+      localStorage.setItem(getUserKey(getCvDraftStorageKey(activeCvId)), JSON.stringify(cvData))
+    } catch (error) {
+      console.error('Error saving draft:', error)
+    }
+
+    let loaded = false
+    if (cv) {
+      loaded = await loadLibraryCv(cv.id)
+      if (loaded) setActiveCvTitle(cv.title)
+    }
+    if (!loaded) {
+      // No CV to switch to: start a fresh, unsaved CV
+      setActiveCvId(null)
+      setActiveCvTitle(DEFAULT_CV_TITLE)
+      const savedDraft = localStorage.getItem(getUserKey(getCvDraftStorageKey(null)))
+      setCvData(toCvData(savedDraft ? JSON.parse(savedDraft) : null))
+    }
+    setIsInitialized(false)
+  }
+
+  const handleRestoreVersion = (version: CvVersion) => {
+    setCvData(toCvData(version.data))
+    if (version.data?.template) {
+      setSelectedTemplate(version.data.template as CvTemplateId)
+    }
+    showToast('success', 'Version restored. Save to keep it.')
+  }
+
+  const handleApplyImport = (imported: CvData) => {
+    setCvData(toCvData(imported))
+    setShowImport(false)
+    showToast('success', 'CV imported. Review each tab, then save to keep it.')
+  }
+
+  // ATS check issues point at CvData field paths; open the tab that edits that field
+  const handleJumpToField = (fieldPath: string) => {
+    const section = fieldPath.match(/^\w+/)?.[0]
+    const tab: Tab =
+      section === 'personalInfo' ? 'personal'
+        : section === 'summary' || section === 'experience' || section === 'education' || section === 'skills' ? section
+        : 'more'
+    setActiveTab(tab)
+    setShowAtsCheck(false)
+  }
+
   // Load CV from localStorage on mount
   useEffect(() => {
     if (typeof window === 'undefined') return
     
     let cvLoaded = false
+    let libraryCvId: string | null = null
     
     try {
       // Check if cvId query parameter is present
@@ -445,11 +523,20 @@ export default function CvBuilderV2Page() {
             }
           }
         }
+        // Not a legacy local CV: treat it as a CV library id
+        if (!cvLoaded) {
+          libraryCvId = cvId
+        }
+      }
+
+      // Otherwise reopen the library CV that was open last time
+      if (!cvLoaded && !libraryCvId) {
+        libraryCvId = localStorage.getItem(getUserKey(ACTIVE_CV_STORAGE_KEY))
       }
       
       // Fallback to loading draft if CV wasn't loaded (user-scoped)
       if (!cvLoaded) {
-        const draftKey = getUserKey(STORAGE_KEY)
+        const draftKey = getUserKey(getCvDraftStorageKey(null))
         const saved = localStorage.getItem(draftKey)
         if (saved) {
           const parsed = JSON.parse(saved)
@@ -480,6 +567,10 @@ export default function CvBuilderV2Page() {
           })
         }
       }
+
+      if (libraryCvId) {
+        loadLibraryCv(libraryCvId).catch(() => {})
+      }
       
     } catch (error) {
       console.error('Error loading CV:', error)
@@ -565,19 +656,30 @@ export default function CvBuilderV2Page() {
     }
   }, [isDirty])
 
-  // Save draft to localStorage (debounced, user-scoped)
+  // Save draft to localStorage (debounced, user-scoped, one draft per library CV)
   useEffect(() => {
     if (typeof window === 'undefined') return
     const timeout = setTimeout(() => {
       try {
-        const draftKey = getUserKey(STORAGE_KEY)
+        const draftKey = getUserKey(getCvDraftStorageKey(activeCvId))
         localStorage.setItem(draftKey, JSON.stringify(cvData))
       } catch (error) {
         console.error('Error saving draft:', error)
       }
     }, 500)
     return () => clearTimeout(timeout)
-  }, [cvData])
+  }, [cvData, activeCvId])
+
+  // Remember which library CV is open
+  useEffect(() => {
+    if (typeof window === 'undefined') return
+    const activeKey = getUserKey(ACTIVE_CV_STORAGE_KEY)
+    if (activeCvId) {
+      localStorage.setItem(activeKey, activeCvId)
+    } else {
+      localStorage.removeItem(activeKey)
+    }
+  }, [activeCvId])
 
   const updateCvData = (updates: Partial<CvData>) => {
     setCvData((prev) => ({ ...prev, ...updates }))
@@ -588,7 +690,7 @@ export default function CvBuilderV2Page() {
     setTimeout(() => setToast(null), 3000)
   }
 
-  const handleCvCheck = async () => {
+  const handleCvCheck = async (profile: CvScoreProfileId = scoreProfile) => {
     setShowCvCheck(true)
     setReviewLoading(true)
     setReviewResult(null)
@@ -596,7 +698,7 @@ export default function CvBuilderV2Page() {
       const response = await fetch('/api/cv/review', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ cvData }),
+        body: JSON.stringify({ cvData, profile }),
       })
       const data = await response.json()
       setReviewResult(data)
@@ -702,6 +804,7 @@ export default function CvBuilderV2Page() {
       else if (issue.fieldPath.startsWith('certifications')) section = 'Certifications'
       else if (issue.fieldPath.startsWith('languages')) section = 'Languages'
       else if (issue.fieldPath.startsWith('publications')) section = 'Publications'
+      else if (issue.fieldPath.startsWith('customSections')) section = 'Other Sections'
       if (!groups[section]) groups[section] = []
       groups[section].push(issue)
     })
@@ -845,6 +948,29 @@ export default function CvBuilderV2Page() {
           updates.publications = newPublications
         }
       }
+    // Custom sections
+    else if (fieldPath.startsWith('customSections[')) {
+      const customMatch = fieldPath.match(/customSections\[(\d+)\]\.(?:heading|items\[(\d+)\]\.(\w+))/)
+      if (customMatch && state.customSections && state.customSections[parseInt(customMatch[1], 10)]) {
+        const idx = parseInt(customMatch[1], 10)
+        const newSections = [...state.customSections]
+        const section = newSections[idx]
+
+        if (customMatch[2] == null) {
+          newSections[idx] = { ...section, heading: replaceFirstSpan(section.heading ?? '', original, suggestion) }
+        } else {
+          const itemIdx = parseInt(customMatch[2], 10)
+          const field = customMatch[3]
+          const item = section.items?.[itemIdx]
+          if (item && (field === 'title' || field === 'subtitle' || field === 'date' || field === 'description')) {
+            const newItems = [...section.items]
+            newItems[itemIdx] = { ...item, [field]: replaceFirstSpan(item[field] ?? '', original, suggestion) }
+            newSections[idx] = { ...section, items: newItems }
+          }
+        }
+        updates.customSections = newSections
+      }
+    }
     
     return updates
   }
@@ -918,92 +1044,11 @@ export default function CvBuilderV2Page() {
       const filename = `CV-${name.replace(/\s+/g, '-')}-${date}`
 
       if (format === 'pdf') {
-        await exportToPDF('cv-preview', filename)
+        await exportServerPDF({ cvData, template: selectedTemplate, options: customizationOptions }, filename)
         showToast('success', 'PDF exported successfully!')
         logEvent('cv_downloaded', { format: 'pdf' })
       } else {
-        // Prepare sections for DOCX export
-        const sections: Array<{ title: string; content: string[] }> = []
-
-        // Contact Info
-        const contactParts: string[] = []
-        if (cvData.personalInfo.email) contactParts.push(cvData.personalInfo.email)
-        if (cvData.personalInfo.phone) contactParts.push(cvData.personalInfo.phone)
-        if (cvData.personalInfo.location) contactParts.push(cvData.personalInfo.location)
-        if (cvData.personalInfo.linkedin) contactParts.push(cvData.personalInfo.linkedin)
-        if (cvData.personalInfo.website) contactParts.push(cvData.personalInfo.website)
-        if (contactParts.length > 0) {
-          sections.push({ title: 'Contact Information', content: [contactParts.join(' · ')] })
-        }
-
-        // Summary
-        if (cvData.summary.trim()) {
-          sections.push({ title: 'Summary', content: [cvData.summary] })
-        }
-
-        // Experience - filter empty entries only at export time (non-destructive)
-        const validExperiences = cvData.experience.filter(
-          (exp) => exp.jobTitle?.trim() || exp.company?.trim()
-        )
-        const experienceContent = validExperiences.map((exp) => {
-          const parts = [`${exp.jobTitle} at ${exp.company}`]
-          if (exp.location) parts.push(exp.location)
-          if (exp.startDate || exp.endDate) {
-            const period = exp.isCurrent
-              ? `${exp.startDate} - Present`
-              : `${exp.startDate || ''} - ${exp.endDate || ''}`
-            parts.push(period)
-          }
-          const validBullets = exp.bullets.filter((b) => b.trim())
-          if (validBullets.length > 0) {
-            parts.push('', ...validBullets)
-          }
-          return parts.join('\n')
-        })
-        if (experienceContent.length > 0) {
-          sections.push({ title: 'Experience', content: experienceContent })
-        }
-
-        // Education - filter empty entries only at export time (non-destructive)
-        const validEducations = cvData.education.filter(
-          (edu) => edu.degree?.trim() || edu.school?.trim()
-        )
-        const educationContent = validEducations.map((edu) => {
-          const parts = [edu.degree, edu.school]
-          if (edu.year) parts.push(edu.year)
-          if (edu.details) parts.push(edu.details)
-          return parts.join(' · ')
-        })
-        if (educationContent.length > 0) {
-          sections.push({ title: 'Education', content: educationContent })
-        }
-
-        // Skills
-        if (cvData.skills.length > 0) {
-          sections.push({ title: 'Skills', content: [cvData.skills.join(', ')] })
-        }
-
-        // Publications
-        if (cvData.publications && cvData.publications.length > 0) {
-          const publicationsContent = cvData.publications.map((pub) => {
-            const parts: string[] = []
-            parts.push(pub.title)
-            const citationParts: string[] = []
-            if (pub.authors) citationParts.push(pub.authors)
-            if (pub.year) citationParts.push(`(${pub.year})`)
-            if (citationParts.length > 0) parts.push(citationParts.join(' '))
-            if (pub.venueOrJournal) parts.push(pub.venueOrJournal)
-            if (pub.doiOrUrl) parts.push(pub.doiOrUrl)
-            let result = parts.join(' — ')
-            if (pub.notes) {
-              result += `\n${pub.notes}`
-            }
-            return result
-          })
-          sections.push({ title: 'Publications', content: publicationsContent })
-        }
-
-        await exportToDocx(name, sections, filename)
+        await exportCvToDocx(cvData, selectedTemplate, customizationOptions, filename)
         showToast('success', 'DOCX exported successfully!')
         logEvent('cv_downloaded', { format: 'docx' })
       }
@@ -1015,6 +1060,30 @@ export default function CvBuilderV2Page() {
     }
   }
 
+  // Job portals that only take a pasted CV: ATS-safe plain text on the clipboard
+  const handleCopyPlainText = async () => {
+    setLoading((prev) => ({ ...prev, export: true }))
+    try {
+      const response = await fetch('/api/generate-plaintext', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cvData, format: 'text', asciiOnly: true, lineWidth: 0 }),
+      })
+      const data = await response.json()
+      if (!response.ok || !data.ok) {
+        throw new Error(data.error || 'Failed to generate plain-text CV')
+      }
+      await navigator.clipboard.writeText(data.text)
+      showToast('success', 'Plain-text CV copied. Paste it into the job portal.')
+      logEvent('cv_downloaded', { format: 'plaintext' })
+    } catch (error: any) {
+      console.error('Plain text export error:', error)
+      showToast('error', error.message || 'Could not copy plain-text CV. Please try again.')
+    } finally {
+      setLoading((prev) => ({ ...prev, export: false }))
+    }
+  }
+
   const handleFindJobs = async () => {
     try {
       // Collect data for smart role extraction
@@ -1092,28 +1161,18 @@ export default function CvBuilderV2Page() {
     try {
       if (typeof window === 'undefined') return
 
-      // Prepare CV data for API
-      const cvDataToSave = {
-        template: selectedTemplate,
-        personalInfo: cvData.personalInfo,
-        summary: cvData.summary,
-        experience: cvData.experience,
-        education: cvData.education,
-        skills: cvData.skills,
-        projects: cvData.projects || [],
-        languages: cvData.languages || [],
-        certifications: cvData.certifications || [],
-        publications: cvData.publications || [],
-      }
+      // Save the whole CV (custom sections and section order included) with its template
+      const cvDataToSave: CvData = { ...cvData, template: selectedTemplate }
 
-      // Call API to upsert CV
+      // Call API to upsert CV (into the open library CV, if any)
       const response = await fetch('/api/cv/upsert', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          title: 'My CV',
+          cvId: activeCvId,
+          title: activeCvTitle,
           data: cvDataToSave,
         }),
       })
@@ -1128,8 +1187,16 @@ export default function CvBuilderV2Page() {
         throw new Error(result.error || 'Failed to save CV')
       }
 
-      // Re-fetch latest CV from API to ensure we have the updated version
-      const refreshResponse = await fetch('/api/cv/get-latest')
+      // First save of an unsaved CV: it now lives in the library under its new id
+      const savedCvId: string = result.cv.id
+      if (savedCvId && savedCvId !== activeCvId) {
+        localStorage.removeItem(getUserKey(getCvDraftStorageKey(activeCvId)))
+        setActiveCvId(savedCvId)
+      }
+      setLibraryRefreshKey((key) => key + 1)
+
+      // Re-fetch the saved CV from API to ensure we have the updated version
+      const refreshResponse = await fetch(`/api/cv/get-latest?cvId=${encodeURIComponent(savedCvId)}`)
       if (refreshResponse.ok) {
         const refreshData = await refreshResponse.json()
         if (refreshData.ok && refreshData.hasCv && refreshData.cv) {
@@ -1198,6 +1265,13 @@ export default function CvBuilderV2Page() {
           >
             Find jobs for this CV
           </button>
+          <button
+            onClick={() => setShowImport(true)}
+            className="rounded-full bg-slate-900/80 px-4 py-2 text-xs md:text-sm font-medium text-slate-100 border border-slate-600/70 hover:border-violet-400/60 hover:text-violet-100 transition flex items-center gap-2"
+          >
+            <Upload className="w-4 h-4" />
+            Import existing CV
+          </button>
           <div className="flex flex-col gap-1.5">
             <button
               onClick={handleSaveCvToDashboard}
@@ -1223,6 +1297,19 @@ export default function CvBuilderV2Page() {
           </div>
         </div>
 
+        {/* CV library picker */}
+        <CvLibraryPicker
+          activeCvId={activeCvId}
+          activeTitle={activeCvTitle}
+          refreshKey={libraryRefreshKey}
+          onSelect={(cv) => {
+            switchToCv(cv)
+          }}
+          onRename={setActiveCvTitle}
+          onRestoreVersion={handleRestoreVersion}
+          onToast={showToast}
+        />
+
         {/* Two-column layout */}
         <section className="mt-6 grid gap-6 lg:grid-cols-[minmax(0,1.1fr)_minmax(0,1.2fr)] items-start">
           {/* LEFT: Editor & AI */}
@@ -1276,6 +1363,7 @@ export default function CvBuilderV2Page() {
                       personalInfo={cvData.personalInfo}
                       skills={cvData.skills}
                       experience={cvData.experience}
+                      cvData={cvData}
                       onUpdate={(summary) => updateCvData({ summary })}
                       onLoadingChange={(loading) => setLoading((prev) => ({ ...prev, ai: loading }))}
                     />
@@ -1285,6 +1373,7 @@ export default function CvBuilderV2Page() {
                   <div data-cv-section="experience" data-cv-tab="experience">
                     <ExperienceTab
                       experience={cvData.experience}
+                      cvData={cvData}
                       onUpdate={(experience) => updateCvData({ experience })}
                     />
                   </div>
@@ -1339,6 +1428,9 @@ export default function CvBuilderV2Page() {
                       languages={cvData.languages || []}
                       certifications={cvData.certifications || []}
                       publications={cvData.publications || []}
+                      customSections={cvData.customSections || []}
+                      sectionOrder={cvData.sectionOrder || []}
+                      hiddenSections={cvData.hiddenSections || []}
                       onUpdate={(updates) => updateCvData({ ...updates })}
                     />
                   </div>
@@ -1412,16 +1504,23 @@ export default function CvBuilderV2Page() {
                         Grammar &amp; Spelling
                       </button>
                       <button
-                        onClick={handleCvCheck}
+                        onClick={() => handleCvCheck()}
                         disabled={reviewLoading || grammarLoading}
                         className="inline-flex items-center justify-center h-7 px-3 py-1 text-sm font-semibold rounded-lg bg-gradient-to-br from-sky-900/30 to-slate-800/50 border border-sky-500/70 text-sky-200 hover:border-sky-400/80 hover:text-sky-100 shadow-lg shadow-sky-900/30 hover:shadow-sky-900/40 backdrop-blur-sm transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:border-sky-500/70 disabled:hover:text-sky-200 disabled:hover:shadow-sky-900/30 shrink-0 gap-2"
                       >
                         <Sparkles className="w-4 h-4" />
                         CV Check AI
                       </button>
+                      <button
+                        onClick={() => setShowAtsCheck(true)}
+                        className="inline-flex items-center justify-center h-7 px-3 py-1 text-sm font-semibold rounded-lg bg-gradient-to-br from-sky-900/30 to-slate-800/50 border border-sky-500/70 text-sky-200 hover:border-sky-400/80 hover:text-sky-100 shadow-lg shadow-sky-900/30 hover:shadow-sky-900/40 backdrop-blur-sm transition-all duration-300 shrink-0 gap-2"
+                      >
+                        <ScanText className="w-4 h-4" />
+                        ATS check
+                      </button>
                     </div>
                     
-                    {/* Right group: PDF + DOCX */}
+                    {/* Right group: PDF + DOCX + plain text */}
                     <div className="flex items-center gap-1.5 flex-wrap ml-auto">
                       <button
                         onClick={() => handleExport('pdf')}
@@ -1439,13 +1538,22 @@ export default function CvBuilderV2Page() {
                         {loading.export ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileText className="w-4 h-4" />}
                         DOCX
                       </button>
+                      <button
+                        onClick={handleCopyPlainText}
+                        disabled={loading.export}
+                        title="Copy an ATS-safe plain-text version for job portals"
+                        className="inline-flex items-center justify-center h-7 px-3 py-1 text-sm font-semibold text-violet-100 rounded-lg bg-slate-900/60 border border-violet-400/60 hover:bg-slate-800/80 hover:border-violet-300 transition disabled:opacity-50 disabled:cursor-not-allowed shrink-0 gap-2"
+                      >
+                        {loading.export ? <Loader2 className="w-4 h-4 animate-spin" /> : <ClipboardCopy className="w-4 h-4" />}
+                        Plain text
+                      </button>
                     </div>
                     
                     {/* CV Score - full width on small screens */}
                     {cvScore && (
                       <div 
                         className="w-full sm:w-auto text-center sm:text-left whitespace-nowrap"
-                        title="CV Score shows how complete and ATS-ready your CV is."
+                        title={`CV Score shows how complete and ATS-ready your CV is (scored as ${CV_SCORE_PROFILES[scoreProfile].label}).`}
                       >
                         <span className="text-sm text-slate-400">
                           CV Score{' '}
@@ -1577,6 +1685,24 @@ export default function CvBuilderV2Page() {
         </section>
       </main>
 
+      {/* Import CV modal */}
+      <CvImportModal
+        isOpen={showImport}
+        currentCv={cvData}
+        onClose={() => setShowImport(false)}
+        onApply={handleApplyImport}
+      />
+
+      {/* ATS parse-simulation modal */}
+      <AtsCheckModal
+        isOpen={showAtsCheck}
+        cvData={cvData}
+        template={selectedTemplate}
+        options={customizationOptions}
+        onClose={() => setShowAtsCheck(false)}
+        onJumpToField={handleJumpToField}
+      />
+
       {/* CV Check modal */}
       {showCvCheck && (
         <div className="fixed inset-0 z-50">
@@ -1589,6 +1715,26 @@ export default function CvBuilderV2Page() {
               <div>
                 <div className="text-sm font-semibold text-slate-200">CV Check (AI)</div>
                 <div className="text-xs text-slate-400">Score + top fixes + issues list</div>
+                <label className="mt-2 flex items-center gap-2 text-xs text-slate-400">
+                  Score as
+                  <select
+                    value={scoreProfile}
+                    disabled={reviewLoading}
+                    onChange={(e) => {
+                      const profile = e.target.value as CvScoreProfileId
+                      setScoreProfile(profile)
+                      handleCvCheck(profile)
+                    }}
+                    className="rounded border border-slate-700/60 bg-slate-900/60 px-2 py-1 text-xs text-slate-200 focus:outline-none focus:ring-1 focus:ring-violet-500"
+                  >
+                    {(Object.keys(CV_SCORE_PROFILES) as CvScoreProfileId[]).map((id) => (
+                      <option key={id} value={id}>
+                        {CV_SCORE_PROFILES[id].label}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+                <div className="mt-1 text-[11px] text-slate-500">{CV_SCORE_PROFILES[scoreProfile].description}</div>
               </div>
               <button
                 onClick={() => setShowCvCheck(false)}
@@ -1644,6 +1790,28 @@ export default function CvBuilderV2Page() {
                   </div>
                 </div>
 
+                {/* Per-criterion breakdown */}
+                {reviewResult.breakdown && reviewResult.breakdown.length > 0 && (
+                  <div className="pt-2 border-t border-slate-700/60 space-y-1">
+                    {reviewResult.breakdown.map((criterion) => (
+                      <div key={criterion.id} className="flex items-center justify-between gap-3 text-xs">
+                        <span className="text-slate-300 truncate">
+                          {criterion.label}
+                          <span className="ml-1.5 text-[11px] text-slate-500">{criterion.detail}</span>
+                        </span>
+                        <span
+                          className={cn(
+                            'flex-shrink-0 font-medium tabular-nums',
+                            criterion.earned >= criterion.available ? 'text-green-400' : criterion.earned > 0 ? 'text-yellow-400' : 'text-red-400'
+                          )}
+                        >
+                          {criterion.earned}/{criterion.available}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
                 {/* Level */}
                 {reviewResult.level && (
                   <div className="flex items-center justify-between">
@@ -2,11 +2,13 @@
 
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
 import { useRouter } from 'next/navigation'
-import { CheckCircle2, XCircle, FileText, Mail, Send, GraduationCap, ArrowRight, Briefcase, Lock, Search, Sparkles, Zap, Target, RefreshCw, Star, LogOut, Compass, FileCheck, MessageSquare } from 'lucide-react'
+import { CheckCircle2, XCircle, FileText, Mail, GraduationCap, ArrowRight, Briefcase, Lock, Search, Sparkles, Zap, Target, RefreshCw, Star, LogOut, Compass, FileCheck, MessageSquare } from 'lucide-react'
 import Link from 'next/link'
 import { cn } from '@/lib/utils'
 import AppShell from '@/components/layout/AppShell'
-import { type AppliedJob } from '@/lib/applied-jobs-storage'
+import { type AppliedJob, type ApplicationStage, toAppliedJob, setAppliedJobs as setAppliedJobsMirror, appendStageHistory } from '@/lib/applied-jobs-storage'
+import ApplicationPipelineBoard from '@/components/apply/ApplicationPipelineBoard'
+import NewJobMatchesPanel from '@/components/jobs/NewJobMatchesPanel'
 import Logo from '@/components/Logo'
 import { ConfirmModal } from '@/components/ConfirmModal'
 import { DeleteAccountModal } from '@/components/DeleteAccountModal'
@@ -15,55 +17,15 @@ import { supabase } from '@/lib/supabase'
 import { clearCurrentUserStorage, initUserStorageCache, getCurrentUserIdSync, getUserScopedKeySync } from '@/lib/user-storage'
 import { UK_CITIES, getLocationValue } from '@/lib/uk-cities'
 import { computeCvScore, type CvScoreResult } from '@/lib/cv-score'
-import type { CvData } from '@/app/cv-builder-v2/page'
+import { parseCvData } from '@/lib/cv-schema'
+import { toCoverLetterData, type CoverLetterData } from '@/lib/cover-library'
+import { getJobSessionCacheKey } from '@/lib/jobs/parse-id'
 
 // CV Score calculation - use shared utility
 
-// Helper to convert dashboard CV format to CvData format
-function convertDashboardCvToCvData(cv: any): CvData {
-  // Convert experience format: dashboard uses { jobTitle, company, description } 
-  // but CvData expects { id, jobTitle, company, bullets: string[] }
-  const experience = (cv?.experience || []).map((exp: any) => {
-    // If it already has bullets array (V2 format), use it
-    if (Array.isArray(exp.bullets)) {
-      return exp
-    }
-    // Otherwise, convert description string to bullets array
-    const bullets = exp.description
-      ? exp.description.split(/\n/).filter((line: string) => line.trim().length > 0)
-      : []
-    return {
-      id: exp.id || `exp-${Math.random()}`,
-      jobTitle: exp.jobTitle || exp.title || '',
-      company: exp.company || '',
-      location: exp.location,
-      startDate: exp.startDate,
-      endDate: exp.endDate,
-      isCurrent: exp.isCurrent,
-      bullets,
-    }
-  })
-
-  return {
-    personalInfo: {
-      fullName: cv?.fullName || '',
-      email: cv?.email || '',
-      phone: cv?.phone || '',
-      location: cv?.city || cv?.location || '',
-      linkedin: cv?.linkedin,
-      website: cv?.website,
-    },
-    summary: cv?.summary || '',
-    experience,
-    education: cv?.education || [],
-    skills: cv?.skills || [],
-  }
-}
-
-// Wrapper function for backward compatibility
+// The dashboard's flat CV (fullName, city, experience periods) upgrades like any unversioned CV
 function calculateCVScore(cv: any): CvScoreResult {
-  const cvData = convertDashboardCvToCvData(cv)
-  return computeCvScore(cvData)
+  return computeCvScore(parseCvData(cv).data)
 }
 
 const JOB_STORAGE_PREFIX = 'jobaz_job_'
@@ -112,7 +74,7 @@ export default function DashboardPage() {
   const [cvId, setCvId] = useState<string | null>(null)
   const [readiness, setReadiness] = useState<{ score: number; level: string; topFixes: string[]; lastUpdated: string } | null>(null)
   const [isCvModalOpen, setIsCvModalOpen] = useState(false)
-  const [baseCover, setBaseCover] = useState<any | null>(null)
+  const [baseCover, setBaseCover] = useState<CoverLetterData | null>(null)
   const [coverLastUpdated, setCoverLastUpdated] = useState<string | null>(null)
   const [isCoverModalOpen, setIsCoverModalOpen] = useState(false)
   const [confirmModalState, setConfirmModalState] = useState<{
@@ -320,22 +282,7 @@ export default function DashboardPage() {
         return
       }
       
-      // Map API cover letter format to dashboard format
-      const coverData = data.cover || {}
-      
-      const dashboardCover = {
-        applicantName: coverData.applicantName || '',
-        recipientName: coverData.recipientName || '',
-        company: coverData.company || '',
-        cityState: coverData.cityState || '',
-        role: coverData.role || '',
-        bodyText: coverData.bodyText || '',
-        keywords: coverData.keywords || '',
-        layout: coverData.layout || 'minimal',
-        atsMode: coverData.atsMode || false,
-      }
-      
-      setBaseCover(dashboardCover)
+      setBaseCover(toCoverLetterData(data.cover))
       setCoverLastUpdated(data.meta?.updated_at || null)
     } catch (error: any) {
       // Network or unexpected errors
@@ -373,22 +320,12 @@ export default function DashboardPage() {
         return
       }
       
-      // Map API response to AppliedJob format expected by dashboard
-      const mappedJobs: AppliedJob[] = (data.jobs || []).map((job: any) => ({
-        id: job.job_key || job.id || '',
-        title: job.job_title || job.title || '',
-        company: job.company || '',
-        location: job.location || undefined,
-        sourceSite: job.source || undefined,
-        jobUrl: job.url || undefined,
-        createdAt: job.applied_at || job.created_at || new Date().toISOString(),
-        status: job.data?.status || 'submitted',
-        hasCv: job.data?.hasCv || false,
-        hasCover: job.data?.hasCover || false,
-      }))
+      // Map API rows to the pipeline model
+      const mappedJobs: AppliedJob[] = (data.jobs || []).map(toAppliedJob)
       
       console.log('[AppliedJobs] Dashboard: Successfully loaded', mappedJobs.length, 'applied jobs')
       setAppliedJobs(mappedJobs)
+      setAppliedJobsMirror(mappedJobs)
     } catch (error: any) {
       // Network or unexpected errors
       console.error('[AppliedJobs] Dashboard: Error fetching applied jobs from API:', error)
@@ -750,14 +687,12 @@ export default function DashboardPage() {
       if (!fetchSignal.aborted) {
         setRecommendedJobs(filteredJobs)
 
-        // Cache Adzuna jobs to sessionStorage when loaded
+        // Cache provider jobs (all but Reed) to sessionStorage when loaded
         if (typeof window !== 'undefined') {
           filteredJobs.forEach((job: Job) => {
-            if (job.id?.startsWith('adzuna_')) {
+            const cacheKey = getJobSessionCacheKey(job.id)
+            if (cacheKey) {
               try {
-                const rawId = job.id.replace('adzuna_', '')
-                const cacheKey = `adzuna_job_${rawId}`
-                
                 const cachedJob = {
                   id: job.id,
                   title: job.title || '',
@@ -836,14 +771,12 @@ export default function DashboardPage() {
     window.dispatchEvent(new Event('jobaz-saved-jobs-changed'))
   }
 
-  // Cache Adzuna job to sessionStorage before navigation
+  // Cache provider job (all but Reed) to sessionStorage before navigation
   const cacheAdzunaJob = (job: Job) => {
-    if (typeof window === 'undefined' || !job.id?.startsWith('adzuna_')) return
+    const cacheKey = getJobSessionCacheKey(job.id)
+    if (typeof window === 'undefined' || !cacheKey) return
     
     try {
-      const rawId = job.id.replace('adzuna_', '')
-      const cacheKey = `adzuna_job_${rawId}`
-      
       const cachedJob = {
         id: job.id,
         title: job.title || '',
@@ -938,13 +871,59 @@ export default function DashboardPage() {
     })
   }
 
+  // PATCH an application and merge the saved row back into state
+  const updateAppliedJob = async (job: AppliedJob, patch: Record<string, any>, optimistic: Partial<AppliedJob>) => {
+    if (!job.rowId) return
+    setAppliedJobs(prevJobs => prevJobs.map(j => (j.id === job.id ? { ...j, ...optimistic } : j)))
+
+    try {
+      const response = await fetch(`/api/jobs/applied/${job.rowId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(patch),
+      })
+      const result = await response.json()
+      if (!response.ok || !result.ok) {
+        throw new Error(result.error || 'Failed to update application')
+      }
+      const saved = toAppliedJob(result.appliedJob)
+      setAppliedJobs(prevJobs => {
+        const next = prevJobs.map(j => (j.id === saved.id ? saved : j))
+        setAppliedJobsMirror(next)
+        return next
+      })
+    } catch (error) {
+      console.error('[AppliedJobs] Dashboard: Error updating application:', error)
+      // Roll back to the server state
+      fetchAppliedJobsFromApi()
+    }
+  }
+
+  const handleMoveStage = (job: AppliedJob, stage: ApplicationStage) => {
+    updateAppliedJob(job, { stage }, { stage, stageHistory: appendStageHistory(job.stageHistory, stage) })
+  }
+
+  const handleSaveNotes = (job: AppliedJob, notes: string) => {
+    updateAppliedJob(job, { notes }, { notes })
+  }
+
   const handleConfirmRemove = () => {
-    if (confirmModalState.jobId) {
+    const jobToRemove = appliedJobs.find(job => job.id === confirmModalState.jobId)
+    if (jobToRemove) {
       // Remove from UI state immediately (optimistic update)
-      // NOTE: Deletion from Supabase would require a DELETE API endpoint
-      // For now, we just remove from UI state
-      console.log('[AppliedJobs] Dashboard: Removing job from UI:', confirmModalState.jobId)
-      setAppliedJobs(prevJobs => prevJobs.filter(job => job.id !== confirmModalState.jobId))
+      console.log('[AppliedJobs] Dashboard: Removing application:', jobToRemove.id)
+      setAppliedJobs(prevJobs => prevJobs.filter(job => job.id !== jobToRemove.id))
+
+      if (jobToRemove.rowId) {
+        fetch(`/api/jobs/applied/${jobToRemove.rowId}`, { method: 'DELETE' })
+          .then(response => {
+            if (!response.ok) throw new Error(`Failed to delete application: ${response.status}`)
+          })
+          .catch(error => {
+            console.error('[AppliedJobs] Dashboard: Error deleting application:', error)
+            fetchAppliedJobsFromApi()
+          })
+      }
     }
     
     // Close the modal
@@ -1836,6 +1815,9 @@ export default function DashboardPage() {
           </section>
         </div>
 
+        {/* New matches from saved searches */}
+        <NewJobMatchesPanel />
+
         {/* Recommended Jobs for You (AI Match) */}
         <section ref={recommendedJobsRef} className="mt-10">
           <div className="flex items-center justify-between mb-6">
@@ -2110,7 +2092,7 @@ export default function DashboardPage() {
                   </span>
                 )}
               </div>
-              <p className="text-sm text-slate-400">Track your application progress and manage your job applications</p>
+              <p className="text-sm text-slate-400">Track each application from saved to offer – drag cards between stages</p>
             </div>
           </div>
           
@@ -2138,150 +2120,14 @@ export default function DashboardPage() {
               </button>
             </div>
           ) : (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-5">
-              {appliedJobs.map((appliedJob) => {
-                // Try to find matching saved job to get status information
-                const savedJob = savedJobs.find(j => j.id === appliedJob.id)
-                const isComplete = (appliedJob.hasCv || savedJob?.statuses?.cv === 'ready') && 
-                                  (appliedJob.hasCover || savedJob?.statuses?.cover === 'ready') && 
-                                  (appliedJob.status === 'submitted' || savedJob?.statuses?.application === 'submitted')
-                
-                return (
-                  <div
-                    key={appliedJob.id}
-                    className="group rounded-2xl border border-slate-700/60 bg-gradient-to-br from-slate-950/50 to-slate-900/30 px-5 py-4 shadow-[0_18px_40px_rgba(15,23,42,0.85)] hover:border-violet-500/50 hover:shadow-[0_18px_50px_rgba(76,29,149,0.65)] transition-all duration-300 relative overflow-hidden"
-                  >
-                    {/* Status Badge */}
-                    {isComplete && (
-                      <div className="absolute top-3 right-3">
-                        <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full bg-emerald-500/20 border border-emerald-500/30 text-xs font-medium text-emerald-300">
-                          <CheckCircle2 className="w-3 h-3" />
-                          Complete
-                        </span>
-                      </div>
-                    )}
-                    
-                    {/* Job Header */}
-                    <div className="mb-4 pr-16">
-                      <h3 className="text-lg font-bold text-slate-50 mb-2 line-clamp-2 group-hover:text-violet-300 transition-colors">
-                        {appliedJob.title || 'Untitled Job'}
-                      </h3>
-                      {appliedJob.company && (
-                        <p className="text-sm text-violet-300 font-medium mb-1 flex items-center gap-1.5">
-                          <Briefcase className="w-3.5 h-3.5" />
-                          {appliedJob.company}
-                        </p>
-                      )}
-                      {appliedJob.location && (
-                        <p className="text-xs text-slate-400 mb-1 flex items-center gap-1.5">
-                          <span className="w-1 h-1 rounded-full bg-slate-500" />
-                          {appliedJob.location}
-                        </p>
-                      )}
-                    </div>
-
-                    {/* Status List */}
-                    <div className="mb-4 p-3 rounded-xl bg-slate-900/40 border border-slate-700/50 space-y-2.5">
-                      {/* CV Status */}
-                      <div className="flex items-center justify-between gap-3">
-                        <span className="flex items-center gap-2 text-xs font-medium text-slate-300">
-                          <FileText className={cn(
-                            "w-4 h-4",
-                            (appliedJob.hasCv || savedJob?.statuses?.cv === 'ready')
-                              ? "text-emerald-400" 
-                              : "text-slate-500"
-                          )} />
-                          CV
-                        </span>
-                        <span className={cn(
-                          "text-xs font-semibold px-2 py-0.5 rounded-full",
-                          (appliedJob.hasCv || savedJob?.statuses?.cv === 'ready')
-                            ? "bg-emerald-500/20 text-emerald-300 border border-emerald-500/30" 
-                            : "bg-slate-700/50 text-slate-400 border border-slate-600/50"
-                        )}>
-                          {(appliedJob.hasCv || savedJob?.statuses?.cv === 'ready') ? 'Ready' : 'Not tailored'}
-                        </span>
-                      </div>
-
-                      {/* Cover Letter Status */}
-                      <div className="flex items-center justify-between gap-3">
-                        <span className="flex items-center gap-2 text-xs font-medium text-slate-300">
-                          <Mail className={cn(
-                            "w-4 h-4",
-                            (appliedJob.hasCover || savedJob?.statuses?.cover === 'ready')
-                              ? "text-emerald-400" 
-                              : "text-slate-500"
-                          )} />
-                          Cover Letter
-                        </span>
-                        <span className={cn(
-                          "text-xs font-semibold px-2 py-0.5 rounded-full",
-                          (appliedJob.hasCover || savedJob?.statuses?.cover === 'ready')
-                            ? "bg-emerald-500/20 text-emerald-300 border border-emerald-500/30" 
-                            : "bg-slate-700/50 text-slate-400 border border-slate-600/50"
-                        )}>
-                          {(appliedJob.hasCover || savedJob?.statuses?.cover === 'ready') ? 'Ready' : 'Not created'}
-                        </span>
-                      </div>
-
-                      {/* Application Status */}
-                      <div className="flex items-center justify-between gap-3">
-                        <span className="flex items-center gap-2 text-xs font-medium text-slate-300">
-                          <Send className={cn(
-                            "w-4 h-4",
-                            (appliedJob.status === 'submitted' || savedJob?.statuses?.application === 'submitted')
-                              ? "text-emerald-400" 
-                              : "text-slate-500"
-                          )} />
-                          Application
-                        </span>
-                        <span className={cn(
-                          "text-xs font-semibold px-2 py-0.5 rounded-full",
-                          (appliedJob.status === 'submitted' || savedJob?.statuses?.application === 'submitted')
-                            ? "bg-emerald-500/20 text-emerald-300 border border-emerald-500/30" 
-                            : "bg-slate-700/50 text-slate-400 border border-slate-600/50"
-                        )}>
-                          {(appliedJob.status === 'submitted' || savedJob?.statuses?.application === 'submitted') ? 'Submitted' : 'Not submitted'}
-                        </span>
-                      </div>
-                    </div>
-
-                    {/* Action Buttons */}
-                    <div className="space-y-2">
-                      <button
-                        onClick={() => handleViewJobDetails(appliedJob.id)}
-                        className="w-full rounded-full bg-gradient-to-r from-violet-600 to-purple-600 px-3 py-2 text-xs font-semibold text-white hover:from-violet-500 hover:to-purple-500 transition shadow-[0_0_18px_rgba(139,92,246,0.8)] hover:shadow-[0_0_25px_rgba(139,92,246,1)] flex items-center justify-center gap-2"
-                      >
-                        <FileText className="w-3.5 h-3.5" />
-                        View Job Details
-                      </button>
-                      
-                      <button
-                        onClick={() => handleGoToInterviewTraining(appliedJob)}
-                        className="w-full rounded-full bg-slate-800/80 px-3 py-2 text-xs font-semibold text-slate-200 border border-slate-600/70 hover:border-violet-400/60 hover:text-violet-100 hover:bg-slate-800 transition flex items-center justify-center gap-2"
-                      >
-                        <GraduationCap className="w-3.5 h-3.5" />
-                        Interview Training
-                      </button>
-                      
-                      <div className="flex items-center gap-2 pt-1">
-                        {appliedJob.createdAt && (
-                          <p className="text-xs text-slate-500 flex-1">
-                            Applied {formatDaysAgo(appliedJob.createdAt) || 'recently'}
-                          </p>
-                        )}
-                        <button
-                          onClick={() => handleRemoveJob(appliedJob.id)}
-                          className="px-3 py-1.5 rounded-full border border-slate-600/50 text-xs font-medium text-slate-400 hover:border-red-500/50 hover:text-red-400 hover:bg-red-500/10 transition"
-                        >
-                          Remove
-                        </button>
-                      </div>
-                    </div>
-                  </div>
-                )
-              })}
-            </div>
+            <ApplicationPipelineBoard
+              jobs={appliedJobs}
+              onMoveStage={handleMoveStage}
+              onSaveNotes={handleSaveNotes}
+              onViewDetails={(job) => handleViewJobDetails(job.id)}
+              onInterviewTraining={handleGoToInterviewTraining}
+              onRemove={(job) => handleRemoveJob(job.id)}
+            />
           )}
         </section>
 
@@ -2453,13 +2299,13 @@ export default function DashboardPage() {
                 ✕
               </button>
               <h2 className="text-xl font-extrabold mb-2 bg-gradient-to-r from-violet-300 via-fuchsia-300 to-sky-300 bg-clip-text text-transparent">My Cover Letter</h2>
-              {baseCover.jobTitle && baseCover.company && (
+              {baseCover.role && baseCover.company && (
                 <p className="text-sm text-violet-300 mb-3">
-                  {baseCover.jobTitle} @ {baseCover.company}
+                  {baseCover.role} @ {baseCover.company}
                 </p>
               )}
               <pre className="whitespace-pre-wrap text-sm text-slate-100">
-                {baseCover.bodyText}
+                {baseCover.letterBody}
               </pre>
             </div>
           </div>
@@ -6,6 +6,7 @@ import { Mic, Square, Loader2 } from 'lucide-react'
 import { playQuestionWithTts, stopQuestionAudio } from '@/lib/tts-helper'
 import InterviewAvatar from '@/components/interview-coach/InterviewAvatar'
 import TranslatableText from '@/components/TranslatableText'
+import { saveInterviewAttempt } from '@/lib/interview-history'
 
 type Status = 'idle' | 'countdown' | 'asking' | 'recording' | 'processing' | 'finished'
 
@@ -522,6 +523,22 @@ export default function InterviewSimulationTab({ onScoreUpdate, onCoachNotesUpda
           overall: data.overall,
         })
         setInterviewEval(evalData)
+
+        // The simulation is scored as a whole: every answer carries the overall scores
+        const { overall, ...simulationScores } = evalData
+        answers.forEach((answer, idx) => {
+          if (!answer?.trim() || !questions[idx]) return
+          saveInterviewAttempt({
+            mode: 'simulation',
+            question: questions[idx],
+            answer,
+            score: overall,
+            categoryScores: simulationScores,
+            jobId: searchParams.get('jobId') || undefined,
+            jobTitle: searchParams.get('title') || undefined,
+            company: searchParams.get('company') || undefined,
+          })
+        })
       }
     } catch (error) {
       console.error('Error evaluating interview:', error)
@@ -10,8 +10,10 @@ import { playQuestionWithTts, stopQuestionAudio } from '@/lib/tts-helper'
 import PageHeader from '@/components/PageHeader'
 import { cn } from '@/lib/utils'
 import TranslatableText from '@/components/TranslatableText'
+import { saveInterviewAttempt, averageSubScores } from '@/lib/interview-history'
+import InterviewProgressPanel from '@/components/interview-coach/InterviewProgressPanel'
 
-type TrainingLevel = 'writing' | 'voice' | 'hard' | 'memory' | 'interviewSimulation'
+type TrainingLevel = 'writing' | 'voice' | 'hard' | 'memory' | 'interviewSimulation' | 'progress'
 
 interface EvaluationData {
   overallScore: number
@@ -625,6 +627,7 @@ export default function InterviewCoachPage() {
     { id: 'voice', label: 'Voice Training' },
     { id: 'hard', label: 'Hard Mode' },
     { id: 'interviewSimulation', label: 'Interview Simulation' },
+    { id: 'progress', label: 'Progress' },
   ]
 
   // Calculate average writing score from evaluations
@@ -1004,21 +1007,21 @@ export default function InterviewCoachPage() {
 
     setIsSaving(true)
     try {
-      // Save to Supabase
+      // Save to practice history (Supabase)
       const currentQuestion = interviewQuestions[currentQuestionIndex]
       const questionText = typeof currentQuestion === 'string' ? currentQuestion : String(currentQuestion || '')
-      await fetch('/api/interview/save', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          user_id: 'demo_user', // Static for now
-          question: questionText,
-          answer: userAnswer,
-          score: evaluationData?.overallScore || evaluationData?.score || null,
-          strengths: evaluationData?.strengths || [],
-          weaknesses: evaluationData?.weaknesses || [],
-          improved_answer: evaluationData?.improvedSampleAnswer || evaluationData?.improved_answer || '',
-        }),
+      await saveInterviewAttempt({
+        mode: 'written',
+        question: questionText,
+        answer: userAnswer,
+        score: evaluationData?.overallScore || evaluationData?.score || null,
+        categoryScores: evaluationData?.perCategory,
+        strengths: evaluationData?.strengths || [],
+        weaknesses: evaluationData?.weaknesses || [],
+        improvedAnswer: evaluationData?.improvedSampleAnswer || evaluationData?.improved_answer || '',
+        jobId: jobIdFromURL || undefined,
+        jobTitle: getFinalJobTitle() || undefined,
+        company: getFinalCompany() || undefined,
       })
 
       // Track saved answer for unlock logic
@@ -1429,6 +1432,20 @@ export default function InterviewCoachPage() {
       }
       
       setVoiceResult(newVoiceResult)
+
+      saveInterviewAttempt({
+        mode: 'voice',
+        question: voiceQuestions[currentVoiceIndex].question,
+        answer: result.transcript,
+        // filler_words is "lower is better", so it's kept out of the overall score
+        score: averageSubScores(result.scores, ['filler_words']),
+        categoryScores: result.scores,
+        feedback: result.summary_feedback,
+        weaknesses: result.improvement_tips,
+        jobId: jobIdFromURL || undefined,
+        jobTitle: getFinalJobTitle() || undefined,
+        company: getFinalCompany() || undefined,
+      })
       
       // Track voice results history and calculate progress
       setVoiceResultsHistory(prev => {
@@ -1705,6 +1722,21 @@ export default function InterviewCoachPage() {
         
         setHardModeResult(newHardModeResult)
         setHardModeConvertedText(evalData.convertedText || convertedText)
+
+        const { convertedText: _convertedText, summaryFeedback, improvementTips, ...hardModeScores } = newHardModeResult
+        saveInterviewAttempt({
+          mode: 'hard',
+          question: hardModeQuestions[hardModeIndex].question,
+          answer: newHardModeResult.convertedText,
+          score: averageSubScores(hardModeScores),
+          categoryScores: hardModeScores,
+          feedback: summaryFeedback,
+          weaknesses: improvementTips,
+          improvedAnswer: hardModeQuestions[hardModeIndex].targetAnswer,
+          jobId: jobIdFromURL || undefined,
+          jobTitle: getFinalJobTitle() || undefined,
+          company: getFinalCompany() || undefined,
+        })
         
         // Track hard mode results history and calculate progress
         setHardModeResultsHistory(prev => {
@@ -3466,6 +3498,9 @@ export default function InterviewCoachPage() {
                 </div>
               )}
 
+              {/* Progress Tab: saved practice history */}
+              {activeTab === 'progress' && <InterviewProgressPanel />}
+
               {/* Interview Simulation Tab */}
               {activeTab === 'interviewSimulation' && (
                 <>
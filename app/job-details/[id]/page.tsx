@@ -13,6 +13,9 @@ import { useJazStore } from '@/lib/jaz-store'
 import ApplyAssistantPanel from '@/components/apply/ApplyAssistantPanel'
 import { getCurrentUserIdSync, getUserScopedKeySync, initUserStorageCache } from '@/lib/user-storage'
 import { useNextStepLoadingStore, generateRequestId } from '@/lib/next-step-loading-store'
+import { getJobSessionCacheKey } from '@/lib/jobs/parse-id'
+import { toCoverLetterData } from '@/lib/cover-library'
+import { fetchAppliedJobs, isStageBefore } from '@/lib/applied-jobs-storage'
 // CV storage helper removed - now using Supabase API
 
 type DescriptionBlock =
@@ -158,6 +161,7 @@ interface Job {
   duties?: string
   skills?: string
   link?: string
+  sources?: Array<{ source: string; label: string; jobId: string; url: string }> // every provider listing this vacancy
 }
 
 const JOB_STORAGE_PREFIX = 'jobaz_job_'
@@ -257,6 +261,7 @@ export default function JobDetailsPage() {
         
         if (data.ok && data.hasCv) {
           setBaseCv(data.cv)
+          setBaseCvId(data.cvId || null)
           setHasCv(true)
           setCvError(null)
           
@@ -299,6 +304,7 @@ export default function JobDetailsPage() {
   
   // CV state from Supabase
   const [baseCv, setBaseCv] = useState<any | null>(null)
+  const [baseCvId, setBaseCvId] = useState<string | null>(null) // library CV linked to the application
   const [loadingCv, setLoadingCv] = useState(true)
   const [cvError, setCvError] = useState<string | null>(null)
   const [hasCv, setHasCv] = useState(false)
@@ -400,6 +406,9 @@ export default function JobDetailsPage() {
       const jobKey = job.id
       const source = (job as any)?._reedJob ? 'Reed' : undefined
       const jobUrl = job.link || (job as any)?.applyUrl || (job as any)?.url
+      // Never move an application back: only 'saved' (or new) applications become 'applied'
+      const existing = (await fetchAppliedJobs()).find((appliedJob) => appliedJob.id === jobKey)
+      const stage = !existing || isStageBefore(existing.stage, 'applied') ? 'applied' : undefined
       
       const response = await fetch('/api/jobs/applied/upsert', {
         method: 'POST',
@@ -413,6 +422,9 @@ export default function JobDetailsPage() {
           company: job.company,
           location: job.location,
           url: jobUrl,
+          stage,
+          cvId: baseCvId || undefined,
+          coverLetterText: coverLetterText?.trim() ? coverLetterText : undefined,
           data: {
             hasCv: cvStatus === 'ready',
             hasCover: coverStatus === 'ready',
@@ -463,7 +475,7 @@ export default function JobDetailsPage() {
         setShowSuccessMessage(false)
       }, 5000)
     }
-  }, [job, jobId, cvSummary, coverLetterText, cvStatus, coverStatus, baseCv])
+  }, [job, jobId, cvSummary, coverLetterText, cvStatus, coverStatus, baseCv, baseCvId])
 
   const handleTrainForInterview = useCallback(() => {
     if (!job) return
@@ -787,10 +799,9 @@ export default function JobDetailsPage() {
       try {
         setError(null)
         
-        // For Adzuna jobs, check sessionStorage cache first
-        if (isAdzuna && typeof window !== 'undefined') {
-          const rawId = jobId.replace('adzuna_', '')
-          const cacheKey = `adzuna_job_${rawId}`
+        // For provider jobs cached by search (all but Reed), check sessionStorage first
+        const cacheKey = getJobSessionCacheKey(jobId)
+        if (cacheKey && typeof window !== 'undefined') {
           const cachedData = sessionStorage.getItem(cacheKey)
           
           if (cachedData) {
@@ -806,6 +817,7 @@ export default function JobDetailsPage() {
                 description: cachedJob.description || '',
                 type: cachedJob.type || undefined,
                 link: cachedJob.link || cachedJob.redirect_url || undefined,
+                sources: Array.isArray(cachedJob.sources) ? cachedJob.sources : undefined,
                 requirements: undefined,
                 duties: undefined,
                 skills: undefined,
@@ -833,14 +845,14 @@ export default function JobDetailsPage() {
               setLoading(false)
               return // Successfully loaded from cache, no API call needed
             } catch (parseError) {
-              console.error('Error parsing cached Adzuna job:', parseError)
+              console.error('Error parsing cached job:', parseError)
               // Fall through to API call if cache parse fails
             }
           }
           // If cache miss or parse error, fall through to API call
         }
         
-        // For Reed jobs or Adzuna cache miss, use API
+        // For Reed jobs or a cache miss, use API
         // Use the unified /api/jobs/[id] route which handles provider prefixes (reed_*, adzuna_*)
         const apiUrl = `/api/jobs/${encodeURIComponent(jobId)}`
         const response = await fetch(apiUrl)
@@ -1258,7 +1270,6 @@ export default function JobDetailsPage() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          title: 'My CV',
           data: updatedCvData,
         }),
       })
@@ -1437,9 +1448,9 @@ export default function JobDetailsPage() {
     }
 
     try {
-      const baseCover = JSON.parse(rawCover)
-      // Update the bodyText field with the generated cover letter
-      baseCover.bodyText = coverLetterText.trim() || baseCover.bodyText
+      const baseCover = toCoverLetterData(JSON.parse(rawCover))
+      // Update the letter body with the generated cover letter
+      baseCover.letterBody = coverLetterText.trim() || baseCover.letterBody
       localStorage.setItem(baseCoverKey, JSON.stringify(baseCover))
       
       setCoverMessage('Cover letter copied to your main cover letter.')
@@ -1639,6 +1650,22 @@ export default function JobDetailsPage() {
               <span>{job.type}</span>
             </div>
           )}
+          {job.sources && job.sources.length > 1 && (
+            <div className="flex items-center gap-2 text-sm flex-wrap">
+              <span>Apply via:</span>
+              {job.sources.map((listing) => (
+                <a
+                  key={listing.jobId}
+                  href={listing.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="px-2.5 py-0.5 rounded-full border border-slate-600/70 text-slate-200 hover:border-violet-400/60 hover:text-violet-100 transition"
+                >
+                  {listing.label}
+                </a>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Responsive Grid: Preparation Status + CV/Cover Letter */}
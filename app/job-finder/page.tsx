@@ -2,12 +2,25 @@
 
 import { useState, useEffect, useRef } from 'react'
 import { useRouter, useSearchParams } from 'next/navigation'
-import { Search, MapPin, Briefcase, Clock } from 'lucide-react'
+import { Search, MapPin, Briefcase, Clock, PoundSterling, SlidersHorizontal, Bell, BellOff, Trash2 } from 'lucide-react'
 import AppShell from '@/components/layout/AppShell'
 import PageHeader from '@/components/PageHeader'
 import TranslatableText from '@/components/TranslatableText'
 // NOTE: Removed user-storage imports - saved jobs now use Supabase API
 import { UK_CITIES, getLocationValue } from '@/lib/uk-cities'
+import { getJobSessionCacheKey } from '@/lib/jobs/parse-id'
+import {
+  JOB_CONTRACT_TYPES,
+  JOB_CONTRACT_TYPE_LABELS,
+  JOB_POSTED_WITHIN_OPTIONS_DAYS,
+  JOB_RADIUS_OPTIONS_MILES,
+  JOB_SORT_LABELS,
+  JOB_SORT_ORDERS,
+  parseJobSearchFilters,
+  setJobSearchFilterParams,
+} from '@/lib/jobs/filters'
+import type { JobSearchFilters, JobSortOrder } from '@/lib/jobs/types'
+import { getSavedSearchJobIds, type SavedSearch } from '@/lib/jobs/saved-searches'
 
 const JOB_FINDER_CACHE_KEY = "jobaz-job-finder-cache";
 const JOB_FINDER_TTL_MS = 20 * 60 * 1000; // 20 minutes
@@ -20,6 +33,8 @@ interface Job {
   description: string
   type: string
   link?: string
+  salary?: string
+  sources?: Array<{ source: string; label: string; jobId: string; url: string }> // every provider listing this vacancy
 }
 
 export default function JobFinderPage() {
@@ -27,7 +42,12 @@ export default function JobFinderPage() {
   const searchParams = useSearchParams()
   const [title, setTitle] = useState('')
   const [location, setLocation] = useState('UK (Anywhere)')
-  const [type, setType] = useState('')
+  const [type, setType] = useState('') // JobContractType or '' for all
+  const [salaryMin, setSalaryMin] = useState('')
+  const [salaryMax, setSalaryMax] = useState('')
+  const [radius, setRadius] = useState('')
+  const [postedWithin, setPostedWithin] = useState('')
+  const [sortBy, setSortBy] = useState<JobSortOrder>('relevance')
   const [jobs, setJobs] = useState<Job[]>([])
   const [loading, setLoading] = useState(false)
   const [searched, setSearched] = useState(false)
@@ -38,8 +58,19 @@ export default function JobFinderPage() {
   const [error, setError] = useState<string | null>(null)
   const [prefillLabel, setPrefillLabel] = useState<string | null>(null) // Label from Career Assistant
   const [caSessionId, setCaSessionId] = useState<string | null>(null) // Session ID from Career Assistant
+  const [savedSearches, setSavedSearches] = useState<SavedSearch[]>([])
+  const [saveSearchStatus, setSaveSearchStatus] = useState<'idle' | 'saving' | 'saved' | 'error'>('idle')
   const hasAutoSearchedRef = useRef(false)
 
+  const applyFilterState = (filters: JobSearchFilters) => {
+    setSalaryMin(filters.salaryMin ? String(filters.salaryMin) : '')
+    setSalaryMax(filters.salaryMax ? String(filters.salaryMax) : '')
+    setType(filters.contractType || '')
+    setRadius(filters.radiusMiles ? String(filters.radiusMiles) : '')
+    setPostedWithin(filters.postedWithinDays ? String(filters.postedWithinDays) : '')
+    setSortBy(filters.sortBy || 'relevance')
+  }
+
   // Read query or jobTitle from URL query parameter on mount
   useEffect(() => {
     // Priority: q param (Career Assistant) > query param (new) > jobTitle param (legacy)
@@ -141,6 +172,12 @@ export default function JobFinderPage() {
     if (locationFromUrl && UK_CITIES.includes(locationFromUrl as any)) {
       setLocation(locationFromUrl)
     }
+
+    // Set search filters if provided in URL
+    const filtersFromUrl = parseJobSearchFilters(searchParams)
+    if (Object.keys(filtersFromUrl).length > 0) {
+      applyFilterState(filtersFromUrl)
+    }
     
     // If category param exists but no q param, we still want to show it came from Career Assistant
     // But we won't have a label, so we'll use the category as fallback
@@ -195,6 +232,7 @@ export default function JobFinderPage() {
         keyword: string;
         location: string;
         jobType?: string;
+        filters?: JobSearchFilters;
         jobs: Job[];
         timestamp: number;
         savedJobs?: Job[];
@@ -213,7 +251,9 @@ export default function JobFinderPage() {
       if (cache.location && UK_CITIES.includes(cache.location as any)) {
         setLocation(cache.location);
       }
-      if (cache.jobType) setType(cache.jobType);
+      if (cache.filters) {
+        applyFilterState(cache.filters);
+      }
       if (cache.jobs && cache.jobs.length > 0) {
         setJobs(cache.jobs);
         setSearched(true);
@@ -280,6 +320,24 @@ export default function JobFinderPage() {
     loadSavedJobs()
   }, [isInitialized])
 
+  // Load saved searches (daily alerts) from Supabase on mount
+  useEffect(() => {
+    const loadSavedSearches = async () => {
+      try {
+        const response = await fetch('/api/jobs/saved-searches')
+        if (!response.ok) return // 401 when signed out: no saved searches
+        const data = await response.json()
+        if (data.ok && Array.isArray(data.searches)) {
+          setSavedSearches(data.searches)
+        }
+      } catch (error) {
+        console.error('[SavedSearches] Error loading saved searches:', error)
+      }
+    }
+
+    loadSavedSearches()
+  }, [])
+
   // Pre-fill job title from saved base CV on mount (only if no URL param)
   // NOTE: This still uses localStorage for baseCv (not related to saved jobs)
   useEffect(() => {
@@ -332,18 +390,38 @@ export default function JobFinderPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [searchParams]) // Run on mount and when searchParams change
 
-  const handleSearch = async () => {
+  // Filter inputs -> validated filters (same parsing as the API route)
+  const getFilters = (): JobSearchFilters =>
+    parseJobSearchFilters(
+      new URLSearchParams({ salaryMin, salaryMax, type, radius, postedWithin, sort: sortBy })
+    )
+
+  // Search with the current inputs, or with an explicit search (e.g. a saved search)
+  const handleSearch = async (override?: { keyword: string; location: string; filters: JobSearchFilters }) => {
     setLoading(true)
     setSearched(true)
     setError(null)
+    setSaveSearchStatus('idle')
 
     try {
+      const keyword = override?.keyword ?? title
+      const locationLabel = override?.location ?? location
+      const filters = override?.filters ?? getFilters()
+
       // Build query parameters
       const params = new URLSearchParams()
-      if (title.trim()) params.set('keyword', title.trim())
+      if (keyword.trim()) params.set('keyword', keyword.trim())
       // Use getLocationValue to convert dropdown selection to API value
-      const locationValue = getLocationValue(location)
+      const locationValue = getLocationValue(locationLabel)
       if (locationValue.trim()) params.set('location', locationValue.trim())
+      setJobSearchFilterParams(params, filters)
+
+      // Reflect the search in the page URL so it can be shared or reloaded
+      const urlParams = new URLSearchParams(searchParams.toString())
+      if (!urlParams.get('q') && keyword.trim()) urlParams.set('query', keyword.trim())
+      urlParams.set('location', locationLabel)
+      setJobSearchFilterParams(urlParams, filters)
+      router.replace(`/job-finder?${urlParams.toString()}`, { scroll: false })
 
       const response = await fetch(`/api/jobs/search?${params.toString()}`)
 
@@ -356,14 +434,12 @@ export default function JobFinderPage() {
       const results = data.results || []
       setJobs(results)
 
-      // Cache Adzuna jobs to sessionStorage when loaded
+      // Cache provider jobs (all but Reed) to sessionStorage when loaded
       if (typeof window !== 'undefined') {
         results.forEach((job: Job) => {
-          if (job.id?.startsWith('adzuna_')) {
+          const cacheKey = getJobSessionCacheKey(job.id)
+          if (cacheKey) {
             try {
-              const rawId = job.id.replace('adzuna_', '')
-              const cacheKey = `adzuna_job_${rawId}`
-              
               const cachedJob = {
                 id: job.id,
                 title: job.title || '',
@@ -377,6 +453,7 @@ export default function JobFinderPage() {
                 redirect_url: (job as any).redirect_url || job.link,
                 created: (job as any).created,
                 category: (job as any).category,
+                sources: job.sources,
               }
               
               sessionStorage.setItem(cacheKey, JSON.stringify(cachedJob))
@@ -391,9 +468,9 @@ export default function JobFinderPage() {
       if (typeof window !== "undefined") {
         try {
           const cache = {
-            keyword: title,
-            location: location,
-            jobType: type,
+            keyword,
+            location: locationLabel,
+            filters,
             jobs: results,
             timestamp: Date.now(),
             // NOTE: savedJobs are now persisted in Supabase, not in cache
@@ -412,14 +489,12 @@ export default function JobFinderPage() {
     }
   }
 
-  // Cache Adzuna job to sessionStorage before navigation
+  // Cache provider job (all but Reed) to sessionStorage before navigation
   const cacheAdzunaJob = (job: Job) => {
-    if (typeof window === 'undefined' || !job.id?.startsWith('adzuna_')) return
+    const cacheKey = getJobSessionCacheKey(job.id)
+    if (typeof window === 'undefined' || !cacheKey) return
     
     try {
-      const rawId = job.id.replace('adzuna_', '')
-      const cacheKey = `adzuna_job_${rawId}`
-      
       // Store minimal safe payload
       const cachedJob = {
         id: job.id,
@@ -435,6 +510,7 @@ export default function JobFinderPage() {
         redirect_url: (job as any).redirect_url || job.link,
         created: (job as any).created,
         category: (job as any).category,
+        sources: job.sources,
       }
       
       sessionStorage.setItem(cacheKey, JSON.stringify(cachedJob))
@@ -558,6 +634,73 @@ export default function JobFinderPage() {
     }
   }
 
+  // Save the current search for daily re-runs; jobs already shown won't be reported as new
+  const handleSaveSearch = async () => {
+    if (!title.trim()) return
+    setSaveSearchStatus('saving')
+    try {
+      const response = await fetch('/api/jobs/saved-searches', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          keyword: title.trim(),
+          location: getLocationValue(location),
+          filters: getFilters(),
+          seenJobIds: jobs.flatMap(getSavedSearchJobIds),
+        }),
+      })
+      if (response.status === 401) {
+        setSaveSearchStatus('idle')
+        setError('Please sign in to save searches and get new-match alerts.')
+        return
+      }
+      const data = await response.json()
+      if (!response.ok || !data.ok) {
+        throw new Error(data.error || 'Failed to save search')
+      }
+      setSavedSearches((prev) => [data.search, ...prev])
+      setSaveSearchStatus('saved')
+    } catch (error) {
+      console.error('[SavedSearches] Error saving search:', error)
+      setSaveSearchStatus('error')
+    }
+  }
+
+  const handleRunSavedSearch = (search: SavedSearch) => {
+    const locationLabel = search.location === 'UK' ? 'UK (Anywhere)' : search.location
+    setTitle(search.keyword)
+    setLocation(locationLabel)
+    applyFilterState(search.filters)
+    handleSearch({ keyword: search.keyword, location: locationLabel, filters: search.filters })
+  }
+
+  const handleToggleSearchAlerts = async (search: SavedSearch) => {
+    const alertsEnabled = !search.alertsEnabled
+    setSavedSearches((prev) => prev.map((s) => (s.id === search.id ? { ...s, alertsEnabled } : s)))
+    try {
+      const response = await fetch(`/api/jobs/saved-searches/${search.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ alertsEnabled }),
+      })
+      if (!response.ok) throw new Error(`Failed to update saved search: ${response.statusText}`)
+    } catch (error) {
+      console.error('[SavedSearches] Error updating alerts:', error)
+      setSavedSearches((prev) => prev.map((s) => (s.id === search.id ? search : s)))
+    }
+  }
+
+  const handleDeleteSavedSearch = async (search: SavedSearch) => {
+    setSavedSearches((prev) => prev.filter((s) => s.id !== search.id))
+    try {
+      const response = await fetch(`/api/jobs/saved-searches/${search.id}`, { method: 'DELETE' })
+      if (!response.ok) throw new Error(`Failed to delete saved search: ${response.statusText}`)
+    } catch (error) {
+      console.error('[SavedSearches] Error deleting search:', error)
+      setSavedSearches((prev) => [search, ...prev])
+    }
+  }
+
   const handleRemoveSavedJob = async (jobId: string) => {
     // Use the same toggle logic
     const job = savedJobs.find((j) => j.id === jobId)
@@ -728,23 +871,135 @@ export default function JobFinderPage() {
                   className="w-full bg-[#0D0D0D] border border-gray-800 rounded-xl pl-10 pr-4 py-3 text-white focus:outline-none focus:border-[#9b5cff] transition-colors appearance-none cursor-pointer"
                 >
                   <option value="">All Types</option>
-                  <option value="Full-time">Full-time</option>
-                  <option value="Part-time">Part-time</option>
+                  {JOB_CONTRACT_TYPES.map((contractType) => (
+                    <option key={contractType} value={contractType}>
+                      {JOB_CONTRACT_TYPE_LABELS[contractType]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
+          {/* Advanced Filters */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mt-4">
+            <div>
+              <label className="block text-gray-400 font-medium mb-2 text-sm">
+                Min Salary
+              </label>
+              <div className="relative">
+                <PoundSterling className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-500" />
+                <input
+                  type="number"
+                  min={0}
+                  step={1000}
+                  value={salaryMin}
+                  onChange={(e) => setSalaryMin(e.target.value)}
+                  placeholder="Any"
+                  className="w-full bg-[#0D0D0D] border border-gray-800 rounded-xl pl-9 pr-3 py-2.5 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-[#9b5cff] transition-colors"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-gray-400 font-medium mb-2 text-sm">
+                Max Salary
+              </label>
+              <div className="relative">
+                <PoundSterling className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-500" />
+                <input
+                  type="number"
+                  min={0}
+                  step={1000}
+                  value={salaryMax}
+                  onChange={(e) => setSalaryMax(e.target.value)}
+                  placeholder="Any"
+                  className="w-full bg-[#0D0D0D] border border-gray-800 rounded-xl pl-9 pr-3 py-2.5 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-[#9b5cff] transition-colors"
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-gray-400 font-medium mb-2 text-sm">
+                Distance
+              </label>
+              <select
+                value={radius}
+                onChange={(e) => setRadius(e.target.value)}
+                disabled={getLocationValue(location) === 'UK'}
+                title={getLocationValue(location) === 'UK' ? 'Choose a city to search by distance' : undefined}
+                className="w-full bg-[#0D0D0D] border border-gray-800 rounded-xl px-3 py-2.5 text-sm text-white focus:outline-none focus:border-[#9b5cff] transition-colors appearance-none cursor-pointer disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <option value="">Any distance</option>
+                {JOB_RADIUS_OPTIONS_MILES.map((miles) => (
+                  <option key={miles} value={miles}>
+                    Within {miles} miles
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="block text-gray-400 font-medium mb-2 text-sm">
+                Date Posted
+              </label>
+              <select
+                value={postedWithin}
+                onChange={(e) => setPostedWithin(e.target.value)}
+                className="w-full bg-[#0D0D0D] border border-gray-800 rounded-xl px-3 py-2.5 text-sm text-white focus:outline-none focus:border-[#9b5cff] transition-colors appearance-none cursor-pointer"
+              >
+                <option value="">Any time</option>
+                {JOB_POSTED_WITHIN_OPTIONS_DAYS.map((days) => (
+                  <option key={days} value={days}>
+                    {days === 1 ? 'Last 24 hours' : `Last ${days} days`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="col-span-2 md:col-span-1">
+              <label className="block text-gray-400 font-medium mb-2 text-sm">
+                Sort By
+              </label>
+              <div className="relative">
+                <SlidersHorizontal className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-500 pointer-events-none z-10" />
+                <select
+                  value={sortBy}
+                  onChange={(e) => setSortBy(e.target.value as JobSortOrder)}
+                  className="w-full bg-[#0D0D0D] border border-gray-800 rounded-xl pl-9 pr-3 py-2.5 text-sm text-white focus:outline-none focus:border-[#9b5cff] transition-colors appearance-none cursor-pointer"
+                >
+                  {JOB_SORT_ORDERS.map((order) => (
+                    <option key={order} value={order}>
+                      {JOB_SORT_LABELS[order]}
+                    </option>
+                  ))}
                 </select>
               </div>
             </div>
           </div>
 
           {/* Search Button */}
-          <div className="mt-6">
+          <div className="mt-6 flex flex-col md:flex-row md:items-center gap-3">
             <button
-              onClick={handleSearch}
+              onClick={() => handleSearch()}
               disabled={loading}
               className="w-full md:w-auto rounded-full bg-violet-600 px-4 py-2.5 text-sm font-medium text-white border border-violet-400/60 shadow-[0_0_25px_rgba(139,92,246,0.7)] hover:bg-violet-500 hover:border-violet-300 transition flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               <Search className="w-5 h-5" />
               {loading ? 'Searching...' : 'Search Jobs'}
             </button>
+            {searched && !loading && title.trim() && (
+              <button
+                onClick={handleSaveSearch}
+                disabled={saveSearchStatus === 'saving' || saveSearchStatus === 'saved'}
+                className="w-full md:w-auto rounded-full bg-slate-900/80 px-4 py-2.5 text-sm font-medium text-slate-100 border border-slate-600/70 hover:border-violet-400/60 hover:text-violet-100 transition flex items-center justify-center gap-2 disabled:opacity-60 disabled:cursor-not-allowed"
+              >
+                <Bell className="w-4 h-4" />
+                {saveSearchStatus === 'saving'
+                  ? 'Saving...'
+                  : saveSearchStatus === 'saved'
+                    ? 'Search saved – we\'ll check for new jobs daily'
+                    : saveSearchStatus === 'error'
+                      ? 'Could not save – try again'
+                      : 'Save search & get alerts'}
+              </button>
+            )}
           </div>
         </div>
 
@@ -771,7 +1026,7 @@ export default function JobFinderPage() {
                   <div className="text-center py-12 rounded-2xl border border-slate-700/60 bg-slate-950/60 shadow-[0_18px_40px_rgba(15,23,42,0.85)]">
                     <p className="text-gray-400 text-lg mb-2">No jobs found for this search.</p>
                     <p className="text-gray-500 text-sm">
-                      Try different keywords or location.
+                      Try different keywords, location or filters.
                     </p>
                   </div>
                 ) : (
@@ -808,6 +1063,28 @@ export default function JobFinderPage() {
                               <Clock className="w-4 h-4" />
                               <span>{job.type}</span>
                             </div>
+                            {job.salary && (
+                              <div className="flex items-center gap-2 text-gray-400 text-sm">
+                                <PoundSterling className="w-4 h-4" />
+                                <span>{job.salary}</span>
+                              </div>
+                            )}
+                            {job.sources && job.sources.length > 1 && (
+                              <div className="flex items-center gap-2 text-gray-400 text-xs flex-wrap">
+                                <span>Listed on:</span>
+                                {job.sources.map((listing) => (
+                                  <a
+                                    key={listing.jobId}
+                                    href={listing.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="px-2 py-0.5 rounded-full border border-slate-600/70 text-slate-200 hover:border-violet-400/60 hover:text-violet-100 transition"
+                                  >
+                                    {listing.label}
+                                  </a>
+                                ))}
+                              </div>
+                            )}
                           </div>
 
                           {/* Description */}
@@ -871,6 +1148,46 @@ export default function JobFinderPage() {
           {/* Right Column: Saved Jobs Sidebar */}
           <div className="w-full md:w-80">
             <div className="md:sticky md:top-4">
+              {savedSearches.length > 0 && (
+                <div className="mb-8">
+                  <h2 className="text-2xl font-heading font-semibold mb-4">Saved Searches</h2>
+                  <div className="space-y-2">
+                    {savedSearches.map((search) => (
+                      <div
+                        key={search.id}
+                        className="rounded-xl border border-slate-700/60 bg-slate-950/60 p-3 flex items-center gap-2"
+                      >
+                        <button
+                          onClick={() => handleRunSavedSearch(search)}
+                          className="flex-1 min-w-0 text-left"
+                          title="Run this search"
+                        >
+                          <div className="text-sm font-medium text-white truncate">{search.name}</div>
+                          {search.newMatchCount > 0 && (
+                            <div className="text-xs text-violet-300">
+                              {search.newMatchCount} new {search.newMatchCount === 1 ? 'match' : 'matches'}
+                            </div>
+                          )}
+                        </button>
+                        <button
+                          onClick={() => handleToggleSearchAlerts(search)}
+                          className="p-1.5 rounded-lg text-slate-400 hover:text-violet-200 transition"
+                          title={search.alertsEnabled ? 'Turn off daily alerts' : 'Turn on daily alerts'}
+                        >
+                          {search.alertsEnabled ? <Bell className="w-4 h-4" /> : <BellOff className="w-4 h-4" />}
+                        </button>
+                        <button
+                          onClick={() => handleDeleteSavedSearch(search)}
+                          className="p-1.5 rounded-lg text-slate-400 hover:text-red-300 transition"
+                          title="Delete saved search"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
               <h2 className="text-2xl font-heading font-semibold mb-6">Saved Jobs</h2>
               {savedJobs.length === 0 ? (
                 <div className="rounded-2xl border border-slate-700/60 bg-slate-950/60 shadow-[0_18px_40px_rgba(15,23,42,0.85)] p-8 text-center">
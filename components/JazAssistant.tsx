@@ -8,7 +8,7 @@ import { useJazContext } from '@/contexts/JazContextContext'
 import { useJazStore, type JazMode } from '@/lib/jaz-store'
 import { Copy, ExternalLink, FileText, CheckCircle2, Sparkles, Check, AlertTriangle, Rocket, Target, CheckSquare, ChevronDown, ChevronUp, Zap, X } from 'lucide-react'
 import { getNextBestAction, type JazGuidanceState, type NextBestAction } from '@/lib/jaz-guidance'
-import { getAppliedJobs } from '@/lib/applied-jobs-storage'
+import { getAppliedJobs, fetchAppliedJobs, isApplicationSubmitted } from '@/lib/applied-jobs-storage'
 import { scrollAndHighlight } from '@/lib/jaz-ui'
 import { NextStepLoadingCard } from '@/components/NextStepLoadingCard'
 import { useNextStepLoadingStore, generateRequestId } from '@/lib/next-step-loading-store'
@@ -220,6 +220,16 @@ export default function JazAssistant({}: JazAssistantProps) {
     setMounted(true)
   }, [])
 
+  // Keep the applied-jobs mirror in sync with the pipeline stored in Supabase
+  useEffect(() => {
+    fetchAppliedJobs()
+    const handleAppliedJobsChanged = () => {
+      fetchAppliedJobs()
+    }
+    window.addEventListener('jobaz-applied-jobs-changed', handleAppliedJobsChanged)
+    return () => window.removeEventListener('jobaz-applied-jobs-changed', handleAppliedJobsChanged)
+  }, [])
+
   // Trigger welcome pulse on first page load (only on landing page)
   useEffect(() => {
     if (typeof window !== 'undefined' && pathname === '/' && !hasShownWelcomePulse.current && mounted) {
@@ -414,7 +424,7 @@ export default function JazAssistant({}: JazAssistantProps) {
         // Create a hash of the current state for comparison
         const stateHash = JSON.stringify({
           jobState,
-          appliedStatus: appliedJob?.status || 'not-submitted',
+          appliedStatus: appliedJob?.stage || 'not-submitted',
         })
         
         // Only update if state actually changed
@@ -652,7 +662,7 @@ export default function JazAssistant({}: JazAssistantProps) {
         try {
           const appliedJobs = getAppliedJobs()
           const appliedJob = appliedJobs.find(j => j.id === jobId)
-          applicationSubmitted = appliedJob?.status === 'submitted' || false
+          applicationSubmitted = isApplicationSubmitted(appliedJob)
         } catch (e) {
           // Ignore errors
         }
@@ -759,7 +769,7 @@ export default function JazAssistant({}: JazAssistantProps) {
       // Check application submitted
       const appliedJobs = getAppliedJobs()
       const appliedJob = appliedJobs.find(j => j.id === jobId)
-      applicationSubmitted = appliedJob?.status === 'submitted' || false
+      applicationSubmitted = isApplicationSubmitted(appliedJob)
 
       return getActionPlan(jobId, {
         isCVTailored,
@@ -887,7 +897,7 @@ export default function JazAssistant({}: JazAssistantProps) {
           try {
             const appliedJobs = getAppliedJobs()
             const appliedJob = appliedJobs.find(j => j.id === checkJobId)
-            if (appliedJob?.status === 'submitted') {
+            if (isApplicationSubmitted(appliedJob)) {
               // Application already submitted, navigate to dashboard
               router.push('/dashboard')
               return
@@ -1670,7 +1680,7 @@ export default function JazAssistant({}: JazAssistantProps) {
       return {
         action: 'GENERATE_COVER' as any,
         title: 'Start your cover letter',
-        message: 'Enter keywords or paste a job description to generate your cover letter.',
+        message: 'Paste a job description to generate your cover letter from your CV.',
         ctaLabel: 'Generate',
       }
     }
@@ -2156,21 +2166,18 @@ export default function JazAssistant({}: JazAssistantProps) {
       if (guidance.title === 'Generate from job description') {
         runAction('cover_generate_from_jd')
       } else if (guidance.title === 'Start your cover letter') {
-        // Check if keywords exist
-        const keywordsInput = document.querySelector('textarea[placeholder*="keywords" i]') as HTMLTextAreaElement
-        if (keywordsInput && keywordsInput.value.trim()) {
-          // Keywords exist, trigger generate
+        // Generation needs a job: focus the job description if none is pasted
+        const generateButton = document.querySelector('[data-jaz-action="cover_generate_keywords"]') as HTMLButtonElement | null
+        const jobDescriptionInput = document.querySelector('textarea[placeholder*="job description" i]') as HTMLTextAreaElement | null
+        if (generateButton && !generateButton.disabled) {
           runAction('cover_generate_keywords')
+        } else if (jobDescriptionInput) {
+          jobDescriptionInput.focus()
+          pulseHighlight('textarea[placeholder*="job description" i]', 1500)
+          setActionToast('Paste the job description to generate your cover letter from your CV')
+          setTimeout(() => setActionToast(null), 3000)
         } else {
-          // No keywords, scroll/focus keywords input and show tip
-          if (keywordsInput) {
-            keywordsInput.focus()
-            pulseHighlight('textarea[placeholder*="keywords" i]', 1500)
-            setActionToast('Add keywords to generate your cover letter')
-            setTimeout(() => setActionToast(null), 3000)
-          } else {
-            runAction('cover_generate_keywords')
-          }
+          runAction('cover_generate_keywords')
         }
       } else if (guidance.title === 'Replace placeholders') {
         // Show placeholders in a checklist (we'll implement this in the card)
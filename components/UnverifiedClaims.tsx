@@ -0,0 +1,84 @@
+'use client'
+
+import { Fragment } from 'react'
+import { AlertTriangle } from 'lucide-react'
+import { UNVERIFIED_CLAIM_LABELS, type UnverifiedClaim } from '@/lib/hallucination-guard'
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+interface HighlightedClaimsTextProps {
+  text: string
+  claims: UnverifiedClaim[]
+  className?: string
+}
+
+/**
+ * AI-written text with every unverified claim highlighted in amber, so the
+ * user can see exactly what needs confirming before they use it
+ */
+export function HighlightedClaimsText({ text, claims, className = '' }: HighlightedClaimsTextProps) {
+  const terms = Array.from(new Set(claims.map((claim) => claim.text).filter(Boolean))).sort((a, b) => b.length - a.length)
+  if (terms.length === 0) {
+    return <span className={className}>{text}</span>
+  }
+
+  const pattern = new RegExp(`(${terms.map(escapeRegExp).join('|')})`, 'gi')
+  const lowerTerms = terms.map((term) => term.toLowerCase())
+
+  return (
+    <span className={className}>
+      {text.split(pattern).map((part, index) =>
+        lowerTerms.includes(part.toLowerCase()) ? (
+          <mark
+            key={index}
+            title="Not found in your CV: please confirm"
+            className="rounded bg-amber-500/20 px-0.5 text-amber-200 underline decoration-amber-400/70 decoration-dotted"
+          >
+            {part}
+          </mark>
+        ) : (
+          <Fragment key={index}>{part}</Fragment>
+        )
+      )}
+    </span>
+  )
+}
+
+interface UnverifiedClaimsNoticeProps {
+  claims: UnverifiedClaim[]
+  className?: string
+}
+
+/**
+ * "Needs confirmation" list of the names, figures, qualifications and dates
+ * the AI added that are not in the user's CV or input
+ */
+export function UnverifiedClaimsNotice({ claims, className = '' }: UnverifiedClaimsNoticeProps) {
+  if (claims.length === 0) {
+    return null
+  }
+
+  const unique = claims.filter((claim, index) => claims.findIndex((other) => other.text === claim.text) === index)
+
+  return (
+    <div className={`p-2.5 bg-amber-950/20 border border-amber-500/30 rounded-lg flex items-start gap-2 ${className}`}>
+      <AlertTriangle className="w-4 h-4 text-amber-400 flex-shrink-0 mt-0.5" />
+      <div className="text-xs text-amber-200 space-y-1">
+        <p className="font-medium">Needs confirmation: not found in your CV</p>
+        <div className="flex flex-wrap gap-1">
+          {unique.map((claim) => (
+            <span
+              key={`${claim.kind}-${claim.text}`}
+              className="px-1.5 py-0.5 rounded bg-amber-500/15 border border-amber-500/30 text-amber-100"
+            >
+              <span className="text-amber-400/80">{UNVERIFIED_CLAIM_LABELS[claim.kind]}:</span> {claim.text}
+            </span>
+          ))}
+        </div>
+        <p className="text-amber-300/80">Keep these only if they are true; otherwise edit them out.</p>
+      </div>
+    </div>
+  )
+}
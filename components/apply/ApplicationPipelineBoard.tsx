@@ -0,0 +1,244 @@
+'use client'
+
+import { useState } from 'react'
+import { Briefcase, FileText, Mail, GraduationCap, ChevronDown, ChevronUp, History, StickyNote, Trash2 } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  APPLICATION_STAGES,
+  APPLICATION_STAGE_LABELS,
+  CLOSED_APPLICATION_STAGES,
+  type AppliedJob,
+  type ApplicationStage,
+} from '@/lib/applied-jobs-storage'
+
+interface ApplicationPipelineBoardProps {
+  jobs: AppliedJob[]
+  onMoveStage: (job: AppliedJob, stage: ApplicationStage) => void
+  onSaveNotes: (job: AppliedJob, notes: string) => void
+  onViewDetails: (job: AppliedJob) => void
+  onInterviewTraining: (job: AppliedJob) => void
+  onRemove: (job: AppliedJob) => void
+}
+
+const STAGE_ACCENTS: Record<ApplicationStage, string> = {
+  saved: 'bg-slate-400',
+  applied: 'bg-violet-400',
+  screening: 'bg-sky-400',
+  interview: 'bg-amber-400',
+  offer: 'bg-emerald-400',
+  rejected: 'bg-red-400',
+  withdrawn: 'bg-slate-500',
+}
+
+function formatDate(iso: string): string {
+  const date = new Date(iso)
+  if (isNaN(date.getTime())) return ''
+  return date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' })
+}
+
+function daysInStage(job: AppliedJob): number | null {
+  const last = job.stageHistory[job.stageHistory.length - 1]
+  const since = new Date(last?.at || job.createdAt).getTime()
+  if (isNaN(since)) return null
+  return Math.max(0, Math.floor((Date.now() - since) / (1000 * 60 * 60 * 24)))
+}
+
+function PipelineCard({
+  job,
+  onMoveStage,
+  onSaveNotes,
+  onViewDetails,
+  onInterviewTraining,
+  onRemove,
+}: Omit<ApplicationPipelineBoardProps, 'jobs'> & { job: AppliedJob }) {
+  const [expanded, setExpanded] = useState(false)
+  const [notesDraft, setNotesDraft] = useState(job.notes || '')
+  const days = daysInStage(job)
+
+  return (
+    <div
+      draggable
+      onDragStart={(e) => e.dataTransfer.setData('text/plain', job.id)}
+      className="rounded-xl border border-slate-700/60 bg-slate-950/70 p-3 shadow-[0_10px_25px_rgba(15,23,42,0.7)] hover:border-violet-500/50 transition cursor-grab active:cursor-grabbing"
+    >
+      <h4 className="text-sm font-semibold text-slate-50 line-clamp-2">{job.title || 'Untitled Job'}</h4>
+      {job.company && (
+        <p className="text-xs text-violet-300 mt-0.5 flex items-center gap-1">
+          <Briefcase className="w-3 h-3" />
+          {job.company}
+        </p>
+      )}
+      {job.location && <p className="text-[11px] text-slate-400 mt-0.5">{job.location}</p>}
+
+      <div className="flex items-center gap-1.5 mt-2">
+        <span
+          className={cn(
+            'inline-flex items-center gap-1 px-1.5 py-0.5 rounded-full text-[10px] border',
+            job.hasCv ? 'border-emerald-500/30 bg-emerald-500/15 text-emerald-300' : 'border-slate-600/50 text-slate-500'
+          )}
+          title={job.cvVersionId ? 'CV version sent with this application is saved' : undefined}
+        >
+          <FileText className="w-3 h-3" />
+          CV
+        </span>
+        <span
+          className={cn(
+            'inline-flex items-center gap-1 px-1.5 py-0.5 rounded-full text-[10px] border',
+            job.hasCover ? 'border-emerald-500/30 bg-emerald-500/15 text-emerald-300' : 'border-slate-600/50 text-slate-500'
+          )}
+        >
+          <Mail className="w-3 h-3" />
+          Cover
+        </span>
+        {days !== null && (
+          <span className="ml-auto text-[10px] text-slate-500">{days === 0 ? 'today' : `${days}d`}</span>
+        )}
+      </div>
+
+      <div className="flex items-center gap-1.5 mt-2">
+        <select
+          value={job.stage}
+          onChange={(e) => onMoveStage(job, e.target.value as ApplicationStage)}
+          className="flex-1 rounded-md border border-slate-700/60 bg-slate-900/80 px-2 py-1 text-[11px] text-slate-200 focus:outline-none focus:border-violet-500/60"
+          aria-label="Move to stage"
+        >
+          {APPLICATION_STAGES.map((stage) => (
+            <option key={stage} value={stage}>
+              {APPLICATION_STAGE_LABELS[stage]}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setExpanded((prev) => !prev)}
+          className="p-1 rounded-md border border-slate-700/60 text-slate-400 hover:text-slate-200 transition"
+          aria-label={expanded ? 'Hide details' : 'Show details'}
+        >
+          {expanded ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+        </button>
+      </div>
+
+      {expanded && (
+        <div className="mt-3 space-y-3 border-t border-slate-800 pt-3">
+          <div>
+            <div className="flex items-center gap-1 text-[10px] uppercase tracking-wide text-slate-500 mb-1">
+              <History className="w-3 h-3" />
+              Stage history
+            </div>
+            <ol className="space-y-1">
+              {job.stageHistory.map((entry, idx) => (
+                <li key={`${entry.stage}-${entry.at}-${idx}`} className="text-[11px] text-slate-300">
+                  <span className="font-medium">{APPLICATION_STAGE_LABELS[entry.stage]}</span>
+                  <span className="text-slate-500"> · {formatDate(entry.at)}</span>
+                  {entry.note && <span className="block text-slate-400">{entry.note}</span>}
+                </li>
+              ))}
+            </ol>
+          </div>
+
+          <div>
+            <div className="flex items-center gap-1 text-[10px] uppercase tracking-wide text-slate-500 mb-1">
+              <StickyNote className="w-3 h-3" />
+              Notes
+            </div>
+            <textarea
+              value={notesDraft}
+              onChange={(e) => setNotesDraft(e.target.value)}
+              onBlur={() => {
+                if (notesDraft !== (job.notes || '')) onSaveNotes(job, notesDraft)
+              }}
+              rows={3}
+              placeholder="Recruiter name, interview date, follow-ups..."
+              className="w-full rounded-md border border-slate-700/60 bg-slate-900/80 px-2 py-1.5 text-[11px] text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-violet-500/60"
+            />
+          </div>
+
+          {job.coverLetterSnapshot && (
+            <details className="text-[11px] text-slate-400">
+              <summary className="cursor-pointer text-slate-300">Cover letter sent</summary>
+              <p className="mt-1 whitespace-pre-wrap max-h-40 overflow-y-auto">{job.coverLetterSnapshot}</p>
+            </details>
+          )}
+
+          <div className="grid grid-cols-2 gap-1.5">
+            <button
+              onClick={() => onViewDetails(job)}
+              className="rounded-full bg-gradient-to-r from-violet-600 to-purple-600 px-2 py-1.5 text-[11px] font-semibold text-white hover:from-violet-500 hover:to-purple-500 transition"
+            >
+              View Job
+            </button>
+            <button
+              onClick={() => onInterviewTraining(job)}
+              className="rounded-full bg-slate-800/80 px-2 py-1.5 text-[11px] font-semibold text-slate-200 border border-slate-600/70 hover:border-violet-400/60 transition flex items-center justify-center gap-1"
+            >
+              <GraduationCap className="w-3 h-3" />
+              Interview
+            </button>
+          </div>
+          <button
+            onClick={() => onRemove(job)}
+            className="w-full inline-flex items-center justify-center gap-1 rounded-full border border-slate-600/50 px-2 py-1 text-[11px] text-slate-400 hover:border-red-500/50 hover:text-red-400 hover:bg-red-500/10 transition"
+          >
+            <Trash2 className="w-3 h-3" />
+            Remove
+          </button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+/**
+ * Kanban view of the application pipeline: one column per stage.
+ * Cards can be dragged between columns or moved with the stage selector.
+ */
+export default function ApplicationPipelineBoard(props: ApplicationPipelineBoardProps) {
+  const { jobs, onMoveStage } = props
+  const [dragOverStage, setDragOverStage] = useState<ApplicationStage | null>(null)
+
+  const handleDrop = (stage: ApplicationStage, jobId: string) => {
+    setDragOverStage(null)
+    const job = jobs.find((j) => j.id === jobId)
+    if (job && job.stage !== stage) onMoveStage(job, stage)
+  }
+
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-3">
+      {APPLICATION_STAGES.map((stage) => {
+        const stageJobs = jobs.filter((job) => job.stage === stage)
+        const isClosed = CLOSED_APPLICATION_STAGES.includes(stage)
+        return (
+          <div
+            key={stage}
+            onDragOver={(e) => {
+              e.preventDefault()
+              setDragOverStage(stage)
+            }}
+            onDragLeave={() => setDragOverStage((current) => (current === stage ? null : current))}
+            onDrop={(e) => {
+              e.preventDefault()
+              handleDrop(stage, e.dataTransfer.getData('text/plain'))
+            }}
+            className={cn(
+              'flex-shrink-0 w-64 rounded-2xl border p-3 transition',
+              dragOverStage === stage ? 'border-violet-500/60 bg-violet-500/10' : 'border-slate-700/60 bg-slate-900/40',
+              isClosed && 'opacity-80'
+            )}
+          >
+            <div className="flex items-center justify-between mb-3">
+              <span className="flex items-center gap-2 text-xs font-semibold text-slate-200">
+                <span className={cn('w-2 h-2 rounded-full', STAGE_ACCENTS[stage])} />
+                {APPLICATION_STAGE_LABELS[stage]}
+              </span>
+              <span className="text-[10px] text-slate-500">{stageJobs.length}</span>
+            </div>
+            <div className="space-y-2 min-h-[60px]">
+              {stageJobs.map((job) => (
+                <PipelineCard key={job.rowId || job.id} job={job} {...props} />
+              ))}
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -8,6 +8,7 @@ import { useJazStore } from '@/lib/jaz-store'
 import { NextStepLoadingCard } from '@/components/NextStepLoadingCard'
 import { useNextStepLoadingStore, generateRequestId } from '@/lib/next-step-loading-store'
 import { getBaseCvAnyScope } from '@/lib/cv-storage'
+import { parseCvData, type CvData } from '@/lib/cv-schema'
 
 interface ApplyAssistantPanelProps {
   jobId: string
@@ -184,7 +185,7 @@ export default function ApplyAssistantPanel({
 
     // Load CV data - prefer props if provided, otherwise fallback to localStorage
     let cvSummary = propCvSummary || ''
-    let cvExperience: Array<{ title?: string; company?: string; duration?: string; description?: string }> = []
+    let cvExperience: CvData['experience'] = []
     let cvSkills: string[] = []
 
     // Only load from localStorage if props not provided
@@ -194,18 +195,11 @@ export default function ApplyAssistantPanel({
         const { hasCv, cv } = getBaseCvAnyScope()
         
         if (hasCv && cv) {
-          cvSummary = cv.summary || ''
-          cvSkills = Array.isArray(cv.skills) ? cv.skills : []
-          
-          // Convert experience format (handle both V2 and legacy formats)
-          if (Array.isArray(cv.experience)) {
-            cvExperience = cv.experience.map((exp: any) => ({
-              title: exp.jobTitle || exp.title || exp.role,
-              company: exp.company,
-              duration: exp.startDate && exp.endDate ? `${exp.startDate} - ${exp.endDate}` : undefined,
-              description: Array.isArray(exp.bullets) ? exp.bullets.join('\n') : exp.description || '',
-            }))
-          }
+          // Upgrade whatever version was stored to the current CV schema
+          const { data } = parseCvData(cv)
+          cvSummary = data.summary
+          cvSkills = data.skills
+          cvExperience = data.experience
         }
       } catch (e) {
         console.error('Error loading CV:', e)
@@ -0,0 +1,454 @@
+'use client'
+
+import { useState, useEffect, useCallback, useMemo } from 'react'
+import { ChevronDown, Copy, History, Loader2, Pencil, Plus, Trash2, Check, X, Repeat } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { ConfirmModal } from '@/components/ConfirmModal'
+import { rankSimilarCoverLetters, type CoverLetterLibraryItem, type CoverLetterVersion } from '@/lib/cover-library'
+
+interface CoverLetterLibraryPickerProps {
+  activeCoverId: string | null
+  activeTitle: string
+  /** UnifiedJob.id of the job being applied for, if any */
+  jobKey: string | null
+  jobRole: string
+  jobCompany: string
+  refreshKey?: number
+  onSelect: (cover: CoverLetterLibraryItem | null) => void
+  onRename: (title: string) => void
+  onRestoreVersion: (version: CoverLetterVersion) => void
+  onToast: (type: 'success' | 'error', message: string) => void
+}
+
+function formatTimestamp(iso: string): string {
+  try {
+    return new Date(iso).toLocaleString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  } catch {
+    return iso
+  }
+}
+
+export default function CoverLetterLibraryPicker({
+  activeCoverId,
+  activeTitle,
+  jobKey,
+  jobRole,
+  jobCompany,
+  refreshKey = 0,
+  onSelect,
+  onRename,
+  onRestoreVersion,
+  onToast,
+}: CoverLetterLibraryPickerProps) {
+  const [covers, setCovers] = useState<CoverLetterLibraryItem[]>([])
+  const [loadingList, setLoadingList] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [isOpen, setIsOpen] = useState(false)
+  const [isRenaming, setIsRenaming] = useState(false)
+  const [renameValue, setRenameValue] = useState('')
+  const [showHistory, setShowHistory] = useState(false)
+  const [showReuse, setShowReuse] = useState(false)
+  const [versions, setVersions] = useState<CoverLetterVersion[]>([])
+  const [loadingVersions, setLoadingVersions] = useState(false)
+  const [confirmDeleteOpen, setConfirmDeleteOpen] = useState(false)
+
+  const fetchCovers = useCallback(async () => {
+    setLoadingList(true)
+    try {
+      const response = await fetch('/api/cover/list', { cache: 'no-store' })
+      // Not signed in: the library is simply unavailable
+      if (response.status === 401) {
+        setCovers([])
+        return
+      }
+      const data = await response.json()
+      if (data.ok && Array.isArray(data.covers)) {
+        setCovers(data.covers)
+      }
+    } catch (error) {
+      console.error('Error loading cover letter library:', error)
+    } finally {
+      setLoadingList(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchCovers()
+  }, [fetchCovers, refreshKey])
+
+  const fetchVersions = useCallback(async () => {
+    if (!activeCoverId) {
+      setVersions([])
+      return
+    }
+    setLoadingVersions(true)
+    try {
+      const response = await fetch(`/api/cover/${activeCoverId}/versions`, { cache: 'no-store' })
+      const data = await response.json()
+      setVersions(data.ok && Array.isArray(data.versions) ? data.versions : [])
+    } catch (error) {
+      console.error('Error loading cover letter versions:', error)
+      setVersions([])
+    } finally {
+      setLoadingVersions(false)
+    }
+  }, [activeCoverId])
+
+  useEffect(() => {
+    if (showHistory) {
+      fetchVersions()
+    }
+  }, [showHistory, fetchVersions, refreshKey])
+
+  // Letters for this job first, then the rest of the library
+  const sortedCovers = useMemo(
+    () => (jobKey ? [...covers].sort((a, b) => Number(b.jobKey === jobKey) - Number(a.jobKey === jobKey)) : covers),
+    [covers, jobKey]
+  )
+
+  const similarCovers = useMemo(
+    () => (jobRole.trim() ? rankSimilarCoverLetters(covers, { jobKey, role: jobRole, company: jobCompany }).slice(0, 5) : []),
+    [covers, jobKey, jobRole, jobCompany]
+  )
+
+  const duplicate = async (sourceId: string, body: Record<string, string>) => {
+    setBusy(true)
+    try {
+      const response = await fetch(`/api/cover/${sourceId}/duplicate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(body),
+      })
+      const data = await response.json()
+      if (!response.ok || !data.ok) {
+        throw new Error(data.error || 'Failed to duplicate cover letter')
+      }
+      await fetchCovers()
+      onSelect(data.cover)
+      return data.cover as CoverLetterLibraryItem
+    } catch (error) {
+      onToast('error', error instanceof Error ? error.message : 'Failed to duplicate cover letter')
+      return null
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDuplicate = async () => {
+    if (!activeCoverId) {
+      onToast('error', 'Save this cover letter first, then duplicate it.')
+      return
+    }
+    const cover = await duplicate(activeCoverId, {})
+    if (cover) onToast('success', `Duplicated as "${cover.title}".`)
+  }
+
+  const handleReuse = async (source: CoverLetterLibraryItem) => {
+    setShowReuse(false)
+    const cover = await duplicate(source.id, {
+      ...(jobKey ? { jobKey } : {}),
+      role: jobRole,
+      company: jobCompany,
+    })
+    if (cover) onToast('success', `Reused "${source.title}" for this job. Review it before sending.`)
+  }
+
+  const handleRename = async () => {
+    const title = renameValue.trim()
+    if (!title) return
+    // Unsaved letters are only renamed locally; the title is sent on first save
+    if (!activeCoverId) {
+      onRename(title)
+      setIsRenaming(false)
+      return
+    }
+    setBusy(true)
+    try {
+      const response = await fetch(`/api/cover/${activeCoverId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title }),
+      })
+      const data = await response.json()
+      if (!response.ok || !data.ok) {
+        throw new Error(data.error || 'Failed to rename cover letter')
+      }
+      onRename(data.cover.title)
+      setIsRenaming(false)
+      await fetchCovers()
+    } catch (error) {
+      onToast('error', error instanceof Error ? error.message : 'Failed to rename cover letter')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    setConfirmDeleteOpen(false)
+    if (!activeCoverId) return
+    setBusy(true)
+    try {
+      const response = await fetch(`/api/cover/${activeCoverId}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok || !data.ok) {
+        throw new Error(data.error || 'Failed to delete cover letter')
+      }
+      setCovers(covers.filter((cover) => cover.id !== activeCoverId))
+      setShowHistory(false)
+      onSelect(null)
+      onToast('success', 'Cover letter deleted.')
+    } catch (error) {
+      onToast('error', error instanceof Error ? error.message : 'Failed to delete cover letter')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-slate-700/60 bg-slate-950/70 shadow-[0_18px_40px_rgba(15,23,42,0.9)] backdrop-blur px-4 py-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-slate-400 font-medium shrink-0">My Cover Letters</span>
+
+        {/* Current letter / switcher */}
+        {isRenaming ? (
+          <div className="flex items-center gap-1.5">
+            <input
+              value={renameValue}
+              onChange={(e) => setRenameValue(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleRename()
+                if (e.key === 'Escape') setIsRenaming(false)
+              }}
+              autoFocus
+              maxLength={120}
+              className="h-7 rounded-lg border border-violet-500/60 bg-slate-900/80 px-2 text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-violet-500"
+            />
+            <button
+              onClick={handleRename}
+              disabled={busy || !renameValue.trim()}
+              className="h-7 w-7 inline-flex items-center justify-center rounded-lg border border-violet-500/60 text-violet-200 hover:bg-violet-500/20 transition disabled:opacity-40"
+              title="Save name"
+            >
+              <Check className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => setIsRenaming(false)}
+              className="h-7 w-7 inline-flex items-center justify-center rounded-lg border border-slate-700/60 text-slate-300 hover:text-slate-100 transition"
+              title="Cancel"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ) : (
+          <div className="relative">
+            <button
+              onClick={() => setIsOpen(!isOpen)}
+              disabled={busy}
+              className="inline-flex items-center gap-1.5 h-7 px-3 text-xs font-semibold rounded-lg border border-violet-500/60 text-violet-200 bg-violet-500/10 hover:bg-violet-500/20 transition disabled:opacity-50"
+            >
+              <span className="max-w-[180px] truncate">{activeTitle}</span>
+              {!activeCoverId && <span className="text-[10px] text-amber-300 font-normal">(unsaved)</span>}
+              <ChevronDown className="w-3.5 h-3.5" />
+            </button>
+            {isOpen && (
+              <div className="absolute left-0 top-9 z-50 w-64 rounded-xl border border-slate-700/60 bg-slate-950/95 backdrop-blur shadow-[0_18px_40px_rgba(15,23,42,0.9)] p-1.5">
+                {loadingList ? (
+                  <div className="flex items-center gap-2 px-2 py-2 text-xs text-slate-400">
+                    <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                    Loading cover letters…
+                  </div>
+                ) : sortedCovers.length === 0 ? (
+                  <div className="px-2 py-2 text-xs text-slate-400">No saved cover letters yet.</div>
+                ) : (
+                  <div className="max-h-64 overflow-y-auto space-y-0.5">
+                    {sortedCovers.map((cover) => (
+                      <button
+                        key={cover.id}
+                        onClick={() => {
+                          setIsOpen(false)
+                          if (cover.id !== activeCoverId) onSelect(cover)
+                        }}
+                        className={cn(
+                          'w-full text-left rounded-lg px-2 py-1.5 transition',
+                          cover.id === activeCoverId
+                            ? 'bg-violet-500/15 text-violet-200'
+                            : 'text-slate-300 hover:bg-slate-800/60 hover:text-slate-100'
+                        )}
+                      >
+                        <div className="text-xs font-medium truncate">
+                          {cover.title}
+                          {jobKey && cover.jobKey === jobKey && (
+                            <span className="ml-1.5 text-[10px] text-green-400 font-normal">this job</span>
+                          )}
+                        </div>
+                        <div className="text-[10px] text-slate-500">Updated {formatTimestamp(cover.updatedAt)}</div>
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <button
+                  onClick={() => {
+                    setIsOpen(false)
+                    onSelect(null)
+                  }}
+                  disabled={busy}
+                  className="mt-1 w-full flex items-center gap-1.5 rounded-lg px-2 py-1.5 text-xs font-medium text-violet-300 hover:bg-violet-500/10 transition border-t border-slate-800 disabled:opacity-50"
+                >
+                  <Plus className="w-3.5 h-3.5" />
+                  New Cover Letter
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex items-center gap-1.5 ml-auto">
+          <button
+            onClick={() => {
+              setRenameValue(activeTitle)
+              setIsRenaming(true)
+              setIsOpen(false)
+            }}
+            disabled={busy || isRenaming}
+            className="h-7 px-2 inline-flex items-center gap-1 rounded-lg border border-slate-700/60 text-[11px] text-slate-300 hover:text-slate-100 hover:border-slate-600/80 transition disabled:opacity-40"
+            title="Rename cover letter"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+            Rename
+          </button>
+          <button
+            onClick={handleDuplicate}
+            disabled={busy || !activeCoverId}
+            className="h-7 px-2 inline-flex items-center gap-1 rounded-lg border border-slate-700/60 text-[11px] text-slate-300 hover:text-slate-100 hover:border-slate-600/80 transition disabled:opacity-40"
+            title="Duplicate cover letter"
+          >
+            <Copy className="w-3.5 h-3.5" />
+            Duplicate
+          </button>
+          <button
+            onClick={() => {
+              setShowReuse(!showReuse)
+              setShowHistory(false)
+            }}
+            disabled={busy || !jobRole.trim()}
+            className={cn(
+              'h-7 px-2 inline-flex items-center gap-1 rounded-lg border text-[11px] transition disabled:opacity-40',
+              showReuse
+                ? 'border-violet-500/60 text-violet-200 bg-violet-500/10'
+                : 'border-slate-700/60 text-slate-300 hover:text-slate-100 hover:border-slate-600/80'
+            )}
+            title="Reuse a letter written for a similar job"
+          >
+            <Repeat className="w-3.5 h-3.5" />
+            Reuse
+          </button>
+          <button
+            onClick={() => {
+              setShowHistory(!showHistory)
+              setShowReuse(false)
+            }}
+            disabled={!activeCoverId}
+            className={cn(
+              'h-7 px-2 inline-flex items-center gap-1 rounded-lg border text-[11px] transition disabled:opacity-40',
+              showHistory
+                ? 'border-violet-500/60 text-violet-200 bg-violet-500/10'
+                : 'border-slate-700/60 text-slate-300 hover:text-slate-100 hover:border-slate-600/80'
+            )}
+            title="Version history"
+          >
+            <History className="w-3.5 h-3.5" />
+            History
+          </button>
+          <button
+            onClick={() => setConfirmDeleteOpen(true)}
+            disabled={busy || !activeCoverId}
+            className="h-7 px-2 inline-flex items-center gap-1 rounded-lg border border-red-500/40 text-[11px] text-red-300 hover:bg-red-500/10 transition disabled:opacity-40"
+            title="Delete cover letter"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Letters from similar jobs */}
+      {showReuse && (
+        <div className="mt-3 border-t border-slate-700/60 pt-2">
+          {loadingList ? (
+            <div className="flex items-center gap-2 text-xs text-slate-400">
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              Loading cover letters…
+            </div>
+          ) : similarCovers.length === 0 ? (
+            <div className="text-xs text-slate-400">No letters for similar jobs yet.</div>
+          ) : (
+            <ul className="max-h-40 overflow-y-auto space-y-1">
+              {similarCovers.map((cover) => (
+                <li key={cover.id} className="flex items-center justify-between gap-2 rounded-lg px-2 py-1 hover:bg-slate-800/40">
+                  <span className="text-[11px] text-slate-300 truncate">
+                    {cover.title}
+                    <span className="ml-1.5 text-[10px] text-slate-500">{formatTimestamp(cover.updatedAt)}</span>
+                  </span>
+                  <button
+                    onClick={() => handleReuse(cover)}
+                    disabled={busy}
+                    className="rounded-full border border-violet-500/60 text-violet-200 bg-violet-500/10 hover:bg-violet-500/20 px-2 py-0.5 text-[10px] font-semibold transition disabled:opacity-40"
+                  >
+                    Use for this job
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {/* Version history */}
+      {showHistory && activeCoverId && (
+        <div className="mt-3 border-t border-slate-700/60 pt-2">
+          {loadingVersions ? (
+            <div className="flex items-center gap-2 text-xs text-slate-400">
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              Loading history…
+            </div>
+          ) : versions.length === 0 ? (
+            <div className="text-xs text-slate-400">No saved versions yet. Each save adds one.</div>
+          ) : (
+            <ul className="max-h-40 overflow-y-auto space-y-1">
+              {versions.map((version, idx) => (
+                <li key={version.id} className="flex items-center justify-between gap-2 rounded-lg px-2 py-1 hover:bg-slate-800/40">
+                  <span className="text-[11px] text-slate-300">
+                    {formatTimestamp(version.createdAt)}
+                    {idx === 0 && <span className="ml-1.5 text-[10px] text-green-400">latest</span>}
+                  </span>
+                  <button
+                    onClick={() => onRestoreVersion(version)}
+                    className="rounded-full border border-violet-500/60 text-violet-200 bg-violet-500/10 hover:bg-violet-500/20 px-2 py-0.5 text-[10px] font-semibold transition"
+                  >
+                    Restore
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <ConfirmModal
+        isOpen={confirmDeleteOpen}
+        title="Delete this cover letter?"
+        message={`"${activeTitle}" and its version history will be permanently deleted.`}
+        onConfirm={handleDelete}
+        onCancel={() => setConfirmDeleteOpen(false)}
+        variant="danger"
+        confirmText="Delete"
+      />
+    </div>
+  )
+}
@@ -0,0 +1,86 @@
+'use client'
+
+import { CheckCircle2, XCircle } from 'lucide-react'
+import { KEYWORD_CATEGORY_LABELS } from '@/lib/keyword-coverage'
+import type { CoverExperienceHighlight, CoverRequirementEvidence } from '@/lib/cover-evidence'
+
+interface RequirementEvidenceTableProps {
+  requirements: CoverRequirementEvidence[]
+  experiences: CoverExperienceHighlight[]
+}
+
+/**
+ * What the job ad asks for next to the CV lines that back it up, so the user
+ * can check the generated letter only claims what their CV shows
+ */
+export default function RequirementEvidenceTable({ requirements, experiences }: RequirementEvidenceTableProps) {
+  const evidencedCount = requirements.filter((req) => req.evidence.length > 0).length
+
+  return (
+    <div className="rounded-xl border border-slate-700/60 bg-slate-900/40 p-3 space-y-3">
+      <div>
+        <div className="text-xs md:text-sm font-semibold text-slate-200">Requirement → evidence from your CV</div>
+        <p className="text-[10px] md:text-xs text-slate-400">
+          {requirements.length === 0
+            ? 'No specific requirements found in the job ad.'
+            : `${evidencedCount} of ${requirements.length} requirements are backed by your CV. Anything without evidence was left out of the letter.`}
+        </p>
+      </div>
+
+      {experiences.length > 0 && (
+        <div className="text-[10px] md:text-xs text-slate-400">
+          Written around:{' '}
+          <span className="text-slate-200">
+            {experiences.map((exp) => [exp.jobTitle, exp.company].filter(Boolean).join(' at ')).join('; ')}
+          </span>
+        </div>
+      )}
+
+      {requirements.length > 0 && (
+        <div className="max-h-64 overflow-y-auto">
+          <table className="w-full text-left text-[11px] md:text-xs">
+            <thead>
+              <tr className="text-slate-400 border-b border-slate-700/60">
+                <th className="py-1.5 pr-2 font-medium">Requirement</th>
+                <th className="py-1.5 font-medium">Evidence</th>
+              </tr>
+            </thead>
+            <tbody>
+              {requirements.map((req) => (
+                <tr key={req.requirement} className="border-b border-slate-800/60 align-top">
+                  <td className="py-1.5 pr-2">
+                    <div className="flex items-start gap-1.5">
+                      {req.evidence.length > 0 ? (
+                        <CheckCircle2 className="w-3.5 h-3.5 text-green-400 shrink-0 mt-0.5" />
+                      ) : (
+                        <XCircle className="w-3.5 h-3.5 text-amber-400 shrink-0 mt-0.5" />
+                      )}
+                      <div>
+                        <div className="text-slate-100">{req.requirement}</div>
+                        <div className="text-[10px] text-slate-500">{KEYWORD_CATEGORY_LABELS[req.category]}</div>
+                      </div>
+                    </div>
+                  </td>
+                  <td className="py-1.5">
+                    {req.evidence.length === 0 ? (
+                      <span className="text-amber-300">Not on your CV</span>
+                    ) : (
+                      <ul className="space-y-1">
+                        {req.evidence.map((item) => (
+                          <li key={item.path} className="text-slate-300">
+                            “{item.text}”
+                            <span className="ml-1 text-[10px] text-slate-500">{item.path}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
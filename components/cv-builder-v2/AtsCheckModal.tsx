@@ -0,0 +1,292 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { X, Loader2, ScanText, CheckCircle2, AlertTriangle, XCircle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { CvData, CvTemplateId } from '@/lib/cv-schema'
+import type { CvCustomizationOptions } from '@/components/cv-builder-v2/CvCustomizationPanel'
+import type { AtsCheckReport } from '@/lib/ats-check'
+
+type AtsCheckFormat = 'pdf' | 'docx'
+
+interface AtsCheckModalProps {
+  isOpen: boolean
+  cvData: CvData
+  template: CvTemplateId
+  options: CvCustomizationOptions
+  onClose: () => void
+  /** Open the builder tab for a CvData field path */
+  onJumpToField: (fieldPath: string) => void
+}
+
+const CONTACT_LABELS: Record<keyof CvData['personalInfo'], string> = {
+  fullName: 'Name',
+  email: 'Email',
+  phone: 'Phone',
+  location: 'Location',
+  linkedin: 'LinkedIn',
+  website: 'Website',
+}
+
+// "experience[1].bullets[2]" -> "Experience 2 · bullet 3"
+function describeField(fieldPath: string): string {
+  if (fieldPath.startsWith('personalInfo.')) {
+    return CONTACT_LABELS[fieldPath.replace('personalInfo.', '') as keyof CvData['personalInfo']] || 'Personal info'
+  }
+  // "customSections[0].items[1].title" -> "Other section 1 · entry 2 · title"
+  const custom = fieldPath.match(/^customSections\[(\d+)\](?:\.items\[(\d+)\]\.(\w+)|\.(heading))?$/)
+  if (custom) {
+    const [, index, itemIndex, field, heading] = custom
+    const parts = [`Other section ${Number(index) + 1}`]
+    if (itemIndex != null) parts.push(`entry ${Number(itemIndex) + 1}`, field)
+    else if (heading) parts.push('heading')
+    return parts.join(' · ')
+  }
+  const match = fieldPath.match(/^(\w+)(?:\[(\d+)\])?(?:\.(\w+)(?:\[(\d+)\])?)?$/)
+  if (!match) return fieldPath
+  const [, section, index, field, subIndex] = match
+  const sectionLabel = section.charAt(0).toUpperCase() + section.slice(1)
+  const parts = [index != null ? `${sectionLabel} ${Number(index) + 1}` : sectionLabel]
+  if (field === 'bullets' && subIndex != null) parts.push(`bullet ${Number(subIndex) + 1}`)
+  else if (field === 'startDate') parts.push('start date')
+  else if (field === 'endDate') parts.push('end date')
+  else if (field === 'jobTitle') parts.push('job title')
+  else if (field) parts.push(field)
+  return parts.join(' · ')
+}
+
+/**
+ * Exports the CV as PDF or DOCX on the server, reads the text back out and
+ * shows what an applicant tracking system would see (/api/cv/ats-check).
+ */
+export default function AtsCheckModal({ isOpen, cvData, template, options, onClose, onJumpToField }: AtsCheckModalProps) {
+  const [format, setFormat] = useState<AtsCheckFormat>('pdf')
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [report, setReport] = useState<AtsCheckReport | null>(null)
+  const [showText, setShowText] = useState(false)
+
+  const runCheck = useCallback(async (checkFormat: AtsCheckFormat) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/cv/ats-check', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ cvData, template, options, format: checkFormat }),
+      })
+      const data = await response.json()
+      if (!response.ok || !data.ok) {
+        setError(data.error || 'Failed to run ATS check')
+        return
+      }
+      setReport(data.report)
+    } catch (err) {
+      console.error('[ATS Check] Request failed:', err)
+      setError('Failed to run ATS check. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }, [cvData, template, options])
+
+  // Run when opened or when the format changes; the CV itself is read at that moment
+  useEffect(() => {
+    if (isOpen) runCheck(format)
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, format])
+
+  useEffect(() => {
+    if (!isOpen) {
+      setReport(null)
+      setError(null)
+      setShowText(false)
+    }
+  }, [isOpen])
+
+  useEffect(() => {
+    if (!isOpen) return
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose()
+    }
+    window.addEventListener('keydown', handleEscape)
+    return () => window.removeEventListener('keydown', handleEscape)
+  }, [isOpen, onClose])
+
+  if (!isOpen) return null
+
+  const errors = report?.issues.filter((issue) => issue.severity === 'error') ?? []
+  const warnings = report?.issues.filter((issue) => issue.severity === 'warning') ?? []
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      onClick={onClose}
+    >
+      <div
+        className="w-full max-w-2xl max-h-[90vh] flex flex-col rounded-2xl border border-slate-700/60 bg-slate-950/95 shadow-[0_18px_40px_rgba(15,23,42,0.9)] backdrop-blur overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-5 border-b border-slate-700/60">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-lg font-semibold text-slate-100 flex items-center gap-2">
+              <ScanText className="w-5 h-5 text-sky-400" />
+              ATS check
+            </h3>
+            <button
+              onClick={onClose}
+              className="p-1.5 text-slate-400 hover:text-slate-200 hover:bg-slate-800/50 rounded-lg transition"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs text-slate-400">
+              We export your CV, read the text back out like an applicant tracking system and compare it with what you wrote.
+            </p>
+            <div className="flex rounded-lg border border-slate-700/60 overflow-hidden flex-shrink-0">
+              {(['pdf', 'docx'] as const).map((option) => (
+                <button
+                  key={option}
+                  onClick={() => setFormat(option)}
+                  disabled={loading}
+                  className={cn(
+                    'px-3 py-1 text-xs font-medium transition disabled:cursor-not-allowed',
+                    format === option ? 'bg-sky-600/80 text-white' : 'text-slate-300 hover:bg-slate-800/60'
+                  )}
+                >
+                  {option.toUpperCase()}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Content */}
+        <div className="p-5 space-y-4 overflow-y-auto">
+          {loading && (
+            <div className="flex items-center gap-2 text-xs text-slate-300">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Exporting and reading back your CV…
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
+              <p className="text-xs text-red-400">{error}</p>
+            </div>
+          )}
+
+          {!loading && report && (
+            <>
+              {/* Score */}
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-slate-400">ATS readability</span>
+                <span
+                  className={cn(
+                    'text-sm font-semibold',
+                    report.score >= 85 ? 'text-green-400' : report.score >= 60 ? 'text-yellow-400' : 'text-red-400'
+                  )}
+                >
+                  {report.score}/100
+                </span>
+              </div>
+
+              {/* Sections */}
+              <div>
+                <div className="text-xs text-slate-400 mb-1.5">Section headings</div>
+                <div className="flex flex-wrap gap-1.5">
+                  {report.sections.map((section) => (
+                    <span
+                      key={section.section}
+                      className={cn(
+                        'inline-flex items-center gap-1 px-2 py-0.5 rounded text-[11px] border',
+                        section.detected
+                          ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-300'
+                          : 'bg-red-500/10 border-red-500/30 text-red-300'
+                      )}
+                    >
+                      {section.detected ? <CheckCircle2 className="w-3 h-3" /> : <XCircle className="w-3 h-3" />}
+                      {section.heading}
+                    </span>
+                  ))}
+                </div>
+              </div>
+
+              {/* Contact */}
+              {report.contact.length > 0 && (
+                <div>
+                  <div className="text-xs text-slate-400 mb-1.5">Contact details as read</div>
+                  <div className="space-y-1">
+                    {report.contact.map((item) => (
+                      <div key={item.field} className="flex items-center gap-2 text-xs">
+                        <span className="text-slate-400 w-20 flex-shrink-0">{CONTACT_LABELS[item.field]}</span>
+                        <span className={cn('truncate flex-1', item.ok ? 'text-slate-200' : 'text-red-300')}>
+                          {item.extracted || 'Not found'}
+                        </span>
+                        {item.ok ? (
+                          <CheckCircle2 className="w-3.5 h-3.5 text-emerald-400 flex-shrink-0" />
+                        ) : (
+                          <XCircle className="w-3.5 h-3.5 text-red-400 flex-shrink-0" />
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Issues */}
+              <div>
+                <div className="text-xs text-slate-400 mb-1.5">
+                  {report.issues.length === 0
+                    ? 'No problems found. An ATS reads this CV as written.'
+                    : `${errors.length} problem${errors.length === 1 ? '' : 's'}, ${warnings.length} warning${warnings.length === 1 ? '' : 's'}`}
+                </div>
+                <div className="space-y-1.5">
+                  {[...errors, ...warnings].map((issue, index) => (
+                    <button
+                      key={`${issue.field}-${index}`}
+                      onClick={() => onJumpToField(issue.field)}
+                      className={cn(
+                        'w-full text-left rounded-lg border p-2.5 transition hover:bg-slate-900/60',
+                        issue.severity === 'error' ? 'border-red-500/30 bg-red-500/5' : 'border-amber-500/30 bg-amber-500/5'
+                      )}
+                    >
+                      <div className="flex items-start gap-2">
+                        {issue.severity === 'error' ? (
+                          <XCircle className="w-3.5 h-3.5 text-red-400 flex-shrink-0 mt-0.5" />
+                        ) : (
+                          <AlertTriangle className="w-3.5 h-3.5 text-amber-400 flex-shrink-0 mt-0.5" />
+                        )}
+                        <div className="min-w-0">
+                          <div className="text-[11px] font-semibold text-slate-300">{describeField(issue.field)}</div>
+                          <div className="text-xs text-slate-200">{issue.message}</div>
+                          {issue.excerpt && <div className="text-[11px] text-slate-500 truncate">“{issue.excerpt}”</div>}
+                        </div>
+                      </div>
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              {/* Extracted text */}
+              <div>
+                <button
+                  onClick={() => setShowText((prev) => !prev)}
+                  className="text-xs text-sky-300 hover:text-sky-200 transition"
+                >
+                  {showText ? 'Hide' : 'Show'} the text an ATS sees
+                </button>
+                {showText && (
+                  <pre className="mt-2 max-h-64 overflow-auto whitespace-pre-wrap rounded-lg border border-slate-700/60 bg-slate-900/60 p-3 text-[11px] text-slate-300">
+                    {report.extractedText}
+                  </pre>
+                )}
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,352 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { X, Upload, Loader2, AlertTriangle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { CvData } from '@/lib/cv-schema'
+
+type ImportSection = 'personalInfo' | 'summary' | 'experience' | 'education' | 'skills' | 'languages' | 'certifications'
+
+const SECTION_LABELS: Record<ImportSection, string> = {
+  personalInfo: 'Personal info',
+  summary: 'Summary',
+  experience: 'Experience',
+  education: 'Education',
+  skills: 'Skills',
+  languages: 'Languages',
+  certifications: 'Certifications',
+}
+
+const PERSONAL_INFO_LABELS: Record<keyof CvData['personalInfo'], string> = {
+  fullName: 'Name',
+  email: 'Email',
+  phone: 'Phone',
+  location: 'Location',
+  linkedin: 'LinkedIn',
+  website: 'Website',
+}
+
+interface CvImportModalProps {
+  isOpen: boolean
+  currentCv: CvData
+  onClose: () => void
+  onApply: (cv: CvData) => void
+}
+
+interface ImportResult {
+  cv: CvData
+  confidence: Record<string, number>
+  warnings: string[]
+}
+
+function hasContent(cv: CvData, section: ImportSection): boolean {
+  switch (section) {
+    case 'personalInfo':
+      return Object.values(cv.personalInfo).some((value) => Boolean(value && value.trim()))
+    case 'summary':
+      return Boolean(cv.summary.trim())
+    case 'experience':
+      return cv.experience.some((exp) => exp.jobTitle || exp.company)
+    case 'education':
+      return cv.education.some((edu) => edu.degree || edu.school)
+    default:
+      return (cv[section] || []).length > 0
+  }
+}
+
+function ConfidenceBadge({ score }: { score?: number }) {
+  if (score === undefined) return null
+  const level = score >= 0.8 ? 'High' : score >= 0.6 ? 'Medium' : 'Low'
+  return (
+    <span
+      className={cn(
+        'px-1.5 py-0.5 rounded text-[10px] font-medium border flex-shrink-0',
+        level === 'High' && 'bg-emerald-500/10 border-emerald-500/30 text-emerald-300',
+        level === 'Medium' && 'bg-amber-500/10 border-amber-500/30 text-amber-300',
+        level === 'Low' && 'bg-red-500/10 border-red-500/30 text-red-300'
+      )}
+      title={`${Math.round(score * 100)}% confidence`}
+    >
+      {level}
+    </span>
+  )
+}
+
+/**
+ * Upload a PDF/DOCX/TXT CV, review what /api/cv/import read (with per-field
+ * confidence) and choose which sections replace the current draft.
+ */
+export default function CvImportModal({ isOpen, currentCv, onClose, onApply }: CvImportModalProps) {
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [result, setResult] = useState<ImportResult | null>(null)
+  const [selected, setSelected] = useState<Set<ImportSection>>(new Set())
+
+  useEffect(() => {
+    if (!isOpen) {
+      setLoading(false)
+      setError(null)
+      setResult(null)
+      setSelected(new Set())
+    }
+  }, [isOpen])
+
+  useEffect(() => {
+    if (!isOpen) return
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && !loading) onClose()
+    }
+    window.addEventListener('keydown', handleEscape)
+    return () => window.removeEventListener('keydown', handleEscape)
+  }, [isOpen, loading, onClose])
+
+  if (!isOpen) return null
+
+  const handleFile = async (file: File) => {
+    setLoading(true)
+    setError(null)
+    try {
+      const formData = new FormData()
+      formData.append('file', file)
+      const response = await fetch('/api/cv/import', { method: 'POST', body: formData })
+      const data = await response.json()
+      if (!response.ok || !data.ok) {
+        setError(data.error || 'Failed to import CV')
+        return
+      }
+      const imported: ImportResult = { cv: data.cv, confidence: data.confidence || {}, warnings: data.warnings || [] }
+      setResult(imported)
+      setSelected(new Set((Object.keys(SECTION_LABELS) as ImportSection[]).filter((section) => hasContent(imported.cv, section))))
+    } catch (err) {
+      console.error('[CV Import] Upload failed:', err)
+      setError('Failed to import CV. Please try again.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const toggleSection = (section: ImportSection) => {
+    setSelected((prev) => {
+      const next = new Set(prev)
+      if (next.has(section)) next.delete(section)
+      else next.add(section)
+      return next
+    })
+  }
+
+  const handleApply = () => {
+    if (!result) return
+    const merged: CvData = { ...currentCv }
+    selected.forEach((section) => {
+      ;(merged as any)[section] = result.cv[section]
+    })
+    onApply(merged)
+  }
+
+  const renderSection = (section: ImportSection) => {
+    if (!result) return null
+    const { cv, confidence } = result
+
+    switch (section) {
+      case 'personalInfo':
+        return (
+          <div className="space-y-1">
+            {(Object.keys(PERSONAL_INFO_LABELS) as Array<keyof CvData['personalInfo']>)
+              .filter((field) => cv.personalInfo[field])
+              .map((field) => (
+                <div key={field} className="flex items-center justify-between gap-2 text-xs">
+                  <span className="text-slate-400 w-20 flex-shrink-0">{PERSONAL_INFO_LABELS[field]}</span>
+                  <span className="text-slate-200 truncate flex-1">{cv.personalInfo[field]}</span>
+                  <ConfidenceBadge score={confidence[`personalInfo.${field}`]} />
+                </div>
+              ))}
+          </div>
+        )
+      case 'summary':
+        return (
+          <div className="flex items-start justify-between gap-2">
+            <p className="text-xs text-slate-300 line-clamp-3">{cv.summary}</p>
+            <ConfidenceBadge score={confidence.summary} />
+          </div>
+        )
+      case 'experience':
+        return (
+          <div className="space-y-2">
+            {cv.experience.map((exp, index) => (
+              <div key={exp.id} className="flex items-start justify-between gap-2 text-xs">
+                <div className="min-w-0">
+                  <div className="text-slate-200 font-medium">
+                    {exp.jobTitle || <span className="text-red-300">Missing job title</span>}
+                    {exp.company && <span className="text-slate-400 font-normal"> · {exp.company}</span>}
+                  </div>
+                  <div className="text-slate-500">
+                    {[exp.startDate, exp.isCurrent ? 'Present' : exp.endDate].filter(Boolean).join(' – ') || 'No dates found'}
+                    {' · '}
+                    {exp.bullets.filter((bullet) => bullet.trim()).length} bullets
+                  </div>
+                </div>
+                <ConfidenceBadge score={confidence[`experience[${index}]`]} />
+              </div>
+            ))}
+          </div>
+        )
+      case 'education':
+        return (
+          <div className="space-y-1.5">
+            {cv.education.map((edu, index) => (
+              <div key={index} className="flex items-start justify-between gap-2 text-xs">
+                <div className="text-slate-200">
+                  {edu.degree || <span className="text-red-300">Missing qualification</span>}
+                  {edu.school && <span className="text-slate-400"> · {edu.school}</span>}
+                  {edu.year && <span className="text-slate-500"> ({edu.year})</span>}
+                </div>
+                <ConfidenceBadge score={confidence[`education[${index}]`]} />
+              </div>
+            ))}
+          </div>
+        )
+      default: {
+        const items = cv[section] || []
+        return (
+          <div className="flex items-start justify-between gap-2">
+            <p className="text-xs text-slate-300">{items.join(', ')}</p>
+            <ConfidenceBadge score={confidence[section]} />
+          </div>
+        )
+      }
+    }
+  }
+
+  const importedSections = result
+    ? (Object.keys(SECTION_LABELS) as ImportSection[]).filter((section) => hasContent(result.cv, section))
+    : []
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/60 backdrop-blur-sm"
+      onClick={() => !loading && onClose()}
+    >
+      <div
+        className="w-full max-w-2xl max-h-[90vh] flex flex-col rounded-2xl border border-slate-700/60 bg-slate-950/95 shadow-[0_18px_40px_rgba(15,23,42,0.9)] backdrop-blur overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="p-5 border-b border-slate-700/60">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="text-lg font-semibold text-slate-100 flex items-center gap-2">
+              <Upload className="w-5 h-5 text-violet-400" />
+              Import an existing CV
+            </h3>
+            <button
+              onClick={onClose}
+              disabled={loading}
+              className="p-1.5 text-slate-400 hover:text-slate-200 hover:bg-slate-800/50 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <p className="text-xs text-slate-400">
+            {result
+              ? 'Check what we found. Ticked sections replace the same sections in your current draft.'
+              : 'Upload a PDF, Word (.docx) or text file and we\'ll fill in the builder for you.'}
+          </p>
+        </div>
+
+        {/* Content */}
+        <div className="p-5 space-y-3 overflow-y-auto">
+          {!result && (
+            <label
+              className={cn(
+                'flex flex-col items-center justify-center gap-2 p-8 rounded-xl border-2 border-dashed border-slate-700 hover:border-violet-500/60 transition cursor-pointer',
+                loading && 'opacity-60 cursor-wait'
+              )}
+            >
+              {loading ? (
+                <Loader2 className="w-6 h-6 text-violet-400 animate-spin" />
+              ) : (
+                <Upload className="w-6 h-6 text-slate-400" />
+              )}
+              <span className="text-sm text-slate-200">{loading ? 'Reading your CV...' : 'Choose a file'}</span>
+              <span className="text-xs text-slate-500">.pdf, .docx or .txt, up to 5MB</span>
+              <input
+                type="file"
+                accept=".pdf,.docx,.txt"
+                className="hidden"
+                disabled={loading}
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  if (file) handleFile(file)
+                  e.target.value = ''
+                }}
+              />
+            </label>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
+              <p className="text-xs text-red-400">{error}</p>
+            </div>
+          )}
+
+          {result && result.warnings.length > 0 && (
+            <div className="p-3 bg-amber-500/10 border border-amber-500/30 rounded-lg space-y-1">
+              {result.warnings.map((warning, index) => (
+                <p key={index} className="text-xs text-amber-300 flex items-start gap-1.5">
+                  <AlertTriangle className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" />
+                  {warning}
+                </p>
+              ))}
+            </div>
+          )}
+
+          {result && importedSections.length === 0 && (
+            <p className="text-xs text-slate-400">We couldn&apos;t find any CV sections in this file.</p>
+          )}
+
+          {importedSections.map((section) => (
+            <div
+              key={section}
+              className={cn(
+                'rounded-lg border p-3 transition',
+                selected.has(section) ? 'border-violet-500/40 bg-slate-900/60' : 'border-slate-700/40 bg-slate-950/30 opacity-70'
+              )}
+            >
+              <label className="flex items-center gap-2 mb-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.has(section)}
+                  onChange={() => toggleSection(section)}
+                  className="w-4 h-4 rounded text-violet-600 bg-slate-800 border-slate-600 focus:ring-violet-500"
+                />
+                <span className="text-xs font-semibold text-slate-200">{SECTION_LABELS[section]}</span>
+              </label>
+              {renderSection(section)}
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        {result && (
+          <div className="p-5 border-t border-slate-700/60 flex items-center justify-end gap-2">
+            <button
+              onClick={() => {
+                setResult(null)
+                setError(null)
+              }}
+              className="px-4 py-2 text-xs font-medium text-slate-300 hover:text-slate-100 border border-slate-600/70 rounded-lg transition"
+            >
+              Choose another file
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={selected.size === 0}
+              className="px-4 py-2 text-xs font-medium text-white bg-violet-600 hover:bg-violet-500 rounded-lg transition disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Replace current draft
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,383 @@
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { ChevronDown, Copy, History, Loader2, Pencil, Plus, Trash2, Check, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { ConfirmModal } from '@/components/ConfirmModal'
+import type { CvLibraryItem, CvVersion } from '@/lib/cv-library'
+
+interface CvLibraryPickerProps {
+  activeCvId: string | null
+  activeTitle: string
+  refreshKey?: number
+  onSelect: (cv: CvLibraryItem | null) => void
+  onRename: (title: string) => void
+  onRestoreVersion: (version: CvVersion) => void
+  onToast: (type: 'success' | 'error', message: string) => void
+}
+
+function formatTimestamp(iso: string): string {
+  try {
+    return new Date(iso).toLocaleString('en-GB', {
+      day: 'numeric',
+      month: 'short',
+      year: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    })
+  } catch {
+    return iso
+  }
+}
+
+export default function CvLibraryPicker({
+  activeCvId,
+  activeTitle,
+  refreshKey = 0,
+  onSelect,
+  onRename,
+  onRestoreVersion,
+  onToast,
+}: CvLibraryPickerProps) {
+  const [cvs, setCvs] = useState<CvLibraryItem[]>([])
+  const [loadingList, setLoadingList] = useState(false)
+  const [busy, setBusy] = useState(false)
+  const [isOpen, setIsOpen] = useState(false)
+  const [isRenaming, setIsRenaming] = useState(false)
+  const [renameValue, setRenameValue] = useState('')
+  const [showHistory, setShowHistory] = useState(false)
+  const [versions, setVersions] = useState<CvVersion[]>([])
+  const [loadingVersions, setLoadingVersions] = useState(false)
+  const [confirmDeleteOpen, setConfirmDeleteOpen] = useState(false)
+
+  const fetchCvs = useCallback(async () => {
+    setLoadingList(true)
+    try {
+      const response = await fetch('/api/cv/list', { cache: 'no-store' })
+      // Not signed in: the library is simply unavailable
+      if (response.status === 401) {
+        setCvs([])
+        return
+      }
+      const data = await response.json()
+      if (data.ok && Array.isArray(data.cvs)) {
+        setCvs(data.cvs)
+      }
+    } catch (error) {
+      console.error('Error loading CV library:', error)
+    } finally {
+      setLoadingList(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchCvs()
+  }, [fetchCvs, refreshKey])
+
+  const fetchVersions = useCallback(async () => {
+    if (!activeCvId) {
+      setVersions([])
+      return
+    }
+    setLoadingVersions(true)
+    try {
+      const response = await fetch(`/api/cv/${activeCvId}/versions`, { cache: 'no-store' })
+      const data = await response.json()
+      setVersions(data.ok && Array.isArray(data.versions) ? data.versions : [])
+    } catch (error) {
+      console.error('Error loading CV versions:', error)
+      setVersions([])
+    } finally {
+      setLoadingVersions(false)
+    }
+  }, [activeCvId])
+
+  useEffect(() => {
+    if (showHistory) {
+      fetchVersions()
+    }
+  }, [showHistory, fetchVersions, refreshKey])
+
+  const handleCreate = async () => {
+    setBusy(true)
+    try {
+      const response = await fetch('/api/cv/create', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title: `CV ${cvs.length + 1}` }),
+      })
+      const data = await response.json()
+      if (!response.ok || !data.ok) {
+        throw new Error(data.error || 'Failed to create CV')
+      }
+      await fetchCvs()
+      setIsOpen(false)
+      onSelect(data.cv)
+      onToast('success', 'New CV created.')
+    } catch (error) {
+      onToast('error', error instanceof Error ? error.message : 'Failed to create CV')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDuplicate = async () => {
+    if (!activeCvId) {
+      onToast('error', 'Save this CV first, then duplicate it.')
+      return
+    }
+    setBusy(true)
+    try {
+      const response = await fetch(`/api/cv/${activeCvId}/duplicate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      })
+      const data = await response.json()
+      if (!response.ok || !data.ok) {
+        throw new Error(data.error || 'Failed to duplicate CV')
+      }
+      await fetchCvs()
+      onSelect(data.cv)
+      onToast('success', `Duplicated as "${data.cv.title}".`)
+    } catch (error) {
+      onToast('error', error instanceof Error ? error.message : 'Failed to duplicate CV')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleRename = async () => {
+    const title = renameValue.trim()
+    if (!title) return
+    // Unsaved CVs are only renamed locally; the title is sent on first save
+    if (!activeCvId) {
+      onRename(title)
+      setIsRenaming(false)
+      return
+    }
+    setBusy(true)
+    try {
+      const response = await fetch(`/api/cv/${activeCvId}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title }),
+      })
+      const data = await response.json()
+      if (!response.ok || !data.ok) {
+        throw new Error(data.error || 'Failed to rename CV')
+      }
+      onRename(data.cv.title)
+      setIsRenaming(false)
+      await fetchCvs()
+    } catch (error) {
+      onToast('error', error instanceof Error ? error.message : 'Failed to rename CV')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleDelete = async () => {
+    setConfirmDeleteOpen(false)
+    if (!activeCvId) return
+    setBusy(true)
+    try {
+      const response = await fetch(`/api/cv/${activeCvId}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!response.ok || !data.ok) {
+        throw new Error(data.error || 'Failed to delete CV')
+      }
+      const remaining = cvs.filter((cv) => cv.id !== activeCvId)
+      setCvs(remaining)
+      setShowHistory(false)
+      onSelect(remaining[0] || null)
+      onToast('success', 'CV deleted.')
+    } catch (error) {
+      onToast('error', error instanceof Error ? error.message : 'Failed to delete CV')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="rounded-2xl border border-slate-700/60 bg-slate-950/70 shadow-[0_18px_40px_rgba(15,23,42,0.9)] backdrop-blur px-4 py-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-xs text-slate-400 font-medium shrink-0">My CVs</span>
+
+        {/* Current CV / switcher */}
+        {isRenaming ? (
+          <div className="flex items-center gap-1.5">
+            <input
+              value={renameValue}
+              onChange={(e) => setRenameValue(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleRename()
+                if (e.key === 'Escape') setIsRenaming(false)
+              }}
+              autoFocus
+              maxLength={120}
+              className="h-7 rounded-lg border border-violet-500/60 bg-slate-900/80 px-2 text-xs text-slate-100 focus:outline-none focus:ring-1 focus:ring-violet-500"
+            />
+            <button
+              onClick={handleRename}
+              disabled={busy || !renameValue.trim()}
+              className="h-7 w-7 inline-flex items-center justify-center rounded-lg border border-violet-500/60 text-violet-200 hover:bg-violet-500/20 transition disabled:opacity-40"
+              title="Save name"
+            >
+              <Check className="w-3.5 h-3.5" />
+            </button>
+            <button
+              onClick={() => setIsRenaming(false)}
+              className="h-7 w-7 inline-flex items-center justify-center rounded-lg border border-slate-700/60 text-slate-300 hover:text-slate-100 transition"
+              title="Cancel"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ) : (
+          <div className="relative">
+            <button
+              onClick={() => setIsOpen(!isOpen)}
+              disabled={busy}
+              className="inline-flex items-center gap-1.5 h-7 px-3 text-xs font-semibold rounded-lg border border-violet-500/60 text-violet-200 bg-violet-500/10 hover:bg-violet-500/20 transition disabled:opacity-50"
+            >
+              <span className="max-w-[180px] truncate">{activeTitle}</span>
+              {!activeCvId && <span className="text-[10px] text-amber-300 font-normal">(unsaved)</span>}
+              <ChevronDown className="w-3.5 h-3.5" />
+            </button>
+            {isOpen && (
+              <div className="absolute left-0 top-9 z-50 w-64 rounded-xl border border-slate-700/60 bg-slate-950/95 backdrop-blur shadow-[0_18px_40px_rgba(15,23,42,0.9)] p-1.5">
+                {loadingList ? (
+                  <div className="flex items-center gap-2 px-2 py-2 text-xs text-slate-400">
+                    <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                    Loading CVs…
+                  </div>
+                ) : cvs.length === 0 ? (
+                  <div className="px-2 py-2 text-xs text-slate-400">No saved CVs yet.</div>
+                ) : (
+                  <div className="max-h-64 overflow-y-auto space-y-0.5">
+                    {cvs.map((cv) => (
+                      <button
+                        key={cv.id}
+                        onClick={() => {
+                          setIsOpen(false)
+                          if (cv.id !== activeCvId) onSelect(cv)
+                        }}
+                        className={cn(
+                          'w-full text-left rounded-lg px-2 py-1.5 transition',
+                          cv.id === activeCvId
+                            ? 'bg-violet-500/15 text-violet-200'
+                            : 'text-slate-300 hover:bg-slate-800/60 hover:text-slate-100'
+                        )}
+                      >
+                        <div className="text-xs font-medium truncate">{cv.title}</div>
+                        <div className="text-[10px] text-slate-500">Updated {formatTimestamp(cv.updatedAt)}</div>
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <button
+                  onClick={handleCreate}
+                  disabled={busy}
+                  className="mt-1 w-full flex items-center gap-1.5 rounded-lg px-2 py-1.5 text-xs font-medium text-violet-300 hover:bg-violet-500/10 transition border-t border-slate-800 disabled:opacity-50"
+                >
+                  <Plus className="w-3.5 h-3.5" />
+                  New CV
+                </button>
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Actions */}
+        <div className="flex items-center gap-1.5 ml-auto">
+          <button
+            onClick={() => {
+              setRenameValue(activeTitle)
+              setIsRenaming(true)
+              setIsOpen(false)
+            }}
+            disabled={busy || isRenaming}
+            className="h-7 px-2 inline-flex items-center gap-1 rounded-lg border border-slate-700/60 text-[11px] text-slate-300 hover:text-slate-100 hover:border-slate-600/80 transition disabled:opacity-40"
+            title="Rename CV"
+          >
+            <Pencil className="w-3.5 h-3.5" />
+            Rename
+          </button>
+          <button
+            onClick={handleDuplicate}
+            disabled={busy || !activeCvId}
+            className="h-7 px-2 inline-flex items-center gap-1 rounded-lg border border-slate-700/60 text-[11px] text-slate-300 hover:text-slate-100 hover:border-slate-600/80 transition disabled:opacity-40"
+            title="Duplicate CV"
+          >
+            <Copy className="w-3.5 h-3.5" />
+            Duplicate
+          </button>
+          <button
+            onClick={() => setShowHistory(!showHistory)}
+            disabled={!activeCvId}
+            className={cn(
+              'h-7 px-2 inline-flex items-center gap-1 rounded-lg border text-[11px] transition disabled:opacity-40',
+              showHistory
+                ? 'border-violet-500/60 text-violet-200 bg-violet-500/10'
+                : 'border-slate-700/60 text-slate-300 hover:text-slate-100 hover:border-slate-600/80'
+            )}
+            title="Version history"
+          >
+            <History className="w-3.5 h-3.5" />
+            History
+          </button>
+          <button
+            onClick={() => setConfirmDeleteOpen(true)}
+            disabled={busy || !activeCvId}
+            className="h-7 px-2 inline-flex items-center gap-1 rounded-lg border border-red-500/40 text-[11px] text-red-300 hover:bg-red-500/10 transition disabled:opacity-40"
+            title="Delete CV"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Version history */}
+      {showHistory && activeCvId && (
+        <div className="mt-3 border-t border-slate-700/60 pt-2">
+          {loadingVersions ? (
+            <div className="flex items-center gap-2 text-xs text-slate-400">
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              Loading history…
+            </div>
+          ) : versions.length === 0 ? (
+            <div className="text-xs text-slate-400">No saved versions yet. Each save adds one.</div>
+          ) : (
+            <ul className="max-h-40 overflow-y-auto space-y-1">
+              {versions.map((version, idx) => (
+                <li key={version.id} className="flex items-center justify-between gap-2 rounded-lg px-2 py-1 hover:bg-slate-800/40">
+                  <span className="text-[11px] text-slate-300">
+                    {formatTimestamp(version.createdAt)}
+                    {idx === 0 && <span className="ml-1.5 text-[10px] text-green-400">latest</span>}
+                  </span>
+                  <button
+                    onClick={() => onRestoreVersion(version)}
+                    className="rounded-full border border-violet-500/60 text-violet-200 bg-violet-500/10 hover:bg-violet-500/20 px-2 py-0.5 text-[10px] font-semibold transition"
+                  >
+                    Restore
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <ConfirmModal
+        isOpen={confirmDeleteOpen}
+        title="Delete this CV?"
+        message={`"${activeTitle}" and its version history will be permanently deleted.`}
+        onConfirm={handleDelete}
+        onCancel={() => setConfirmDeleteOpen(false)}
+        variant="danger"
+        confirmText="Delete"
+      />
+    </div>
+  )
+}
@@ -1,4 +1,7 @@
-import { CvData, CvTemplateId } from '@/app/cv-builder-v2/page'
+import { Fragment, type ReactNode } from 'react'
+import { CvData, CvSectionId, CvTemplateId } from '@/lib/cv-schema'
+import { visibleCustomSections } from '@/lib/cv-export'
+import { visibleSectionOrder } from '@/lib/cv-sections'
 
 interface CvPreviewProps {
   data: CvData
@@ -53,6 +56,40 @@ function formatSummary(summary: string): string[] {
   return [summary]
 }
 
+// Volunteering, awards, references and other custom sections, keyed by section id
+function customSectionBlocks(data: CvData, headingClassName: string): Partial<Record<CvSectionId, ReactNode>> {
+  const blocks: Partial<Record<CvSectionId, ReactNode>> = {}
+  visibleCustomSections(data).forEach((section) => {
+    blocks[section.key] = (
+      <section className="mb-4">
+        <h2 className={headingClassName}>{section.heading}</h2>
+        <div className="mt-2 space-y-2.5">
+          {section.note && <div className="leading-[1.5]">{section.note}</div>}
+          {section.items.map((item, idx) => (
+            <div key={item.id || idx} className="break-inside-avoid">
+              <div className="flex justify-between items-start">
+                <div className="flex-1">
+                  <span className="font-semibold text-[12px]">{item.title}</span>
+                  {item.subtitle && <span className="text-[12px]">, {item.subtitle}</span>}
+                </div>
+                {item.date && (
+                  <span className="text-[11px] text-[#4a4a4a] font-medium whitespace-nowrap ml-2">
+                    {item.date}
+                  </span>
+                )}
+              </div>
+              {item.description && (
+                <div className="text-[11px] text-[#666666] mt-0.5 leading-[1.5]">{item.description}</div>
+              )}
+            </div>
+          ))}
+        </div>
+      </section>
+    )
+  })
+  return blocks
+}
+
 // ATS Classic Template - Single column, clean, minimal - International Professional Standard
 function AtsClassicTemplate({ data }: { data: CvData }) {
   const summaryParagraphs = formatSummary(data.summary)
@@ -72,6 +109,184 @@ function AtsClassicTemplate({ data }: { data: CvData }) {
   if (data.personalInfo.location) contactItems.push(data.personalInfo.location)
   if (data.personalInfo.linkedin) contactItems.push(`LinkedIn: ${data.personalInfo.linkedin}`)
   if (data.personalInfo.website) contactItems.push(data.personalInfo.website)
+
+  // Every section in the CV's section order (ATS Classic order by default)
+  const sections: Partial<Record<CvSectionId, ReactNode>> = {
+    summary: summaryParagraphs.length > 0 && (
+      <section className="mb-4">
+        <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3">
+          Professional Summary
+        </h2>
+        <div className="space-y-1.5 mt-2">
+          {summaryParagraphs.map((para, idx) => (
+            <p key={idx} className="leading-[1.6] text-justify">{para}</p>
+          ))}
+        </div>
+      </section>
+    ),
+    experience: experience.length > 0 && (
+      <section className="mb-4">
+        <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3">
+          Professional Experience
+        </h2>
+        <div className="mt-2 space-y-3.5">
+          {experience.map((exp, idx) => (
+            <div key={idx} className="break-inside-avoid">
+              <div className="flex justify-between items-start mb-0.5">
+                <div className="flex-1">
+                  <span className="font-semibold text-[12px]">{exp.jobTitle}</span>
+                  {exp.company && <span className="text-[12px]">, {exp.company}</span>}
+                </div>
+                {(exp.startDate || exp.endDate) && (
+                  <span className="text-[11px] text-[#4a4a4a] font-medium whitespace-nowrap ml-2">
+                    {exp.startDate || ''} {exp.startDate && (exp.isCurrent ? '– Present' : exp.endDate ? `– ${exp.endDate}` : '')}
+                  </span>
+                )}
+              </div>
+              {exp.location && (
+                <div className="text-[11px] text-[#666666] italic mb-1.5">{exp.location}</div>
+              )}
+              {exp.bullets.filter((b) => b.trim()).length > 0 && (
+                <ul className="list-none ml-0 space-y-0.5">
+                  {exp.bullets.filter((b) => b.trim()).map((bullet, i) => (
+                    <li key={i} className="leading-[1.5] flex items-start">
+                      <span className="mr-1.5 text-[#2c2c2c] font-bold">•</span>
+                      <span className="flex-1">{bullet}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      </section>
+    ),
+    education: education.length > 0 && (
+      <section className="mb-4">
+        <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3">
+          Education
+        </h2>
+        <div className="mt-2 space-y-2.5">
+          {education.map((edu, idx) => (
+            <div key={idx} className="break-inside-avoid">
+              <div className="flex justify-between items-start">
+                <div className="flex-1">
+                  <span className="font-semibold text-[12px]">{edu.degree}</span>
+                  {edu.school && <span className="text-[12px]">, {edu.school}</span>}
+                </div>
+                {edu.year && (
+                  <span className="text-[11px] text-[#4a4a4a] font-medium whitespace-nowrap ml-2">
+                    {edu.year}
+                  </span>
+                )}
+              </div>
+              {edu.details && (
+                <div className="text-[11px] text-[#666666] mt-0.5 leading-[1.5]">{edu.details}</div>
+              )}
+            </div>
+          ))}
+        </div>
+      </section>
+    ),
+    skills: skills.length > 0 && (
+      <section className="mb-4">
+        <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3">
+          Core Competencies
+        </h2>
+        <div className="mt-2 leading-[1.6]">
+          {skills.join(' • ')}
+        </div>
+      </section>
+    ),
+    projects: data.projects && data.projects.length > 0 && (
+      <section className="mb-4">
+        <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3">
+          Key Projects
+        </h2>
+        <div className="mt-2 space-y-2.5">
+          {data.projects.map((project, idx) => (
+            <div key={idx} className="break-inside-avoid">
+              <div className="font-semibold text-[12px] mb-0.5">{project.name}</div>
+              <div className="text-[11px] leading-[1.5] text-[#4a4a4a]">{project.description}</div>
+              {project.url && (
+                <div className="text-[11px] text-[#0066cc] mt-0.5 break-all">{project.url}</div>
+              )}
+            </div>
+          ))}
+        </div>
+      </section>
+    ),
+    certifications: data.certifications && data.certifications.length > 0 && (
+      <section className="mb-4">
+        <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3">
+          Certifications
+        </h2>
+        <ul className="mt-2 space-y-0.5 list-none ml-0">
+          {data.certifications.map((cert, idx) => (
+            <li key={idx} className="leading-[1.5] flex items-start">
+              <span className="mr-1.5 text-[#2c2c2c] font-bold">•</span>
+              <span className="flex-1">{cert}</span>
+            </li>
+          ))}
+        </ul>
+      </section>
+    ),
+    languages: data.languages && data.languages.length > 0 && (
+      <section className="mb-4">
+        <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3">
+          Languages
+        </h2>
+        <div className="mt-2 leading-[1.6]">
+          {data.languages.join(' • ')}
+        </div>
+      </section>
+    ),
+    publications: data.publications && data.publications.length > 0 && (
+      <section className="mb-4">
+        <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3">
+          Publications
+        </h2>
+        <div className="mt-2 space-y-2.5">
+          {data.publications.map((pub, idx) => {
+            const parts: string[] = []
+              
+            // Title
+            parts.push(pub.title)
+              
+            // Authors (Year). Venue/Journal
+            const citationParts: string[] = []
+            if (pub.authors) citationParts.push(pub.authors)
+            if (pub.year) {
+              citationParts.push(`(${pub.year})`)
+            }
+            if (citationParts.length > 0) {
+              parts.push(citationParts.join(' '))
+            }
+            if (pub.venueOrJournal) {
+              parts.push(pub.venueOrJournal)
+            }
+            if (pub.doiOrUrl) {
+              parts.push(pub.doiOrUrl)
+            }
+              
+            return (
+              <div key={idx} className="break-inside-avoid">
+                <div className="text-[11.5px] leading-[1.5] text-[#1a1a1a]">
+                  {parts.join(' — ')}
+                </div>
+                {pub.notes && (
+                  <div className="text-[10.5px] leading-[1.4] text-[#4a4a4a] mt-1 italic">
+                    {pub.notes}
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      </section>
+    ),
+    ...customSectionBlocks(data, 'text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3'),
+  }
   
   return (
     <div className="cv-preview ats-classic text-[11.5px] leading-[1.5] text-[#1a1a1a] font-['Calibri','Arial',sans-serif]">
@@ -89,194 +304,7 @@ function AtsClassicTemplate({ data }: { data: CvData }) {
         )}
       </header>
 
-      {/* Professional Summary */}
-      {summaryParagraphs.length > 0 && (
-        <section className="mb-4">
-          <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3">
-            Professional Summary
-          </h2>
-          <div className="space-y-1.5 mt-2">
-            {summaryParagraphs.map((para, idx) => (
-              <p key={idx} className="leading-[1.6] text-justify">{para}</p>
-            ))}
-          </div>
-        </section>
-      )}
-
-      {/* Professional Experience */}
-      {experience.length > 0 && (
-        <section className="mb-4">
-          <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3">
-            Professional Experience
-          </h2>
-          <div className="mt-2 space-y-3.5">
-            {experience.map((exp, idx) => (
-              <div key={idx} className="break-inside-avoid">
-                <div className="flex justify-between items-start mb-0.5">
-                  <div className="flex-1">
-                    <span className="font-semibold text-[12px]">{exp.jobTitle}</span>
-                    {exp.company && <span className="text-[12px]">, {exp.company}</span>}
-                  </div>
-                  {(exp.startDate || exp.endDate) && (
-                    <span className="text-[11px] text-[#4a4a4a] font-medium whitespace-nowrap ml-2">
-                      {exp.startDate || ''} {exp.startDate && (exp.isCurrent ? '– Present' : exp.endDate ? `– ${exp.endDate}` : '')}
-                    </span>
-                  )}
-                </div>
-                {exp.location && (
-                  <div className="text-[11px] text-[#666666] italic mb-1.5">{exp.location}</div>
-                )}
-                {exp.bullets.filter((b) => b.trim()).length > 0 && (
-                  <ul className="list-none ml-0 space-y-0.5">
-                    {exp.bullets.filter((b) => b.trim()).map((bullet, i) => (
-                      <li key={i} className="leading-[1.5] flex items-start">
-                        <span className="mr-1.5 text-[#2c2c2c] font-bold">•</span>
-                        <span className="flex-1">{bullet}</span>
-                      </li>
-                    ))}
-                  </ul>
-                )}
-              </div>
-            ))}
-          </div>
-        </section>
-      )}
-
-      {/* Education */}
-      {education.length > 0 && (
-        <section className="mb-4">
-          <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3">
-            Education
-          </h2>
-          <div className="mt-2 space-y-2.5">
-            {education.map((edu, idx) => (
-              <div key={idx} className="break-inside-avoid">
-                <div className="flex justify-between items-start">
-                  <div className="flex-1">
-                    <span className="font-semibold text-[12px]">{edu.degree}</span>
-                    {edu.school && <span className="text-[12px]">, {edu.school}</span>}
-                  </div>
-                  {edu.year && (
-                    <span className="text-[11px] text-[#4a4a4a] font-medium whitespace-nowrap ml-2">
-                      {edu.year}
-                    </span>
-                  )}
-                </div>
-                {edu.details && (
-                  <div className="text-[11px] text-[#666666] mt-0.5 leading-[1.5]">{edu.details}</div>
-                )}
-              </div>
-            ))}
-          </div>
-        </section>
-      )}
-
-      {/* Skills */}
-      {skills.length > 0 && (
-        <section className="mb-4">
-          <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3">
-            Core Competencies
-          </h2>
-          <div className="mt-2 leading-[1.6]">
-            {skills.join(' • ')}
-          </div>
-        </section>
-      )}
-
-      {/* Projects */}
-      {data.projects && data.projects.length > 0 && (
-        <section className="mb-4">
-          <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3">
-            Key Projects
-          </h2>
-          <div className="mt-2 space-y-2.5">
-            {data.projects.map((project, idx) => (
-              <div key={idx} className="break-inside-avoid">
-                <div className="font-semibold text-[12px] mb-0.5">{project.name}</div>
-                <div className="text-[11px] leading-[1.5] text-[#4a4a4a]">{project.description}</div>
-                {project.url && (
-                  <div className="text-[11px] text-[#0066cc] mt-0.5 break-all">{project.url}</div>
-                )}
-              </div>
-            ))}
-          </div>
-        </section>
-      )}
-
-      {/* Certifications */}
-      {data.certifications && data.certifications.length > 0 && (
-        <section className="mb-4">
-          <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3">
-            Certifications
-          </h2>
-          <ul className="mt-2 space-y-0.5 list-none ml-0">
-            {data.certifications.map((cert, idx) => (
-              <li key={idx} className="leading-[1.5] flex items-start">
-                <span className="mr-1.5 text-[#2c2c2c] font-bold">•</span>
-                <span className="flex-1">{cert}</span>
-              </li>
-            ))}
-          </ul>
-        </section>
-      )}
-
-      {/* Languages */}
-      {data.languages && data.languages.length > 0 && (
-        <section className="mb-4">
-          <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3">
-            Languages
-          </h2>
-          <div className="mt-2 leading-[1.6]">
-            {data.languages.join(' • ')}
-          </div>
-        </section>
-      )}
-
-      {/* Publications */}
-      {data.publications && data.publications.length > 0 && (
-        <section className="mb-4">
-          <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3">
-            Publications
-          </h2>
-          <div className="mt-2 space-y-2.5">
-            {data.publications.map((pub, idx) => {
-              const parts: string[] = []
-              
-              // Title
-              parts.push(pub.title)
-              
-              // Authors (Year). Venue/Journal
-              const citationParts: string[] = []
-              if (pub.authors) citationParts.push(pub.authors)
-              if (pub.year) {
-                citationParts.push(`(${pub.year})`)
-              }
-              if (citationParts.length > 0) {
-                parts.push(citationParts.join(' '))
-              }
-              if (pub.venueOrJournal) {
-                parts.push(pub.venueOrJournal)
-              }
-              if (pub.doiOrUrl) {
-                parts.push(pub.doiOrUrl)
-              }
-              
-              return (
-                <div key={idx} className="break-inside-avoid">
-                  <div className="text-[11.5px] leading-[1.5] text-[#1a1a1a]">
-                    {parts.join(' — ')}
-                  </div>
-                  {pub.notes && (
-                    <div className="text-[10.5px] leading-[1.4] text-[#4a4a4a] mt-1 italic">
-                      {pub.notes}
-                    </div>
-                  )}
-                </div>
-              )
-            })}
-          </div>
-        </section>
-      )}
+      {visibleSectionOrder(data).map((id) => <Fragment key={id}>{sections[id]}</Fragment>)}
     </div>
   )
 }
@@ -292,6 +320,174 @@ function TwoColumnProTemplate({ data }: { data: CvData }) {
     (edu) => edu.degree?.trim() || edu.school?.trim()
   )
   const skills = data?.skills ?? []
+
+  // Sidebar: skills, languages, certifications, publications; main: summary,
+  // experience, education, projects, custom sections. Each column follows the
+  // CV's section order.
+  const sidebar: Partial<Record<CvSectionId, ReactNode>> = {
+    skills: skills.length > 0 && (
+      <section className="mb-4">
+        <h2 className="text-[11px] font-bold uppercase tracking-[0.08em] text-[#2c2c2c] mb-2">
+          Core Competencies
+        </h2>
+        <div className="border-t border-[#d1d5db] mb-2" />
+        <div className="text-[10.5px] text-[#4a4a4a] leading-[1.6] space-y-0.5">
+          {skills.map((skill, idx) => (
+            <div key={idx}>{skill}</div>
+          ))}
+        </div>
+      </section>
+    ),
+    languages: data.languages && data.languages.length > 0 && (
+      <section className="mb-4">
+        <h2 className="text-[11px] font-bold uppercase tracking-[0.08em] text-[#2c2c2c] mb-2">
+          Languages
+        </h2>
+        <div className="border-t border-[#d1d5db] mb-2" />
+        <div className="text-[10.5px] text-[#4a4a4a] space-y-0.5 leading-[1.4]">
+          {data.languages.map((lang, idx) => (
+            <div key={idx}>{lang}</div>
+          ))}
+        </div>
+      </section>
+    ),
+    certifications: data.certifications && data.certifications.length > 0 && (
+      <section className="mb-4">
+        <h2 className="text-[11px] font-bold uppercase tracking-[0.08em] text-[#2c2c2c] mb-2">
+          Certifications
+        </h2>
+        <div className="border-t border-[#d1d5db] mb-2" />
+        <div className="text-[10.5px] text-[#4a4a4a] space-y-1 leading-[1.4]">
+          {data.certifications.map((cert, idx) => (
+            <div key={idx}>{cert}</div>
+          ))}
+        </div>
+      </section>
+    ),
+    publications: data.publications && data.publications.length > 0 && (
+      <section className="mb-4">
+        <h2 className="text-[11px] font-bold uppercase tracking-[0.08em] text-[#2c2c2c] mb-2">
+          Publications
+        </h2>
+        <div className="border-t border-[#d1d5db] mb-2" />
+        <div className="text-[10px] text-[#4a4a4a] space-y-2 leading-[1.4]">
+          {data.publications.map((pub, idx) => {
+            const parts: string[] = []
+            parts.push(pub.title)
+            const citationParts: string[] = []
+            if (pub.authors) citationParts.push(pub.authors)
+            if (pub.year) citationParts.push(`(${pub.year})`)
+            if (citationParts.length > 0) parts.push(citationParts.join(' '))
+            if (pub.venueOrJournal) parts.push(pub.venueOrJournal)
+            if (pub.doiOrUrl) parts.push(pub.doiOrUrl)
+            return (
+              <div key={idx} className="break-inside-avoid">
+                <div>{parts.join(' — ')}</div>
+                {pub.notes && <div className="text-[9.5px] italic mt-0.5">{pub.notes}</div>}
+              </div>
+            )
+          })}
+        </div>
+      </section>
+    ),
+  }
+  const main: Partial<Record<CvSectionId, ReactNode>> = {
+    summary: summaryParagraphs.length > 0 && (
+      <section className="mb-4">
+        <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3 border-b border-[#cccccc] pb-1">
+          Professional Summary
+        </h2>
+        <div className="mt-2 space-y-1.5">
+          {summaryParagraphs.map((para, idx) => (
+            <p key={idx} className="text-[11.5px] leading-[1.6] text-justify">{para}</p>
+          ))}
+        </div>
+      </section>
+    ),
+    experience: experience.length > 0 && (
+      <section className="mb-4">
+        <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3 border-b border-[#cccccc] pb-1">
+          Professional Experience
+        </h2>
+        <div className="mt-2 space-y-3.5">
+          {experience.map((exp, idx) => (
+            <div key={idx} className="break-inside-avoid">
+              <div className="flex justify-between items-start mb-0.5">
+                <div className="flex-1">
+                  <span className="font-semibold text-[12px]">{exp.jobTitle}</span>
+                  {exp.company && <span className="text-[12px]">, {exp.company}</span>}
+                </div>
+                {(exp.startDate || exp.endDate) && (
+                  <span className="text-[11px] text-[#4a4a4a] font-medium whitespace-nowrap ml-2">
+                    {exp.startDate || ''} {exp.startDate && (exp.isCurrent ? '– Present' : exp.endDate ? `– ${exp.endDate}` : '')}
+                  </span>
+                )}
+              </div>
+              {exp.location && (
+                <div className="text-[11px] text-[#666666] italic mb-1.5">{exp.location}</div>
+              )}
+              {exp.bullets.filter((b) => b.trim()).length > 0 && (
+                <ul className="list-none ml-0 space-y-0.5">
+                  {exp.bullets.filter((b) => b.trim()).map((bullet, i) => (
+                    <li key={i} className="leading-[1.5] flex items-start text-[11.5px]">
+                      <span className="mr-1.5 text-[#2c2c2c] font-bold">•</span>
+                      <span className="flex-1">{bullet}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          ))}
+        </div>
+      </section>
+    ),
+    education: education.length > 0 && (
+      <section className="mb-4">
+        <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3 border-b border-[#cccccc] pb-1">
+          Education
+        </h2>
+        <div className="mt-2 space-y-2.5">
+          {education.map((edu, idx) => (
+            <div key={idx} className="break-inside-avoid">
+              <div className="flex justify-between items-start">
+                <div className="flex-1">
+                  <span className="font-semibold text-[12px]">{edu.degree}</span>
+                  {edu.school && <span className="text-[12px]">, {edu.school}</span>}
+                </div>
+                {edu.year && (
+                  <span className="text-[11px] text-[#4a4a4a] font-medium whitespace-nowrap ml-2">
+                    {edu.year}
+                  </span>
+                )}
+              </div>
+              {edu.details && (
+                <div className="text-[11px] text-[#666666] mt-0.5 leading-[1.5]">{edu.details}</div>
+              )}
+            </div>
+          ))}
+        </div>
+      </section>
+    ),
+    projects: data.projects && data.projects.length > 0 && (
+      <section className="mb-4">
+        <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3 border-b border-[#cccccc] pb-1">
+          Key Projects
+        </h2>
+        <div className="mt-2 space-y-2.5">
+          {data.projects.map((project, idx) => (
+            <div key={idx} className="break-inside-avoid">
+              <div className="font-semibold text-[12px] mb-0.5">{project.name}</div>
+              <div className="text-[11px] text-[#4a4a4a] leading-[1.5]">{project.description}</div>
+              {project.url && (
+                <div className="text-[11px] text-[#0066cc] mt-0.5 break-all">{project.url}</div>
+              )}
+            </div>
+          ))}
+        </div>
+      </section>
+    ),
+    ...customSectionBlocks(data, 'text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3 border-b border-[#cccccc] pb-1'),
+  }
   
   return (
     <div className="cv-preview two-column-pro w-full h-full text-[11.5px] leading-[1.5] text-[#1a1a1a] font-['Calibri','Arial',sans-serif]">
@@ -320,183 +516,12 @@ function TwoColumnProTemplate({ data }: { data: CvData }) {
             </div>
           </section>
 
-          {/* Skills */}
-          {skills.length > 0 && (
-            <section className="mb-4">
-              <h2 className="text-[11px] font-bold uppercase tracking-[0.08em] text-[#2c2c2c] mb-2">
-                Core Competencies
-              </h2>
-              <div className="border-t border-[#d1d5db] mb-2" />
-              <div className="text-[10.5px] text-[#4a4a4a] leading-[1.6] space-y-0.5">
-                {skills.map((skill, idx) => (
-                  <div key={idx}>{skill}</div>
-                ))}
-              </div>
-            </section>
-          )}
-
-          {/* Languages */}
-          {data.languages && data.languages.length > 0 && (
-            <section className="mb-4">
-              <h2 className="text-[11px] font-bold uppercase tracking-[0.08em] text-[#2c2c2c] mb-2">
-                Languages
-              </h2>
-              <div className="border-t border-[#d1d5db] mb-2" />
-              <div className="text-[10.5px] text-[#4a4a4a] space-y-0.5 leading-[1.4]">
-                {data.languages.map((lang, idx) => (
-                  <div key={idx}>{lang}</div>
-                ))}
-              </div>
-            </section>
-          )}
-
-          {/* Certifications */}
-          {data.certifications && data.certifications.length > 0 && (
-            <section className="mb-4">
-              <h2 className="text-[11px] font-bold uppercase tracking-[0.08em] text-[#2c2c2c] mb-2">
-                Certifications
-              </h2>
-              <div className="border-t border-[#d1d5db] mb-2" />
-              <div className="text-[10.5px] text-[#4a4a4a] space-y-1 leading-[1.4]">
-                {data.certifications.map((cert, idx) => (
-                  <div key={idx}>{cert}</div>
-                ))}
-              </div>
-            </section>
-          )}
-
-          {/* Publications */}
-          {data.publications && data.publications.length > 0 && (
-            <section className="mb-4">
-              <h2 className="text-[11px] font-bold uppercase tracking-[0.08em] text-[#2c2c2c] mb-2">
-                Publications
-              </h2>
-              <div className="border-t border-[#d1d5db] mb-2" />
-              <div className="text-[10px] text-[#4a4a4a] space-y-2 leading-[1.4]">
-                {data.publications.map((pub, idx) => {
-                  const parts: string[] = []
-                  parts.push(pub.title)
-                  const citationParts: string[] = []
-                  if (pub.authors) citationParts.push(pub.authors)
-                  if (pub.year) citationParts.push(`(${pub.year})`)
-                  if (citationParts.length > 0) parts.push(citationParts.join(' '))
-                  if (pub.venueOrJournal) parts.push(pub.venueOrJournal)
-                  if (pub.doiOrUrl) parts.push(pub.doiOrUrl)
-                  return (
-                    <div key={idx} className="break-inside-avoid">
-                      <div>{parts.join(' — ')}</div>
-                      {pub.notes && <div className="text-[9.5px] italic mt-0.5">{pub.notes}</div>}
-                    </div>
-                  )
-                })}
-              </div>
-            </section>
-          )}
+          {visibleSectionOrder(data).map((id) => <Fragment key={id}>{sidebar[id]}</Fragment>)}
         </aside>
 
         {/* Right Main Content - 68% width */}
         <main className="w-[68%] flex-1 pl-2">
-          {/* Professional Summary */}
-          {summaryParagraphs.length > 0 && (
-            <section className="mb-4">
-              <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3 border-b border-[#cccccc] pb-1">
-                Professional Summary
-              </h2>
-              <div className="mt-2 space-y-1.5">
-                {summaryParagraphs.map((para, idx) => (
-                  <p key={idx} className="text-[11.5px] leading-[1.6] text-justify">{para}</p>
-                ))}
-              </div>
-            </section>
-          )}
-
-          {/* Professional Experience */}
-          {experience.length > 0 && (
-            <section className="mb-4">
-              <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3 border-b border-[#cccccc] pb-1">
-                Professional Experience
-              </h2>
-              <div className="mt-2 space-y-3.5">
-                {experience.map((exp, idx) => (
-                  <div key={idx} className="break-inside-avoid">
-                    <div className="flex justify-between items-start mb-0.5">
-                      <div className="flex-1">
-                        <span className="font-semibold text-[12px]">{exp.jobTitle}</span>
-                        {exp.company && <span className="text-[12px]">, {exp.company}</span>}
-                      </div>
-                      {(exp.startDate || exp.endDate) && (
-                        <span className="text-[11px] text-[#4a4a4a] font-medium whitespace-nowrap ml-2">
-                          {exp.startDate || ''} {exp.startDate && (exp.isCurrent ? '– Present' : exp.endDate ? `– ${exp.endDate}` : '')}
-                        </span>
-                      )}
-                    </div>
-                    {exp.location && (
-                      <div className="text-[11px] text-[#666666] italic mb-1.5">{exp.location}</div>
-                    )}
-                    {exp.bullets.filter((b) => b.trim()).length > 0 && (
-                      <ul className="list-none ml-0 space-y-0.5">
-                        {exp.bullets.filter((b) => b.trim()).map((bullet, i) => (
-                          <li key={i} className="leading-[1.5] flex items-start text-[11.5px]">
-                            <span className="mr-1.5 text-[#2c2c2c] font-bold">•</span>
-                            <span className="flex-1">{bullet}</span>
-                          </li>
-                        ))}
-                      </ul>
-                    )}
-                  </div>
-                ))}
-              </div>
-            </section>
-          )}
-
-          {/* Education */}
-          {education.length > 0 && (
-            <section className="mb-4">
-              <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3 border-b border-[#cccccc] pb-1">
-                Education
-              </h2>
-              <div className="mt-2 space-y-2.5">
-                {education.map((edu, idx) => (
-                  <div key={idx} className="break-inside-avoid">
-                    <div className="flex justify-between items-start">
-                      <div className="flex-1">
-                        <span className="font-semibold text-[12px]">{edu.degree}</span>
-                        {edu.school && <span className="text-[12px]">, {edu.school}</span>}
-                      </div>
-                      {edu.year && (
-                        <span className="text-[11px] text-[#4a4a4a] font-medium whitespace-nowrap ml-2">
-                          {edu.year}
-                        </span>
-                      )}
-                    </div>
-                    {edu.details && (
-                      <div className="text-[11px] text-[#666666] mt-0.5 leading-[1.5]">{edu.details}</div>
-                    )}
-                  </div>
-                ))}
-              </div>
-            </section>
-          )}
-
-          {/* Projects */}
-          {data.projects && data.projects.length > 0 && (
-            <section className="mb-4">
-              <h2 className="text-[12.5px] font-bold uppercase tracking-[0.05em] text-[#000000] mb-3 border-b border-[#cccccc] pb-1">
-                Key Projects
-              </h2>
-              <div className="mt-2 space-y-2.5">
-                {data.projects.map((project, idx) => (
-                  <div key={idx} className="break-inside-avoid">
-                    <div className="font-semibold text-[12px] mb-0.5">{project.name}</div>
-                    <div className="text-[11px] text-[#4a4a4a] leading-[1.5]">{project.description}</div>
-                    {project.url && (
-                      <div className="text-[11px] text-[#0066cc] mt-0.5 break-all">{project.url}</div>
-                    )}
-                  </div>
-                ))}
-              </div>
-            </section>
-          )}
+          {visibleSectionOrder(data).map((id) => <Fragment key={id}>{main[id]}</Fragment>)}
         </main>
       </div>
     </div>
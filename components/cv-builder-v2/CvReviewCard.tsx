@@ -4,7 +4,7 @@ import { useState, useEffect } from 'react'
 import { Loader2, ChevronDown, ChevronUp, CheckCircle2, X } from 'lucide-react'
 import { cn } from '@/lib/utils'
 import { supabase } from '@/lib/supabase'
-import type { CvData } from '@/app/cv-builder-v2/page'
+import type { CvData } from '@/lib/cv-schema'
 
 interface CvReviewCardProps {
   cvData: CvData
@@ -1,5 +1,8 @@
-import { Plus, Trash2 } from 'lucide-react'
-import { CvData } from '@/app/cv-builder-v2/page'
+import { Plus, Trash2, GripVertical } from 'lucide-react'
+import { CvData } from '@/lib/cv-schema'
+import { moveListItem } from '@/lib/cv-sections'
+import { useDragReorder } from '@/lib/use-drag-reorder'
+import { cn } from '@/lib/utils'
 
 interface EducationTabProps {
   education: CvData['education']
@@ -7,6 +10,8 @@ interface EducationTabProps {
 }
 
 export default function EducationTab({ education, onUpdate }: EducationTabProps) {
+  const { bind } = useDragReorder()
+
   const addEducation = () => {
     onUpdate([
       ...education,
@@ -26,70 +31,94 @@ export default function EducationTab({ education, onUpdate }: EducationTabProps)
     onUpdate(education.filter((_, i) => i !== index))
   }
 
+  const moveEducation = (from: number, to: number) => {
+    onUpdate(moveListItem(education, from, to))
+  }
+
   return (
     <div className="space-y-4">
-      {education.map((edu, index) => (
-        <div key={index} className="p-4 bg-slate-900/30 rounded-lg border border-slate-700/50">
-          <div className="flex justify-between items-start mb-3">
-            <h3 className="text-sm font-semibold text-slate-300">Education #{index + 1}</h3>
-            <button
-              onClick={() => removeEducation(index)}
-              className="p-1.5 text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded transition"
-              title="Remove this education"
-            >
-              <Trash2 className="w-4 h-4" />
-            </button>
-          </div>
-
-          <div className="space-y-3">
-            <div>
-              <label className="block text-xs font-medium text-slate-400 mb-1">Degree *</label>
-              <input
-                type="text"
-                value={edu.degree}
-                onChange={(e) => updateEducation(index, { degree: e.target.value })}
-                className="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent text-sm"
-                placeholder="Bachelor of Science in Computer Science"
-              />
+      {education.map((edu, index) => {
+        const drag = bind('education', index, education.length, moveEducation)
+        return (
+          <div
+            key={index}
+            {...drag.item}
+            className={cn(
+              'p-4 bg-slate-900/30 rounded-lg border border-slate-700/50 transition',
+              drag.isOver && 'border-violet-500/60 bg-violet-500/5',
+              drag.isDragging && 'opacity-50'
+            )}
+          >
+            <div className="flex justify-between items-start mb-3">
+              <div className="flex items-center gap-1.5">
+                <button
+                  type="button"
+                  {...drag.handle}
+                  className="p-1 -ml-1 text-slate-500 hover:text-slate-300 rounded cursor-grab active:cursor-grabbing transition"
+                >
+                  <GripVertical className="w-4 h-4" />
+                </button>
+                <h3 className="text-sm font-semibold text-slate-300">Education #{index + 1}</h3>
+              </div>
+              <button
+                onClick={() => removeEducation(index)}
+                className="p-1.5 text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded transition"
+                title="Remove this education"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
             </div>
 
-            <div>
-              <label className="block text-xs font-medium text-slate-400 mb-1">School / University *</label>
-              <input
-                type="text"
-                value={edu.school}
-                onChange={(e) => updateEducation(index, { school: e.target.value })}
-                className="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent text-sm"
-                placeholder="University Name"
-              />
-            </div>
+            <div className="space-y-3">
+              <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">Degree *</label>
+                <input
+                  type="text"
+                  value={edu.degree}
+                  onChange={(e) => updateEducation(index, { degree: e.target.value })}
+                  className="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent text-sm"
+                  placeholder="Bachelor of Science in Computer Science"
+                />
+              </div>
 
-            <div className="grid grid-cols-2 gap-3">
               <div>
-                <label className="block text-xs font-medium text-slate-400 mb-1">Year</label>
+                <label className="block text-xs font-medium text-slate-400 mb-1">School / University *</label>
                 <input
                   type="text"
-                  value={edu.year || ''}
-                  onChange={(e) => updateEducation(index, { year: e.target.value })}
+                  value={edu.school}
+                  onChange={(e) => updateEducation(index, { school: e.target.value })}
                   className="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent text-sm"
-                  placeholder="2020"
+                  placeholder="University Name"
                 />
               </div>
-            </div>
 
-            <div>
-              <label className="block text-xs font-medium text-slate-400 mb-1">Additional Details</label>
-              <textarea
-                value={edu.details || ''}
-                onChange={(e) => updateEducation(index, { details: e.target.value })}
-                rows={2}
-                className="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent text-sm resize-y"
-                placeholder="Honors, GPA, relevant coursework, etc."
-              />
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-slate-400 mb-1">Year</label>
+                  <input
+                    type="text"
+                    value={edu.year || ''}
+                    onChange={(e) => updateEducation(index, { year: e.target.value })}
+                    className="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent text-sm"
+                    placeholder="2020"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">Additional Details</label>
+                <textarea
+                  value={edu.details || ''}
+                  onChange={(e) => updateEducation(index, { details: e.target.value })}
+                  rows={2}
+                  className="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent text-sm resize-y"
+                  placeholder="Honors, GPA, relevant coursework, etc."
+                />
+              </div>
             </div>
           </div>
-        </div>
-      ))}
+        )
+      })}
 
       <button
         onClick={addEducation}
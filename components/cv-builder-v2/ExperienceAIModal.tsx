@@ -3,16 +3,28 @@
 import { useState, useEffect } from 'react'
 import { X, Sparkles, Loader2 } from 'lucide-react'
 import { getAiApiErrorMessage } from '@/lib/ai-client-errors'
+import type { CvData } from '@/lib/cv-schema'
+import type { UnverifiedClaim } from '@/lib/hallucination-guard'
+import { HighlightedClaimsText, UnverifiedClaimsNotice } from '@/components/UnverifiedClaims'
 
 export type ExperienceAIMode = 'responsibilities' | 'achievements' | 'both'
 
+type ExperienceAIResult = { responsibilities?: string[]; achievements?: string[] }
+
+const RESULT_SECTIONS = [
+  { key: 'responsibilities', label: 'Responsibilities' },
+  { key: 'achievements', label: 'Achievements' },
+] as const
+
 interface ExperienceAIModalProps {
   isOpen: boolean
   onClose: () => void
-  onApply: (result: { responsibilities?: string[]; achievements?: string[] }) => void
+  onApply: (result: ExperienceAIResult) => void
   jobTitle: string
   company?: string
   industry?: string
+  /** The whole CV, sent with the request so the bullets are fact-checked against it */
+  cvData?: CvData
 }
 
 export default function ExperienceAIModal({
@@ -22,14 +34,39 @@ export default function ExperienceAIModal({
   jobTitle,
   company,
   industry,
+  cvData,
 }: ExperienceAIModalProps) {
   const [mode, setMode] = useState<ExperienceAIMode>('both')
   const [userNotes, setUserNotes] = useState('')
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  // Generated bullets held back for review because they contain unverified claims
+  const [review, setReview] = useState<{ result: ExperienceAIResult; unverified: UnverifiedClaim[] } | null>(null)
 
   if (!isOpen) return null
 
+  const applyResult = (result: ExperienceAIResult) => {
+    onApply(result)
+
+    // Reset form
+    setUserNotes('')
+    setMode('both')
+    setError(null)
+    setReview(null)
+    onClose()
+  }
+
+  // Drop the bullets that carry a claim the user never gave us
+  const withoutFlagged = ({ result, unverified }: { result: ExperienceAIResult; unverified: UnverifiedClaim[] }): ExperienceAIResult => {
+    const flagged = new Set(unverified.map((claim) => claim.path))
+    const filtered: ExperienceAIResult = {}
+    for (const { key } of RESULT_SECTIONS) {
+      const items = result[key]
+      if (items) filtered[key] = items.filter((_, index) => !flagged.has(`${key}[${index}]`))
+    }
+    return filtered
+  }
+
   const handleGenerate = async () => {
     if (!jobTitle.trim()) {
       setError('Job title is required')
@@ -49,6 +86,7 @@ export default function ExperienceAIModal({
           industry: industry?.trim() || undefined,
           userNotes: userNotes.trim() || undefined,
           mode,
+          cvData,
         }),
       })
 
@@ -62,17 +100,18 @@ export default function ExperienceAIModal({
         throw err
       }
 
-      // Apply the result and close modal
-      onApply({
+      const result: ExperienceAIResult = {
         responsibilities: data.responsibilities,
         achievements: data.achievements,
-      })
-      
-      // Reset form
-      setUserNotes('')
-      setMode('both')
-      setError(null)
-      onClose()
+      }
+      const unverified: UnverifiedClaim[] = Array.isArray(data.unverified) ? data.unverified : []
+
+      // Anything the user never mentioned is shown for review first; otherwise apply and close
+      if (unverified.length > 0) {
+        setReview({ result, unverified })
+      } else {
+        applyResult(result)
+      }
     } catch (err: any) {
       console.error('AI generation error:', err)
       setError(err.message || 'AI request failed, please try again.')
@@ -85,6 +124,7 @@ export default function ExperienceAIModal({
     if (loading) return
     setUserNotes('')
     setError(null)
+    setReview(null)
     onClose()
   }
 
@@ -130,97 +170,144 @@ export default function ExperienceAIModal({
         </div>
 
         {/* Content */}
-        <div className="p-5 space-y-4">
-          {/* Mode Selection */}
-          <div>
-            <label className="block text-xs font-medium text-slate-300 mb-2">
-              What would you like to generate?
-            </label>
-            <div className="space-y-2">
-              <label className="flex items-center gap-2 cursor-pointer p-2 rounded-lg hover:bg-slate-800/50 transition">
-                <input
-                  type="radio"
-                  name="mode"
-                  value="both"
-                  checked={mode === 'both'}
-                  onChange={(e) => setMode(e.target.value as ExperienceAIMode)}
-                  className="w-4 h-4 text-violet-600 bg-slate-800 border-slate-600 focus:ring-violet-500"
-                  disabled={loading}
-                />
-                <span className="text-sm text-slate-200">Both</span>
-              </label>
-              <label className="flex items-center gap-2 cursor-pointer p-2 rounded-lg hover:bg-slate-800/50 transition">
-                <input
-                  type="radio"
-                  name="mode"
-                  value="responsibilities"
-                  checked={mode === 'responsibilities'}
-                  onChange={(e) => setMode(e.target.value as ExperienceAIMode)}
-                  className="w-4 h-4 text-violet-600 bg-slate-800 border-slate-600 focus:ring-violet-500"
-                  disabled={loading}
-                />
-                <span className="text-sm text-slate-200">Responsibilities</span>
+        {review ? (
+          <div className="p-5 space-y-4">
+            <UnverifiedClaimsNotice claims={review.unverified} />
+            <div className="max-h-72 overflow-y-auto space-y-3">
+              {RESULT_SECTIONS.map(({ key, label }) => {
+                const items = review.result[key]
+                if (!items || items.length === 0) return null
+                return (
+                  <div key={key}>
+                    <div className="text-xs font-medium text-slate-300 mb-1">{label}</div>
+                    <ul className="space-y-1 text-sm text-slate-200 list-disc pl-4">
+                      {items.map((item, index) => (
+                        <li key={index}>
+                          <HighlightedClaimsText
+                            text={item}
+                            claims={review.unverified.filter((claim) => claim.path === `${key}[${index}]`)}
+                          />
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )
+              })}
+            </div>
+            <div className="flex flex-col gap-2">
+              <button
+                onClick={() => applyResult(withoutFlagged(review))}
+                className="w-full rounded-full bg-violet-600 px-4 py-2.5 text-sm font-medium text-white border border-violet-400/70 hover:bg-violet-500 hover:border-violet-300 transition"
+              >
+                Add without highlighted bullets
+              </button>
+              <button
+                onClick={() => applyResult(review.result)}
+                className="w-full rounded-full px-4 py-2 text-sm font-medium text-amber-200 border border-amber-500/40 hover:bg-amber-500/10 transition"
+              >
+                Add all (I&apos;ll check the highlights)
+              </button>
+              <button
+                onClick={() => setReview(null)}
+                className="text-xs text-slate-400 hover:text-slate-200 transition"
+              >
+                Back
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="p-5 space-y-4">
+            {/* Mode Selection */}
+            <div>
+              <label className="block text-xs font-medium text-slate-300 mb-2">
+                What would you like to generate?
               </label>
-              <label className="flex items-center gap-2 cursor-pointer p-2 rounded-lg hover:bg-slate-800/50 transition">
-                <input
-                  type="radio"
-                  name="mode"
-                  value="achievements"
-                  checked={mode === 'achievements'}
-                  onChange={(e) => setMode(e.target.value as ExperienceAIMode)}
-                  className="w-4 h-4 text-violet-600 bg-slate-800 border-slate-600 focus:ring-violet-500"
-                  disabled={loading}
-                />
-                <span className="text-sm text-slate-200">Achievements</span>
+              <div className="space-y-2">
+                <label className="flex items-center gap-2 cursor-pointer p-2 rounded-lg hover:bg-slate-800/50 transition">
+                  <input
+                    type="radio"
+                    name="mode"
+                    value="both"
+                    checked={mode === 'both'}
+                    onChange={(e) => setMode(e.target.value as ExperienceAIMode)}
+                    className="w-4 h-4 text-violet-600 bg-slate-800 border-slate-600 focus:ring-violet-500"
+                    disabled={loading}
+                  />
+                  <span className="text-sm text-slate-200">Both</span>
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer p-2 rounded-lg hover:bg-slate-800/50 transition">
+                  <input
+                    type="radio"
+                    name="mode"
+                    value="responsibilities"
+                    checked={mode === 'responsibilities'}
+                    onChange={(e) => setMode(e.target.value as ExperienceAIMode)}
+                    className="w-4 h-4 text-violet-600 bg-slate-800 border-slate-600 focus:ring-violet-500"
+                    disabled={loading}
+                  />
+                  <span className="text-sm text-slate-200">Responsibilities</span>
+                </label>
+                <label className="flex items-center gap-2 cursor-pointer p-2 rounded-lg hover:bg-slate-800/50 transition">
+                  <input
+                    type="radio"
+                    name="mode"
+                    value="achievements"
+                    checked={mode === 'achievements'}
+                    onChange={(e) => setMode(e.target.value as ExperienceAIMode)}
+                    className="w-4 h-4 text-violet-600 bg-slate-800 border-slate-600 focus:ring-violet-500"
+                    disabled={loading}
+                  />
+                  <span className="text-sm text-slate-200">Achievements</span>
+                </label>
+              </div>
+            </div>
+
+            {/* User Notes */}
+            <div>
+              <label className="block text-xs font-medium text-slate-300 mb-2">
+                Tell me briefly what you did in this job (optional)
               </label>
+              <textarea
+                value={userNotes}
+                onChange={(e) => setUserNotes(e.target.value)}
+                placeholder="e.g., I worked in a busy kitchen, helping with food prep and cleaning..."
+                className="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent text-sm min-h-[80px] resize-y"
+                disabled={loading}
+              />
             </div>
-          </div>
 
-          {/* User Notes */}
-          <div>
-            <label className="block text-xs font-medium text-slate-300 mb-2">
-              Tell me briefly what you did in this job (optional)
-            </label>
-            <textarea
-              value={userNotes}
-              onChange={(e) => setUserNotes(e.target.value)}
-              placeholder="e.g., I worked in a busy kitchen, helping with food prep and cleaning..."
-              className="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent text-sm min-h-[80px] resize-y"
-              disabled={loading}
-            />
-          </div>
+            {/* Error Message */}
+            {error && (
+              <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
+                <p className="text-xs text-red-400">{error}</p>
+              </div>
+            )}
 
-          {/* Error Message */}
-          {error && (
-            <div className="p-3 bg-red-500/10 border border-red-500/30 rounded-lg">
-              <p className="text-xs text-red-400">{error}</p>
+            {/* Generate Button */}
+            <div className="space-y-2">
+              <button
+                onClick={handleGenerate}
+                disabled={loading || !jobTitle.trim()}
+                className="w-full rounded-full bg-violet-600 px-4 py-2.5 text-sm font-medium text-white border border-violet-400/70 shadow-[0_0_25px_rgba(139,92,246,0.7)] hover:bg-violet-500 hover:border-violet-300 transition flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {loading ? (
+                  <>
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    Thinking...
+                  </>
+                ) : (
+                  <>
+                    <Sparkles className="w-4 h-4" />
+                    Generate with AI
+                  </>
+                )}
+              </button>
+              <p className="text-[10px] text-slate-400 text-center">
+                You can edit or remove any bullet points after they're added.
+              </p>
             </div>
-          )}
-
-          {/* Generate Button */}
-          <div className="space-y-2">
-            <button
-              onClick={handleGenerate}
-              disabled={loading || !jobTitle.trim()}
-              className="w-full rounded-full bg-violet-600 px-4 py-2.5 text-sm font-medium text-white border border-violet-400/70 shadow-[0_0_25px_rgba(139,92,246,0.7)] hover:bg-violet-500 hover:border-violet-300 transition flex items-center justify-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
-            >
-              {loading ? (
-                <>
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                  Thinking...
-                </>
-              ) : (
-                <>
-                  <Sparkles className="w-4 h-4" />
-                  Generate with AI
-                </>
-              )}
-            </button>
-            <p className="text-[10px] text-slate-400 text-center">
-              You can edit or remove any bullet points after they're added.
-            </p>
           </div>
-        </div>
+        )}
 
         {/* Footer */}
         <div className="p-5 border-t border-slate-700/60 flex justify-end">
@@ -1,11 +1,31 @@
 import { useState } from 'react'
-import { Plus, Trash2, Sparkles, CheckCircle2, Zap, Loader2, X, AlertTriangle, AlertCircle, ThumbsUp } from 'lucide-react'
-import { CvData } from '@/app/cv-builder-v2/page'
+import { Plus, Trash2, Sparkles, CheckCircle2, Zap, Loader2, X, AlertTriangle, AlertCircle, ThumbsUp, GripVertical, CalendarClock, Info } from 'lucide-react'
+import { CvData, CvMonthYear } from '@/lib/cv-schema'
 import ExperienceAIModal from './ExperienceAIModal'
 import { getAiApiErrorMessage, handleAiClientError } from '@/lib/ai-client-errors'
+import { moveListItem, movedIndex } from '@/lib/cv-sections'
+import {
+  EMPLOYMENT_GAP_MONTHS,
+  MONTH_NAMES,
+  analyseEmploymentTimeline,
+  createCareerBreak,
+  experienceDates,
+  formatCvDate,
+  formatTenure,
+  parseCvDate,
+  sortExperienceNewestFirst,
+  tenureMonths,
+  type CvTimelineIssue,
+} from '@/lib/cv-dates'
+import { useDragReorder } from '@/lib/use-drag-reorder'
+import { cn } from '@/lib/utils'
+import type { UnverifiedClaim } from '@/lib/hallucination-guard'
+import { HighlightedClaimsText, UnverifiedClaimsNotice } from '@/components/UnverifiedClaims'
 
 interface ExperienceTabProps {
   experience: CvData['experience']
+  /** The whole CV, sent to the AI routes so suggestions are fact-checked against it */
+  cvData?: CvData
   onUpdate: (experience: CvData['experience']) => void
 }
 
@@ -21,9 +41,77 @@ interface BulletSuggestion {
   original: string
   improved: string
   wordCountChange?: number
+  /** Claims in the improved text that the bullet and its entry do not back up */
+  unverified?: UnverifiedClaim[]
 }
 
-export default function ExperienceTab({ experience, onUpdate }: ExperienceTabProps) {
+const GAP_THRESHOLDS = [3, 6, 12]
+
+// Newest years first; a year ahead for offers that start soon
+const YEAR_OPTIONS = Array.from({ length: new Date().getFullYear() + 2 - 1960 }, (_, i) => new Date().getFullYear() + 1 - i)
+
+const selectClassName =
+  'w-full px-2 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent text-sm disabled:opacity-50'
+
+// Month and year pickers; the month is optional, and picking one first assumes this year
+function MonthYearInput({
+  label,
+  value,
+  legacyText,
+  disabled,
+  onChange,
+}: {
+  label: string
+  value: CvMonthYear | null
+  legacyText?: string
+  disabled?: boolean
+  onChange: (date: CvMonthYear | undefined) => void
+}) {
+  const unreadable = !value && !disabled && legacyText?.trim() && !parseCvDate(legacyText)
+  return (
+    <div className="flex-1">
+      <label className="block text-xs font-medium text-slate-400 mb-1">{label}</label>
+      <div className="grid grid-cols-2 gap-2">
+        <select
+          value={value?.month ?? ''}
+          disabled={disabled}
+          onChange={(e) => {
+            const month = e.target.value ? Number(e.target.value) : undefined
+            onChange({ year: value?.year ?? new Date().getFullYear(), month })
+          }}
+          className={selectClassName}
+          aria-label={`${label} month`}
+        >
+          <option value="">Month</option>
+          {MONTH_NAMES.map((name, index) => (
+            <option key={name} value={index + 1}>
+              {name}
+            </option>
+          ))}
+        </select>
+        <select
+          value={value?.year ?? ''}
+          disabled={disabled}
+          onChange={(e) => onChange(e.target.value ? { year: Number(e.target.value), month: value?.month } : undefined)}
+          className={selectClassName}
+          aria-label={`${label} year`}
+        >
+          <option value="">Year</option>
+          {YEAR_OPTIONS.map((year) => (
+            <option key={year} value={year}>
+              {year}
+            </option>
+          ))}
+        </select>
+      </div>
+      {unreadable && (
+        <p className="mt-1 text-xs text-amber-300">&ldquo;{legacyText}&rdquo; is not a date we can read. Pick a month and year.</p>
+      )}
+    </div>
+  )
+}
+
+export default function ExperienceTab({ experience, cvData, onUpdate }: ExperienceTabProps) {
   const [openModalIndex, setOpenModalIndex] = useState<number | null>(null)
   const [aiServiceError, setAiServiceError] = useState<string>('')
   
@@ -41,6 +129,10 @@ export default function ExperienceTab({ experience, onUpdate }: ExperienceTabPro
   
   // Previous bullet states for undo
   const [previousBullets, setPreviousBullets] = useState<Record<string, string>>({})
+
+  const { bind } = useDragReorder()
+  const [gapMonths, setGapMonths] = useState(EMPLOYMENT_GAP_MONTHS)
+  const timeline = analyseEmploymentTimeline(experience, { gapMonths })
   
   const getBulletKey = (expIndex: number, bulletIndex: number) => `${expIndex}-${bulletIndex}`
   const addExperience = () => {
@@ -64,6 +156,44 @@ export default function ExperienceTab({ experience, onUpdate }: ExperienceTabPro
     onUpdate(experience.filter((_, i) => i !== index))
   }
 
+  // Per-bullet states are keyed by position, so they move with their entry
+  const remapBulletStates = (newIndex: (expIndex: number) => number) => {
+    const remap = <T,>(states: Record<string, T>) =>
+      Object.fromEntries(
+        Object.entries(states).map(([key, value]) => {
+          const [expIndex, bulletIndex] = key.split('-').map(Number)
+          return [getBulletKey(newIndex(expIndex), bulletIndex), value]
+        })
+      )
+    setBulletQuality(remap)
+    setBulletSuggestions(remap)
+    setImprovementSuggestions(remap)
+    setPreviousBullets(remap)
+  }
+
+  const moveExperience = (from: number, to: number) => {
+    onUpdate(moveListItem(experience, from, to))
+    remapBulletStates((expIndex) => movedIndex(expIndex, from, to))
+  }
+
+  // Keep the display text in step with the structured date
+  const updateDate = (expIndex: number, edge: 'start' | 'end', date: CvMonthYear | undefined) => {
+    const text = date ? formatCvDate(date) : undefined
+    updateExperience(expIndex, edge === 'start' ? { start: date, startDate: text } : { end: date, endDate: text })
+  }
+
+  const applyTimelineFix = (issue: CvTimelineIssue) => {
+    if (issue.fix.action === 'sortNewestFirst') {
+      const sorted = sortExperienceNewestFirst(experience)
+      onUpdate(sorted)
+      remapBulletStates((expIndex) => sorted.indexOf(experience[expIndex]))
+    } else if (issue.fix.action === 'addCareerBreak') {
+      const at = issue.fix.insertAt ?? experience.length
+      onUpdate([...experience.slice(0, at), createCareerBreak(issue.fix.start, issue.fix.end), ...experience.slice(at)])
+      remapBulletStates((expIndex) => (expIndex >= at ? expIndex + 1 : expIndex))
+    }
+  }
+
   const updateBullet = (expIndex: number, bulletIndex: number, value: string) => {
     const exp = experience[expIndex]
     const bullets = [...exp.bullets]
@@ -169,6 +299,7 @@ export default function ExperienceTab({ experience, onUpdate }: ExperienceTabPro
             original: bullet,
             improved: data.improved,
             wordCountChange: improvedWordCount - originalWordCount,
+            unverified: Array.isArray(data.unverified) ? data.unverified : [],
           },
         })
       } else {
@@ -206,6 +337,8 @@ export default function ExperienceTab({ experience, onUpdate }: ExperienceTabPro
           bullet,
           jobTitle: experience[expIndex].jobTitle,
           isCurrent: experience[expIndex].isCurrent || false,
+          experience: experience[expIndex],
+          cvData,
         }),
       })
 
@@ -220,6 +353,7 @@ export default function ExperienceTab({ experience, onUpdate }: ExperienceTabPro
             original: bullet,
             improved: data.improved,
             wordCountChange: improvedWordCount - originalWordCount,
+            unverified: Array.isArray(data.unverified) ? data.unverified : [],
           },
         })
       } else {
@@ -332,359 +466,427 @@ export default function ExperienceTab({ experience, onUpdate }: ExperienceTabPro
           <span className="text-xs text-red-300">{aiServiceError}</span>
         </div>
       )}
-      {experience.map((exp, expIndex) => (
-        <div key={exp.id} className="p-4 bg-slate-900/30 rounded-lg border border-slate-700/50">
-          <div className="flex justify-between items-start mb-4">
-            <h3 className="text-sm font-semibold text-slate-300">Experience #{expIndex + 1}</h3>
-            <button
-              onClick={() => removeExperience(expIndex)}
-              className="p-1.5 text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded transition"
-              title="Remove this experience"
-            >
-              <Trash2 className="w-4 h-4" />
-            </button>
+
+      {/* Timeline check */}
+      {timeline.issues.length > 0 && (
+        <div className="p-3 bg-amber-950/10 border border-amber-500/30 rounded-lg space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs font-semibold text-amber-300 flex items-center gap-1.5">
+              <CalendarClock className="w-3.5 h-3.5" />
+              Timeline check
+            </span>
+            <label className="flex items-center gap-1.5 text-xs text-slate-400">
+              Flag gaps over
+              <select
+                value={gapMonths}
+                onChange={(e) => setGapMonths(Number(e.target.value))}
+                className="px-1.5 py-0.5 bg-slate-900/50 border border-slate-700 rounded text-slate-200 text-xs focus:outline-none focus:ring-1 focus:ring-violet-500"
+              >
+                {GAP_THRESHOLDS.map((months) => (
+                  <option key={months} value={months}>
+                    {months} months
+                  </option>
+                ))}
+              </select>
+            </label>
           </div>
+          {timeline.issues.map((issue, index) => (
+            <div key={`${issue.kind}-${issue.field}-${index}`} className="flex items-start gap-2 text-xs">
+              {issue.severity === 'warning' ? (
+                <AlertTriangle className="w-3.5 h-3.5 text-amber-400 flex-shrink-0 mt-0.5" />
+              ) : (
+                <Info className="w-3.5 h-3.5 text-slate-400 flex-shrink-0 mt-0.5" />
+              )}
+              <span className="flex-1 text-slate-300">{issue.message}</span>
+              {issue.fix.action !== 'editDates' && (
+                <button
+                  onClick={() => applyTimelineFix(issue)}
+                  className="px-2 py-0.5 rounded-md bg-amber-600/20 text-amber-300 border border-amber-500/30 hover:bg-amber-600/30 transition whitespace-nowrap"
+                >
+                  {issue.fix.label}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
 
-          <div className="space-y-3">
-            <div>
-              <label className="block text-xs font-medium text-slate-400 mb-1">Job Title *</label>
-              <input
-                type="text"
-                value={exp.jobTitle}
-                onChange={(e) => updateExperience(expIndex, { jobTitle: e.target.value })}
-                className="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent text-sm"
-                placeholder="Senior Software Engineer"
-              />
+      {experience.map((exp, expIndex) => {
+        const drag = bind('experience', expIndex, experience.length, moveExperience)
+        const dates = experienceDates(exp)
+        const tenure = tenureMonths(exp)
+        return (
+          <div
+            key={exp.id}
+            {...drag.item}
+            className={cn(
+              'p-4 bg-slate-900/30 rounded-lg border border-slate-700/50 transition',
+              drag.isOver && 'border-violet-500/60 bg-violet-500/5',
+              drag.isDragging && 'opacity-50'
+            )}
+          >
+            <div className="flex justify-between items-start mb-4">
+              <div className="flex items-center gap-1.5">
+                <button
+                  type="button"
+                  {...drag.handle}
+                  className="p-1 -ml-1 text-slate-500 hover:text-slate-300 rounded cursor-grab active:cursor-grabbing transition"
+                >
+                  <GripVertical className="w-4 h-4" />
+                </button>
+                <h3 className="text-sm font-semibold text-slate-300">Experience #{expIndex + 1}</h3>
+              </div>
+              <button
+                onClick={() => removeExperience(expIndex)}
+                className="p-1.5 text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded transition"
+                title="Remove this experience"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
             </div>
 
-            <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-3">
               <div>
-                <label className="block text-xs font-medium text-slate-400 mb-1">Company *</label>
+                <label className="block text-xs font-medium text-slate-400 mb-1">Job Title *</label>
                 <input
                   type="text"
-                  value={exp.company}
-                  onChange={(e) => updateExperience(expIndex, { company: e.target.value })}
+                  value={exp.jobTitle}
+                  onChange={(e) => updateExperience(expIndex, { jobTitle: e.target.value })}
                   className="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent text-sm"
-                  placeholder="Company Name"
+                  placeholder="Senior Software Engineer"
                 />
               </div>
-              <div>
-                <label className="block text-xs font-medium text-slate-400 mb-1">Location</label>
-                <input
-                  type="text"
-                  value={exp.location || ''}
-                  onChange={(e) => updateExperience(expIndex, { location: e.target.value })}
-                  className="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent text-sm"
-                  placeholder="City, Country"
-                />
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-slate-400 mb-1">Company *</label>
+                  <input
+                    type="text"
+                    value={exp.company}
+                    onChange={(e) => updateExperience(expIndex, { company: e.target.value })}
+                    className="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent text-sm"
+                    placeholder="Company Name"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-slate-400 mb-1">Location</label>
+                  <input
+                    type="text"
+                    value={exp.location || ''}
+                    onChange={(e) => updateExperience(expIndex, { location: e.target.value })}
+                    className="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent text-sm"
+                    placeholder="City, Country"
+                  />
+                </div>
               </div>
-            </div>
 
-            <div className="flex flex-col md:flex-row gap-3">
-              <div className="flex-1">
-                <label className="block text-xs font-medium text-slate-400 mb-1">Start Date</label>
-                <input
-                  type="text"
-                  value={exp.startDate || ''}
-                  onChange={(e) => updateExperience(expIndex, { startDate: e.target.value })}
-                  className="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent text-sm"
-                  placeholder="Jan 2020"
+              <div className="flex flex-col md:flex-row gap-3">
+                <MonthYearInput
+                  label="Start Date"
+                  value={dates.start}
+                  legacyText={exp.startDate}
+                  onChange={(date) => updateDate(expIndex, 'start', date)}
+                />
+                <MonthYearInput
+                  label="End Date"
+                  value={dates.end}
+                  legacyText={exp.endDate}
+                  disabled={exp.isCurrent}
+                  onChange={(date) => updateDate(expIndex, 'end', date)}
                 />
               </div>
-              <div className="flex-1">
-                <label className="block text-xs font-medium text-slate-400 mb-1">End Date</label>
+              <div className="mt-2 flex items-center gap-2">
                 <input
-                  type="text"
-                  value={exp.endDate || ''}
-                  onChange={(e) => updateExperience(expIndex, { endDate: e.target.value })}
-                  disabled={exp.isCurrent}
-                  className="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent text-sm disabled:opacity-50"
-                  placeholder="Present"
+                  type="checkbox"
+                  checked={exp.isCurrent || false}
+                  onChange={(e) =>
+                    updateExperience(expIndex, {
+                      isCurrent: e.target.checked,
+                      end: e.target.checked ? undefined : exp.end,
+                      endDate: e.target.checked ? undefined : exp.endDate,
+                    })
+                  }
+                  className="h-4 w-4 rounded border-slate-600 bg-slate-800 text-violet-600 focus:ring-violet-500"
                 />
+                <span className="text-xs md:text-sm text-slate-200">
+                  Currently working here
+                </span>
+                {tenure != null && <span className="ml-auto text-xs text-slate-500">{formatTenure(tenure)}</span>}
               </div>
-            </div>
-            <div className="mt-2 flex items-center gap-2">
-              <input
-                type="checkbox"
-                checked={exp.isCurrent || false}
-                onChange={(e) => updateExperience(expIndex, { isCurrent: e.target.checked, endDate: e.target.checked ? undefined : exp.endDate })}
-                className="h-4 w-4 rounded border-slate-600 bg-slate-800 text-violet-600 focus:ring-violet-500"
-              />
-              <span className="text-xs md:text-sm text-slate-200">
-                Currently working here
-              </span>
-            </div>
 
-            <div>
-              <label className="block text-xs font-medium text-slate-400 mb-2">Responsibilities & Achievements</label>
-              <div className="space-y-3">
-                {exp.bullets.map((bullet, bulletIndex) => {
-                  const key = getBulletKey(expIndex, bulletIndex)
-                  const quality = bulletQuality[key]
-                  const grammarSuggestion = bulletSuggestions[key]
-                  const improvementSuggestion = improvementSuggestions[key]
-                  const hasPrevious = !!previousBullets[key]
-                  const isChecking = checkingBullet === key
-                  const isFixing = fixingBullet === key
-
-                  return (
-                    <div key={bulletIndex} className="space-y-2">
-                      {/* Bullet Input and Delete Button */}
-                      <div className="flex gap-2">
-                        <input
-                          type="text"
-                          value={bullet}
-                          onChange={(e) => updateBullet(expIndex, bulletIndex, e.target.value)}
-                          className="flex-1 px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent text-sm"
-                          placeholder="Achieved X by doing Y, resulting in Z..."
-                        />
-                        {exp.bullets.length > 1 && (
-                          <button
-                            onClick={() => removeBullet(expIndex, bulletIndex)}
-                            className="p-2 text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded transition flex-shrink-0"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </button>
-                        )}
-                      </div>
-
-                      {/* Inline Action Buttons */}
-                      {bullet.trim() && (
-                        <div className="flex flex-wrap items-center gap-2">
-                          <button
-                            onClick={() => handleCheckBulletQuality(expIndex, bulletIndex)}
-                            disabled={isChecking || isFixing || improvingBullet === key}
-                            className="px-2 py-1 text-xs font-medium rounded-md bg-blue-600/20 text-blue-300 border border-blue-500/30 hover:bg-blue-600/30 hover:border-blue-500/50 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
-                          >
-                            {isChecking ? (
-                              <>
-                                <Loader2 className="w-3 h-3 animate-spin" />
-                                Checking...
-                              </>
-                            ) : (
-                              <>
-                                <CheckCircle2 className="w-3 h-3" />
-                                Check
-                              </>
-                            )}
-                          </button>
-                          
-                          <button
-                            onClick={() => handleSuggestImprovement(expIndex, bulletIndex)}
-                            disabled={improvingBullet === key || isChecking || isFixing}
-                            className="px-2 py-1 text-xs font-medium rounded-md bg-violet-600/20 text-violet-300 border border-violet-500/30 hover:bg-violet-600/30 hover:border-violet-500/50 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
-                          >
-                            {improvingBullet === key ? (
-                              <>
-                                <Loader2 className="w-3 h-3 animate-spin" />
-                                Improving...
-                              </>
-                            ) : (
-                              <>
-                                <Sparkles className="w-3 h-3" />
-                                Suggest Improvement
-                              </>
-                            )}
-                          </button>
-                          
-                          <button
-                            onClick={() => handleFixBulletGrammar(expIndex, bulletIndex)}
-                            disabled={isFixing || isChecking || improvingBullet === key}
-                            className="px-2 py-1 text-xs font-medium rounded-md bg-amber-600/20 text-amber-300 border border-amber-500/30 hover:bg-amber-600/30 hover:border-amber-500/50 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
-                          >
-                            {isFixing ? (
-                              <>
-                                <Loader2 className="w-3 h-3 animate-spin" />
-                                Fixing...
-                              </>
-                            ) : (
-                              <>
-                                <Zap className="w-3 h-3" />
-                                Fix grammar
-                              </>
-                            )}
-                          </button>
-
-                          {hasPrevious && (
+              <div>
+                <label className="block text-xs font-medium text-slate-400 mb-2">Responsibilities & Achievements</label>
+                <div className="space-y-3">
+                  {exp.bullets.map((bullet, bulletIndex) => {
+                    const key = getBulletKey(expIndex, bulletIndex)
+                    const quality = bulletQuality[key]
+                    const grammarSuggestion = bulletSuggestions[key]
+                    const improvementSuggestion = improvementSuggestions[key]
+                    const hasPrevious = !!previousBullets[key]
+                    const isChecking = checkingBullet === key
+                    const isFixing = fixingBullet === key
+
+                    return (
+                      <div key={bulletIndex} className="space-y-2">
+                        {/* Bullet Input and Delete Button */}
+                        <div className="flex gap-2">
+                          <input
+                            type="text"
+                            value={bullet}
+                            onChange={(e) => updateBullet(expIndex, bulletIndex, e.target.value)}
+                            className="flex-1 px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 focus:border-transparent text-sm"
+                            placeholder="Achieved X by doing Y, resulting in Z..."
+                          />
+                          {exp.bullets.length > 1 && (
                             <button
-                              onClick={() => handleUndoBullet(expIndex, bulletIndex)}
-                              className="px-2 py-1 text-xs font-medium rounded-md bg-slate-700/50 text-slate-300 border border-slate-600/50 hover:bg-slate-700/70 transition flex items-center gap-1"
+                              onClick={() => removeBullet(expIndex, bulletIndex)}
+                              className="p-2 text-red-400 hover:text-red-300 hover:bg-red-500/10 rounded transition flex-shrink-0"
                             >
-                              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
-                              </svg>
-                              Undo
+                              <Trash2 className="w-4 h-4" />
                             </button>
                           )}
                         </div>
-                      )}
-
-                      {/* Quality Feedback Display */}
-                      {quality && bullet.trim() && (
-                        <div className="p-2.5 bg-slate-800/30 border border-slate-700/50 rounded-lg">
-                          <div className="flex items-center gap-2 mb-1.5">
-                            {quality.status === 'excellent' && (
-                              <>
-                                <ThumbsUp className="w-3.5 h-3.5 text-green-400" />
-                                <span className="text-xs font-medium text-green-400">Excellent</span>
-                              </>
-                            )}
-                            {quality.status === 'good' && (
-                              <>
-                                <CheckCircle2 className="w-3.5 h-3.5 text-blue-400" />
-                                <span className="text-xs font-medium text-blue-400">Good</span>
-                              </>
-                            )}
-                            {quality.status === 'needs-improvement' && (
-                              <>
-                                <AlertCircle className="w-3.5 h-3.5 text-yellow-400" />
-                                <span className="text-xs font-medium text-yellow-400">Needs Improvement</span>
-                              </>
-                            )}
-                          </div>
-                          {quality.feedback.length > 0 ? (
-                            <div className="space-y-0.5">
-                              {quality.feedback.map((item, idx) => (
-                                <div key={idx} className="flex items-start gap-1.5 text-xs">
-                                  {item.type === 'success' && <span className="text-green-400 mt-0.5">•</span>}
-                                  {item.type === 'warning' && <span className="text-yellow-400 mt-0.5">•</span>}
-                                  {item.type === 'error' && <span className="text-red-400 mt-0.5">•</span>}
-                                  <span className="text-slate-400">{item.text}</span>
-                                </div>
-                              ))}
-                            </div>
-                          ) : (
-                            <p className="text-xs text-slate-400">This bullet is clear and well-written.</p>
-                          )}
-                        </div>
-                      )}
 
-                      {/* Improvement Suggestion Card */}
-                      {improvementSuggestion && (
-                        <div className="p-3 bg-violet-950/20 border border-violet-500/30 rounded-lg space-y-2">
-                          <div className="flex items-center justify-between">
-                            <span className="text-xs font-semibold text-violet-300">✨ Suggested Improvement</span>
+                        {/* Inline Action Buttons */}
+                        {bullet.trim() && (
+                          <div className="flex flex-wrap items-center gap-2">
                             <button
-                              onClick={() => handleCancelSuggestion(expIndex, bulletIndex, 'improvement')}
-                              className="text-slate-400 hover:text-slate-200"
+                              onClick={() => handleCheckBulletQuality(expIndex, bulletIndex)}
+                              disabled={isChecking || isFixing || improvingBullet === key}
+                              className="px-2 py-1 text-xs font-medium rounded-md bg-blue-600/20 text-blue-300 border border-blue-500/30 hover:bg-blue-600/30 hover:border-blue-500/50 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
                             >
-                              <X className="w-3.5 h-3.5" />
+                              {isChecking ? (
+                                <>
+                                  <Loader2 className="w-3 h-3 animate-spin" />
+                                  Checking...
+                                </>
+                              ) : (
+                                <>
+                                  <CheckCircle2 className="w-3 h-3" />
+                                  Check
+                                </>
+                              )}
                             </button>
-                          </div>
-                          
-                          {/* Original (collapsed) */}
-                          <div className="text-xs text-slate-500 italic line-through">
-                            {improvementSuggestion.original}
-                          </div>
                           
-                          {/* Improved */}
-                          <div className="text-sm text-slate-200 bg-slate-900/50 p-2 rounded border border-violet-500/20">
-                            {improvementSuggestion.improved}
-                          </div>
-                          
-                          {improvementSuggestion.wordCountChange !== undefined && improvementSuggestion.wordCountChange !== 0 && (
-                            <div className="text-xs text-slate-400">
-                              Word count: {improvementSuggestion.wordCountChange > 0 ? '+' : ''}{improvementSuggestion.wordCountChange}
-                            </div>
-                          )}
-                          
-                          {/* Action Buttons */}
-                          <div className="flex gap-2">
                             <button
-                              onClick={() => handleApplySuggestion(expIndex, bulletIndex, 'improvement')}
-                              className="flex-1 px-3 py-1.5 text-xs font-medium rounded-md bg-violet-600/20 text-violet-300 border border-violet-500/30 hover:bg-violet-600/30 hover:border-violet-500/50 transition flex items-center justify-center gap-1"
+                              onClick={() => handleSuggestImprovement(expIndex, bulletIndex)}
+                              disabled={improvingBullet === key || isChecking || isFixing}
+                              className="px-2 py-1 text-xs font-medium rounded-md bg-violet-600/20 text-violet-300 border border-violet-500/30 hover:bg-violet-600/30 hover:border-violet-500/50 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
                             >
-                              ✅ Apply
+                              {improvingBullet === key ? (
+                                <>
+                                  <Loader2 className="w-3 h-3 animate-spin" />
+                                  Improving...
+                                </>
+                              ) : (
+                                <>
+                                  <Sparkles className="w-3 h-3" />
+                                  Suggest Improvement
+                                </>
+                              )}
                             </button>
+                          
                             <button
-                              onClick={() => handleCancelSuggestion(expIndex, bulletIndex, 'improvement')}
-                              className="flex-1 px-3 py-1.5 text-xs font-medium rounded-md bg-slate-700/50 text-slate-300 border border-slate-600/50 hover:bg-slate-700/70 transition flex items-center justify-center gap-1"
+                              onClick={() => handleFixBulletGrammar(expIndex, bulletIndex)}
+                              disabled={isFixing || isChecking || improvingBullet === key}
+                              className="px-2 py-1 text-xs font-medium rounded-md bg-amber-600/20 text-amber-300 border border-amber-500/30 hover:bg-amber-600/30 hover:border-amber-500/50 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
                             >
-                              ❌ Cancel
+                              {isFixing ? (
+                                <>
+                                  <Loader2 className="w-3 h-3 animate-spin" />
+                                  Fixing...
+                                </>
+                              ) : (
+                                <>
+                                  <Zap className="w-3 h-3" />
+                                  Fix grammar
+                                </>
+                              )}
                             </button>
+
+                            {hasPrevious && (
+                              <button
+                                onClick={() => handleUndoBullet(expIndex, bulletIndex)}
+                                className="px-2 py-1 text-xs font-medium rounded-md bg-slate-700/50 text-slate-300 border border-slate-600/50 hover:bg-slate-700/70 transition flex items-center gap-1"
+                              >
+                                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 10h10a8 8 0 018 8v2M3 10l6 6m-6-6l6-6" />
+                                </svg>
+                                Undo
+                              </button>
+                            )}
                           </div>
-                        </div>
-                      )}
+                        )}
 
-                      {/* Grammar Fix Suggestion Card */}
-                      {grammarSuggestion && (
-                        <div className="p-3 bg-amber-950/20 border border-amber-500/30 rounded-lg space-y-2">
-                          <div className="flex items-center justify-between">
-                            <span className="text-xs font-semibold text-amber-300">⚡ Grammar Fix</span>
-                            <button
-                              onClick={() => handleCancelSuggestion(expIndex, bulletIndex, 'grammar')}
-                              className="text-slate-400 hover:text-slate-200"
-                            >
-                              <X className="w-3.5 h-3.5" />
-                            </button>
+                        {/* Quality Feedback Display */}
+                        {quality && bullet.trim() && (
+                          <div className="p-2.5 bg-slate-800/30 border border-slate-700/50 rounded-lg">
+                            <div className="flex items-center gap-2 mb-1.5">
+                              {quality.status === 'excellent' && (
+                                <>
+                                  <ThumbsUp className="w-3.5 h-3.5 text-green-400" />
+                                  <span className="text-xs font-medium text-green-400">Excellent</span>
+                                </>
+                              )}
+                              {quality.status === 'good' && (
+                                <>
+                                  <CheckCircle2 className="w-3.5 h-3.5 text-blue-400" />
+                                  <span className="text-xs font-medium text-blue-400">Good</span>
+                                </>
+                              )}
+                              {quality.status === 'needs-improvement' && (
+                                <>
+                                  <AlertCircle className="w-3.5 h-3.5 text-yellow-400" />
+                                  <span className="text-xs font-medium text-yellow-400">Needs Improvement</span>
+                                </>
+                              )}
+                            </div>
+                            {quality.feedback.length > 0 ? (
+                              <div className="space-y-0.5">
+                                {quality.feedback.map((item, idx) => (
+                                  <div key={idx} className="flex items-start gap-1.5 text-xs">
+                                    {item.type === 'success' && <span className="text-green-400 mt-0.5">•</span>}
+                                    {item.type === 'warning' && <span className="text-yellow-400 mt-0.5">•</span>}
+                                    {item.type === 'error' && <span className="text-red-400 mt-0.5">•</span>}
+                                    <span className="text-slate-400">{item.text}</span>
+                                  </div>
+                                ))}
+                              </div>
+                            ) : (
+                              <p className="text-xs text-slate-400">This bullet is clear and well-written.</p>
+                            )}
                           </div>
+                        )}
+
+                        {/* Improvement Suggestion Card */}
+                        {improvementSuggestion && (
+                          <div className="p-3 bg-violet-950/20 border border-violet-500/30 rounded-lg space-y-2">
+                            <div className="flex items-center justify-between">
+                              <span className="text-xs font-semibold text-violet-300">✨ Suggested Improvement</span>
+                              <button
+                                onClick={() => handleCancelSuggestion(expIndex, bulletIndex, 'improvement')}
+                                className="text-slate-400 hover:text-slate-200"
+                              >
+                                <X className="w-3.5 h-3.5" />
+                              </button>
+                            </div>
                           
-                          {/* Original (collapsed) */}
-                          <div className="text-xs text-slate-500 italic line-through">
-                            {grammarSuggestion.original}
-                          </div>
+                            {/* Original (collapsed) */}
+                            <div className="text-xs text-slate-500 italic line-through">
+                              {improvementSuggestion.original}
+                            </div>
                           
-                          {/* Improved */}
-                          <div className="text-sm text-slate-200 bg-slate-900/50 p-2 rounded border border-amber-500/20">
-                            {grammarSuggestion.improved}
+                            {/* Improved */}
+                            <div className="text-sm text-slate-200 bg-slate-900/50 p-2 rounded border border-violet-500/20">
+                              <HighlightedClaimsText text={improvementSuggestion.improved} claims={improvementSuggestion.unverified || []} />
+                            </div>
+
+                            <UnverifiedClaimsNotice claims={improvementSuggestion.unverified || []} />
+                          
+                            {improvementSuggestion.wordCountChange !== undefined && improvementSuggestion.wordCountChange !== 0 && (
+                              <div className="text-xs text-slate-400">
+                                Word count: {improvementSuggestion.wordCountChange > 0 ? '+' : ''}{improvementSuggestion.wordCountChange}
+                              </div>
+                            )}
+                          
+                            {/* Action Buttons */}
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => handleApplySuggestion(expIndex, bulletIndex, 'improvement')}
+                                className="flex-1 px-3 py-1.5 text-xs font-medium rounded-md bg-violet-600/20 text-violet-300 border border-violet-500/30 hover:bg-violet-600/30 hover:border-violet-500/50 transition flex items-center justify-center gap-1"
+                              >
+                                ✅ Apply
+                              </button>
+                              <button
+                                onClick={() => handleCancelSuggestion(expIndex, bulletIndex, 'improvement')}
+                                className="flex-1 px-3 py-1.5 text-xs font-medium rounded-md bg-slate-700/50 text-slate-300 border border-slate-600/50 hover:bg-slate-700/70 transition flex items-center justify-center gap-1"
+                              >
+                                ❌ Cancel
+                              </button>
+                            </div>
                           </div>
+                        )}
+
+                        {/* Grammar Fix Suggestion Card */}
+                        {grammarSuggestion && (
+                          <div className="p-3 bg-amber-950/20 border border-amber-500/30 rounded-lg space-y-2">
+                            <div className="flex items-center justify-between">
+                              <span className="text-xs font-semibold text-amber-300">⚡ Grammar Fix</span>
+                              <button
+                                onClick={() => handleCancelSuggestion(expIndex, bulletIndex, 'grammar')}
+                                className="text-slate-400 hover:text-slate-200"
+                              >
+                                <X className="w-3.5 h-3.5" />
+                              </button>
+                            </div>
                           
-                          {grammarSuggestion.wordCountChange !== undefined && grammarSuggestion.wordCountChange !== 0 && (
-                            <div className="text-xs text-slate-400">
-                              Word count: {grammarSuggestion.wordCountChange > 0 ? '+' : ''}{grammarSuggestion.wordCountChange}
+                            {/* Original (collapsed) */}
+                            <div className="text-xs text-slate-500 italic line-through">
+                              {grammarSuggestion.original}
                             </div>
-                          )}
                           
-                          {/* Action Buttons */}
-                          <div className="flex gap-2">
-                            <button
-                              onClick={() => handleApplySuggestion(expIndex, bulletIndex, 'grammar')}
-                              className="flex-1 px-3 py-1.5 text-xs font-medium rounded-md bg-amber-600/20 text-amber-300 border border-amber-500/30 hover:bg-amber-600/30 hover:border-amber-500/50 transition flex items-center justify-center gap-1"
-                            >
-                              ✅ Apply
-                            </button>
-                            <button
-                              onClick={() => handleCancelSuggestion(expIndex, bulletIndex, 'grammar')}
-                              className="flex-1 px-3 py-1.5 text-xs font-medium rounded-md bg-slate-700/50 text-slate-300 border border-slate-600/50 hover:bg-slate-700/70 transition flex items-center justify-center gap-1"
-                            >
-                              ❌ Cancel
-                            </button>
+                            {/* Improved */}
+                            <div className="text-sm text-slate-200 bg-slate-900/50 p-2 rounded border border-amber-500/20">
+                              {grammarSuggestion.improved}
+                            </div>
+                          
+                            {grammarSuggestion.wordCountChange !== undefined && grammarSuggestion.wordCountChange !== 0 && (
+                              <div className="text-xs text-slate-400">
+                                Word count: {grammarSuggestion.wordCountChange > 0 ? '+' : ''}{grammarSuggestion.wordCountChange}
+                              </div>
+                            )}
+                          
+                            {/* Action Buttons */}
+                            <div className="flex gap-2">
+                              <button
+                                onClick={() => handleApplySuggestion(expIndex, bulletIndex, 'grammar')}
+                                className="flex-1 px-3 py-1.5 text-xs font-medium rounded-md bg-amber-600/20 text-amber-300 border border-amber-500/30 hover:bg-amber-600/30 hover:border-amber-500/50 transition flex items-center justify-center gap-1"
+                              >
+                                ✅ Apply
+                              </button>
+                              <button
+                                onClick={() => handleCancelSuggestion(expIndex, bulletIndex, 'grammar')}
+                                className="flex-1 px-3 py-1.5 text-xs font-medium rounded-md bg-slate-700/50 text-slate-300 border border-slate-600/50 hover:bg-slate-700/70 transition flex items-center justify-center gap-1"
+                              >
+                                ❌ Cancel
+                              </button>
+                            </div>
                           </div>
-                        </div>
-                      )}
-                    </div>
-                  )
-                })}
-                <button
-                  onClick={() => addBullet(expIndex)}
-                  className="text-xs text-violet-400 hover:text-violet-300 flex items-center gap-1"
-                >
-                  <Plus className="w-3 h-3" />
-                  Add bullet point
-                </button>
-              </div>
-              {/* AI Generate Button */}
-              <div className="mt-2">
-                <button
-                  onClick={() => setOpenModalIndex(expIndex)}
-                  disabled={!exp.jobTitle.trim()}
-                  className={`
-                    rounded-lg px-3 py-1.5 text-xs font-medium transition flex items-center gap-1.5
-                    ${exp.jobTitle.trim()
-                      ? 'bg-violet-600/20 text-violet-300 border border-violet-500/30 hover:bg-violet-600/30 hover:border-violet-500/50'
-                      : 'bg-slate-800/50 text-slate-500 border border-slate-700/50 cursor-not-allowed opacity-50'
-                    }
-                  `}
-                  title={!exp.jobTitle.trim() ? "Add a Job Title first so I can suggest relevant bullet points." : undefined}
-                >
-                  <Sparkles className="w-3 h-3" />
-                  AI Generate Bullet Points
-                </button>
+                        )}
+                      </div>
+                    )
+                  })}
+                  <button
+                    onClick={() => addBullet(expIndex)}
+                    className="text-xs text-violet-400 hover:text-violet-300 flex items-center gap-1"
+                  >
+                    <Plus className="w-3 h-3" />
+                    Add bullet point
+                  </button>
+                </div>
+                {/* AI Generate Button */}
+                <div className="mt-2">
+                  <button
+                    onClick={() => setOpenModalIndex(expIndex)}
+                    disabled={!exp.jobTitle.trim()}
+                    className={`
+                      rounded-lg px-3 py-1.5 text-xs font-medium transition flex items-center gap-1.5
+                      ${exp.jobTitle.trim()
+                        ? 'bg-violet-600/20 text-violet-300 border border-violet-500/30 hover:bg-violet-600/30 hover:border-violet-500/50'
+                        : 'bg-slate-800/50 text-slate-500 border border-slate-700/50 cursor-not-allowed opacity-50'
+                      }
+                    `}
+                    title={!exp.jobTitle.trim() ? "Add a Job Title first so I can suggest relevant bullet points." : undefined}
+                  >
+                    <Sparkles className="w-3 h-3" />
+                    AI Generate Bullet Points
+                  </button>
+                </div>
               </div>
             </div>
           </div>
-        </div>
-      ))}
+        )
+      })}
 
       {/* AI Modal */}
       {openModalIndex !== null && experience[openModalIndex] && (
@@ -697,6 +899,7 @@ export default function ExperienceTab({ experience, onUpdate }: ExperienceTabPro
           }}
           jobTitle={experience[openModalIndex].jobTitle}
           company={experience[openModalIndex].company}
+          cvData={cvData}
         />
       )}
 
@@ -1,7 +1,11 @@
-import { useState } from 'react'
-import { Sparkles, Loader2, Target, FileText, AlertCircle } from 'lucide-react'
-import { CvData } from '@/app/cv-builder-v2/page'
+import { useMemo, useState } from 'react'
+import { Sparkles, Loader2, Target, FileText, AlertCircle, Wand2 } from 'lucide-react'
+import { CvData } from '@/lib/cv-schema'
 import { getAiApiErrorMessage, handleAiClientError } from '@/lib/ai-client-errors'
+import { applyTailorChanges, type TailorCvResult } from '@/lib/cv-tailor'
+import { analyseKeywordCoverage, COVERAGE_SECTION_LABELS, KEYWORD_CATEGORY_LABELS } from '@/lib/keyword-coverage'
+import { cn } from '@/lib/utils'
+import TailorDiffReview from './TailorDiffReview'
 
 interface JobDescriptionPanelProps {
   cvData: CvData
@@ -30,6 +34,13 @@ export default function JobDescriptionPanel({
     jobLevel: string
   } | null>(null)
   const [aiServiceError, setAiServiceError] = useState<string>('')
+  const [tailorResult, setTailorResult] = useState<TailorCvResult | null>(null)
+
+  // Deterministic, so it updates as the JD or the CV is edited
+  const coverage = useMemo(
+    () => (jobDescription.trim() ? analyseKeywordCoverage(cvData, jobDescription) : null),
+    [cvData, jobDescription]
+  )
 
   const handleAnalyzeJD = async () => {
     if (!jobDescription.trim()) {
@@ -180,6 +191,48 @@ export default function JobDescriptionPanel({
     }
   }
 
+  const handleTailorFullCv = async () => {
+    if (!jobDescription.trim()) {
+      alert('Please paste a job description first')
+      return
+    }
+
+    setLoading('fullCv')
+    onLoadingChange(true)
+    setTailorResult(null)
+
+    try {
+      const response = await fetch('/api/job-details/tailor-cv', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          cvData,
+          jobDescription,
+        }),
+      })
+
+      const data = await response.json()
+      if (response.ok && data.ok && data.tailoredCv) {
+        setTailorResult(data)
+      } else {
+        throw new Error(data.error || 'Failed to tailor CV')
+      }
+    } catch (error: unknown) {
+      console.error('Tailor full CV error:', error)
+      alert(error instanceof Error ? error.message : 'Failed to tailor CV. Please try again.')
+    } finally {
+      setLoading(null)
+      onLoadingChange(false)
+    }
+  }
+
+  const handleApplyTailorChanges = (acceptedIds: string[]) => {
+    if (!tailorResult) return
+    const next = applyTailorChanges(cvData, tailorResult.tailoredCv, acceptedIds)
+    onCvDataUpdate({ summary: next.summary, experience: next.experience, skills: next.skills })
+    setTailorResult(null)
+  }
+
   const handleSuggestSkills = async () => {
     if (!jobDescription.trim()) {
       alert('Please paste a job description first')
@@ -261,6 +314,72 @@ export default function JobDescriptionPanel({
           <p className="mt-1 text-xs text-slate-500">Paste the job description to enable AI tailoring features</p>
         </div>
 
+        {/* Keyword coverage */}
+        {coverage && (
+          <div className="p-3 bg-slate-900/50 border border-slate-700/60 rounded-lg">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-xs font-semibold text-slate-300">Keyword coverage</h4>
+              {coverage.keywords.length > 0 && (
+                <span
+                  className={cn(
+                    'text-sm font-semibold',
+                    coverage.score >= 75 ? 'text-green-400' : coverage.score >= 50 ? 'text-yellow-400' : 'text-red-400'
+                  )}
+                >
+                  {coverage.score}%
+                </span>
+              )}
+            </div>
+            {coverage.keywords.length === 0 ? (
+              <p className="text-xs text-slate-500">No skills, tools or qualifications recognised in this job description yet.</p>
+            ) : (
+              <>
+                <div className="h-1.5 rounded-full bg-slate-800 overflow-hidden mb-2">
+                  <div
+                    className={cn(
+                      'h-full rounded-full transition-all',
+                      coverage.score >= 75 ? 'bg-green-500' : coverage.score >= 50 ? 'bg-yellow-500' : 'bg-red-500'
+                    )}
+                    style={{ width: `${coverage.score}%` }}
+                  />
+                </div>
+                {coverage.bySection.length > 0 && (
+                  <p className="text-[11px] text-slate-400 mb-2">
+                    {coverage.bySection
+                      .map((section) => `${section.label} ${section.present.length}/${coverage.keywords.length}`)
+                      .join(' · ')}
+                  </p>
+                )}
+                <div className="flex flex-wrap gap-1.5">
+                  {coverage.keywords.map((keyword) => (
+                    <span
+                      key={keyword.term}
+                      title={
+                        keyword.present
+                          ? `${KEYWORD_CATEGORY_LABELS[keyword.category]} · found in ${keyword.sections.map((section) => COVERAGE_SECTION_LABELS[section]).join(', ')}`
+                          : `${KEYWORD_CATEGORY_LABELS[keyword.category]} · missing from your CV`
+                      }
+                      className={cn(
+                        'px-2 py-0.5 rounded text-[11px] border',
+                        keyword.present
+                          ? 'bg-emerald-500/10 border-emerald-500/30 text-emerald-300'
+                          : 'bg-red-500/10 border-red-500/30 text-red-300'
+                      )}
+                    >
+                      {keyword.term}
+                    </span>
+                  ))}
+                </div>
+                {coverage.missing.length > 0 && (
+                  <p className="mt-2 text-[11px] text-slate-500">
+                    Add the red keywords you genuinely have, ideally in an experience bullet as well as your skills.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        )}
+
         {/* JD Analysis Results */}
         {jdAnalysis && (
           <div className="p-3 bg-violet-600/10 border border-violet-500/30 rounded-lg">
@@ -286,8 +405,32 @@ export default function JobDescriptionPanel({
           </div>
         )}
 
+        {/* Full-CV tailoring diff */}
+        {tailorResult && (
+          <TailorDiffReview
+            changes={tailorResult.changes}
+            source={tailorResult.source}
+            missingKeywords={tailorResult.missingKeywords}
+            onApply={handleApplyTailorChanges}
+            onDiscard={() => setTailorResult(null)}
+          />
+        )}
+
         {/* AI Actions */}
         <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={handleTailorFullCv}
+            disabled={loading !== null || !jobDescription.trim()}
+            data-jaz-action="cv_tailor_full"
+            className="col-span-2 px-3 py-2 text-xs font-semibold rounded-lg bg-violet-600/30 text-violet-200 border border-violet-500/50 hover:bg-violet-600/40 hover:border-violet-500/70 transition disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-1.5"
+          >
+            {loading === 'fullCv' ? (
+              <Loader2 className="w-3 h-3 animate-spin" />
+            ) : (
+              <Wand2 className="w-3 h-3" />
+            )}
+            Tailor Full CV (review changes)
+          </button>
           <button
             onClick={handleAnalyzeJD}
             disabled={loading !== null || !jobDescription.trim()}
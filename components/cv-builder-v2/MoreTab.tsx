@@ -1,14 +1,33 @@
 import { useState } from 'react'
-import { Plus, Trash2, Sparkles, Loader2, CheckCircle2, AlertCircle, AlertTriangle, Zap, Copy, Undo2, X } from 'lucide-react'
-import { CvData } from '@/app/cv-builder-v2/page'
+import { Plus, Trash2, Sparkles, Loader2, CheckCircle2, AlertCircle, AlertTriangle, Zap, Copy, Undo2, X, GripVertical, Eye, EyeOff } from 'lucide-react'
+import { CvData, CvCustomSection, CvCustomSectionItem, CvCustomSectionKind, CvSectionId } from '@/lib/cv-schema'
 import { getAiApiErrorMessage, handleAiClientError } from '@/lib/ai-client-errors'
+import {
+  CUSTOM_SECTION_KINDS,
+  CUSTOM_SECTION_PRESETS,
+  SECTION_HEADINGS,
+  createCustomSection,
+  createCustomSectionItem,
+  customSectionHeading,
+  customSectionKey,
+  moveListItem,
+  movedIndex,
+  resolveSectionOrder,
+} from '@/lib/cv-sections'
+import { useDragReorder } from '@/lib/use-drag-reorder'
+import { cn } from '@/lib/utils'
 
 interface MoreTabProps {
   projects: CvData['projects']
   languages: CvData['languages']
   certifications: CvData['certifications']
   publications?: CvData['publications']
-  onUpdate: (updates: Partial<Pick<CvData, 'projects' | 'languages' | 'certifications' | 'publications'>>) => void
+  customSections?: CvData['customSections']
+  sectionOrder?: CvData['sectionOrder']
+  hiddenSections?: CvData['hiddenSections']
+  onUpdate: (
+    updates: Partial<Pick<CvData, 'projects' | 'languages' | 'certifications' | 'publications' | 'customSections' | 'sectionOrder' | 'hiddenSections'>>
+  ) => void
 }
 
 type Publication = NonNullable<CvData['publications']>[0]
@@ -21,8 +40,24 @@ interface PublicationSuggestion {
   issues: string[]
 }
 
-export default function MoreTab({ projects, languages, certifications, publications, onUpdate }: MoreTabProps) {
+// Publication AI states are keyed by position, so they move with their entry
+function remapIndexed<T>(states: Record<number, T>, from: number, to: number): Record<number, T> {
+  return Object.fromEntries(Object.entries(states).map(([index, value]) => [movedIndex(Number(index), from, to), value]))
+}
+
+export default function MoreTab({
+  projects,
+  languages,
+  certifications,
+  publications,
+  customSections,
+  sectionOrder,
+  hiddenSections,
+  onUpdate,
+}: MoreTabProps) {
+  const { bind } = useDragReorder()
   const [newProject, setNewProject] = useState({ name: '', description: '', url: '' })
+  const [newSectionKind, setNewSectionKind] = useState<CvCustomSectionKind>('volunteering')
   const [newLanguage, setNewLanguage] = useState('')
   const [newCertification, setNewCertification] = useState('')
   const [aiServiceError, setAiServiceError] = useState<string>('')
@@ -52,6 +87,10 @@ export default function MoreTab({ projects, languages, certifications, publicati
     onUpdate({ projects: (projects || []).filter((_, i) => i !== index) })
   }
 
+  const moveProject = (from: number, to: number) => {
+    onUpdate({ projects: moveListItem(projects || [], from, to) })
+  }
+
   const addLanguage = () => {
     if (newLanguage.trim() && !languages?.includes(newLanguage.trim())) {
       onUpdate({ languages: [...(languages || []), newLanguage.trim()] })
@@ -63,6 +102,10 @@ export default function MoreTab({ projects, languages, certifications, publicati
     onUpdate({ languages: (languages || []).filter((_, i) => i !== index) })
   }
 
+  const moveLanguage = (from: number, to: number) => {
+    onUpdate({ languages: moveListItem(languages || [], from, to) })
+  }
+
   const addCertification = () => {
     if (newCertification.trim() && !certifications?.includes(newCertification.trim())) {
       onUpdate({ certifications: [...(certifications || []), newCertification.trim()] })
@@ -74,6 +117,10 @@ export default function MoreTab({ projects, languages, certifications, publicati
     onUpdate({ certifications: (certifications || []).filter((_, i) => i !== index) })
   }
 
+  const moveCertification = (from: number, to: number) => {
+    onUpdate({ certifications: moveListItem(certifications || [], from, to) })
+  }
+
   // Publications handlers
   const addPublication = () => {
     if (newPublication.title?.trim()) {
@@ -111,6 +158,13 @@ export default function MoreTab({ projects, languages, certifications, publicati
     setPublicationLoading(newLoading)
   }
 
+  const movePublication = (from: number, to: number) => {
+    onUpdate({ publications: moveListItem(publications || [], from, to) })
+    setPublicationSuggestions((states) => remapIndexed(states, from, to))
+    setPublicationPrevious((states) => remapIndexed(states, from, to))
+    setPublicationLoading((states) => remapIndexed(states, from, to))
+  }
+
   const updatePublication = (index: number, updates: Partial<Publication>) => {
     const updated = (publications || []).map((pub, i) => 
       i === index ? { ...pub, ...updates } : pub
@@ -224,27 +278,139 @@ export default function MoreTab({ projects, languages, certifications, publicati
     alert('Copied to clipboard!')
   }
 
+  // Section order handlers
+  const order = resolveSectionOrder({ sectionOrder, customSections })
+  const hidden = hiddenSections || []
+
+  const sectionLabel = (id: CvSectionId) => {
+    if (!id.startsWith('custom:')) return SECTION_HEADINGS[id as keyof typeof SECTION_HEADINGS]
+    const section = (customSections || []).find((candidate) => customSectionKey(candidate.id) === id)
+    return section ? customSectionHeading(section) : id
+  }
+
+  const moveSection = (from: number, to: number) => {
+    onUpdate({ sectionOrder: moveListItem(order, from, to) })
+  }
+
+  const toggleSection = (id: CvSectionId) => {
+    onUpdate({ hiddenSections: hidden.includes(id) ? hidden.filter((hiddenId) => hiddenId !== id) : [...hidden, id] })
+  }
+
+  // Custom sections handlers
+  const sections = customSections || []
+
+  const addCustomSection = () => {
+    onUpdate({ customSections: [...sections, createCustomSection(newSectionKind)] })
+  }
+
+  const updateCustomSection = (index: number, updates: Partial<CvCustomSection>) => {
+    onUpdate({ customSections: sections.map((section, i) => (i === index ? { ...section, ...updates } : section)) })
+  }
+
+  const removeCustomSection = (index: number) => {
+    const key = customSectionKey(sections[index].id)
+    onUpdate({
+      customSections: sections.filter((_, i) => i !== index),
+      sectionOrder: (sectionOrder || []).filter((id) => id !== key),
+      hiddenSections: hidden.filter((id) => id !== key),
+    })
+  }
+
+  const updateCustomItem = (sectionIndex: number, itemIndex: number, updates: Partial<CvCustomSectionItem>) => {
+    const items = sections[sectionIndex].items.map((item, i) => (i === itemIndex ? { ...item, ...updates } : item))
+    updateCustomSection(sectionIndex, { items })
+  }
+
+  const addCustomItem = (sectionIndex: number) => {
+    updateCustomSection(sectionIndex, { items: [...sections[sectionIndex].items, createCustomSectionItem()] })
+  }
+
+  const removeCustomItem = (sectionIndex: number, itemIndex: number) => {
+    updateCustomSection(sectionIndex, { items: sections[sectionIndex].items.filter((_, i) => i !== itemIndex) })
+  }
+
+  const moveCustomItem = (sectionIndex: number, from: number, to: number) => {
+    updateCustomSection(sectionIndex, { items: moveListItem(sections[sectionIndex].items, from, to) })
+  }
+
+  const gripClassName = 'p-0.5 text-slate-500 hover:text-slate-300 rounded cursor-grab active:cursor-grabbing transition'
+
   return (
     <div className="space-y-6">
-      {/* Projects */}
+      {/* Section order */}
       <div>
-        <h3 className="text-sm font-semibold text-slate-300 mb-3">Projects</h3>
-        <div className="space-y-3 mb-4">
-          {(projects || []).map((project, index) => (
-            <div key={index} className="p-3 bg-slate-900/30 rounded-lg border border-slate-700/50">
-              <div className="flex justify-between items-start mb-2">
-                <span className="font-medium text-slate-200">{project.name}</span>
+        <h3 className="text-sm font-semibold text-slate-300 mb-1">Section order</h3>
+        <p className="text-xs text-slate-500 mb-3">
+          Drag sections into the order you want. Hidden sections keep their content but are left out of the preview and downloads.
+        </p>
+        <div className="space-y-1.5">
+          {order.map((id, index) => {
+            const drag = bind('sections', index, order.length, moveSection)
+            const isHidden = hidden.includes(id)
+            return (
+              <div
+                key={id}
+                {...drag.item}
+                className={cn(
+                  'flex items-center gap-2 px-2 py-1.5 bg-slate-900/30 rounded border border-slate-700/50 transition',
+                  drag.isOver && 'border-violet-500/60 bg-violet-500/5',
+                  drag.isDragging && 'opacity-50'
+                )}
+              >
+                <button type="button" {...drag.handle} className={gripClassName}>
+                  <GripVertical className="w-3.5 h-3.5" />
+                </button>
+                <span className={cn('flex-1 text-sm', isHidden ? 'text-slate-500 line-through' : 'text-slate-300')}>
+                  {sectionLabel(id)}
+                </span>
                 <button
-                  onClick={() => removeProject(index)}
-                  className="p-1 text-red-400 hover:text-red-300"
+                  onClick={() => toggleSection(id)}
+                  title={isHidden ? 'Show in CV' : 'Hide from CV'}
+                  className="p-1 text-slate-400 hover:text-slate-200 transition"
                 >
-                  <Trash2 className="w-3 h-3" />
+                  {isHidden ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
                 </button>
               </div>
-              <p className="text-xs text-slate-400 mb-1">{project.description}</p>
-              {project.url && <p className="text-xs text-violet-400">{project.url}</p>}
-            </div>
-          ))}
+            )
+          })}
+        </div>
+      </div>
+
+      {/* Projects */}
+      <div>
+        <h3 className="text-sm font-semibold text-slate-300 mb-3">Projects</h3>
+        <div className="space-y-3 mb-4">
+          {(projects || []).map((project, index) => {
+            const drag = bind('projects', index, (projects || []).length, moveProject)
+            return (
+              <div
+                key={index}
+                {...drag.item}
+                className={cn(
+                  'p-3 bg-slate-900/30 rounded-lg border border-slate-700/50 transition',
+                  drag.isOver && 'border-violet-500/60 bg-violet-500/5',
+                  drag.isDragging && 'opacity-50'
+                )}
+              >
+                <div className="flex justify-between items-start mb-2">
+                  <div className="flex items-center gap-1.5">
+                    <button type="button" {...drag.handle} className={gripClassName}>
+                      <GripVertical className="w-3.5 h-3.5" />
+                    </button>
+                    <span className="font-medium text-slate-200">{project.name}</span>
+                  </div>
+                  <button
+                    onClick={() => removeProject(index)}
+                    className="p-1 text-red-400 hover:text-red-300"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+                <p className="text-xs text-slate-400 mb-1">{project.description}</p>
+                {project.url && <p className="text-xs text-violet-400">{project.url}</p>}
+              </div>
+            )
+          })}
         </div>
         <div className="space-y-2 p-3 bg-slate-900/20 rounded-lg border border-slate-700/30">
           <input
@@ -299,17 +465,28 @@ export default function MoreTab({ projects, languages, certifications, publicati
         </div>
         {(languages || []).length > 0 && (
           <div className="flex flex-wrap gap-2">
-            {(languages || []).map((lang, index) => (
-              <span
-                key={index}
-                className="inline-flex items-center gap-1.5 px-3 py-1.5 bg-slate-800/50 text-slate-300 border border-slate-700 rounded-lg text-sm"
-              >
-                {lang}
-                <button onClick={() => removeLanguage(index)} className="hover:text-red-300">
-                  <Trash2 className="w-3 h-3" />
-                </button>
-              </span>
-            ))}
+            {(languages || []).map((lang, index) => {
+              const drag = bind('languages', index, (languages || []).length, moveLanguage)
+              return (
+                <span
+                  key={index}
+                  {...drag.item}
+                  className={cn(
+                    'inline-flex items-center gap-1.5 pl-1.5 pr-3 py-1.5 bg-slate-800/50 text-slate-300 border border-slate-700 rounded-lg text-sm transition',
+                    drag.isOver && 'border-violet-500/60',
+                    drag.isDragging && 'opacity-50'
+                  )}
+                >
+                  <button type="button" {...drag.handle} className={gripClassName}>
+                    <GripVertical className="w-3 h-3" />
+                  </button>
+                  {lang}
+                  <button onClick={() => removeLanguage(index)} className="hover:text-red-300">
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </span>
+              )
+            })}
           </div>
         )}
       </div>
@@ -335,17 +512,30 @@ export default function MoreTab({ projects, languages, certifications, publicati
         </div>
         {(certifications || []).length > 0 && (
           <div className="space-y-2">
-            {(certifications || []).map((cert, index) => (
-              <div
-                key={index}
-                className="flex items-center justify-between p-2 bg-slate-900/30 rounded border border-slate-700/50"
-              >
-                <span className="text-sm text-slate-300">{cert}</span>
-                <button onClick={() => removeCertification(index)} className="p-1 text-red-400 hover:text-red-300">
-                  <Trash2 className="w-3 h-3" />
-                </button>
-              </div>
-            ))}
+            {(certifications || []).map((cert, index) => {
+              const drag = bind('certifications', index, (certifications || []).length, moveCertification)
+              return (
+                <div
+                  key={index}
+                  {...drag.item}
+                  className={cn(
+                    'flex items-center justify-between p-2 bg-slate-900/30 rounded border border-slate-700/50 transition',
+                    drag.isOver && 'border-violet-500/60 bg-violet-500/5',
+                    drag.isDragging && 'opacity-50'
+                  )}
+                >
+                  <div className="flex items-center gap-1.5">
+                    <button type="button" {...drag.handle} className={gripClassName}>
+                      <GripVertical className="w-3.5 h-3.5" />
+                    </button>
+                    <span className="text-sm text-slate-300">{cert}</span>
+                  </div>
+                  <button onClick={() => removeCertification(index)} className="p-1 text-red-400 hover:text-red-300">
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              )
+            })}
           </div>
         )}
       </div>
@@ -378,19 +568,34 @@ export default function MoreTab({ projects, languages, certifications, publicati
               const suggestion = publicationSuggestions[index]
               const loading = publicationLoading[index]
               const hasGrammarIssues = suggestion?.issues?.some(i => i.toLowerCase().includes('grammar') || i.toLowerCase().includes('spelling'))
+              const drag = bind('publications', index, (publications || []).length, movePublication)
 
               return (
-                <div key={index} className="space-y-3">
-                  <div className="p-4 bg-slate-900/30 rounded-lg border border-slate-700/50">
+                <div
+                  key={index}
+                  {...drag.item}
+                  className={cn('space-y-3 transition', drag.isDragging && 'opacity-50')}
+                >
+                  <div
+                    className={cn(
+                      'p-4 bg-slate-900/30 rounded-lg border border-slate-700/50 transition',
+                      drag.isOver && 'border-violet-500/60 bg-violet-500/5'
+                    )}
+                  >
                     {/* Editable Fields */}
                     <div className="space-y-2 mb-3">
-                      <input
-                        type="text"
-                        value={pub.title}
-                        onChange={(e) => updatePublication(index, { title: e.target.value })}
-                        placeholder="Title (required)"
-                        className="w-full px-3 py-2 bg-slate-900/50 border border-slate-700 rounded text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 text-sm font-medium"
-                      />
+                      <div className="flex items-center gap-1.5">
+                        <button type="button" {...drag.handle} className={gripClassName}>
+                          <GripVertical className="w-3.5 h-3.5" />
+                        </button>
+                        <input
+                          type="text"
+                          value={pub.title}
+                          onChange={(e) => updatePublication(index, { title: e.target.value })}
+                          placeholder="Title (required)"
+                          className="flex-1 px-3 py-2 bg-slate-900/50 border border-slate-700 rounded text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 text-sm font-medium"
+                        />
+                      </div>
                       <div className="grid grid-cols-2 gap-2">
                         <input
                           type="text"
@@ -638,6 +843,132 @@ export default function MoreTab({ projects, languages, certifications, publicati
           </button>
         </div>
       </div>
+
+      {/* Custom sections */}
+      <div>
+        <h3 className="text-sm font-semibold text-slate-300 mb-1">Other sections</h3>
+        <p className="text-xs text-slate-500 mb-3">
+          Volunteering, awards, memberships, licences, references or a section of your own. Move them under Section order above.
+        </p>
+
+        {sections.length > 0 && (
+          <div className="space-y-4 mb-4">
+            {sections.map((section, sectionIndex) => {
+              const preset = CUSTOM_SECTION_PRESETS[section.kind] || CUSTOM_SECTION_PRESETS.custom
+              return (
+                <div key={section.id} className="p-3 bg-slate-900/30 rounded-lg border border-slate-700/50 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <input
+                      type="text"
+                      value={section.heading}
+                      onChange={(e) => updateCustomSection(sectionIndex, { heading: e.target.value })}
+                      placeholder={preset.heading}
+                      className="flex-1 px-3 py-1.5 bg-slate-900/50 border border-slate-700 rounded text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 text-sm font-medium"
+                    />
+                    <button
+                      onClick={() => removeCustomSection(sectionIndex)}
+                      title="Remove section"
+                      className="p-1 text-red-400 hover:text-red-300"
+                    >
+                      <Trash2 className="w-3 h-3" />
+                    </button>
+                  </div>
+                  <p className="text-xs text-slate-500">{preset.hint}</p>
+
+                  {section.items.map((item, itemIndex) => {
+                    const drag = bind(`custom-${section.id}`, itemIndex, section.items.length, (from, to) =>
+                      moveCustomItem(sectionIndex, from, to)
+                    )
+                    return (
+                      <div
+                        key={item.id}
+                        {...drag.item}
+                        className={cn(
+                          'space-y-2 p-3 bg-slate-900/20 rounded-lg border border-slate-700/30 transition',
+                          drag.isOver && 'border-violet-500/60 bg-violet-500/5',
+                          drag.isDragging && 'opacity-50'
+                        )}
+                      >
+                        <div className="flex items-center gap-2">
+                          <button type="button" {...drag.handle} className={gripClassName}>
+                            <GripVertical className="w-3.5 h-3.5" />
+                          </button>
+                          <input
+                            type="text"
+                            value={item.title}
+                            onChange={(e) => updateCustomItem(sectionIndex, itemIndex, { title: e.target.value })}
+                            placeholder={preset.title}
+                            className="flex-1 px-3 py-1.5 bg-slate-900/50 border border-slate-700 rounded text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 text-sm"
+                          />
+                          <button
+                            onClick={() => removeCustomItem(sectionIndex, itemIndex)}
+                            title="Remove"
+                            className="p-1 text-red-400 hover:text-red-300"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </button>
+                        </div>
+                        <div className="grid grid-cols-2 gap-2">
+                          <input
+                            type="text"
+                            value={item.subtitle || ''}
+                            onChange={(e) => updateCustomItem(sectionIndex, itemIndex, { subtitle: e.target.value })}
+                            placeholder={preset.subtitle}
+                            className="px-3 py-1.5 bg-slate-900/50 border border-slate-700 rounded text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 text-sm"
+                          />
+                          <input
+                            type="text"
+                            value={item.date || ''}
+                            onChange={(e) => updateCustomItem(sectionIndex, itemIndex, { date: e.target.value })}
+                            placeholder={preset.date}
+                            className="px-3 py-1.5 bg-slate-900/50 border border-slate-700 rounded text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 text-sm"
+                          />
+                        </div>
+                        <textarea
+                          value={item.description || ''}
+                          onChange={(e) => updateCustomItem(sectionIndex, itemIndex, { description: e.target.value })}
+                          placeholder={preset.description}
+                          rows={2}
+                          className="w-full px-3 py-1.5 bg-slate-900/50 border border-slate-700 rounded text-slate-100 placeholder-slate-500 focus:outline-none focus:ring-2 focus:ring-violet-500 text-sm resize-y"
+                        />
+                      </div>
+                    )
+                  })}
+
+                  <button
+                    onClick={() => addCustomItem(sectionIndex)}
+                    className="w-full py-1.5 px-3 bg-violet-600/20 text-violet-300 border border-violet-500/30 rounded hover:bg-violet-600/30 text-sm font-medium flex items-center justify-center gap-1"
+                  >
+                    <Plus className="w-3 h-3" />
+                    Add Entry
+                  </button>
+                </div>
+              )
+            })}
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <select
+            value={newSectionKind}
+            onChange={(e) => setNewSectionKind(e.target.value as CvCustomSectionKind)}
+            className="flex-1 px-3 py-2 bg-slate-900/50 border border-slate-700 rounded-lg text-slate-100 focus:outline-none focus:ring-2 focus:ring-violet-500 text-sm"
+          >
+            {CUSTOM_SECTION_KINDS.map((kind) => (
+              <option key={kind} value={kind}>
+                {kind === 'custom' ? 'Your own section' : CUSTOM_SECTION_PRESETS[kind].heading}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={addCustomSection}
+            className="px-4 py-2 bg-violet-600 text-white rounded-lg hover:bg-violet-500 transition text-sm flex items-center gap-1"
+          >
+            <Plus className="w-3 h-3" />
+            Add Section
+          </button>
+        </div>
+      </div>
     </div>
   )
 }
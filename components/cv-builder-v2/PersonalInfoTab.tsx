@@ -1,4 +1,4 @@
-import { CvData } from '@/app/cv-builder-v2/page'
+import { CvData } from '@/lib/cv-schema'
 
 interface PersonalInfoTabProps {
   personalInfo: CvData['personalInfo']
@@ -1,14 +1,18 @@
 import { useState, useEffect, useCallback } from 'react'
 import { Sparkles, Loader2, Undo2, X, CheckCircle2, AlertCircle, AlertTriangle, Zap, Check, Copy } from 'lucide-react'
-import { CvData } from '@/app/cv-builder-v2/page'
+import { CvData } from '@/lib/cv-schema'
 import { hasSummaryGrammarOrSpellingIssues } from '@/lib/cv-summary-grammar-detect'
 import { getAiApiErrorMessage, handleAiClientError } from '@/lib/ai-client-errors'
+import type { UnverifiedClaim } from '@/lib/hallucination-guard'
+import { HighlightedClaimsText, UnverifiedClaimsNotice } from '@/components/UnverifiedClaims'
 
 interface SummaryTabProps {
   summary: string
   personalInfo: CvData['personalInfo']
   skills: string[]
   experience?: CvData['experience']
+  /** The whole CV, sent to the AI route so the summary is fact-checked against it */
+  cvData?: CvData
   onUpdate: (summary: string) => void
   onLoadingChange: (loading: boolean) => void
 }
@@ -16,7 +20,7 @@ interface SummaryTabProps {
 type QualityStatus = 'strong' | 'good' | 'needs-improvement' | null
 type FeedbackItem = { type: 'success' | 'warning' | 'error'; text: string }
 
-export default function SummaryTab({ summary, personalInfo, skills, experience, onUpdate, onLoadingChange }: SummaryTabProps) {
+export default function SummaryTab({ summary, personalInfo, skills, experience, cvData, onUpdate, onLoadingChange }: SummaryTabProps) {
   const [previousSummary, setPreviousSummary] = useState<string>('')
   const [aiLoading, setAiLoading] = useState<string | null>(null)
   const [showKeywordModal, setShowKeywordModal] = useState(false)
@@ -33,6 +37,7 @@ export default function SummaryTab({ summary, personalInfo, skills, experience,
   
   // Suggestion Card State
   const [suggestedSummary, setSuggestedSummary] = useState<string>('')
+  const [suggestedClaims, setSuggestedClaims] = useState<UnverifiedClaim[]>([])
   const [suggestionMode, setSuggestionMode] = useState<string>('')
   const [isSuggesting, setIsSuggesting] = useState(false)
   const [showSuggestionCard, setShowSuggestionCard] = useState(false)
@@ -195,6 +200,7 @@ export default function SummaryTab({ summary, personalInfo, skills, experience,
           instruction: prompt,
           latestRole: getLatestRole(),
           experiencePreview: getExperiencePreview(),
+          cvData,
         }),
       })
 
@@ -208,6 +214,7 @@ export default function SummaryTab({ summary, personalInfo, skills, experience,
         }
         
         setSuggestedSummary(data.summary)
+        setSuggestedClaims(Array.isArray(data.unverified) ? data.unverified : [])
         setSuggestionMode(modeLabel)
         setShowSuggestionCard(true)
         
@@ -252,6 +259,7 @@ export default function SummaryTab({ summary, personalInfo, skills, experience,
       }
       
       setSuggestedSummary('')
+      setSuggestedClaims([])
       setSuggestionMode('')
       setShowSuggestionCard(false)
       setSimilarityWarning(false)
@@ -260,6 +268,7 @@ export default function SummaryTab({ summary, personalInfo, skills, experience,
 
   const handleCancelSuggestion = () => {
     setSuggestedSummary('')
+    setSuggestedClaims([])
     setSuggestionMode('')
     setShowSuggestionCard(false)
     setSimilarityWarning(false)
@@ -302,6 +311,7 @@ Important: If there are NO grammar or spelling issues, return the EXACT same tex
           instruction: prompt,
           latestRole: getLatestRole(),
           experiencePreview: getExperiencePreview(),
+          cvData,
         }),
       })
 
@@ -319,6 +329,7 @@ Important: If there are NO grammar or spelling issues, return the EXACT same tex
         } else {
           // Grammar fixes found - show suggestion card
           setSuggestedSummary(data.summary)
+          setSuggestedClaims(Array.isArray(data.unverified) ? data.unverified : [])
           setSuggestionMode('Grammar Fix')
           setShowSuggestionCard(true)
           setSimilarityWarning(false)
@@ -542,13 +553,15 @@ Important: If there are NO grammar or spelling issues, return the EXACT same tex
             {/* Preview box */}
             <div className="p-3 bg-slate-900/50 border border-slate-700/50 rounded-lg">
               <p className="text-sm text-slate-200 leading-relaxed whitespace-pre-wrap">
-                {suggestedSummary}
+                <HighlightedClaimsText text={suggestedSummary} claims={suggestedClaims} />
               </p>
               <div className="mt-2 text-xs text-slate-500">
                 {suggestedSummary.trim().split(/\s+/).length} words
               </div>
             </div>
 
+            <UnverifiedClaimsNotice claims={suggestedClaims} />
+
             {/* Action buttons */}
             <div className="flex gap-2">
               <button
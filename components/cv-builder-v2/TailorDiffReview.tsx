@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react'
+import { Check, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import type { TailorChange } from '@/lib/cv-tailor'
+
+interface TailorDiffReviewProps {
+  changes: TailorChange[]
+  source: 'ai' | 'fallback'
+  missingKeywords: string[]
+  onApply: (acceptedIds: string[]) => void
+  onDiscard: () => void
+}
+
+function renderValue(value: string | string[], tone: 'before' | 'after') {
+  const className = tone === 'before' ? 'text-slate-500' : 'text-violet-200'
+  if (Array.isArray(value)) {
+    return (
+      <ul className={cn('space-y-0.5 pl-4 list-disc text-[11px]', className)}>
+        {value.filter((item) => item.trim()).map((item, idx) => (
+          <li key={idx}>{item}</li>
+        ))}
+      </ul>
+    )
+  }
+  return <p className={cn('text-[11px] whitespace-pre-wrap', className)}>{value}</p>
+}
+
+export default function TailorDiffReview({
+  changes,
+  source,
+  missingKeywords,
+  onApply,
+  onDiscard,
+}: TailorDiffReviewProps) {
+  // Every change starts accepted; the user rejects what they don't want
+  const [accepted, setAccepted] = useState<Set<string>>(new Set(changes.map((change) => change.id)))
+
+  useEffect(() => {
+    setAccepted(new Set(changes.map((change) => change.id)))
+  }, [changes])
+
+  const toggle = (id: string, value: boolean) => {
+    setAccepted((prev) => {
+      const next = new Set(prev)
+      if (value) next.add(id)
+      else next.delete(id)
+      return next
+    })
+  }
+
+  return (
+    <div className="p-3 bg-violet-600/10 border border-violet-500/30 rounded-lg space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <h4 className="text-xs font-semibold text-violet-300">Tailored CV – review changes</h4>
+        <span className="text-[10px] text-slate-400">
+          {source === 'ai' ? 'AI reworded + ranked' : 'Ranked by job keywords (no AI)'}
+        </span>
+      </div>
+
+      {changes.length === 0 ? (
+        <p className="text-xs text-slate-400">Your CV already lines up with this job – nothing to change.</p>
+      ) : (
+        <div className="space-y-2 max-h-80 overflow-y-auto pr-1">
+          {changes.map((change) => {
+            const isAccepted = accepted.has(change.id)
+            return (
+              <div
+                key={change.id}
+                className={cn(
+                  'rounded-lg border p-2.5 transition',
+                  isAccepted ? 'border-violet-500/40 bg-slate-950/60' : 'border-slate-700/40 bg-slate-950/30 opacity-70'
+                )}
+              >
+                <div className="flex items-start justify-between gap-2 mb-1.5">
+                  <div>
+                    <div className="text-xs font-medium text-slate-200">{change.label}</div>
+                    <div className="text-[10px] text-slate-400">{change.reason}</div>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    <button
+                      onClick={() => toggle(change.id, true)}
+                      className={cn(
+                        'inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-[10px] font-semibold border transition',
+                        isAccepted
+                          ? 'border-green-500/60 bg-green-500/20 text-green-300'
+                          : 'border-slate-700/60 text-slate-400 hover:text-slate-200'
+                      )}
+                    >
+                      <Check className="w-3 h-3" />
+                      Accept
+                    </button>
+                    <button
+                      onClick={() => toggle(change.id, false)}
+                      className={cn(
+                        'inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-[10px] font-semibold border transition',
+                        !isAccepted
+                          ? 'border-red-500/60 bg-red-500/20 text-red-300'
+                          : 'border-slate-700/60 text-slate-400 hover:text-slate-200'
+                      )}
+                    >
+                      <X className="w-3 h-3" />
+                      Reject
+                    </button>
+                  </div>
+                </div>
+                <div className="grid gap-2 sm:grid-cols-2">
+                  <div>
+                    <div className="text-[10px] uppercase tracking-wide text-slate-500 mb-0.5">Before</div>
+                    {renderValue(change.before, 'before')}
+                  </div>
+                  <div>
+                    <div className="text-[10px] uppercase tracking-wide text-slate-500 mb-0.5">After</div>
+                    {renderValue(change.after, 'after')}
+                  </div>
+                </div>
+              </div>
+            )
+          })}
+        </div>
+      )}
+
+      {missingKeywords.length > 0 && (
+        <div className="text-[11px] text-slate-400">
+          <span className="text-amber-300">Not in your CV yet: </span>
+          {missingKeywords.join(', ')}
+          <span className="block text-[10px] text-slate-500">Only add these if they genuinely apply to you.</span>
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-2">
+        <button
+          onClick={onDiscard}
+          className="rounded-full border border-slate-700/60 bg-slate-900/40 px-3 py-1 text-xs text-slate-300 hover:text-slate-100 hover:border-slate-600/80 transition"
+        >
+          Discard
+        </button>
+        {changes.length > 0 && (
+          <button
+            onClick={() => onApply(Array.from(accepted))}
+            disabled={accepted.size === 0}
+            className="rounded-full border border-violet-500/60 text-violet-200 bg-violet-500/10 hover:bg-violet-500/20 px-3 py-1 text-xs font-semibold transition disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            Apply {accepted.size} change{accepted.size === 1 ? '' : 's'}
+          </button>
+        )}
+      </div>
+    </div>
+  )
+}
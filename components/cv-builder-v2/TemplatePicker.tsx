@@ -1,4 +1,4 @@
-import { CvTemplateId } from '@/app/cv-builder-v2/page'
+import { CvTemplateId } from '@/lib/cv-schema'
 import { cn } from '@/lib/utils'
 
 interface TemplatePickerProps {
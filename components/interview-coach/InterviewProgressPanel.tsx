@@ -0,0 +1,209 @@
+'use client'
+
+import { useState, useEffect, useMemo } from 'react'
+import { Loader2, TrendingUp, TrendingDown, Minus } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  INTERVIEW_CATEGORY_LABELS,
+  type InterviewAttempt,
+  type InterviewCategoryProgress,
+  type InterviewPracticeMode,
+  type InterviewProgressPoint,
+} from '@/lib/interview-history'
+
+const MODE_LABELS: Record<InterviewPracticeMode, string> = {
+  written: 'Writing',
+  voice: 'Voice',
+  hard: 'Hard Mode',
+  simulation: 'Simulation',
+}
+
+// Small inline SVG line chart of daily averages (0-10 scale)
+function ScoreSparkline({ points }: { points: InterviewProgressPoint[] }) {
+  const width = 160
+  const height = 40
+  if (points.length === 0) return null
+
+  const coords = points.map((point, idx) => {
+    const x = points.length === 1 ? width / 2 : (idx / (points.length - 1)) * width
+    const y = height - (point.averageScore / 10) * height
+    return `${x.toFixed(1)},${y.toFixed(1)}`
+  })
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-10" preserveAspectRatio="none" aria-hidden>
+      <polyline points={coords.join(' ')} fill="none" stroke="currentColor" strokeWidth={2} className="text-violet-400" />
+      {coords.map((coord, idx) => {
+        const [cx, cy] = coord.split(',')
+        return <circle key={idx} cx={cx} cy={cy} r={2.5} className="fill-violet-300" />
+      })}
+    </svg>
+  )
+}
+
+function TrendBadge({ change }: { change: number | null }) {
+  if (change === null) {
+    return <span className="text-[10px] text-slate-500">1 day of practice</span>
+  }
+  const Icon = change > 0 ? TrendingUp : change < 0 ? TrendingDown : Minus
+  return (
+    <span
+      className={cn(
+        'inline-flex items-center gap-1 text-[10px] font-semibold',
+        change > 0 ? 'text-green-400' : change < 0 ? 'text-red-400' : 'text-slate-400'
+      )}
+    >
+      <Icon className="w-3 h-3" />
+      {change > 0 ? '+' : ''}
+      {change.toFixed(1)}
+    </span>
+  )
+}
+
+/**
+ * Practice history from /api/interview/history: score trend per question
+ * category plus the most recent saved answers.
+ */
+export default function InterviewProgressPanel() {
+  const [attempts, setAttempts] = useState<InterviewAttempt[]>([])
+  const [progress, setProgress] = useState<InterviewCategoryProgress[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [modeFilter, setModeFilter] = useState<InterviewPracticeMode | 'all'>('all')
+
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      setLoading(true)
+      setError(null)
+      try {
+        const query = modeFilter === 'all' ? '' : `?mode=${modeFilter}`
+        const response = await fetch(`/api/interview/history${query}`)
+        if (response.status === 401) {
+          if (!cancelled) setError('Sign in to keep a history of your practice answers.')
+          return
+        }
+        const data = await response.json()
+        if (!response.ok || !data.ok) {
+          throw new Error(data.error || 'Failed to load history')
+        }
+        if (!cancelled) {
+          setAttempts(data.attempts || [])
+          setProgress(data.progress || [])
+        }
+      } catch (err) {
+        console.error('[Interview History] Failed to load:', err)
+        if (!cancelled) setError('Could not load your practice history. Please try again.')
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [modeFilter])
+
+  const recentAttempts = useMemo(() => attempts.slice(0, 10), [attempts])
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3 flex-wrap">
+        <div>
+          <h2 className="text-xl font-heading font-semibold">Your Progress</h2>
+          <p className="text-xs text-gray-400">Average score per question type, day by day (0-10)</p>
+        </div>
+        <div className="flex gap-1">
+          {(['all', 'written', 'voice', 'hard', 'simulation'] as const).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => setModeFilter(mode)}
+              className={cn(
+                'px-2.5 py-1 rounded-full text-[11px] border transition',
+                modeFilter === mode
+                  ? 'border-purple-400/60 bg-purple-500/20 text-purple-200'
+                  : 'border-slate-700/60 text-gray-400 hover:text-gray-200'
+              )}
+            >
+              {mode === 'all' ? 'All' : MODE_LABELS[mode]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-12 text-gray-400 text-sm gap-2">
+          <Loader2 className="w-4 h-4 animate-spin" />
+          Loading your practice history...
+        </div>
+      ) : error ? (
+        <p className="text-sm text-gray-400 py-8 text-center">{error}</p>
+      ) : attempts.length === 0 ? (
+        <p className="text-sm text-gray-400 py-8 text-center">
+          No saved answers yet. Answers you save in Writing, Voice, Hard Mode and Simulation will show up here.
+        </p>
+      ) : (
+        <>
+          <div className="grid gap-3 sm:grid-cols-2">
+            {progress.map((item) => (
+              <div key={item.category} className="rounded-xl border border-slate-700/60 bg-slate-900/50 p-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <div className="text-sm font-medium text-slate-100">{item.label}</div>
+                    <div className="text-[10px] text-slate-500">
+                      {item.attempts} answer{item.attempts === 1 ? '' : 's'} · avg {item.averageScore?.toFixed(1) ?? '–'}
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-lg font-semibold text-purple-300">{item.latestScore?.toFixed(1) ?? '–'}</div>
+                    <TrendBadge change={item.change} />
+                  </div>
+                </div>
+                <ScoreSparkline points={item.points} />
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold mb-2">Recent answers</h3>
+            <div className="space-y-2">
+              {recentAttempts.map((attempt, idx) => (
+                <details key={attempt.id || idx} className="rounded-lg border border-slate-800 bg-slate-900/40 p-2.5">
+                  <summary className="cursor-pointer text-xs text-slate-200 flex items-center gap-2">
+                    <span className="px-1.5 py-0.5 rounded bg-slate-800 text-[10px] text-slate-400">{MODE_LABELS[attempt.mode]}</span>
+                    <span className="flex-1 line-clamp-1">{attempt.question}</span>
+                    <span className="text-purple-300 font-semibold">{attempt.score?.toFixed(1) ?? '–'}</span>
+                  </summary>
+                  <div className="mt-2 space-y-2 text-xs text-gray-300">
+                    <div className="text-[10px] text-slate-500">
+                      {INTERVIEW_CATEGORY_LABELS[attempt.category]} · {new Date(attempt.createdAt).toLocaleDateString('en-GB')}
+                      {attempt.jobTitle ? ` · ${attempt.jobTitle}` : ''}
+                    </div>
+                    <p className="whitespace-pre-wrap">{attempt.answer}</p>
+                    {attempt.feedback && <p className="text-gray-400">{attempt.feedback}</p>}
+                    {attempt.strengths.length > 0 && (
+                      <ul className="list-disc pl-4 text-green-300/90">
+                        {attempt.strengths.map((item, i) => <li key={i}>{item}</li>)}
+                      </ul>
+                    )}
+                    {attempt.weaknesses.length > 0 && (
+                      <ul className="list-disc pl-4 text-amber-300/90">
+                        {attempt.weaknesses.map((item, i) => <li key={i}>{item}</li>)}
+                      </ul>
+                    )}
+                    {attempt.improvedAnswer && (
+                      <div>
+                        <div className="text-[10px] uppercase tracking-wide text-slate-500">Improved answer</div>
+                        <p className="whitespace-pre-wrap text-purple-200/90">{attempt.improvedAnswer}</p>
+                      </div>
+                    )}
+                  </div>
+                </details>
+              ))}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import { useRouter } from 'next/navigation'
+import { Bell, MapPin, CheckCheck } from 'lucide-react'
+import { getJobSessionCacheKey } from '@/lib/jobs/parse-id'
+import type { SavedSearchMatch } from '@/lib/jobs/saved-searches'
+
+/**
+ * New jobs found by the daily re-run of the user's saved searches
+ * (/api/jobs/saved-searches/matches). Renders nothing until there is a match.
+ */
+export default function NewJobMatchesPanel() {
+  const router = useRouter()
+  const [matches, setMatches] = useState<SavedSearchMatch[]>([])
+  const [unseenCount, setUnseenCount] = useState(0)
+
+  useEffect(() => {
+    let cancelled = false
+    const load = async () => {
+      try {
+        const response = await fetch('/api/jobs/saved-searches/matches')
+        if (!response.ok) return // 401 when signed out
+        const data = await response.json()
+        if (!cancelled && data.ok) {
+          setMatches(data.matches || [])
+          setUnseenCount(data.unseenCount || 0)
+        }
+      } catch (error) {
+        console.error('[SavedSearches] Failed to load new matches:', error)
+      }
+    }
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [])
+
+  const markSeen = async (ids?: string[]) => {
+    const remaining = ids ? matches.filter((match) => !ids.includes(match.id)) : []
+    setMatches(remaining)
+    setUnseenCount((count) => (ids ? Math.max(0, count - ids.length) : 0))
+    try {
+      await fetch('/api/jobs/saved-searches/matches', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(ids ? { ids } : {}),
+      })
+    } catch (error) {
+      console.error('[SavedSearches] Failed to mark matches as seen:', error)
+    }
+  }
+
+  const handleOpen = (match: SavedSearchMatch) => {
+    // Same sessionStorage handoff as the job finder (providers without a detail endpoint)
+    const cacheKey = getJobSessionCacheKey(match.job.id)
+    if (cacheKey) {
+      try {
+        sessionStorage.setItem(cacheKey, JSON.stringify({ ...match.job, redirect_url: match.job.link }))
+      } catch (error) {
+        console.error('[SavedSearches] Failed to cache job:', error)
+      }
+    }
+    markSeen([match.id])
+    router.push(`/job-details/${encodeURIComponent(match.job.id)}`)
+  }
+
+  if (matches.length === 0) return null
+
+  return (
+    <section className="mt-10">
+      <div className="flex items-center justify-between mb-4 gap-3">
+        <div className="flex items-center gap-3">
+          <h2 className="text-xl font-bold text-slate-50 tracking-tight flex items-center gap-2">
+            <Bell className="w-5 h-5 text-violet-300" />
+            New Matches
+          </h2>
+          <span className="px-2.5 py-1 rounded-full bg-violet-500/20 border border-violet-500/30 text-xs font-medium text-violet-200">
+            {unseenCount} new
+          </span>
+        </div>
+        <button
+          onClick={() => markSeen()}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-slate-300 hover:text-violet-100 border border-slate-600/70 hover:border-violet-400/60 rounded-full transition"
+        >
+          <CheckCheck className="w-3.5 h-3.5" />
+          Mark all as seen
+        </button>
+      </div>
+      <p className="text-sm text-slate-400 mb-4">Jobs that appeared since your saved searches last ran</p>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        {matches.map((match) => (
+          <button
+            key={match.id}
+            onClick={() => handleOpen(match)}
+            className="text-left rounded-xl border border-slate-700/60 bg-slate-950/60 hover:border-violet-400/60 transition p-4"
+          >
+            <div className="text-sm font-semibold text-slate-50">{match.job.title}</div>
+            <div className="text-xs text-violet-300 mb-2">{match.job.company}</div>
+            <div className="flex items-center gap-3 text-xs text-slate-400 flex-wrap">
+              <span className="inline-flex items-center gap-1">
+                <MapPin className="w-3 h-3" />
+                {match.job.location}
+              </span>
+              {match.job.salary && <span>{match.job.salary}</span>}
+              {match.searchName && (
+                <span className="px-1.5 py-0.5 rounded bg-slate-800 text-slate-400">{match.searchName}</span>
+              )}
+              <span>{new Date(match.foundAt).toLocaleDateString('en-GB')}</span>
+            </div>
+          </button>
+        ))}
+      </div>
+    </section>
+  )
+}
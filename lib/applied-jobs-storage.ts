@@ -1,59 +1,201 @@
-// Applied jobs storage utility
-// NOTE: localStorage persistence has been removed - all functions now use in-memory state only
+// Applied jobs pipeline
+// Applications are persisted in Supabase (applied_jobs table) through the
+// /api/jobs/applied/* routes. The in-memory list below is only a client-side
+// mirror of the last fetch so synchronous readers (e.g. JAZ) can check status.
+
+/**
+ * Pipeline stages, in board order. 'rejected' and 'withdrawn' are closed stages.
+ */
+export const APPLICATION_STAGES = [
+  'saved',
+  'applied',
+  'screening',
+  'interview',
+  'offer',
+  'rejected',
+  'withdrawn',
+] as const
+
+export type ApplicationStage = typeof APPLICATION_STAGES[number]
+
+export const APPLICATION_STAGE_LABELS: Record<ApplicationStage, string> = {
+  saved: 'Saved',
+  applied: 'Applied',
+  screening: 'Screening',
+  interview: 'Interview',
+  offer: 'Offer',
+  rejected: 'Rejected',
+  withdrawn: 'Withdrawn',
+}
+
+export const CLOSED_APPLICATION_STAGES: ApplicationStage[] = ['rejected', 'withdrawn']
+
+export interface StageHistoryEntry {
+  stage: ApplicationStage
+  at: string // ISO date string
+  note?: string
+}
 
 export interface AppliedJob {
-  id: string              // internal JobAZ id or the external job ID from the API
+  id: string              // internal JobAZ id or the external job ID from the API (job_key)
+  rowId?: string          // applied_jobs.id (needed for PATCH/DELETE)
   title: string
   company: string
   location?: string
   sourceSite?: string     // e.g. Adzuna, Reed, etc.
   jobUrl?: string         // external job link
   createdAt: string       // ISO date string
-  status?: 'submitted' | 'in-progress' | 'not-started'
+  updatedAt?: string
+  stage: ApplicationStage
+  stageHistory: StageHistoryEntry[]
+  notes?: string
+  cvId?: string           // CV from the library that was sent
+  cvVersionId?: string    // exact CV version that was sent
+  coverLetterId?: string
+  coverLetterSnapshot?: string // cover letter text as it was sent
   hasCv?: boolean
   hasCover?: boolean
 }
 
-// In-memory storage (session only, no persistence)
+export function isApplicationStage(value: unknown): value is ApplicationStage {
+  return typeof value === 'string' && (APPLICATION_STAGES as readonly string[]).includes(value)
+}
+
+/**
+ * True once the application has actually been sent (anything past 'saved')
+ */
+export function isApplicationSubmitted(job: Pick<AppliedJob, 'stage'> | null | undefined): boolean {
+  return !!job && job.stage !== 'saved'
+}
+
+/**
+ * True when `stage` comes before `other` in board order, e.g. 'saved' before 'applied'
+ */
+export function isStageBefore(stage: ApplicationStage, other: ApplicationStage): boolean {
+  return APPLICATION_STAGES.indexOf(stage) < APPLICATION_STAGES.indexOf(other)
+}
+
+/**
+ * Append a stage change to the history; no-op when the stage is unchanged
+ */
+export function appendStageHistory(
+  history: StageHistoryEntry[],
+  stage: ApplicationStage,
+  note?: string,
+  at: string = new Date().toISOString()
+): StageHistoryEntry[] {
+  const last = history[history.length - 1]
+  if (last && last.stage === stage) return history
+  return [...history, note ? { stage, at, note } : { stage, at }]
+}
+
+/**
+ * Map an applied_jobs row (as returned by the API) to an AppliedJob.
+ * Rows created before the pipeline existed only carry data.status, so they
+ * are treated as 'applied'.
+ */
+export function toAppliedJob(row: any): AppliedJob {
+  const data = row?.data || {}
+  const stage: ApplicationStage = isApplicationStage(row?.stage)
+    ? row.stage
+    : data.status === 'not-started'
+    ? 'saved'
+    : 'applied'
+  const createdAt = row?.applied_at || row?.created_at || new Date().toISOString()
+  const stageHistory: StageHistoryEntry[] = Array.isArray(row?.stage_history) && row.stage_history.length > 0
+    ? row.stage_history.filter((entry: any) => isApplicationStage(entry?.stage))
+    : [{ stage, at: createdAt }]
+
+  return {
+    id: row?.job_key || row?.id || '',
+    rowId: row?.id || undefined,
+    title: row?.job_title || row?.title || '',
+    company: row?.company || '',
+    location: row?.location || undefined,
+    sourceSite: row?.source || undefined,
+    jobUrl: row?.url || undefined,
+    createdAt,
+    updatedAt: row?.updated_at || undefined,
+    stage,
+    stageHistory,
+    notes: row?.notes || undefined,
+    cvId: row?.cv_id || undefined,
+    cvVersionId: row?.cv_version_id || undefined,
+    coverLetterId: row?.cover_letter_id || undefined,
+    coverLetterSnapshot: row?.cover_letter_snapshot || undefined,
+    hasCv: !!(row?.cv_id || data.hasCv),
+    hasCover: !!(row?.cover_letter_id || row?.cover_letter_snapshot || data.hasCover),
+  }
+}
+
+// Client-side mirror of the last /api/jobs/applied/list response
 let appliedJobsMemory: AppliedJob[] = []
 
+function notifyJobStateChanged(): void {
+  // Dispatch custom event for JAZ to detect state changes
+  if (typeof window !== 'undefined') {
+    window.dispatchEvent(new Event('jobaz-job-state-changed'))
+  }
+}
+
 /**
- * Get all applied jobs (in-memory only)
+ * Get the applied jobs from the last fetch
  */
 export function getAppliedJobs(): AppliedJob[] {
   return appliedJobsMemory
 }
 
 /**
- * Add a job to the applied jobs list (prevents duplicates by id)
+ * Replace the mirrored list (called after fetching from the API)
+ */
+export function setAppliedJobs(jobs: AppliedJob[]): void {
+  appliedJobsMemory = jobs
+  notifyJobStateChanged()
+}
+
+/**
+ * Fetch the pipeline from the API and refresh the mirror.
+ * Returns an empty list when signed out or on error.
+ */
+export async function fetchAppliedJobs(): Promise<AppliedJob[]> {
+  try {
+    const response = await fetch('/api/jobs/applied/list')
+    if (!response.ok) {
+      setAppliedJobs([])
+      return []
+    }
+    const data = await response.json()
+    const jobs: AppliedJob[] = data.ok ? (data.jobs || []).map(toAppliedJob) : []
+    setAppliedJobs(jobs)
+    return jobs
+  } catch (error) {
+    console.error('[AppliedJobs] Error fetching applied jobs:', error)
+    setAppliedJobs([])
+    return []
+  }
+}
+
+/**
+ * Add or replace a job in the mirror (prevents duplicates by id)
  */
 export function addAppliedJob(job: AppliedJob): void {
   const existingIndex = appliedJobsMemory.findIndex(j => j.id === job.id)
-  
+
   if (existingIndex >= 0) {
-    // Update existing job instead of duplicating
-    appliedJobsMemory[existingIndex] = job
+    appliedJobsMemory = appliedJobsMemory.map((j, idx) => (idx === existingIndex ? job : j))
   } else {
-    // Add new job
-    appliedJobsMemory.push(job)
-  }
-  
-  // Dispatch custom event for JAZ to detect state changes
-  if (typeof window !== 'undefined') {
-    window.dispatchEvent(new Event('jobaz-job-state-changed'))
+    appliedJobsMemory = [...appliedJobsMemory, job]
   }
+
+  notifyJobStateChanged()
 }
 
 /**
- * Remove a job from the applied jobs list by id
+ * Remove a job from the mirror by id
  */
 export function removeAppliedJob(jobId: string): void {
   appliedJobsMemory = appliedJobsMemory.filter(j => j.id !== jobId)
-  
-  // Dispatch custom event for JAZ to detect state changes
-  if (typeof window !== 'undefined') {
-    window.dispatchEvent(new Event('jobaz-job-state-changed'))
-  }
+  notifyJobStateChanged()
 }
 
 /**
@@ -67,6 +209,5 @@ export function clearAppliedJobs(): void {
  * Check if a job has been applied for
  */
 export function isJobApplied(jobId: string): boolean {
-  return appliedJobsMemory.some(job => job.id === jobId)
+  return appliedJobsMemory.some(job => job.id === jobId && isApplicationSubmitted(job))
 }
-
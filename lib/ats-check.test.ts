@@ -0,0 +1,62 @@
+/**
+ * Test cases for the ATS parse check on the app's own exports
+ * Run with: npx tsx lib/ats-check.test.ts
+ */
+
+import { Packer } from 'docx'
+import { analyseAtsParse, type AtsCheckReport } from './ats-check'
+import { CV_TEMPLATE_IDS, parseCvData } from './cv-schema'
+import { extractDocxText, extractPdfText } from './cv-text-extract'
+import { buildCvDocx } from './docx-render/cv'
+import { renderCvPdf } from './pdf-render/cv'
+
+// Test helper
+function testCase(name: string, report: AtsCheckReport) {
+  const passed = report.score === 100 && report.issues.length === 0
+
+  console.log(`${passed ? '✅' : '❌'} ${name}`)
+  if (!passed) {
+    console.log(`   Score: ${report.score}`)
+    console.log(`   Issues: ${JSON.stringify(report.issues)}`)
+    console.log(`   ❌ FAILED`)
+  }
+  console.log('')
+
+  return passed
+}
+
+// Two roles at one employer: every role after the first must still be matched
+const cv = parseCvData({
+  personalInfo: { fullName: 'Amy Jones', email: 'amy@example.com', phone: '07700 900123', location: 'Leeds' },
+  summary: 'Caring support worker with six years in residential care.',
+  experience: [
+    { id: '1', jobTitle: 'Senior Carer', company: 'Oak House', location: 'Leeds', startDate: 'Mar 2021', isCurrent: true, bullets: ['Led a team of 4 carers', 'Managed medication rounds'] },
+    { id: '2', jobTitle: 'Care Assistant', company: 'Oak House', location: 'Leeds', startDate: 'Jan 2018', endDate: 'Feb 2021', bullets: ['Supported 12 residents daily', 'Kept care records up to date'] },
+  ],
+  education: [{ degree: 'NVQ Level 3 Health and Social Care', school: 'Leeds City College', year: '2018' }],
+  skills: ['Medication', 'Moving and handling'],
+})
+
+async function run() {
+  if (!cv.ok) throw new Error('Test CV is invalid')
+  let allPassed = true
+
+  for (const template of CV_TEMPLATE_IDS) {
+    const docxText = await extractDocxText(await Packer.toBuffer(buildCvDocx(cv.data, template)))
+    allPassed = testCase(`DOCX export reads back cleanly (${template})`, analyseAtsParse(cv.data, docxText)) && allPassed
+
+    const pdfText = await extractPdfText(renderCvPdf(cv.data, template))
+    allPassed = testCase(`PDF export reads back cleanly (${template})`, analyseAtsParse(cv.data, pdfText)) && allPassed
+  }
+
+  console.log('='.repeat(50))
+  console.log('')
+  if (allPassed) {
+    console.log('✅ All tests passed!')
+  } else {
+    console.log('❌ Some tests failed')
+    process.exit(1)
+  }
+}
+
+run()
@@ -0,0 +1,287 @@
+/**
+ * ATS parse simulation
+ * Compares what an applicant tracking system would read back from an
+ * exported CV (plain text extracted from the PDF/DOCX) with the CvData it
+ * was rendered from. The extracted text is re-parsed with the CV import
+ * heuristics (lib/cv-import.ts), and every problem is reported against the
+ * CvData field it belongs to, using the builder's field paths
+ * ("personalInfo.email", "experience[0].bullets[2]", "skills[3]").
+ */
+
+import type { CvData } from '@/lib/cv-schema'
+import { detectHeading, parseCvText, type CvImportSectionKey } from '@/lib/cv-import'
+import { toAscii } from '@/lib/cv-plaintext'
+import { SECTION_HEADINGS, customSectionHeading, withoutHiddenSections } from '@/lib/cv-sections'
+
+export type AtsIssueSeverity = 'error' | 'warning'
+
+export interface AtsIssue {
+  severity: AtsIssueSeverity
+  /** CvData field path, e.g. "experience[0].startDate" */
+  field: string
+  message: string
+  /** The CV text the issue is about (shortened) */
+  excerpt?: string
+}
+
+export type AtsSectionName = 'summary' | 'experience' | 'education' | 'skills' | 'projects' | 'certifications' | 'languages' | 'publications'
+
+export interface AtsSectionCheck {
+  section: AtsSectionName
+  heading: string
+  detected: boolean
+}
+
+export interface AtsContactCheck {
+  field: keyof CvData['personalInfo']
+  expected: string
+  extracted: string
+  ok: boolean
+}
+
+export interface AtsCheckReport {
+  /** 0-100: 100 means the ATS read everything back as written */
+  score: number
+  sections: AtsSectionCheck[]
+  contact: AtsContactCheck[]
+  issues: AtsIssue[]
+  extractedText: string
+}
+
+// What a parser files each exported heading (SECTION_HEADINGS) under
+const SECTION_PARSED_AS: Record<AtsSectionName, CvImportSectionKey> = {
+  summary: 'summary',
+  experience: 'experience',
+  education: 'education',
+  skills: 'skills',
+  projects: 'other',
+  certifications: 'certifications',
+  languages: 'languages',
+  publications: 'other',
+}
+
+const ERROR_PENALTY = 12
+const WARNING_PENALTY = 4
+
+const MONTH_NAME = '(jan(uary)?|feb(ruary)?|mar(ch)?|apr(il)?|may|june?|july?|aug(ust)?|sep(t(ember)?)?|oct(ober)?|nov(ember)?|dec(ember)?)'
+// Date formats ATS parsers reliably read: "Mar 2019", "March 2019", "03/2019", "2019"
+const RECOGNISED_DATE = new RegExp(`^(${MONTH_NAME}\\.?\\s+\\d{4}|\\d{1,2}\\/\\d{4}|\\d{4})$`, 'i')
+const RECOGNISED_YEAR = /^(\d{4}|\d{4}\s*[-–]\s*(\d{4}|present))$/i
+
+/**
+ * Lowercase ASCII with bullets, page footers and extra whitespace removed,
+ * so text can be compared regardless of how it was wrapped
+ */
+function normalise(text: string): string {
+  return toAscii(text)
+    .toLowerCase()
+    .replace(/page \d+ of \d+/g, ' ')
+    .replace(/(^|\s)[-*](?=\s)/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+function excerpt(text: string): string {
+  const clean = text.replace(/\s+/g, ' ').trim()
+  return clean.length > 80 ? `${clean.slice(0, 77)}...` : clean
+}
+
+function sameContact(field: keyof CvData['personalInfo'], a: string, b: string): boolean {
+  if (field === 'phone') return a.replace(/\D/g, '').replace(/^44/, '0') === b.replace(/\D/g, '').replace(/^44/, '0')
+  const clean = (value: string) => normalise(value).replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/+$/, '')
+  return clean(a) === clean(b)
+}
+
+/**
+ * Compare an export's extracted text with the CvData it came from
+ */
+export function analyseAtsParse(cv: CvData, extractedText: string): AtsCheckReport {
+  // Hidden sections are not exported, so they are not expected in the text
+  cv = withoutHiddenSections(cv)
+  const issues: AtsIssue[] = []
+  const haystack = normalise(extractedText)
+  const parsed = parseCvText(extractedText).cv
+
+  // Text that should appear verbatim; otherwise it was lost or scrambled
+  const checkText = (field: string, text: string | undefined, label: string) => {
+    const value = (text || '').trim()
+    if (!value) return
+    const needle = normalise(value)
+    if (!needle || haystack.includes(needle)) return
+
+    const words = needle.split(' ').filter((word) => word.length > 2)
+    const allWordsPresent = words.length > 0 && words.every((word) => haystack.includes(word))
+    issues.push(
+      allWordsPresent
+        ? {
+            severity: 'warning',
+            field,
+            message: `${label} is split up or mixed with other text when read back. This is usually caused by columns or tables.`,
+            excerpt: excerpt(value),
+          }
+        : { severity: 'error', field, message: `${label} is missing from the text an ATS reads.`, excerpt: excerpt(value) }
+    )
+  }
+
+  // Section headings, each on a line of its own
+  const detectedKeys = new Set(extractedText.split('\n').map((line) => detectHeading(line)).filter(Boolean))
+  const headingLines = new Set(extractedText.split('\n').map((line) => normalise(line)))
+  const hasSection: Record<AtsSectionName, boolean> = {
+    summary: Boolean(cv.summary?.trim()),
+    experience: cv.experience.some((exp) => exp.jobTitle?.trim() || exp.company?.trim()),
+    education: cv.education.some((edu) => edu.degree?.trim() || edu.school?.trim()),
+    skills: cv.skills.some((skill) => skill.trim()),
+    projects: (cv.projects || []).some((project) => project.name?.trim() || project.description?.trim()),
+    certifications: (cv.certifications || []).some((cert) => cert.trim()),
+    languages: (cv.languages || []).some((language) => language.trim()),
+    publications: (cv.publications || []).some((pub) => pub.title?.trim()),
+  }
+  const sections: AtsSectionCheck[] = (Object.keys(SECTION_PARSED_AS) as AtsSectionName[])
+    .filter((section) => hasSection[section])
+    .map((section) => {
+      const heading = SECTION_HEADINGS[section]
+      const parsedAs = SECTION_PARSED_AS[section]
+      const detected = parsedAs === 'other' ? headingLines.has(normalise(heading)) : detectedKeys.has(parsedAs)
+      if (!detected) {
+        issues.push({
+          severity: parsedAs === 'other' ? 'warning' : 'error',
+          field: section,
+          message: `The "${heading}" heading was not found on a line of its own, so this section may be filed under the wrong heading.`,
+        })
+      }
+      return { section, heading, detected }
+    })
+
+  // Contact details as the parser picked them up
+  const contact: AtsContactCheck[] = []
+  for (const field of ['fullName', 'email', 'phone', 'linkedin', 'website'] as const) {
+    const expected = (cv.personalInfo[field] || '').trim()
+    if (!expected) continue
+    const extracted = (parsed.personalInfo[field] || '').trim()
+    const ok = Boolean(extracted) && sameContact(field, expected, extracted)
+    contact.push({ field, expected, extracted, ok })
+    if (!ok) {
+      const label = { fullName: 'Your name', email: 'Your email', phone: 'Your phone number', linkedin: 'Your LinkedIn URL', website: 'Your website' }[field]
+      issues.push({
+        severity: field === 'email' || field === 'phone' ? 'error' : 'warning',
+        field: `personalInfo.${field}`,
+        message: extracted
+          ? `${label} was read as "${extracted}".`
+          : haystack.includes(normalise(expected)) && (field === 'linkedin' || field === 'website')
+            ? `${label} is in the text but is not recognisable as a link. Start it with "https://" or "www.".`
+            : `${label} could not be found.`,
+        excerpt: expected,
+      })
+    }
+  }
+  const location = (cv.personalInfo.location || '').trim()
+  if (location) {
+    const ok = haystack.includes(normalise(location))
+    contact.push({ field: 'location', expected: location, extracted: ok ? location : '', ok })
+    if (!ok) issues.push({ severity: 'warning', field: 'personalInfo.location', message: 'Your location could not be found.', excerpt: location })
+  }
+
+  checkText('summary', cv.summary, 'Your summary')
+
+  // Roles: header recognised, dates readable, bullets intact
+  cv.experience.forEach((exp, index) => {
+    if (!exp.jobTitle?.trim() && !exp.company?.trim()) return
+    const path = `experience[${index}]`
+    const title = normalise(exp.jobTitle || '')
+    const company = normalise(exp.company || '')
+    const match = parsed.experience.find((entry) => {
+      const parsedTitle = normalise(entry.jobTitle || '')
+      const parsedCompany = normalise(entry.company || '')
+      return (!title || parsedTitle.includes(title) || title.includes(parsedTitle)) &&
+        (!company || parsedCompany.includes(company) || parsedTitle.includes(company))
+    })
+
+    checkText(`${path}.jobTitle`, exp.jobTitle, 'This job title')
+    checkText(`${path}.company`, exp.company, 'This company name')
+
+    const dates: Array<['startDate' | 'endDate', string | undefined]> = [['startDate', exp.startDate]]
+    if (!exp.isCurrent) dates.push(['endDate', exp.endDate])
+    for (const [field, value] of dates) {
+      const date = (value || '').trim()
+      if (!date) {
+        issues.push({
+          severity: 'warning',
+          field: `${path}.${field}`,
+          message: field === 'startDate' ? 'This role has no start date, so an ATS cannot work out how long you were there.' : 'This role has no end date. Tick "current" if you still work here.',
+          excerpt: [exp.jobTitle, exp.company].filter(Boolean).join(', '),
+        })
+      } else if (!RECOGNISED_DATE.test(date)) {
+        issues.push({
+          severity: 'warning',
+          field: `${path}.${field}`,
+          message: `"${date}" is not a date format most ATSs recognise. Use "Mar 2019", "03/2019" or "2019".`,
+          excerpt: date,
+        })
+      } else if (match && field === 'startDate' && !match.startDate) {
+        issues.push({ severity: 'warning', field: `${path}.startDate`, message: 'The dates for this role were not picked up from the role header.', excerpt: date })
+      }
+    }
+
+    // An unreadable date is the usual reason a role header is not recognised, so report that alone
+    const hasDateIssue = issues.some((issue) => issue.field === `${path}.startDate` || issue.field === `${path}.endDate`)
+    if (!match && title && !hasDateIssue) {
+      issues.push({
+        severity: 'warning',
+        field: `${path}.jobTitle`,
+        message: 'This role header could not be matched to a job title and company, so the role may be merged with another.',
+        excerpt: [exp.jobTitle, exp.company].filter(Boolean).join(', '),
+      })
+    }
+
+    exp.bullets.forEach((bullet, bulletIndex) => checkText(`${path}.bullets[${bulletIndex}]`, bullet, 'This bullet'))
+  })
+
+  cv.education.forEach((edu, index) => {
+    if (!edu.degree?.trim() && !edu.school?.trim()) return
+    checkText(`education[${index}].degree`, edu.degree, 'This qualification')
+    checkText(`education[${index}].school`, edu.school, 'This school name')
+    const year = (edu.year || '').trim()
+    if (year && !RECOGNISED_YEAR.test(year)) {
+      issues.push({
+        severity: 'warning',
+        field: `education[${index}].year`,
+        message: `"${year}" is not a year format most ATSs recognise. Use "2019" or "2016 - 2019".`,
+        excerpt: year,
+      })
+    }
+  })
+
+  cv.skills.forEach((skill, index) => checkText(`skills[${index}]`, skill, 'This skill'))
+  ;(cv.languages || []).forEach((language, index) => checkText(`languages[${index}]`, language, 'This language'))
+  ;(cv.certifications || []).forEach((cert, index) => checkText(`certifications[${index}]`, cert, 'This certification'))
+  ;(cv.projects || []).forEach((project, index) => {
+    checkText(`projects[${index}].name`, project.name, 'This project name')
+    checkText(`projects[${index}].description`, project.description, 'This project description')
+  })
+  ;(cv.publications || []).forEach((pub, index) => checkText(`publications[${index}].title`, pub.title, 'This publication title'))
+
+  // Custom sections have user-chosen headings, so only check they print on a line of their own
+  ;(cv.customSections || []).forEach((section, index) => {
+    const items = (section.items || []).filter((item) => item.title?.trim())
+    if (items.length === 0) return
+    const heading = customSectionHeading(section)
+    if (!headingLines.has(normalise(heading))) {
+      issues.push({
+        severity: 'warning',
+        field: `customSections[${index}].heading`,
+        message: `The "${heading}" heading was not found on a line of its own, so this section may be merged into the one before it.`,
+      })
+    }
+    section.items.forEach((item, itemIndex) => {
+      if (!item.title?.trim()) return
+      checkText(`customSections[${index}].items[${itemIndex}].title`, item.title, 'This entry')
+      checkText(`customSections[${index}].items[${itemIndex}].description`, item.description, 'This description')
+    })
+  })
+
+  const errors = issues.filter((issue) => issue.severity === 'error').length
+  const warnings = issues.length - errors
+  const score = Math.max(0, 100 - errors * ERROR_PENALTY - warnings * WARNING_PENALTY)
+
+  return { score, sections, contact, issues, extractedText }
+}
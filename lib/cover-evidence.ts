@@ -0,0 +1,173 @@
+/**
+ * Cover letter grounding
+ * Maps each requirement a job ad asks for to the lines of the user's CV that
+ * back it up, and picks the few experiences most worth writing about, so the
+ * generated letter only claims what the CV can show. Requirements come from
+ * lib/keyword-coverage.ts; evidence is quoted with its CV field path
+ * (e.g. "experience[0].bullets[2]") so the user can check it.
+ */
+
+import type { CvData, CvSectionExperience } from '@/lib/cv-schema'
+import { withoutHiddenSections } from '@/lib/cv-sections'
+import { extractJobKeywords, mentionsKeyword, type CompiledKeyword, type KeywordCategory } from '@/lib/keyword-coverage'
+
+export interface CoverEvidence {
+  /** CV field path, e.g. "experience[0].bullets[2]" or "skills[3]" */
+  path: string
+  text: string
+}
+
+export interface CoverRequirementEvidence {
+  requirement: string
+  category: KeywordCategory
+  /** Empty when the CV shows no evidence: the letter must not claim it */
+  evidence: CoverEvidence[]
+}
+
+export interface CoverExperienceHighlight {
+  /** Index into CvData.experience */
+  index: number
+  jobTitle: string
+  company: string
+  /** Dates as shown on the CV, e.g. "Mar 2019 – Present" */
+  dates: string
+  /** Most relevant bullets first */
+  bullets: string[]
+  /** Requirements this experience has evidence for */
+  requirements: string[]
+}
+
+export interface CoverLetterGrounding {
+  requirements: CoverRequirementEvidence[]
+  experiences: CoverExperienceHighlight[]
+}
+
+const MAX_COVER_EXPERIENCES = 3
+const MIN_COVER_EXPERIENCES = 2
+const MAX_EVIDENCE_PER_REQUIREMENT = 2
+const MAX_BULLETS_PER_EXPERIENCE = 3
+
+/**
+ * Every non-empty line of the exported CV with its field path, in the order
+ * evidence is preferred: what the user did before what they list
+ */
+function cvEvidenceLines(cv: CvData): CoverEvidence[] {
+  const lines: CoverEvidence[] = []
+  const add = (path: string, text: string | undefined) => {
+    if (text && text.trim()) lines.push({ path, text: text.trim() })
+  }
+
+  cv.experience.forEach((exp, index) => {
+    exp.bullets.forEach((bullet, bulletIndex) => add(`experience[${index}].bullets[${bulletIndex}]`, bullet))
+    add(`experience[${index}].jobTitle`, exp.jobTitle)
+  })
+  ;(cv.projects || []).forEach((project, index) => add(`projects[${index}].description`, project.description))
+  ;(cv.customSections || []).forEach((section, index) =>
+    section.items.forEach((item, itemIndex) => {
+      add(`customSections[${index}].items[${itemIndex}].title`, item.title)
+      add(`customSections[${index}].items[${itemIndex}].description`, item.description)
+    })
+  )
+  add('summary', cv.summary)
+  cv.skills.forEach((skill, index) => add(`skills[${index}]`, skill))
+  ;(cv.certifications || []).forEach((cert, index) => add(`certifications[${index}]`, cert))
+  cv.education.forEach((edu, index) => {
+    add(`education[${index}].degree`, edu.degree)
+    add(`education[${index}].details`, edu.details)
+  })
+  ;(cv.languages || []).forEach((language, index) => add(`languages[${index}]`, language))
+
+  return lines
+}
+
+function formatDates(exp: CvSectionExperience): string {
+  return [exp.startDate, exp.isCurrent ? 'Present' : exp.endDate].filter((part) => part && part.trim()).join(' – ')
+}
+
+/**
+ * The experiences most relevant to the job (those backing the most
+ * requirements), keeping CV order on ties. When fewer than two match, the
+ * most recent other roles fill in so the letter still has something real to
+ * draw on.
+ */
+function pickExperiences(cv: CvData, keywords: CompiledKeyword[]): CoverExperienceHighlight[] {
+  const scored = cv.experience
+    .map((exp, index) => {
+      const bulletHits = exp.bullets
+        .map((bullet, bulletIndex) => ({ bullet, bulletIndex, hits: keywords.filter((keyword) => mentionsKeyword(bullet, keyword)) }))
+        .filter(({ bullet }) => bullet.trim())
+      const requirements = keywords
+        .filter((keyword) => mentionsKeyword(exp.jobTitle, keyword) || bulletHits.some(({ hits }) => hits.includes(keyword)))
+        .map((keyword) => keyword.term)
+      const bullets = bulletHits
+        .sort((a, b) => b.hits.length - a.hits.length || a.bulletIndex - b.bulletIndex)
+        .slice(0, MAX_BULLETS_PER_EXPERIENCE)
+        .map(({ bullet }) => bullet.trim())
+      return {
+        index,
+        jobTitle: exp.jobTitle,
+        company: exp.company,
+        dates: formatDates(exp),
+        bullets,
+        requirements,
+      }
+    })
+    .filter((exp) => exp.jobTitle.trim() || exp.company.trim() || exp.bullets.length > 0)
+
+  const matching = scored
+    .filter((exp) => exp.requirements.length > 0)
+    .sort((a, b) => b.requirements.length - a.requirements.length || a.index - b.index)
+    .slice(0, MAX_COVER_EXPERIENCES)
+  // Too few matches: top up with the most recent of the other roles
+  const others = scored.filter((exp) => !matching.includes(exp))
+  return [...matching, ...others.slice(0, Math.max(0, MIN_COVER_EXPERIENCES - matching.length))]
+}
+
+/**
+ * Requirements from the job ad with the CV lines that evidence them, plus
+ * the two or three experiences the letter should be built around
+ */
+export function groundCoverLetter(cv: CvData, jobDescription: string): CoverLetterGrounding {
+  // Hidden sections are not in the exported CV, so they are not evidence either
+  const visibleCv = withoutHiddenSections(cv)
+  const keywords = extractJobKeywords(jobDescription)
+  const lines = cvEvidenceLines(visibleCv)
+
+  const requirements = keywords.map((keyword) => ({
+    requirement: keyword.term,
+    category: keyword.category,
+    evidence: lines.filter((line) => mentionsKeyword(line.text, keyword)).slice(0, MAX_EVIDENCE_PER_REQUIREMENT),
+  }))
+
+  return { requirements, experiences: pickExperiences(visibleCv, keywords) }
+}
+
+/**
+ * Plain-text brief of the grounding for the generation prompt: the chosen
+ * experiences, the evidenced requirements and the ones the CV cannot support
+ */
+export function formatGroundingForPrompt(grounding: CoverLetterGrounding): string {
+  const experiences = grounding.experiences
+    .map((exp) => {
+      const heading = [exp.jobTitle, exp.company].filter(Boolean).join(' at ') + (exp.dates ? ` (${exp.dates})` : '')
+      return [heading, ...exp.bullets.map((bullet) => `- ${bullet}`)].join('\n')
+    })
+    .join('\n\n')
+  const supported = grounding.requirements
+    .filter((req) => req.evidence.length > 0)
+    .map((req) => `- ${req.requirement}: "${req.evidence[0].text}"`)
+    .join('\n')
+  const unsupported = grounding.requirements
+    .filter((req) => req.evidence.length === 0)
+    .map((req) => req.requirement)
+    .join(', ')
+
+  return `Experiences to write about:
+${experiences || '(none)'}
+
+Requirements the CV evidences:
+${supported || '(none)'}
+
+Requirements the CV does NOT evidence (do not claim these):
+${unsupported || '(none)'}`
+}
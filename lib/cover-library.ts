@@ -0,0 +1,253 @@
+/**
+ * Cover Letter Library
+ * Saved cover letters, each linked to the job it was written for
+ * (`UnifiedJob.id`, stored as job_key) and to the CV version it was written
+ * from, with a timestamped version history per letter.
+ *
+ * Safe to import from client components: server helpers only take a
+ * Supabase client as an argument and never read cookies themselves.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+
+export type CoverLetterLayout = 'minimal' | 'modern' | 'corporate' | 'portfolio'
+
+/**
+ * The one cover letter shape: editor state, the cover_letters.data column and
+ * version snapshots
+ */
+export interface CoverLetterData {
+  applicantName: string
+  recipientName: string
+  company: string
+  cityState: string
+  role: string
+  keywords: string
+  letterBody: string
+  layout: CoverLetterLayout
+  atsMode: boolean
+}
+
+export interface CoverLetterLibraryItem {
+  id: string
+  title: string
+  /** UnifiedJob.id of the job the letter was written for */
+  jobKey: string | null
+  cvId: string | null
+  cvVersionId: string | null
+  company: string
+  role: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CoverLetterVersion {
+  id: string
+  coverLetterId: string
+  title: string | null
+  cvVersionId: string | null
+  data: CoverLetterData
+  createdAt: string
+}
+
+export const DEFAULT_COVER_LETTER_TITLE = 'Cover Letter'
+
+/**
+ * Number of versions kept per cover letter; older snapshots are pruned on save
+ */
+export const MAX_COVER_LETTER_VERSIONS = 20
+
+export const COVER_LETTER_LAYOUTS: CoverLetterLayout[] = ['minimal', 'modern', 'corporate', 'portfolio']
+
+export const EMPTY_COVER_LETTER: CoverLetterData = {
+  applicantName: '',
+  recipientName: '',
+  company: '',
+  cityState: '',
+  role: '',
+  keywords: '',
+  letterBody: '',
+  layout: 'minimal',
+  atsMode: false,
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value : ''
+}
+
+/**
+ * Normalize stored cover letter data. Older saves kept the body as `bodyText`
+ * (the dashboard save) or `letter` (the first cover store).
+ */
+export function toCoverLetterData(raw: any): CoverLetterData {
+  return {
+    applicantName: text(raw?.applicantName),
+    recipientName: text(raw?.recipientName),
+    company: text(raw?.company),
+    cityState: text(raw?.cityState),
+    role: text(raw?.role),
+    keywords: text(raw?.keywords),
+    letterBody: text(raw?.letterBody) || text(raw?.bodyText) || text(raw?.letter),
+    layout: COVER_LETTER_LAYOUTS.includes(raw?.layout) ? raw.layout : EMPTY_COVER_LETTER.layout,
+    atsMode: raw?.atsMode === true,
+  }
+}
+
+/**
+ * Normalize a user-provided cover letter title
+ */
+export function normalizeCoverLetterTitle(title: unknown): string {
+  if (typeof title !== 'string') return DEFAULT_COVER_LETTER_TITLE
+  const trimmed = title.trim().slice(0, 120)
+  return trimmed || DEFAULT_COVER_LETTER_TITLE
+}
+
+/**
+ * Default title for a letter written for a job, e.g. "Barista – Costa"
+ */
+export function coverLetterTitleForJob(job: { role?: string | null; company?: string | null }): string {
+  return normalizeCoverLetterTitle([job.role, job.company].filter((part) => part && part.trim()).join(' – '))
+}
+
+/**
+ * Map a cover_letters row to a library list item
+ */
+export function toCoverLetterLibraryItem(row: any): CoverLetterLibraryItem {
+  const data = toCoverLetterData(row.data)
+  return {
+    id: row.id,
+    title: row.title || DEFAULT_COVER_LETTER_TITLE,
+    jobKey: row.job_key ?? null,
+    cvId: row.cv_id ?? null,
+    cvVersionId: row.cv_version_id ?? null,
+    company: data.company,
+    role: data.role,
+    createdAt: row.created_at || new Date().toISOString(),
+    updatedAt: row.updated_at || row.created_at || new Date().toISOString(),
+  }
+}
+
+/**
+ * Map a cover_letter_versions row to a CoverLetterVersion
+ */
+export function toCoverLetterVersion(row: any): CoverLetterVersion {
+  return {
+    id: row.id,
+    coverLetterId: row.cover_letter_id,
+    title: row.title ?? null,
+    cvVersionId: row.cv_version_id ?? null,
+    data: toCoverLetterData(row.data),
+    createdAt: row.created_at,
+  }
+}
+
+const STOP_WORDS = new Set(['and', 'the', 'for', 'with', 'of', 'in', 'to', 'a', 'an', 'at', 'or', 'ltd', 'limited', 'plc'])
+
+function tokens(value: string): Set<string> {
+  return new Set(
+    value
+      .toLowerCase()
+      .split(/[^a-z0-9+#]+/)
+      .filter((token) => token.length > 1 && !STOP_WORDS.has(token))
+  )
+}
+
+/**
+ * Saved letters written for other jobs, most similar first: shared words in
+ * the role title count double, shared words in the company once. Letters
+ * that share nothing with the job are left out.
+ */
+export function rankSimilarCoverLetters(
+  items: CoverLetterLibraryItem[],
+  job: { jobKey?: string | null; role: string; company?: string }
+): CoverLetterLibraryItem[] {
+  const roleTokens = tokens(job.role)
+  const companyTokens = tokens(job.company || '')
+  const overlap = (a: Set<string>, b: Set<string>) => Array.from(a).filter((token) => b.has(token)).length
+
+  return items
+    .filter((item) => !job.jobKey || item.jobKey !== job.jobKey)
+    .map((item) => ({
+      item,
+      score: overlap(roleTokens, tokens(item.role || item.title)) * 2 + overlap(companyTokens, tokens(item.company)),
+    }))
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || b.item.updatedAt.localeCompare(a.item.updatedAt))
+    .map(({ item }) => item)
+}
+
+/**
+ * Latest saved version of a CV (the one a letter is being written from).
+ * With no cvId, the user's most recently updated CV is used.
+ */
+export async function resolveCvVersion(
+  supabase: SupabaseClient,
+  userId: string,
+  cvId: string | null
+): Promise<{ cvId: string | null; cvVersionId: string | null }> {
+  let resolvedCvId = cvId
+  if (!resolvedCvId) {
+    const { data: latestCv } = await supabase
+      .from('cvs')
+      .select('id')
+      .eq('user_id', userId)
+      .order('updated_at', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+    resolvedCvId = latestCv?.id ?? null
+  }
+  if (!resolvedCvId) return { cvId: null, cvVersionId: null }
+
+  const { data: latestVersion } = await supabase
+    .from('cv_versions')
+    .select('id')
+    .eq('cv_id', resolvedCvId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  return { cvId: resolvedCvId, cvVersionId: latestVersion?.id ?? null }
+}
+
+/**
+ * Snapshot a cover letter into cover_letter_versions and prune anything
+ * beyond MAX_COVER_LETTER_VERSIONS.
+ * Never throws: version history must not block saving the letter itself.
+ */
+export async function recordCoverLetterVersion(
+  supabase: SupabaseClient,
+  params: { coverLetterId: string; userId: string; title: string | null; cvVersionId: string | null; data: CoverLetterData }
+): Promise<void> {
+  try {
+    const { error: insertError } = await supabase.from('cover_letter_versions').insert({
+      cover_letter_id: params.coverLetterId,
+      user_id: params.userId,
+      title: params.title,
+      cv_version_id: params.cvVersionId,
+      data: params.data,
+    })
+
+    if (insertError) {
+      console.error('[Cover Library] Failed to record version:', insertError)
+      return
+    }
+
+    const { data: stale } = await supabase
+      .from('cover_letter_versions')
+      .select('id')
+      .eq('cover_letter_id', params.coverLetterId)
+      .eq('user_id', params.userId)
+      .order('created_at', { ascending: false })
+      .range(MAX_COVER_LETTER_VERSIONS, MAX_COVER_LETTER_VERSIONS + 100)
+
+    if (stale && stale.length > 0) {
+      await supabase
+        .from('cover_letter_versions')
+        .delete()
+        .in('id', stale.map((row: { id: string }) => row.id))
+        .eq('user_id', params.userId)
+    }
+  } catch (error) {
+    console.error('[Cover Library] Unexpected error recording version:', error)
+  }
+}
@@ -1,39 +1,20 @@
 import { create } from 'zustand'
+import { EMPTY_COVER_LETTER, type CoverLetterData, type CoverLetterLayout } from './cover-library'
 
-export interface CoverLetterState {
-  recipientName: string
-  company: string
-  cityState: string
-  role: string
-  keywords: string
-  letterBody: string
-  applicantName: string
-  layout: 'minimal' | 'modern' | 'corporate' | 'portfolio'
-  atsMode: boolean
-
+export interface CoverLetterState extends CoverLetterData {
   // Actions
   setRecipientInfo: (info: Partial<{ recipientName: string; company: string; cityState: string; role: string }>) => void
   setKeywords: (keywords: string) => void
   setLetterBody: (body: string) => void
   setApplicantName: (name: string) => void
-  setLayout: (layout: CoverLetterState['layout']) => void
+  setLayout: (layout: CoverLetterLayout) => void
   setAtsMode: (enabled: boolean) => void
-}
-
-const defaultState = {
-  recipientName: '',
-  company: '',
-  cityState: '',
-  role: '',
-  keywords: '',
-  letterBody: '',
-  applicantName: '',
-  layout: 'minimal' as const,
-  atsMode: false,
+  /** Replace the whole letter, e.g. when opening one from the library */
+  setCoverLetter: (data: CoverLetterData) => void
 }
 
 export const useCoverStore = create<CoverLetterState>((set) => ({
-  ...defaultState,
+  ...EMPTY_COVER_LETTER,
 
   setRecipientInfo: (info) =>
     set((state) => ({
@@ -52,4 +33,6 @@ export const useCoverStore = create<CoverLetterState>((set) => ({
   setLayout: (layout) => set({ layout }),
 
   setAtsMode: (enabled) => set({ atsMode: enabled }),
+
+  setCoverLetter: (data) => set({ ...data }),
 }))
@@ -0,0 +1,349 @@
+/**
+ * Structured experience dates and employment timeline checks
+ * Roles store a month/year `start` and `end` next to the display strings
+ * (`startDate`/`endDate`) the templates print. Legacy free-text dates are
+ * parsed when a CV is loaded; anything unreadable is left as typed.
+ *
+ * analyseEmploymentTimeline() finds gaps, overlapping roles and roles listed
+ * out of reverse-chronological order, each with a suggested fix for the
+ * builder. computeCvScore uses the same findings.
+ */
+
+import type { CvMonthYear, CvSectionExperience } from '@/lib/cv-schema'
+
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+
+/** Gaps longer than this many months are reported */
+export const EMPLOYMENT_GAP_MONTHS = 6
+
+// Roles often share a handover month, so only longer overlaps are reported
+const OVERLAP_TOLERANCE_MONTHS = 1
+
+/** Years a CV date may use; the schema (lib/cv-schema.ts) accepts the same range */
+export const MIN_CV_YEAR = 1900
+export const MAX_CV_YEAR = 2100
+
+const MONTH_PATTERN = /^(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?,?\s+(\d{4})$/i
+const PRESENT_PATTERN = /^(present|current|now|date|ongoing|today)$/i
+
+export type CvTimelineIssueKind = 'endBeforeStart' | 'order' | 'overlap' | 'gap'
+
+export interface CvTimelineFix {
+  label: string
+  /** What applying the fix does in the builder */
+  action: 'addCareerBreak' | 'sortNewestFirst' | 'editDates'
+  /** Career break: the months it covers (no end = up to now) and where to insert it */
+  start?: CvMonthYear
+  end?: CvMonthYear
+  insertAt?: number
+}
+
+export interface CvTimelineIssue {
+  kind: CvTimelineIssueKind
+  severity: 'warning' | 'info'
+  /** CvData field path, e.g. "experience[1].startDate" */
+  field: string
+  message: string
+  fix: CvTimelineFix
+  /** Length of the gap or overlap */
+  months?: number
+}
+
+export interface CvTimelineReport {
+  issues: CvTimelineIssue[]
+  /** Months covered by at least one dated role */
+  coveredMonths: number
+}
+
+export interface CvTimelineOptions {
+  gapMonths?: number
+  now?: Date
+}
+
+function isValidDate(date: CvMonthYear | undefined | null): date is CvMonthYear {
+  return Boolean(date) &&
+    Number.isInteger(date!.year) && date!.year >= MIN_CV_YEAR && date!.year <= MAX_CV_YEAR &&
+    (date!.month == null || (Number.isInteger(date!.month) && date!.month >= 1 && date!.month <= 12))
+}
+
+function toDate(year: number, month?: number): CvMonthYear | null {
+  const date: CvMonthYear = month == null ? { year } : { year, month }
+  return isValidDate(date) ? date : null
+}
+
+/**
+ * "Mar 2019", "March 2019", "03/2019", "2019-03" or "2019"; null for
+ * anything else, including "Present"
+ */
+export function parseCvDate(text: string | undefined): CvMonthYear | null {
+  const value = (text || '').trim()
+  if (!value) return null
+
+  const named = value.match(MONTH_PATTERN)
+  if (named) return toDate(Number(named[2]), MONTH_NAMES.findIndex((name) => name.toLowerCase() === named[1].toLowerCase()) + 1)
+
+  const monthFirst = value.match(/^(\d{1,2})[/.-](\d{4})$/)
+  if (monthFirst) return toDate(Number(monthFirst[2]), Number(monthFirst[1]))
+
+  const yearFirst = value.match(/^(\d{4})[/.-](\d{1,2})(?:[/.-]\d{1,2})?$/)
+  if (yearFirst) return toDate(Number(yearFirst[1]), Number(yearFirst[2]))
+
+  if (/^\d{4}$/.test(value)) return toDate(Number(value))
+  return null
+}
+
+export function isPresentText(text: string | undefined): boolean {
+  return PRESENT_PATTERN.test((text || '').trim())
+}
+
+/** "Mar 2019", or "2019" without a month */
+export function formatCvDate(date: CvMonthYear): string {
+  return date.month ? `${MONTH_NAMES[date.month - 1]} ${date.year}` : String(date.year)
+}
+
+/**
+ * A role's dates, from the structured fields or else parsed from the text
+ */
+export function experienceDates(exp: CvSectionExperience): { start: CvMonthYear | null; end: CvMonthYear | null; isCurrent: boolean } {
+  const isCurrent = Boolean(exp.isCurrent) || isPresentText(exp.endDate)
+  const start = isValidDate(exp.start) ? exp.start : parseCvDate(exp.startDate)
+  const end = isCurrent ? null : isValidDate(exp.end) ? exp.end : parseCvDate(exp.endDate)
+  return { start, end, isCurrent }
+}
+
+/**
+ * Fill in `start`/`end` from legacy date strings (and the strings from the
+ * structured dates), so stored and imported CVs open with structured dates
+ */
+export function migrateExperienceDates(exp: CvSectionExperience): CvSectionExperience {
+  const { start, end, isCurrent } = experienceDates(exp)
+  const migrated: CvSectionExperience = { ...exp }
+  if (start) {
+    migrated.start = start
+    if (!exp.startDate?.trim()) migrated.startDate = formatCvDate(start)
+  }
+  if (isCurrent) {
+    migrated.isCurrent = true
+    migrated.end = undefined
+    migrated.endDate = undefined
+  } else if (end) {
+    migrated.end = end
+    if (!exp.endDate?.trim()) migrated.endDate = formatCvDate(end)
+  }
+  return migrated
+}
+
+// Months since year 0; year-only dates count from January (start) or to December (end)
+function monthNumber(date: CvMonthYear, edge: 'start' | 'end'): number {
+  return date.year * 12 + (date.month ?? (edge === 'start' ? 1 : 12)) - 1
+}
+
+function fromMonthNumber(value: number): CvMonthYear {
+  return { year: Math.floor(value / 12), month: (value % 12) + 1 }
+}
+
+function nowMonth(now: Date): number {
+  return now.getFullYear() * 12 + now.getMonth()
+}
+
+/** "2 yrs 3 mos", "8 mos" */
+export function formatTenure(months: number): string {
+  const years = Math.floor(months / 12)
+  const rest = months % 12
+  const parts: string[] = []
+  if (years > 0) parts.push(`${years} yr${years === 1 ? '' : 's'}`)
+  if (rest > 0 || years === 0) parts.push(`${rest} mo${rest === 1 ? '' : 's'}`)
+  return parts.join(' ')
+}
+
+/**
+ * Months in a role, counting both the first and last month; null without a start
+ */
+export function tenureMonths(exp: CvSectionExperience, now: Date = new Date()): number | null {
+  const { start, end, isCurrent } = experienceDates(exp)
+  if (!start) return null
+  const from = monthNumber(start, 'start')
+  const to = isCurrent ? nowMonth(now) : end ? monthNumber(end, 'end') : null
+  if (to == null || to < from) return null
+  return to - from + 1
+}
+
+function roleLabel(exp: CvSectionExperience, index: number): string {
+  const label = [exp.jobTitle?.trim(), exp.company?.trim()].filter(Boolean).join(' at ')
+  return label ? `"${label}"` : `Role ${index + 1}`
+}
+
+function formatSpan(from: number, to: number): string {
+  const start = formatCvDate(fromMonthNumber(from))
+  return from === to ? start : `${start} – ${formatCvDate(fromMonthNumber(to))}`
+}
+
+interface DatedRole {
+  index: number
+  exp: CvSectionExperience
+  from: number
+  to: number
+  isCurrent: boolean
+}
+
+// Reverse-chronological order: current roles first, then latest end, then latest start
+function compareNewestFirst(a: Omit<DatedRole, 'exp'>, b: Omit<DatedRole, 'exp'>): number {
+  if (a.isCurrent !== b.isCurrent) return a.isCurrent ? -1 : 1
+  return b.to - a.to || b.from - a.from
+}
+
+/**
+ * Gaps longer than `gapMonths`, overlapping roles, roles out of
+ * reverse-chronological order and end dates before start dates
+ */
+export function analyseEmploymentTimeline(experience: CvSectionExperience[], options: CvTimelineOptions = {}): CvTimelineReport {
+  const gapMonths = options.gapMonths ?? EMPLOYMENT_GAP_MONTHS
+  const now = nowMonth(options.now ?? new Date())
+  const issues: CvTimelineIssue[] = []
+
+  const roles: DatedRole[] = []
+  experience.forEach((exp, index) => {
+    if (!exp.jobTitle?.trim() && !exp.company?.trim()) return
+    const { start, end, isCurrent } = experienceDates(exp)
+    if (!start) return
+    const from = monthNumber(start, 'start')
+    // A finished role without an end date is treated as lasting until the end of its start month (or year)
+    const to = isCurrent ? Math.max(now, from) : end ? monthNumber(end, 'end') : monthNumber(start, 'end')
+    if (to < from) {
+      issues.push({
+        kind: 'endBeforeStart',
+        severity: 'warning',
+        field: `experience[${index}].endDate`,
+        message: `${roleLabel(exp, index)} ends before it starts.`,
+        fix: { label: 'Correct the dates', action: 'editDates' },
+      })
+      return
+    }
+    roles.push({ index, exp, from, to, isCurrent })
+  })
+
+  // Newest first: a role listed below another should not have started later
+  for (let i = 1; i < roles.length; i++) {
+    const above = roles[i - 1]
+    const below = roles[i]
+    if (compareNewestFirst(above, below) > 0) {
+      issues.push({
+        kind: 'order',
+        severity: 'warning',
+        field: `experience[${below.index}].startDate`,
+        message: `${roleLabel(below.exp, below.index)} is more recent than ${roleLabel(above.exp, above.index)} but listed below it. Recruiters and ATSs expect the newest role first.`,
+        fix: { label: 'Sort roles newest first', action: 'sortNewestFirst' },
+      })
+      break
+    }
+  }
+
+  const chronological = [...roles].sort((a, b) => a.from - b.from || a.to - b.to)
+
+  for (let i = 0; i < chronological.length; i++) {
+    for (let j = i + 1; j < chronological.length; j++) {
+      const earlier = chronological[i]
+      const later = chronological[j]
+      const months = Math.min(earlier.to, later.to) - later.from + 1
+      if (months <= OVERLAP_TOLERANCE_MONTHS) continue
+      issues.push({
+        kind: 'overlap',
+        severity: 'info',
+        field: `experience[${later.index}].startDate`,
+        message: `${roleLabel(later.exp, later.index)} overlaps ${roleLabel(earlier.exp, earlier.index)} by ${formatTenure(months)}. If you held both at once, say so (for example "part-time"); otherwise check the dates.`,
+        fix: { label: 'Check the dates', action: 'editDates' },
+        months,
+      })
+    }
+  }
+
+  // Gaps between the end of everything so far and the next start
+  let coveredTo = chronological.length > 0 ? chronological[0].to : 0
+  let coveredBy = chronological[0]
+  let coveredMonths = chronological.length > 0 ? chronological[0].to - chronological[0].from + 1 : 0
+  for (const role of chronological.slice(1)) {
+    const months = role.from - coveredTo - 1
+    if (months > gapMonths) {
+      issues.push({
+        kind: 'gap',
+        severity: 'warning',
+        field: `experience[${role.index}].startDate`,
+        message: `Gap of ${formatTenure(months)} (${formatSpan(coveredTo + 1, role.from - 1)}) between ${roleLabel(coveredBy.exp, coveredBy.index)} and ${roleLabel(role.exp, role.index)}. A short career-break entry explains it before a recruiter asks.`,
+        fix: {
+          label: 'Add a career break',
+          action: 'addCareerBreak',
+          start: fromMonthNumber(coveredTo + 1),
+          end: fromMonthNumber(role.from - 1),
+          insertAt: coveredBy.index,
+        },
+        months,
+      })
+    }
+    coveredMonths += Math.max(0, role.to - Math.max(role.from, coveredTo + 1) + 1)
+    if (role.to > coveredTo) {
+      coveredTo = role.to
+      coveredBy = role
+    }
+  }
+
+  // Time since the last role ended, when nothing is current
+  if (coveredBy && !chronological.some((role) => role.isCurrent)) {
+    const months = now - coveredTo
+    if (months > gapMonths) {
+      // Informational only: many people use the builder between jobs
+      issues.push({
+        kind: 'gap',
+        severity: 'info',
+        field: `experience[${coveredBy.index}].endDate`,
+        message: `No role since ${formatCvDate(fromMonthNumber(coveredTo))} (${formatTenure(months)}). If you have been studying, caring or travelling, a current career-break entry says so.`,
+        fix: {
+          label: 'Add a current career break',
+          action: 'addCareerBreak',
+          start: fromMonthNumber(coveredTo + 1),
+          insertAt: 0,
+        },
+        months,
+      })
+    }
+  }
+
+  return { issues, coveredMonths }
+}
+
+/**
+ * A career-break role for a gap; with no end it is marked current
+ */
+export function createCareerBreak(start?: CvMonthYear, end?: CvMonthYear): CvSectionExperience {
+  return {
+    id: Date.now().toString(),
+    jobTitle: 'Career break',
+    company: '',
+    start,
+    startDate: start ? formatCvDate(start) : undefined,
+    end,
+    endDate: end ? formatCvDate(end) : undefined,
+    isCurrent: !end,
+    bullets: [''],
+  }
+}
+
+/**
+ * Current roles first, then by end and start date, newest first; undated
+ * roles keep their order at the bottom
+ */
+export function sortExperienceNewestFirst(experience: CvSectionExperience[], now: Date = new Date()): CvSectionExperience[] {
+  const current = nowMonth(now)
+  const keyed = experience.map((exp, index) => {
+    const { start, end, isCurrent } = experienceDates(exp)
+    if (!start) return { exp, index, dated: null }
+    const from = monthNumber(start, 'start')
+    const to = isCurrent ? Math.max(current, from) : end ? monthNumber(end, 'end') : monthNumber(start, 'end')
+    return { exp, index, dated: { index, from, to, isCurrent } }
+  })
+  return keyed
+    .sort((a, b) => {
+      if (!a.dated || !b.dated) return !a.dated && !b.dated ? a.index - b.index : !a.dated ? 1 : -1
+      return compareNewestFirst(a.dated, b.dated) || a.index - b.index
+    })
+    .map(({ exp }) => exp)
+}
@@ -0,0 +1,136 @@
+/**
+ * CV export helpers
+ * Shared by the PDF (lib/pdf-render) and DOCX (lib/docx-render) renderers so
+ * both files use the same sizes, spacing and section content as CvPreview.
+ */
+
+import type { CvCustomSectionItem, CvData, CvSectionExperience, CvSectionId, CvTemplateId } from '@/lib/cv-schema'
+import type { CvCustomizationOptions } from '@/components/cv-builder-v2/CvCustomizationPanel'
+import { customSectionHeading, customSectionKey, REFERENCES_ON_REQUEST, visibleSectionOrder } from '@/lib/cv-sections'
+
+export type CvExportFontFamily = 'sans' | 'serif' | 'mono'
+
+export interface CvExportStyle {
+  fontFamily: CvExportFontFamily
+  /** Body text size in pt */
+  fontSize: number
+  /** Line height as a multiple of the font size */
+  lineHeight: number
+  headingBold: boolean
+  headingUnderline: boolean
+  /** Space between sections in pt */
+  sectionGap: number
+  /** True when CvCustomizationOptions were applied ('customizeStyle') */
+  customized: boolean
+}
+
+/**
+ * Resolve the builder's template and CvCustomizationOptions to concrete
+ * export values. Options only apply to 'customizeStyle', as in the preview.
+ */
+export function resolveCvExportStyle(template: CvTemplateId, options?: CvCustomizationOptions): CvExportStyle {
+  const custom = template === 'customizeStyle' ? options : undefined
+  return {
+    fontFamily: custom?.fontFamily === 'serif' ? 'serif' : custom?.fontFamily === 'mono' ? 'mono' : 'sans',
+    fontSize: custom?.fontSize === 'small' ? 9 : custom?.fontSize === 'large' ? 11 : 10,
+    lineHeight: custom?.lineSpacing === 'compact' ? 1.4 : custom?.lineSpacing === 'relaxed' ? 1.7 : 1.5,
+    headingBold: custom?.headingFontWeight !== 'normal',
+    headingUnderline: Boolean(custom?.headingUnderline),
+    sectionGap: custom?.sectionSpacing === 'tight' ? 9 : custom?.sectionSpacing === 'wide' ? 18 : 12,
+    customized: Boolean(custom),
+  }
+}
+
+// Filter empty entries only at export time (non-destructive), as CvPreview does
+export function visibleExperience(cv: CvData): CvSectionExperience[] {
+  return (cv.experience ?? []).filter((exp) => exp.jobTitle?.trim() || exp.company?.trim())
+}
+
+export function visibleEducation(cv: CvData): CvData['education'] {
+  return (cv.education ?? []).filter((edu) => edu.degree?.trim() || edu.school?.trim())
+}
+
+export function visibleProjects(cv: CvData): NonNullable<CvData['projects']> {
+  return (cv.projects || []).filter((project) => project.name?.trim() || project.description?.trim())
+}
+
+export function visiblePublications(cv: CvData): NonNullable<CvData['publications']> {
+  return (cv.publications || []).filter((pub) => pub.title?.trim())
+}
+
+export interface CvExportCustomSection {
+  /** Position key in `CvData.sectionOrder` ("custom:<id>") */
+  key: CvSectionId
+  heading: string
+  items: CvCustomSectionItem[]
+  /** Line printed instead of items ("Available on request.") */
+  note?: string
+}
+
+/**
+ * Custom sections in CV order with untitled items dropped. An empty references
+ * section is kept with the "on request" note; other empty sections are left out.
+ */
+export function visibleCustomSections(cv: CvData): CvExportCustomSection[] {
+  return (cv.customSections || []).flatMap((section) => {
+    const items = (section.items || []).filter((item) => item.title?.trim())
+    const key = customSectionKey(section.id)
+    if (items.length > 0) return [{ key, heading: customSectionHeading(section), items }]
+    if (section.kind === 'references') return [{ key, heading: customSectionHeading(section), items: [], note: REFERENCES_ON_REQUEST }]
+    return []
+  })
+}
+
+/**
+ * Rendered sections in the CV's section order, leaving out hidden sections
+ * and those with nothing to show. Renderers build every section they print
+ * (per column for two-column layouts) and let this pick and order them.
+ */
+export function orderSections<T>(cv: CvData, sections: Partial<Record<CvSectionId, T | null | undefined>>): T[] {
+  return visibleSectionOrder(cv).flatMap((id) => {
+    const section = sections[id]
+    return section == null ? [] : [section]
+  })
+}
+
+export function visibleList(items: string[] | undefined): string[] {
+  return (items || []).filter((item) => item.trim())
+}
+
+/**
+ * Email, phone, location, LinkedIn and website in display order
+ */
+export function contactItems(cv: CvData): string[] {
+  return [
+    cv.personalInfo.email,
+    cv.personalInfo.phone,
+    cv.personalInfo.location,
+    cv.personalInfo.linkedin ? `LinkedIn: ${cv.personalInfo.linkedin}` : '',
+    cv.personalInfo.website,
+  ].filter((item): item is string => Boolean(item && item.trim()))
+}
+
+export function formatPeriod(start?: string, end?: string, isCurrent?: boolean): string {
+  if (!start && !end) return ''
+  if (!start) return isCurrent ? 'Present' : end || ''
+  return `${start} – ${isCurrent ? 'Present' : end || ''}`.replace(/ – $/, '')
+}
+
+export function formatPublication(pub: NonNullable<CvData['publications']>[number]): string {
+  const parts = [pub.title]
+  const citation = [pub.authors, pub.year ? `(${pub.year})` : ''].filter(Boolean).join(' ')
+  if (citation) parts.push(citation)
+  if (pub.venueOrJournal) parts.push(pub.venueOrJournal)
+  if (pub.doiOrUrl) parts.push(pub.doiOrUrl)
+  return parts.join(' — ')
+}
+
+/**
+ * Absolute URL for a link-like value ("github.com/x", "www.x.com"), or undefined
+ */
+export function toUrl(value: string): string | undefined {
+  const text = value.trim()
+  if (/^https?:\/\//i.test(text)) return text
+  if (/^(www\.|[a-z0-9-]+\.[a-z]{2,}\/)/i.test(text)) return `https://${text}`
+  return undefined
+}
@@ -0,0 +1,102 @@
+/**
+ * Test cases for reading an existing CV back into CvData
+ * Run with: npx tsx lib/cv-import.test.ts
+ */
+
+import { Packer } from 'docx'
+import { parseCvText } from './cv-import'
+import { parseCvData } from './cv-schema'
+import { extractDocxText } from './cv-text-extract'
+import { buildCvDocx } from './docx-render/cv'
+
+// Test helper
+function testCase(name: string, passed: boolean, details?: unknown) {
+  console.log(`${passed ? '✅' : '❌'} ${name}`)
+  if (!passed) {
+    console.log(`   Details: ${JSON.stringify(details)}`)
+    console.log(`   ❌ FAILED`)
+  }
+  console.log('')
+
+  return passed
+}
+
+const roles = (text: string) =>
+  parseCvText(text).cv.experience.map(({ jobTitle, company, location, startDate, endDate, isCurrent, bullets }) => ({
+    jobTitle, company, location, startDate, endDate, isCurrent, bullets,
+  }))
+
+const cv = parseCvData({
+  personalInfo: { fullName: 'Amy Jones', email: 'amy@example.com', phone: '07700 900123', location: 'Leeds' },
+  summary: 'Caring support worker with six years in residential care.',
+  experience: [
+    { id: '1', jobTitle: 'Senior Carer', company: 'Oak House', location: 'Leeds', startDate: 'Mar 2021', isCurrent: true, bullets: ['Led a team of 4 carers', 'Managed medication rounds'] },
+    { id: '2', jobTitle: 'Care Assistant', company: 'Oak House', location: 'Leeds', startDate: 'Jan 2018', endDate: 'Feb 2021', bullets: ['Supported 12 residents daily', 'Kept care records up to date'] },
+  ],
+  education: [{ degree: 'NVQ Level 3 Health and Social Care', school: 'Leeds City College', year: '2018' }],
+  skills: ['Medication', 'Moving and handling'],
+})
+
+async function run() {
+  if (!cv.ok) throw new Error('Test CV is invalid')
+  let allPassed = true
+
+  // Test 1: Pasted text with bullet markers
+  const pasted = roles([
+    'Amy Jones',
+    'amy@example.com | 07700 900123',
+    '',
+    'Work Experience',
+    'Senior Carer at Oak House, Leeds (Mar 2021 - Present)',
+    '• Led a team of 4 carers',
+    '• Managed medication rounds',
+    'Care Assistant at Oak House',
+    'Jan 2018 - Feb 2021',
+    '- Supported 12 residents daily',
+  ].join('\n'))
+  allPassed = testCase('Test 1: Pasted text splits into roles with their bullets', (
+    pasted.length === 2 &&
+    pasted[0].jobTitle === 'Senior Carer' && pasted[0].company === 'Oak House' && pasted[0].location === 'Leeds' &&
+    pasted[0].isCurrent === true && pasted[0].bullets.length === 2 &&
+    pasted[1].jobTitle === 'Care Assistant' && pasted[1].startDate === 'Jan 2018' && pasted[1].endDate === 'Feb 2021' &&
+    pasted[1].bullets.join() === 'Supported 12 residents daily'
+  ), pasted) && allPassed
+
+  // Test 2: The app's own DOCX export, where bullets are Word numbering rather than text
+  const docxText = await extractDocxText(await Packer.toBuffer(buildCvDocx(cv.data, 'atsClassic')))
+  const fromDocx = roles(docxText)
+  allPassed = testCase('Test 2: DOCX list items stay bullets, and the line under the header is the location', (
+    fromDocx.length === 2 &&
+    fromDocx.every((role, index) => (
+      role.jobTitle === cv.data.experience[index].jobTitle &&
+      role.company === 'Oak House' &&
+      role.location === 'Leeds' &&
+      role.bullets.join('|') === cv.data.experience[index].bullets.join('|')
+    ))
+  ), { docxText, fromDocx }) && allPassed
+
+  // Test 3: A one-word line is only a location when bullets follow it
+  const titleOnNextLine = roles([
+    'Experience',
+    'Senior Carer, Oak House, Mar 2021 - Present',
+    'Care Assistant',
+    'Sunrise Homes',
+    'Jan 2018 - Feb 2021',
+  ].join('\n'))
+  allPassed = testCase('Test 3: A job title on its own line still starts the next role', (
+    titleOnNextLine.length === 2 &&
+    !titleOnNextLine[0].location &&
+    titleOnNextLine[1].jobTitle === 'Care Assistant' && titleOnNextLine[1].company === 'Sunrise Homes'
+  ), titleOnNextLine) && allPassed
+
+  console.log('='.repeat(50))
+  console.log('')
+  if (allPassed) {
+    console.log('✅ All tests passed!')
+  } else {
+    console.log('❌ Some tests failed')
+    process.exit(1)
+  }
+}
+
+run()
@@ -0,0 +1,392 @@
+/**
+ * CV import
+ * Turns the plain text of an existing CV (extracted from PDF/DOCX by
+ * /api/cv/import) into CvData, with a 0-1 confidence per field so the
+ * builder can ask the user to review weak guesses before replacing a draft.
+ * Deterministic heuristics only: section headings, contact patterns,
+ * date ranges and bullet markers.
+ */
+
+import type { CvData, CvSectionExperience } from '@/lib/cv-schema'
+
+export interface CvImportResult {
+  cv: CvData
+  /** Keyed by field path, e.g. "personalInfo.email", "summary", "experience[0]", "skills" */
+  confidence: Record<string, number>
+  warnings: string[]
+}
+
+export type CvImportSectionKey = 'header' | 'summary' | 'experience' | 'education' | 'skills' | 'languages' | 'certifications' | 'other'
+
+const SECTION_HEADINGS: Array<{ key: CvImportSectionKey; patterns: RegExp }> = [
+  { key: 'summary', patterns: /^(professional |personal |career )?(summary|profile|statement)$|^personal statement$|^about( me)?$|^(career )?objective$/ },
+  { key: 'experience', patterns: /^(work |professional |relevant |employment |career )?(experience|history)$|^employment( history)?$|^work history$/ },
+  { key: 'education', patterns: /^education( (and|&) (training|qualifications))?$|^(academic )?qualifications$|^academic background$/ },
+  { key: 'skills', patterns: /^(key |core |technical |professional )?(skills|competencies)( (and|&) (abilities|competencies))?$/ },
+  { key: 'languages', patterns: /^languages?( spoken)?$/ },
+  { key: 'certifications', patterns: /^(certifications?|certificates|licen[cs]es( (and|&) certifications)?|courses|training|professional development)( (and|&) (training|courses))?$/ },
+  { key: 'other', patterns: /^(interests|hobbies( (and|&) interests)?|references|(key |personal )?projects|volunteering|volunteer experience|publications|awards|achievements|additional information)$/ },
+]
+
+const BULLET_PATTERN = /^\s*(?:[•●▪◦‣∙·*\-–—]|\d{1,2}[.)])\s+/
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/
+const PHONE_PATTERN = /(?:\+44\s?\(?0?\)?\s?|\(?0)\d{2,4}\)?[\s-]?\d{3,4}[\s-]?\d{3,4}/
+const LINKEDIN_PATTERN = /(?:https?:\/\/)?(?:[a-z]{2,3}\.)?linkedin\.com\/[^\s,|]+/i
+const WEBSITE_PATTERN = /(?:https?:\/\/|www\.)[^\s,|]+/i
+const POSTCODE_PATTERN = /\b[A-Z]{1,2}\d[A-Z\d]?\s*\d[A-Z]{2}\b/i
+
+const MONTH = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)'
+const DATE = `(?:${MONTH}\\.?\\s+\\d{4}|\\d{1,2}\\/\\d{4}|\\d{4})`
+const DATE_RANGE_PATTERN = new RegExp(`(${DATE})\\s*(?:-|–|—|to|until)\\s*(${DATE}|present|current|now|date|ongoing)`, 'i')
+const YEAR_PATTERN = /\b(19|20)\d{2}\b/g
+
+const DEGREE_PATTERN = /\b(bsc|ba|msc|ma|mba|phd|beng|meng|llb|pgce|hnd|hnc|btec|nvq|gcses?|a[\s-]?levels?|degree|diploma|certificate|foundation|bachelor'?s?|master'?s?|doctorate|level \d)\b/i
+const SCHOOL_PATTERN = /\b(university|college|school|academy|institute|polytechnic|sixth form)\b/i
+
+function roundScore(value: number): number {
+  return Math.round(Math.min(1, value) * 100) / 100
+}
+
+function cleanLine(line: string): string {
+  return line.replace(/\s+/g, ' ').trim()
+}
+
+function stripBullet(line: string): string {
+  return line.replace(BULLET_PATTERN, '').trim()
+}
+
+/**
+ * Section a heading line starts, or null (also used by the ATS check)
+ */
+export function detectHeading(line: string): CvImportSectionKey | null {
+  const text = cleanLine(line).replace(/[:\-–—]+$/, '').trim().toLowerCase()
+  if (!text || text.length > 45) return null
+  for (const { key, patterns } of SECTION_HEADINGS) {
+    if (patterns.test(text)) return key
+  }
+  return null
+}
+
+function splitSections(lines: string[]): Array<{ key: CvImportSectionKey; heading: string; lines: string[] }> {
+  const sections: Array<{ key: CvImportSectionKey; heading: string; lines: string[] }> = [{ key: 'header', heading: '', lines: [] }]
+  for (const line of lines) {
+    const key = detectHeading(line)
+    if (key) {
+      sections.push({ key, heading: cleanLine(line).replace(/[:]+$/, ''), lines: [] })
+    } else {
+      sections[sections.length - 1].lines.push(line)
+    }
+  }
+  return sections
+}
+
+/**
+ * Split a list-like section (skills, languages) into items
+ */
+function splitListItems(lines: string[]): string[] {
+  const items = lines
+    .flatMap((line) => stripBullet(line).split(/\s*[,;|•·]\s*/))
+    .map((item) => item.replace(/\.$/, '').trim())
+    .filter((item) => item.length > 1 && item.length <= 60)
+
+  const seen = new Set<string>()
+  return items.filter((item) => {
+    const key = item.toLowerCase()
+    if (seen.has(key)) return false
+    seen.add(key)
+    return true
+  })
+}
+
+function formatDatePart(value: string): string {
+  const text = cleanLine(value)
+  if (/^(present|current|now|date|ongoing)$/i.test(text)) return 'Present'
+  const monthMatch = text.match(new RegExp(`^(${MONTH})\\.?\\s+(\\d{4})$`, 'i'))
+  if (monthMatch) {
+    const month = monthMatch[1].slice(0, 3)
+    return `${month.charAt(0).toUpperCase()}${month.slice(1).toLowerCase()} ${monthMatch[2]}`
+  }
+  return text
+}
+
+/**
+ * "Job Title at Company | Location" and similar one-line role headers
+ */
+function splitRoleHeader(text: string): string[] {
+  return text
+    .split(/\s+(?:at|@)\s+|\s*[|,]\s*|\s+[-–—]\s+/)
+    .map((part) => part.trim())
+    .filter(Boolean)
+}
+
+function parseExperience(lines: string[]): Array<{ entry: CvSectionExperience; confidence: number }> {
+  const entries: Array<{ entry: CvSectionExperience; hasDates: boolean }> = []
+  let current: { entry: CvSectionExperience; hasDates: boolean } | null = null
+
+  const startEntry = () => {
+    current = {
+      entry: { id: `import-${entries.length}-${Date.now()}`, jobTitle: '', company: '', bullets: [] },
+      hasDates: false,
+    }
+    entries.push(current)
+    return current
+  }
+
+  for (let index = 0; index < lines.length; index++) {
+    const rawLine = lines[index]
+    const line = cleanLine(rawLine)
+    if (!line) continue
+
+    const isBullet = BULLET_PATTERN.test(rawLine)
+    const dateMatch = isBullet ? null : line.match(DATE_RANGE_PATTERN)
+
+    if (isBullet) {
+      const target: { entry: CvSectionExperience; hasDates: boolean } = current || startEntry()
+      target.entry.bullets.push(stripBullet(line))
+      continue
+    }
+
+    let target: { entry: CvSectionExperience; hasDates: boolean } = current || startEntry()
+    const headerComplete = Boolean(target.entry.jobTitle && target.entry.company)
+
+    if (dateMatch) {
+      // A second date range, or one after bullets, belongs to the next role
+      if (target.hasDates || target.entry.bullets.length > 0) {
+        target = startEntry()
+      }
+      target.hasDates = true
+      target.entry.startDate = formatDatePart(dateMatch[1])
+      const end = formatDatePart(dateMatch[2])
+      if (end === 'Present') {
+        target.entry.isCurrent = true
+      } else {
+        target.entry.endDate = end
+      }
+      const rest = cleanLine(line.replace(dateMatch[0], '').replace(/[()]/g, ''))
+      if (rest) splitRoleHeader(rest).forEach((part) => fillRoleField(target.entry, part))
+      continue
+    }
+
+    // Long prose lines are descriptions, written as bullets
+    if (line.length > 90) {
+      target.entry.bullets.push(line)
+      continue
+    }
+
+    // One place name between a full dated header and its bullets is the role's location
+    const nextLine = lines.slice(index + 1).find((next) => cleanLine(next))
+    if (
+      headerComplete && target.hasDates && !target.entry.location && target.entry.bullets.length === 0 &&
+      splitRoleHeader(line).length === 1 && nextLine && BULLET_PATTERN.test(nextLine)
+    ) {
+      target.entry.location = line
+      continue
+    }
+
+    // A short line after the role already has bullets (or a full header and dates) starts the next role
+    if (target.entry.bullets.length > 0 || (headerComplete && target.hasDates)) {
+      target = startEntry()
+    }
+    splitRoleHeader(line).forEach((part) => fillRoleField(target.entry, part))
+  }
+
+  return entries
+    .filter(({ entry }) => entry.jobTitle || entry.company || entry.bullets.length > 0)
+    .map(({ entry, hasDates }) => {
+      let confidence = 0.3
+      if (entry.jobTitle) confidence += 0.2
+      if (entry.company) confidence += 0.2
+      if (hasDates) confidence += 0.2
+      if (entry.bullets.length > 0) confidence += 0.1
+      if (entry.bullets.length === 0) entry.bullets = ['']
+      return { entry, confidence: roundScore(confidence) }
+    })
+}
+
+function fillRoleField(entry: CvSectionExperience, part: string) {
+  if (!entry.jobTitle) entry.jobTitle = part
+  else if (!entry.company) entry.company = part
+  else if (!entry.location) entry.location = part
+}
+
+function parseEducation(lines: string[]): Array<{ entry: CvData['education'][number]; confidence: number }> {
+  const entries: Array<CvData['education'][number]> = []
+  let current: CvData['education'][number] | null = null
+  const details: Map<CvData['education'][number], string[]> = new Map()
+
+  for (const rawLine of lines) {
+    const line = cleanLine(rawLine)
+    if (!line) continue
+    const text = stripBullet(line)
+    const years = text.match(YEAR_PATTERN)
+    const withoutYears = cleanLine(text.replace(DATE_RANGE_PATTERN, '').replace(YEAR_PATTERN, '').replace(/\(\s*\)/g, '').replace(/[-–—,|]\s*$/, ''))
+    const isDegree = DEGREE_PATTERN.test(withoutYears)
+    const isSchool = SCHOOL_PATTERN.test(withoutYears)
+
+    if (isDegree || isSchool) {
+      const field = isDegree && !(isSchool && current?.degree && !current.school) ? 'degree' : 'school'
+      if (!current || current[field]) {
+        current = { degree: '', school: '' }
+        entries.push(current)
+        details.set(current, [])
+      }
+      // "BSc Computer Science, University of Leeds" on one line
+      const parts = withoutYears.split(/\s*[,|]\s*|\s+[-–—]\s+/).filter(Boolean)
+      const schoolPart = parts.find((part) => SCHOOL_PATTERN.test(part))
+      if (isDegree && isSchool && schoolPart && parts.length > 1) {
+        current.degree = current.degree || parts.filter((part) => part !== schoolPart).join(', ')
+        current.school = current.school || schoolPart
+      } else {
+        current[field] = withoutYears
+      }
+    } else if (current && !years) {
+      details.get(current)?.push(text)
+    }
+
+    if (current && years) {
+      current.year = years[years.length - 1]
+    }
+  }
+
+  return entries.map((entry) => {
+    const extra = details.get(entry) || []
+    if (extra.length > 0) entry.details = extra.join('\n')
+    let confidence = 0.3
+    if (entry.degree) confidence += 0.3
+    if (entry.school) confidence += 0.3
+    if (entry.year) confidence += 0.1
+    return { entry, confidence: roundScore(confidence) }
+  })
+}
+
+function parseHeader(headerLines: string[], fullText: string, confidence: Record<string, number>): CvData['personalInfo'] {
+  const personalInfo: CvData['personalInfo'] = { fullName: '', email: '', phone: '', location: '', linkedin: '', website: '' }
+  const headerText = headerLines.join('\n')
+
+  const pick = (pattern: RegExp, field: keyof CvData['personalInfo'], headerScore: number, bodyScore: number) => {
+    const inHeader = headerText.match(pattern)
+    const match = inHeader || fullText.match(pattern)
+    if (match) {
+      personalInfo[field] = match[0].replace(/[.,;]+$/, '').trim()
+      confidence[`personalInfo.${field}`] = inHeader ? headerScore : bodyScore
+    }
+  }
+
+  pick(EMAIL_PATTERN, 'email', 0.95, 0.8)
+  pick(PHONE_PATTERN, 'phone', 0.85, 0.6)
+  pick(LINKEDIN_PATTERN, 'linkedin', 0.95, 0.85)
+
+  const website = headerLines
+    .flatMap((line) => line.match(new RegExp(WEBSITE_PATTERN.source, 'gi')) || [])
+    .find((url) => !/linkedin\.com/i.test(url))
+  if (website) {
+    personalInfo.website = website
+    confidence['personalInfo.website'] = 0.8
+  }
+
+  // Contact details often share one line: "London | 07700 900123 | jo@example.com"
+  const segments = headerLines.flatMap((line) => line.split(/\s*[|•·]\s*|\s{2,}/)).map(cleanLine).filter(Boolean)
+  const isContact = (segment: string) =>
+    EMAIL_PATTERN.test(segment) || PHONE_PATTERN.test(segment) || LINKEDIN_PATTERN.test(segment) || WEBSITE_PATTERN.test(segment)
+
+  const nameLine = segments.find((segment) =>
+    !isContact(segment) && /^[A-Za-zÀ-ÿ'’.-]+(?:\s+[A-Za-zÀ-ÿ'’.-]+){1,3}$/.test(segment) && !detectHeading(segment)
+  )
+  if (nameLine) {
+    personalInfo.fullName = nameLine
+    confidence['personalInfo.fullName'] = segments[0] === nameLine ? 0.9 : 0.6
+  }
+
+  const locationLine = segments.find((segment) =>
+    segment !== nameLine && !isContact(segment) && segment.length <= 60 &&
+    (POSTCODE_PATTERN.test(segment) || /,\s*(uk|united kingdom|england|scotland|wales|northern ireland)$/i.test(segment) || /^(?:address|location)\s*:/i.test(segment))
+  )
+  if (locationLine) {
+    personalInfo.location = locationLine.replace(/^(?:address|location)\s*:\s*/i, '')
+    confidence['personalInfo.location'] = 0.7
+  }
+
+  return personalInfo
+}
+
+/**
+ * Parse CV text into CvData. Fields that could not be found are left empty
+ * and have no confidence entry.
+ */
+export function parseCvText(text: string): CvImportResult {
+  const confidence: Record<string, number> = {}
+  const warnings: string[] = []
+
+  const lines = text
+    .replace(/\r\n?/g, '\n')
+    .replace(/\f/g, '\n')
+    .split('\n')
+    .map((line) => line.replace(/\t/g, ' ').trimEnd())
+
+  const sections = splitSections(lines)
+  const linesFor = (key: CvImportSectionKey) => sections.filter((section) => section.key === key).flatMap((section) => section.lines)
+  const nonEmpty = (items: string[]) => items.map(cleanLine).filter(Boolean)
+
+  const headerLines = nonEmpty(linesFor('header'))
+  const personalInfo = parseHeader(headerLines.slice(0, 8), text, confidence)
+
+  // Summary: the summary section, or a paragraph left in the header
+  let summary = nonEmpty(linesFor('summary')).map(stripBullet).join(' ')
+  if (summary) {
+    confidence.summary = 0.9
+  } else {
+    const paragraph = headerLines.filter((line) => line.length > 80 && !EMAIL_PATTERN.test(line)).join(' ')
+    if (paragraph) {
+      summary = paragraph
+      confidence.summary = 0.5
+    }
+  }
+
+  const experience = parseExperience(linesFor('experience'))
+  experience.forEach(({ confidence: score }, index) => {
+    confidence[`experience[${index}]`] = score
+  })
+
+  const education = parseEducation(linesFor('education'))
+  education.forEach(({ confidence: score }, index) => {
+    confidence[`education[${index}]`] = score
+  })
+
+  const skills = splitListItems(linesFor('skills'))
+  if (skills.length > 0) confidence.skills = skills.every((skill) => skill.split(' ').length <= 4) ? 0.85 : 0.6
+
+  const languages = splitListItems(linesFor('languages'))
+  if (languages.length > 0) confidence.languages = 0.85
+
+  const certifications = nonEmpty(linesFor('certifications')).map(stripBullet)
+  if (certifications.length > 0) confidence.certifications = 0.75
+
+  if (!sections.some((section) => section.key !== 'header')) {
+    warnings.push('No section headings were recognised, so only contact details and a summary could be read.')
+  }
+  if (nonEmpty(linesFor('experience')).length > 0 && experience.length === 0) {
+    warnings.push('Work experience was found but could not be split into roles.')
+  }
+  const skipped = sections.filter((section) => section.key === 'other').map((section) => section.heading)
+  if (skipped.length > 0) {
+    warnings.push(`Not imported: ${skipped.join(', ')}.`)
+  }
+
+  return {
+    cv: {
+      personalInfo,
+      summary,
+      experience: experience.length > 0
+        ? experience.map(({ entry }) => entry)
+        : [{ id: Date.now().toString(), jobTitle: '', company: '', bullets: [''] }],
+      education: education.length > 0 ? education.map(({ entry }) => entry) : [{ degree: '', school: '' }],
+      skills,
+      projects: [],
+      languages,
+      certifications,
+      publications: [],
+    },
+    confidence,
+    warnings,
+  }
+}
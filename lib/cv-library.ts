@@ -0,0 +1,151 @@
+/**
+ * CV Library
+ * Several named CVs per user ("Warehouse", "Customer Service", ...) with a
+ * timestamped version history per CV.
+ *
+ * Safe to import from client components: server helpers only take a
+ * Supabase client as an argument and never read cookies themselves.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { parseCvData, type CvData } from '@/lib/cv-schema'
+
+/**
+ * Base localStorage key for the builder's working copy.
+ * Drafts for library CVs are stored under `${CV_DRAFT_STORAGE_KEY}:${cvId}`
+ * so switching CVs never overwrites another CV's unsaved draft.
+ */
+export const CV_DRAFT_STORAGE_KEY = 'jobaz-cv-v2-draft'
+
+/**
+ * localStorage key (before user scoping) remembering the CV last open in the builder
+ */
+export const ACTIVE_CV_STORAGE_KEY = 'jobaz-cv-v2-active'
+
+/**
+ * Number of versions kept per CV; older snapshots are pruned on save
+ */
+export const MAX_CV_VERSIONS = 20
+
+export const DEFAULT_CV_TITLE = 'My CV'
+
+export interface CvLibraryItem {
+  id: string
+  title: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface CvVersion {
+  id: string
+  cvId: string
+  title: string | null
+  data: CvData
+  createdAt: string
+}
+
+/**
+ * Get the (unscoped) draft storage key for a CV.
+ * Unsaved CVs (no id yet) keep using the legacy single draft key.
+ */
+export function getCvDraftStorageKey(cvId: string | null): string {
+  return cvId ? `${CV_DRAFT_STORAGE_KEY}:${cvId}` : CV_DRAFT_STORAGE_KEY
+}
+
+/**
+ * Normalize a user-provided CV title
+ */
+export function normalizeCvTitle(title: unknown): string {
+  if (typeof title !== 'string') return DEFAULT_CV_TITLE
+  const trimmed = title.trim().slice(0, 120)
+  return trimmed || DEFAULT_CV_TITLE
+}
+
+/**
+ * Map a cvs row to a library list item
+ */
+export function toCvLibraryItem(row: any): CvLibraryItem {
+  return {
+    id: row.id,
+    title: row.title || DEFAULT_CV_TITLE,
+    createdAt: row.created_at || row.saved_at || new Date().toISOString(),
+    updatedAt: row.updated_at || row.saved_at || row.created_at || new Date().toISOString(),
+  }
+}
+
+/**
+ * Map a cv_versions row to a CvVersion, with its snapshot upgraded to the current CV schema
+ */
+export function toCvVersion(row: any): CvVersion {
+  return {
+    id: row.id,
+    cvId: row.cv_id,
+    title: row.title ?? null,
+    data: parseCvData(row.data).data,
+    createdAt: row.created_at,
+  }
+}
+
+// Tables whose cv_version_id must survive pruning
+const CV_VERSION_REFERENCES = ['applied_jobs', 'cover_letters', 'cover_letter_versions']
+
+/**
+ * Snapshot a CV into cv_versions and prune anything beyond MAX_CV_VERSIONS.
+ * Never throws: version history must not block saving the CV itself.
+ */
+export async function recordCvVersion(
+  supabase: SupabaseClient,
+  params: { cvId: string; userId: string; title: string | null; data: Record<string, any> }
+): Promise<void> {
+  try {
+    const { error: insertError } = await supabase.from('cv_versions').insert({
+      cv_id: params.cvId,
+      user_id: params.userId,
+      title: params.title,
+      data: params.data,
+    })
+
+    if (insertError) {
+      console.error('[CV Library] Failed to record version:', insertError)
+      return
+    }
+
+    const { data: stale } = await supabase
+      .from('cv_versions')
+      .select('id')
+      .eq('cv_id', params.cvId)
+      .eq('user_id', params.userId)
+      .order('created_at', { ascending: false })
+      .range(MAX_CV_VERSIONS, MAX_CV_VERSIONS + 100)
+
+    if (stale && stale.length > 0) {
+      // Keep versions an application or cover letter points at (cv_version_id)
+      const staleIds = stale.map((row: { id: string }) => row.id)
+      const referenced = await Promise.all(
+        CV_VERSION_REFERENCES.map((table) =>
+          supabase
+            .from(table)
+            .select('cv_version_id')
+            .eq('user_id', params.userId)
+            .in('cv_version_id', staleIds)
+        )
+      )
+      // Unknown references: prune on a later save rather than unlink a version
+      if (referenced.some(({ error }) => error)) return
+      const keptIds = new Set(
+        referenced.flatMap(({ data }) => (data || []).map((row: { cv_version_id: string }) => row.cv_version_id))
+      )
+      const deletable = staleIds.filter((id: string) => !keptIds.has(id))
+
+      if (deletable.length > 0) {
+        await supabase
+          .from('cv_versions')
+          .delete()
+          .in('id', deletable)
+          .eq('user_id', params.userId)
+      }
+    }
+  } catch (error) {
+    console.error('[CV Library] Unexpected error recording version:', error)
+  }
+}
@@ -0,0 +1,253 @@
+/**
+ * Plain-text and Markdown CVs
+ * For job portals that only accept a pasted CV. Sections follow the CV's
+ * section order (ATS Classic by default) and skip hidden ones; text is
+ * word-wrapped to a fixed width (0 = no wrapping) and can be reduced to
+ * plain ASCII for portals that mangle Unicode.
+ */
+
+import type { CvData, CvSectionId } from '@/lib/cv-schema'
+import {
+  contactItems,
+  formatPeriod,
+  formatPublication,
+  orderSections,
+  toUrl,
+  visibleCustomSections,
+  visibleEducation,
+  visibleExperience,
+  visibleList,
+  visibleProjects,
+  visiblePublications,
+} from '@/lib/cv-export'
+import { SECTION_HEADINGS } from '@/lib/cv-sections'
+
+export type PlainTextCvFormat = 'text' | 'markdown'
+
+export interface PlainTextCvOptions {
+  format?: PlainTextCvFormat
+  /** Replace dashes, quotes, bullets, currency signs and accents with ASCII */
+  asciiOnly?: boolean
+  /** Maximum characters per line; 0 disables wrapping */
+  lineWidth?: number
+}
+
+export const PLAIN_TEXT_FORMATS: PlainTextCvFormat[] = ['text', 'markdown']
+export const DEFAULT_LINE_WIDTH = 80
+export const MIN_LINE_WIDTH = 40
+export const MAX_LINE_WIDTH = 120
+
+const ASCII_REPLACEMENTS: Array<[RegExp, string]> = [
+  [/[\u2010-\u2015\u2212]/g, '-'],
+  [/[\u2018\u2019\u201A\u2032]/g, "'"],
+  [/[\u201C\u201D\u201E\u2033]/g, '"'],
+  [/[\u2022\u25CF\u25AA\u25E6\u2023\u2219]/g, '-'],
+  [/\u00B7/g, '|'],
+  [/\u2026/g, '...'],
+  [/\u00A3/g, 'GBP '],
+  [/\u20AC/g, 'EUR '],
+  [/\u00A9/g, '(c)'],
+  [/\u00AE/g, '(R)'],
+  [/\u2122/g, '(TM)'],
+  [/[\u00A0\u2000-\u200A\u202F]/g, ' '],
+  [/[\u200B-\u200D\uFEFF]/g, ''],
+  [/\u00DF/g, 'ss'],
+  [/[\u00C6]/g, 'AE'],
+  [/[\u00E6]/g, 'ae'],
+  [/[\u00D8]/g, 'O'],
+  [/[\u00F8]/g, 'o'],
+]
+
+export function toAscii(text: string): string {
+  let result = text
+  for (const [pattern, replacement] of ASCII_REPLACEMENTS) result = result.replace(pattern, replacement)
+  return result
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\x09\x0A\x0D\x20-\x7E]/g, '')
+    .replace(/ +\n/g, '\n')
+}
+
+/**
+ * Greedy word wrap. `firstPrefix` starts the first line (e.g. "- "),
+ * continuation lines are indented to line up with the text after it.
+ */
+export function wrapLine(text: string, width: number, firstPrefix = '', indent = ' '.repeat(firstPrefix.length)): string[] {
+  const words = text.replace(/\s+/g, ' ').trim().split(' ').filter(Boolean)
+  if (words.length === 0) return firstPrefix.trim() ? [firstPrefix.trimEnd()] : []
+  if (!width) return [firstPrefix + words.join(' ')]
+
+  const lines: string[] = []
+  let current = firstPrefix
+  let hasWord = false
+  for (const word of words) {
+    const candidate = hasWord ? `${current} ${word}` : current + word
+    if (hasWord && candidate.length > width) {
+      lines.push(current)
+      current = indent + word
+    } else {
+      current = candidate
+    }
+    hasWord = true
+  }
+  lines.push(current)
+  return lines
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/([\\`*_[\]])/g, '\\$1').replace(/^(#{1,6}\s|[-+>]\s|\d+\.\s)/, '\\$1')
+}
+
+interface Block {
+  heading: string
+  lines: string[]
+}
+
+/**
+ * Render a CV as plain text or Markdown
+ */
+export function renderCvPlainText(cv: CvData, options: PlainTextCvOptions = {}): string {
+  const format = options.format || 'text'
+  const width = options.lineWidth ?? DEFAULT_LINE_WIDTH
+  const markdown = format === 'markdown'
+  const dot = options.asciiOnly ? '|' : '·'
+  const bullet = markdown ? '- ' : options.asciiOnly ? '- ' : '• '
+  // ASCII conversion happens before wrapping, since it can change lengths ("£" -> "GBP ")
+  const clean = (text: string) => (options.asciiOnly ? toAscii(text) : text).trim()
+  const inline = (text: string) => (markdown ? escapeMarkdown(clean(text)) : clean(text))
+  const paragraph = (text: string) => wrapLine(inline(text), width)
+  const bulletLines = (text: string) => wrapLine(inline(text), width, bullet)
+  const joinInline = (items: Array<string | undefined>, separator: string) => items.map((item) => item?.trim()).filter(Boolean).join(separator)
+
+  const blocks: Partial<Record<CvSectionId, Block>> = {}
+
+  const summary = (cv.summary || '').trim()
+  if (summary) {
+    const lines: string[] = []
+    summary.split(/\n\s*\n/).forEach((part, index) => {
+      if (index > 0) lines.push('')
+      lines.push(...paragraph(part.replace(/\s*\n\s*/g, ' ')))
+    })
+    blocks.summary = { heading: SECTION_HEADINGS.summary, lines }
+  }
+
+  const experience = visibleExperience(cv)
+  if (experience.length > 0) {
+    const lines: string[] = []
+    experience.forEach((exp, index) => {
+      if (index > 0) lines.push('')
+      const title = joinInline([exp.jobTitle, exp.company], ', ')
+      lines.push(...(markdown ? [`### ${inline(title)}`] : paragraph(title)))
+      const meta = joinInline([exp.location, formatPeriod(exp.startDate, exp.endDate, exp.isCurrent)], ` ${dot} `)
+      if (meta) lines.push(...(markdown ? [`*${inline(meta)}*`] : paragraph(meta)))
+      const bullets = (exp.bullets || []).filter((item) => item.trim())
+      if (bullets.length > 0) {
+        if (markdown) lines.push('')
+        bullets.forEach((item) => lines.push(...bulletLines(item)))
+      }
+    })
+    blocks.experience = { heading: SECTION_HEADINGS.experience, lines }
+  }
+
+  const education = visibleEducation(cv)
+  if (education.length > 0) {
+    const lines: string[] = []
+    education.forEach((edu, index) => {
+      if (index > 0 && (markdown || edu.details)) lines.push('')
+      const title = joinInline([edu.degree, edu.school], ', ') + (edu.year ? ` (${edu.year.trim()})` : '')
+      lines.push(...(markdown ? [`**${inline(title)}**`] : paragraph(title)))
+      if (edu.details?.trim()) lines.push(...paragraph(edu.details))
+    })
+    blocks.education = { heading: SECTION_HEADINGS.education, lines }
+  }
+
+  const skills = visibleList(cv.skills)
+  if (skills.length > 0) blocks.skills = { heading: SECTION_HEADINGS.skills, lines: paragraph(skills.join(', ')) }
+
+  const projects = visibleProjects(cv)
+  if (projects.length > 0) {
+    const lines: string[] = []
+    projects.forEach((project, index) => {
+      if (index > 0) lines.push('')
+      if (markdown) {
+        // Separate blocks, otherwise Markdown joins them into one paragraph
+        if (project.name?.trim()) lines.push(`### ${inline(project.name)}`)
+        if (project.description?.trim()) lines.push('', ...paragraph(project.description))
+        const href = project.url?.trim() ? toUrl(project.url) : undefined
+        if (project.url?.trim()) lines.push('', href ? `[${inline(project.url)}](${href})` : inline(project.url))
+        return
+      }
+      if (project.name?.trim()) lines.push(...paragraph(project.name))
+      if (project.description?.trim()) lines.push(...paragraph(project.description))
+      if (project.url?.trim()) lines.push(clean(project.url))
+    })
+    blocks.projects = { heading: SECTION_HEADINGS.projects, lines }
+  }
+
+  const certifications = visibleList(cv.certifications)
+  if (certifications.length > 0) {
+    blocks.certifications = { heading: SECTION_HEADINGS.certifications, lines: certifications.flatMap((cert) => bulletLines(cert)) }
+  }
+
+  const languages = visibleList(cv.languages)
+  if (languages.length > 0) blocks.languages = { heading: SECTION_HEADINGS.languages, lines: paragraph(languages.join(', ')) }
+
+  const publications = visiblePublications(cv)
+  if (publications.length > 0) {
+    const lines: string[] = []
+    publications.forEach((pub) => {
+      lines.push(...bulletLines(formatPublication(pub)))
+      if (pub.notes?.trim()) lines.push(...wrapLine(inline(pub.notes), width, '  '))
+    })
+    blocks.publications = { heading: SECTION_HEADINGS.publications, lines }
+  }
+
+  visibleCustomSections(cv).forEach((section) => {
+    const lines: string[] = section.note ? paragraph(section.note) : []
+    section.items.forEach((item, index) => {
+      if (index > 0 && (markdown || item.description?.trim())) lines.push('')
+      const title = joinInline([item.title, item.subtitle], ', ') + (item.date?.trim() ? ` (${item.date.trim()})` : '')
+      lines.push(...(markdown ? [`**${inline(title)}**`] : paragraph(title)))
+      if (item.description?.trim()) lines.push(...paragraph(item.description))
+    })
+    blocks[section.key] = { heading: inline(section.heading), lines }
+  })
+
+  // Header
+  const name = (cv.personalInfo?.fullName || '').trim() || 'Your Name'
+  const output: string[] = []
+  if (markdown) {
+    output.push(`# ${inline(name)}`)
+  } else {
+    output.push(clean(name).toUpperCase())
+  }
+  const contact = contactItems(cv)
+  if (contact.length > 0) {
+    // Wrap between items so an email or URL is never split
+    const items = contact.map(inline)
+    const separator = ` ${dot} `
+    let line = ''
+    for (const item of items) {
+      if (line && width && (line + separator + item).length > width) {
+        output.push(line)
+        line = item
+      } else {
+        line = line ? line + separator + item : item
+      }
+    }
+    output.push(line)
+  }
+
+  for (const block of orderSections(cv, blocks)) {
+    output.push('')
+    if (markdown) {
+      output.push(`## ${block.heading}`, '')
+    } else {
+      const heading = block.heading.toUpperCase()
+      output.push(heading, '-'.repeat(heading.length))
+    }
+    output.push(...block.lines)
+  }
+
+  return output.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n'
+}
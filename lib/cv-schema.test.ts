@@ -0,0 +1,140 @@
+/**
+ * Test cases for CV schema migration and validation
+ * Run with: npx tsx lib/cv-schema.test.ts
+ */
+
+import { CV_SCHEMA_VERSION, parseCvData, type CvParseResult } from './cv-schema'
+
+// Test helper
+function testCase(name: string, raw: unknown, check: (result: CvParseResult) => boolean) {
+  const result = parseCvData(raw)
+  const passed = check(result)
+
+  console.log(`${passed ? '✅' : '❌'} ${name}`)
+  if (!passed) {
+    console.log(`   Data: ${JSON.stringify(result.data)}`)
+    console.log(`   Issues: ${JSON.stringify(result.issues)}`)
+    console.log(`   ❌ FAILED`)
+  }
+  console.log('')
+
+  return passed
+}
+
+// Test 1: Current builder CV without a version (saved before the schema existed)
+const builderCv = {
+  template: 'twoColumnPro',
+  personalInfo: { fullName: 'Amira Haddad', email: 'amira@example.com', phone: '07700 900123', location: 'Leeds' },
+  summary: 'Warehouse operative with five years of experience.',
+  experience: [
+    { id: 'a', jobTitle: 'Warehouse Operative', company: 'Parcelnet', startDate: 'Mar 2019', endDate: 'Present', bullets: ['Picked 200 orders a shift'] },
+  ],
+  education: [{ degree: 'BTEC Business', school: 'Leeds City College', year: '2018' }],
+  skills: ['Forklift', 'Stock control'],
+  customSections: [{ id: 's1', kind: 'volunteering', heading: 'Volunteering', items: [{ id: 'i1', title: 'Food bank volunteer' }] }],
+  sectionOrder: ['summary', 'custom:s1', 'experience'],
+}
+
+// Test 2: The old zustand builder store (personal / summaryMd / period + description)
+const storeCv = {
+  personal: { fullName: 'Tom Price', email: 'tom@example.com', city: 'Bristol' },
+  summaryMd: 'Chef de partie.',
+  experience: [{ role: 'Chef de Partie', company: 'The Olive Tree', period: 'Jan 2020 - Present', description: '- Ran the grill section\n- Trained two commis chefs' }],
+  education: [{ degree: 'NVQ Level 3 Professional Cookery', school: 'City of Bristol College' }],
+  skills: ['Menu planning'],
+  layout: 'modern',
+  atsMode: false,
+}
+
+// Test 3: The layouts store (firstName / lastName, experiences, skill levels, portfolio projects)
+const layoutsCv = {
+  personalInfo: { firstName: 'Li', lastName: 'Wei', email: 'li@example.com', phone: '', location: 'Manchester' },
+  summary: '',
+  experiences: [{ id: 'x', title: 'Data Analyst', company: 'Northwind', startDate: '2021', endDate: '2023', description: 'Built weekly sales dashboards' }],
+  educations: [{ id: 'e', degree: 'BSc Mathematics', school: 'University of Manchester', year: '2020', description: 'First class' }],
+  skills: [{ name: 'SQL', level: 5 }, { name: 'Python', level: 4 }],
+  portfolioProjects: [{ id: 'p', name: 'Sales dashboard', description: 'Power BI report', role: 'Author', link: 'https://example.com' }],
+}
+
+// Test 4: Wrong types are dropped and reported with their field paths
+const invalidCv = {
+  schemaVersion: CV_SCHEMA_VERSION,
+  personalInfo: { fullName: 'Sam Lee', email: ['sam@example.com'] },
+  summary: 'Retail supervisor.',
+  experience: [{ id: 'a', jobTitle: 'Supervisor', company: 'Shopwise', bullets: ['Led a team of 6', { text: 'Opened the store' }, null] }, 'not a role'],
+  skills: 'Customer service, Cash handling',
+  sectionOrder: ['summary', 'footer'],
+  customSections: [{ id: 's', kind: 'hobbies', heading: 'Hobbies', items: [] }],
+}
+
+console.log('Running CV schema test cases...\n')
+console.log('='.repeat(50))
+console.log('')
+
+let allPassed = true
+
+allPassed = testCase('Test 1: Unversioned builder CV parses cleanly and keeps every section', builderCv, (result) =>
+  result.ok &&
+  result.data.schemaVersion === CV_SCHEMA_VERSION &&
+  result.data.template === 'twoColumnPro' &&
+  result.data.experience[0].isCurrent === true &&
+  result.data.experience[0].start?.year === 2019 &&
+  result.data.experience[0].start?.month === 3 &&
+  result.data.customSections?.[0].items[0].title === 'Food bank volunteer' &&
+  result.data.sectionOrder?.[1] === 'custom:s1'
+) && allPassed
+
+allPassed = testCase('Test 1b: Parsing a parsed CV changes nothing', parseCvData(builderCv).data, (result) =>
+  result.ok && JSON.stringify(result.data) === JSON.stringify(parseCvData(builderCv).data)
+) && allPassed
+
+allPassed = testCase('Test 2: Old builder store migrates (name, summary, period, description bullets)', storeCv, (result) =>
+  result.ok &&
+  result.data.personalInfo.fullName === 'Tom Price' &&
+  result.data.personalInfo.location === 'Bristol' &&
+  result.data.summary === 'Chef de partie.' &&
+  result.data.experience[0].jobTitle === 'Chef de Partie' &&
+  result.data.experience[0].startDate === 'Jan 2020' &&
+  result.data.experience[0].isCurrent === true &&
+  result.data.experience[0].bullets.join('|') === 'Ran the grill section|Trained two commis chefs' &&
+  !('layout' in result.data)
+) && allPassed
+
+allPassed = testCase('Test 3: Layouts store migrates (first and last name, experiences, skill objects, projects)', layoutsCv, (result) =>
+  result.ok &&
+  result.data.personalInfo.fullName === 'Li Wei' &&
+  result.data.experience[0].jobTitle === 'Data Analyst' &&
+  result.data.experience[0].end?.year === 2023 &&
+  result.data.education[0].details === 'First class' &&
+  result.data.skills.join(',') === 'SQL,Python' &&
+  result.data.projects?.[0].url === 'https://example.com'
+) && allPassed
+
+allPassed = testCase('Test 4: Invalid fields are reported by path and dropped', invalidCv, (result) => {
+  const paths = result.issues.map((issue) => issue.path)
+  return (
+    !result.ok &&
+    ['personalInfo.email', 'experience[0].bullets[1]', 'experience[0].bullets[2]', 'experience[1]', 'skills', 'sectionOrder[1]', 'customSections[0].kind'].every(
+      (path) => paths.includes(path)
+    ) &&
+    result.data.personalInfo.email === '' &&
+    result.data.experience.length === 1 &&
+    result.data.experience[0].bullets.length === 1 &&
+    result.data.customSections?.[0].kind === 'custom'
+  )
+}) && allPassed
+
+allPassed = testCase('Test 5: A partial CV fills in defaults without issues', { summary: 'Just a summary' }, (result) =>
+  result.ok && result.data.personalInfo.fullName === '' && result.data.experience.length === 0 && result.data.summary === 'Just a summary'
+) && allPassed
+
+allPassed = testCase('Test 5b: A non-object CV is an issue', 'my cv', (result) => !result.ok && result.issues[0].path === '') && allPassed
+
+console.log('='.repeat(50))
+console.log('')
+if (allPassed) {
+  console.log('✅ All tests passed!')
+} else {
+  console.log('❌ Some tests failed')
+  process.exit(1)
+}
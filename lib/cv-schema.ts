@@ -0,0 +1,424 @@
+/**
+ * Canonical CV schema
+ * The one CV shape the builder, renderers, scores and API routes share.
+ * Stored CVs (cvs rows, version snapshots, localStorage drafts) carry
+ * `schemaVersion`; parseCvData upgrades older ones, including the shapes the
+ * earlier builders wrote (`personal`/`summaryMd`, `firstName`/`lastName`,
+ * `experiences` with free-text descriptions), then checks every field.
+ *
+ * Missing fields get their defaults, so partial CVs parse cleanly. Fields of
+ * the wrong type are dropped and reported as issues: editors load what is
+ * left, API routes reject the request.
+ */
+
+import { MAX_CV_YEAR, MIN_CV_YEAR, migrateExperienceDates } from '@/lib/cv-dates'
+import { DEFAULT_SECTION_ORDER, isCustomSectionKind } from '@/lib/cv-sections'
+
+export type CvTemplateId = 'atsClassic' | 'twoColumnPro' | 'customizeStyle'
+
+// A month (1-12) and year; year-only dates leave the month out
+export type CvMonthYear = {
+  year: number
+  month?: number
+}
+
+export type CvSectionExperience = {
+  id: string
+  jobTitle: string
+  company: string
+  location?: string
+  /** Display text ("Mar 2019"), kept in step with `start`/`end` for the templates and exports */
+  startDate?: string
+  endDate?: string
+  start?: CvMonthYear
+  end?: CvMonthYear
+  isCurrent?: boolean
+  bullets: string[]
+}
+
+export type CvCustomSectionKind = 'volunteering' | 'awards' | 'memberships' | 'licences' | 'references' | 'custom'
+
+export type CvCustomSectionItem = {
+  id: string
+  title: string
+  subtitle?: string
+  date?: string
+  description?: string
+}
+
+// A user-defined section; it prints where `sectionOrder` puts "custom:<id>"
+export type CvCustomSection = {
+  id: string
+  kind: CvCustomSectionKind
+  heading: string
+  items: CvCustomSectionItem[]
+}
+
+export type CvBuiltInSectionId = 'summary' | 'experience' | 'education' | 'skills' | 'projects' | 'certifications' | 'languages' | 'publications'
+
+// Custom sections take part in the ordering as `custom:<section id>`
+export type CvSectionId = CvBuiltInSectionId | `custom:${string}`
+
+export type CvData = {
+  /** Set by parseCvData; CVs without one predate the schema */
+  schemaVersion?: number
+  /** Template the CV was last saved with */
+  template?: CvTemplateId
+  personalInfo: {
+    fullName: string
+    email: string
+    phone?: string
+    location?: string
+    linkedin?: string
+    website?: string
+  }
+  summary: string
+  experience: CvSectionExperience[]
+  education: Array<{
+    degree: string
+    school: string
+    year?: string
+    details?: string
+  }>
+  skills: string[]
+  projects?: Array<{
+    name: string
+    description: string
+    url?: string
+  }>
+  languages?: string[]
+  certifications?: string[]
+  publications?: Array<{
+    title: string
+    authors?: string
+    venueOrJournal?: string
+    year?: string
+    doiOrUrl?: string
+    notes?: string
+  }>
+  customSections?: CvCustomSection[]
+  /** Print order of the sections; entries inside a section print in array order */
+  sectionOrder?: CvSectionId[]
+  /** Sections left out of the preview and exports, with their data kept */
+  hiddenSections?: CvSectionId[]
+}
+
+export const CV_SCHEMA_VERSION = 1
+
+export const CV_TEMPLATE_IDS: CvTemplateId[] = ['atsClassic', 'twoColumnPro', 'customizeStyle']
+
+export interface CvSchemaIssue {
+  /** Field path in the builder's grammar, e.g. "experience[0].bullets[2]" */
+  path: string
+  message: string
+}
+
+export interface CvParseResult {
+  ok: boolean
+  /** The CV at CV_SCHEMA_VERSION, without the fields listed in `issues` */
+  data: CvData
+  issues: CvSchemaIssue[]
+}
+
+type StoredCv = Record<string, any>
+
+function isRecord(value: unknown): value is StoredCv {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+// "Jan 2019 - Present", "2018 to 2020"
+function splitPeriod(period: unknown): [string | undefined, string | undefined] {
+  if (typeof period !== 'string' || !period.trim()) return [undefined, undefined]
+  const [start, end] = period.split(/\s+(?:-|–|—|to)\s+/i)
+  return [start?.trim() || undefined, end?.trim() || undefined]
+}
+
+function descriptionToBullets(description: unknown): string[] | undefined {
+  if (typeof description !== 'string') return undefined
+  return description
+    .split('\n')
+    .map((line) => line.replace(/^\s*[-•*–]\s*/, '').trim())
+    .filter(Boolean)
+}
+
+/**
+ * Version 0 (no schemaVersion) to 1: map the field names of the older
+ * builders and the dashboard's flat contact fields onto the current ones
+ */
+function fromUnversioned(cv: StoredCv): StoredCv {
+  const personal = [cv.personalInfo, cv.personal_info, cv.personal].find(isRecord) ?? {}
+  const nameParts = [personal.firstName, personal.lastName].filter((part) => typeof part === 'string' && part.trim())
+  const experience = cv.experience ?? cv.experiences
+  const education = cv.education ?? cv.educations
+  const projects = cv.projects ?? cv.portfolioProjects
+
+  return {
+    ...cv,
+    personalInfo: {
+      fullName: personal.fullName ?? personal.name ?? (nameParts.length > 0 ? nameParts.join(' ') : cv.fullName),
+      email: personal.email ?? cv.email,
+      phone: personal.phone ?? cv.phone,
+      location: personal.location ?? personal.city ?? cv.location ?? cv.city,
+      linkedin: personal.linkedin ?? cv.linkedin,
+      website: personal.website ?? personal.portfolio ?? cv.website,
+    },
+    summary: cv.summary ?? cv.summaryMd,
+    experience: Array.isArray(experience)
+      ? experience.map((entry) => {
+          if (!isRecord(entry)) return entry
+          const [periodStart, periodEnd] = splitPeriod(entry.period ?? entry.duration)
+          return {
+            ...entry,
+            jobTitle: entry.jobTitle ?? entry.title ?? entry.role,
+            startDate: entry.startDate ?? periodStart,
+            endDate: entry.endDate ?? periodEnd,
+            bullets: entry.bullets ?? descriptionToBullets(entry.description),
+          }
+        })
+      : experience,
+    education: Array.isArray(education)
+      ? education.map((entry) =>
+          isRecord(entry) ? { ...entry, school: entry.school ?? entry.institution, details: entry.details ?? entry.description } : entry
+        )
+      : education,
+    // Skills used to be { name, level } objects
+    skills: Array.isArray(cv.skills)
+      ? cv.skills.map((skill: unknown) => (isRecord(skill) && typeof skill.name === 'string' ? skill.name : skill))
+      : cv.skills,
+    projects: Array.isArray(projects)
+      ? projects.map((entry) => (isRecord(entry) ? { ...entry, url: entry.url ?? entry.link } : entry))
+      : projects,
+  }
+}
+
+/** MIGRATIONS[n] upgrades a version n CV to version n + 1 */
+const MIGRATIONS: Array<(cv: StoredCv) => StoredCv> = [fromUnversioned]
+
+function migrate(cv: StoredCv): StoredCv {
+  const stored = cv.schemaVersion
+  let version = typeof stored === 'number' && Number.isInteger(stored) && stored >= 0 ? stored : 0
+  let migrated = cv
+  while (version < CV_SCHEMA_VERSION) {
+    migrated = MIGRATIONS[version](migrated)
+    version++
+  }
+  return migrated
+}
+
+// Field readers: undefined and null mean "not set"; anything else of the wrong type is an issue
+
+function withoutUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, field]) => field !== undefined)) as T
+}
+
+function readText(value: unknown, path: string, issues: CvSchemaIssue[]): string | undefined {
+  if (value === undefined || value === null) return undefined
+  if (typeof value === 'string') return value
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value)
+  issues.push({ path, message: 'must be text' })
+  return undefined
+}
+
+function readRecord(value: unknown, path: string, issues: CvSchemaIssue[]): StoredCv | undefined {
+  if (value === undefined || value === null) return undefined
+  if (isRecord(value)) return value
+  issues.push({ path, message: 'must be an object' })
+  return undefined
+}
+
+function readList<T>(
+  value: unknown,
+  path: string,
+  issues: CvSchemaIssue[],
+  readItem: (item: unknown, itemPath: string, index: number) => T | undefined
+): T[] {
+  if (value === undefined || value === null) return []
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'must be a list' })
+    return []
+  }
+  const items: T[] = []
+  value.forEach((item, index) => {
+    const read = readItem(item, `${path}[${index}]`, index)
+    if (read !== undefined) items.push(read)
+  })
+  return items
+}
+
+function readTextList(value: unknown, path: string, issues: CvSchemaIssue[]): string[] {
+  return readList(value, path, issues, (item, itemPath) => {
+    if (item === null || item === undefined) {
+      issues.push({ path: itemPath, message: 'must be text' })
+      return undefined
+    }
+    return readText(item, itemPath, issues)
+  })
+}
+
+function readMonthYear(value: unknown, path: string, issues: CvSchemaIssue[]): CvMonthYear | undefined {
+  const date = readRecord(value, path, issues)
+  if (!date) return undefined
+  const { year, month } = date
+  const validYear = Number.isInteger(year) && year >= MIN_CV_YEAR && year <= MAX_CV_YEAR
+  const validMonth = month === undefined || month === null || (Number.isInteger(month) && month >= 1 && month <= 12)
+  if (!validYear || !validMonth) {
+    issues.push({ path, message: `must be a year (${MIN_CV_YEAR}-${MAX_CV_YEAR}) with an optional month (1-12)` })
+    return undefined
+  }
+  return typeof month === 'number' ? { year, month } : { year }
+}
+
+function readSectionIds(value: unknown, path: string, issues: CvSchemaIssue[]): CvSectionId[] {
+  return readList(value, path, issues, (item, itemPath) => {
+    const isBuiltIn = (DEFAULT_SECTION_ORDER as string[]).includes(item as string)
+    if (typeof item === 'string' && (isBuiltIn || /^custom:.+/.test(item))) return item as CvSectionId
+    issues.push({ path: itemPath, message: 'must be a section id' })
+    return undefined
+  })
+}
+
+function readExperience(value: unknown, path: string, issues: CvSchemaIssue[], index: number): CvSectionExperience | undefined {
+  const entry = readRecord(value, path, issues)
+  if (!entry) return undefined
+  let isCurrent: boolean | undefined
+  if (typeof entry.isCurrent === 'boolean') isCurrent = entry.isCurrent
+  else if (entry.isCurrent !== undefined && entry.isCurrent !== null) issues.push({ path: `${path}.isCurrent`, message: 'must be true or false' })
+
+  // Derive structured dates from legacy text on every parse: imports and AI rewrites still send text only
+  const exp = migrateExperienceDates(
+    withoutUndefined({
+      id: readText(entry.id, `${path}.id`, issues) || `exp-${index + 1}`,
+      jobTitle: readText(entry.jobTitle, `${path}.jobTitle`, issues) ?? '',
+      company: readText(entry.company, `${path}.company`, issues) ?? '',
+      location: readText(entry.location, `${path}.location`, issues),
+      startDate: readText(entry.startDate, `${path}.startDate`, issues),
+      endDate: readText(entry.endDate, `${path}.endDate`, issues),
+      start: readMonthYear(entry.start, `${path}.start`, issues),
+      end: readMonthYear(entry.end, `${path}.end`, issues),
+      isCurrent,
+      bullets: readTextList(entry.bullets, `${path}.bullets`, issues),
+    })
+  )
+  // Same key order whatever the input, so a parsed CV parses to itself
+  return withoutUndefined({
+    id: exp.id,
+    jobTitle: exp.jobTitle,
+    company: exp.company,
+    location: exp.location,
+    startDate: exp.startDate,
+    endDate: exp.endDate,
+    start: exp.start,
+    end: exp.end,
+    isCurrent: exp.isCurrent,
+    bullets: exp.bullets,
+  })
+}
+
+function readCustomSection(value: unknown, path: string, issues: CvSchemaIssue[], index: number): CvCustomSection | undefined {
+  const section = readRecord(value, path, issues)
+  if (!section) return undefined
+  let kind: CvCustomSectionKind = 'custom'
+  if (isCustomSectionKind(section.kind)) kind = section.kind
+  else if (section.kind !== undefined && section.kind !== null) issues.push({ path: `${path}.kind`, message: 'must be a custom section kind' })
+
+  return {
+    id: readText(section.id, `${path}.id`, issues) || `section-${index + 1}`,
+    kind,
+    heading: readText(section.heading, `${path}.heading`, issues) ?? '',
+    items: readList(section.items, `${path}.items`, issues, (item, itemPath, itemIndex) => {
+      const entry = readRecord(item, itemPath, issues)
+      if (!entry) return undefined
+      return withoutUndefined({
+        id: readText(entry.id, `${itemPath}.id`, issues) || `item-${itemIndex + 1}`,
+        title: readText(entry.title, `${itemPath}.title`, issues) ?? '',
+        subtitle: readText(entry.subtitle, `${itemPath}.subtitle`, issues),
+        date: readText(entry.date, `${itemPath}.date`, issues),
+        description: readText(entry.description, `${itemPath}.description`, issues),
+      })
+    }),
+  }
+}
+
+function readCv(cv: StoredCv, issues: CvSchemaIssue[]): CvData {
+  const personal = readRecord(cv.personalInfo, 'personalInfo', issues) ?? {}
+  let template: CvTemplateId | undefined
+  if ((CV_TEMPLATE_IDS as unknown[]).includes(cv.template)) template = cv.template
+  else if (cv.template !== undefined && cv.template !== null) issues.push({ path: 'template', message: 'must be a template id' })
+
+  return withoutUndefined({
+    schemaVersion: CV_SCHEMA_VERSION,
+    template,
+    personalInfo: withoutUndefined({
+      fullName: readText(personal.fullName, 'personalInfo.fullName', issues) ?? '',
+      email: readText(personal.email, 'personalInfo.email', issues) ?? '',
+      phone: readText(personal.phone, 'personalInfo.phone', issues),
+      location: readText(personal.location, 'personalInfo.location', issues),
+      linkedin: readText(personal.linkedin, 'personalInfo.linkedin', issues),
+      website: readText(personal.website, 'personalInfo.website', issues),
+    }),
+    summary: readText(cv.summary, 'summary', issues) ?? '',
+    experience: readList(cv.experience, 'experience', issues, (item, path, index) => readExperience(item, path, issues, index)),
+    education: readList(cv.education, 'education', issues, (item, path) => {
+      const entry = readRecord(item, path, issues)
+      if (!entry) return undefined
+      return withoutUndefined({
+        degree: readText(entry.degree, `${path}.degree`, issues) ?? '',
+        school: readText(entry.school, `${path}.school`, issues) ?? '',
+        year: readText(entry.year, `${path}.year`, issues),
+        details: readText(entry.details, `${path}.details`, issues),
+      })
+    }),
+    skills: readTextList(cv.skills, 'skills', issues),
+    projects: readList(cv.projects, 'projects', issues, (item, path) => {
+      const entry = readRecord(item, path, issues)
+      if (!entry) return undefined
+      return withoutUndefined({
+        name: readText(entry.name, `${path}.name`, issues) ?? '',
+        description: readText(entry.description, `${path}.description`, issues) ?? '',
+        url: readText(entry.url, `${path}.url`, issues),
+      })
+    }),
+    languages: readTextList(cv.languages, 'languages', issues),
+    certifications: readTextList(cv.certifications, 'certifications', issues),
+    publications: readList(cv.publications, 'publications', issues, (item, path) => {
+      const entry = readRecord(item, path, issues)
+      if (!entry) return undefined
+      return withoutUndefined({
+        title: readText(entry.title, `${path}.title`, issues) ?? '',
+        authors: readText(entry.authors, `${path}.authors`, issues),
+        venueOrJournal: readText(entry.venueOrJournal, `${path}.venueOrJournal`, issues),
+        year: readText(entry.year, `${path}.year`, issues),
+        doiOrUrl: readText(entry.doiOrUrl, `${path}.doiOrUrl`, issues),
+        notes: readText(entry.notes, `${path}.notes`, issues),
+      })
+    }),
+    customSections: readList(cv.customSections, 'customSections', issues, (item, path, index) =>
+      readCustomSection(item, path, issues, index)
+    ),
+    sectionOrder: readSectionIds(cv.sectionOrder, 'sectionOrder', issues),
+    hiddenSections: readSectionIds(cv.hiddenSections, 'hiddenSections', issues),
+  })
+}
+
+/**
+ * Upgrade a stored or submitted CV of any version to CV_SCHEMA_VERSION and
+ * check it. Never throws; unknown top-level fields are dropped.
+ */
+export function parseCvData(raw: unknown): CvParseResult {
+  const issues: CvSchemaIssue[] = []
+  if (!isRecord(raw)) {
+    if (raw !== undefined && raw !== null) issues.push({ path: '', message: 'CV must be an object' })
+    return { ok: issues.length === 0, data: readCv({}, []), issues }
+  }
+  const data = readCv(migrate(raw), issues)
+  return { ok: issues.length === 0, data, issues }
+}
+
+/**
+ * One-line summary of schema issues for error responses and logs
+ */
+export function formatCvSchemaIssues(issues: CvSchemaIssue[], limit = 3): string {
+  const shown = issues.slice(0, limit).map((issue) => (issue.path ? `${issue.path} ${issue.message}` : issue.message))
+  const more = issues.length - shown.length
+  return shown.join('; ') + (more > 0 ? ` (and ${more} more)` : '')
+}
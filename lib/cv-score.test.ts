@@ -3,16 +3,23 @@
  * Run with: npx tsx lib/cv-score.test.ts (or similar)
  */
 
-import { computeCvScore } from './cv-score'
-import type { CvData } from '@/app/cv-builder-v2/page'
+import { computeCvScore, CV_SCORE_PROFILES, type CvScoreProfileId } from './cv-score'
+import type { CvData } from '@/lib/cv-schema'
 
 // Test helper
-function testCase(name: string, cvData: CvData, expectedRange: { min: number; max: number }, expectedGated?: boolean) {
-  const result = computeCvScore(cvData)
+function testCase(
+  name: string,
+  cvData: CvData,
+  expectedRange: { min: number; max: number },
+  expectedGated?: boolean,
+  profile?: CvScoreProfileId
+) {
+  const result = computeCvScore(cvData, profile)
   const passed = result.score >= expectedRange.min && result.score <= expectedRange.max && 
                  (expectedGated === undefined || result.isGated === expectedGated)
   
   console.log(`${passed ? '✅' : '❌'} ${name}`)
+  if (profile) console.log(`   Profile: ${profile}`)
   console.log(`   Score: ${result.score} (expected: ${expectedRange.min}-${expectedRange.max})`)
   console.log(`   Completion: ${result.completionScore}/60, Quality: ${result.qualityScore}/40`)
   console.log(`   Gated: ${result.isGated} ${expectedGated !== undefined ? `(expected: ${expectedGated})` : ''}`)
@@ -25,6 +32,59 @@ function testCase(name: string, cvData: CvData, expectedRange: { min: number; ma
   return passed
 }
 
+// Profile helper: the same CV should score higher under one profile than another
+function compareCase(name: string, cvData: CvData, higher: CvScoreProfileId, lower: CvScoreProfileId) {
+  const high = computeCvScore(cvData, higher)
+  const low = computeCvScore(cvData, lower)
+  const passed = high.score > low.score
+
+  console.log(`${passed ? '✅' : '❌'} ${name}`)
+  console.log(`   ${higher}: ${high.score}, ${lower}: ${low.score} (expected ${higher} > ${lower})`)
+  if (!passed) {
+    console.log(`   ❌ FAILED`)
+  }
+  console.log('')
+
+  return passed
+}
+
+// Same profile, two CVs: the first should score lower
+function lowerCase(name: string, lowerCv: CvData, higherCv: CvData) {
+  const low = computeCvScore(lowerCv)
+  const high = computeCvScore(higherCv)
+  const passed = low.score < high.score
+
+  console.log(`${passed ? '✅' : '❌'} ${name}`)
+  console.log(`   ${low.score} vs ${high.score} (expected lower)`)
+  if (!passed) {
+    console.log(`   ❌ FAILED`)
+  }
+  console.log('')
+
+  return passed
+}
+
+// Breakdown helper: criteria add up to 60 + 40 available and to the score when not gated
+function breakdownCase(profile: CvScoreProfileId, cvData: CvData) {
+  const result = computeCvScore(cvData, profile)
+  const available = (group: 'completion' | 'quality') =>
+    result.breakdown.filter((c) => c.group === group).reduce((sum, c) => sum + c.available, 0)
+  const earned = result.breakdown.reduce((sum, c) => sum + c.earned, 0)
+  const passed = result.profile === profile &&
+                 available('completion') === 60 && available('quality') === 40 &&
+                 result.breakdown.every((c) => c.earned >= 0 && c.earned <= c.available) &&
+                 (result.isGated || Math.abs(Math.round(earned) - result.score) <= 1)
+
+  console.log(`${passed ? '✅' : '❌'} Breakdown adds up (${profile})`)
+  console.log(`   Available: ${available('completion')}/60 + ${available('quality')}/40, earned: ${earned.toFixed(1)}, score: ${result.score}`)
+  if (!passed) {
+    console.log(`   ❌ FAILED`)
+  }
+  console.log('')
+
+  return passed
+}
+
 // Test 1: Empty CV => score 0-5
 const emptyCv: CvData = {
   personalInfo: { fullName: '', email: '', phone: '', location: '', linkedin: '', website: '' },
@@ -124,6 +184,176 @@ const placeholderCv: CvData = {
   skills: ['example', 'test'],
 }
 
+// Test 6: Trades CV - short summary, two roles with two bullets, tickets
+const tradesCv: CvData = {
+  personalInfo: { fullName: 'Dave Brooks', email: 'dave@example.com', phone: '07700900123', location: 'Leeds', linkedin: '', website: '' },
+  summary: 'Qualified electrician with eight years on domestic and commercial sites, fully ticketed and happy to travel.',
+  experience: [
+    {
+      id: '1',
+      jobTitle: 'Electrician',
+      company: 'Brooks Electrical',
+      location: 'Leeds',
+      startDate: '2019-03',
+      endDate: '',
+      isCurrent: true,
+      bullets: [
+        'Installed and tested lighting and power circuits on new build homes',
+        'Inspected and certified existing installations to current wiring regulations',
+      ],
+    },
+    {
+      id: '2',
+      jobTitle: 'Apprentice Electrician',
+      company: 'North Build Ltd',
+      location: 'Bradford',
+      startDate: '2015-09',
+      endDate: '2019-02',
+      isCurrent: false,
+      bullets: [
+        'Fitted containment, cable tray and trunking on commercial refits',
+        'Maintained site tools and kept the van stocked for each job',
+      ],
+    },
+  ],
+  education: [{ degree: 'NVQ Level 3 Electrotechnical', school: 'Leeds College of Building', year: '2019', details: '' }],
+  skills: ['Fault finding', 'Testing and inspection', 'First fix', 'Second fix', 'Consumer units'],
+  certifications: ['18th Edition', 'CSCS Gold Card', 'IPAF'],
+}
+
+// Test 7: Entry-level CV - no paid roles yet, school projects and volunteering
+const entryLevelCv: CvData = {
+  personalInfo: { fullName: 'Amira Khan', email: 'amira@example.com', phone: '07700900456', location: 'Bristol', linkedin: '', website: '' },
+  summary: 'Friendly and reliable school leaver looking for a first role in retail. I have volunteered at a charity shop and organised a school fundraiser, and I enjoy helping customers.',
+  experience: [],
+  education: [{ degree: 'GCSEs (8 grades 9-5 including English and Maths)', school: 'Bristol Academy', year: '2024', details: '' }],
+  skills: ['Customer service', 'Cash handling', 'Teamwork', 'Time management'],
+  projects: [
+    { name: 'Charity shop volunteer', description: 'Volunteered every Saturday sorting donations and serving customers on the till', url: '' },
+    { name: 'School fundraiser', description: 'Organised a bake sale with four classmates that raised 350 pounds for charity', url: '' },
+  ],
+  languages: ['English', 'Urdu'],
+}
+
+// Test 8: Graduate CV - one internship, degree and projects
+const graduateCv: CvData = {
+  personalInfo: { fullName: 'Tom Reid', email: 'tom@example.com', phone: '07700900789', location: 'Manchester', linkedin: 'linkedin.com/in/tomreid', website: '' },
+  summary: 'Computer science graduate with a summer internship in a product team. Built and shipped a React dashboard used by the support team, and led a four-person final year project on accessible web design.',
+  experience: [
+    {
+      id: '1',
+      jobTitle: 'Software Engineering Intern',
+      company: 'Acme Digital',
+      location: 'Manchester',
+      startDate: '2023-06',
+      endDate: '2023-09',
+      isCurrent: false,
+      bullets: [
+        'Built a React dashboard that cut support ticket triage time by 20%',
+        'Wrote unit tests for the billing API and fixed three production bugs',
+      ],
+    },
+  ],
+  education: [{ degree: 'BSc Computer Science (2:1)', school: 'University of Manchester', year: '2024', details: 'Final year project: accessible web forms' }],
+  skills: ['JavaScript', 'TypeScript', 'React', 'Python', 'SQL', 'Git'],
+  projects: [
+    { name: 'Accessible forms toolkit', description: 'Led a team of four to build a form library that passes WCAG 2.1 AA checks', url: '' },
+  ],
+}
+
+// Test 9: Academic CV - education and publications first, few listed skills
+const academicCv: CvData = {
+  personalInfo: { fullName: 'Dr Helen Moss', email: 'h.moss@example.ac.uk', phone: '01632960123', location: 'York', linkedin: '', website: '' },
+  summary: 'Lecturer in environmental chemistry researching microplastics in freshwater systems. Published in leading journals, supervised four PhD students and taught undergraduate analytical chemistry for six years.',
+  experience: [
+    {
+      id: '1',
+      jobTitle: 'Lecturer in Environmental Chemistry',
+      company: 'University of York',
+      location: 'York',
+      startDate: '2018-09',
+      endDate: '',
+      isCurrent: true,
+      bullets: [
+        'Taught second year analytical chemistry to cohorts of 120 students',
+        'Supervised four PhD students to completion on freshwater pollution projects',
+      ],
+    },
+    {
+      id: '2',
+      jobTitle: 'Postdoctoral Research Associate',
+      company: 'University of Leeds',
+      location: 'Leeds',
+      startDate: '2015-01',
+      endDate: '2018-08',
+      isCurrent: false,
+      bullets: [
+        'Researched microplastic transport in river sediments with a NERC funded team',
+        'Presented findings at six international conferences',
+      ],
+    },
+  ],
+  education: [
+    { degree: 'PhD Environmental Chemistry', school: 'University of Leeds', year: '2014', details: '' },
+    { degree: 'MChem Chemistry', school: 'University of Bath', year: '2010', details: '' },
+  ],
+  skills: ['Mass spectrometry', 'Grant writing'],
+  publications: [
+    { title: 'Microplastic transport in upland rivers', authors: 'Moss H, Patel R', venueOrJournal: 'Water Research', year: '2021' },
+  ],
+}
+
+// Test 11: Custom sections - volunteering counts as experience, licences as certifications
+const volunteerCv: CvData = {
+  ...entryLevelCv,
+  projects: [],
+  customSections: [
+    {
+      id: 'vol',
+      kind: 'volunteering',
+      heading: 'Volunteering',
+      items: [
+        { id: 'vol-1', title: 'Charity shop volunteer', subtitle: 'British Heart Foundation', date: '2023 – Present', description: 'Sorted donations and served customers on the till every Saturday' },
+        { id: 'vol-2', title: 'Fundraiser organiser', subtitle: 'Bristol Academy', date: '2023', description: 'Organised a bake sale with four classmates that raised 350 pounds for charity' },
+      ],
+    },
+    { id: 'refs', kind: 'references', heading: 'References', items: [] },
+  ],
+}
+
+// Test 12: Hidden sections are not scored
+const hiddenVolunteerCv: CvData = {
+  ...volunteerCv,
+  hiddenSections: ['custom:vol'],
+}
+
+// Test 13: Timeline problems - roles listed oldest first, and a two-year gap
+const outOfOrderCv: CvData = {
+  ...fullCv,
+  experience: [...fullCv.experience].reverse(),
+}
+
+const gapCv: CvData = {
+  ...fullCv,
+  experience: fullCv.experience.map((exp, index) => (index === 1 ? { ...exp, startDate: '2016-01', endDate: '2017-12' } : exp)),
+}
+
+const licencedTradesCv: CvData = {
+  ...tradesCv,
+  certifications: [],
+  customSections: [
+    {
+      id: 'lic',
+      kind: 'licences',
+      heading: 'Licences and Tickets',
+      items: [
+        { id: 'lic-1', title: 'CSCS Gold Card' },
+        { id: 'lic-2', title: 'Full UK driving licence (B)' },
+      ],
+    },
+  ],
+}
+
 // Run tests
 console.log('Running CV Scoring Tests\n')
 console.log('='.repeat(50))
@@ -135,8 +365,30 @@ allPassed = testCase('Test 1: Empty CV', emptyCv, { min: 0, max: 5 }, false) &&
 allPassed = testCase('Test 2: Only short summary (gated)', shortSummaryCv, { min: 0, max: 15 }, true)
 allPassed = testCase('Test 3: Summary + 1 exp + 5 skills (mid score)', midCv, { min: 20, max: 60 }, false) && allPassed
 allPassed = testCase('Test 4: Full CV (high score, not gated)', fullCv, { min: 60, max: 100 }, false) && allPassed
+allPassed = testCase('Test 4b: Full CV scores exactly as the original rubric (general profile)', fullCv, { min: 68.5, max: 68.5 }, false, 'general') && allPassed
 allPassed = testCase('Test 5: Placeholder text ignored', placeholderCv, { min: 0, max: 15 }, true) && allPassed
 
+// Role profiles
+for (const profile of Object.keys(CV_SCORE_PROFILES) as CvScoreProfileId[]) {
+  allPassed = breakdownCase(profile, fullCv) && allPassed
+  allPassed = breakdownCase(profile, midCv) && allPassed
+}
+allPassed = testCase('Test 6: Trades CV (trades profile, not gated)', tradesCv, { min: 75, max: 100 }, false, 'trades') && allPassed
+allPassed = compareCase('Test 6b: Trades CV scores higher as trades than general', tradesCv, 'trades', 'general') && allPassed
+allPassed = testCase('Test 7: Entry-level CV with no roles (gated as general)', entryLevelCv, { min: 0, max: 15 }, true, 'general') && allPassed
+allPassed = testCase('Test 7b: Entry-level CV (entry-level profile, not gated)', entryLevelCv, { min: 70, max: 100 }, false, 'entryLevel') && allPassed
+allPassed = testCase('Test 8: Graduate CV (graduate profile, not gated)', graduateCv, { min: 70, max: 100 }, false, 'graduate') && allPassed
+allPassed = compareCase('Test 8b: Graduate CV scores higher as graduate than general', graduateCv, 'graduate', 'general') && allPassed
+allPassed = testCase('Test 9: Academic CV with 2 skills (gated as general)', academicCv, { min: 0, max: 15 }, true, 'general') && allPassed
+allPassed = testCase('Test 9b: Academic CV (academic profile, not gated)', academicCv, { min: 70, max: 100 }, false, 'academic') && allPassed
+allPassed = testCase('Test 10: Full CV with 2 roles (senior profile, lower than general)', fullCv, { min: 40, max: 75 }, false, 'senior') && allPassed
+allPassed = compareCase('Test 10b: Full CV scores higher as general than senior', fullCv, 'general', 'senior') && allPassed
+allPassed = testCase('Test 11: Volunteering section counts as experience (entry-level profile, not gated)', volunteerCv, { min: 70, max: 100 }, false, 'entryLevel') && allPassed
+allPassed = testCase('Test 11b: Licences section counts as certifications (trades profile, not gated)', licencedTradesCv, { min: 75, max: 100 }, false, 'trades') && allPassed
+allPassed = testCase('Test 12: Hidden volunteering section is not scored (entry-level profile, lower than Test 11)', hiddenVolunteerCv, { min: 0, max: 65 }, false, 'entryLevel') && allPassed
+allPassed = lowerCase('Test 13: Roles out of order score lower', outOfOrderCv, fullCv) && allPassed
+allPassed = lowerCase('Test 13b: Unexplained gap scores lower', gapCv, fullCv) && allPassed
+
 console.log('='.repeat(50))
 console.log('')
 if (allPassed) {
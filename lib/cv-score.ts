@@ -1,4 +1,30 @@
-import type { CvData } from '@/app/cv-builder-v2/page'
+import type { CvCustomSectionKind, CvData } from '@/lib/cv-schema'
+import { withoutHiddenSections } from '@/lib/cv-sections'
+import { analyseEmploymentTimeline, type CvTimelineIssueKind } from '@/lib/cv-dates'
+
+export type CvScoreProfileId = 'general' | 'entryLevel' | 'trades' | 'graduate' | 'academic' | 'senior'
+
+export type CvScoreCriterionId =
+  | 'summary'
+  | 'experience'
+  | 'bullets'
+  | 'skills'
+  | 'contact'
+  | 'education'
+  | 'summaryQuality'
+  | 'actionVerbs'
+  | 'atsReadability'
+  | 'additionalSections'
+
+export interface CvScoreCriterion {
+  id: CvScoreCriterionId
+  label: string
+  group: 'completion' | 'quality'
+  earned: number
+  available: number
+  /** What was measured, e.g. "45 words (target 60-100)" */
+  detail: string
+}
 
 export interface CvScoreResult {
   score: number
@@ -8,12 +34,176 @@ export interface CvScoreResult {
   fixes: string[]
   isGated: boolean
   gateMessage?: string
+  profile: CvScoreProfileId
+  /** Points per criterion; completion criteria add up to 60 and quality to 40 */
+  breakdown: CvScoreCriterion[]
+}
+
+type ExtraSection = 'projects' | 'certifications' | 'publications' | 'languages' | 'volunteering' | 'awards'
+
+export interface CvScoreProfile {
+  label: string
+  description: string
+  /**
+   * Summary word counts: full marks inside `ideal`, partial from `fair`/`short`; under `short` gates the score.
+   * `overIdeal` is the share of the summary points for one longer than `ideal`
+   */
+  summaryWords: { ideal: [number, number]; fair: number; short: number; overIdeal: number }
+  /**
+   * Roles for full marks; fewer than `gate` caps the score. Projects and volunteering count as roles for profiles without much work history.
+   * With `partialCredit`, any count short of `target` earns that share of the points; without it the share grows with the count
+   */
+  experience: { target: number; gate: number; countUnpaidWork: boolean; partialCredit?: number }
+  /** Average real bullets per role for full marks */
+  bulletsPerRole: number
+  skills: { target: number; gate: number }
+  /** Shorter skills, certifications, languages and custom section items count as placeholders */
+  listItemMinLength: number
+  /** Points per criterion (completion 60, quality 40) */
+  weights: Record<CvScoreCriterionId, number>
+  /** Points each extra section earns towards `additionalSections` (capped at its weight) */
+  extraSections: Partial<Record<ExtraSection, number>>
+  /** Verbs that count as action-oriented on top of the shared list */
+  actionVerbs?: string[]
+}
+
+export const DEFAULT_CV_SCORE_PROFILE: CvScoreProfileId = 'general'
+
+export const CV_SCORE_PROFILES: Record<CvScoreProfileId, CvScoreProfile> = {
+  general: {
+    label: 'General',
+    description: 'Mid-career CVs with a couple of roles',
+    summaryWords: { ideal: [60, 100], fair: 40, short: 20, overIdeal: 2 / 15 },
+    experience: { target: 2, gate: 1, countUnpaidWork: false, partialCredit: 8 / 15 },
+    bulletsPerRole: 3,
+    skills: { target: 10, gate: 3 },
+    listItemMinLength: 10,
+    weights: {
+      summary: 15, experience: 15, bullets: 10, skills: 10, contact: 5, education: 5,
+      summaryQuality: 15, actionVerbs: 10, atsReadability: 10, additionalSections: 5,
+    },
+    extraSections: { projects: 1.25, certifications: 1.25, publications: 1.25, languages: 1.25, volunteering: 1.25, awards: 1.25 },
+  },
+  entryLevel: {
+    label: 'Entry-level',
+    description: 'First jobs: projects, volunteering and school count as experience',
+    summaryWords: { ideal: [30, 80], fair: 20, short: 10, overIdeal: 2 / 3 },
+    experience: { target: 1, gate: 0, countUnpaidWork: true },
+    bulletsPerRole: 2,
+    skills: { target: 6, gate: 3 },
+    listItemMinLength: 2,
+    weights: {
+      summary: 15, experience: 10, bullets: 10, skills: 10, contact: 5, education: 10,
+      summaryQuality: 10, actionVerbs: 10, atsReadability: 10, additionalSections: 10,
+    },
+    extraSections: { projects: 4, volunteering: 4, certifications: 3, languages: 3, awards: 2 },
+    actionVerbs: ['volunteered', 'supported', 'organised', 'organized', 'helped', 'completed'],
+  },
+  trades: {
+    label: 'Trades',
+    description: 'Hands-on roles where tickets and licences matter more than a long summary',
+    summaryWords: { ideal: [25, 70], fair: 15, short: 0, overIdeal: 2 / 3 },
+    experience: { target: 2, gate: 1, countUnpaidWork: false },
+    bulletsPerRole: 2,
+    skills: { target: 6, gate: 3 },
+    listItemMinLength: 2,
+    weights: {
+      summary: 8, experience: 20, bullets: 10, skills: 10, contact: 7, education: 5,
+      summaryQuality: 5, actionVerbs: 10, atsReadability: 10, additionalSections: 15,
+    },
+    extraSections: { certifications: 10, projects: 2.5, languages: 2.5, volunteering: 2.5 },
+    actionVerbs: ['installed', 'maintained', 'repaired', 'operated', 'inspected', 'fitted', 'serviced', 'loaded', 'supervised'],
+  },
+  graduate: {
+    label: 'Graduate',
+    description: 'Recent graduates: degree, projects and internships carry the CV',
+    summaryWords: { ideal: [40, 90], fair: 25, short: 15, overIdeal: 2 / 3 },
+    experience: { target: 1, gate: 0, countUnpaidWork: true },
+    bulletsPerRole: 2,
+    skills: { target: 8, gate: 3 },
+    listItemMinLength: 2,
+    weights: {
+      summary: 12, experience: 12, bullets: 8, skills: 10, contact: 5, education: 13,
+      summaryQuality: 10, actionVerbs: 10, atsReadability: 10, additionalSections: 10,
+    },
+    extraSections: { projects: 4, volunteering: 3, awards: 3, certifications: 2, publications: 2, languages: 2 },
+  },
+  academic: {
+    label: 'Academic',
+    description: 'Research and teaching CVs: education and publications come first',
+    summaryWords: { ideal: [40, 120], fair: 25, short: 0, overIdeal: 2 / 3 },
+    experience: { target: 2, gate: 1, countUnpaidWork: false },
+    bulletsPerRole: 2,
+    skills: { target: 5, gate: 0 },
+    listItemMinLength: 2,
+    weights: {
+      summary: 8, experience: 15, bullets: 7, skills: 5, contact: 5, education: 20,
+      summaryQuality: 5, actionVerbs: 10, atsReadability: 10, additionalSections: 15,
+    },
+    extraSections: { publications: 10, awards: 2.5, projects: 2.5, certifications: 1.25, languages: 1.25 },
+    actionVerbs: ['published', 'researched', 'taught', 'supervised', 'presented', 'authored', 'lectured'],
+  },
+  senior: {
+    label: 'Senior',
+    description: 'Leadership roles: a longer track record and measurable impact',
+    summaryWords: { ideal: [60, 120], fair: 40, short: 25, overIdeal: 2 / 3 },
+    experience: { target: 3, gate: 2, countUnpaidWork: false },
+    bulletsPerRole: 4,
+    skills: { target: 10, gate: 5 },
+    listItemMinLength: 2,
+    weights: {
+      summary: 12, experience: 18, bullets: 12, skills: 8, contact: 5, education: 5,
+      summaryQuality: 10, actionVerbs: 15, atsReadability: 10, additionalSections: 5,
+    },
+    extraSections: { projects: 1.25, certifications: 1.25, publications: 1.25, languages: 1.25, volunteering: 1.25, awards: 1.25 },
+    actionVerbs: ['directed', 'headed', 'oversaw', 'spearheaded', 'scaled', 'mentored'],
+  },
+}
+
+export function isCvScoreProfileId(value: unknown): value is CvScoreProfileId {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(CV_SCORE_PROFILES, value)
+}
+
+const CRITERION_LABELS: Record<CvScoreCriterionId, string> = {
+  summary: 'Summary length',
+  experience: 'Work experience',
+  bullets: 'Bullets per role',
+  skills: 'Skills',
+  contact: 'Contact details',
+  education: 'Education',
+  summaryQuality: 'Summary quality',
+  actionVerbs: 'Action-oriented language',
+  atsReadability: 'ATS readability',
+  additionalSections: 'Additional sections',
+}
+
+const COMPLETION_CRITERIA: CvScoreCriterionId[] = ['summary', 'experience', 'bullets', 'skills', 'contact', 'education']
+
+// Custom sections that earn extra-section credit; licences and memberships count as certifications
+const CUSTOM_SECTION_CREDIT: Partial<Record<CvCustomSectionKind, ExtraSection>> = {
+  volunteering: 'volunteering',
+  awards: 'awards',
+  licences: 'certifications',
+  memberships: 'certifications',
+}
+
+// Share of the ATS readability criterion lost per kind of timeline problem
+const TIMELINE_PENALTY = 0.2
+
+const TIMELINE_LABELS: Record<CvTimelineIssueKind, string> = {
+  endBeforeStart: 'end date before start',
+  order: 'roles out of order',
+  overlap: 'overlapping roles',
+  gap: 'unexplained gap',
 }
 
+const ACTION_VERBS = ['led', 'managed', 'developed', 'created', 'improved', 'achieved', 'designed', 'implemented', 'optimized', 'delivered', 'executed', 'built', 'launched', 'established', 'increased', 'reduced', 'transformed', 'collaborated', 'analyzed', 'resolved']
+
 /**
- * Check if text is a placeholder or template text (not real content)
+ * Check if text is a placeholder or template text (not real content).
+ * List items use the profile's `listItemMinLength`, where "SQL" or "IPAF" can be real.
  */
-function isPlaceholder(text: string): boolean {
+function isPlaceholder(text: string, minLength = 10): boolean {
   if (!text || text.trim().length === 0) return true
   
   const lower = text.toLowerCase().trim()
@@ -40,7 +230,7 @@ function isPlaceholder(text: string): boolean {
   }
   
   // Very short text (< 10 chars) is likely placeholder
-  if (lower.length < 10) return true
+  if (lower.length < minLength) return true
   
   return false
 }
@@ -65,143 +255,200 @@ function countRealBullets(bullets: string[]): number {
 }
 
 /**
- * Compute CV score using stricter completion gate system.
- * 
+ * Compute CV score using stricter completion gate system, with thresholds
+ * and weights taken from a role profile (CV_SCORE_PROFILES).
+ *
  * Scoring breakdown:
- * - completionScore (0-60): Based on filled sections and realistic thresholds
- * - qualityScore (0-40): Based on writing quality + ATS strength + grammar/spelling
- * 
+ * - completionScore (0-60): Based on filled sections and the profile's targets
+ * - qualityScore (0-40): Based on writing quality + ATS strength + extra sections
+ * - breakdown: the points earned and available for every criterion
+ *
  * Completion Gate:
- * - If summaryWordCount < 20 OR experienceCount == 0 OR skillsCount < 3,
- *   then finalScore MUST be capped at 15 maximum.
- * 
+ * - If the summary, roles or skills fall below the profile's gate values
+ *   (general: < 20 words, 0 roles, < 3 skills), finalScore is capped at 15.
+ *
  * Level mapping:
  * - 80-100: Strong
  * - 55-79: Good
  * - 0-54: Needs Improvement
  */
-export function computeCvScore(cv: CvData): CvScoreResult {
-  let completionScore = 0
-  let qualityScore = 0
+export function computeCvScore(cv: CvData, profileId: CvScoreProfileId = DEFAULT_CV_SCORE_PROFILE): CvScoreResult {
+  // Score what an employer sees, not sections the user has hidden
+  cv = withoutHiddenSections(cv)
+  const profile = CV_SCORE_PROFILES[profileId] || CV_SCORE_PROFILES[DEFAULT_CV_SCORE_PROFILE]
+  const { weights } = profile
   const fixes: string[] = []
+  const breakdown: CvScoreCriterion[] = []
+  // Unrounded totals, so the score matches the rubric exactly
+  const totals: Record<CvScoreCriterion['group'], number> = { completion: 0, quality: 0 }
+  // `ratio` is the share (0-1) of the criterion's points earned
+  const award = (id: CvScoreCriterionId, ratio: number, detail: string) => {
+    const group = COMPLETION_CRITERIA.includes(id) ? 'completion' : 'quality'
+    const points = weights[id] * Math.max(0, Math.min(1, ratio))
+    totals[group] += points
+    breakdown.push({
+      id,
+      label: CRITERION_LABELS[id],
+      group,
+      earned: Math.round(points * 10) / 10,
+      available: weights[id],
+      detail,
+    })
+  }
 
-  // ===== COMPLETION SCORE (0-60) =====
-  
-  // 1. Summary (0-15 points)
+
+  // ===== COMPLETION =====
+
+  // 1. Summary
   const summary = cv.summary?.trim() || ''
   const summaryWordCount = countRealWords(summary)
-  if (summaryWordCount >= 60 && summaryWordCount <= 100) {
-    completionScore += 15
-  } else if (summaryWordCount >= 40 && summaryWordCount < 60) {
-    completionScore += 10
-    fixes.push(`Expand summary to 60-100 words (currently ${summaryWordCount})`)
-  } else if (summaryWordCount >= 20 && summaryWordCount < 40) {
-    completionScore += 5
-    fixes.push(`Summary too short - expand to 60-100 words (currently ${summaryWordCount})`)
+  const { ideal: [idealMin, idealMax], fair, short } = profile.summaryWords
+  const summaryTarget = `${idealMin}-${idealMax} words`
+  const summaryIsIdeal = summaryWordCount >= idealMin && summaryWordCount <= idealMax
+  if (summaryIsIdeal) {
+    award('summary', 1, `${summaryWordCount} words`)
+  } else if (summaryWordCount > idealMax) {
+    award('summary', profile.summaryWords.overIdeal, `${summaryWordCount} words (target ${summaryTarget})`)
+    fixes.push(`Trim summary to ${summaryTarget} (currently ${summaryWordCount})`)
+  } else if (summaryWordCount >= fair) {
+    award('summary', 2 / 3, `${summaryWordCount} words (target ${summaryTarget})`)
+    fixes.push(`Expand summary to ${summaryTarget} (currently ${summaryWordCount})`)
+  } else if (summaryWordCount >= short && summaryWordCount > 0) {
+    award('summary', 1 / 3, `${summaryWordCount} words (target ${summaryTarget})`)
+    fixes.push(`Summary too short - expand to ${summaryTarget} (currently ${summaryWordCount})`)
   } else if (summaryWordCount > 0) {
-    completionScore += 2
-    fixes.push(`Add a professional summary (60-100 words recommended, currently ${summaryWordCount})`)
+    award('summary', 2 / 15, `${summaryWordCount} words (target ${summaryTarget})`)
+    fixes.push(`Add a professional summary (${summaryTarget} recommended, currently ${summaryWordCount})`)
   } else {
-    fixes.push('Add a professional summary (60-100 words)')
+    award('summary', 0, 'No summary')
+    fixes.push(`Add a professional summary (${summaryTarget})`)
   }
 
-  // 2. Experience count (0-15 points)
+  // 2. Experience count
   const experience = cv.experience || []
   const realExperience = experience.filter((exp) => {
     // Count real bullets (>= 5 words each)
     const realBullets = countRealBullets(exp.bullets || [])
     return realBullets > 0 || (!isPlaceholder(exp.jobTitle || '') && !isPlaceholder(exp.company || ''))
   })
-  const experienceCount = realExperience.length
-  
-  if (experienceCount >= 2) {
-    completionScore += 15
-  } else if (experienceCount === 1) {
-    completionScore += 8
-    fixes.push('Add at least one more work experience')
-  } else {
-    fixes.push('Add at least 2 work experiences')
+  const projects = (cv.projects || []).filter((p) => !isPlaceholder(p.name || '') || !isPlaceholder(p.description || ''))
+  const customItems = (kind: CvCustomSectionKind) =>
+    (cv.customSections || [])
+      .filter((section) => section.kind === kind)
+      .flatMap((section) => (section.items || []).filter((item) => !isPlaceholder(item.title || '', profile.listItemMinLength)))
+  const volunteering = customItems('volunteering')
+  // Projects and volunteering, with their descriptions standing in for bullets
+  const unpaidWork = [...projects.map((p) => p.description || ''), ...volunteering.map((item) => item.description || '')]
+  const roleCount = realExperience.length
+  const experienceCount = roleCount + (profile.experience.countUnpaidWork ? unpaidWork.length : 0)
+  const experienceTarget = profile.experience.target
+  const experienceNoun = profile.experience.countUnpaidWork ? 'work experience, project or volunteering role' : 'work experience'
+  const experienceDetail = profile.experience.countUnpaidWork
+    ? `${roleCount} role${roleCount === 1 ? '' : 's'}, ${unpaidWork.length} project${unpaidWork.length === 1 ? '' : 's'} or volunteering (target ${experienceTarget})`
+    : `${roleCount} role${roleCount === 1 ? '' : 's'} (target ${experienceTarget})`
+
+  const { partialCredit } = profile.experience
+  const experienceRatio = experienceCount >= experienceTarget || experienceCount === 0 || partialCredit === undefined
+    ? experienceCount / experienceTarget
+    : partialCredit
+  award('experience', experienceRatio, experienceDetail)
+  if (experienceCount === 0) {
+    fixes.push(`Add at least ${experienceTarget} ${experienceNoun}${experienceTarget === 1 ? '' : 's'}`)
+  } else if (experienceCount < experienceTarget) {
+    const more = experienceTarget - experienceCount
+    fixes.push(more === 1 ? `Add at least one more ${experienceNoun}` : `Add ${more} more ${experienceNoun}s`)
   }
 
-  // 3. Bullets per experience (0-10 points)
-  if (experienceCount > 0) {
+  // 3. Bullets per experience (project and volunteering descriptions stand in when there are no roles yet)
+  const bulletTarget = profile.bulletsPerRole
+  if (roleCount > 0) {
     let totalRealBullets = 0
     realExperience.forEach((exp) => {
       totalRealBullets += countRealBullets(exp.bullets || [])
     })
-    const avgBullets = totalRealBullets / experienceCount
-    if (avgBullets >= 3) {
-      completionScore += 10
-    } else if (avgBullets >= 2) {
-      completionScore += 7
-      fixes.push(`Add more bullet points per experience (avg: ${avgBullets.toFixed(1)}, target: 3+)`)
+    const avgBullets = totalRealBullets / roleCount
+    const detail = `${avgBullets.toFixed(1)} per role (target ${bulletTarget}+)`
+    if (avgBullets >= bulletTarget) {
+      award('bullets', 1, detail)
+    } else if (avgBullets >= bulletTarget - 1 && avgBullets >= 1) {
+      award('bullets', 0.7, detail)
+      fixes.push(`Add more bullet points per experience (avg: ${avgBullets.toFixed(1)}, target: ${bulletTarget}+)`)
     } else if (avgBullets >= 1) {
-      completionScore += 4
-      fixes.push(`Add more bullet points per experience (avg: ${avgBullets.toFixed(1)}, target: 3+)`)
+      award('bullets', 0.4, detail)
+      fixes.push(`Add more bullet points per experience (avg: ${avgBullets.toFixed(1)}, target: ${bulletTarget}+)`)
     } else {
+      award('bullets', 0, detail)
       fixes.push(`Add bullet points to each experience (avg: ${avgBullets.toFixed(1)})`)
     }
+  } else if (profile.experience.countUnpaidWork && unpaidWork.length > 0) {
+    const described = unpaidWork.filter((description) => countRealBullets([description]) > 0).length
+    award('bullets', described / unpaidWork.length, `${described} of ${unpaidWork.length} projects or volunteering roles described`)
+    if (described < unpaidWork.length) fixes.push('Describe what you did and achieved in each project or volunteering role')
+  } else {
+    award('bullets', 0, 'No roles yet')
   }
 
-  // 4. Skills count (0-10 points)
-  const skills = (cv.skills || []).filter((skill) => skill.trim().length > 0 && !isPlaceholder(skill))
+  // 4. Skills count
+  const skills = (cv.skills || []).filter((skill) => skill.trim().length > 0 && !isPlaceholder(skill, profile.listItemMinLength))
   const skillsCount = skills.length
-  if (skillsCount >= 10) {
-    completionScore += 10
-  } else if (skillsCount >= 6) {
-    completionScore += 7
-    fixes.push(`Add more skills (currently ${skillsCount}, target: 10+)`)
-  } else if (skillsCount >= 3) {
-    completionScore += 4
-    fixes.push(`Add more skills (currently ${skillsCount}, target: 10+)`)
+  const skillsTarget = profile.skills.target
+  const skillsDetail = `${skillsCount} (target ${skillsTarget}+)`
+  if (skillsCount >= skillsTarget) {
+    award('skills', 1, skillsDetail)
   } else {
-    fixes.push(`Add more skills (currently ${skillsCount}, target: 10+)`)
+    award('skills', skillsCount >= Math.round(skillsTarget * 0.6) ? 0.7 : skillsCount >= Math.ceil(skillsTarget * 0.3) ? 0.4 : 0, skillsDetail)
+    fixes.push(`Add more skills (currently ${skillsCount}, target: ${skillsTarget}+)`)
   }
 
-  // 5. Personal info (0-5 points)
+  // 5. Personal info
   const personalInfo = cv.personalInfo || {}
   const hasEmail = !!(personalInfo.email?.trim() && !isPlaceholder(personalInfo.email))
   const hasPhone = !!(personalInfo.phone?.trim() && !isPlaceholder(personalInfo.phone))
   if (hasEmail && hasPhone) {
-    completionScore += 5
+    award('contact', 1, 'Email and phone')
   } else if (hasEmail || hasPhone) {
-    completionScore += 2
+    award('contact', 0.4, hasEmail ? 'Email only' : 'Phone only')
     if (!hasEmail) fixes.push('Add your email address')
     if (!hasPhone) fixes.push('Add your phone number')
   } else {
+    award('contact', 0, 'No email or phone')
     fixes.push('Add your email address and phone number')
   }
 
-  // 6. Education (0-5 points)
+  // 6. Education
   const education = (cv.education || []).filter((edu) => {
     return !isPlaceholder(edu.degree || '') || !isPlaceholder(edu.school || '')
   })
   if (education.length > 0) {
-    completionScore += 5
+    award('education', 1, `${education.length} entr${education.length === 1 ? 'y' : 'ies'}`)
   } else {
+    award('education', 0, 'None')
     fixes.push('Add your education details')
   }
 
-  // ===== QUALITY SCORE (0-40) =====
-  
-  // 1. Summary quality (0-15 points)
-  if (summaryWordCount >= 60 && summaryWordCount <= 100) {
-    qualityScore += 15
-  } else if (summaryWordCount >= 40) {
-    qualityScore += 10
-  } else if (summaryWordCount >= 20) {
-    qualityScore += 5
+  // ===== QUALITY =====
+
+  // 1. Summary quality
+  const summaryQualityDetail = `${summaryWordCount} words (target ${summaryTarget})`
+  if (summaryIsIdeal) {
+    award('summaryQuality', 1, `${summaryWordCount} words`)
+  } else if (summaryWordCount >= fair) {
+    award('summaryQuality', 2 / 3, summaryQualityDetail)
+  } else if (summaryWordCount >= short && summaryWordCount > 0) {
+    award('summaryQuality', 1 / 3, summaryQualityDetail)
+  } else {
+    award('summaryQuality', 0, summaryQualityDetail)
   }
 
-  // 2. Action-oriented language check (0-10 points)
+  // 2. Action-oriented language check
   // Simple heuristic: check for action verbs
-  const actionVerbs = ['led', 'managed', 'developed', 'created', 'improved', 'achieved', 'designed', 'implemented', 'optimized', 'delivered', 'executed', 'built', 'launched', 'established', 'increased', 'reduced', 'transformed', 'collaborated', 'analyzed', 'resolved']
+  const actionVerbs = [...ACTION_VERBS, ...(profile.actionVerbs || [])]
   let hasActionVerbs = false
   if (summary) {
     const lowerSummary = summary.toLowerCase()
     hasActionVerbs = actionVerbs.some((verb) => lowerSummary.includes(verb))
   }
-  if (!hasActionVerbs && experienceCount > 0) {
+  if (!hasActionVerbs && roleCount > 0) {
     // Check experience bullets
     realExperience.forEach((exp) => {
       (exp.bullets || []).forEach((bullet) => {
@@ -213,48 +460,77 @@ export function computeCvScore(cv: CvData): CvScoreResult {
     })
   }
   if (hasActionVerbs) {
-    qualityScore += 10
+    award('actionVerbs', 1, 'Action verbs found')
   } else if (experienceCount > 0 || summaryWordCount >= 20) {
-    qualityScore += 5
+    award('actionVerbs', 0.5, 'Few action verbs')
     fixes.push('Add more action-oriented language (e.g., "led", "developed", "achieved")')
+  } else {
+    award('actionVerbs', 0, 'Not enough text to check')
   }
 
-  // 3. ATS Readability (0-10 points)
+  // 3. ATS Readability
   const hasName = !!(personalInfo.fullName?.trim() && !isPlaceholder(personalInfo.fullName))
-  const hasClearDates = realExperience.some((exp) => exp.startDate || exp.endDate)
-  if (hasName && hasClearDates && experienceCount >= 2) {
-    qualityScore += 10
+  // Profiles that need no roles do not lose points for dates they cannot have
+  const hasClearDates = roleCount > 0
+    ? realExperience.some((exp) => exp.startDate || exp.endDate)
+    : profile.experience.gate === 0
+  // Gaps, roles out of order and impossible dates each cost part of the criterion
+  const timelineKinds = new Set<CvTimelineIssueKind>(
+    analyseEmploymentTimeline(experience).issues.filter((issue) => issue.severity === 'warning').map((issue) => issue.kind)
+  )
+  const timelineFactor = Math.max(0, 1 - TIMELINE_PENALTY * timelineKinds.size)
+  const timelineDetail = [...timelineKinds].map((kind) => TIMELINE_LABELS[kind]).join(', ')
+  if (timelineKinds.has('endBeforeStart')) fixes.push('Fix roles whose end date is before their start date')
+  if (timelineKinds.has('order')) fixes.push('List your roles newest first')
+  if (timelineKinds.has('gap')) fixes.push('Explain employment gaps, for example with a career-break entry')
+  if (hasName && hasClearDates && experienceCount >= experienceTarget) {
+    award('atsReadability', timelineFactor, timelineDetail ? `Name, dates and enough roles; ${timelineDetail}` : 'Name, dates and enough roles')
   } else if (hasName && hasClearDates) {
-    qualityScore += 7
+    award('atsReadability', 0.7 * timelineFactor, timelineDetail ? `Name and dates; ${timelineDetail}` : 'Name and dates')
   } else if (hasName) {
-    qualityScore += 4
+    award('atsReadability', 0.4, 'No dates on roles')
     if (!hasClearDates) fixes.push('Add dates to work experience for better ATS parsing')
   } else {
+    award('atsReadability', 0, 'No name')
     fixes.push('Ensure your full name is present')
   }
 
-  // 4. Additional sections bonus (0-5 points)
-  let additionalSections = 0
-  const projects = (cv.projects || []).filter((p) => !isPlaceholder(p.name || '') || !isPlaceholder(p.description || ''))
-  const certifications = (cv.certifications || []).filter((c) => !isPlaceholder(c))
+  // 4. Additional sections bonus
+  const certifications = (cv.certifications || []).filter((c) => !isPlaceholder(c, profile.listItemMinLength))
   const publications = (cv.publications || []).filter((p) => !isPlaceholder(p.title || ''))
-  const languages = (cv.languages || []).filter((l) => !isPlaceholder(l))
-  if (projects.length > 0) additionalSections++
-  if (certifications.length > 0) additionalSections++
-  if (publications.length > 0) additionalSections++
-  if (languages.length > 0) additionalSections++
-  qualityScore += Math.min(5, additionalSections * 1.25)
-  if (additionalSections === 0 && experienceCount >= 2) {
-    fixes.push('Consider adding projects, certifications, or languages')
+  const languages = (cv.languages || []).filter((l) => !isPlaceholder(l, profile.listItemMinLength))
+  const presentSections: Record<ExtraSection, boolean> = {
+    projects: projects.length > 0,
+    certifications: certifications.length > 0,
+    publications: publications.length > 0,
+    languages: languages.length > 0,
+    volunteering: false,
+    awards: false,
+  }
+  for (const [kind, section] of Object.entries(CUSTOM_SECTION_CREDIT) as Array<[CvCustomSectionKind, ExtraSection]>) {
+    if (customItems(kind).length > 0) presentSections[section] = true
+  }
+  const counted = (Object.keys(profile.extraSections) as ExtraSection[]).filter((section) => presentSections[section])
+  const extraPoints = counted.reduce((sum, section) => sum + (profile.extraSections[section] || 0), 0)
+  award('additionalSections', extraPoints / weights.additionalSections, counted.length > 0 ? counted.join(', ') : 'None')
+  if (counted.length === 0 && experienceCount >= experienceTarget) {
+    const suggested = (Object.entries(profile.extraSections) as Array<[ExtraSection, number]>)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 4)
+      .map(([section]) => section)
+    fixes.push(`Consider adding ${suggested.slice(0, -1).join(', ')}${suggested.length > 1 ? ', or ' : ''}${suggested[suggested.length - 1]}`)
   }
 
   // ===== COMPLETION GATE =====
-  let finalScore = completionScore + qualityScore
+  let completionScore = totals.completion
+  let qualityScore = totals.quality
+  // Two decimals: keeps the rubric's quarter points, trims profile weights' thirds
+  let finalScore = Math.round((completionScore + qualityScore) * 100) / 100
   let isGated = false
   let gateMessage: string | undefined
 
-  // Gate rule: If summaryWordCount < 20 OR experienceCount == 0 OR skillsCount < 3, cap at 15
-  if (summaryWordCount < 20 || experienceCount === 0 || skillsCount < 3) {
+  // Gate rule: too short a summary, too few roles or too few skills for the profile caps the score at 15
+  if (summaryWordCount < short || experienceCount < profile.experience.gate || skillsCount < profile.skills.gate) {
     if (finalScore > 15) {
       isGated = true
       gateMessage = 'Incomplete CV — fill basics to unlock full score'
@@ -292,5 +568,7 @@ export function computeCvScore(cv: CvData): CvScoreResult {
     fixes: prioritizedFixes,
     isGated,
     gateMessage,
+    profile: profileId in CV_SCORE_PROFILES ? profileId : DEFAULT_CV_SCORE_PROFILE,
+    breakdown,
   }
 }
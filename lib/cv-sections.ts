@@ -0,0 +1,223 @@
+/**
+ * CV sections: custom sections and section order
+ * Volunteering, awards, memberships, licences, references and free-form
+ * sections added on the More tab. Every kind shares one item shape
+ * (title, subtitle, date, description); the presets only change the default
+ * heading and the labels the editor shows.
+ *
+ * `CvData.sectionOrder` sets the print order of built-in and custom sections
+ * (custom ones as "custom:<id>") and `CvData.hiddenSections` leaves sections
+ * out of the preview and exports. Both are resolved here so every renderer
+ * prints the same sections in the same order.
+ */
+
+import type {
+  CvBuiltInSectionId,
+  CvCustomSection,
+  CvCustomSectionItem,
+  CvCustomSectionKind,
+  CvData,
+  CvSectionId,
+} from '@/lib/cv-schema'
+
+/** ATS Classic order, used for sections the CV has no stored position for */
+export const DEFAULT_SECTION_ORDER: CvBuiltInSectionId[] = [
+  'summary',
+  'experience',
+  'education',
+  'skills',
+  'projects',
+  'certifications',
+  'languages',
+  'publications',
+]
+
+/** Headings as the templates and exports print them */
+export const SECTION_HEADINGS: Record<CvBuiltInSectionId, string> = {
+  summary: 'Professional Summary',
+  experience: 'Professional Experience',
+  education: 'Education',
+  skills: 'Core Competencies',
+  projects: 'Key Projects',
+  certifications: 'Certifications',
+  languages: 'Languages',
+  publications: 'Publications',
+}
+
+export interface CvCustomSectionPreset {
+  /** Default heading; the user can rename it */
+  heading: string
+  /** One line shown under the heading in the editor */
+  hint: string
+  title: string
+  subtitle: string
+  date: string
+  description: string
+}
+
+export const CUSTOM_SECTION_KINDS: CvCustomSectionKind[] = ['volunteering', 'awards', 'memberships', 'licences', 'references', 'custom']
+
+export const CUSTOM_SECTION_PRESETS: Record<CvCustomSectionKind, CvCustomSectionPreset> = {
+  volunteering: {
+    heading: 'Volunteering',
+    hint: 'Unpaid roles count as experience, especially for a first job in a new country or sector',
+    title: 'Role, e.g. Food bank volunteer',
+    subtitle: 'Organisation',
+    date: 'Dates, e.g. 2022 – Present',
+    description: 'What you did and what it achieved',
+  },
+  awards: {
+    heading: 'Awards',
+    hint: 'Prizes, scholarships and recognition',
+    title: 'Award, e.g. Employee of the Month',
+    subtitle: 'Awarded by',
+    date: 'Year',
+    description: 'What it was for (optional)',
+  },
+  memberships: {
+    heading: 'Professional Memberships',
+    hint: 'Professional bodies, unions and societies',
+    title: 'Body, e.g. Chartered Institute of Personnel and Development',
+    subtitle: 'Membership level, e.g. Associate Member',
+    date: 'Since',
+    description: 'Details (optional)',
+  },
+  licences: {
+    heading: 'Licences',
+    hint: 'Driving licences, CSCS cards, forklift tickets and similar',
+    title: 'Licence, e.g. Full UK driving licence (B, C1)',
+    subtitle: 'Issued by (optional)',
+    date: 'Valid until (optional)',
+    description: 'Details (optional)',
+  },
+  references: {
+    heading: 'References',
+    hint: 'Leave empty to print "Available on request."',
+    title: 'Referee name',
+    subtitle: 'Job title and organisation',
+    date: 'Relationship, e.g. Line manager',
+    description: 'Email or phone',
+  },
+  custom: {
+    heading: 'Additional Information',
+    hint: 'Anything else worth a heading of its own',
+    title: 'Title',
+    subtitle: 'Subtitle (optional)',
+    date: 'Date (optional)',
+    description: 'Description (optional)',
+  },
+}
+
+/** Printed under an empty references section */
+export const REFERENCES_ON_REQUEST = 'Available on request.'
+
+function newId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function createCustomSectionItem(): CvCustomSectionItem {
+  return { id: newId(), title: '', subtitle: '', date: '', description: '' }
+}
+
+export function createCustomSection(kind: CvCustomSectionKind): CvCustomSection {
+  // References usually stay "on request", so they start without an item
+  return {
+    id: newId(),
+    kind,
+    heading: CUSTOM_SECTION_PRESETS[kind].heading,
+    items: kind === 'references' ? [] : [createCustomSectionItem()],
+  }
+}
+
+export function isCustomSectionKind(value: unknown): value is CvCustomSectionKind {
+  return typeof value === 'string' && (CUSTOM_SECTION_KINDS as string[]).includes(value)
+}
+
+/**
+ * The heading a section prints under: the user's own, else the preset's
+ */
+export function customSectionHeading(section: CvCustomSection): string {
+  const kind = isCustomSectionKind(section.kind) ? section.kind : 'custom'
+  return section.heading?.trim() || CUSTOM_SECTION_PRESETS[kind].heading
+}
+
+/**
+ * Move the element at `from` to position `to`; out-of-range moves return the list unchanged
+ */
+export function moveListItem<T>(items: T[], from: number, to: number): T[] {
+  if (from === to || from < 0 || from >= items.length || to < 0 || to >= items.length) return items
+  const next = [...items]
+  const [moved] = next.splice(from, 1)
+  next.splice(to, 0, moved)
+  return next
+}
+
+/**
+ * Where the element at `index` ends up after moveListItem(items, from, to)
+ */
+export function movedIndex(index: number, from: number, to: number): number {
+  if (index === from) return to
+  if (from < to && index > from && index <= to) return index - 1
+  if (from > to && index >= to && index < from) return index + 1
+  return index
+}
+
+export function customSectionKey(id: string): CvSectionId {
+  return `custom:${id}`
+}
+
+/**
+ * Every section in print order. Stored positions win; unknown or deleted
+ * sections are dropped, built-in sections without a position go back after
+ * the section they follow by default, and new custom sections go last.
+ */
+export function resolveSectionOrder(cv: Pick<CvData, 'sectionOrder' | 'customSections'>): CvSectionId[] {
+  const customKeys = (cv.customSections || []).map((section) => customSectionKey(section.id))
+  const known = new Set<CvSectionId>([...DEFAULT_SECTION_ORDER, ...customKeys])
+  const order: CvSectionId[] = []
+  for (const id of cv.sectionOrder || []) {
+    if (known.has(id) && !order.includes(id)) order.push(id)
+  }
+
+  DEFAULT_SECTION_ORDER.forEach((id, index) => {
+    if (order.includes(id)) return
+    const previous = DEFAULT_SECTION_ORDER.slice(0, index).reverse().find((candidate) => order.includes(candidate))
+    order.splice(previous ? order.indexOf(previous) + 1 : 0, 0, id)
+  })
+  customKeys.forEach((id) => {
+    if (!order.includes(id)) order.push(id)
+  })
+  return order
+}
+
+/**
+ * Sections to print, in order, without the hidden ones
+ */
+export function visibleSectionOrder(cv: Pick<CvData, 'sectionOrder' | 'customSections' | 'hiddenSections'>): CvSectionId[] {
+  const hidden = new Set(cv.hiddenSections || [])
+  return resolveSectionOrder(cv).filter((id) => !hidden.has(id))
+}
+
+/**
+ * The CV as exported: hidden sections emptied, so checks that compare or
+ * score the CV only see what an employer would. Hidden custom sections keep
+ * their place (with no items) so field paths still point at the right one.
+ */
+export function withoutHiddenSections(cv: CvData): CvData {
+  const hidden = new Set(cv.hiddenSections || [])
+  if (hidden.size === 0) return cv
+  return {
+    ...cv,
+    summary: hidden.has('summary') ? '' : cv.summary,
+    experience: hidden.has('experience') ? [] : cv.experience,
+    education: hidden.has('education') ? [] : cv.education,
+    skills: hidden.has('skills') ? [] : cv.skills,
+    projects: hidden.has('projects') ? [] : cv.projects,
+    certifications: hidden.has('certifications') ? [] : cv.certifications,
+    languages: hidden.has('languages') ? [] : cv.languages,
+    publications: hidden.has('publications') ? [] : cv.publications,
+    customSections: (cv.customSections || []).map((section) =>
+      hidden.has(customSectionKey(section.id)) ? { ...section, items: [] } : section
+    ),
+  }
+}
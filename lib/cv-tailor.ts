@@ -0,0 +1,231 @@
+/**
+ * Job-tailored CV generation
+ * Builds a tailored copy of a CvData for a job description plus a per-field
+ * diff the user can accept or reject. The deterministic pass below needs no
+ * OpenAI key; /api/job-details/tailor-cv layers AI rewording on top of it.
+ */
+
+import type { CvData, CvSectionExperience } from '@/lib/cv-schema'
+import { extractKeywordsFromText, rankJobKeywords } from './job-matching'
+
+export interface TailorJobContext {
+  jobDescription: string
+  jobTitle?: string
+  company?: string
+}
+
+export interface TailorChange {
+  id: string // field path, e.g. "summary", "skills", "experience[0].bullets"
+  label: string
+  before: string | string[]
+  after: string | string[]
+  reason: string
+}
+
+export interface TailorCvResult {
+  tailoredCv: CvData
+  changes: TailorChange[]
+  matchedKeywords: string[]
+  missingKeywords: string[]
+  source: 'ai' | 'fallback'
+}
+
+/**
+ * Reworded text returned by the AI pass, keyed by experience id
+ */
+export interface TailorAiRewrite {
+  summary?: string
+  experience?: Array<{ id: string; bullets: string[] }>
+}
+
+const MAX_SURFACED_SKILLS = 5
+
+function countKeywordHits(text: string, keywords: Set<string>): number {
+  const hits = new Set(extractKeywordsFromText(text).filter((kw) => keywords.has(kw)))
+  return hits.size
+}
+
+function titleCase(keyword: string): string {
+  return keyword.charAt(0).toUpperCase() + keyword.slice(1)
+}
+
+function joinList(items: string[]): string {
+  if (items.length <= 1) return items.join('')
+  return `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`
+}
+
+function sameList(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((item, idx) => item === b[idx])
+}
+
+/**
+ * Stable sort of bullets by keyword relevance; empty bullets stay at the end
+ */
+export function rankBulletsByRelevance(bullets: string[], keywords: Set<string>): string[] {
+  return bullets
+    .map((bullet, index) => ({ bullet, index, hits: bullet.trim() ? countKeywordHits(bullet, keywords) : -1 }))
+    .sort((a, b) => b.hits - a.hits || a.index - b.index)
+    .map(({ bullet }) => bullet)
+}
+
+/**
+ * Re-order summary sentences by relevance and close with the CV's own
+ * skills that the ad asks for. Never introduces skills the CV doesn't list.
+ */
+function tailorSummary(summary: string, keywords: Set<string>, matchedSkills: string[], ctx: TailorJobContext): string {
+  const trimmed = summary.trim()
+  if (!trimmed) return summary
+
+  const sentences = trimmed.split(/(?<=[.!?])\s+/).filter((sentence) => sentence.trim())
+  const ranked = sentences
+    .map((sentence, index) => ({ sentence, index, hits: countKeywordHits(sentence, keywords) }))
+    .sort((a, b) => b.hits - a.hits || a.index - b.index)
+    .map(({ sentence }) => sentence)
+
+  const strengths = matchedSkills
+    .filter((skill) => !trimmed.toLowerCase().includes(skill.toLowerCase()))
+    .slice(0, 3)
+  if (strengths.length >= 2) {
+    const role = ctx.jobTitle?.trim() ? `the ${ctx.jobTitle.trim()} role` : 'this role'
+    ranked.push(`Key strengths for ${role} include ${joinList(strengths)}.`)
+  }
+
+  return ranked.join(' ')
+}
+
+/**
+ * Put skills the ad mentions first, then surface ad keywords the CV already
+ * evidences (in summary or bullets) but doesn't list as skills.
+ * Job-title words ("operative", "assistant") are never surfaced as skills.
+ */
+function tailorSkills(cv: CvData, rankedKeywords: string[], keywords: Set<string>, ctx: TailorJobContext): { skills: string[]; surfaced: string[] } {
+  const skills = (cv.skills || []).filter((skill) => skill.trim())
+  const relevant = skills.filter((skill) => countKeywordHits(skill, keywords) > 0)
+  const others = skills.filter((skill) => !relevant.includes(skill))
+
+  const excluded = new Set([
+    ...skills.flatMap((skill) => extractKeywordsFromText(skill)),
+    ...extractKeywordsFromText(ctx.jobTitle || ''),
+    ...(cv.experience || []).flatMap((exp) => extractKeywordsFromText(exp.jobTitle || '')),
+  ])
+  const evidenceText = [
+    cv.summary || '',
+    ...(cv.experience || []).flatMap((exp) => exp.bullets || []),
+  ].join(' ')
+  const evidenced = new Set(extractKeywordsFromText(evidenceText))
+
+  const surfaced = rankedKeywords
+    .filter((kw) => kw.length > 3 && !excluded.has(kw) && evidenced.has(kw))
+    .slice(0, MAX_SURFACED_SKILLS)
+    .map(titleCase)
+
+  return { skills: [...relevant, ...surfaced, ...others], surfaced }
+}
+
+/**
+ * Build the per-field diff between the original and tailored CV
+ */
+export function buildTailorChanges(original: CvData, tailored: CvData, surfacedSkills: string[] = []): TailorChange[] {
+  const changes: TailorChange[] = []
+
+  if ((original.summary || '').trim() !== (tailored.summary || '').trim()) {
+    changes.push({
+      id: 'summary',
+      label: 'Summary',
+      before: original.summary || '',
+      after: tailored.summary || '',
+      reason: 'Most relevant sentences first, closing with strengths the job asks for',
+    })
+  }
+
+  tailored.experience.forEach((exp, idx) => {
+    const before = original.experience?.[idx]?.bullets || []
+    const after = exp.bullets || []
+    if (!sameList(before, after)) {
+      changes.push({
+        id: `experience[${idx}].bullets`,
+        label: `${exp.jobTitle || 'Experience'}${exp.company ? ` at ${exp.company}` : ''}`,
+        before,
+        after,
+        reason: 'Bullets ranked by relevance to the job',
+      })
+    }
+  })
+
+  if (!sameList(original.skills || [], tailored.skills || [])) {
+    changes.push({
+      id: 'skills',
+      label: 'Skills',
+      before: original.skills || [],
+      after: tailored.skills || [],
+      reason: surfacedSkills.length > 0
+        ? `Job-relevant skills first; added ${surfacedSkills.join(', ')} from your experience`
+        : 'Job-relevant skills first',
+    })
+  }
+
+  return changes
+}
+
+/**
+ * Apply only the accepted changes of a tailoring result to the original CV
+ */
+export function applyTailorChanges(original: CvData, tailored: CvData, acceptedIds: string[]): CvData {
+  const accepted = new Set(acceptedIds)
+  const next: CvData = { ...original }
+
+  if (accepted.has('summary')) next.summary = tailored.summary
+  if (accepted.has('skills')) next.skills = tailored.skills
+
+  next.experience = original.experience.map((exp, idx) =>
+    accepted.has(`experience[${idx}].bullets`) && tailored.experience[idx]
+      ? { ...exp, bullets: tailored.experience[idx].bullets }
+      : exp
+  )
+
+  return next
+}
+
+/**
+ * Tailor a CV for a job: re-ordered summary, ranked bullets and surfaced
+ * skills, driven by the keyword logic in lib/job-matching.ts.
+ * Without `rewrite` this is fully deterministic (no AI); with it, the AI's
+ * reworded summary/bullets are used as the text that gets ranked.
+ */
+export function tailorCvForJob(cv: CvData, ctx: TailorJobContext, rewrite?: TailorAiRewrite): TailorCvResult {
+  const rankedKeywords = rankJobKeywords(`${ctx.jobTitle || ''} ${ctx.jobDescription}`, 40)
+  const keywords = new Set(rankedKeywords)
+
+  const cvKeywords = new Set(
+    extractKeywordsFromText(
+      [
+        cv.summary || '',
+        ...(cv.skills || []),
+        ...(cv.experience || []).flatMap((exp) => [exp.jobTitle || '', ...(exp.bullets || [])]),
+      ].join(' ')
+    )
+  )
+  const matchedKeywords = rankedKeywords.filter((kw) => cvKeywords.has(kw))
+  const missingKeywords = rankedKeywords.filter((kw) => !cvKeywords.has(kw)).slice(0, 10)
+
+  const rewrittenBullets = new Map((rewrite?.experience || []).map((exp) => [exp.id, exp.bullets]))
+  const experience: CvSectionExperience[] = (cv.experience || []).map((exp) => {
+    const source = rewrittenBullets.get(exp.id) ?? exp.bullets ?? []
+    return { ...exp, bullets: rankBulletsByRelevance(source, keywords) }
+  })
+
+  const { skills, surfaced } = tailorSkills(cv, rankedKeywords, keywords, ctx)
+  // Summary strengths only ever come from skills the user listed themselves
+  const matchedSkills = (cv.skills || []).filter((skill) => skill.trim() && countKeywordHits(skill, keywords) > 0)
+  const summary = rewrite?.summary?.trim() || tailorSummary(cv.summary || '', keywords, matchedSkills, ctx)
+
+  const tailoredCv: CvData = { ...cv, summary, experience, skills }
+
+  return {
+    tailoredCv,
+    changes: buildTailorChanges(cv, tailoredCv, surfaced),
+    matchedKeywords,
+    missingKeywords,
+    source: rewrite ? 'ai' : 'fallback',
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * CV text extraction
+ * Plain text from PDF (pdf-parse) and DOCX (mammoth) files, the way an
+ * applicant tracking system reads them. Node.js runtime only.
+ */
+
+import mammoth from 'mammoth'
+
+export async function extractPdfText(buffer: Buffer): Promise<string> {
+  // pdf-parse v2 exports a PDFParse class (CommonJS require)
+  const { PDFParse } = require('pdf-parse')
+  const parser = new PDFParse({ data: new Uint8Array(buffer) })
+  try {
+    const result = await parser.getText({ pageJoiner: '' })
+    return result.text || ''
+  } finally {
+    await parser.destroy()
+  }
+}
+
+/**
+ * Word numbering is not part of a paragraph's text, so list items are read
+ * from mammoth's HTML and written with a "• " marker, as ATSs read them as
+ * bullets. Paragraphs end with a blank line, like mammoth's raw text.
+ */
+export async function extractDocxText(buffer: Buffer): Promise<string> {
+  const result = await mammoth.convertToHtml({ buffer })
+  return docxHtmlToText(result.value || '')
+}
+
+function docxHtmlToText(html: string): string {
+  return html
+    .replace(/<li[^>]*>/g, '\n\n• ')
+    .replace(/<br\s*\/?>/g, '\n')
+    .replace(/<\/(p|li|h[1-6]|ul|ol|table|tr)>/g, '\n\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&amp;/g, '&')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/^\n+/, '')
+}
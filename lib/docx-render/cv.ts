@@ -0,0 +1,534 @@
+/**
+ * CV DOCX templates
+ * Word equivalents of the CvPreview templates, built from CvData with the
+ * same sizes and spacing as the PDF export (lib/pdf-render/cv.ts). Headings
+ * and body text use named paragraph styles and bullets use real Word
+ * numbering, so the file stays easy to edit. 'twoColumnPro' is a borderless
+ * two-cell table with a sidebar divider.
+ */
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  ExternalHyperlink,
+  LevelFormat,
+  LineRuleType,
+  Paragraph,
+  Tab,
+  Table,
+  TableCell,
+  TableLayoutType,
+  TableRow,
+  TabStopType,
+  TextRun,
+  WidthType,
+  type IBorderOptions,
+  type ParagraphChild,
+} from 'docx'
+import type { CvData, CvSectionId, CvTemplateId } from '@/lib/cv-schema'
+import type { CvCustomizationOptions } from '@/components/cv-builder-v2/CvCustomizationPanel'
+import {
+  contactItems,
+  formatPeriod,
+  formatPublication,
+  orderSections,
+  resolveCvExportStyle,
+  toUrl,
+  visibleEducation,
+  visibleExperience,
+  visibleCustomSections,
+  visibleList,
+  visibleProjects,
+  visiblePublications,
+  type CvExportFontFamily,
+  type CvExportStyle,
+} from '@/lib/cv-export'
+import { SECTION_HEADINGS, visibleSectionOrder } from '@/lib/cv-sections'
+
+// A4 in twips (1pt = 20 twips), margins as in the PDF export
+const PAGE_WIDTH = 11906
+const PAGE_HEIGHT = 16838
+const MARGIN_X = 840
+const MARGIN_TOP = 800
+const MARGIN_BOTTOM = 880
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN_X * 2
+const SIDEBAR_WIDTH = Math.round(CONTENT_WIDTH * 0.32)
+const COLUMN_GUTTER = 200
+
+const BULLET_REFERENCE = 'cv-bullet'
+
+const COLORS = {
+  text: '1A1A1A',
+  strong: '000000',
+  muted: '4A4A4A',
+  light: '666666',
+  rule: '2C2C2C',
+  sidebarRule: 'D1D5DB',
+  headingRule: 'CCCCCC',
+  link: '0066CC',
+}
+
+// Word fonts closest to the preview: Calibri (base), Georgia (serif), Courier New (mono)
+const FONTS: Record<CvExportFontFamily, string> = {
+  sans: 'Calibri',
+  serif: 'Georgia',
+  mono: 'Courier New',
+}
+
+const twips = (pt: number) => Math.round(pt * 20)
+const halfPoints = (pt: number) => Math.round(pt * 2)
+const lineSpacing = (lineHeight: number) => ({ line: Math.round(240 * lineHeight), lineRule: LineRuleType.AUTO })
+
+const NO_BORDER: IBorderOptions = { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' }
+
+function rule(color: string, thicknessPt: number, spacePt: number): IBorderOptions {
+  // Border size is in eighths of a point
+  return { style: BorderStyle.SINGLE, size: Math.max(2, Math.round(thicknessPt * 8)), color, space: spacePt }
+}
+
+interface CvDocxContext {
+  template: CvTemplateId
+  style: CvExportStyle
+  /** Rule under main-column headings, if any */
+  headingRule?: string
+}
+
+function headingParagraph(ctx: CvDocxContext, text: string, options: { first?: boolean } = {}): Paragraph {
+  return new Paragraph({
+    style: 'CvHeading',
+    text,
+    spacing: { before: options.first && ctx.template === 'twoColumnPro' ? 0 : twips(ctx.style.sectionGap) },
+    border: ctx.headingRule ? { bottom: rule(ctx.headingRule, 0.6, 1) } : undefined,
+  })
+}
+
+function bodyParagraph(text: string, options: { keepNext?: boolean; size?: number; color?: string; italics?: boolean; lineHeight?: number } = {}): Paragraph {
+  return new Paragraph({
+    keepNext: options.keepNext,
+    keepLines: true,
+    spacing: options.lineHeight ? lineSpacing(options.lineHeight) : undefined,
+    children: [
+      new TextRun({
+        text,
+        size: options.size ? halfPoints(options.size) : undefined,
+        color: options.color,
+        italics: options.italics,
+      }),
+    ],
+  })
+}
+
+function bulletParagraph(text: string): Paragraph {
+  return new Paragraph({
+    style: 'CvBullet',
+    numbering: { reference: BULLET_REFERENCE, level: 0 },
+    keepLines: true,
+    text,
+  })
+}
+
+function linkParagraph(ctx: CvDocxContext, text: string): Paragraph {
+  const url = toUrl(text)
+  const run = new TextRun({ text, color: COLORS.link, size: halfPoints(ctx.style.fontSize - 0.5) })
+  return new Paragraph({
+    keepLines: true,
+    children: [url ? new ExternalHyperlink({ link: url, children: [run] }) : run],
+  })
+}
+
+/**
+ * Title + company on the left, dates on a right tab stop, then location,
+ * details and bullets. The header is kept on the same page as what follows.
+ */
+function entryParagraphs(
+  ctx: CvDocxContext,
+  width: number,
+  entry: { title: string; subtitle?: string; date?: string; location?: string; bullets?: string[]; details?: string; spaceBefore: number }
+): Paragraph[] {
+  const { fontSize } = ctx.style
+  const bullets = (entry.bullets || []).filter((bullet) => bullet.trim())
+  const hasBody = bullets.length > 0 || Boolean(entry.details) || Boolean(entry.location)
+
+  const header: ParagraphChild[] = [new TextRun({ text: entry.title, bold: true, color: COLORS.strong, size: halfPoints(fontSize + 0.5) })]
+  if (entry.subtitle) header.push(new TextRun({ text: `, ${entry.subtitle}`, size: halfPoints(fontSize + 0.5) }))
+  if (entry.date) {
+    header.push(new TextRun({ children: [new Tab(), entry.date], color: COLORS.muted, size: halfPoints(fontSize - 0.5) }))
+  }
+
+  const paragraphs = [
+    new Paragraph({
+      keepNext: hasBody,
+      keepLines: true,
+      spacing: { before: twips(entry.spaceBefore) },
+      tabStops: [{ type: TabStopType.RIGHT, position: width }],
+      children: header,
+    }),
+  ]
+
+  if (entry.location) {
+    paragraphs.push(
+      bodyParagraph(entry.location, {
+        keepNext: bullets.length > 0 || Boolean(entry.details),
+        size: fontSize - 0.5,
+        color: COLORS.light,
+        italics: true,
+        lineHeight: 1.4,
+      })
+    )
+  }
+  if (entry.details) {
+    paragraphs.push(bodyParagraph(entry.details, { keepNext: bullets.length > 0, size: fontSize - 0.5, color: COLORS.muted }))
+  }
+  bullets.forEach((bullet) => paragraphs.push(bulletParagraph(bullet)))
+
+  return paragraphs
+}
+
+/**
+ * Main-column sections shared by both templates (summary, experience,
+ * education, projects and custom sections), keyed by section id
+ */
+function mainSections(ctx: CvDocxContext, cv: CvData, width: number): Partial<Record<CvSectionId, Paragraph[]>> {
+  const sections: Partial<Record<CvSectionId, Paragraph[]>> = {}
+  const summary = (cv.summary || '').trim()
+  const experience = visibleExperience(cv)
+  const education = visibleEducation(cv)
+  const projects = visibleProjects(cv)
+  const customSections = visibleCustomSections(cv)
+
+  // The column's first heading sits flush with the top of the cell
+  const present: CvSectionId[] = [
+    ...(summary ? (['summary'] as const) : []),
+    ...(experience.length > 0 ? (['experience'] as const) : []),
+    ...(education.length > 0 ? (['education'] as const) : []),
+    ...(projects.length > 0 ? (['projects'] as const) : []),
+    ...customSections.map((section) => section.key),
+  ]
+  const first = visibleSectionOrder(cv).find((id) => present.includes(id))
+  const heading = (id: CvSectionId, text: string) => headingParagraph(ctx, text, { first: id === first })
+
+  if (summary) {
+    sections.summary = [
+      heading('summary', SECTION_HEADINGS.summary),
+      ...summary.split(/\n\s*\n/).map(
+        (paragraph, index) =>
+          new Paragraph({
+            spacing: { before: index > 0 ? twips(4) : 0 },
+            text: paragraph.replace(/\s*\n\s*/g, ' '),
+          })
+      ),
+    ]
+  }
+
+  if (experience.length > 0) {
+    sections.experience = [
+      heading('experience', SECTION_HEADINGS.experience),
+      ...experience.flatMap((exp, index) =>
+        entryParagraphs(ctx, width, {
+          title: exp.jobTitle,
+          subtitle: exp.company,
+          date: formatPeriod(exp.startDate, exp.endDate, exp.isCurrent),
+          location: exp.location,
+          bullets: exp.bullets,
+          spaceBefore: index > 0 ? 9 : 0,
+        })
+      ),
+    ]
+  }
+
+  if (education.length > 0) {
+    sections.education = [
+      heading('education', SECTION_HEADINGS.education),
+      ...education.flatMap((edu, index) =>
+        entryParagraphs(ctx, width, {
+          title: edu.degree,
+          subtitle: edu.school,
+          date: edu.year,
+          details: edu.details,
+          spaceBefore: index > 0 ? 6 : 0,
+        })
+      ),
+    ]
+  }
+
+  if (projects.length > 0) {
+    const paragraphs = [heading('projects', SECTION_HEADINGS.projects)]
+    projects.forEach((project, index) => {
+      paragraphs.push(
+        new Paragraph({
+          keepNext: Boolean(project.description || project.url),
+          keepLines: true,
+          spacing: { before: index > 0 ? twips(6) : 0, ...lineSpacing(1.4) },
+          children: [new TextRun({ text: project.name, bold: true, color: COLORS.strong, size: halfPoints(ctx.style.fontSize + 0.5) })],
+        })
+      )
+      if (project.description) {
+        paragraphs.push(bodyParagraph(project.description, { keepNext: Boolean(project.url), size: ctx.style.fontSize - 0.5, color: COLORS.muted }))
+      }
+      if (project.url) paragraphs.push(linkParagraph(ctx, project.url))
+    })
+    sections.projects = paragraphs
+  }
+
+  // Volunteering, awards, references and other custom sections
+  customSections.forEach((section) => {
+    const paragraphs = [heading(section.key, section.heading)]
+    if (section.note) paragraphs.push(new Paragraph({ text: section.note }))
+    section.items.forEach((item, index) => {
+      paragraphs.push(
+        ...entryParagraphs(ctx, width, {
+          title: item.title,
+          subtitle: item.subtitle,
+          date: item.date,
+          details: item.description,
+          spaceBefore: index > 0 ? 6 : 0,
+        })
+      )
+    })
+    sections[section.key] = paragraphs
+  })
+
+  return sections
+}
+
+function buildAtsClassic(ctx: CvDocxContext, cv: CvData): Paragraph[] {
+  const { fontSize } = ctx.style
+  const paragraphs: Paragraph[] = []
+
+  // Header: name, contact line with the rule underneath
+  paragraphs.push(new Paragraph({ style: 'CvName', text: cv.personalInfo.fullName || 'Your Name' }))
+  paragraphs.push(
+    new Paragraph({
+      spacing: { before: twips(3), ...lineSpacing(1.4) },
+      border: { bottom: rule(COLORS.rule, 1.5, 6) },
+      children: [new TextRun({ text: contactItems(cv).join('   ·   '), color: COLORS.muted, size: halfPoints(fontSize - 0.5) })],
+    })
+  )
+
+  // Single column: every section in the CV's section order (ATS Classic order by default)
+  const sections = mainSections(ctx, cv, CONTENT_WIDTH)
+
+  const skills = visibleList(cv.skills)
+  if (skills.length > 0) {
+    sections.skills = [headingParagraph(ctx, SECTION_HEADINGS.skills), new Paragraph({ spacing: lineSpacing(1.6), text: skills.join(' • ') })]
+  }
+
+  const certifications = visibleList(cv.certifications)
+  if (certifications.length > 0) {
+    sections.certifications = [headingParagraph(ctx, SECTION_HEADINGS.certifications), ...certifications.map((cert) => bulletParagraph(cert))]
+  }
+
+  const languages = visibleList(cv.languages)
+  if (languages.length > 0) {
+    sections.languages = [headingParagraph(ctx, SECTION_HEADINGS.languages), new Paragraph({ spacing: lineSpacing(1.6), text: languages.join(' • ') })]
+  }
+
+  const publications = visiblePublications(cv)
+  if (publications.length > 0) {
+    const pubParagraphs = [headingParagraph(ctx, SECTION_HEADINGS.publications)]
+    publications.forEach((pub, index) => {
+      pubParagraphs.push(
+        new Paragraph({
+          keepNext: Boolean(pub.notes),
+          keepLines: true,
+          spacing: { before: index > 0 ? twips(6) : 0 },
+          text: formatPublication(pub),
+        })
+      )
+      if (pub.notes) {
+        pubParagraphs.push(bodyParagraph(pub.notes, { size: fontSize - 1, color: COLORS.muted, italics: true, lineHeight: 1.4 }))
+      }
+    })
+    sections.publications = pubParagraphs
+  }
+
+  paragraphs.push(...orderSections(cv, sections).flat())
+  return paragraphs
+}
+
+function buildTwoColumnPro(ctx: CvDocxContext, cv: CvData): Table {
+  const { fontSize, sectionGap } = ctx.style
+  const sidebar: Paragraph[] = []
+  const sidebarHeading = (text: string) =>
+    new Paragraph({
+      style: 'CvSidebarHeading',
+      text,
+      spacing: { before: twips(sectionGap) },
+      border: { bottom: rule(COLORS.sidebarRule, 0.6, 3) },
+    })
+  const sidebarItem = (text: string, spaceBefore: number) =>
+    new Paragraph({
+      keepLines: true,
+      spacing: { before: twips(spaceBefore), ...lineSpacing(1.4) },
+      children: [new TextRun({ text, color: COLORS.muted, size: halfPoints(fontSize - 1) })],
+    })
+  const sidebarList = (items: string[], spacing: number) => items.map((item, index) => sidebarItem(item, index > 0 ? spacing : 0))
+
+  // Sidebar: name and contact, then skills, languages, certifications and publications in section order
+  sidebar.push(
+    new Paragraph({
+      style: 'CvName',
+      text: cv.personalInfo.fullName || 'Your Name',
+      border: { bottom: rule(COLORS.sidebarRule, 0.6, 8) },
+    })
+  )
+  sidebar.push(sidebarHeading('Contact Information'), ...sidebarList(contactItems(cv), 2))
+
+  const skills = visibleList(cv.skills)
+  const languages = visibleList(cv.languages)
+  const certifications = visibleList(cv.certifications)
+  const publications = visiblePublications(cv)
+  const sidebarSections = orderSections(cv, {
+    skills: skills.length > 0 ? [sidebarHeading(SECTION_HEADINGS.skills), ...sidebarList(skills, 1)] : null,
+    languages: languages.length > 0 ? [sidebarHeading(SECTION_HEADINGS.languages), ...sidebarList(languages, 1)] : null,
+    certifications: certifications.length > 0 ? [sidebarHeading(SECTION_HEADINGS.certifications), ...sidebarList(certifications, 2)] : null,
+    publications: publications.length > 0 ? [sidebarHeading(SECTION_HEADINGS.publications), ...sidebarList(publications.map(formatPublication), 5)] : null,
+  })
+  sidebar.push(...sidebarSections.flat())
+
+  // Main: summary, experience, education, projects and custom sections in section order
+  const mainWidth = CONTENT_WIDTH - SIDEBAR_WIDTH - COLUMN_GUTTER
+  const main = orderSections(cv, mainSections(ctx, cv, mainWidth)).flat()
+
+  return new Table({
+    layout: TableLayoutType.FIXED,
+    width: { size: CONTENT_WIDTH, type: WidthType.DXA },
+    columnWidths: [SIDEBAR_WIDTH, CONTENT_WIDTH - SIDEBAR_WIDTH],
+    borders: {
+      top: NO_BORDER,
+      bottom: NO_BORDER,
+      left: NO_BORDER,
+      right: NO_BORDER,
+      insideHorizontal: NO_BORDER,
+      insideVertical: NO_BORDER,
+    },
+    rows: [
+      new TableRow({
+        children: [
+          new TableCell({
+            width: { size: SIDEBAR_WIDTH, type: WidthType.DXA },
+            margins: { top: 0, bottom: 0, left: 0, right: COLUMN_GUTTER },
+            borders: { top: NO_BORDER, bottom: NO_BORDER, left: NO_BORDER, right: rule(COLORS.sidebarRule, 0.6, 0) },
+            children: sidebar,
+          }),
+          new TableCell({
+            width: { size: CONTENT_WIDTH - SIDEBAR_WIDTH, type: WidthType.DXA },
+            margins: { top: 0, bottom: 0, left: COLUMN_GUTTER, right: 0 },
+            borders: { top: NO_BORDER, bottom: NO_BORDER, left: NO_BORDER, right: NO_BORDER },
+            children: main.length > 0 ? main : [new Paragraph({})],
+          }),
+        ],
+      }),
+    ],
+  })
+}
+
+/**
+ * Build a Word document for a CV in the given template
+ */
+export function buildCvDocx(cv: CvData, template: CvTemplateId, options?: CvCustomizationOptions): Document {
+  const style = resolveCvExportStyle(template, options)
+  const font = FONTS[style.fontFamily]
+  const name = cv.personalInfo?.fullName?.trim()
+  const ctx: CvDocxContext = {
+    template,
+    style,
+    headingRule: template === 'twoColumnPro' ? COLORS.headingRule : style.headingUnderline ? COLORS.strong : undefined,
+  }
+  const headingSpaceAfter = ctx.headingRule ? 6 : 4
+
+  return new Document({
+    creator: 'JobAZ',
+    title: name ? `${name} – CV` : 'CV',
+    subject: 'Curriculum Vitae',
+    styles: {
+      default: {
+        document: {
+          run: { font, size: halfPoints(style.fontSize), color: COLORS.text },
+          paragraph: { spacing: lineSpacing(style.lineHeight) },
+        },
+      },
+      paragraphStyles: [
+        {
+          id: 'CvName',
+          name: 'CV Name',
+          basedOn: 'Normal',
+          next: 'Normal',
+          quickFormat: true,
+          run: {
+            size: halfPoints(template === 'twoColumnPro' ? 17 : 20),
+            bold: style.customized ? style.headingBold : true,
+            color: COLORS.strong,
+          },
+          paragraph: { keepNext: true, spacing: lineSpacing(1.2) },
+        },
+        {
+          id: 'CvHeading',
+          name: 'CV Heading',
+          basedOn: 'Normal',
+          next: 'Normal',
+          quickFormat: true,
+          run: {
+            size: halfPoints(style.fontSize + 1),
+            bold: style.headingBold,
+            allCaps: true,
+            characterSpacing: twips(0.6),
+            color: COLORS.strong,
+          },
+          paragraph: { keepNext: true, keepLines: true, spacing: { after: twips(headingSpaceAfter), ...lineSpacing(1.3) } },
+        },
+        {
+          id: 'CvSidebarHeading',
+          name: 'CV Sidebar Heading',
+          basedOn: 'Normal',
+          next: 'Normal',
+          quickFormat: true,
+          run: { size: halfPoints(style.fontSize - 0.5), bold: true, allCaps: true, characterSpacing: twips(0.8), color: COLORS.rule },
+          paragraph: {
+            keepNext: true,
+            keepLines: true,
+            spacing: { after: twips(5), ...lineSpacing(1.3) },
+          },
+        },
+        {
+          id: 'CvBullet',
+          name: 'CV Bullet',
+          basedOn: 'Normal',
+          quickFormat: true,
+          paragraph: { spacing: { before: twips(1.5) } },
+        },
+      ],
+    },
+    numbering: {
+      config: [
+        {
+          reference: BULLET_REFERENCE,
+          levels: [
+            {
+              level: 0,
+              format: LevelFormat.BULLET,
+              text: '•',
+              alignment: AlignmentType.LEFT,
+              style: {
+                run: { bold: true, color: COLORS.rule },
+                paragraph: { indent: { left: twips(9), hanging: twips(9) } },
+              },
+            },
+          ],
+        },
+      ],
+    },
+    sections: [
+      {
+        properties: {
+          page: {
+            size: { width: PAGE_WIDTH, height: PAGE_HEIGHT },
+            margin: { top: MARGIN_TOP, right: MARGIN_X, bottom: MARGIN_BOTTOM, left: MARGIN_X },
+          },
+        },
+        children: template === 'twoColumnPro' ? [buildTwoColumnPro(ctx, cv)] : buildAtsClassic(ctx, cv),
+      },
+    ],
+  })
+}
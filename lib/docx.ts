@@ -1,3 +1,6 @@
+import type { CvData, CvTemplateId } from '@/lib/cv-schema'
+import type { CvCustomizationOptions } from '@/components/cv-builder-v2/CvCustomizationPanel'
+
 interface Section {
   title: string
   content: string[]
@@ -135,6 +138,30 @@ export async function exportToDocx(
   }
 }
 
+/**
+ * Export a CV as a Word document laid out like the selected template
+ * (see lib/docx-render/cv.ts)
+ */
+export async function exportCvToDocx(
+  cv: CvData,
+  template: CvTemplateId,
+  options: CvCustomizationOptions | undefined,
+  filename: string
+) {
+  if (typeof window === 'undefined') return
+
+  const [{ Packer }, { buildCvDocx }] = await Promise.all([import('docx'), import('./docx-render/cv')])
+  const doc = buildCvDocx(cv, template, options)
+
+  try {
+    const blob = await Packer.toBlob(doc)
+    downloadFile(blob, `${filename}.docx`)
+  } catch (error) {
+    console.error('DOCX export failed:', error)
+    throw error
+  }
+}
+
 // Helper function to sanitize filename
 function sanitizeFilename(filename: string): string {
   return filename
@@ -0,0 +1,135 @@
+/**
+ * Test cases for the hallucination guard on AI-written CV and cover letter text
+ * Run with: npx tsx lib/hallucination-guard.test.ts
+ */
+
+import { parseCvData } from './cv-schema'
+import { buildFactSource, guardGeneratedList, guardGeneratedText, type UnverifiedClaim } from './hallucination-guard'
+
+// Test helper
+function testCase(name: string, claims: UnverifiedClaim[], check: (claims: UnverifiedClaim[]) => boolean, text?: string) {
+  const passed = check(claims)
+
+  console.log(`${passed ? '✅' : '❌'} ${name}`)
+  if (!passed) {
+    if (text !== undefined) console.log(`   Text: ${JSON.stringify(text)}`)
+    console.log(`   Claims: ${JSON.stringify(claims)}`)
+    console.log(`   ❌ FAILED`)
+  }
+  console.log('')
+
+  return passed
+}
+
+const has = (claims: UnverifiedClaim[], kind: UnverifiedClaim['kind'], text: string) =>
+  claims.some((claim) => claim.kind === kind && claim.text === text)
+
+const cv = parseCvData({
+  personalInfo: { fullName: 'Amira Haddad', email: 'amira@example.com', phone: '07700 900123', location: 'Leeds' },
+  summary: 'Warehouse operative with five years of experience.',
+  experience: [
+    {
+      jobTitle: 'Warehouse Operative',
+      company: 'Parcelnet Logistics',
+      startDate: 'Mar 2019',
+      endDate: 'Present',
+      bullets: ['Picked 200 orders a shift using RF scanners', 'Trained new starters on health and safety'],
+    },
+  ],
+  education: [{ degree: 'BTEC Business', school: 'Leeds City College', year: '2018' }],
+  skills: ['Forklift licence', 'Stock control'],
+}).data
+
+const source = buildFactSource({ cv, context: ['Warehouse Team Leader at Amazon, Coventry. Start April 2025. SIA badge desirable.'] })
+
+let allPassed = true
+
+// Test 1: Text that only restates the CV is clean
+const clean = 'As a Warehouse Operative at Parcelnet Logistics since 2019, I picked 200 orders a shift and hold a forklift licence.'
+allPassed = testCase('Test 1: Facts from the CV are verified', guardGeneratedText(clean, source).unverified, (claims) => claims.length === 0, clean) && allPassed
+
+// Test 2: Invented figures, employers and qualifications are flagged
+const invented = 'Increased picking rate by 25% at Tesco, saving £12,000. Led a team of twelve and hold a CSCS card.'
+allPassed = testCase('Test 2: Invented figures, names and qualifications are flagged', guardGeneratedText(invented, source).unverified, (claims) =>
+  has(claims, 'figure', '25%') &&
+  has(claims, 'figure', '£12,000') &&
+  has(claims, 'figure', 'twelve') &&
+  has(claims, 'name', 'Tesco') &&
+  has(claims, 'qualification', 'CSCS')
+, invented) && allPassed
+
+// Test 3: Names and dates may come from the job ad, qualifications may not
+const fromAd = 'I would welcome the chance to join Amazon in Coventry from April 2025, and I hold an SIA badge.'
+allPassed = testCase('Test 3: The ad backs names and dates but not qualifications', guardGeneratedText(fromAd, source).unverified, (claims) =>
+  claims.length === 1 && claims[0].kind === 'qualification' && claims[0].text.toLowerCase().startsWith('sia')
+, fromAd) && allPassed
+
+// Test 4: Invented years are dates
+const year = 'Promoted to shift lead in 2016.'
+allPassed = testCase('Test 4: Years not in the CV or ad are flagged as dates', guardGeneratedText(year, source).unverified, (claims) =>
+  claims.length === 1 && has(claims, 'date', '2016')
+, year) && allPassed
+
+// Test 5: Expressions such as 24/7 are not figures
+const expression = 'Worked 24/7 rotating shifts for Parcelnet Logistics.'
+allPassed = testCase('Test 5: 24/7 is not a figure', guardGeneratedText(expression, source).unverified, (claims) => claims.length === 0, expression) && allPassed
+
+// Test 6: Strip mode removes only the sentences with claims
+const letter = 'I have worked at Parcelnet Logistics since 2019. I cut costs by 40%.\n\nI am confident I can help Amazon.'
+const stripped = guardGeneratedText(letter, source, { mode: 'strip', path: 'letter' })
+allPassed = testCase('Test 6: Strip mode removes unverified sentences', stripped.unverified, (claims) =>
+  has(claims, 'figure', '40%') &&
+  claims.every((claim) => claim.path === 'letter') &&
+  stripped.text === 'I have worked at Parcelnet Logistics since 2019.\n\nI am confident I can help Amazon.'
+, stripped.text) && allPassed
+
+// Test 7: Lists report claims per item and drop stripped items
+const bulletSource = buildFactSource({ inputs: ['Kitchen Porter', 'The Olive Tree', 'washed up and prepped veg'] })
+const bullets = ['Prepared vegetables for the lunch service', 'Reduced food waste by 30%']
+const flagged = guardGeneratedList(bullets, bulletSource, { path: 'achievements' })
+const strippedList = guardGeneratedList(bullets, bulletSource, { mode: 'strip', path: 'achievements' })
+allPassed = testCase('Test 7: List claims carry item paths; strip drops the item', flagged.unverified, (claims) =>
+  claims.length === 1 &&
+  claims[0].path === 'achievements[1]' &&
+  flagged.items.length === 2 &&
+  strippedList.items.length === 1
+) && allPassed
+
+// Test 8: Figures inside the job title or company name are part of the name
+const nameSource = buildFactSource({ cv, context: ['Ward nurse needed for a busy surgical ward.'], names: ['Level 3 Nurse Practitioner', 'Class 2 Logistics'] })
+const opening = 'I am applying for the Level 3 Nurse Practitioner role at Class 2 Logistics. I cut costs by 30%.'
+const namedOpening = guardGeneratedText(opening, nameSource, { mode: 'strip' })
+allPassed = testCase('Test 8: Numbers in the job title and company are not claims', namedOpening.unverified, (claims) =>
+  claims.length === 1 &&
+  has(claims, 'figure', '30%') &&
+  namedOpening.text === 'I am applying for the Level 3 Nurse Practitioner role at Class 2 Logistics.'
+, namedOpening.text) && allPassed
+
+// Test 9: Title-cased common phrases are not names; "I" is not part of a name
+const titleCased = 'As a Team Leader I supported Customer Service across the Night Shift.'
+const titleCasedStripped = guardGeneratedText(titleCased, source, { mode: 'strip' })
+allPassed = testCase('Test 9: Dictionary skills and workplace words are not names', titleCasedStripped.unverified, (claims) =>
+  claims.length === 0 && titleCasedStripped.text === titleCased
+, titleCased) && allPassed
+
+// Test 10: An unknown name is still reported, without the words around it
+const withName = 'As a Team Leader at Tesco I supported the Night Shift.'
+allPassed = testCase('Test 10: Unknown names are reported as written', guardGeneratedText(withName, source).unverified, (claims) =>
+  claims.length === 1 && has(claims, 'name', 'Tesco')
+, withName) && allPassed
+
+// Test 11: Strip mode keeps line breaks and paragraph breaks as they were
+const lines = 'I worked at Parcelnet Logistics.\nI trained new starters.\n\nI cut costs by 40%.\n\n- Picked 200 orders a shift\n- Won an award at Tesco'
+const strippedLines = guardGeneratedText(lines, source, { mode: 'strip' })
+allPassed = testCase('Test 11: Strip mode keeps the original separators', strippedLines.unverified, () =>
+  strippedLines.text === 'I worked at Parcelnet Logistics.\nI trained new starters.\n\n- Picked 200 orders a shift'
+, strippedLines.text) && allPassed
+
+console.log('='.repeat(50))
+console.log('')
+if (allPassed) {
+  console.log('✅ All tests passed!')
+} else {
+  console.log('❌ Some tests failed')
+  process.exit(1)
+}
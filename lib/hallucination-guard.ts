@@ -0,0 +1,350 @@
+/**
+ * Hallucination guard for AI-written CV and cover letter text
+ * Compares generated text with what the user actually gave us (their CvData
+ * and form input) and flags anything new: names of employers, products or
+ * places, figures, qualifications and dates. Flagged claims are either
+ * returned as "needs confirmation" markers for the UI to highlight, or the
+ * sentences that contain them are stripped.
+ *
+ * Names and dates may also come from context such as the job advert (the
+ * company being applied to is not an invention); figures and qualifications
+ * must come from the candidate, so a letter cannot borrow the advert's
+ * "forklift licence" as if the user held one. Figures inside a context name
+ * such as the job title ("Band 5 Nurse") are part of the name, not a claim.
+ *
+ * Deterministic and safe to import from client components.
+ */
+
+import { formatCvSchemaIssues, parseCvData, type CvData, type CvSchemaIssue } from '@/lib/cv-schema'
+import { extractJobKeywords, isDictionaryPhrase, mentionsKeyword, type CompiledKeyword } from '@/lib/keyword-coverage'
+
+export type UnverifiedClaimKind = 'name' | 'figure' | 'qualification' | 'date'
+
+export interface UnverifiedClaim {
+  /** Field path of the generated text, e.g. "achievements[2]"; empty for a single text */
+  path: string
+  kind: UnverifiedClaimKind
+  /** The claim as written, e.g. "25%", "Tesco", "Forklift licence" */
+  text: string
+}
+
+export type FactCheckMode = 'flag' | 'strip'
+
+export const FACT_CHECK_MODES: FactCheckMode[] = ['flag', 'strip']
+
+export const UNVERIFIED_CLAIM_LABELS: Record<UnverifiedClaimKind, string> = {
+  name: 'Name',
+  figure: 'Figure',
+  qualification: 'Qualification',
+  date: 'Date',
+}
+
+export interface FactSourceInput {
+  /** The CV the text was written from */
+  cv?: CvData | null
+  /** What the user typed: the original bullet, notes, keywords, job title... */
+  inputs?: unknown[]
+  /** Text that may be named but is not about the candidate, e.g. the job advert */
+  context?: unknown[]
+  /**
+   * Context names used as written, e.g. the job title and company; figures
+   * inside them ("Band 5 Nurse", "Class 2 Driver") are part of the name
+   */
+  names?: unknown[]
+}
+
+/**
+ * Source text compiled once and checked against every generated field
+ */
+export interface FactSource {
+  candidateText: string
+  candidateWords: Set<string>
+  candidateNumbers: Set<string>
+  allWords: Set<string>
+  allNumbers: Set<string>
+  /** Lowercased names that contain a figure */
+  namesWithNumbers: string[]
+}
+
+export interface GuardedText {
+  text: string
+  unverified: UnverifiedClaim[]
+}
+
+export interface GuardedList {
+  items: string[]
+  unverified: UnverifiedClaim[]
+}
+
+const NUMBER_WORDS: Record<string, string> = {
+  two: '2', three: '3', four: '4', five: '5', six: '6', seven: '7', eight: '8', nine: '9', ten: '10',
+  eleven: '11', twelve: '12', fifteen: '15', twenty: '20', thirty: '30', forty: '40', fifty: '50',
+  hundred: '100', hundreds: '100', thousand: '1000', thousands: '1000', dozen: '12', dozens: '12',
+}
+
+// Capitalised words that are never a claim on their own
+const ALWAYS_ALLOWED = new Set([
+  'i', "i'm", "i've", "i'll", "i'd", 'dear', 'mr', 'mrs', 'ms', 'dr', 'sir', 'madam', 'uk', 'cv',
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+])
+
+// Workplace words a model often title-cases ("the Night Shift", "the Ward")
+const COMMON_NOUNS = new Set([
+  'shift', 'shifts', 'night', 'nights', 'day', 'days', 'weekend', 'weekends', 'team', 'teams', 'department', 'ward', 'wards',
+  'site', 'branch', 'store', 'shop', 'office', 'warehouse', 'kitchen', 'floor', 'unit', 'service', 'services', 'operations',
+  'management', 'manager', 'supervisor', 'leader', 'lead', 'assistant', 'staff', 'customer', 'customers', 'client', 'clients',
+  'health', 'safety', 'quality', 'training', 'sales', 'stock', 'role', 'company', 'organisation',
+])
+
+// Small words allowed inside a name, e.g. "Bank of England", "Marks & Spencer"
+const NAME_CONNECTORS = new Set(['of', 'and', '&', 'for', 'the', 'de', 'la'])
+
+// Company suffixes that need not appear in the source
+const COMPANY_SUFFIXES = new Set(['ltd', 'limited', 'plc', 'inc', 'llp', 'llc', 'group', 'uk'])
+
+function flatten(value: unknown, out: string[]): string[] {
+  if (typeof value === 'string') out.push(value)
+  else if (typeof value === 'number') out.push(String(value))
+  else if (Array.isArray(value)) value.forEach((item) => flatten(item, out))
+  else if (value && typeof value === 'object') Object.values(value).forEach((item) => flatten(item, out))
+  return out
+}
+
+function words(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[’']s\b/g, '')
+    .split(/[^a-z0-9+#&]+/)
+    .filter(Boolean)
+}
+
+function numberValue(raw: string): string {
+  const digits = raw.replace(/[£$€,\s]/g, '').replace(/(%|percent|k|m|bn)$/i, '')
+  return String(Number(digits))
+}
+
+function numbers(text: string): Set<string> {
+  const found = new Set<string>()
+  for (const match of Array.from(text.matchAll(/\d+(?:,\d{3})*(?:\.\d+)?/g))) found.add(numberValue(match[0]))
+  for (const word of words(text)) if (NUMBER_WORDS[word]) found.add(NUMBER_WORDS[word])
+  return found
+}
+
+/**
+ * Read the optional `cvData` a route fact-checks against. Missing is fine
+ * (cv: null); a CV that fails the schema gets an error for a 400 response,
+ * as in the other CV routes.
+ */
+export function parseFactSourceCv(raw: unknown): { cv: CvData | null; error?: string; issues: CvSchemaIssue[] } {
+  if (raw === undefined || raw === null) return { cv: null, issues: [] }
+  const parsed = parseCvData(raw)
+  return parsed.ok
+    ? { cv: parsed.data, issues: [] }
+    : { cv: null, error: `Invalid CV data: ${formatCvSchemaIssues(parsed.issues)}`, issues: parsed.issues }
+}
+
+/**
+ * Compile the CV, the user's input and any context into a source to check against
+ */
+export function buildFactSource({ cv, inputs = [], context = [], names = [] }: FactSourceInput): FactSource {
+  const candidateText = flatten([cv ?? null, inputs], []).join('\n')
+  const nameList = flatten(names, []).map((name) => name.trim().replace(/\s+/g, ' ').toLowerCase()).filter(Boolean)
+  const contextText = [...flatten(context, []), ...nameList].join('\n')
+  const candidateWords = new Set(words(candidateText))
+  const candidateNumbers = numbers(candidateText)
+  return {
+    candidateText,
+    candidateWords,
+    candidateNumbers,
+    allWords: new Set([...Array.from(candidateWords), ...words(contextText)]),
+    allNumbers: new Set([...Array.from(candidateNumbers), ...Array.from(numbers(contextText))]),
+    namesWithNumbers: nameList.filter((name) => numbers(name).size > 0),
+  }
+}
+
+/**
+ * Lines, then sentences within each line; bullet markers are dropped
+ */
+function splitSentences(text: string): string[][] {
+  return text.split('\n').map((line) =>
+    line
+      .replace(/^\s*[-•*]\s+/, '')
+      .split(/(?<=[.!?])\s+(?=[A-Z0-9"“(£$€])/)
+      .filter((sentence) => sentence.trim())
+  )
+}
+
+/**
+ * Runs of capitalised words, e.g. "Parcelnet Logistics" or "Bank of England".
+ * The first word of a sentence is ignored: it is capitalised anyway.
+ */
+function capitalisedRuns(sentence: string): string[] {
+  const tokens = Array.from(sentence.matchAll(/[A-Za-z0-9&][\w&’'+.-]*/g)).map((match) => match[0].replace(/[.’'-]+$/, ''))
+  const runs: string[][] = []
+  let current: string[] = []
+  const isEdgeWord = (token: string) => ALWAYS_ALLOWED.has(token.toLowerCase())
+  const flush = () => {
+    // Connectors and words like "I" at either end are not part of the name ("Team Leader I")
+    while (current.length > 0 && (NAME_CONNECTORS.has(current[current.length - 1].toLowerCase()) || isEdgeWord(current[current.length - 1]))) current.pop()
+    while (current.length > 0 && isEdgeWord(current[0])) current.shift()
+    if (current.length > 0) runs.push(current)
+    current = []
+  }
+
+  tokens.forEach((token, index) => {
+    const isCapitalised = /^[A-Z]/.test(token)
+    if (index === 0) return
+    if (isCapitalised) current.push(token)
+    else if (current.length > 0 && NAME_CONNECTORS.has(token.toLowerCase())) current.push(token)
+    else flush()
+  })
+  flush()
+
+  return runs.map((run) => run.join(' '))
+}
+
+/**
+ * A run is not a new name when the source mentions it, when it is a
+ * dictionary skill ("Customer Service") or when it is only common workplace
+ * words ("Night Shift"); only a run with an unknown word is a claim
+ */
+function isKnownName(run: string, source: FactSource): boolean {
+  if (isDictionaryPhrase(run)) return true
+  const runWords = words(run).filter((word) => !NAME_CONNECTORS.has(word) && !COMPANY_SUFFIXES.has(word))
+  return runWords.every((word) => ALWAYS_ALLOWED.has(word) || COMMON_NOUNS.has(word) || source.allWords.has(word))
+}
+
+/**
+ * The shortest stretch of the sentence that mentions a qualification, so the
+ * claim reads as written ("BSc", "CSCS card") rather than as the dictionary term
+ */
+function qualificationAsWritten(sentence: string, keyword: CompiledKeyword): string {
+  const tokens = sentence.split(/\s+/).filter(Boolean)
+  for (let length = 1; length <= 5; length++) {
+    for (let start = 0; start + length <= tokens.length; start++) {
+      const window = tokens.slice(start, start + length).join(' ')
+      if (mentionsKeyword(window, keyword)) return window.replace(/^[^\w£$€]+|[^\w%+#]+$/g, '')
+    }
+  }
+  return keyword.term
+}
+
+/**
+ * Character ranges of the sentence taken up by names that contain a figure
+ */
+function nameRanges(sentence: string, source: FactSource): Array<[number, number]> {
+  const lower = sentence.replace(/\s/g, ' ').toLowerCase()
+  const ranges: Array<[number, number]> = []
+  for (const name of source.namesWithNumbers) {
+    for (let at = lower.indexOf(name); at >= 0; at = lower.indexOf(name, at + 1)) ranges.push([at, at + name.length])
+  }
+  return ranges
+}
+
+function sentenceClaims(sentence: string, source: FactSource, path: string): UnverifiedClaim[] {
+  const claims: UnverifiedClaim[] = []
+  const add = (kind: UnverifiedClaimKind, text: string) => {
+    if (!claims.some((claim) => claim.text === text)) claims.push({ path, kind, text })
+  }
+  const names = nameRanges(sentence, source)
+
+  // Figures and years, e.g. "25%", "£1.2m", "2019"; "24/7" is an expression, not a figure
+  for (const match of Array.from(sentence.matchAll(/(?:[£$€]\s?)?\d+(?:,\d{3})*(?:\.\d+)?(?:\s?(?:%|percent\b|k\b|m\b|bn\b))?/gi))) {
+    const raw = match[0].trim()
+    const start = match.index ?? 0
+    const before = sentence.slice(Math.max(0, start - 2), start)
+    const after = sentence.slice(start + match[0].length, start + match[0].length + 2)
+    // Part of a word or code ("B2B", "RF2000") or an expression ("24/7", "9/10")
+    if (/\w$/.test(before) || /^\w/.test(after) || /\d\/$/.test(before) || /^\/\d/.test(after)) continue
+    // Part of a known name, e.g. the "5" of "Band 5 Nurse"
+    if (names.some(([from, to]) => start >= from && start < to)) continue
+    const value = numberValue(raw)
+    const isYear = /^(19[5-9]\d|20\d\d)$/.test(raw)
+    if (isYear ? source.allNumbers.has(value) : source.candidateNumbers.has(value)) continue
+    add(isYear ? 'date' : 'figure', raw)
+  }
+  for (const word of words(sentence)) {
+    const value = NUMBER_WORDS[word]
+    if (value && !source.candidateNumbers.has(value)) {
+      const written = sentence.match(new RegExp(`\\b${word}\\b`, 'i'))
+      const at = written?.index ?? -1
+      if (names.some(([from, to]) => at >= from && at < to)) continue
+      add('figure', written ? written[0] : word)
+    }
+  }
+
+  // Qualifications the CV and input never mention
+  for (const keyword of extractJobKeywords(sentence)) {
+    if (keyword.category !== 'qualification') continue
+    if (mentionsKeyword(source.candidateText, keyword)) continue
+    add('qualification', qualificationAsWritten(sentence, keyword))
+  }
+
+  // Names of employers, products, places and people
+  for (const run of capitalisedRuns(sentence)) {
+    if (isKnownName(run, source)) continue
+    // Already reported as a qualification, e.g. "CSCS"
+    if (claims.some((claim) => claim.kind === 'qualification' && words(claim.text).some((word) => words(run).includes(word)))) continue
+    add('name', run)
+  }
+
+  return claims
+}
+
+/**
+ * Everything in the generated text that the source does not back up
+ */
+export function findUnverifiedClaims(text: string, source: FactSource, path = ''): UnverifiedClaim[] {
+  return splitSentences(text || '')
+    .flat()
+    .flatMap((sentence) => sentenceClaims(sentence, source, path))
+    .filter((claim, index, all) => all.findIndex((other) => other.text === claim.text) === index)
+}
+
+/**
+ * Check one generated text. In 'strip' mode, sentences with unverified
+ * claims are removed (the claims are still returned so the UI can say what
+ * was taken out); in 'flag' mode the text is returned unchanged.
+ */
+export function guardGeneratedText(text: string, source: FactSource, options: { mode?: FactCheckMode; path?: string } = {}): GuardedText {
+  const { mode = 'flag', path = '' } = options
+  const unverified = findUnverifiedClaims(text, source, path)
+  if (mode !== 'strip' || unverified.length === 0) return { text, unverified }
+
+  // Paragraphs, then lines: both keep their own separators and bullet markers
+  const keepLine = (line: string) => {
+    const marker = line.match(/^\s*[-•*]\s+/)?.[0] ?? ''
+    const sentences = splitSentences(line)[0] ?? []
+    const kept = sentences.filter((sentence) => sentenceClaims(sentence, source, path).length === 0)
+    return kept.length > 0 ? marker + kept.join(' ') : ''
+  }
+  const parts = text.split(/(\n[ \t]*\n\s*)/)
+  let result = ''
+  for (let index = 0; index < parts.length; index += 2) {
+    const paragraph = parts[index].split('\n').map(keepLine).filter((line) => line.trim()).join('\n')
+    if (!paragraph) continue
+    result += (result ? parts[index - 1] : '') + paragraph
+  }
+  return { text: result.trim(), unverified }
+}
+
+/**
+ * Check a list of generated texts (e.g. bullets), with claims reported at
+ * `${path}[index]`. In 'strip' mode items left empty are dropped.
+ */
+export function guardGeneratedList(items: string[], source: FactSource, options: { mode?: FactCheckMode; path?: string } = {}): GuardedList {
+  const { mode = 'flag', path = '' } = options
+  const guarded = items.map((item, index) => guardGeneratedText(item, source, { mode, path: `${path}[${index}]` }))
+  return {
+    items: guarded.map((result) => result.text).filter((item) => mode !== 'strip' || item.trim()),
+    unverified: guarded.flatMap((result) => result.unverified),
+  }
+}
+
+/**
+ * Read a `factCheck` request option, defaulting to 'flag'
+ */
+export function parseFactCheckMode(value: unknown): FactCheckMode {
+  return FACT_CHECK_MODES.includes(value as FactCheckMode) ? (value as FactCheckMode) : 'flag'
+}
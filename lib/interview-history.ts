@@ -0,0 +1,221 @@
+/**
+ * Interview practice history
+ * Shared types for answers saved through /api/interview/save, question
+ * categorisation, and the per-category score trends served by
+ * /api/interview/history.
+ */
+
+export type InterviewPracticeMode = 'written' | 'voice' | 'hard' | 'simulation'
+
+export const INTERVIEW_PRACTICE_MODES: InterviewPracticeMode[] = ['written', 'voice', 'hard', 'simulation']
+
+export type InterviewQuestionCategory =
+  | 'about-you'
+  | 'strengths-weaknesses'
+  | 'motivation'
+  | 'career-goals'
+  | 'customer-service'
+  | 'teamwork'
+  | 'behavioural'
+  | 'situational'
+  | 'general'
+
+export const INTERVIEW_CATEGORY_LABELS: Record<InterviewQuestionCategory, string> = {
+  'about-you': 'About you',
+  'strengths-weaknesses': 'Strengths & weaknesses',
+  motivation: 'Motivation',
+  'career-goals': 'Career goals',
+  'customer-service': 'Customer service',
+  teamwork: 'Teamwork & conflict',
+  behavioural: 'Behavioural (STAR)',
+  situational: 'Situational',
+  general: 'General',
+}
+
+export interface InterviewAttempt {
+  id?: string
+  mode: InterviewPracticeMode
+  question: string
+  category: InterviewQuestionCategory
+  answer: string
+  score: number | null // 0-10
+  categoryScores?: Record<string, number>
+  strengths: string[]
+  weaknesses: string[]
+  improvedAnswer?: string
+  feedback?: string // overall coach feedback (voice, hard mode, simulation)
+  jobId?: string
+  jobTitle?: string
+  company?: string
+  createdAt: string
+}
+
+export interface InterviewProgressPoint {
+  date: string // YYYY-MM-DD
+  averageScore: number
+  attempts: number
+}
+
+export interface InterviewCategoryProgress {
+  category: InterviewQuestionCategory
+  label: string
+  attempts: number
+  averageScore: number | null
+  latestScore: number | null
+  change: number | null // last day's average minus first day's average
+  points: InterviewProgressPoint[]
+}
+
+// First matching rule wins, so more specific patterns come first
+const CATEGORY_RULES: Array<{ category: InterviewQuestionCategory; pattern: RegExp }> = [
+  { category: 'about-you', pattern: /tell (me|us) about yourself|introduce yourself|walk (me|us) through your (cv|background)/i },
+  { category: 'strengths-weaknesses', pattern: /strength|weakness/i },
+  { category: 'career-goals', pattern: /five years|5 years|career (goal|plan)|long[- ]term|where do you see yourself/i },
+  { category: 'motivation', pattern: /why (do you want|are you interested|this (role|job|company)|should we hire|us)|what (attracted|interests) you|motivat/i },
+  { category: 'customer-service', pattern: /customer|client|complain|service user|patient/i },
+  { category: 'teamwork', pattern: /team|colleague|conflict|disagree|manager|co-?worker/i },
+  { category: 'behavioural', pattern: /tell (me|us) about a time|describe a (time|situation)|give (me|us) an example|example of a time|when have you/i },
+  { category: 'situational', pattern: /what would you do|how would you (handle|deal|approach|respond)|\bif you\b|imagine/i },
+]
+
+/**
+ * Assign a question to a practice category from its wording
+ */
+export function categorizeInterviewQuestion(question: string): InterviewQuestionCategory {
+  const text = question || ''
+  return CATEGORY_RULES.find((rule) => rule.pattern.test(text))?.category ?? 'general'
+}
+
+export function isInterviewPracticeMode(value: unknown): value is InterviewPracticeMode {
+  return typeof value === 'string' && (INTERVIEW_PRACTICE_MODES as string[]).includes(value)
+}
+
+/**
+ * Clamp to the 0-10 scale used throughout the coach; null for non-numbers
+ */
+export function normalizeInterviewScore(value: unknown): number | null {
+  const num = typeof value === 'string' ? parseFloat(value) : value
+  if (typeof num !== 'number' || isNaN(num)) return null
+  return Math.round(Math.max(0, Math.min(10, num)) * 10) / 10
+}
+
+/**
+ * Average of the numeric sub-scores (voice, hard mode, simulation),
+ * skipping keys where a lower number is better
+ */
+export function averageSubScores(scores: Record<string, unknown>, exclude: string[] = []): number | null {
+  const values = Object.entries(scores)
+    .filter(([key, value]) => !exclude.includes(key) && typeof value === 'number' && !isNaN(value))
+    .map(([, value]) => value as number)
+  if (values.length === 0) return null
+  return normalizeInterviewScore(values.reduce((sum, value) => sum + value, 0) / values.length)
+}
+
+/**
+ * Map an interview_training row to an InterviewAttempt
+ */
+export function toInterviewAttempt(row: any): InterviewAttempt {
+  const parseList = (value: unknown): string[] => {
+    if (Array.isArray(value)) return value.map(String)
+    if (typeof value === 'string') {
+      try {
+        const parsed = JSON.parse(value)
+        return Array.isArray(parsed) ? parsed.map(String) : []
+      } catch {
+        return []
+      }
+    }
+    return []
+  }
+
+  return {
+    id: row?.id,
+    mode: isInterviewPracticeMode(row?.mode) ? row.mode : 'written',
+    question: row?.question || '',
+    category: row?.category && row.category in INTERVIEW_CATEGORY_LABELS
+      ? row.category
+      : categorizeInterviewQuestion(row?.question || ''),
+    answer: row?.answer || '',
+    score: normalizeInterviewScore(row?.score),
+    categoryScores: row?.category_scores || undefined,
+    strengths: parseList(row?.strengths),
+    weaknesses: parseList(row?.weaknesses),
+    improvedAnswer: row?.improved_answer || undefined,
+    feedback: row?.feedback || undefined,
+    jobId: row?.job_id || undefined,
+    jobTitle: row?.job_title || undefined,
+    company: row?.company || undefined,
+    createdAt: row?.created_at || new Date().toISOString(),
+  }
+}
+
+/**
+ * Daily average score per question category, oldest first
+ */
+export function buildInterviewProgress(attempts: InterviewAttempt[]): InterviewCategoryProgress[] {
+  const byCategory = new Map<InterviewQuestionCategory, InterviewAttempt[]>()
+  for (const attempt of attempts) {
+    if (attempt.score === null) continue
+    const list = byCategory.get(attempt.category) || []
+    list.push(attempt)
+    byCategory.set(attempt.category, list)
+  }
+
+  const progress: InterviewCategoryProgress[] = []
+  byCategory.forEach((categoryAttempts, category) => {
+    const byDay = new Map<string, number[]>()
+    for (const attempt of categoryAttempts) {
+      const day = attempt.createdAt.slice(0, 10)
+      byDay.set(day, [...(byDay.get(day) || []), attempt.score as number])
+    }
+
+    const points: InterviewProgressPoint[] = Array.from(byDay.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, scores]) => ({
+        date,
+        averageScore: normalizeInterviewScore(scores.reduce((sum, s) => sum + s, 0) / scores.length) as number,
+        attempts: scores.length,
+      }))
+
+    const allScores = categoryAttempts.map((attempt) => attempt.score as number)
+    const latest = [...categoryAttempts].sort((a, b) => b.createdAt.localeCompare(a.createdAt))[0]
+
+    progress.push({
+      category,
+      label: INTERVIEW_CATEGORY_LABELS[category],
+      attempts: categoryAttempts.length,
+      averageScore: normalizeInterviewScore(allScores.reduce((sum, s) => sum + s, 0) / allScores.length),
+      latestScore: latest?.score ?? null,
+      change: points.length > 1
+        ? Math.round((points[points.length - 1].averageScore - points[0].averageScore) * 10) / 10
+        : null,
+      points,
+    })
+  })
+
+  return progress.sort((a, b) => b.attempts - a.attempts)
+}
+
+export type SaveInterviewAttemptInput = Omit<InterviewAttempt, 'category' | 'createdAt' | 'strengths' | 'weaknesses' | 'score'> & {
+  score?: number | null
+  strengths?: string[]
+  weaknesses?: string[]
+}
+
+/**
+ * Client helper: persist one practice answer. Never throws; returns false when
+ * the user is signed out or the save fails so practice is never interrupted.
+ */
+export async function saveInterviewAttempt(input: SaveInterviewAttemptInput): Promise<boolean> {
+  try {
+    const response = await fetch('/api/interview/save', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(input),
+    })
+    return response.ok
+  } catch (error) {
+    console.error('[Interview History] Failed to save attempt:', error)
+    return false
+  }
+}
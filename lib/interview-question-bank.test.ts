@@ -0,0 +1,104 @@
+/**
+ * Test cases for the interview question bank
+ * Run with: npx tsx lib/interview-question-bank.test.ts
+ */
+
+import bundledBank from './interview-question-bank.json'
+import {
+  detectSector,
+  mixInterviewQuestions,
+  parseQuestionBank,
+  selectBankQuestions,
+  type InterviewQuestion,
+} from './interview-question-bank'
+
+// Test helper
+function testCase(name: string, passed: boolean, details?: unknown) {
+  console.log(`${passed ? '✅' : '❌'} ${name}`)
+  if (!passed) {
+    console.log(`   Details: ${JSON.stringify(details)}`)
+    console.log(`   ❌ FAILED`)
+  }
+  console.log('')
+
+  return passed
+}
+
+// Deterministic stand-in for Math.random
+function seeded(seed: number) {
+  return () => {
+    seed = (seed * 16807) % 2147483647
+    return (seed - 1) / 2147483646
+  }
+}
+
+const distinct = (questions: InterviewQuestion[]) => new Set(questions.map((question) => question.competency)).size === questions.length
+
+let allPassed = true
+
+// Test 1: The bundled bank is valid and uses CareerPath sector ids
+const { bank, issues } = parseQuestionBank(bundledBank)
+allPassed = testCase('Test 1: Bundled bank parses without issues', issues.length === 0 && bank.version > 0 && bank.questions.length > 0, issues) && allPassed
+
+// Test 2: Bad entries are dropped with issues, not fatal
+const broken = parseQuestionBank({
+  version: 2,
+  sectors: { 'care-support': ['carer'], 'space-pilot': ['astronaut'] },
+  questions: [
+    { id: 'a', question: 'Why this job?', competency: 'motivation', sectors: [], difficulty: 'easy' },
+    { id: 'a', question: 'Duplicate id', competency: 'teamwork' },
+    { id: 'b', question: 'Unknown competency', competency: 'juggling' },
+    { id: 'c', question: 'Unknown sector kept as general', competency: 'teamwork', sectors: ['space-pilot'], difficulty: 'extreme' },
+  ],
+})
+allPassed = testCase('Test 2: Invalid questions and sectors are reported and dropped', (
+  broken.bank.questions.length === 2 &&
+  broken.bank.questions[1].sectors.length === 0 &&
+  broken.bank.questions[1].difficulty === 'medium' &&
+  !('space-pilot' in broken.bank.sectors) &&
+  ['sectors.space-pilot', 'questions[1].id', 'questions[2].competency', 'questions[3].difficulty', 'questions[3].sectors'].every((path) =>
+    broken.issues.some((issue) => issue.path === path)
+  )
+), broken.issues) && allPassed
+
+// Test 3: Sectors are detected from the job title, longest keyword first
+allPassed = testCase('Test 3: Sector detection', (
+  detectSector(bank, 'Senior Care Assistant') === 'care-support' &&
+  detectSector(bank, 'Warehouse Operative (nights)') === 'warehouse-logistics' &&
+  detectSector(bank, 'Site Operative') === 'construction-trades' &&
+  detectSector(bank, 'Astronaut') === null
+), [detectSector(bank, 'Senior Care Assistant'), detectSector(bank, 'Site Operative')]) && allPassed
+
+// Test 4: Bank selection prefers the sector, opens with motivation and never repeats a competency
+const care = selectBankQuestions(bank, { jobTitle: 'Care Assistant', company: 'Sunrise Homes', sector: 'care-support', limit: 8, random: seeded(7) })
+allPassed = testCase('Test 4: Sector questions first, one per competency, placeholders filled', (
+  care.length === 8 &&
+  distinct(care) &&
+  care[0].competency === 'motivation' &&
+  care.some((question) => question.competency === 'safeguarding' && question.sector === 'care-support') &&
+  care.every((question) => !/\{\w+\}/.test(question.question))
+), care) && allPassed
+
+// Test 5: Mixing keeps competencies unique, fills from the bank and opens with motivation
+const ai: InterviewQuestion[] = [
+  { id: 'ai-1', question: 'How would you handle a medication error?', competency: 'integrity', difficulty: 'medium', sector: null, source: 'ai' },
+  { id: 'ai-2', question: 'Repeat of a bank competency', competency: care[1].competency, difficulty: 'medium', sector: null, source: 'ai' },
+  { id: 'ai-3', question: 'Tell me about leading a shift.', competency: 'leadership', difficulty: 'medium', sector: null, source: 'ai' },
+]
+const mixed = mixInterviewQuestions(care, ai, 8)
+allPassed = testCase('Test 5: Mixed questions never repeat a competency', (
+  mixed.length === 8 &&
+  distinct(mixed) &&
+  mixed[0].competency === 'motivation' &&
+  mixed.some((question) => question.id === 'ai-3') &&
+  !mixed.some((question) => question.id === 'ai-2')
+), mixed) && allPassed
+
+console.log('='.repeat(50))
+console.log('')
+if (allPassed) {
+  console.log('✅ All tests passed!')
+} else {
+  console.log('❌ Some tests failed')
+  process.exit(1)
+}
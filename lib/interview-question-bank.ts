@@ -0,0 +1,361 @@
+/**
+ * Interview question bank
+ * Curated, versioned interview questions tagged by competency, by sector
+ * (CareerPath ids from lib/career-paths.ts) and by difficulty, mixed with AI
+ * questions so an interview never asks about the same competency twice.
+ *
+ * The bank is plain JSON so it can be edited without a deploy:
+ *   INTERVIEW_QUESTION_BANK_URL=https://...        fetched at runtime (e.g. a storage bucket)
+ *   INTERVIEW_QUESTION_BANK_PATH=data/bank.json    read from disk, relative to the project root
+ *   INTERVIEW_QUESTION_BANK_TTL_MS=300000          how long a loaded bank is reused (default 5 min)
+ * Without either, or if the override fails to load, the bundled
+ * lib/interview-question-bank.json is used. Bump `version` on every edit.
+ */
+
+import { readFile } from 'fs/promises'
+import path from 'path'
+import { CAREER_PATHS } from '@/lib/career-paths'
+import bundledBank from './interview-question-bank.json'
+
+export const INTERVIEW_COMPETENCIES = [
+  'motivation',
+  'role-fit',
+  'teamwork',
+  'conflict',
+  'communication',
+  'customer-service',
+  'problem-solving',
+  'resilience',
+  'reliability',
+  'adaptability',
+  'leadership',
+  'integrity',
+  'attention-to-detail',
+  'health-safety',
+  'safeguarding',
+] as const
+
+export type InterviewCompetency = (typeof INTERVIEW_COMPETENCIES)[number]
+
+export const INTERVIEW_COMPETENCY_LABELS: Record<InterviewCompetency, string> = {
+  motivation: 'Motivation',
+  'role-fit': 'Role fit',
+  teamwork: 'Teamwork',
+  conflict: 'Handling conflict',
+  communication: 'Communication',
+  'customer-service': 'Customer service',
+  'problem-solving': 'Problem solving',
+  resilience: 'Working under pressure',
+  reliability: 'Reliability',
+  adaptability: 'Adaptability',
+  leadership: 'Leadership',
+  integrity: 'Integrity',
+  'attention-to-detail': 'Attention to detail',
+  'health-safety': 'Health and safety',
+  safeguarding: 'Safeguarding',
+}
+
+export const INTERVIEW_DIFFICULTIES = ['easy', 'medium', 'hard'] as const
+
+export type InterviewDifficulty = (typeof INTERVIEW_DIFFICULTIES)[number]
+
+export interface BankQuestion {
+  /** Stable across versions, so answers can be traced back to the question */
+  id: string
+  /** May contain {jobTitle} and {company} */
+  question: string
+  competency: InterviewCompetency
+  /** CareerPath ids; empty means the question suits any sector */
+  sectors: string[]
+  difficulty: InterviewDifficulty
+}
+
+export interface InterviewQuestionBank {
+  version: number
+  updatedAt?: string
+  /** CareerPath id → job title keywords used to detect the sector */
+  sectors: Record<string, string[]>
+  questions: BankQuestion[]
+}
+
+export interface QuestionBankIssue {
+  /** e.g. "questions[3].competency" */
+  path: string
+  message: string
+}
+
+/**
+ * A question as served to the interview UI
+ */
+export interface InterviewQuestion {
+  id: string
+  question: string
+  competency: InterviewCompetency
+  difficulty: InterviewDifficulty
+  /** CareerPath id the question is specific to; null for general questions */
+  sector: string | null
+  source: 'bank' | 'ai'
+}
+
+export type QuestionBankSource = 'url' | 'file' | 'bundled'
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000
+const SECTOR_IDS = new Set(CAREER_PATHS.map((careerPath) => careerPath.id))
+
+export function isInterviewCompetency(value: unknown): value is InterviewCompetency {
+  return INTERVIEW_COMPETENCIES.includes(value as InterviewCompetency)
+}
+
+export function isInterviewDifficulty(value: unknown): value is InterviewDifficulty {
+  return INTERVIEW_DIFFICULTIES.includes(value as InterviewDifficulty)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && !!item.trim()) : []
+}
+
+/**
+ * Validate a bank from JSON. Invalid questions are dropped and unknown sector
+ * ids ignored, each with an issue, so one bad edit cannot take the bank down.
+ */
+export function parseQuestionBank(raw: unknown): { bank: InterviewQuestionBank; issues: QuestionBankIssue[] } {
+  const issues: QuestionBankIssue[] = []
+  const input = isRecord(raw) ? raw : {}
+  if (!isRecord(raw)) issues.push({ path: '', message: 'Question bank must be an object' })
+
+  const version = typeof input.version === 'number' && Number.isInteger(input.version) && input.version > 0 ? input.version : 0
+  if (!version) issues.push({ path: 'version', message: 'Expected a positive whole number' })
+
+  const sectors: Record<string, string[]> = {}
+  for (const [id, keywords] of Object.entries(isRecord(input.sectors) ? input.sectors : {})) {
+    if (!SECTOR_IDS.has(id)) {
+      issues.push({ path: `sectors.${id}`, message: 'Unknown sector id (see lib/career-paths.ts)' })
+      continue
+    }
+    sectors[id] = stringList(keywords).map((keyword) => keyword.toLowerCase())
+  }
+
+  const questions: BankQuestion[] = []
+  const seenIds = new Set<string>()
+  ;(Array.isArray(input.questions) ? input.questions : []).forEach((item, index) => {
+    const at = `questions[${index}]`
+    const question = isRecord(item) ? item : {}
+    const id = typeof question.id === 'string' ? question.id.trim() : ''
+    const text = typeof question.question === 'string' ? question.question.trim() : ''
+
+    if (!id || seenIds.has(id)) {
+      issues.push({ path: `${at}.id`, message: id ? `Duplicate id "${id}"` : 'Missing id' })
+      return
+    }
+    if (!text) {
+      issues.push({ path: `${at}.question`, message: 'Missing question text' })
+      return
+    }
+    if (!isInterviewCompetency(question.competency)) {
+      issues.push({ path: `${at}.competency`, message: `Unknown competency "${String(question.competency)}"` })
+      return
+    }
+
+    const difficulty = isInterviewDifficulty(question.difficulty) ? question.difficulty : 'medium'
+    if (question.difficulty !== undefined && difficulty !== question.difficulty) {
+      issues.push({ path: `${at}.difficulty`, message: 'Expected easy, medium or hard; using medium' })
+    }
+
+    const questionSectors = stringList(question.sectors)
+    questionSectors
+      .filter((sector) => !SECTOR_IDS.has(sector))
+      .forEach((sector) => issues.push({ path: `${at}.sectors`, message: `Unknown sector id "${sector}"` }))
+
+    seenIds.add(id)
+    questions.push({
+      id,
+      question: text,
+      competency: question.competency,
+      sectors: questionSectors.filter((sector) => SECTOR_IDS.has(sector)),
+      difficulty,
+    })
+  })
+
+  return {
+    bank: { version, updatedAt: typeof input.updatedAt === 'string' ? input.updatedAt : undefined, sectors, questions },
+    issues,
+  }
+}
+
+let cachedBank: { bank: InterviewQuestionBank; source: QuestionBankSource; loadedAt: number } | null = null
+
+async function readOverride(): Promise<{ raw: unknown; source: QuestionBankSource } | null> {
+  const url = process.env.INTERVIEW_QUESTION_BANK_URL
+  if (url) {
+    const response = await fetch(url, { cache: 'no-store' })
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+    return { raw: await response.json(), source: 'url' }
+  }
+
+  const filePath = process.env.INTERVIEW_QUESTION_BANK_PATH
+  if (filePath) {
+    const content = await readFile(path.resolve(process.cwd(), filePath), 'utf8')
+    return { raw: JSON.parse(content), source: 'file' }
+  }
+
+  return null
+}
+
+/**
+ * The current bank: the override when configured and valid, otherwise the
+ * bundled one. Reused for INTERVIEW_QUESTION_BANK_TTL_MS between loads.
+ */
+export async function loadQuestionBank(): Promise<{ bank: InterviewQuestionBank; source: QuestionBankSource }> {
+  const ttl = parseInt(process.env.INTERVIEW_QUESTION_BANK_TTL_MS || '', 10)
+  const ttlMs = Number.isFinite(ttl) && ttl >= 0 ? ttl : DEFAULT_TTL_MS
+  if (cachedBank && Date.now() - cachedBank.loadedAt < ttlMs) {
+    return { bank: cachedBank.bank, source: cachedBank.source }
+  }
+
+  let loaded: { bank: InterviewQuestionBank; source: QuestionBankSource } | null = null
+  try {
+    const override = await readOverride()
+    if (override) {
+      const { bank, issues } = parseQuestionBank(override.raw)
+      if (issues.length > 0) {
+        console.warn('[Question Bank] issues in', override.source, 'bank:', issues.slice(0, 10))
+      }
+      if (bank.questions.length > 0) {
+        loaded = { bank, source: override.source }
+      } else {
+        console.error('[Question Bank] override has no valid questions, using the bundled bank')
+      }
+    }
+  } catch (error) {
+    console.error('[Question Bank] Failed to load override, using the bundled bank:', error)
+  }
+
+  if (!loaded) {
+    loaded = { bank: parseQuestionBank(bundledBank).bank, source: 'bundled' }
+  }
+
+  cachedBank = { ...loaded, loadedAt: Date.now() }
+  return loaded
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * The sector whose keywords best match the job title (longest keyword wins,
+ * so "site operative" beats "operative"), or null
+ */
+export function detectSector(bank: InterviewQuestionBank, jobTitle: string): string | null {
+  const title = jobTitle.toLowerCase()
+  let best: { sector: string; length: number } | null = null
+
+  for (const [sector, keywords] of Object.entries(bank.sectors)) {
+    for (const keyword of keywords) {
+      if (best && keyword.length <= best.length) continue
+      if (new RegExp(`(^|[^a-z])${escapeRegExp(keyword)}([^a-z]|$)`).test(title)) {
+        best = { sector, length: keyword.length }
+      }
+    }
+  }
+
+  return best ? best.sector : null
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const shuffled = [...items]
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
+  }
+  return shuffled
+}
+
+export interface SelectBankQuestionsOptions {
+  jobTitle: string
+  company?: string
+  /** CareerPath id; sector-specific questions are preferred over general ones */
+  sector?: string | null
+  /** Preferred difficulty; others are used when the bank runs short */
+  difficulty?: InterviewDifficulty
+  limit: number
+  random?: () => number
+}
+
+/**
+ * Bank questions for the job, at most one per competency, best first: a
+ * motivation opener, sector-specific before general, then closest to the
+ * requested difficulty
+ */
+export function selectBankQuestions(bank: InterviewQuestionBank, options: SelectBankQuestionsOptions): InterviewQuestion[] {
+  const { jobTitle, company, sector = null, difficulty, limit, random = Math.random } = options
+  const difficultyRank = (question: BankQuestion) =>
+    difficulty ? Math.abs(INTERVIEW_DIFFICULTIES.indexOf(question.difficulty) - INTERVIEW_DIFFICULTIES.indexOf(difficulty)) : 0
+
+  const ranked = shuffle(
+    bank.questions.filter((question) => question.sectors.length === 0 || (sector && question.sectors.includes(sector))),
+    random
+  ).sort(
+    (a, b) =>
+      // Every interview gets an opener, then the sector's own questions
+      Number(b.competency === 'motivation') - Number(a.competency === 'motivation') ||
+      Number(b.sectors.length > 0) - Number(a.sectors.length > 0) ||
+      difficultyRank(a) - difficultyRank(b)
+  )
+
+  const picked: InterviewQuestion[] = []
+  for (const question of ranked) {
+    if (picked.length >= limit) break
+    if (picked.some((other) => other.competency === question.competency)) continue
+    picked.push({
+      id: question.id,
+      question: question.question
+        .replace(/\{jobTitle\}/g, jobTitle.trim() || 'this')
+        .replace(/\{company\}/g, company?.trim() || 'this company'),
+      competency: question.competency,
+      difficulty: question.difficulty,
+      sector: question.sectors.length > 0 ? sector : null,
+      source: 'bank',
+    })
+  }
+  return picked
+}
+
+/**
+ * Interleave bank and AI questions without repeating a competency (or a
+ * question). The first `bankShare` bank questions go in first, then the AI
+ * questions, then further bank questions to make up the count. Motivation and
+ * role-fit questions open the interview, as they would in a real one.
+ */
+export function mixInterviewQuestions(
+  bankQuestions: InterviewQuestion[],
+  aiQuestions: InterviewQuestion[],
+  count: number,
+  bankShare = Math.ceil(count / 2)
+): InterviewQuestion[] {
+  const mixed: InterviewQuestion[] = []
+  const add = (question: InterviewQuestion) => {
+    if (mixed.length >= count) return
+    if (mixed.some((other) => other.competency === question.competency)) return
+    if (mixed.some((other) => other.question.toLowerCase() === question.question.toLowerCase())) return
+    mixed.push(question)
+  }
+
+  bankQuestions.slice(0, bankShare).forEach(add)
+  aiQuestions.forEach(add)
+  bankQuestions.slice(bankShare).forEach(add)
+
+  const opening: InterviewCompetency[] = ['motivation', 'role-fit']
+  const openingRank = (question: InterviewQuestion) => {
+    const index = opening.indexOf(question.competency)
+    return index === -1 ? opening.length : index
+  }
+  return mixed
+    .map((question, index) => ({ question, index }))
+    .sort((a, b) => openingRank(a.question) - openingRank(b.question) || a.index - b.index)
+    .map(({ question }) => question)
+}
@@ -46,7 +46,7 @@ export function extractCVKeywords(cvData: {
 /**
  * Extract keywords from text by splitting on common separators and cleaning
  */
-function extractKeywordsFromText(text: string): string[] {
+export function extractKeywordsFromText(text: string): string[] {
   if (!text) return []
 
   // Split on spaces, commas, dashes, parentheses, etc.
@@ -77,6 +77,22 @@ function cleanKeyword(word: string): string {
     .toLowerCase()
 }
 
+/**
+ * Rank the keywords of a job description by how often they appear
+ * Returns unique keywords, most frequent first (ties keep first-seen order)
+ */
+export function rankJobKeywords(jobDescription: string, limit = 25): string[] {
+  const counts = new Map<string, number>()
+  extractKeywordsFromText(jobDescription || '').forEach(keyword => {
+    counts.set(keyword, (counts.get(keyword) || 0) + 1)
+  })
+
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([keyword]) => keyword)
+}
+
 /**
  * Calculate match percentage between CV and job
  * Formula:
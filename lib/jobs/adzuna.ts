@@ -4,12 +4,17 @@
  * No UI logic, just data fetching
  */
 
-export interface AdzunaSearchParams {
+import type { JobSearchFilters } from './types'
+import { assertNotRateLimited } from './rate-limit'
+
+export interface AdzunaSearchParams extends JobSearchFilters {
   keyword: string
   location?: string
   page?: number
 }
 
+const KM_PER_MILE = 1.609344
+
 export interface AdzunaApiResponse {
   results: Array<{
     id: string
@@ -26,6 +31,8 @@ export interface AdzunaApiResponse {
     salary_max?: number
     salary_is_predicted?: string
     created?: string
+    contract_time?: 'full_time' | 'part_time'
+    contract_type?: 'permanent' | 'contract'
     category?: {
       label: string
     }
@@ -67,6 +74,20 @@ export async function fetchAdzunaJobs(
   url.searchParams.set('results_per_page', '20')
   url.searchParams.set('content-type', 'application/json')
 
+  // Optional filters (Adzuna has no "temporary" flag; closest is contract)
+  if (params.salaryMin) url.searchParams.set('salary_min', String(params.salaryMin))
+  if (params.salaryMax) url.searchParams.set('salary_max', String(params.salaryMax))
+  if (params.contractType === 'full_time') url.searchParams.set('full_time', '1')
+  if (params.contractType === 'part_time') url.searchParams.set('part_time', '1')
+  if (params.contractType === 'contract' || params.contractType === 'temporary') {
+    url.searchParams.set('contract', '1')
+  }
+  if (params.radiusMiles) {
+    url.searchParams.set('distance', String(Math.round(params.radiusMiles * KM_PER_MILE)))
+  }
+  if (params.postedWithinDays) url.searchParams.set('max_days_old', String(params.postedWithinDays))
+  if (params.sortBy) url.searchParams.set('sort_by', params.sortBy)
+
   try {
     const response = await fetch(url.toString(), {
       method: 'GET',
@@ -75,6 +96,8 @@ export async function fetchAdzunaJobs(
       },
     })
 
+    assertNotRateLimited(response, 'adzuna')
+
     if (!response.ok) {
       const errorText = await response.text()
       console.error('Adzuna API error:', response.status, response.statusText, errorText)
@@ -0,0 +1,160 @@
+/**
+ * Job Search Cache
+ * In-memory TTL cache with stale-while-revalidate for provider results and
+ * job details. Each server instance keeps its own cache, which is enough to
+ * make pagination and repeated searches instant and to spare provider quotas.
+ *   JOB_SEARCH_CACHE_TTL_MS=300000      fresh for (default 5 min; 0 disables caching)
+ *   JOB_SEARCH_CACHE_STALE_MS=1800000   then served stale while refreshing in the background (default 30 min)
+ *   JOB_SEARCH_CACHE_MAX_ENTRIES=500    oldest entries are evicted first
+ */
+
+import type { JobSearchParams, UnifiedJob } from './types'
+import { setJobSearchFilterParams } from './filters'
+
+const DEFAULT_TTL_MS = 5 * 60 * 1000
+const DEFAULT_STALE_MS = 30 * 60 * 1000
+const DEFAULT_MAX_ENTRIES = 500
+
+export type CacheStatus = 'hit' | 'stale' | 'miss'
+
+export interface SwrCache<T> {
+  /**
+   * Fresh value: returned. Stale value: returned and refreshed in the background.
+   * Missing/expired: loaded (concurrent loads for the same key share one call).
+   * null/undefined results are not cached.
+   */
+  get(key: string, loader: () => Promise<T>): Promise<{ value: T; status: CacheStatus }>
+  /** Any cached value regardless of age (e.g. while a provider is rate limited) */
+  peek(key: string): T | undefined
+  clear(): void
+}
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = parseInt(process.env[name] || '', 10)
+  return Number.isFinite(value) && value >= 0 ? value : fallback
+}
+
+function getCacheConfig() {
+  return {
+    ttlMs: readNumberEnv('JOB_SEARCH_CACHE_TTL_MS', DEFAULT_TTL_MS),
+    staleMs: readNumberEnv('JOB_SEARCH_CACHE_STALE_MS', DEFAULT_STALE_MS),
+    maxEntries: Math.max(1, readNumberEnv('JOB_SEARCH_CACHE_MAX_ENTRIES', DEFAULT_MAX_ENTRIES)),
+  }
+}
+
+export function createSwrCache<T>(name: string): SwrCache<T> {
+  const entries = new Map<string, { value: T; storedAt: number }>()
+  const inFlight = new Map<string, Promise<T>>()
+
+  const load = (key: string, loader: () => Promise<T>): Promise<T> => {
+    const pending = inFlight.get(key)
+    if (pending) return pending
+
+    const promise = loader()
+      .then((value) => {
+        if (value !== null && value !== undefined) {
+          entries.delete(key) // re-insert so Map order stays oldest-first
+          entries.set(key, { value, storedAt: Date.now() })
+          const { maxEntries } = getCacheConfig()
+          while (entries.size > maxEntries) {
+            const oldest = entries.keys().next().value
+            if (oldest === undefined) break
+            entries.delete(oldest)
+          }
+        }
+        return value
+      })
+      .finally(() => inFlight.delete(key))
+
+    inFlight.set(key, promise)
+    return promise
+  }
+
+  return {
+    async get(key, loader) {
+      const { ttlMs, staleMs } = getCacheConfig()
+      if (ttlMs === 0) {
+        return { value: await loader(), status: 'miss' }
+      }
+
+      const entry = entries.get(key)
+      if (entry) {
+        const age = Date.now() - entry.storedAt
+        if (age < ttlMs) {
+          return { value: entry.value, status: 'hit' }
+        }
+        if (age < ttlMs + staleMs) {
+          load(key, loader).catch((error) => {
+            console.error(`[Job Cache] ${name} background refresh failed for ${key}:`, error)
+          })
+          return { value: entry.value, status: 'stale' }
+        }
+      }
+
+      return { value: await load(key, loader), status: 'miss' }
+    },
+    peek(key) {
+      return entries.get(key)?.value
+    },
+    clear() {
+      entries.clear()
+      inFlight.clear()
+    },
+  }
+}
+
+export interface ListingCache {
+  /** Keep search results by UnifiedJob.id */
+  remember(jobs: UnifiedJob[]): void
+  /** A job seen in a search within the fresh + stale window, or null */
+  find(id: string): UnifiedJob | null
+}
+
+/**
+ * Search results kept by job id, for providers without a single-job endpoint
+ * (NHS Jobs, the DWP and Civil Service feeds): their getById serves jobs the
+ * user has found in a search, for the details page and cover letters
+ */
+export function createListingCache(): ListingCache {
+  const entries = new Map<string, { job: UnifiedJob; storedAt: number }>()
+
+  return {
+    remember(jobs) {
+      const { ttlMs, maxEntries } = getCacheConfig()
+      if (ttlMs === 0) return
+      for (const job of jobs) {
+        entries.delete(job.id) // re-insert so Map order stays oldest-first
+        entries.set(job.id, { job, storedAt: Date.now() })
+      }
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value
+        if (oldest === undefined) break
+        entries.delete(oldest)
+      }
+    },
+    find(id) {
+      const entry = entries.get(id)
+      if (!entry) return null
+      const { ttlMs, staleMs } = getCacheConfig()
+      if (Date.now() - entry.storedAt >= ttlMs + staleMs) {
+        entries.delete(id)
+        return null
+      }
+      return entry.job
+    },
+  }
+}
+
+/**
+ * Cache key for a search: keyword/location case and spacing don't matter,
+ * filters are written in a fixed order
+ */
+export function searchCacheKey(params: JobSearchParams): string {
+  const normalize = (text?: string) => (text || '').trim().toLowerCase().replace(/\s+/g, ' ')
+  return [
+    normalize(params.keyword),
+    normalize(params.location) || 'uk',
+    params.page || 1,
+    setJobSearchFilterParams(new URLSearchParams(), params).toString(),
+  ].join('|')
+}
@@ -0,0 +1,227 @@
+/**
+ * Job Details
+ * Single-job lookup behind /api/jobs/[id] and cover letter generation: one
+ * job by its UnifiedJob.id, in the format the job details page expects, with
+ * the details cache and the providers' rate-limit backoff.
+ */
+
+import { parseJobId, type ParsedJobId } from './parse-id'
+import { mockJobs, isJobSearchDemoMode } from './mock-jobs'
+import { formatSalary } from './normalize'
+import { getJobProvider } from './registry'
+import { JOB_CONTRACT_TYPE_LABELS } from './filters'
+import { createSwrCache } from './cache'
+import { getProviderBackoffMs, ProviderRateLimitError, assertNotRateLimited, withRateLimitTracking } from './rate-limit'
+
+const jobDetailsCache = createSwrCache<any>('details')
+
+/**
+ * Fetch a single Reed job by ID
+ */
+async function fetchReedJobById(rawId: string) {
+  const apiKey = process.env.REED_API_KEY
+  const base = process.env.REED_API_BASE || 'https://www.reed.co.uk/api/1.0'
+
+  if (!apiKey) {
+    throw new Error('Missing Reed API config')
+  }
+
+  const url = `${base}/jobs/${rawId}`
+  const response = await fetch(url, {
+    headers: {
+      Authorization: 'Basic ' + Buffer.from(apiKey + ':').toString('base64'),
+    },
+  })
+
+  assertNotRateLimited(response, 'reed')
+
+  if (!response.ok) {
+    if (response.status === 404) {
+      return null
+    }
+    throw new Error(`Reed API error: ${response.status} ${response.statusText}`)
+  }
+
+  return await response.json()
+}
+
+/**
+ * Fetch a single Adzuna job by ID
+ * Uses Adzuna Job Details endpoint: /jobs/gb/{jobId}.json
+ * IMPORTANT: The .json suffix is REQUIRED
+ */
+async function fetchAdzunaJobById(rawId: string) {
+  const appId = process.env.ADZUNA_APP_ID
+  const appKey = process.env.ADZUNA_APP_KEY
+  const apiBase = process.env.ADZUNA_API_BASE || 'https://api.adzuna.com/v1/api'
+
+  if (!appId || !appKey) {
+    throw new Error('Missing Adzuna API credentials')
+  }
+
+  try {
+    // Adzuna Job Details endpoint: /jobs/gb/{jobId}.json
+    // IMPORTANT: The .json suffix is REQUIRED
+    // Use "gb" to match the country code used in search endpoint (NOT "uk")
+    const url = new URL(`${apiBase}/jobs/gb/${rawId}.json`)
+    url.searchParams.set('app_id', appId)
+    url.searchParams.set('app_key', appKey)
+
+    const fullUrl = url.toString()
+    const response = await fetch(fullUrl, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+    })
+
+    assertNotRateLimited(response, 'adzuna')
+
+    if (!response.ok) {
+      if (response.status === 404) {
+        // Log full URL in dev mode only
+        if (process.env.NODE_ENV === 'development') {
+          console.error(`Adzuna job not found. Full URL used: ${fullUrl}`)
+        }
+        return null
+      }
+      const errorText = await response.text()
+      console.error(`Adzuna API error for job ${rawId}:`, response.status, response.statusText, errorText)
+      // Log full URL in dev mode
+      if (process.env.NODE_ENV === 'development') {
+        console.error(`Adzuna API URL used: ${fullUrl}`)
+      }
+      throw new Error(`Adzuna API error: ${response.status} ${response.statusText}`)
+    }
+
+    const data = await response.json()
+    return data
+  } catch (error) {
+    console.error(`Error fetching Adzuna job ${rawId}:`, error)
+    throw error
+  }
+}
+
+/**
+ * Normalize Reed job to common format
+ */
+function normalizeReedJobForDetails(reedJob: any, fullId: string) {
+  return {
+    id: fullId,
+    title: reedJob.jobTitle || 'Untitled Job',
+    company: reedJob.employerName || 'Unknown Company',
+    location: reedJob.locationName || 'Location not specified',
+    description: reedJob.fullDescription || reedJob.jobDescription || '',
+    type: reedJob.contractType || (reedJob.fullTime ? 'Full-time' : reedJob.partTime ? 'Part-time' : undefined),
+    link: reedJob.jobUrl || undefined,
+    salary: reedJob.minimumSalary && reedJob.maximumSalary
+      ? `£${reedJob.minimumSalary.toLocaleString()} - £${reedJob.maximumSalary.toLocaleString()}`
+      : reedJob.minimumSalary
+      ? `From £${reedJob.minimumSalary.toLocaleString()}`
+      : reedJob.maximumSalary
+      ? `Up to £${reedJob.maximumSalary.toLocaleString()}`
+      : undefined,
+    source: 'reed',
+    // Store full Reed job object for compatibility
+    _reedJob: reedJob,
+  }
+}
+
+/**
+ * Normalize Adzuna job to common format
+ */
+function normalizeAdzunaJobForDetails(adzunaJob: any, fullId: string) {
+  return {
+    id: fullId,
+    title: adzunaJob.title || 'Untitled Job',
+    company: adzunaJob.company?.display_name || 'Unknown Company',
+    location: adzunaJob.location?.display_name || 'Location not specified',
+    description: adzunaJob.description || '',
+    type: adzunaJob.contract_type || 'Full-time',
+    link: adzunaJob.redirect_url || undefined,
+    salary: adzunaJob.salary_min && adzunaJob.salary_max
+      ? `£${adzunaJob.salary_min.toLocaleString()} - £${adzunaJob.salary_max.toLocaleString()}`
+      : adzunaJob.salary_min
+      ? `From £${adzunaJob.salary_min.toLocaleString()}`
+      : adzunaJob.salary_max
+      ? `Up to £${adzunaJob.salary_max.toLocaleString()}`
+      : undefined,
+    contract_time: adzunaJob.contract_time,
+    salary_min: adzunaJob.salary_min,
+    salary_max: adzunaJob.salary_max,
+    category: adzunaJob.category?.label,
+    provider: 'adzuna',
+    source: 'adzuna',
+    // Store full Adzuna job object for compatibility
+    _adzunaJob: adzunaJob,
+  }
+}
+
+/**
+ * Fetch one job from its provider in the common details format (null if not found)
+ */
+async function fetchJobDetails(parsed: ParsedJobId): Promise<any | null> {
+  let job: any = null
+
+  // Fetch from the appropriate provider
+  if (parsed.provider === 'reed') {
+    const reedJob = await fetchReedJobById(parsed.rawId)
+    if (reedJob) {
+      job = normalizeReedJobForDetails(reedJob, parsed.fullId)
+    }
+  } else if (parsed.provider === 'adzuna') {
+    try {
+      const adzunaJob = await fetchAdzunaJobById(parsed.rawId)
+      if (adzunaJob) {
+        job = normalizeAdzunaJobForDetails(adzunaJob, parsed.fullId)
+      }
+    } catch (error) {
+      console.error(`Error fetching Adzuna job ${parsed.rawId}:`, error)
+      // Re-throw for the caller (the route maps it to a 500)
+      throw error
+    }
+  } else {
+    // Other registered providers look jobs up themselves (fixture file, recent NHS Jobs and feed searches)
+    const provider = getJobProvider(parsed.provider)
+    const providerJob = provider?.getById ? await provider.getById(parsed.rawId) : null
+    if (providerJob) {
+      job = {
+        id: providerJob.id,
+        title: providerJob.title,
+        company: providerJob.company,
+        location: providerJob.location,
+        description: providerJob.description,
+        type: providerJob.contractType ? JOB_CONTRACT_TYPE_LABELS[providerJob.contractType] : undefined,
+        link: providerJob.url || undefined,
+        salary: formatSalary(providerJob.salaryMin, providerJob.salaryMax),
+        source: providerJob.source,
+      }
+    }
+  }
+
+  return job
+}
+
+/**
+ * A job by its UnifiedJob.id, or null if the provider doesn't have it.
+ * Demo mode serves the mock jobs. While the provider backs off after a 429
+ * only a cached copy is served; without one, ProviderRateLimitError is thrown.
+ */
+export async function getJobDetails(id: string): Promise<any | null> {
+  if (isJobSearchDemoMode()) {
+    // Offline/demo mode serves the mock jobs without calling providers
+    return mockJobs.find((j) => j.id === id) || null
+  }
+
+  const parsed = parseJobId(id)
+  if (getProviderBackoffMs(parsed.provider) > 0) {
+    const cached = jobDetailsCache.peek(parsed.fullId)
+    if (!cached) throw new ProviderRateLimitError(parsed.provider)
+    return cached
+  }
+
+  const { value } = await jobDetailsCache.get(parsed.fullId, () =>
+    withRateLimitTracking(parsed.provider, () => fetchJobDetails(parsed))
+  )
+  return value
+}
@@ -0,0 +1,130 @@
+/**
+ * Job Feed Helpers
+ * Minimal XML/RSS reading for feed-based providers (Find a Job, NHS Jobs,
+ * Civil Service Jobs, local fixtures). No UI logic, just parsing.
+ */
+
+export interface FeedItem {
+  guid: string
+  title: string
+  link: string
+  description: string
+  pubDate?: string
+  company?: string
+  location?: string
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  pound: '£',
+}
+
+/**
+ * Decode XML/HTML entities (named and numeric)
+ */
+export function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10)
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match
+    }
+    return XML_ENTITIES[entity.toLowerCase()] ?? match
+  })
+}
+
+/**
+ * Turn an HTML fragment into plain text, keeping paragraph breaks
+ */
+export function stripHtml(html: string): string {
+  return decodeXmlEntities(
+    html
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h[1-6])>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+/g, ' ')
+    .replace(/\n\s*\n+/g, '\n\n')
+    .trim()
+}
+
+function unwrapCdata(text: string): string {
+  const cdata = text.match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/)
+  return cdata ? cdata[1] : text
+}
+
+/**
+ * All top-level `<tag>...</tag>` blocks (tag may be namespaced, e.g. "dc:creator")
+ */
+export function extractXmlBlocks(xml: string, tag: string): string[] {
+  const escaped = tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+  const pattern = new RegExp(`<${escaped}(?:\\s[^>]*)?>([\\s\\S]*?)</${escaped}>`, 'gi')
+  const blocks: string[] = []
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(xml)) !== null) {
+    blocks.push(match[1])
+  }
+  return blocks
+}
+
+/**
+ * Text content of the first `<tag>` in a block, CDATA unwrapped and entities decoded
+ */
+export function readXmlTag(block: string, tag: string): string | undefined {
+  const [first] = extractXmlBlocks(block, tag)
+  if (first === undefined) return undefined
+  const value = decodeXmlEntities(unwrapCdata(first)).trim()
+  return value || undefined
+}
+
+/**
+ * Parse RSS 2.0 `<item>` or Atom `<entry>` elements into FeedItems
+ */
+export function parseFeedItems(xml: string): FeedItem[] {
+  const rssItems = extractXmlBlocks(xml, 'item')
+  const blocks = rssItems.length > 0 ? rssItems : extractXmlBlocks(xml, 'entry')
+
+  return blocks.map((block, index) => {
+    const atomLink = block.match(/<link[^>]*href="([^"]+)"/i)?.[1]
+    const link = readXmlTag(block, 'link') || (atomLink ? decodeXmlEntities(atomLink) : '')
+    const description = readXmlTag(block, 'description') || readXmlTag(block, 'summary') || readXmlTag(block, 'content') || ''
+
+    return {
+      guid: readXmlTag(block, 'guid') || readXmlTag(block, 'id') || link || String(index),
+      title: stripHtml(readXmlTag(block, 'title') || ''),
+      link,
+      description: stripHtml(description),
+      pubDate: readXmlTag(block, 'pubDate') || readXmlTag(block, 'updated') || readXmlTag(block, 'published'),
+      company: readXmlTag(block, 'dc:creator') || readXmlTag(block, 'author') || readXmlTag(block, 'company'),
+      location: readXmlTag(block, 'location'),
+    }
+  })
+}
+
+/**
+ * Fill a feed URL template: {keyword}, {location} and {page} are URL-encoded
+ */
+export function buildFeedUrl(template: string, params: { keyword: string; location?: string; page?: number }): string {
+  return template
+    .replace(/\{keyword\}/g, encodeURIComponent(params.keyword))
+    .replace(/\{location\}/g, encodeURIComponent(params.location || ''))
+    .replace(/\{page\}/g, String(params.page || 1))
+}
+
+/**
+ * Stable short id for feed items that have no numeric id (URL or guid based)
+ */
+export function feedItemId(guid: string): string {
+  const lastSegment = guid.split(/[/?#=]/).filter(Boolean).pop() || guid
+  if (/^[\w-]{1,64}$/.test(lastSegment)) return lastSegment
+
+  let hash = 0
+  for (let i = 0; i < guid.length; i++) {
+    hash = (hash * 31 + guid.charCodeAt(i)) | 0
+  }
+  return Math.abs(hash).toString(36)
+}
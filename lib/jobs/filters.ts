@@ -0,0 +1,169 @@
+/**
+ * Job Search Filters
+ * Shared by /api/jobs/search and the job finder page: URL query parsing,
+ * post-filtering for providers that can't filter upstream, and sorting.
+ * No server-only imports (used client-side).
+ */
+
+import type { JobContractType, JobSearchFilters, JobSortOrder, UnifiedJob } from './types'
+
+export const JOB_CONTRACT_TYPES: JobContractType[] = ['full_time', 'part_time', 'contract', 'temporary']
+
+export const JOB_CONTRACT_TYPE_LABELS: Record<JobContractType, string> = {
+  full_time: 'Full-time',
+  part_time: 'Part-time',
+  contract: 'Contract',
+  temporary: 'Temporary',
+}
+
+export const JOB_SORT_ORDERS: JobSortOrder[] = ['relevance', 'date', 'salary']
+
+export const JOB_SORT_LABELS: Record<JobSortOrder, string> = {
+  relevance: 'Most relevant',
+  date: 'Newest first',
+  salary: 'Highest salary',
+}
+
+export const JOB_RADIUS_OPTIONS_MILES = [5, 10, 20, 30, 50]
+
+export const JOB_POSTED_WITHIN_OPTIONS_DAYS = [1, 3, 7, 14, 30]
+
+/**
+ * Query string keys, shared by the API route and the job finder URL
+ */
+const FILTER_QUERY_KEYS: Record<keyof JobSearchFilters, string> = {
+  salaryMin: 'salaryMin',
+  salaryMax: 'salaryMax',
+  contractType: 'type',
+  radiusMiles: 'radius',
+  postedWithinDays: 'postedWithin',
+  sortBy: 'sort',
+}
+
+export function isJobContractType(value: unknown): value is JobContractType {
+  return typeof value === 'string' && (JOB_CONTRACT_TYPES as string[]).includes(value)
+}
+
+export function isJobSortOrder(value: unknown): value is JobSortOrder {
+  return typeof value === 'string' && (JOB_SORT_ORDERS as string[]).includes(value)
+}
+
+function readPositiveInt(value: string | null): number | undefined {
+  if (!value) return undefined
+  const parsed = parseInt(value, 10)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+}
+
+/**
+ * Read filters from a query string; invalid values are dropped
+ */
+export function parseJobSearchFilters(params: Pick<URLSearchParams, 'get'>): JobSearchFilters {
+  const filters: JobSearchFilters = {}
+
+  const salaryMin = readPositiveInt(params.get(FILTER_QUERY_KEYS.salaryMin))
+  const salaryMax = readPositiveInt(params.get(FILTER_QUERY_KEYS.salaryMax))
+  if (salaryMin) filters.salaryMin = salaryMin
+  if (salaryMax && (!salaryMin || salaryMax >= salaryMin)) filters.salaryMax = salaryMax
+
+  const contractType = params.get(FILTER_QUERY_KEYS.contractType)
+  if (isJobContractType(contractType)) filters.contractType = contractType
+
+  const radiusMiles = readPositiveInt(params.get(FILTER_QUERY_KEYS.radiusMiles))
+  if (radiusMiles) filters.radiusMiles = radiusMiles
+
+  const postedWithinDays = readPositiveInt(params.get(FILTER_QUERY_KEYS.postedWithinDays))
+  if (postedWithinDays) filters.postedWithinDays = postedWithinDays
+
+  const sortBy = params.get(FILTER_QUERY_KEYS.sortBy)
+  if (isJobSortOrder(sortBy) && sortBy !== 'relevance') filters.sortBy = sortBy
+
+  return filters
+}
+
+/**
+ * Write filters into a query string (unset filters are removed)
+ */
+export function setJobSearchFilterParams(params: URLSearchParams, filters: JobSearchFilters): URLSearchParams {
+  for (const [field, key] of Object.entries(FILTER_QUERY_KEYS) as Array<[keyof JobSearchFilters, string]>) {
+    const value = filters[field]
+    if (value === undefined || (field === 'sortBy' && value === 'relevance')) {
+      params.delete(key)
+    } else {
+      params.set(key, String(value))
+    }
+  }
+  return params
+}
+
+/**
+ * Best-effort contract type from provider text ("Part Time", "Temp", "Permanent", ...)
+ */
+export function parseContractType(text?: string): JobContractType | undefined {
+  if (!text) return undefined
+  const value = text.toLowerCase()
+  if (/part[\s_-]?time/.test(value)) return 'part_time'
+  if (/\btemp(orary)?\b/.test(value)) return 'temporary'
+  if (/\bcontract\b/.test(value)) return 'contract'
+  if (/full[\s_-]?time|permanent/.test(value)) return 'full_time'
+  return undefined
+}
+
+/**
+ * Drop jobs whose known data contradicts the filters. Jobs missing a field
+ * (e.g. no salary in a feed) are kept. Radius needs coordinates, so it is
+ * only ever applied upstream.
+ */
+export function applyJobFilters(
+  jobs: UnifiedJob[],
+  filters: JobSearchFilters,
+  skip: Array<keyof JobSearchFilters> = []
+): UnifiedJob[] {
+  const active = (field: keyof JobSearchFilters) => filters[field] !== undefined && !skip.includes(field)
+  const postedAfter = active('postedWithinDays')
+    ? Date.now() - (filters.postedWithinDays as number) * 24 * 60 * 60 * 1000
+    : null
+
+  return jobs.filter((job) => {
+    if (active('salaryMin')) {
+      const top = job.salaryMax ?? job.salaryMin
+      if (top !== undefined && top < (filters.salaryMin as number)) return false
+    }
+    if (active('salaryMax')) {
+      const bottom = job.salaryMin ?? job.salaryMax
+      if (bottom !== undefined && bottom > (filters.salaryMax as number)) return false
+    }
+    if (active('contractType') && job.contractType && job.contractType !== filters.contractType) {
+      return false
+    }
+    if (postedAfter !== null && job.postedAt) {
+      const posted = Date.parse(job.postedAt)
+      if (Number.isFinite(posted) && posted < postedAfter) return false
+    }
+    return true
+  })
+}
+
+/**
+ * Sort merged results. Relevance keeps provider order; jobs without a
+ * date/salary go last.
+ */
+export function sortJobs(jobs: UnifiedJob[], sortBy: JobSortOrder = 'relevance'): UnifiedJob[] {
+  if (sortBy === 'relevance') return jobs
+
+  const valueOf = (job: UnifiedJob): number | undefined => {
+    if (sortBy === 'date') {
+      const posted = job.postedAt ? Date.parse(job.postedAt) : NaN
+      return Number.isFinite(posted) ? posted : undefined
+    }
+    return job.salaryMax ?? job.salaryMin
+  }
+
+  return [...jobs].sort((a, b) => {
+    const aValue = valueOf(a)
+    const bValue = valueOf(b)
+    if (aValue === undefined && bValue === undefined) return 0
+    if (aValue === undefined) return 1
+    if (bValue === undefined) return -1
+    return bValue - aValue
+  })
+}
@@ -87,3 +87,30 @@ export const mockJobs: Job[] = [
   },
 ]
 
+
+/**
+ * Offline/demo mode (JOB_SEARCH_DEMO_MODE=true): job search serves the mock
+ * jobs above instead of calling providers. Never used as a fallback otherwise.
+ */
+export function isJobSearchDemoMode(): boolean {
+  return process.env.JOB_SEARCH_DEMO_MODE === 'true'
+}
+
+/**
+ * Filter mock jobs by title/company, location and contract type label
+ * ('Full-time', ...). No match returns an empty list.
+ */
+export function searchMockJobs({ title, location, type }: { title?: string; location?: string; type?: string }): Job[] {
+  const titleLower = (title || '').toLowerCase().trim()
+  const locationLower = (location || '').toLowerCase().trim()
+
+  return mockJobs.filter((job) => {
+    if (titleLower && !job.title.toLowerCase().includes(titleLower) && !job.company.toLowerCase().includes(titleLower)) {
+      return false
+    }
+    if (locationLower && !job.location.toLowerCase().includes(locationLower)) {
+      return false
+    }
+    return !type || job.type === type
+  })
+}
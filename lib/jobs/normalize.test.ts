@@ -0,0 +1,94 @@
+/**
+ * Test cases for merging duplicate vacancies across job providers
+ * Run with: npx tsx lib/jobs/normalize.test.ts
+ */
+
+import { isSameVacancy, normalizeCompanyName, removeDuplicates } from './normalize'
+import type { UnifiedJob } from './types'
+
+// Test helper
+function testCase(name: string, passed: boolean, details?: unknown) {
+  console.log(`${passed ? '✅' : '❌'} ${name}`)
+  if (!passed) {
+    console.log(`   Details: ${JSON.stringify(details)}`)
+    console.log(`   ❌ FAILED`)
+  }
+  console.log('')
+
+  return passed
+}
+
+function job(overrides: Partial<UnifiedJob> & Pick<UnifiedJob, 'id' | 'source' | 'title'>): UnifiedJob {
+  return {
+    company: 'Leeds Teaching Hospitals NHS Trust',
+    location: 'Leeds',
+    description: '',
+    url: `https://example.com/${overrides.id}`,
+    ...overrides,
+  }
+}
+
+let allPassed = true
+
+// Test 1: One provider's similar listings are separate vacancies
+const nhsListings = [
+  job({ id: 'nhs_1', source: 'nhs', title: 'Senior Care Assistant' }),
+  job({ id: 'nhs_2', source: 'nhs', title: 'Care Assistant' }),
+  job({ id: 'nhs_3', source: 'nhs', title: 'Staff Nurse - Ward 5' }),
+  job({ id: 'nhs_4', source: 'nhs', title: 'Staff Nurse - Ward 7' }),
+]
+const nhsMerged = removeDuplicates(nhsListings)
+allPassed = testCase('Test 1: Listings from the same provider are never fuzzy-merged', (
+  nhsMerged.length === 4 &&
+  nhsMerged.every((merged) => merged.sources?.length === 1)
+), nhsMerged.map((merged) => merged.id)) && allPassed
+
+// Test 2: The same vacancy on two providers is merged, keeping both sources
+const crossProvider = removeDuplicates([
+  job({ id: 'reed_1', source: 'reed', title: 'Warehouse Operative', company: 'Parcelnet Logistics Ltd', salaryMin: 24000, salaryMax: 26000 }),
+  job({ id: 'adzuna_9', source: 'adzuna', title: 'Warehouse Operative (Nights)', company: 'Parcelnet Logistics Limited', location: 'Leeds, West Yorkshire', salaryMin: 25000 }),
+])
+allPassed = testCase('Test 2: Ltd/Limited and a fuller location still match across providers', (
+  crossProvider.length === 1 &&
+  crossProvider[0].id === 'reed_1' &&
+  crossProvider[0].sources?.map((link) => link.jobId).join(',') === 'reed_1,adzuna_9'
+), crossProvider) && allPassed
+
+// Test 3: Company suffixes are ignored for matching
+allPassed = testCase('Test 3: Company names are normalised', (
+  normalizeCompanyName('The Example Group Ltd') === 'example' &&
+  normalizeCompanyName('Parcelnet Logistics Limited') === normalizeCompanyName('Parcelnet Logistics Ltd')
+), [normalizeCompanyName('The Example Group Ltd')]) && allPassed
+
+// Test 4: Different towns are different vacancies
+const reedLeeds = job({ id: 'reed_2', source: 'reed', title: 'Care Assistant', company: 'Sunrise Homes' })
+const adzunaYork = job({ id: 'adzuna_2', source: 'adzuna', title: 'Care Assistant', company: 'Sunrise Homes', location: 'York' })
+const adzunaUk = job({ id: 'adzuna_3', source: 'adzuna', title: 'Care Assistant', company: 'Sunrise Homes Ltd', location: 'UK' })
+allPassed = testCase('Test 4: Locations must be compatible; UK-wide matches anything', (
+  !isSameVacancy(reedLeeds, adzunaYork) &&
+  isSameVacancy(reedLeeds, adzunaUk)
+)) && allPassed
+
+// Test 5: Salaries must overlap (within 10%); a missing salary matches anything
+const reedPaid = job({ id: 'reed_3', source: 'reed', title: 'Chef', company: 'Olive Tree', salaryMin: 25000, salaryMax: 28000 })
+allPassed = testCase('Test 5: Salary ranges must overlap', (
+  isSameVacancy(reedPaid, job({ id: 'adzuna_4', source: 'adzuna', title: 'Chef', company: 'Olive Tree Ltd', salaryMin: 30000 })) &&
+  !isSameVacancy(reedPaid, job({ id: 'adzuna_5', source: 'adzuna', title: 'Chef', company: 'Olive Tree Ltd', salaryMin: 40000 })) &&
+  isSameVacancy(reedPaid, job({ id: 'adzuna_6', source: 'adzuna', title: 'Chef', company: 'Olive Tree Ltd' }))
+)) && allPassed
+
+// Test 6: Exact title/company/location duplicates still merge, even from one provider
+const exact = removeDuplicates([
+  job({ id: 'nhs_5', source: 'nhs', title: 'Porter' }),
+  job({ id: 'nhs_6', source: 'nhs', title: 'Porter' }),
+])
+allPassed = testCase('Test 6: Exact duplicates merge regardless of provider', exact.length === 1, exact) && allPassed
+
+console.log('='.repeat(50))
+console.log('')
+if (allPassed) {
+  console.log('✅ All tests passed!')
+} else {
+  console.log('❌ Some tests failed')
+  process.exit(1)
+}
@@ -3,9 +3,28 @@
  * Convert provider-specific job formats to UnifiedJob
  */
 
-import type { UnifiedJob } from './types'
+import type { JobContractType, JobSource, JobSourceLink, UnifiedJob } from './types'
 import type { AdzunaApiResponse } from './adzuna'
 import type { ReedApiResponse } from './reed'
+import { feedItemId, readXmlTag, stripHtml, type FeedItem } from './feed'
+import { isJobContractType, parseContractType } from './filters'
+
+/**
+ * Parse a provider date ("dd/mm/yyyy", ISO or RFC 822) to an ISO string
+ */
+export function toIsoDate(value?: string): string | undefined {
+  if (!value) return undefined
+  const ukDate = value.trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/)
+  const time = ukDate
+    ? Date.UTC(Number(ukDate[3]), Number(ukDate[2]) - 1, Number(ukDate[1]))
+    : Date.parse(value)
+  return Number.isFinite(time) ? new Date(time).toISOString() : undefined
+}
+
+function adzunaContractType(job: AdzunaApiResponse['results'][0]): JobContractType | undefined {
+  if (job.contract_type === 'contract') return 'contract'
+  return job.contract_time
+}
 
 /**
  * Normalize Adzuna job to UnifiedJob format
@@ -23,6 +42,8 @@ export function normalizeAdzunaJob(
     salaryMax: job.salary_max,
     url: job.redirect_url || '',
     source: 'adzuna',
+    contractType: adzunaContractType(job),
+    postedAt: toIsoDate(job.created),
   }
 }
 
@@ -42,27 +63,289 @@ export function normalizeReedJob(
     salaryMax: job.maximumSalary,
     url: job.jobUrl || '',
     source: 'reed',
+    contractType: parseContractType(job.jobType),
+    postedAt: toIsoDate(job.date),
+  }
+}
+
+/**
+ * Pull a min/max salary out of free text like "£25,000 - £30,000 a year"
+ */
+export function parseSalaryRange(text?: string): { salaryMin?: number; salaryMax?: number } {
+  if (!text) return {}
+  const amounts = (text.match(/£\s?\d[\d,]*(?:\.\d+)?\s?k?/gi) || [])
+    .map((raw) => {
+      const value = parseFloat(raw.replace(/[£,\s]/g, '').replace(/k$/i, ''))
+      return /k$/i.test(raw.trim()) ? value * 1000 : value
+    })
+    .filter((value) => Number.isFinite(value) && value > 0)
+  if (amounts.length === 0) return {}
+  return { salaryMin: Math.min(...amounts), salaryMax: amounts.length > 1 ? Math.max(...amounts) : undefined }
+}
+
+/**
+ * Normalize an RSS/Atom feed item (Find a Job, Civil Service Jobs, ...) to UnifiedJob format
+ */
+export function normalizeFeedJob(item: FeedItem, source: JobSource): UnifiedJob {
+  return {
+    id: `${source}_${feedItemId(item.guid)}`,
+    title: item.title || 'Untitled Job',
+    company: item.company || 'Unknown Company',
+    location: item.location || 'Location not specified',
+    description: item.description || '',
+    ...parseSalaryRange(`${item.title} ${item.description}`),
+    url: item.link || '',
+    source,
+    postedAt: toIsoDate(item.pubDate),
+  }
+}
+
+/**
+ * Normalize an NHS Jobs `<vacancyDetails>` XML block to UnifiedJob format
+ */
+export function normalizeNhsJob(vacancyXml: string): UnifiedJob {
+  const rawId = readXmlTag(vacancyXml, 'id') || readXmlTag(vacancyXml, 'reference') || ''
+  const locations = readXmlTag(vacancyXml, 'locations')
+  const location = locations ? readXmlTag(locations, 'location') : readXmlTag(vacancyXml, 'location')
+
+  return {
+    id: `nhs_${feedItemId(rawId || readXmlTag(vacancyXml, 'url') || '')}`,
+    title: readXmlTag(vacancyXml, 'title') || 'Untitled Job',
+    company: readXmlTag(vacancyXml, 'employer') || 'NHS',
+    location: location || 'Location not specified',
+    description: stripHtml(readXmlTag(vacancyXml, 'description') || ''),
+    ...parseSalaryRange(readXmlTag(vacancyXml, 'salary')),
+    url: readXmlTag(vacancyXml, 'url') || '',
+    source: 'nhs',
+    contractType: parseContractType(readXmlTag(vacancyXml, 'workingPattern') || readXmlTag(vacancyXml, 'type')),
+    postedAt: toIsoDate(readXmlTag(vacancyXml, 'postDate')),
+  }
+}
+
+/**
+ * Shape of a job in a local JSON fixture file
+ */
+export interface FixtureJob {
+  id: string | number
+  title: string
+  company?: string
+  location?: string
+  description?: string
+  salaryMin?: number
+  salaryMax?: number
+  url?: string
+  contractType?: string
+  postedAt?: string
+}
+
+/**
+ * Normalize a local fixture job to UnifiedJob format
+ */
+export function normalizeFixtureJob(job: FixtureJob, source: JobSource = 'fixture'): UnifiedJob {
+  return {
+    id: `${source}_${job.id}`,
+    title: job.title || 'Untitled Job',
+    company: job.company || 'Unknown Company',
+    location: job.location || 'Location not specified',
+    description: job.description || '',
+    salaryMin: job.salaryMin,
+    salaryMax: job.salaryMax,
+    url: job.url || '',
+    source,
+    contractType: isJobContractType(job.contractType) ? job.contractType : parseContractType(job.contractType),
+    postedAt: toIsoDate(job.postedAt),
+  }
+}
+
+/**
+ * Format salary from min/max to readable string
+ */
+export function formatSalary(min?: number, max?: number): string | undefined {
+  if (!min && !max) return undefined
+
+  const formatAmount = (amount: number) => {
+    return new Intl.NumberFormat('en-GB', {
+      style: 'currency',
+      currency: 'GBP',
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(amount)
+  }
+
+  if (min && max) {
+    return `${formatAmount(min)} - ${formatAmount(max)}`
+  } else if (min) {
+    return `From ${formatAmount(min)}`
+  } else if (max) {
+    return `Up to ${formatAmount(max)}`
+  }
+
+  return undefined
+}
+
+const COMPANY_SUFFIXES = new Set(['ltd', 'limited', 'plc', 'llp', 'llc', 'inc', 'co', 'company', 'group', 'uk'])
+const PLACEHOLDER_COMPANIES = new Set(['unknown company', 'unknown', 'confidential', ''])
+const PLACEHOLDER_LOCATIONS = new Set(['location not specified', 'uk', 'united kingdom', ''])
+
+const TITLE_STOP_WORDS = new Set([
+  'a', 'an', 'and', 'the', 'of', 'to', 'in', 'for', 'with', 'at',
+  'urgent', 'immediate', 'start', 'new', 'job', 'role', 'vacancy', 'hiring',
+])
+
+const TITLE_ABBREVIATIONS: Record<string, string> = {
+  snr: 'senior',
+  sr: 'senior',
+  jnr: 'junior',
+  jr: 'junior',
+  mgr: 'manager',
+  asst: 'assistant',
+  exec: 'executive',
+  eng: 'engineer',
+}
+
+const TITLE_SIMILARITY_THRESHOLD = 0.75
+const SALARY_OVERLAP_TOLERANCE = 0.1
+
+function toWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(Boolean)
+}
+
+/**
+ * Company name for matching: "The Example Group Ltd" -> "example"
+ */
+export function normalizeCompanyName(name: string): string {
+  const words = toWords(name)
+  while (words.length > 1 && COMPANY_SUFFIXES.has(words[words.length - 1])) words.pop()
+  if (words.length > 1 && words[0] === 'the') words.shift()
+  const normalized = words.join(' ')
+  return PLACEHOLDER_COMPANIES.has(normalized) ? '' : normalized
+}
+
+function titleTokens(title: string): Set<string> {
+  return new Set(
+    toWords(title)
+      .map((word) => TITLE_ABBREVIATIONS[word] || word)
+      .filter((word) => !TITLE_STOP_WORDS.has(word))
+  )
+}
+
+/**
+ * Dice similarity of normalized title words (0-1)
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const tokensA = titleTokens(a)
+  const tokensB = titleTokens(b)
+  if (tokensA.size === 0 || tokensB.size === 0) return 0
+  let shared = 0
+  tokensA.forEach((token) => {
+    if (tokensB.has(token)) shared++
+  })
+  return (2 * shared) / (tokensA.size + tokensB.size)
+}
+
+function companiesMatch(a: string, b: string): boolean {
+  const companyA = normalizeCompanyName(a)
+  const companyB = normalizeCompanyName(b)
+  if (!companyA || !companyB) return false
+  return companyA === companyB || companyA.startsWith(`${companyB} `) || companyB.startsWith(`${companyA} `)
+}
+
+/**
+ * "Leeds, West Yorkshire" and "Leeds" are compatible; unknown/UK-wide matches anything
+ */
+function locationsCompatible(a: string, b: string): boolean {
+  const locationA = toWords(a).join(' ')
+  const locationB = toWords(b).join(' ')
+  if (PLACEHOLDER_LOCATIONS.has(locationA) || PLACEHOLDER_LOCATIONS.has(locationB)) return true
+  const townA = toWords(a.split(',')[0]).join(' ')
+  const townB = toWords(b.split(',')[0]).join(' ')
+  return ` ${locationB} `.includes(` ${townA} `) || ` ${locationA} `.includes(` ${townB} `)
+}
+
+/**
+ * Salary ranges overlap (within a small tolerance); missing salary matches anything
+ */
+function salariesOverlap(a: UnifiedJob, b: UnifiedJob): boolean {
+  const minA = a.salaryMin ?? a.salaryMax
+  const minB = b.salaryMin ?? b.salaryMax
+  if (minA === undefined || minB === undefined) return true
+  const maxA = (a.salaryMax ?? minA) * (1 + SALARY_OVERLAP_TOLERANCE)
+  const maxB = (b.salaryMax ?? minB) * (1 + SALARY_OVERLAP_TOLERANCE)
+  return minA <= maxB && minB <= maxA
+}
+
+function exactKey(job: UnifiedJob): string {
+  return `${job.title.toLowerCase().trim()}_${job.company.toLowerCase().trim()}_${job.location.toLowerCase().trim()}`
+}
+
+function sourceLinks(job: UnifiedJob): JobSourceLink[] {
+  return job.sources || [{ source: job.source, jobId: job.id, url: job.url }]
+}
+
+/**
+ * Whether two listings are the same vacancy: identical title + company + location,
+ * or, for listings from different providers, same company (ignoring suffixes
+ * like Ltd/Limited), similar title, compatible location and overlapping salary.
+ * One provider's similar listings ("Staff Nurse - Ward 5" and "Ward 7") are
+ * separate vacancies.
+ */
+export function isSameVacancy(a: UnifiedJob, b: UnifiedJob): boolean {
+  if (exactKey(a) === exactKey(b)) return true
+  const providersA = new Set(sourceLinks(a).map((link) => link.source))
+  if (sourceLinks(b).some((link) => providersA.has(link.source))) return false
+  return (
+    companiesMatch(a.company, b.company) &&
+    titleSimilarity(a.title, b.title) >= TITLE_SIMILARITY_THRESHOLD &&
+    locationsCompatible(a.location, b.location) &&
+    salariesOverlap(a, b)
+  )
+}
+
+/**
+ * Merge a duplicate listing into the primary one, keeping every source URL
+ */
+function mergeJobs(primary: UnifiedJob, duplicate: UnifiedJob): UnifiedJob {
+  const sources = [...sourceLinks(primary)]
+  for (const link of sourceLinks(duplicate)) {
+    if (!sources.some((existing) => existing.jobId === link.jobId || (link.url && existing.url === link.url))) {
+      sources.push(link)
+    }
+  }
+
+  const hasSalary = primary.salaryMin !== undefined || primary.salaryMax !== undefined
+  const postedDates = [primary.postedAt, duplicate.postedAt].filter((date): date is string => Boolean(date)).sort()
+
+  return {
+    ...primary,
+    description: duplicate.description.length > primary.description.length ? duplicate.description : primary.description,
+    salaryMin: hasSalary ? primary.salaryMin : duplicate.salaryMin,
+    salaryMax: hasSalary ? primary.salaryMax : duplicate.salaryMax,
+    contractType: primary.contractType ?? duplicate.contractType,
+    postedAt: postedDates[0],
+    sources,
   }
 }
 
 /**
- * Remove duplicate jobs based on title + company + location
- * Keeps the first occurrence
+ * Merge listings of the same vacancy across providers (fuzzy, see isSameVacancy).
+ * The first occurrence stays primary (its id and url); `sources` lists every listing.
  */
 export function removeDuplicates(jobs: UnifiedJob[]): UnifiedJob[] {
-  const seen = new Set<string>()
   const unique: UnifiedJob[] = []
 
   for (const job of jobs) {
-    // Create a unique key from title + company + location (case-insensitive)
-    const key = `${job.title.toLowerCase().trim()}_${job.company.toLowerCase().trim()}_${job.location.toLowerCase().trim()}`
-    
-    if (!seen.has(key)) {
-      seen.add(key)
-      unique.push(job)
+    const index = unique.findIndex((existing) => isSameVacancy(existing, job))
+    if (index === -1) {
+      unique.push({ ...job, sources: sourceLinks(job) })
+    } else {
+      unique[index] = mergeJobs(unique[index], job)
     }
   }
 
   return unique
 }
-
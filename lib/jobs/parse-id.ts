@@ -1,9 +1,11 @@
 /**
  * Parse provider-prefixed job IDs
- * Examples: reed_56185817, adzuna_123456789
+ * Examples: reed_56185817, adzuna_123456789, nhs_C9123-24-0001
  */
 
-export type JobProvider = 'reed' | 'adzuna'
+import type { JobSource } from './types'
+
+export type JobProvider = JobSource
 
 export interface ParsedJobId {
   provider: JobProvider
@@ -21,21 +23,12 @@ export function parseJobId(jobId: string): ParsedJobId {
     throw new Error('Job ID is required')
   }
 
-  // Check if ID has provider prefix
-  const reedMatch = jobId.match(/^reed_(.+)$/i)
-  if (reedMatch) {
+  // Provider prefix: lowercase id (letters, digits, dashes) before the first underscore
+  const prefixMatch = jobId.match(/^([a-z][a-z0-9-]*)_(.+)$/i)
+  if (prefixMatch) {
     return {
-      provider: 'reed',
-      rawId: reedMatch[1],
-      fullId: jobId,
-    }
-  }
-
-  const adzunaMatch = jobId.match(/^adzuna_(.+)$/i)
-  if (adzunaMatch) {
-    return {
-      provider: 'adzuna',
-      rawId: adzunaMatch[1],
+      provider: prefixMatch[1].toLowerCase(),
+      rawId: prefixMatch[2],
       fullId: jobId,
     }
   }
@@ -48,3 +41,13 @@ export function parseJobId(jobId: string): ParsedJobId {
   }
 }
 
+/**
+ * sessionStorage key used to hand a search result over to the job details page
+ * (e.g. "adzuna_job_123"). Reed jobs are always re-fetched by id, so they have none.
+ */
+export function getJobSessionCacheKey(jobId: string | undefined): string | null {
+  if (!jobId) return null
+  const { provider, rawId, fullId } = parseJobId(jobId)
+  if (provider === 'reed' || fullId !== jobId) return null
+  return `${provider}_job_${rawId}`
+}
@@ -0,0 +1,22 @@
+/**
+ * Adzuna provider (registry adapter over lib/jobs/adzuna.ts)
+ */
+
+import type { JobProvider } from '../types'
+import { fetchAdzunaJobs } from '../adzuna'
+import { normalizeAdzunaJob } from '../normalize'
+
+export const adzunaProvider: JobProvider = {
+  id: 'adzuna',
+  label: 'Adzuna',
+  supportedFilters: ['salaryMin', 'salaryMax', 'contractType', 'radiusMiles', 'postedWithinDays', 'sortBy'],
+  getConfigError() {
+    return process.env.ADZUNA_APP_ID && process.env.ADZUNA_APP_KEY
+      ? null
+      : 'Missing Adzuna API credentials (ADZUNA_APP_ID or ADZUNA_APP_KEY)'
+  },
+  async search(params) {
+    const results = await fetchAdzunaJobs(params)
+    return results.map(normalizeAdzunaJob)
+  },
+}
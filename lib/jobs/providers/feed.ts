@@ -0,0 +1,61 @@
+/**
+ * RSS/Atom feed providers
+ * Find a Job (DWP) and Civil Service Jobs publish search results as feeds.
+ * The feed URL is a template read from the environment, e.g.
+ * DWP_FIND_A_JOB_FEED_URL="https://findajob.dwp.gov.uk/search.rss?q={keyword}&w={location}&p={page}"
+ * Feeds have no single-job lookup, so getById only finds jobs from a recent search.
+ */
+
+import type { JobProvider, JobSource } from '../types'
+import { buildFeedUrl, parseFeedItems } from '../feed'
+import { normalizeFeedJob } from '../normalize'
+import { assertNotRateLimited } from '../rate-limit'
+import { createListingCache } from '../cache'
+
+export function createFeedJobProvider(options: { id: JobSource; label: string; feedUrlEnv: string }): JobProvider {
+  const listings = createListingCache()
+
+  return {
+    id: options.id,
+    label: options.label,
+    getConfigError() {
+      return process.env[options.feedUrlEnv] ? null : `Missing feed URL (${options.feedUrlEnv})`
+    },
+    async search(params) {
+      const template = process.env[options.feedUrlEnv]
+      if (!template) {
+        throw new Error(`Missing feed URL (${options.feedUrlEnv})`)
+      }
+
+      const response = await fetch(buildFeedUrl(template, params), {
+        headers: { Accept: 'application/rss+xml, application/atom+xml, application/xml, text/xml' },
+      })
+
+      assertNotRateLimited(response, options.id)
+
+      if (!response.ok) {
+        throw new Error(`${options.label} feed error: ${response.status} ${response.statusText}`)
+      }
+
+      const xml = await response.text()
+      const jobs = parseFeedItems(xml).map((item) => normalizeFeedJob(item, options.id))
+      listings.remember(jobs)
+      return jobs
+    },
+    async getById(rawId) {
+      return listings.find(`${options.id}_${rawId}`)
+    },
+  }
+}
+
+export const dwpFindAJobProvider = createFeedJobProvider({
+  id: 'dwp',
+  label: 'Find a Job (DWP)',
+  feedUrlEnv: 'DWP_FIND_A_JOB_FEED_URL',
+})
+
+export const civilServiceJobsProvider = createFeedJobProvider({
+  id: 'civil-service',
+  label: 'Civil Service Jobs',
+  feedUrlEnv: 'CIVIL_SERVICE_JOBS_FEED_URL',
+})
@@ -0,0 +1,62 @@
+/**
+ * Local fixture provider
+ * Serves jobs from a JSON array (FixtureJob[]) or an RSS/Atom file on disk,
+ * for offline development and demos. Path from JOB_FIXTURE_PATH, relative
+ * to the project root.
+ */
+
+import { readFile } from 'fs/promises'
+import path from 'path'
+import type { JobProvider, UnifiedJob } from '../types'
+import { parseFeedItems } from '../feed'
+import { normalizeFeedJob, normalizeFixtureJob, type FixtureJob } from '../normalize'
+
+const DEFAULT_FIXTURE_PATH = 'lib/jobs/fixtures/jobs.json'
+// Same page size as the Reed and Adzuna searches
+const PAGE_SIZE = 20
+
+async function loadFixtureJobs(): Promise<UnifiedJob[]> {
+  const filePath = path.resolve(process.cwd(), process.env.JOB_FIXTURE_PATH || DEFAULT_FIXTURE_PATH)
+  const content = await readFile(filePath, 'utf8')
+
+  if (/\.json$/i.test(filePath)) {
+    const parsed = JSON.parse(content)
+    const jobs: FixtureJob[] = Array.isArray(parsed) ? parsed : parsed.jobs || []
+    return jobs.map((job) => normalizeFixtureJob(job))
+  }
+
+  return parseFeedItems(content).map((item) => normalizeFeedJob(item, 'fixture'))
+}
+
+function matches(text: string, query?: string): boolean {
+  if (!query || query.trim().toUpperCase() === 'UK') return true
+  const haystack = text.toLowerCase()
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((term) => haystack.includes(term))
+}
+
+export const fixtureProvider: JobProvider = {
+  id: 'fixture',
+  label: 'Local fixture',
+  getConfigError() {
+    return null
+  },
+  async search(params) {
+    const jobs = await loadFixtureJobs()
+    const page = Math.max(1, params.page || 1)
+    return jobs
+      .filter(
+        (job) =>
+          matches(`${job.title} ${job.company} ${job.description}`, params.keyword) &&
+          matches(job.location, params.location)
+      )
+      .slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE)
+  },
+  async getById(rawId) {
+    const jobs = await loadFixtureJobs()
+    return jobs.find((job) => job.id === `fixture_${rawId}`) || null
+  },
+}
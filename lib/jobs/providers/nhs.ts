@@ -0,0 +1,50 @@
+/**
+ * NHS Jobs provider
+ * Reads the NHS Jobs XML search API (`<vacancyDetails>` blocks).
+ * getById only finds vacancies returned by a recent search.
+ */
+
+import type { JobProvider } from '../types'
+import { extractXmlBlocks } from '../feed'
+import { normalizeNhsJob } from '../normalize'
+import { assertNotRateLimited } from '../rate-limit'
+import { createListingCache } from '../cache'
+
+const DEFAULT_NHS_JOBS_API_URL = 'https://www.jobs.nhs.uk/api/v1/search_xml'
+
+// The XML API has no single-vacancy lookup, so details come from recent searches
+const listings = createListingCache()
+
+export const nhsJobsProvider: JobProvider = {
+  id: 'nhs',
+  label: 'NHS Jobs',
+  getConfigError() {
+    return null
+  },
+  async search(params) {
+    const url = new URL(process.env.NHS_JOBS_API_URL || DEFAULT_NHS_JOBS_API_URL)
+    url.searchParams.set('keyword', params.keyword.trim())
+    if (params.location && params.location.toUpperCase() !== 'UK') {
+      url.searchParams.set('location', params.location)
+    }
+    url.searchParams.set('page', String(params.page || 1))
+
+    const response = await fetch(url.toString(), {
+      headers: { Accept: 'application/xml, text/xml' },
+    })
+
+    assertNotRateLimited(response, 'nhs')
+
+    if (!response.ok) {
+      throw new Error(`NHS Jobs API error: ${response.status} ${response.statusText}`)
+    }
+
+    const xml = await response.text()
+    const jobs = extractXmlBlocks(xml, 'vacancyDetails').map(normalizeNhsJob)
+    listings.remember(jobs)
+    return jobs
+  },
+  async getById(rawId) {
+    return listings.find(`nhs_${rawId}`)
+  },
+}
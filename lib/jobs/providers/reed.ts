@@ -0,0 +1,20 @@
+/**
+ * Reed provider (registry adapter over lib/jobs/reed.ts)
+ */
+
+import type { JobProvider } from '../types'
+import { fetchReedJobs } from '../reed'
+import { normalizeReedJob } from '../normalize'
+
+export const reedProvider: JobProvider = {
+  id: 'reed',
+  label: 'Reed',
+  supportedFilters: ['salaryMin', 'salaryMax', 'contractType', 'radiusMiles'],
+  getConfigError() {
+    return process.env.REED_API_KEY ? null : 'Missing Reed API credentials (REED_API_KEY)'
+  },
+  async search(params) {
+    const results = await fetchReedJobs(params)
+    return results.map(normalizeReedJob)
+  },
+}
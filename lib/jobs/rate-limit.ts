@@ -0,0 +1,82 @@
+/**
+ * Provider rate-limit protection
+ * When a provider answers 429 we stop calling it for a while (Retry-After when
+ * given, otherwise exponential backoff) and serve cached results instead.
+ * State is per server instance.
+ */
+
+import type { JobSource } from './types'
+
+const BASE_BACKOFF_MS = 30 * 1000
+const MAX_BACKOFF_MS = 15 * 60 * 1000
+
+export class ProviderRateLimitError extends Error {
+  readonly provider: JobSource
+  readonly retryAfterMs?: number
+
+  constructor(provider: JobSource, retryAfterMs?: number) {
+    super(`${provider} rate limit reached (429)`)
+    this.name = 'ProviderRateLimitError'
+    this.provider = provider
+    this.retryAfterMs = retryAfterMs
+  }
+}
+
+/**
+ * Retry-After header (seconds or HTTP date) in ms
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  return Number.isFinite(date) ? Math.max(0, date - Date.now()) : undefined
+}
+
+/**
+ * Throw ProviderRateLimitError for a 429 response
+ */
+export function assertNotRateLimited(response: Response, provider: JobSource): void {
+  if (response.status === 429) {
+    throw new ProviderRateLimitError(provider, parseRetryAfter(response.headers.get('retry-after')))
+  }
+}
+
+const backoff = new Map<JobSource, { until: number; strikes: number }>()
+
+export function noteProviderRateLimited(provider: JobSource, retryAfterMs?: number): void {
+  const strikes = (backoff.get(provider)?.strikes || 0) + 1
+  const exponential = Math.min(BASE_BACKOFF_MS * 2 ** (strikes - 1), MAX_BACKOFF_MS)
+  const delayMs = Math.min(retryAfterMs ?? exponential, MAX_BACKOFF_MS)
+  backoff.set(provider, { until: Date.now() + delayMs, strikes })
+  console.warn(`[Job Providers] ${provider} rate limited, backing off for ${Math.round(delayMs / 1000)}s`)
+}
+
+export function noteProviderSuccess(provider: JobSource): void {
+  backoff.delete(provider)
+}
+
+/**
+ * Remaining backoff for a provider (0 when it can be called)
+ */
+export function getProviderBackoffMs(provider: JobSource): number {
+  const state = backoff.get(provider)
+  if (!state) return 0
+  return Math.max(0, state.until - Date.now())
+}
+
+/**
+ * Run a provider call, recording success or a 429 for backoff
+ */
+export async function withRateLimitTracking<T>(provider: JobSource, call: () => Promise<T>): Promise<T> {
+  try {
+    const result = await call()
+    noteProviderSuccess(provider)
+    return result
+  } catch (error) {
+    if (error instanceof ProviderRateLimitError) {
+      noteProviderRateLimited(provider, error.retryAfterMs)
+    }
+    throw error
+  }
+}
@@ -4,7 +4,10 @@
  * No UI logic, just data fetching
  */
 
-export interface ReedSearchParams {
+import type { JobSearchFilters } from './types'
+import { assertNotRateLimited } from './rate-limit'
+
+export interface ReedSearchParams extends JobSearchFilters {
   keyword: string
   location?: string
   page?: number
@@ -20,7 +23,7 @@ export interface ReedApiResponse {
     jobUrl: string
     minimumSalary?: number
     maximumSalary?: number
-    date?: string
+    date?: string // dd/mm/yyyy
     jobType?: string
   }>
   totalResults: number
@@ -57,6 +60,15 @@ export async function fetchReedJobs(
   url.searchParams.set('resultsToTake', '20')
   url.searchParams.set('resultsToSkip', String((page - 1) * 20))
 
+  // Optional filters (Reed has no posted-date or sort options; applied after fetch)
+  if (params.salaryMin) url.searchParams.set('minimumSalary', String(params.salaryMin))
+  if (params.salaryMax) url.searchParams.set('maximumSalary', String(params.salaryMax))
+  if (params.contractType === 'full_time') url.searchParams.set('fullTime', 'true')
+  if (params.contractType === 'part_time') url.searchParams.set('partTime', 'true')
+  if (params.contractType === 'contract') url.searchParams.set('contract', 'true')
+  if (params.contractType === 'temporary') url.searchParams.set('temp', 'true')
+  if (params.radiusMiles) url.searchParams.set('distanceFromLocation', String(params.radiusMiles))
+
   try {
     const response = await fetch(url.toString(), {
       method: 'GET',
@@ -66,6 +78,8 @@ export async function fetchReedJobs(
       },
     })
 
+    assertNotRateLimited(response, 'reed')
+
     if (!response.ok) {
       const errorText = await response.text()
       console.error('Reed API error:', response.status, response.statusText, errorText)
@@ -0,0 +1,193 @@
+/**
+ * Job Provider Registry
+ * Providers register here and are enabled through config:
+ *   JOB_PROVIDERS="adzuna,reed,nhs"   (comma-separated ids; default: adzuna,reed)
+ *   JOB_PROVIDER_TIMEOUT_MS=8000      (per-provider timeout; default: 10000)
+ * Searches fan out to every enabled provider and report health and timing per provider.
+ * Provider results are cached (lib/jobs/cache.ts) and providers that return 429
+ * are backed off (lib/jobs/rate-limit.ts), serving cached results meanwhile.
+ */
+
+import type { JobProvider, JobProviderStatus, JobSearchParams, JobSource, UnifiedJob } from './types'
+import { adzunaProvider } from './providers/adzuna'
+import { reedProvider } from './providers/reed'
+import { nhsJobsProvider } from './providers/nhs'
+import { dwpFindAJobProvider, civilServiceJobsProvider } from './providers/feed'
+import { fixtureProvider } from './providers/fixture'
+import { applyJobFilters } from './filters'
+import { createSwrCache, searchCacheKey } from './cache'
+import { getProviderBackoffMs, ProviderRateLimitError, withRateLimitTracking } from './rate-limit'
+
+const DEFAULT_ENABLED_PROVIDERS: JobSource[] = ['adzuna', 'reed']
+const DEFAULT_PROVIDER_TIMEOUT_MS = 10000
+
+const providers = new Map<JobSource, JobProvider>()
+
+const searchCache = createSwrCache<UnifiedJob[]>('search')
+
+/**
+ * Register (or replace) a provider by id
+ */
+export function registerJobProvider(provider: JobProvider): void {
+  providers.set(provider.id, provider)
+}
+
+export function getJobProvider(id: JobSource): JobProvider | undefined {
+  return providers.get(id)
+}
+
+export function listJobProviders(): JobProvider[] {
+  return Array.from(providers.values())
+}
+
+/**
+ * Provider ids enabled by JOB_PROVIDERS, in config order
+ */
+export function getEnabledJobProviderIds(): JobSource[] {
+  const configured = process.env.JOB_PROVIDERS
+  if (!configured?.trim()) return DEFAULT_ENABLED_PROVIDERS
+
+  return Array.from(
+    new Set(
+      configured
+        .split(',')
+        .map((id) => id.trim().toLowerCase())
+        .filter(Boolean)
+    )
+  )
+}
+
+function getProviderTimeoutMs(): number {
+  const value = parseInt(process.env.JOB_PROVIDER_TIMEOUT_MS || '', 10)
+  return Number.isFinite(value) && value > 0 ? value : DEFAULT_PROVIDER_TIMEOUT_MS
+}
+
+class ProviderTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Timed out after ${ms}ms`)
+    this.name = 'ProviderTimeoutError'
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+  let timer: NodeJS.Timeout | undefined
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new ProviderTimeoutError(ms)), ms)
+  })
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer))
+}
+
+/**
+ * Run one provider and capture its health/timing; never throws.
+ * Filters the provider can't apply upstream are applied to its results here.
+ */
+async function runProvider(
+  id: JobSource,
+  params: JobSearchParams,
+  timeoutMs: number
+): Promise<{ jobs: UnifiedJob[]; status: JobProviderStatus }> {
+  const provider = providers.get(id)
+  if (!provider) {
+    return {
+      jobs: [],
+      status: { id, label: id, status: 'skipped', count: 0, durationMs: 0, error: 'Unknown provider' },
+    }
+  }
+
+  const configError = provider.getConfigError()
+  if (configError) {
+    return {
+      jobs: [],
+      status: { id, label: provider.label, status: 'skipped', count: 0, durationMs: 0, error: configError },
+    }
+  }
+
+  const cacheKey = `${id}:${searchCacheKey(params)}`
+  const startedAt = Date.now()
+
+  // While backing off after a 429, only cached results are served
+  const backoffMs = getProviderBackoffMs(id)
+  if (backoffMs > 0) {
+    const cached = searchCache.peek(cacheKey)
+    return {
+      jobs: cached || [],
+      status: {
+        id,
+        label: provider.label,
+        status: cached ? 'ok' : 'rate_limited',
+        count: cached?.length || 0,
+        durationMs: 0,
+        cached: Boolean(cached),
+        error: cached ? undefined : `Rate limited, retrying in ${Math.ceil(backoffMs / 1000)}s`,
+      },
+    }
+  }
+
+  try {
+    const { value: jobs, status: cacheStatus } = await searchCache.get(cacheKey, async () => {
+      const results = await withRateLimitTracking(id, () => withTimeout(provider.search(params), timeoutMs))
+      return applyJobFilters(results, params, provider.supportedFilters)
+    })
+    return {
+      jobs,
+      status: {
+        id,
+        label: provider.label,
+        status: 'ok',
+        count: jobs.length,
+        durationMs: Date.now() - startedAt,
+        cached: cacheStatus !== 'miss',
+      },
+    }
+  } catch (error) {
+    console.error(`${provider.label} provider error:`, error)
+
+    // Rate limited with an expired entry still around: better than nothing
+    const expired = error instanceof ProviderRateLimitError ? searchCache.peek(cacheKey) : undefined
+    if (expired) {
+      return {
+        jobs: expired,
+        status: { id, label: provider.label, status: 'ok', count: expired.length, durationMs: Date.now() - startedAt, cached: true },
+      }
+    }
+
+    const status: JobProviderStatus['status'] =
+      error instanceof ProviderTimeoutError ? 'timeout' : error instanceof ProviderRateLimitError ? 'rate_limited' : 'error'
+    return {
+      jobs: [],
+      status: {
+        id,
+        label: provider.label,
+        status,
+        count: 0,
+        durationMs: Date.now() - startedAt,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+    }
+  }
+}
+
+/**
+ * Search every enabled provider in parallel.
+ * Jobs come back in provider config order; failing providers only show up in `providers`.
+ */
+export async function searchJobProviders(
+  params: JobSearchParams,
+  providerIds: JobSource[] = getEnabledJobProviderIds()
+): Promise<{ jobs: UnifiedJob[]; providers: JobProviderStatus[] }> {
+  const timeoutMs = getProviderTimeoutMs()
+  const results = await Promise.all(providerIds.map((id) => runProvider(id, params, timeoutMs)))
+
+  return {
+    jobs: results.flatMap((result) => result.jobs),
+    providers: results.map((result) => result.status),
+  }
+}
+
+// Built-in providers
+registerJobProvider(adzunaProvider)
+registerJobProvider(reedProvider)
+registerJobProvider(dwpFindAJobProvider)
+registerJobProvider(nhsJobsProvider)
+registerJobProvider(civilServiceJobsProvider)
+registerJobProvider(fixtureProvider)
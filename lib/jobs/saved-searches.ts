@@ -0,0 +1,120 @@
+/**
+ * Saved Job Searches
+ * Row mappers and helpers shared by the /api/jobs/saved-searches/* routes,
+ * the job finder and the dashboard. Searches are stored in Supabase
+ * (saved_searches, saved_search_matches).
+ */
+
+import type { JobSearchFilters } from './types'
+import { parseJobSearchFilters, setJobSearchFilterParams } from './filters'
+
+/**
+ * Cap on remembered job ids per search (oldest dropped first)
+ */
+export const MAX_SEEN_JOB_IDS = 500
+
+export interface SavedSearch {
+  id: string
+  name: string
+  keyword: string
+  location: string
+  filters: JobSearchFilters
+  alertsEnabled: boolean
+  lastRunAt?: string
+  createdAt: string
+  newMatchCount: number
+}
+
+/**
+ * Job as returned by /api/jobs/search, stored with the match
+ */
+export interface SavedSearchMatchJob {
+  id: string
+  title: string
+  company: string
+  location: string
+  description?: string
+  type?: string
+  link?: string
+  salary?: string
+  source?: string
+  sources?: Array<{ source: string; label?: string; jobId: string; url: string }>
+}
+
+export interface SavedSearchMatch {
+  id: string
+  savedSearchId: string
+  searchName?: string
+  jobId: string
+  job: SavedSearchMatchJob
+  foundAt: string
+  seenAt?: string
+}
+
+/**
+ * Validate stored filters (same rules as the search URL)
+ */
+export function normalizeSavedSearchFilters(filters: unknown): JobSearchFilters {
+  if (!filters || typeof filters !== 'object') return {}
+  const params = setJobSearchFilterParams(new URLSearchParams(), filters as JobSearchFilters)
+  return parseJobSearchFilters(params)
+}
+
+export function toSavedSearch(row: any, newMatchCount = 0): SavedSearch {
+  return {
+    id: row.id,
+    name: row.name,
+    keyword: row.keyword,
+    location: row.location || 'UK',
+    filters: normalizeSavedSearchFilters(row.filters),
+    alertsEnabled: row.alerts_enabled !== false,
+    lastRunAt: row.last_run_at || undefined,
+    createdAt: row.created_at,
+    newMatchCount,
+  }
+}
+
+export function toSavedSearchMatch(row: any): SavedSearchMatch {
+  return {
+    id: row.id,
+    savedSearchId: row.saved_search_id,
+    searchName: row.saved_searches?.name || undefined,
+    jobId: row.job_id,
+    job: row.job || { id: row.job_id, title: 'Untitled Job', company: '', location: '' },
+    foundAt: row.found_at,
+    seenAt: row.seen_at || undefined,
+  }
+}
+
+/**
+ * Query string for /api/jobs/search that reproduces a saved search
+ */
+export function buildSavedSearchQuery(search: Pick<SavedSearch, 'keyword' | 'location' | 'filters'>): URLSearchParams {
+  const params = new URLSearchParams()
+  params.set('keyword', search.keyword)
+  params.set('location', search.location || 'UK')
+  return setJobSearchFilterParams(params, search.filters)
+}
+
+/**
+ * Every id a search result is known by: its own and those of the provider
+ * listings merged into it (a vacancy can come back under another provider's id)
+ */
+export function getSavedSearchJobIds(job: { id: string; sources?: Array<{ jobId: string }> }): string[] {
+  return Array.from(new Set([job.id, ...(job.sources || []).map((link) => link.jobId)].filter(Boolean)))
+}
+
+/**
+ * Split search results into jobs not seen before (under any of their ids) and
+ * the updated seen list (newest ids first, capped at MAX_SEEN_JOB_IDS)
+ */
+export function diffSavedSearchResults<T extends { id: string; sources?: Array<{ jobId: string }> }>(
+  results: T[],
+  seenJobIds: string[]
+): { newJobs: T[]; seenJobIds: string[] } {
+  const seen = new Set(seenJobIds)
+  const newJobs = results.filter((job) => job.id && !getSavedSearchJobIds(job).some((id) => seen.has(id)))
+  const resultIds = results.flatMap(getSavedSearchJobIds)
+  const merged = Array.from(new Set([...resultIds, ...seenJobIds])).slice(0, MAX_SEEN_JOB_IDS)
+  return { newJobs, seenJobIds: merged }
+}
@@ -0,0 +1,67 @@
+/**
+ * Unified Job Search
+ * The pipeline behind /api/jobs/search and /api/search-jobs: query every
+ * enabled provider, merge duplicate vacancies, sort, and map to the result
+ * format the frontend expects.
+ */
+
+import { formatSalary, removeDuplicates } from './normalize'
+import { getJobProvider, searchJobProviders } from './registry'
+import { JOB_CONTRACT_TYPE_LABELS, sortJobs } from './filters'
+import type { JobContractType, JobProviderStatus, JobSearchParams, JobSource, UnifiedJob } from './types'
+
+export interface JobSearchResult {
+  id: string
+  title: string
+  company: string
+  location: string
+  description: string
+  type: string
+  contract?: JobContractType
+  link: string
+  salary?: string
+  salaryMin?: number
+  salaryMax?: number
+  created?: string
+  source: JobSource
+  sources: Array<{ source: JobSource; label: string; jobId: string; url: string }>
+}
+
+export function toJobSearchResult(job: UnifiedJob): JobSearchResult {
+  return {
+    id: job.id,
+    title: job.title,
+    company: job.company,
+    location: job.location,
+    description: job.description,
+    type: job.contractType ? JOB_CONTRACT_TYPE_LABELS[job.contractType] : 'Not specified',
+    contract: job.contractType,
+    link: job.url,
+    salary: formatSalary(job.salaryMin, job.salaryMax),
+    salaryMin: job.salaryMin,
+    salaryMax: job.salaryMax,
+    created: job.postedAt,
+    source: job.source,
+    sources: (job.sources || []).map((link) => ({
+      source: link.source,
+      label: getJobProvider(link.source)?.label || link.source,
+      jobId: link.jobId,
+      url: link.url,
+    })),
+  }
+}
+
+/**
+ * Search every enabled provider. Listings of the same vacancy on several
+ * providers are merged into one result whose `sources` holds every provider URL.
+ */
+export async function runJobSearch(
+  params: JobSearchParams
+): Promise<{ results: JobSearchResult[]; providers: JobProviderStatus[] }> {
+  const { jobs, providers } = await searchJobProviders(params)
+
+  // Merge the same vacancy across providers (fuzzy match), then sort the merged list
+  const uniqueJobs = sortJobs(removeDuplicates(jobs), params.sortBy)
+
+  return { results: uniqueJobs.map(toJobSearchResult), providers }
+}
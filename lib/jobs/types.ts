@@ -3,8 +3,27 @@
  * Standard format for all job providers
  */
 
+/**
+ * Provider id of a registered job provider, e.g. 'adzuna', 'reed', 'nhs'
+ * (see lib/jobs/registry.ts)
+ */
+export type JobSource = string
+
+export type JobContractType = 'full_time' | 'part_time' | 'contract' | 'temporary'
+
+export type JobSortOrder = 'relevance' | 'date' | 'salary'
+
+/**
+ * One listing of a vacancy on a provider (a deduplicated job can have several)
+ */
+export interface JobSourceLink {
+  source: JobSource
+  jobId: string
+  url: string
+}
+
 export type UnifiedJob = {
-  id: string
+  id: string // `${source}_${rawId}`
   title: string
   company: string
   location: string
@@ -12,15 +31,61 @@ export type UnifiedJob = {
   salaryMin?: number
   salaryMax?: number
   url: string
-  source: 'adzuna' | 'reed'
+  source: JobSource
+  contractType?: JobContractType
+  postedAt?: string // ISO date
+  sources?: JobSourceLink[] // every listing merged into this job (see removeDuplicates)
+}
+
+/**
+ * Optional search filters (see lib/jobs/filters.ts for URL parsing and post-filtering)
+ */
+export interface JobSearchFilters {
+  salaryMin?: number
+  salaryMax?: number
+  contractType?: JobContractType
+  radiusMiles?: number
+  postedWithinDays?: number
+  sortBy?: JobSortOrder
 }
 
 /**
  * Search parameters for job providers
  */
-export interface JobSearchParams {
+export interface JobSearchParams extends JobSearchFilters {
   keyword: string
   location?: string
   page?: number
 }
 
+/**
+ * A job source that can be plugged into the registry.
+ * `search` returns jobs already normalized to UnifiedJob (see lib/jobs/normalize.ts).
+ */
+export interface JobProvider {
+  id: JobSource
+  label: string
+  /** Returns a reason when the provider can't run (e.g. missing credentials) */
+  getConfigError(): string | null
+  search(params: JobSearchParams): Promise<UnifiedJob[]>
+  /**
+   * Filters the provider applies upstream; the registry post-filters
+   * results for the rest (radius can only be applied upstream)
+   */
+  supportedFilters?: Array<keyof JobSearchFilters>
+  /** Optional single-job lookup by raw (unprefixed) id for /api/jobs/[id] */
+  getById?(rawId: string): Promise<UnifiedJob | null>
+}
+
+/**
+ * Per-provider health and timing for one search
+ */
+export interface JobProviderStatus {
+  id: JobSource
+  label: string
+  status: 'ok' | 'error' | 'timeout' | 'skipped' | 'rate_limited'
+  count: number
+  durationMs: number
+  cached?: boolean // served from the search cache (see lib/jobs/cache.ts)
+  error?: string
+}
@@ -0,0 +1,393 @@
+/**
+ * Job-description keyword coverage
+ * Pulls the skills, tools, qualifications and soft skills a job description
+ * asks for and reports which CV sections mention each of them. Known terms
+ * come from a phrase dictionary, so "forklift licence" or "SIA badge" stay
+ * one keyword and synonyms ("FLT licence", "MS Excel", "customer care")
+ * count as the same thing. Anything else the JD keeps repeating is picked up
+ * with the keyword logic in lib/job-matching.ts.
+ */
+
+import type { CvData } from '@/lib/cv-schema'
+import { rankJobKeywords } from '@/lib/job-matching'
+import { toAscii } from '@/lib/cv-plaintext'
+import { withoutHiddenSections } from '@/lib/cv-sections'
+
+export type KeywordCategory = 'skill' | 'tool' | 'qualification' | 'softSkill'
+
+export type CoverageSection = 'summary' | 'experience' | 'education' | 'skills' | 'projects' | 'certifications' | 'languages' | 'publications' | 'customSections'
+
+export interface CoverageKeyword {
+  /** Display form, e.g. "Forklift licence" */
+  term: string
+  category: KeywordCategory
+  present: boolean
+  /** CV sections that mention the keyword (or one of its synonyms) */
+  sections: CoverageSection[]
+}
+
+export interface CoverageSectionReport {
+  section: CoverageSection
+  label: string
+  present: string[]
+  missing: string[]
+}
+
+export interface KeywordCoverageReport {
+  /** 0-100, weighted by category; 0 when no keywords were found */
+  score: number
+  keywords: CoverageKeyword[]
+  /** Only the sections the CV has content in */
+  bySection: CoverageSectionReport[]
+  missing: string[]
+}
+
+interface KeywordDefinition {
+  term: string
+  category: KeywordCategory
+  /** Lowercase phrases that mean the same thing; the term itself is always included */
+  aliases?: string[]
+  /** Phrases too ambiguous to read from a JD ("excel in", "till 5pm") that still count on a CV */
+  cvAliases?: string[]
+}
+
+export const KEYWORD_CATEGORY_LABELS: Record<KeywordCategory, string> = {
+  skill: 'Skills',
+  tool: 'Tools',
+  qualification: 'Qualifications',
+  softSkill: 'Soft skills',
+}
+
+export const COVERAGE_SECTION_LABELS: Record<CoverageSection, string> = {
+  summary: 'Summary',
+  experience: 'Experience',
+  education: 'Education',
+  skills: 'Skills',
+  projects: 'Projects',
+  certifications: 'Certifications',
+  languages: 'Languages',
+  publications: 'Publications',
+  customSections: 'Other sections',
+}
+
+// Qualifications and licences are usually hard requirements, soft skills rarely are
+const CATEGORY_WEIGHTS: Record<KeywordCategory, number> = {
+  qualification: 3,
+  tool: 2,
+  skill: 2,
+  softSkill: 1,
+}
+
+const KEYWORDS: KeywordDefinition[] = [
+  // Qualifications, licences and checks
+  { term: 'Forklift licence', category: 'qualification', aliases: ['flt licence', 'forklift certificate', 'forklift truck licence', 'counterbalance licence', 'reach truck licence', 'rtitb', 'forklift certified'] },
+  { term: 'SIA badge', category: 'qualification', aliases: ['sia licence', 'sia door supervisor licence', 'sia security licence', 'sia card', 'sia licenced', 'sia licensed'] },
+  { term: 'CSCS card', category: 'qualification', aliases: ['cscs'] },
+  { term: 'CPCS card', category: 'qualification', aliases: ['cpcs'] },
+  { term: 'Driving licence', category: 'qualification', aliases: ['full uk driving licence', 'clean driving licence', 'full driving licence', 'uk driving licence', 'valid driving licence'] },
+  { term: 'HGV licence', category: 'qualification', aliases: ['hgv', 'class 1 licence', 'class 2 licence', 'cat c licence', 'c+e licence', 'lgv licence'] },
+  { term: 'Driver CPC', category: 'qualification', aliases: ['cpc card', 'driver cpc card'] },
+  { term: 'IPAF', category: 'qualification', aliases: ['ipaf licence', 'ipaf card'] },
+  { term: 'PASMA', category: 'qualification', aliases: ['pasma card'] },
+  { term: 'DBS check', category: 'qualification', aliases: ['enhanced dbs', 'dbs', 'dbs certificate', 'crb check'] },
+  { term: 'First aid', category: 'qualification', aliases: ['first aid certificate', 'first aid at work', 'emergency first aid', 'first aider'] },
+  { term: 'Food hygiene certificate', category: 'qualification', aliases: ['food hygiene', 'food safety certificate', 'level 2 food hygiene', 'level 2 food safety', 'food safety and hygiene'] },
+  { term: 'Care Certificate', category: 'qualification' },
+  { term: 'NVQ', category: 'qualification', aliases: ['nvq level 2', 'nvq level 3', 'level 2 nvq', 'level 3 nvq', 'qcf', 'rqf'] },
+  { term: 'Degree', category: 'qualification', aliases: ["bachelor's degree", 'bachelors degree', 'bsc', 'ba hons', 'university degree', 'undergraduate degree'] },
+  { term: "Master's degree", category: 'qualification', aliases: ['masters degree', 'msc', 'mba'] },
+  { term: 'GCSE English and Maths', category: 'qualification', aliases: ['gcse maths and english', 'gcse english', 'gcse maths', 'gcses'] },
+  { term: 'CompTIA Security+', category: 'qualification', aliases: ['security+', 'comptia security'] },
+  { term: 'CISSP', category: 'qualification' },
+  { term: 'PRINCE2', category: 'qualification' },
+  { term: 'ITIL', category: 'qualification' },
+  { term: 'CIPD', category: 'qualification' },
+  { term: 'AAT', category: 'qualification' },
+  { term: 'ACCA', category: 'qualification', aliases: ['cima'] },
+
+  // Tools and technologies
+  { term: 'Microsoft Office', category: 'tool', aliases: ['ms office', 'office 365', 'microsoft 365', 'm365'] },
+  { term: 'Microsoft Excel', category: 'tool', aliases: ['ms excel', 'excel spreadsheets', 'spreadsheets', 'spreadsheet', 'advanced excel'], cvAliases: ['excel'] },
+  { term: 'Microsoft Word', category: 'tool', aliases: ['ms word', 'word processing'], cvAliases: ['word'] },
+  { term: 'Microsoft Outlook', category: 'tool', aliases: ['ms outlook'], cvAliases: ['outlook'] },
+  { term: 'Microsoft Teams', category: 'tool', aliases: ['ms teams'] },
+  { term: 'Salesforce', category: 'tool' },
+  { term: 'SAP', category: 'tool' },
+  { term: 'CRM systems', category: 'tool', aliases: ['crm', 'crm system', 'crm software'] },
+  { term: 'EPOS / till', category: 'tool', aliases: ['epos', 'till operation', 'till work', 'pos system', 'point of sale'], cvAliases: ['till', 'tills'] },
+  { term: 'RF scanner', category: 'tool', aliases: ['handheld scanner', 'hand held scanner', 'rf gun', 'barcode scanner'] },
+  { term: 'Warehouse management system', category: 'tool', aliases: ['wms'] },
+  { term: 'Pallet truck', category: 'tool', aliases: ['ppt', 'pump truck', 'powered pallet truck', 'electric pallet truck'] },
+  { term: 'CCTV', category: 'tool', aliases: ['cctv monitoring'] },
+  { term: 'JavaScript', category: 'tool', aliases: ['js', 'ecmascript'] },
+  { term: 'TypeScript', category: 'tool' },
+  { term: 'React', category: 'tool', aliases: ['react.js', 'reactjs'] },
+  { term: 'Node.js', category: 'tool', aliases: ['node', 'nodejs'] },
+  { term: 'Python', category: 'tool' },
+  { term: 'Java', category: 'tool' },
+  { term: 'C#', category: 'tool', aliases: ['c sharp', 'asp.net', 'dotnet'] },
+  { term: 'SQL', category: 'tool', aliases: ['mysql', 'postgresql', 'postgres', 'sql server', 't-sql'] },
+  { term: 'AWS', category: 'tool', aliases: ['amazon web services'] },
+  { term: 'Azure', category: 'tool', aliases: ['microsoft azure'] },
+  { term: 'Git', category: 'tool', aliases: ['github', 'gitlab'] },
+  { term: 'Docker', category: 'tool', aliases: ['containerisation'] },
+  { term: 'Kubernetes', category: 'tool', aliases: ['k8s'] },
+  { term: 'Linux', category: 'tool', aliases: ['unix'] },
+  { term: 'Active Directory', category: 'tool', aliases: ['entra id', 'azure ad'] },
+  { term: 'SIEM', category: 'tool', aliases: ['splunk', 'sentinel', 'qradar'] },
+  { term: 'Wireshark', category: 'tool' },
+  { term: 'Power BI', category: 'tool', aliases: ['powerbi'] },
+  { term: 'Tableau', category: 'tool' },
+  { term: 'Xero', category: 'tool', aliases: ['sage', 'quickbooks'] },
+
+  // Skills
+  { term: 'Customer service', category: 'skill', aliases: ['customer care', 'customer support', 'customer facing', 'customer-facing', 'customer experience'] },
+  { term: 'Cash handling', category: 'skill', aliases: ['handling cash', 'cash management', 'cashier'] },
+  { term: 'Stock control', category: 'skill', aliases: ['stock management', 'inventory management', 'stock rotation', 'stock taking', 'stocktaking', 'replenishment'] },
+  { term: 'Pick and pack', category: 'skill', aliases: ['picking and packing', 'order picking', 'picking', 'packing'], cvAliases: ['picked', 'packed'] },
+  { term: 'Goods in', category: 'skill', aliases: ['goods inwards', 'receiving deliveries', 'loading and unloading', 'unloading'] },
+  { term: 'Manual handling', category: 'skill', aliases: ['lifting', 'heavy lifting'] },
+  { term: 'Health and safety', category: 'skill', aliases: ['h and s', 'hse', 'coshh', 'risk assessment', 'risk assessments'] },
+  { term: 'Safeguarding', category: 'skill', aliases: ['safeguarding adults', 'safeguarding children'] },
+  { term: 'Personal care', category: 'skill', aliases: ['personal hygiene support'] },
+  { term: 'Medication administration', category: 'skill', aliases: ['administering medication', 'medication', 'medicines management'] },
+  { term: 'Patrols', category: 'skill', aliases: ['patrolling', 'security patrols'] },
+  { term: 'Access control', category: 'skill', aliases: ['door supervision', 'door supervisor', 'manned guarding'] },
+  { term: 'Incident reporting', category: 'skill', aliases: ['incident reports', 'report writing', 'incident logs'] },
+  { term: 'Food preparation', category: 'skill', aliases: ['food prep', 'cooking'] },
+  { term: 'Cleaning', category: 'skill', aliases: ['housekeeping', 'cleaning schedules'] },
+  { term: 'Data entry', category: 'skill', aliases: ['data input', 'keyboard skills', 'typing'] },
+  { term: 'Data analysis', category: 'skill', aliases: ['data analytics', 'analysing data', 'reporting and analysis'] },
+  { term: 'Project management', category: 'skill', aliases: ['managing projects', 'project delivery'] },
+  { term: 'Stakeholder management', category: 'skill', aliases: ['stakeholder engagement', 'working with stakeholders'] },
+  { term: 'Budgeting', category: 'skill', aliases: ['budget management', 'managing budgets', 'forecasting'] },
+  { term: 'Sales', category: 'skill', aliases: ['selling', 'upselling', 'business development', 'lead generation'] },
+  { term: 'Bookkeeping', category: 'skill', aliases: ['accounts payable', 'accounts receivable', 'reconciliations', 'reconciliation', 'payroll'] },
+  { term: 'Recruitment', category: 'skill', aliases: ['recruiting', 'hiring', 'onboarding'] },
+  { term: 'Agile', category: 'skill', aliases: ['scrum', 'kanban'] },
+  { term: 'Incident response', category: 'skill', aliases: ['security incidents', 'threat detection', 'threat hunting'] },
+  { term: 'Networking', category: 'skill', aliases: ['tcp/ip', 'network administration', 'firewalls', 'firewall'] },
+  { term: 'Technical support', category: 'skill', aliases: ['it support', 'service desk', 'helpdesk', 'help desk', '1st line', '2nd line', 'first line support', 'second line support', 'troubleshooting'] },
+  { term: 'GDPR', category: 'skill', aliases: ['data protection'] },
+  { term: 'Bilingual', category: 'skill', aliases: ['fluent in', 'second language'] },
+
+  // Soft skills
+  { term: 'Communication', category: 'softSkill', aliases: ['communication skills', 'communicator', 'communicate', 'communicating', 'interpersonal skills'] },
+  { term: 'Teamwork', category: 'softSkill', aliases: ['team player', 'part of a team', 'team working', 'work as a team', 'collaboration', 'collaborative', 'collaborate'] },
+  { term: 'Leadership', category: 'softSkill', aliases: ['team leader', 'team leading', 'leading a team', 'lead a team', 'supervising', 'supervisory', 'line management', 'managing a team'] },
+  { term: 'Problem solving', category: 'softSkill', aliases: ['problem-solving', 'problem solver', 'solve problems', 'solving problems'] },
+  { term: 'Attention to detail', category: 'softSkill', aliases: ['eye for detail', 'detail oriented', 'detail-oriented', 'accuracy', 'accurate'] },
+  { term: 'Time management', category: 'softSkill', aliases: ['prioritise', 'prioritising', 'organised', 'organisational skills', 'meet deadlines', 'meeting deadlines', 'deadlines'] },
+  { term: 'Reliability', category: 'softSkill', aliases: ['reliable', 'punctual', 'punctuality', 'dependable', 'good attendance'] },
+  { term: 'Flexibility', category: 'softSkill', aliases: ['flexible', 'adaptable', 'adaptability', 'shift work', 'weekend work'] },
+  { term: 'Working under pressure', category: 'softSkill', aliases: ['under pressure', 'fast-paced', 'fast paced', 'busy environment', 'calm under pressure'] },
+  { term: 'Conflict resolution', category: 'softSkill', aliases: ['conflict management', 'de-escalation', 'deescalation', 'handling complaints', 'complaint handling', 'resolving complaints'] },
+  { term: 'Initiative', category: 'softSkill', aliases: ['self-motivated', 'self motivated', 'proactive', 'use your own initiative', 'work independently', 'working independently'] },
+  { term: 'Empathy', category: 'softSkill', aliases: ['compassionate', 'caring', 'patience'] },
+]
+
+// UK spellings, so "license" and "licence" (etc.) compare equal
+const SPELLINGS: Record<string, string> = {
+  license: 'licence',
+  licensed: 'licenced',
+  licenses: 'licences',
+  organize: 'organise',
+  organized: 'organised',
+  organizational: 'organisational',
+  prioritize: 'prioritise',
+  prioritizing: 'prioritising',
+  analyzing: 'analysing',
+  analyze: 'analyse',
+  containerization: 'containerisation',
+  center: 'centre',
+}
+
+// Words a JD repeats that are not skills ("the ideal candidate will ...")
+const JD_BOILERPLATE = new Set([
+  'ability', 'able', 'apply', 'applicants', 'applications', 'based', 'benefits', 'candidate', 'candidates', 'company', 'competitive',
+  'desirable', 'duties', 'ensure', 'environment', 'essential', 'excellent', 'good', 'great', 'help', 'hour', 'hours', 'ideal', 'including',
+  'job', 'join', 'looking', 'must', 'opportunity', 'please', 'required', 'requirements', 'responsibilities', 'responsible', 'salary',
+  'skill', 'skills', 'strong', 'successful', 'support', 'team', 'within', 'will', 'week', 'well', 'working', 'would', 'your', 'per',
+  'other', 'such', 'should', 'us', 'we', 'any', 'which', 'where', 'when', 'while', 'about', 'across', 'each', 'include', 'includes',
+  'knowledge', 'understanding', 'level', 'full', 'part', 'time', 'permanent', 'contract', 'temporary', 'day', 'days', 'pay',
+].map((word) => normaliseToken(word)))
+
+// Words in front of "licence"/"card" that do not name one ("a valid licence")
+const GENERIC_QUALIFIERS = new Set(['a', 'an', 'the', 'valid', 'full', 'current', 'clean', 'uk', 'relevant', 'your', 'and', 'or', 'with', 'of', 'hold', 'own', 'this', 'required'])
+
+const MAX_EXTRA_KEYWORDS = 8
+
+function normaliseToken(token: string): string {
+  const word = SPELLINGS[token] || token
+  // Light plural stemming, applied to the JD, the dictionary and the CV alike
+  if (word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1)
+  return word
+}
+
+/**
+ * Lowercase ASCII tokens joined by single spaces and padded with a space on
+ * each side, so phrases can be found with a plain ` phrase ` lookup.
+ * Keeps "+", "#" and inner dots ("c#", "security+", "node.js").
+ */
+function normalise(text: string): string {
+  const tokens = toAscii(text || '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9+#.]+/g, ' ')
+    .split(' ')
+    .map((token) => token.replace(/^\.+|\.+$/g, ''))
+    .filter(Boolean)
+    .map(normaliseToken)
+  return tokens.length > 0 ? ` ${tokens.join(' ')} ` : ''
+}
+
+export interface CompiledKeyword {
+  term: string
+  category: KeywordCategory
+  /** Normalised phrases to look for in the JD, longest first */
+  phrases: string[]
+  /** Normalised phrases to look for in the CV */
+  cvPhrases: string[]
+}
+
+const byLength = (a: string, b: string) => b.length - a.length
+const compilePhrases = (phrases: string[]) => Array.from(new Set(phrases.map((phrase) => normalise(phrase)).filter(Boolean))).sort(byLength)
+
+const COMPILED_KEYWORDS: CompiledKeyword[] = KEYWORDS.map((keyword) => {
+  const phrases = compilePhrases([keyword.term, ...(keyword.aliases || [])])
+  return {
+    term: keyword.term,
+    category: keyword.category,
+    phrases,
+    cvPhrases: compilePhrases([...phrases, ...(keyword.cvAliases || [])]),
+  }
+})
+
+// Every dictionary phrase, longest first, so "master's degree" is claimed before "degree"
+const MATCH_ORDER = COMPILED_KEYWORDS.flatMap((keyword, index) => keyword.phrases.map((phrase) => ({ phrase, index }))).sort((a, b) =>
+  byLength(a.phrase, b.phrase)
+)
+
+function containsPhrase(haystack: string, phrases: string[]): boolean {
+  return phrases.some((phrase) => haystack.includes(phrase))
+}
+
+/**
+ * Whether a piece of CV text mentions a job keyword (or one of its synonyms)
+ */
+export function mentionsKeyword(text: string, keyword: CompiledKeyword): boolean {
+  return containsPhrase(normalise(text), keyword.cvPhrases)
+}
+
+/**
+ * Whether the text is made up of dictionary skills, tools and soft skills
+ * ("Customer Service", "Team Leader"), i.e. a common phrase rather than a name
+ */
+export function isDictionaryPhrase(text: string): boolean {
+  let remaining = normalise(text)
+  if (!remaining) return false
+  for (const { phrase, index } of MATCH_ORDER) {
+    if (COMPILED_KEYWORDS[index].category === 'qualification') continue
+    remaining = remaining.split(phrase).join(' ')
+  }
+  return !remaining.trim()
+}
+
+function sectionTexts(cv: CvData): Record<CoverageSection, string> {
+  return {
+    summary: normalise(cv.summary || ''),
+    experience: normalise(
+      (cv.experience || []).flatMap((exp) => [exp.jobTitle || '', exp.company || '', ...(exp.bullets || [])]).join('\n')
+    ),
+    education: normalise((cv.education || []).flatMap((edu) => [edu.degree || '', edu.school || '', edu.details || '']).join('\n')),
+    skills: normalise((cv.skills || []).join('\n')),
+    projects: normalise((cv.projects || []).flatMap((project) => [project.name || '', project.description || '']).join('\n')),
+    certifications: normalise((cv.certifications || []).join('\n')),
+    languages: normalise((cv.languages || []).join('\n')),
+    publications: normalise((cv.publications || []).flatMap((pub) => [pub.title || '', pub.notes || '']).join('\n')),
+    customSections: normalise(
+      (cv.customSections || []).flatMap((section) => (section.items || []).flatMap((item) => [item.title || '', item.subtitle || '', item.description || ''])).join('\n')
+    ),
+  }
+}
+
+/**
+ * Skills, tools, qualifications and soft skills asked for in a job description,
+ * in dictionary order followed by anything picked up from the JD's wording
+ */
+export function extractJobKeywords(jobDescription: string): CompiledKeyword[] {
+  let remaining = normalise(jobDescription)
+  if (!remaining) return []
+
+  // Matched phrases are blanked out so their words are not counted again
+  const matched = new Set<number>()
+  for (const { phrase, index } of MATCH_ORDER) {
+    if (!remaining.includes(phrase)) continue
+    matched.add(index)
+    remaining = remaining.split(phrase).join(' | ')
+  }
+  const found = COMPILED_KEYWORDS.filter((_, index) => matched.has(index))
+  const isKnown = (phrase: string) => found.some((keyword) => keyword.cvPhrases.includes(phrase))
+
+  // Other licences, cards and certificates, e.g. "ADR licence", "CPC card"
+  const qualificationPattern = / ([a-z0-9+]+) (licence|card|badge|certificate|certification|ticket) /g
+  let match: RegExpExecArray | null
+  while ((match = qualificationPattern.exec(remaining)) !== null) {
+    // Step back onto the shared space so consecutive matches are not skipped
+    qualificationPattern.lastIndex -= 1
+    if (GENERIC_QUALIFIERS.has(match[1])) continue
+    const phrase = ` ${match[1]} ${match[2]} `
+    if (isKnown(phrase)) continue
+    const name = match[1].length <= 4 ? match[1].toUpperCase() : match[1].charAt(0).toUpperCase() + match[1].slice(1)
+    found.push({ term: `${name} ${match[2]}`, category: 'qualification', phrases: [phrase], cvPhrases: [phrase] })
+  }
+
+  // Whatever else the JD keeps repeating
+  let extras = 0
+  for (const keyword of rankJobKeywords(remaining.replace(/\|/g, ' '), 40)) {
+    if (extras >= MAX_EXTRA_KEYWORDS) break
+    const token = normaliseToken(keyword)
+    const phrase = ` ${token} `
+    if (JD_BOILERPLATE.has(token) || /^\d+$/.test(token) || isKnown(phrase)) continue
+    if (remaining.split(phrase).length - 1 < 2) continue
+    found.push({ term: token.charAt(0).toUpperCase() + token.slice(1), category: 'skill', phrases: [phrase], cvPhrases: [phrase] })
+    extras++
+  }
+
+  return found
+}
+
+/**
+ * Which of a job description's keywords each CV section covers, with a
+ * coverage score weighted by category
+ */
+export function analyseKeywordCoverage(cv: CvData, jobDescription: string): KeywordCoverageReport {
+  // Hidden sections are not in the exported CV, so their keywords do not count
+  const texts = sectionTexts(withoutHiddenSections(cv))
+  const sectionNames = Object.keys(COVERAGE_SECTION_LABELS) as CoverageSection[]
+
+  const keywords: CoverageKeyword[] = extractJobKeywords(jobDescription).map((keyword) => {
+    const sections = sectionNames.filter((section) => texts[section] && containsPhrase(texts[section], keyword.cvPhrases))
+    return { term: keyword.term, category: keyword.category, present: sections.length > 0, sections }
+  })
+
+  const totalWeight = keywords.reduce((sum, keyword) => sum + CATEGORY_WEIGHTS[keyword.category], 0)
+  const coveredWeight = keywords.filter((keyword) => keyword.present).reduce((sum, keyword) => sum + CATEGORY_WEIGHTS[keyword.category], 0)
+  const score = totalWeight > 0 ? Math.round((coveredWeight / totalWeight) * 100) : 0
+
+  const bySection: CoverageSectionReport[] = sectionNames
+    .filter((section) => texts[section])
+    .map((section) => ({
+      section,
+      label: COVERAGE_SECTION_LABELS[section],
+      present: keywords.filter((keyword) => keyword.sections.includes(section)).map((keyword) => keyword.term),
+      missing: keywords.filter((keyword) => !keyword.sections.includes(section)).map((keyword) => keyword.term),
+    }))
+
+  return {
+    score,
+    keywords,
+    bySection,
+    missing: keywords.filter((keyword) => !keyword.present).map((keyword) => keyword.term),
+  }
+}
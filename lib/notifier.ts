@@ -0,0 +1,85 @@
+/**
+ * Pluggable email notifier
+ * Server-only. Pick the implementation with NOTIFIER:
+ *   NOTIFIER=console   (default) - logs messages instead of sending; for local development
+ *   NOTIFIER=resend    - sends through the Resend HTTP API (RESEND_API_KEY, NOTIFY_FROM_EMAIL)
+ * Other notifiers can be added with registerNotifier().
+ */
+
+export interface NotificationMessage {
+  to: string
+  subject: string
+  text: string
+  html?: string
+}
+
+export interface Notifier {
+  id: string
+  /** Returns a reason when the notifier can't send (e.g. missing API key) */
+  getConfigError(): string | null
+  send(message: NotificationMessage): Promise<void>
+}
+
+const DEFAULT_NOTIFIER_ID = 'console'
+
+const notifiers = new Map<string, Notifier>()
+
+export function registerNotifier(notifier: Notifier): void {
+  notifiers.set(notifier.id, notifier)
+}
+
+/**
+ * The notifier selected by NOTIFIER (falls back to the console stub)
+ */
+export function getNotifier(): Notifier {
+  const id = (process.env.NOTIFIER || DEFAULT_NOTIFIER_ID).trim().toLowerCase()
+  const notifier = notifiers.get(id)
+  if (!notifier) {
+    console.warn(`[Notifier] Unknown notifier "${id}", using ${DEFAULT_NOTIFIER_ID}`)
+    return notifiers.get(DEFAULT_NOTIFIER_ID)!
+  }
+  return notifier
+}
+
+export const consoleNotifier: Notifier = {
+  id: 'console',
+  getConfigError() {
+    return null
+  },
+  async send(message) {
+    console.log(`[Notifier] (console) To: ${message.to} | Subject: ${message.subject}\n${message.text}`)
+  },
+}
+
+export const resendNotifier: Notifier = {
+  id: 'resend',
+  getConfigError() {
+    if (!process.env.RESEND_API_KEY) return 'Missing RESEND_API_KEY'
+    if (!process.env.NOTIFY_FROM_EMAIL) return 'Missing NOTIFY_FROM_EMAIL'
+    return null
+  },
+  async send(message) {
+    const response = await fetch('https://api.resend.com/emails', {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${process.env.RESEND_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        from: process.env.NOTIFY_FROM_EMAIL,
+        to: [message.to],
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      }),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`Resend API error: ${response.status} ${errorText}`)
+    }
+  },
+}
+
+registerNotifier(consoleNotifier)
+registerNotifier(resendNotifier)
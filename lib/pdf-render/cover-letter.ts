@@ -0,0 +1,119 @@
+/**
+ * Cover letter PDF
+ * Same letter as components/cover/Preview.tsx (greeting, body, one closing),
+ * with an optional applicant header and recipient block per layout.
+ */
+
+import type { CoverLetterData, CoverLetterLayout } from '@/lib/cover-library'
+import {
+  A4_HEIGHT_PT,
+  A4_WIDTH_PT,
+  createPdfDocument,
+  drawColumn,
+  drawPageNumbers,
+  gap,
+  paragraphLines,
+  ruleLine,
+  toPdfBuffer,
+  type PdfLine,
+  type PdfTextStyle,
+} from './document'
+
+const MARGIN_X = 60
+const MARGIN_TOP = 56
+const MARGIN_BOTTOM = 56
+
+export interface CoverLetterPdfData
+  extends Pick<CoverLetterData, 'recipientName' | 'company' | 'cityState' | 'role' | 'letterBody' | 'applicantName'> {
+  layout?: CoverLetterLayout
+  contact?: { email?: string; phone?: string; location?: string }
+  /** Shown above the recipient block, e.g. "12 March 2025" */
+  date?: string
+}
+
+const ACCENT_BY_LAYOUT: Record<CoverLetterLayout, string> = {
+  minimal: '#1a1a1a',
+  modern: '#6d28d9',
+  corporate: '#1e3a5f',
+  portfolio: '#a21caf',
+}
+
+const SIGN_OFF_PATTERN = /^(sincerely|kind regards|best regards|warm regards|regards|yours sincerely|yours faithfully|respectfully|best wishes|thank you)[,.!]?$/i
+
+/**
+ * Body without its own greeting or sign-off: the PDF always adds exactly one of each
+ */
+export function cleanCoverLetterBody(body: string): string {
+  const lines = body.replace(/\r\n?/g, '\n').trim().split('\n')
+  if (lines.length > 0 && /^dear\s+.+[,:]?\s*$/i.test(lines[0].trim())) lines.shift()
+
+  const signOffIndex = lines.findIndex((line) => SIGN_OFF_PATTERN.test(line.trim()))
+  const kept = signOffIndex >= 0 && signOffIndex >= lines.length - 4 ? lines.slice(0, signOffIndex) : lines
+  return kept.join('\n').trim()
+}
+
+export function renderCoverLetterPdf(letter: CoverLetterPdfData): Buffer {
+  const layout = letter.layout || 'minimal'
+  const accent = ACCENT_BY_LAYOUT[layout]
+  const applicantName = letter.applicantName?.trim() || 'Your Name'
+  const doc = createPdfDocument({
+    title: letter.company ? `Cover letter – ${letter.company}` : 'Cover letter',
+    author: letter.applicantName?.trim(),
+    subject: letter.role ? `Application for ${letter.role}` : 'Cover letter',
+  })
+
+  const width = A4_WIDTH_PT - MARGIN_X * 2
+  const body: PdfTextStyle = { family: 'sans', style: 'normal', size: 11, color: '#1a1a1a', lineHeight: 1.55 }
+  const muted: PdfTextStyle = { ...body, size: 9.5, color: '#4a4a4a', lineHeight: 1.4 }
+  const keep = (lines: PdfLine[]) => lines.map((line) => ({ ...line, keepWithNext: true }))
+  const lines: PdfLine[] = []
+
+  // Applicant header (not for minimal, which matches the on-screen preview)
+  if (layout !== 'minimal') {
+    lines.push(...keep(paragraphLines(doc, applicantName, { ...body, size: 18, style: 'bold', color: accent, lineHeight: 1.2 }, width)))
+    const contact = [letter.contact?.email, letter.contact?.phone, letter.contact?.location].filter(Boolean).join('   ·   ')
+    if (contact) lines.push(...keep(paragraphLines(doc, contact, muted, width)))
+    lines.push(gap(6, true))
+    lines.push(ruleLine(accent, layout === 'portfolio' ? 2 : 0.8, 18))
+  }
+
+  // Date and recipient block
+  const recipient = [letter.recipientName, letter.company, letter.cityState].map((item) => item?.trim()).filter(Boolean) as string[]
+  if (letter.date) {
+    lines.push(...paragraphLines(doc, letter.date, body, width))
+    lines.push(gap(10))
+  }
+  if (recipient.length > 0) {
+    recipient.forEach((item) => lines.push(...paragraphLines(doc, item, body, width)))
+    lines.push(gap(12))
+  }
+  if (letter.role?.trim()) {
+    lines.push(...paragraphLines(doc, `Re: ${letter.role.trim()}`, { ...body, style: 'bold' }, width))
+    lines.push(gap(12))
+  }
+
+  // Greeting, body, closing
+  lines.push(...keep(paragraphLines(doc, `Dear ${letter.recipientName?.trim() || 'Hiring Manager'},`, body, width)))
+  lines.push(gap(10, true))
+
+  const paragraphs = cleanCoverLetterBody(letter.letterBody || '')
+    .split(/\n\s*\n|\n/)
+    .map((paragraph) => paragraph.trim())
+    .filter(Boolean)
+  paragraphs.forEach((paragraph, index) => {
+    if (index > 0) lines.push(gap(9))
+    lines.push(...paragraphLines(doc, paragraph, body, width))
+  })
+
+  // The closing never starts a page on its own
+  if (lines.length > 0) lines[lines.length - 1] = { ...lines[lines.length - 1], keepWithNext: true }
+  lines.push(gap(22, true))
+  lines.push(...keep(paragraphLines(doc, 'Sincerely,', body, width)))
+  lines.push(gap(6, true))
+  lines.push(...paragraphLines(doc, applicantName, layout === 'minimal' ? body : { ...body, style: 'bold' }, width))
+
+  drawColumn(doc, lines, { x: MARGIN_X, width, top: MARGIN_TOP, bottom: A4_HEIGHT_PT - MARGIN_BOTTOM })
+  drawPageNumbers(doc, { ...muted, size: 8, lineHeight: 1.2 }, MARGIN_BOTTOM)
+
+  return toPdfBuffer(doc)
+}
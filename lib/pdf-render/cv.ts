@@ -0,0 +1,407 @@
+/**
+ * CV PDF templates
+ * Server-rendered equivalents of the CvPreview templates: the same sections,
+ * order and headings, laid out directly from CvData. 'customizeStyle' is the
+ * ATS Classic layout with the builder's CvCustomizationOptions applied.
+ */
+
+import type { jsPDF } from 'jspdf'
+import type { CvData, CvSectionId, CvTemplateId } from '@/lib/cv-schema'
+import type { CvCustomizationOptions } from '@/components/cv-builder-v2/CvCustomizationPanel'
+import {
+  contactItems,
+  formatPeriod,
+  formatPublication,
+  orderSections,
+  resolveCvExportStyle,
+  toUrl,
+  visibleEducation,
+  visibleExperience,
+  visibleCustomSections,
+  visibleList,
+  visibleProjects,
+  visiblePublications,
+} from '@/lib/cv-export'
+import { SECTION_HEADINGS } from '@/lib/cv-sections'
+import {
+  A4_HEIGHT_PT,
+  A4_WIDTH_PT,
+  createPdfDocument,
+  drawColumn,
+  drawPageNumbers,
+  drawTextLine,
+  gap,
+  lineHeightOf,
+  measureText,
+  paragraphLines,
+  ruleLine,
+  toPdfBuffer,
+  wrapText,
+  type PdfFontFamily,
+  type PdfLine,
+  type PdfTextStyle,
+} from './document'
+
+const MARGIN_X = 42
+const MARGIN_TOP = 40
+const MARGIN_BOTTOM = 44
+
+const COLORS = {
+  text: '#1a1a1a',
+  strong: '#000000',
+  muted: '#4a4a4a',
+  light: '#666666',
+  rule: '#2c2c2c',
+  sidebarRule: '#d1d5db',
+  headingRule: '#cccccc',
+  link: '#0066cc',
+}
+
+interface CvPdfTheme {
+  family: PdfFontFamily
+  body: PdfTextStyle
+  muted: PdfTextStyle
+  meta: PdfTextStyle
+  entryTitle: PdfTextStyle
+  entryCompany: PdfTextStyle
+  name: PdfTextStyle
+  heading: PdfTextStyle
+  sidebarHeading: PdfTextStyle
+  sidebarText: PdfTextStyle
+  link: PdfTextStyle
+  footer: PdfTextStyle
+  headingUnderline: boolean
+  sectionGap: number
+}
+
+function buildTheme(template: CvTemplateId, options?: CvCustomizationOptions): CvPdfTheme {
+  const { fontFamily: family, fontSize: size, lineHeight, headingBold, headingUnderline, sectionGap, customized } =
+    resolveCvExportStyle(template, options)
+  const headingStyle = headingBold ? 'bold' : 'normal'
+
+  const style = (overrides: Partial<PdfTextStyle>): PdfTextStyle => ({
+    family,
+    style: 'normal',
+    size,
+    color: COLORS.text,
+    lineHeight,
+    ...overrides,
+  })
+
+  return {
+    family,
+    body: style({}),
+    muted: style({ color: COLORS.muted }),
+    meta: style({ size: size - 0.5, color: COLORS.light, style: 'italic', lineHeight: 1.4 }),
+    entryTitle: style({ size: size + 0.5, style: 'bold', color: COLORS.strong }),
+    entryCompany: style({ size: size + 0.5 }),
+    name: style({ size: template === 'twoColumnPro' ? 17 : 20, style: customized ? headingStyle : 'bold', color: COLORS.strong, lineHeight: 1.2 }),
+    heading: style({ size: size + 1, style: headingStyle, color: COLORS.strong, lineHeight: 1.3, charSpace: 0.6 }),
+    sidebarHeading: style({ size: size - 0.5, style: 'bold', color: COLORS.rule, lineHeight: 1.3, charSpace: 0.8 }),
+    sidebarText: style({ size: size - 1, color: COLORS.muted, lineHeight: 1.4 }),
+    link: style({ size: size - 0.5, color: COLORS.link }),
+    footer: style({ size: 8, color: COLORS.light, lineHeight: 1.2 }),
+    headingUnderline,
+    sectionGap,
+  }
+}
+
+function headingLines(doc: jsPDF, text: string, style: PdfTextStyle, width: number, options: { underline?: string; spaceAfter: number }): PdfLine[] {
+  const lines = wrapText(doc, text.toUpperCase(), style, width).map((lineText): PdfLine => ({
+    height: lineHeightOf(style),
+    keepWithNext: true,
+    draw: (pdf, x, top, columnWidth) => {
+      drawTextLine(pdf, lineText, style, x, top)
+      if (options.underline) {
+        pdf.setDrawColor(options.underline)
+        pdf.setLineWidth(0.6)
+        pdf.line(x, top + lineHeightOf(style), x + columnWidth, top + lineHeightOf(style))
+      }
+    },
+  }))
+  return [...lines, gap(options.spaceAfter, true)]
+}
+
+/**
+ * Title + company on the left, dates on the right, then location and bullets.
+ * The header stays on the same page as the first bullet.
+ */
+function entryLines(
+  doc: jsPDF,
+  theme: CvPdfTheme,
+  width: number,
+  entry: { title: string; subtitle?: string; date?: string; location?: string; bullets?: string[]; details?: string }
+): PdfLine[] {
+  const lines: PdfLine[] = []
+  const date = entry.date || ''
+  const dateStyle: PdfTextStyle = { ...theme.muted, size: theme.body.size - 0.5 }
+  const dateWidth = date ? measureText(doc, date, dateStyle) + 8 : 0
+  const headerWidth = width - dateWidth
+  const subtitle = entry.subtitle ? `, ${entry.subtitle}` : ''
+  const lineHeight = lineHeightOf(theme.entryTitle)
+
+  const fitsOneLine = measureText(doc, entry.title, theme.entryTitle) + measureText(doc, subtitle, theme.entryCompany) <= headerWidth
+  if (fitsOneLine) {
+    lines.push({
+      height: lineHeight,
+      keepWithNext: true,
+      draw: (pdf, x, top, columnWidth) => {
+        drawTextLine(pdf, entry.title, theme.entryTitle, x, top)
+        if (subtitle) {
+          drawTextLine(pdf, subtitle, theme.entryCompany, x + measureText(pdf, entry.title, theme.entryTitle), top)
+        }
+        if (date) drawTextLine(pdf, date, dateStyle, x + columnWidth, top + (lineHeight - lineHeightOf(dateStyle)) / 2, { align: 'right' })
+      },
+    })
+  } else {
+    const titleLines = wrapText(doc, entry.title, theme.entryTitle, headerWidth)
+    titleLines.forEach((lineText, index) => {
+      lines.push({
+        height: lineHeight,
+        keepWithNext: true,
+        draw: (pdf, x, top, columnWidth) => {
+          drawTextLine(pdf, lineText, theme.entryTitle, x, top)
+          if (index === 0 && date) drawTextLine(pdf, date, dateStyle, x + columnWidth, top + (lineHeight - lineHeightOf(dateStyle)) / 2, { align: 'right' })
+        },
+      })
+    })
+    if (entry.subtitle) {
+      lines.push(...paragraphLines(doc, entry.subtitle, theme.entryCompany, headerWidth).map((line) => ({ ...line, keepWithNext: true })))
+    }
+  }
+
+  if (entry.location) {
+    lines.push(...paragraphLines(doc, entry.location, theme.meta, width).map((line) => ({ ...line, keepWithNext: true })))
+  }
+
+  if (entry.details) {
+    lines.push(...paragraphLines(doc, entry.details, { ...theme.muted, size: theme.body.size - 0.5 }, width))
+  }
+
+  const bullets = (entry.bullets || []).filter((bullet) => bullet.trim())
+  bullets.forEach((bullet, index) => {
+    lines.push(gap(1.5, index === 0))
+    lines.push(...paragraphLines(doc, bullet, theme.body, width, {
+      indent: 9,
+      marker: '•',
+      markerStyle: { ...theme.body, style: 'bold', color: COLORS.rule },
+    }))
+  })
+
+  // Nothing after the header: let the last header line break normally
+  const last = lines[lines.length - 1]
+  if (last && !bullets.length && !entry.details) last.keepWithNext = false
+
+  return lines
+}
+
+/**
+ * Main-column sections shared by both templates (summary, experience,
+ * education, projects and custom sections), keyed by section id
+ */
+function mainSections(doc: jsPDF, cv: CvData, theme: CvPdfTheme, width: number, headingUnderline?: string): Partial<Record<CvSectionId, PdfLine[]>> {
+  const sections: Partial<Record<CvSectionId, PdfLine[]>> = {}
+  const heading = (text: string) => headingLines(doc, text, theme.heading, width, { underline: headingUnderline, spaceAfter: headingUnderline ? 6 : 4 })
+
+  const summary = (cv.summary || '').trim()
+  if (summary) {
+    const lines = heading(SECTION_HEADINGS.summary)
+    summary.split(/\n\s*\n/).forEach((paragraph, index) => {
+      if (index > 0) lines.push(gap(4))
+      lines.push(...paragraphLines(doc, paragraph.replace(/\s*\n\s*/g, ' '), theme.body, width))
+    })
+    sections.summary = lines
+  }
+
+  const experience = visibleExperience(cv)
+  if (experience.length > 0) {
+    const lines = heading(SECTION_HEADINGS.experience)
+    experience.forEach((exp, index) => {
+      if (index > 0) lines.push(gap(9))
+      lines.push(...entryLines(doc, theme, width, {
+        title: exp.jobTitle,
+        subtitle: exp.company,
+        date: formatPeriod(exp.startDate, exp.endDate, exp.isCurrent),
+        location: exp.location,
+        bullets: exp.bullets,
+      }))
+    })
+    sections.experience = lines
+  }
+
+  const education = visibleEducation(cv)
+  if (education.length > 0) {
+    const lines = heading(SECTION_HEADINGS.education)
+    education.forEach((edu, index) => {
+      if (index > 0) lines.push(gap(6))
+      lines.push(...entryLines(doc, theme, width, {
+        title: edu.degree,
+        subtitle: edu.school,
+        date: edu.year,
+        details: edu.details,
+      }))
+    })
+    sections.education = lines
+  }
+
+  const projects = visibleProjects(cv)
+  if (projects.length > 0) {
+    const lines = heading(SECTION_HEADINGS.projects)
+    projects.forEach((project, index) => {
+      if (index > 0) lines.push(gap(6))
+      lines.push(...paragraphLines(doc, project.name, { ...theme.entryTitle, lineHeight: 1.4 }, width).map((line) => ({ ...line, keepWithNext: true })))
+      if (project.description) lines.push(...paragraphLines(doc, project.description, { ...theme.muted, size: theme.body.size - 0.5 }, width))
+      if (project.url) lines.push(...paragraphLines(doc, project.url, theme.link, width, { url: toUrl(project.url) }))
+    })
+    sections.projects = lines
+  }
+
+  // Volunteering, awards, references and other custom sections
+  visibleCustomSections(cv).forEach((section) => {
+    const lines = heading(section.heading)
+    if (section.note) lines.push(...paragraphLines(doc, section.note, theme.body, width))
+    section.items.forEach((item, index) => {
+      if (index > 0) lines.push(gap(6))
+      lines.push(...entryLines(doc, theme, width, {
+        title: item.title,
+        subtitle: item.subtitle,
+        date: item.date,
+        details: item.description,
+      }))
+    })
+    sections[section.key] = lines
+  })
+
+  return sections
+}
+
+function joinSections(sections: PdfLine[][], spacing: number): PdfLine[] {
+  return sections.flatMap((section, index) => (index > 0 ? [gap(spacing), ...section] : section))
+}
+
+function renderAtsClassic(doc: jsPDF, cv: CvData, theme: CvPdfTheme): void {
+  const width = A4_WIDTH_PT - MARGIN_X * 2
+  const lines: PdfLine[] = []
+
+  // Header: name, contact line, rule
+  lines.push(...paragraphLines(doc, cv.personalInfo.fullName || 'Your Name', theme.name, width).map((line) => ({ ...line, keepWithNext: true })))
+  const contact = contactItems(cv)
+  if (contact.length > 0) {
+    lines.push(gap(3, true))
+    lines.push(...paragraphLines(doc, contact.join('   ·   '), { ...theme.muted, size: theme.body.size - 0.5, lineHeight: 1.4 }, width))
+  }
+  lines.push(gap(6))
+  lines.push(ruleLine(COLORS.rule, 1.5))
+
+  const headingUnderline = theme.headingUnderline ? COLORS.strong : undefined
+  const sections = mainSections(doc, cv, theme, width, headingUnderline)
+  const heading = (text: string) => headingLines(doc, text, theme.heading, width, { underline: headingUnderline, spaceAfter: headingUnderline ? 6 : 4 })
+
+  // Single column: every section in the CV's section order (ATS Classic order by default)
+  const skills = visibleList(cv.skills)
+  if (skills.length > 0) {
+    sections.skills = [...heading(SECTION_HEADINGS.skills), ...paragraphLines(doc, skills.join(' • '), { ...theme.body, lineHeight: 1.6 }, width)]
+  }
+
+  const certifications = visibleList(cv.certifications)
+  if (certifications.length > 0) {
+    sections.certifications = [
+      ...heading(SECTION_HEADINGS.certifications),
+      ...certifications.flatMap((cert) => paragraphLines(doc, cert, theme.body, width, {
+        indent: 9,
+        marker: '•',
+        markerStyle: { ...theme.body, style: 'bold', color: COLORS.rule },
+      })),
+    ]
+  }
+
+  const languages = visibleList(cv.languages)
+  if (languages.length > 0) {
+    sections.languages = [...heading(SECTION_HEADINGS.languages), ...paragraphLines(doc, languages.join(' • '), { ...theme.body, lineHeight: 1.6 }, width)]
+  }
+
+  const publications = visiblePublications(cv)
+  if (publications.length > 0) {
+    const pubLines = heading(SECTION_HEADINGS.publications)
+    publications.forEach((pub, index) => {
+      if (index > 0) pubLines.push(gap(6))
+      pubLines.push(...paragraphLines(doc, formatPublication(pub), theme.body, width))
+      if (pub.notes) pubLines.push(...paragraphLines(doc, pub.notes, { ...theme.muted, size: theme.body.size - 1, style: 'italic', lineHeight: 1.4 }, width))
+    })
+    sections.publications = pubLines
+  }
+
+  lines.push(gap(theme.sectionGap))
+  lines.push(...joinSections(orderSections(cv, sections), theme.sectionGap))
+
+  drawColumn(doc, lines, { x: MARGIN_X, width, top: MARGIN_TOP, bottom: A4_HEIGHT_PT - MARGIN_BOTTOM })
+}
+
+function renderTwoColumnPro(doc: jsPDF, cv: CvData, theme: CvPdfTheme): void {
+  const contentWidth = A4_WIDTH_PT - MARGIN_X * 2
+  const sidebarWidth = contentWidth * 0.32 - 10
+  const mainX = MARGIN_X + contentWidth * 0.32 + 10
+  const mainWidth = A4_WIDTH_PT - MARGIN_X - mainX
+  const bottom = A4_HEIGHT_PT - MARGIN_BOTTOM
+
+  // Sidebar: name and contact, then skills, languages, certifications and publications in section order
+  const sidebarHeading = (text: string) => [
+    ...headingLines(doc, text, theme.sidebarHeading, sidebarWidth, { spaceAfter: 3 }),
+    { ...ruleLine(COLORS.sidebarRule, 0.6, 5), keepWithNext: true },
+  ]
+  const sidebarList = (items: string[], spacing: number) =>
+    items.flatMap((item, index) => [...(index > 0 ? [gap(spacing)] : []), ...paragraphLines(doc, item, theme.sidebarText, sidebarWidth)])
+
+  const sidebarSections: PdfLine[][] = [
+    [
+      ...paragraphLines(doc, cv.personalInfo.fullName || 'Your Name', theme.name, sidebarWidth),
+      gap(8),
+      ruleLine(COLORS.sidebarRule, 0.6),
+    ],
+    [...sidebarHeading('Contact Information'), ...sidebarList(contactItems(cv), 2)],
+  ]
+
+  const skills = visibleList(cv.skills)
+  const languages = visibleList(cv.languages)
+  const certifications = visibleList(cv.certifications)
+  const publications = visiblePublications(cv)
+  sidebarSections.push(...orderSections(cv, {
+    skills: skills.length > 0 ? [...sidebarHeading(SECTION_HEADINGS.skills), ...sidebarList(skills, 1)] : null,
+    languages: languages.length > 0 ? [...sidebarHeading(SECTION_HEADINGS.languages), ...sidebarList(languages, 1)] : null,
+    certifications: certifications.length > 0 ? [...sidebarHeading(SECTION_HEADINGS.certifications), ...sidebarList(certifications, 2)] : null,
+    publications: publications.length > 0 ? [...sidebarHeading(SECTION_HEADINGS.publications), ...sidebarList(publications.map(formatPublication), 5)] : null,
+  }))
+
+  // Main: summary, experience, education, projects and custom sections in section order
+  const mainLines = orderSections(cv, mainSections(doc, cv, theme, mainWidth, COLORS.headingRule))
+
+  const sidebarLastPage = drawColumn(doc, joinSections(sidebarSections, theme.sectionGap), { x: MARGIN_X, width: sidebarWidth, top: MARGIN_TOP, bottom })
+  drawColumn(doc, joinSections(mainLines, theme.sectionGap), { x: mainX, width: mainWidth, top: MARGIN_TOP, bottom })
+
+  // Sidebar divider on every page the sidebar reaches
+  const dividerX = MARGIN_X + contentWidth * 0.32
+  for (let page = 1; page <= sidebarLastPage; page++) {
+    doc.setPage(page)
+    doc.setDrawColor(COLORS.sidebarRule)
+    doc.setLineWidth(0.6)
+    doc.line(dividerX, MARGIN_TOP, dividerX, bottom)
+  }
+}
+
+/**
+ * Render a CV as a PDF for the given template
+ */
+export function renderCvPdf(cv: CvData, template: CvTemplateId, options?: CvCustomizationOptions): Buffer {
+  const name = cv.personalInfo?.fullName?.trim()
+  const doc = createPdfDocument({ title: name ? `${name} – CV` : 'CV', author: name, subject: 'Curriculum Vitae' })
+  const theme = buildTheme(template, options)
+
+  if (template === 'twoColumnPro') {
+    renderTwoColumnPro(doc, cv, theme)
+  } else {
+    renderAtsClassic(doc, cv, theme)
+  }
+
+  drawPageNumbers(doc, theme.footer, MARGIN_BOTTOM)
+  return toPdfBuffer(doc)
+}
@@ -0,0 +1,281 @@
+/**
+ * Server-side PDF layout
+ * Builds vector PDFs with selectable text using jsPDF (Node build) instead of
+ * rasterising the browser preview. Content is turned into a flat list of
+ * measured lines, then paginated with keep-with-next rules so headings,
+ * role headers and short paragraphs never end up stranded at a page bottom.
+ *
+ * The sans face (Liberation Sans, metric-compatible with Arial) is embedded
+ * from public/fonts; serif and mono use the PDF standard Times and Courier.
+ */
+
+import { readFileSync } from 'fs'
+import path from 'path'
+import { jsPDF } from 'jspdf'
+
+export const A4_WIDTH_PT = 595.28
+export const A4_HEIGHT_PT = 841.89
+
+export type PdfFontFamily = 'sans' | 'serif' | 'mono'
+export type PdfFontStyle = 'normal' | 'bold' | 'italic' | 'bolditalic'
+
+export interface PdfTextStyle {
+  family: PdfFontFamily
+  style: PdfFontStyle
+  size: number // pt
+  color: string // hex
+  lineHeight: number // multiple of size
+  charSpace?: number
+}
+
+/**
+ * One measured, unbreakable piece of content in a column.
+ * `draw` gets the top-left corner of the line box and the column width.
+ */
+export interface PdfLine {
+  height: number
+  draw?: (doc: jsPDF, x: number, top: number, width: number) => void
+  /** Move to the next page together with the following line */
+  keepWithNext?: boolean
+  /** Vertical space only: dropped at the top or bottom of a page */
+  isGap?: boolean
+}
+
+export interface PdfFrame {
+  x: number
+  width: number
+  top: number
+  bottom: number
+}
+
+const SANS_FONT_NAME = 'LiberationSans'
+const SANS_FONT_FILES: Record<PdfFontStyle, string> = {
+  normal: 'LiberationSans-Regular.ttf',
+  bold: 'LiberationSans-Bold.ttf',
+  italic: 'LiberationSans-Italic.ttf',
+  bolditalic: 'LiberationSans-BoldItalic.ttf',
+}
+
+let sansFontData: Record<PdfFontStyle, string> | null = null
+
+function loadSansFonts(): Record<PdfFontStyle, string> {
+  if (!sansFontData) {
+    const fontDir = path.join(process.cwd(), 'public', 'fonts')
+    sansFontData = Object.fromEntries(
+      (Object.keys(SANS_FONT_FILES) as PdfFontStyle[]).map((style) => [
+        style,
+        readFileSync(path.join(fontDir, SANS_FONT_FILES[style])).toString('base64'),
+      ])
+    ) as Record<PdfFontStyle, string>
+  }
+  return sansFontData
+}
+
+/**
+ * New A4 portrait document (pt units) with the embedded fonts registered
+ */
+export function createPdfDocument(meta: { title: string; author?: string; subject?: string }): jsPDF {
+  const doc = new jsPDF({ unit: 'pt', format: 'a4', orientation: 'portrait', compress: true })
+
+  const fonts = loadSansFonts()
+  for (const style of Object.keys(SANS_FONT_FILES) as PdfFontStyle[]) {
+    doc.addFileToVFS(SANS_FONT_FILES[style], fonts[style])
+    doc.addFont(SANS_FONT_FILES[style], SANS_FONT_NAME, style, undefined, 'Identity-H')
+  }
+
+  doc.setProperties({
+    title: meta.title,
+    author: meta.author || '',
+    subject: meta.subject || '',
+    creator: 'JobAZ',
+  })
+
+  return doc
+}
+
+function fontName(family: PdfFontFamily): string {
+  if (family === 'serif') return 'times'
+  if (family === 'mono') return 'courier'
+  return SANS_FONT_NAME
+}
+
+export function applyTextStyle(doc: jsPDF, style: PdfTextStyle): void {
+  doc.setFont(fontName(style.family), style.style)
+  doc.setFontSize(style.size)
+  doc.setTextColor(style.color)
+  doc.setCharSpace(style.charSpace || 0)
+}
+
+export function measureText(doc: jsPDF, text: string, style: PdfTextStyle): number {
+  applyTextStyle(doc, style)
+  return doc.getTextWidth(text) + (style.charSpace || 0) * text.length
+}
+
+/**
+ * Word-wrap text to a width; explicit newlines are kept
+ */
+export function wrapText(doc: jsPDF, text: string, style: PdfTextStyle, width: number): string[] {
+  applyTextStyle(doc, style)
+  return text
+    .split('\n')
+    .flatMap((paragraph) => (paragraph.trim() ? (doc.splitTextToSize(paragraph.trim(), width) as string[]) : ['']))
+}
+
+export function lineHeightOf(style: PdfTextStyle): number {
+  return style.size * style.lineHeight
+}
+
+/**
+ * Draw one line of text inside a line box (vertically centred like CSS line-height)
+ */
+export function drawTextLine(
+  doc: jsPDF,
+  text: string,
+  style: PdfTextStyle,
+  x: number,
+  top: number,
+  options: { align?: 'left' | 'right' | 'center'; url?: string } = {}
+): void {
+  applyTextStyle(doc, style)
+  const baselineTop = top + (lineHeightOf(style) - style.size) / 2
+  doc.text(text, x, baselineTop, { baseline: 'top', align: options.align || 'left' })
+  if (options.url) {
+    const width = measureText(doc, text, style)
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x
+    doc.link(left, baselineTop, width, style.size, { url: options.url })
+  }
+}
+
+/**
+ * Wrapped paragraph as lines. Orphan/widow control: the first two and last
+ * two lines of a paragraph stay on the same page.
+ */
+export function paragraphLines(
+  doc: jsPDF,
+  text: string,
+  style: PdfTextStyle,
+  width: number,
+  options: { indent?: number; marker?: string; markerStyle?: PdfTextStyle; url?: string } = {}
+): PdfLine[] {
+  const indent = options.indent || 0
+  const wrapped = wrapText(doc, text, style, width - indent)
+  const height = lineHeightOf(style)
+
+  return wrapped.map((lineText, index) => ({
+    height,
+    keepWithNext: wrapped.length > 1 && (index === 0 || index === wrapped.length - 2),
+    draw: (pdf, x, top) => {
+      if (index === 0 && options.marker) {
+        drawTextLine(pdf, options.marker, options.markerStyle || style, x, top)
+      }
+      drawTextLine(pdf, lineText, style, x + indent, top, { url: options.url })
+    },
+  }))
+}
+
+export function gap(height: number, keepWithNext = false): PdfLine {
+  return { height, isGap: true, keepWithNext }
+}
+
+export function ruleLine(color: string, thickness: number, spaceAfter = 0): PdfLine {
+  return {
+    height: thickness + spaceAfter,
+    draw: (doc, x, top, width) => {
+      doc.setDrawColor(color)
+      doc.setLineWidth(thickness)
+      doc.line(x, top + thickness / 2, x + width, top + thickness / 2)
+    },
+  }
+}
+
+/**
+ * Split lines into pages of at most `pageHeight`. A run of lines joined by
+ * keepWithNext moves to the next page as a whole (unless the run is taller
+ * than a page, in which case it simply breaks). Gaps at a page top are dropped.
+ */
+export function paginateLines(lines: PdfLine[], pageHeight: number): PdfLine[][] {
+  const pages: PdfLine[][] = [[]]
+  let used = 0
+
+  let index = 0
+  while (index < lines.length) {
+    // Collect the run starting here
+    let end = index
+    let runHeight = lines[index].height
+    while (lines[end].keepWithNext && end + 1 < lines.length) {
+      end++
+      runHeight += lines[end].height
+    }
+
+    const page = pages[pages.length - 1]
+    const line = lines[index]
+
+    if (line.isGap) {
+      if (page.length > 0 && used + line.height <= pageHeight) {
+        page.push(line)
+        used += line.height
+      }
+      index++
+      continue
+    }
+
+    const fitsRun = used + runHeight <= pageHeight
+    const runFitsEmptyPage = runHeight <= pageHeight
+
+    if (!fitsRun && page.length > 0 && (runFitsEmptyPage || used + line.height > pageHeight)) {
+      // Drop trailing gaps and start a new page
+      while (page.length > 0 && page[page.length - 1].isGap) {
+        used -= page.pop()!.height
+      }
+      pages.push([])
+      used = 0
+      continue
+    }
+
+    pages[pages.length - 1].push(line)
+    used += line.height
+    index++
+  }
+
+  return pages.filter((page, pageIndex) => page.length > 0 || pageIndex === 0)
+}
+
+/**
+ * Draw paginated lines into a frame starting on `startPage`, adding pages as needed.
+ * Returns the last page used.
+ */
+export function drawColumn(doc: jsPDF, lines: PdfLine[], frame: PdfFrame, startPage = 1): number {
+  const pages = paginateLines(lines, frame.bottom - frame.top)
+
+  pages.forEach((pageLines, offset) => {
+    const pageNumber = startPage + offset
+    while (doc.getNumberOfPages() < pageNumber) doc.addPage()
+    doc.setPage(pageNumber)
+
+    let top = frame.top
+    for (const line of pageLines) {
+      line.draw?.(doc, frame.x, top, frame.width)
+      top += line.height
+    }
+  })
+
+  return startPage + pages.length - 1
+}
+
+/**
+ * "Page n of m" footer on every page when the document has more than one page
+ */
+export function drawPageNumbers(doc: jsPDF, style: PdfTextStyle, bottomMargin: number): void {
+  const total = doc.getNumberOfPages()
+  if (total < 2) return
+  for (let page = 1; page <= total; page++) {
+    doc.setPage(page)
+    drawTextLine(doc, `Page ${page} of ${total}`, style, A4_WIDTH_PT / 2, A4_HEIGHT_PT - bottomMargin / 2 - lineHeightOf(style) / 2, {
+      align: 'center',
+    })
+  }
+}
+
+export function toPdfBuffer(doc: jsPDF): Buffer {
+  return Buffer.from(doc.output('arraybuffer'))
+}
@@ -0,0 +1,104 @@
+'use client'
+
+import { useState, useCallback } from 'react'
+import type { DragEvent, KeyboardEvent } from 'react'
+
+interface DragState {
+  list: string
+  from: number
+  over: number | null
+}
+
+export interface DragReorderBinding {
+  /** Spread on the row that moves */
+  item: {
+    draggable: boolean
+    onDragStart: (e: DragEvent) => void
+    onDragOver: (e: DragEvent) => void
+    onDrop: (e: DragEvent) => void
+    onDragEnd: () => void
+  }
+  /** Spread on the grip button inside the row */
+  handle: {
+    onMouseDown: () => void
+    onMouseUp: () => void
+    onKeyDown: (e: KeyboardEvent) => void
+    title: string
+    'aria-label': string
+  }
+  isDragging: boolean
+  isOver: boolean
+}
+
+export interface UseDragReorderReturn {
+  /**
+   * Bindings for row `index` of `list` (any name unique within the component).
+   * `onMove(from, to)` receives the indices for moveListItem.
+   */
+  bind: (list: string, index: number, count: number, onMove: (from: number, to: number) => void) => DragReorderBinding
+}
+
+/**
+ * React hook for reordering lists with native drag and drop
+ * - A row only becomes draggable while its grip is held, so text inside it stays selectable
+ * - Drops from another list are ignored
+ * - The grip also moves its row with the up and down arrow keys
+ */
+export function useDragReorder(): UseDragReorderReturn {
+  const [armed, setArmed] = useState<{ list: string; index: number } | null>(null)
+  const [drag, setDrag] = useState<DragState | null>(null)
+
+  const bind = useCallback(
+    (list: string, index: number, count: number, onMove: (from: number, to: number) => void): DragReorderBinding => ({
+      item: {
+        draggable: armed?.list === list && armed.index === index,
+        onDragStart: (e) => {
+          e.stopPropagation()
+          e.dataTransfer.effectAllowed = 'move'
+          // Firefox only starts a drag when data is set
+          e.dataTransfer.setData('text/plain', `${list}:${index}`)
+          setDrag({ list, from: index, over: null })
+        },
+        onDragOver: (e) => {
+          if (drag?.list !== list) return
+          e.preventDefault()
+          e.stopPropagation()
+          e.dataTransfer.dropEffect = 'move'
+          if (drag.over !== index) setDrag({ ...drag, over: index })
+        },
+        onDrop: (e) => {
+          if (drag?.list !== list) return
+          e.preventDefault()
+          e.stopPropagation()
+          if (drag.from !== index) onMove(drag.from, index)
+          setDrag(null)
+          setArmed(null)
+        },
+        onDragEnd: () => {
+          setDrag(null)
+          setArmed(null)
+        },
+      },
+      handle: {
+        onMouseDown: () => setArmed({ list, index }),
+        onMouseUp: () => setArmed(null),
+        onKeyDown: (e) => {
+          if (e.key === 'ArrowUp' && index > 0) {
+            e.preventDefault()
+            onMove(index, index - 1)
+          } else if (e.key === 'ArrowDown' && index < count - 1) {
+            e.preventDefault()
+            onMove(index, index + 1)
+          }
+        },
+        title: 'Drag to reorder (or use the arrow keys)',
+        'aria-label': `Move item ${index + 1} of ${count}`,
+      },
+      isDragging: drag?.list === list && drag.from === index,
+      isOver: drag?.list === list && drag.over === index && drag.from !== index,
+    }),
+    [armed, drag]
+  )
+
+  return { bind }
+}
@@ -0,0 +1,36 @@
+-- CV library: several named CVs per user plus a version history per CV
+-- Previously the cvs table was treated as "one latest CV per user"
+
+ALTER TABLE public.cvs ADD COLUMN IF NOT EXISTS title text NOT NULL DEFAULT 'My CV';
+ALTER TABLE public.cvs ADD COLUMN IF NOT EXISTS data jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+-- Allow more than one CV per user (drop the legacy one-row-per-user constraint if present)
+ALTER TABLE public.cvs DROP CONSTRAINT IF EXISTS cvs_user_id_key;
+
+CREATE INDEX IF NOT EXISTS idx_cvs_user_id_updated_at ON public.cvs(user_id, updated_at DESC);
+
+CREATE TABLE IF NOT EXISTS public.cv_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  cv_id uuid NOT NULL REFERENCES public.cvs(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title text,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cv_versions_cv_id_created_at ON public.cv_versions(cv_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_cv_versions_user_id ON public.cv_versions(user_id);
+
+ALTER TABLE public.cv_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can select their own CV versions"
+  ON public.cv_versions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own CV versions"
+  ON public.cv_versions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own CV versions"
+  ON public.cv_versions FOR DELETE
+  USING (auth.uid() = user_id);
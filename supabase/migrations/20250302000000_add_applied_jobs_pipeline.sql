@@ -0,0 +1,25 @@
+-- Applied jobs pipeline: stages with timestamped history, notes and links to
+-- the CV version / cover letter that were sent with the application
+
+ALTER TABLE public.applied_jobs ADD COLUMN IF NOT EXISTS stage text NOT NULL DEFAULT 'applied';
+ALTER TABLE public.applied_jobs ADD COLUMN IF NOT EXISTS stage_history jsonb NOT NULL DEFAULT '[]'::jsonb;
+ALTER TABLE public.applied_jobs ADD COLUMN IF NOT EXISTS notes text;
+ALTER TABLE public.applied_jobs ADD COLUMN IF NOT EXISTS cv_id uuid REFERENCES public.cvs(id) ON DELETE SET NULL;
+ALTER TABLE public.applied_jobs ADD COLUMN IF NOT EXISTS cv_version_id uuid REFERENCES public.cv_versions(id) ON DELETE SET NULL;
+ALTER TABLE public.applied_jobs ADD COLUMN IF NOT EXISTS cover_letter_id uuid REFERENCES public.cover_letters(id) ON DELETE SET NULL;
+-- Cover letters are overwritten in place, so keep the text that was actually sent
+ALTER TABLE public.applied_jobs ADD COLUMN IF NOT EXISTS cover_letter_snapshot text;
+ALTER TABLE public.applied_jobs ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+ALTER TABLE public.applied_jobs DROP CONSTRAINT IF EXISTS applied_jobs_stage_check;
+ALTER TABLE public.applied_jobs ADD CONSTRAINT applied_jobs_stage_check
+  CHECK (stage IN ('saved', 'applied', 'screening', 'interview', 'offer', 'rejected', 'withdrawn'));
+
+-- Existing rows were all submitted applications: seed their history
+UPDATE public.applied_jobs
+SET stage_history = jsonb_build_array(
+  jsonb_build_object('stage', stage, 'at', COALESCE(applied_at, now()))
+)
+WHERE stage_history = '[]'::jsonb;
+
+CREATE INDEX IF NOT EXISTS idx_applied_jobs_user_id_stage ON public.applied_jobs(user_id, stage);
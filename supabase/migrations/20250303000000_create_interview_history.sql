@@ -0,0 +1,50 @@
+-- Interview practice history: every answer from the interview coach
+-- (written, voice, hard mode, simulation) with its scores and feedback
+
+CREATE TABLE IF NOT EXISTS public.interview_training (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  job_id text,
+  question text NOT NULL,
+  answer text NOT NULL,
+  score numeric(4,1),
+  strengths jsonb,
+  weaknesses jsonb,
+  improved_answer text,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+-- Older installs created job_id as NOT NULL and score as an integer
+ALTER TABLE public.interview_training ALTER COLUMN job_id DROP NOT NULL;
+ALTER TABLE public.interview_training ALTER COLUMN score TYPE numeric(4,1);
+
+ALTER TABLE public.interview_training ADD COLUMN IF NOT EXISTS mode text NOT NULL DEFAULT 'written';
+ALTER TABLE public.interview_training ADD COLUMN IF NOT EXISTS category text NOT NULL DEFAULT 'general';
+ALTER TABLE public.interview_training ADD COLUMN IF NOT EXISTS category_scores jsonb;
+ALTER TABLE public.interview_training ADD COLUMN IF NOT EXISTS feedback text;
+ALTER TABLE public.interview_training ADD COLUMN IF NOT EXISTS job_title text;
+ALTER TABLE public.interview_training ADD COLUMN IF NOT EXISTS company text;
+
+ALTER TABLE public.interview_training DROP CONSTRAINT IF EXISTS interview_training_mode_check;
+ALTER TABLE public.interview_training ADD CONSTRAINT interview_training_mode_check
+  CHECK (mode IN ('written', 'voice', 'hard', 'simulation'));
+
+CREATE INDEX IF NOT EXISTS idx_interview_training_user_id_created_at ON public.interview_training(user_id, created_at DESC);
+
+ALTER TABLE public.interview_training ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own interview training" ON public.interview_training;
+DROP POLICY IF EXISTS "Users can insert their own interview training" ON public.interview_training;
+DROP POLICY IF EXISTS "Users can delete their own interview training" ON public.interview_training;
+
+CREATE POLICY "Users can view their own interview training"
+  ON public.interview_training FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own interview training"
+  ON public.interview_training FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own interview training"
+  ON public.interview_training FOR DELETE
+  USING (auth.uid() = user_id);
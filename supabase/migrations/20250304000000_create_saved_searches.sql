@@ -0,0 +1,81 @@
+-- Saved job searches with new-match alerts
+-- A saved search stores keyword, location and filters (see lib/jobs/filters.ts).
+-- The scheduled route /api/jobs/saved-searches/run re-runs alert-enabled searches,
+-- diffs results against seen_job_ids and records new matches.
+
+CREATE TABLE IF NOT EXISTS public.saved_searches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  keyword text NOT NULL,
+  location text NOT NULL DEFAULT 'UK',
+  filters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  alerts_enabled boolean NOT NULL DEFAULT true,
+  seen_job_ids text[] NOT NULL DEFAULT '{}',
+  last_run_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user_id ON public.saved_searches(user_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_alerts ON public.saved_searches(alerts_enabled) WHERE alerts_enabled;
+
+CREATE TABLE IF NOT EXISTS public.saved_search_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  saved_search_id uuid NOT NULL REFERENCES public.saved_searches(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  job_id text NOT NULL,
+  job jsonb NOT NULL DEFAULT '{}'::jsonb,
+  found_at timestamptz NOT NULL DEFAULT now(),
+  seen_at timestamptz,
+  notified_at timestamptz,
+
+  -- One match per job per saved search
+  UNIQUE(saved_search_id, job_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_user_unseen
+  ON public.saved_search_matches(user_id, found_at DESC)
+  WHERE seen_at IS NULL;
+
+-- Enable Row Level Security
+ALTER TABLE public.saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.saved_search_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can select their own saved searches"
+  ON public.saved_searches
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own saved searches"
+  ON public.saved_searches
+  FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved searches"
+  ON public.saved_searches
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved searches"
+  ON public.saved_searches
+  FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Matches are inserted by the scheduled run (service role); users read, mark seen and dismiss
+CREATE POLICY "Users can select their own saved search matches"
+  ON public.saved_search_matches
+  FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own saved search matches"
+  ON public.saved_search_matches
+  FOR UPDATE
+  USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own saved search matches"
+  ON public.saved_search_matches
+  FOR DELETE
+  USING (auth.uid() = user_id);
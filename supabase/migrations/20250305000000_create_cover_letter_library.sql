@@ -0,0 +1,43 @@
+-- Cover letter library: several letters per user, each linked to the job it
+-- was written for (job_key = UnifiedJob.id) and the CV version it was written
+-- from, plus a version history per letter
+-- Previously cover_letters was treated as "one latest letter per user"
+
+ALTER TABLE public.cover_letters ADD COLUMN IF NOT EXISTS title text NOT NULL DEFAULT 'Cover Letter';
+ALTER TABLE public.cover_letters ADD COLUMN IF NOT EXISTS data jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE public.cover_letters ADD COLUMN IF NOT EXISTS job_key text;
+ALTER TABLE public.cover_letters ADD COLUMN IF NOT EXISTS cv_id uuid REFERENCES public.cvs(id) ON DELETE SET NULL;
+ALTER TABLE public.cover_letters ADD COLUMN IF NOT EXISTS cv_version_id uuid REFERENCES public.cv_versions(id) ON DELETE SET NULL;
+
+-- Allow more than one letter per user (drop the legacy one-row-per-user constraint if present)
+ALTER TABLE public.cover_letters DROP CONSTRAINT IF EXISTS cover_letters_user_id_key;
+
+CREATE INDEX IF NOT EXISTS idx_cover_letters_user_id_updated_at ON public.cover_letters(user_id, updated_at DESC);
+CREATE INDEX IF NOT EXISTS idx_cover_letters_user_id_job_key ON public.cover_letters(user_id, job_key);
+
+CREATE TABLE IF NOT EXISTS public.cover_letter_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  cover_letter_id uuid NOT NULL REFERENCES public.cover_letters(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  title text,
+  cv_version_id uuid REFERENCES public.cv_versions(id) ON DELETE SET NULL,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_cover_letter_versions_cover_letter_id_created_at ON public.cover_letter_versions(cover_letter_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_cover_letter_versions_user_id ON public.cover_letter_versions(user_id);
+
+ALTER TABLE public.cover_letter_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can select their own cover letter versions"
+  ON public.cover_letter_versions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert their own cover letter versions"
+  ON public.cover_letter_versions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own cover letter versions"
+  ON public.cover_letter_versions FOR DELETE
+  USING (auth.uid() = user_id);